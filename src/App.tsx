@@ -1,5 +1,5 @@
 import React from 'react';
-import { BrowserRouter as Router, Routes, Route, Link } from 'react-router-dom';
+import { BrowserRouter as Router, Routes, Route, Link, Navigate } from 'react-router-dom';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { Toaster } from 'sonner';
 import ProductCatalog from '@/components/ProductCatalog';
@@ -11,7 +11,35 @@ import ProductionManagement from '@/components/ProductionManagement';
 import RecipeManagement from '@/components/RecipeManagement';
 import ProductionProcessing from '@/components/ProductionProcessing';
 import PurchaseReports from '@/components/PurchaseReports';
-import { Package, ShoppingCart, BarChart3, ShoppingBag, Factory, ListPlus, BarChart2 } from 'lucide-react';
+import MarginReport from '@/components/MarginReport';
+import Settings from '@/components/Settings';
+import PromotionManagement from '@/components/PromotionManagement';
+import ReturnsManagement from '@/components/ReturnsManagement';
+import OrderHistory from '@/components/OrderHistory';
+import OrderDetail from '@/components/OrderDetail';
+import CashDrawer from '@/components/CashDrawer';
+import SyncStatus from '@/components/SyncStatus';
+import CustomerManagement from '@/components/CustomerManagement';
+import CustomerProfile from '@/components/CustomerProfile';
+import GiftCardManagement from '@/components/GiftCardManagement';
+import AuthProvider from '@/components/AuthProvider';
+import Login from '@/components/Login';
+import RequireRole from '@/components/RequireRole';
+import StaffManagement from '@/components/StaffManagement';
+import AuditLog from '@/components/AuditLog';
+import StockLedger from '@/components/StockLedger';
+import StocktakeManagement from '@/components/StocktakeManagement';
+import StocktakeCount from '@/components/StocktakeCount';
+import StockTransfers from '@/components/StockTransfers';
+import PurchaseOrders from '@/components/PurchaseOrders';
+import PurchaseOrderDetail from '@/components/PurchaseOrderDetail';
+import Suppliers from '@/components/Suppliers';
+import SupplierDetail from '@/components/SupplierDetail';
+import { Button } from '@/components/ui/button';
+import { toast } from 'sonner';
+import { useAuth } from '@/hooks/use-auth';
+import { AREA_ROLES, ROLE_LABELS, Role } from '@/lib/roles';
+import { Package, ShoppingCart, BarChart3, ShoppingBag, Factory, ListPlus, BarChart2, Tag, RotateCcw, Receipt, Banknote, Users, Gift, UserCog, History, ArrowLeftRight, ClipboardList, Truck, FileText, Building2, TrendingUp, LogOut, Settings as SettingsIcon, LucideIcon } from 'lucide-react';
 
 const queryClient = new QueryClient({
   defaultOptions: {
@@ -20,92 +48,245 @@ const queryClient = new QueryClient({
       gcTime: 1000 * 60 * 5, // 5 minutes
       refetchOnWindowFocus: true,
       refetchOnMount: true,
-      refetchOnReconnect: true
+      refetchOnReconnect: true,
+      // Run queries even when the browser reports no network, so the
+      // IndexedDB fallbacks in the POS get a chance to answer.
+      networkMode: 'offlineFirst'
+    },
+    mutations: {
+      networkMode: 'offlineFirst'
     }
   }
 });
 
-const App: React.FC = () => {
+interface NavItem {
+  to: string;
+  label: string;
+  icon: LucideIcon;
+  roles: Role[];
+}
+
+const NAV_ITEMS: NavItem[] = [
+  { to: '/', label: 'Products', icon: Package, roles: AREA_ROLES.products },
+  { to: '/pos', label: 'POS', icon: ShoppingCart, roles: AREA_ROLES.pos },
+  { to: '/orders', label: 'Orders', icon: Receipt, roles: AREA_ROLES.orders },
+  { to: '/customers', label: 'Customers', icon: Users, roles: AREA_ROLES.customers },
+  { to: '/returns', label: 'Returns', icon: RotateCcw, roles: AREA_ROLES.returns },
+  { to: '/gift-cards', label: 'Gift Cards', icon: Gift, roles: AREA_ROLES.giftCards },
+  { to: '/cash', label: 'Cash', icon: Banknote, roles: AREA_ROLES.cash },
+  { to: '/inventory', label: 'Inventory', icon: BarChart3, roles: AREA_ROLES.inventory },
+  { to: '/stock', label: 'Stock Ledger', icon: ArrowLeftRight, roles: AREA_ROLES.inventory },
+  { to: '/stocktake', label: 'Stocktake', icon: ClipboardList, roles: AREA_ROLES.inventory },
+  { to: '/transfers', label: 'Transfers', icon: Truck, roles: AREA_ROLES.inventory },
+  { to: '/purchases', label: 'Purchases', icon: ShoppingBag, roles: AREA_ROLES.purchases },
+  { to: '/purchase-orders', label: 'Purchase Orders', icon: FileText, roles: AREA_ROLES.purchases },
+  { to: '/suppliers', label: 'Suppliers', icon: Building2, roles: AREA_ROLES.purchases },
+  { to: '/purchase-reports', label: 'Purchase Reports', icon: BarChart2, roles: AREA_ROLES.purchases },
+  { to: '/margins', label: 'Margins', icon: TrendingUp, roles: AREA_ROLES.margins },
+  { to: '/production', label: 'Production', icon: Factory, roles: AREA_ROLES.production },
+  { to: '/recipes', label: 'Recipes', icon: ListPlus, roles: AREA_ROLES.production },
+  { to: '/promotions', label: 'Promotions', icon: Tag, roles: AREA_ROLES.promotions },
+  { to: '/settings', label: 'Settings', icon: SettingsIcon, roles: AREA_ROLES.settings },
+  { to: '/audit', label: 'Audit', icon: History, roles: AREA_ROLES.audit },
+  { to: '/staff', label: 'Staff', icon: UserCog, roles: AREA_ROLES.staff }
+];
+
+// Products is the home page, but staff who cannot manage products start on
+// the first page they can open instead, e.g. cashiers on the POS.
+const Home: React.FC = () => {
+  const { hasRole } = useAuth();
+  const firstAllowed = NAV_ITEMS.find(item => hasRole(...item.roles));
+
+  if (firstAllowed && !hasRole(...AREA_ROLES.products)) {
+    return <Navigate to={firstAllowed.to} replace />;
+  }
+
   return (
-    <QueryClientProvider client={queryClient}>
-      <Router>
-        <div className="min-h-screen bg-gray-50">
-          <nav className="bg-white border-b">
-            <div className="max-w-7xl mx-auto px-4">
-              <div className="flex justify-between h-16">
-                <div className="flex">
-                  <div className="flex-shrink-0 flex items-center">
-                    <h1 className="text-xl font-bold text-pos-primary">NeonPOS</h1>
-                  </div>
-                  <div className="hidden sm:ml-6 sm:flex sm:space-x-8">
-                    <Link
-                      to="/"
-                      className="border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700 inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium"
-                    >
-                      <Package className="h-4 w-4 mr-2" />
-                      Products
-                    </Link>
-                    <Link
-                      to="/pos"
-                      className="border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700 inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium"
-                    >
-                      <ShoppingCart className="h-4 w-4 mr-2" />
-                      POS
-                    </Link>
-                    <Link
-                      to="/inventory"
-                      className="border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700 inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium"
-                    >
-                      <BarChart3 className="h-4 w-4 mr-2" />
-                      Inventory
-                    </Link>
-                    <Link
-                      to="/purchases"
-                      className="border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700 inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium"
-                    >
-                      <ShoppingBag className="h-4 w-4 mr-2" />
-                      Purchases
-                    </Link>
-                    <Link
-                      to="/purchase-reports"
-                      className="border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700 inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium"
-                    >
-                      <BarChart2 className="h-4 w-4 mr-2" />
-                      Purchase Reports
-                    </Link>
-                    <Link
-                      to="/production"
-                      className="border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700 inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium"
-                    >
-                      <Factory className="h-4 w-4 mr-2" />
-                      Production
-                    </Link>
-                    <Link
-                      to="/recipes"
-                      className="border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700 inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium"
-                    >
-                      <ListPlus className="h-4 w-4 mr-2" />
-                      Recipes
-                    </Link>
-                  </div>
-                </div>
+    <RequireRole roles={AREA_ROLES.products}>
+      <ProductCatalog />
+    </RequireRole>
+  );
+};
+
+const AppShell: React.FC = () => {
+  const { session, roles, staffName, hasRole, signOut } = useAuth();
+  const navItems = session ? NAV_ITEMS.filter(item => hasRole(...item.roles)) : [];
+
+  const handleSignOut = async () => {
+    try {
+      await signOut();
+    } catch (error) {
+      toast.error(`Failed to sign out: ${(error as Error).message}`);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <nav className="bg-white border-b">
+        <div className="max-w-7xl mx-auto px-4">
+          <div className="flex justify-between h-16">
+            <div className="flex">
+              <div className="flex-shrink-0 flex items-center">
+                <h1 className="text-xl font-bold text-pos-primary">NeonPOS</h1>
+              </div>
+              <div className="hidden sm:ml-6 sm:flex sm:space-x-8">
+                {navItems.map(({ to, label, icon: Icon }) => (
+                  <Link
+                    key={to}
+                    to={to}
+                    className="border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700 inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium"
+                  >
+                    <Icon className="h-4 w-4 mr-2" />
+                    {label}
+                  </Link>
+                ))}
               </div>
             </div>
-          </nav>
-
-          <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
-            <Routes>
-              <Route path="/" element={<ProductCatalog />} />
-              <Route path="/pos" element={<POSInterface />} />
-              <Route path="/order-success" element={<OrderSuccess />} />
-              <Route path="/inventory" element={<InventoryDashboard />} />
-              <Route path="/purchases" element={<PurchaseManagement />} />
-              <Route path="/purchase-reports" element={<PurchaseReports />} />
-              <Route path="/production" element={<ProductionProcessing />} />
-              <Route path="/recipes" element={<RecipeManagement />} />
-            </Routes>
-          </main>
+            <div className="flex items-center gap-4">
+              <SyncStatus />
+              {session && (
+                <>
+                  <div className="text-right">
+                    <p className="text-sm font-medium text-gray-800">{staffName}</p>
+                    <p className="text-xs text-gray-500">
+                      {roles.map(role => ROLE_LABELS[role]).join(', ') || 'No role'}
+                    </p>
+                  </div>
+                  <Button variant="ghost" size="sm" onClick={handleSignOut} title="Sign out">
+                    <LogOut className="h-4 w-4" />
+                  </Button>
+                </>
+              )}
+            </div>
+          </div>
         </div>
+      </nav>
+
+      <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        <Routes>
+          <Route path="/login" element={<Login />} />
+          <Route path="/" element={<Home />} />
+          <Route
+            path="/pos"
+            element={<RequireRole roles={AREA_ROLES.pos}><POSInterface /></RequireRole>}
+          />
+          <Route
+            path="/order-success"
+            element={<RequireRole roles={AREA_ROLES.pos}><OrderSuccess /></RequireRole>}
+          />
+          <Route
+            path="/orders"
+            element={<RequireRole roles={AREA_ROLES.orders}><OrderHistory /></RequireRole>}
+          />
+          <Route
+            path="/orders/:orderNumber"
+            element={<RequireRole roles={AREA_ROLES.orders}><OrderDetail /></RequireRole>}
+          />
+          <Route
+            path="/customers"
+            element={<RequireRole roles={AREA_ROLES.customers}><CustomerManagement /></RequireRole>}
+          />
+          <Route
+            path="/customers/:id"
+            element={<RequireRole roles={AREA_ROLES.customers}><CustomerProfile /></RequireRole>}
+          />
+          <Route
+            path="/returns"
+            element={<RequireRole roles={AREA_ROLES.returns}><ReturnsManagement /></RequireRole>}
+          />
+          <Route
+            path="/gift-cards"
+            element={<RequireRole roles={AREA_ROLES.giftCards}><GiftCardManagement /></RequireRole>}
+          />
+          <Route
+            path="/cash"
+            element={<RequireRole roles={AREA_ROLES.cash}><CashDrawer /></RequireRole>}
+          />
+          <Route
+            path="/inventory"
+            element={<RequireRole roles={AREA_ROLES.inventory}><InventoryDashboard /></RequireRole>}
+          />
+          <Route
+            path="/stock"
+            element={<RequireRole roles={AREA_ROLES.inventory}><StockLedger /></RequireRole>}
+          />
+          <Route
+            path="/stocktake"
+            element={<RequireRole roles={AREA_ROLES.inventory}><StocktakeManagement /></RequireRole>}
+          />
+          <Route
+            path="/stocktake/:id"
+            element={<RequireRole roles={AREA_ROLES.inventory}><StocktakeCount /></RequireRole>}
+          />
+          <Route
+            path="/transfers"
+            element={<RequireRole roles={AREA_ROLES.inventory}><StockTransfers /></RequireRole>}
+          />
+          <Route
+            path="/purchases"
+            element={<RequireRole roles={AREA_ROLES.purchases}><PurchaseManagement /></RequireRole>}
+          />
+          <Route
+            path="/purchase-orders"
+            element={<RequireRole roles={AREA_ROLES.purchases}><PurchaseOrders /></RequireRole>}
+          />
+          <Route
+            path="/purchase-orders/:id"
+            element={<RequireRole roles={AREA_ROLES.purchases}><PurchaseOrderDetail /></RequireRole>}
+          />
+          <Route
+            path="/suppliers"
+            element={<RequireRole roles={AREA_ROLES.purchases}><Suppliers /></RequireRole>}
+          />
+          <Route
+            path="/suppliers/:id"
+            element={<RequireRole roles={AREA_ROLES.purchases}><SupplierDetail /></RequireRole>}
+          />
+          <Route
+            path="/purchase-reports"
+            element={<RequireRole roles={AREA_ROLES.purchases}><PurchaseReports /></RequireRole>}
+          />
+          <Route
+            path="/margins"
+            element={<RequireRole roles={AREA_ROLES.margins}><MarginReport /></RequireRole>}
+          />
+          <Route
+            path="/production"
+            element={<RequireRole roles={AREA_ROLES.production}><ProductionProcessing /></RequireRole>}
+          />
+          <Route
+            path="/recipes"
+            element={<RequireRole roles={AREA_ROLES.production}><RecipeManagement /></RequireRole>}
+          />
+          <Route
+            path="/promotions"
+            element={<RequireRole roles={AREA_ROLES.promotions}><PromotionManagement /></RequireRole>}
+          />
+          <Route
+            path="/settings"
+            element={<RequireRole roles={AREA_ROLES.settings}><Settings /></RequireRole>}
+          />
+          <Route
+            path="/audit"
+            element={<RequireRole roles={AREA_ROLES.audit}><AuditLog /></RequireRole>}
+          />
+          <Route
+            path="/staff"
+            element={<RequireRole roles={AREA_ROLES.staff}><StaffManagement /></RequireRole>}
+          />
+        </Routes>
+      </main>
+    </div>
+  );
+};
+
+const App: React.FC = () => {
+  return (
+    <QueryClientProvider client={queryClient}>
+      <Router>
+        <AuthProvider>
+          <AppShell />
+        </AuthProvider>
         <Toaster />
       </Router>
     </QueryClientProvider>
@@ -1,5 +1,6 @@
 
 import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
 import { Product } from '@/types/product';
 import {
   Dialog,
@@ -13,7 +14,11 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
 import { toast } from 'sonner';
+import SupplierCombobox from '@/components/SupplierCombobox';
+import { useAuth } from '@/hooks/use-auth';
+import { AREA_ROLES } from '@/lib/roles';
 
 interface AddProductModalProps {
   isOpen: boolean;
@@ -28,7 +33,13 @@ const EMPTY_PRODUCT = {
   price: 0,
   category: '',
   sku: '',
+  barcode: '',
+  alternateCodes: [] as string[],
   stock: 0,
+  isGiftCard: false,
+  reorderPoint: null,
+  reorderQuantity: null,
+  preferredSupplierId: null,
 };
 
 const AddProductModal: React.FC<AddProductModalProps> = ({
@@ -37,6 +48,7 @@ const AddProductModal: React.FC<AddProductModalProps> = ({
   onSave,
   editingProduct,
 }) => {
+  const { hasRole } = useAuth();
   const [formData, setFormData] = useState<Partial<Product>>(
     editingProduct || EMPTY_PRODUCT
   );
@@ -45,6 +57,22 @@ const AddProductModal: React.FC<AddProductModalProps> = ({
     e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>
   ) => {
     const { name, value } = e.target;
+    if (name === 'alternateCodes') {
+      // Entered as a comma-separated list.
+      setFormData({
+        ...formData,
+        alternateCodes: value.split(',').map(code => code.trim()),
+      });
+      return;
+    }
+    if (name === 'reorderPoint' || name === 'reorderQuantity') {
+      // Left empty when the product is not reordered.
+      setFormData({
+        ...formData,
+        [name]: value === '' ? null : parseFloat(value),
+      });
+      return;
+    }
     setFormData({
       ...formData,
       [name]: name === 'price' || name === 'stock' ? parseFloat(value) : value,
@@ -59,7 +87,11 @@ const AddProductModal: React.FC<AddProductModalProps> = ({
       return;
     }
     
-    onSave(formData);
+    onSave({
+      ...formData,
+      barcode: formData.barcode?.trim() || undefined,
+      alternateCodes: (formData.alternateCodes || []).filter(Boolean),
+    });
     setFormData(EMPTY_PRODUCT);
     onClose();
   };
@@ -138,19 +170,141 @@ const AddProductModal: React.FC<AddProductModalProps> = ({
             </div>
             
             <div className="grid grid-cols-4 items-center gap-4">
-              <Label htmlFor="stock" className="text-right">
-                Stock
+              <Label htmlFor="barcode" className="text-right">
+                Barcode
               </Label>
               <Input
-                id="stock"
-                name="stock"
-                type="number"
-                min="0"
-                value={formData.stock}
+                id="barcode"
+                name="barcode"
+                value={formData.barcode || ''}
                 onChange={handleChange}
+                // Scanners end with Enter, which would otherwise submit the form.
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') e.preventDefault();
+                }}
+                placeholder="Scan or type"
                 className="col-span-3"
               />
             </div>
+
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="alternateCodes" className="text-right">
+                Alt. Codes
+              </Label>
+              <Input
+                id="alternateCodes"
+                name="alternateCodes"
+                value={(formData.alternateCodes || []).join(', ')}
+                onChange={handleChange}
+                placeholder="Comma separated"
+                className="col-span-3"
+              />
+            </div>
+            
+            {/* Stock is only entered for a new product; after that it moves through the ledger */}
+            {editingProduct ? (
+              !formData.isGiftCard && (
+                <div className="grid grid-cols-4 items-start gap-4">
+                  <Label className="text-right">Stock</Label>
+                  <div className="col-span-3 text-sm">
+                    <p className="text-gray-900">{editingProduct.stock} on hand</p>
+                    <p className="text-xs text-gray-500 mt-1">
+                      To correct it, count it in a{' '}
+                      {hasRole(...AREA_ROLES.inventory) ? (
+                        <Link to="/stocktake" className="text-pos-primary hover:underline" onClick={onClose}>
+                          stocktake
+                        </Link>
+                      ) : (
+                        'stocktake'
+                      )}
+                      .
+                    </p>
+                  </div>
+                </div>
+              )
+            ) : (
+              <div className="grid grid-cols-4 items-center gap-4">
+                <Label htmlFor="stock" className="text-right">
+                  Opening Stock
+                </Label>
+                <Input
+                  id="stock"
+                  name="stock"
+                  type="number"
+                  min="0"
+                  value={formData.stock}
+                  onChange={handleChange}
+                  className="col-span-3"
+                  disabled={formData.isGiftCard}
+                />
+              </div>
+            )}
+
+            {!formData.isGiftCard && (
+              <>
+                <div className="grid grid-cols-4 items-start gap-4">
+                  <Label htmlFor="reorderPoint" className="text-right pt-3">
+                    Reorder At
+                  </Label>
+                  <div className="col-span-3">
+                    <div className="flex gap-2">
+                      <Input
+                        id="reorderPoint"
+                        name="reorderPoint"
+                        type="number"
+                        min="0"
+                        step="any"
+                        value={formData.reorderPoint ?? ''}
+                        onChange={handleChange}
+                        placeholder="Stock level"
+                      />
+                      <Input
+                        id="reorderQuantity"
+                        name="reorderQuantity"
+                        type="number"
+                        min="0"
+                        step="any"
+                        value={formData.reorderQuantity ?? ''}
+                        onChange={handleChange}
+                        placeholder="Order quantity"
+                      />
+                    </div>
+                    <p className="text-xs text-gray-500 mt-1">
+                      Flagged on the inventory dashboard once stock falls to this level.
+                    </p>
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-4 items-center gap-4">
+                  <Label className="text-right">
+                    Supplier
+                  </Label>
+                  <div className="col-span-3">
+                    <SupplierCombobox
+                      value={formData.preferredSupplierId ?? null}
+                      onChange={(supplierId) => setFormData({ ...formData, preferredSupplierId: supplierId })}
+                      placeholder="Usually bought from"
+                    />
+                  </div>
+                </div>
+              </>
+            )}
+
+            <div className="grid grid-cols-4 items-start gap-4">
+              <Label htmlFor="isGiftCard" className="text-right pt-1">
+                Gift Card
+              </Label>
+              <div className="col-span-3 flex items-start gap-2">
+                <Checkbox
+                  id="isGiftCard"
+                  checked={formData.isGiftCard ?? false}
+                  onCheckedChange={(checked) => setFormData({ ...formData, isGiftCard: checked === true })}
+                />
+                <p className="text-sm text-gray-500">
+                  Each one sold issues a gift card worth the price. Use a category with no tax rates.
+                </p>
+              </div>
+            </div>
             
             <div className="grid grid-cols-4 items-start gap-4">
               <Label htmlFor="description" className="text-right pt-2">
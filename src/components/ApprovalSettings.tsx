@@ -0,0 +1,237 @@
+import React, { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { toast } from 'sonner';
+import { ShieldCheck } from 'lucide-react';
+import { format } from 'date-fns';
+import { APPROVAL_ACTION_LABELS } from '@/lib/approvals';
+import { ApprovalAction } from '@/types/approval';
+import { AUDIT_SOURCE_HEADER } from '@/lib/audit';
+
+// The signed-in manager's PIN, the refund approval threshold and the log of
+// approvals given.
+const ApprovalSettings: React.FC = () => {
+  const [pinForm, setPinForm] = useState({ pin: '', confirm: '' });
+  const [threshold, setThreshold] = useState('');
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['approvals', 'settings'],
+    queryFn: async () => {
+      const [settingsResult, approvalsResult] = await Promise.all([
+        supabase.from('store_settings').select('refund_approval_threshold').eq('id', 1).maybeSingle(),
+        supabase
+          .from('manager_approvals')
+          .select('*')
+          .order('created_at', { ascending: false })
+          .limit(100)
+      ]);
+
+      if (settingsResult.error) throw settingsResult.error;
+      if (approvalsResult.error) throw approvalsResult.error;
+
+      return {
+        threshold: settingsResult.data?.refund_approval_threshold ?? null,
+        approvals: approvalsResult.data
+      };
+    }
+  });
+
+  useEffect(() => {
+    if (data) {
+      setThreshold(data.threshold?.toString() ?? '');
+    }
+  }, [data]);
+
+  const setPinMutation = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase.rpc('set_manager_pin', { p_pin: pinForm.pin });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      setPinForm({ pin: '', confirm: '' });
+      toast.success('Manager PIN saved');
+    },
+    onError: (error) => {
+      toast.error(`Failed to save PIN: ${error.message}`);
+    }
+  });
+
+  const saveThresholdMutation = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase
+        .from('store_settings')
+        .upsert({
+          id: 1,
+          refund_approval_threshold: threshold.trim() ? parseFloat(threshold) : null,
+          updated_at: new Date().toISOString()
+        })
+        .setHeader(AUDIT_SOURCE_HEADER, 'settings');
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['approvals'] });
+      toast.success('Approval settings saved');
+    },
+    onError: (error) => {
+      toast.error(`Failed to save approval settings: ${error.message}`);
+    }
+  });
+
+  const handleSetPin = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!/^[0-9]{4,8}$/.test(pinForm.pin)) {
+      toast.error('A PIN must be 4 to 8 digits');
+      return;
+    }
+    if (pinForm.pin !== pinForm.confirm) {
+      toast.error('The PINs do not match');
+      return;
+    }
+    setPinMutation.mutate();
+  };
+
+  const handleSaveThreshold = (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = parseFloat(threshold);
+    if (threshold.trim() && (isNaN(value) || value < 0)) {
+      toast.error('The threshold must be zero or more, or blank to never ask');
+      return;
+    }
+    saveThresholdMutation.mutate();
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-pos-primary"></div>
+      </div>
+    );
+  }
+
+  const approvals = data?.approvals ?? [];
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <form onSubmit={handleSetPin} className="bg-white rounded-lg shadow-sm p-6 space-y-4">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-800">Your Manager PIN</h2>
+            <p className="text-sm text-gray-600">
+              Entered on another user's screen to approve voids, price overrides, product deletes, large refunds and no sales.
+            </p>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">New PIN</label>
+              <Input
+                type="password"
+                inputMode="numeric"
+                autoComplete="new-password"
+                maxLength={8}
+                value={pinForm.pin}
+                onChange={(e) => setPinForm(prev => ({ ...prev, pin: e.target.value.replace(/\D/g, '') }))}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Confirm PIN</label>
+              <Input
+                type="password"
+                inputMode="numeric"
+                autoComplete="new-password"
+                maxLength={8}
+                value={pinForm.confirm}
+                onChange={(e) => setPinForm(prev => ({ ...prev, confirm: e.target.value.replace(/\D/g, '') }))}
+              />
+            </div>
+          </div>
+          <Button
+            type="submit"
+            className="bg-pos-primary hover:bg-pos-secondary"
+            disabled={setPinMutation.isPending}
+          >
+            {setPinMutation.isPending ? 'Saving...' : 'Set PIN'}
+          </Button>
+        </form>
+
+        <form onSubmit={handleSaveThreshold} className="bg-white rounded-lg shadow-sm p-6 space-y-4">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-800">Refunds</h2>
+            <p className="text-sm text-gray-600">
+              Refunds above this amount need a manager's approval. Leave blank to never ask.
+            </p>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Approval Threshold ($)</label>
+            <Input
+              type="number"
+              min="0"
+              step="0.01"
+              value={threshold}
+              onChange={(e) => setThreshold(e.target.value)}
+              placeholder="Never"
+            />
+          </div>
+          <Button
+            type="submit"
+            className="bg-pos-primary hover:bg-pos-secondary"
+            disabled={saveThresholdMutation.isPending}
+          >
+            {saveThresholdMutation.isPending ? 'Saving...' : 'Save'}
+          </Button>
+        </form>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm overflow-hidden">
+        <div className="p-6 pb-0">
+          <h2 className="text-lg font-semibold text-gray-800 mb-4">Approval Log</h2>
+        </div>
+        {approvals.length === 0 ? (
+          <div className="text-center py-12 text-gray-500">
+            <ShieldCheck className="h-12 w-12 mx-auto mb-4 text-gray-400" />
+            <p>No approvals have been given yet</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">When</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Action</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Details</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Requested By</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Approved By</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Terminal</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {approvals.map(approval => (
+                  <tr key={approval.id}>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {format(new Date(approval.created_at), 'PPp')}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {APPROVAL_ACTION_LABELS[approval.action as ApprovalAction] ?? approval.action}
+                      {!approval.used_at && (
+                        <span className="ml-2 text-xs text-amber-600">Not used</span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-900">{approval.description}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{approval.requested_by_name}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{approval.approved_by_name}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{approval.terminal_id}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ApprovalSettings;
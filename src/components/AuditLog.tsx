@@ -0,0 +1,420 @@
+import React, { useState } from 'react';
+import { useQuery, keepPreviousData } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ChevronDown, ChevronLeft, ChevronRight, History } from 'lucide-react';
+import { endOfDay, format, parseISO, startOfDay } from 'date-fns';
+import {
+  AUDIT_ACTION_LABELS,
+  AUDIT_SOURCE_LABELS,
+  AUDITED_TABLES,
+  formatAuditValue
+} from '@/lib/audit';
+import { AuditAction, AuditLogRow, AuditSource } from '@/types/audit';
+
+const PAGE_SIZE = 25;
+
+interface AuditFilters {
+  table: string;
+  action: string;
+  source: string;
+  actor: string;
+  rowId: string;
+  start: string;
+  end: string;
+  productId: string;
+}
+
+const DEFAULT_FILTERS: AuditFilters = {
+  table: 'all',
+  action: 'all',
+  source: 'all',
+  actor: '',
+  rowId: '',
+  start: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
+  end: new Date().toISOString().split('T')[0],
+  productId: 'all'
+};
+
+const ACTION_BADGE_CLASSES: Record<AuditAction, string> = {
+  insert: 'bg-green-100 text-green-800',
+  update: 'bg-blue-100 text-blue-800',
+  delete: 'bg-red-100 text-red-800'
+};
+
+const sourceLabel = (source: string | null) =>
+  source ? AUDIT_SOURCE_LABELS[source as AuditSource] ?? source : 'Server';
+
+const valuesOf = (values: AuditLogRow['old_values']) =>
+  (values && typeof values === 'object' && !Array.isArray(values) ? values : {}) as Record<string, unknown>;
+
+// The changed columns of one entry with their values before and after.
+const AuditChanges: React.FC<{ entry: AuditLogRow }> = ({ entry }) => {
+  const before = valuesOf(entry.old_values);
+  const after = valuesOf(entry.new_values);
+
+  return (
+    <table className="min-w-full text-sm">
+      <thead>
+        <tr className="text-left text-xs text-gray-500 uppercase">
+          <th className="py-1 pr-4 font-medium">Column</th>
+          <th className="py-1 pr-4 font-medium">Before</th>
+          <th className="py-1 font-medium">After</th>
+        </tr>
+      </thead>
+      <tbody>
+        {(entry.changed_columns ?? []).map(column => (
+          <tr key={column} className="align-top">
+            <td className="py-1 pr-4 font-mono text-gray-700">{column}</td>
+            <td className="py-1 pr-4 text-red-700 break-all">
+              {entry.action === 'insert' ? '' : formatAuditValue(before[column])}
+            </td>
+            <td className="py-1 text-green-700 break-all">
+              {entry.action === 'delete' ? '' : formatAuditValue(after[column])}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
+
+// One page of audit entries matching the filters. Filtering and paging
+// happen in the database.
+const AuditEntries: React.FC<{
+  filters: AuditFilters;
+  page: number;
+  onPageChange: (page: number) => void;
+}> = ({ filters, page, onPageChange }) => {
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['audit', filters, page],
+    queryFn: async () => {
+      let query = supabase
+        .from('audit_log')
+        .select('*', { count: 'exact' });
+
+      if (filters.table !== 'all') {
+        query = query.eq('table_name', filters.table);
+      }
+      if (filters.action !== 'all') {
+        query = query.eq('action', filters.action);
+      }
+      if (filters.source === 'none') {
+        query = query.is('source', null);
+      } else if (filters.source !== 'all') {
+        query = query.eq('source', filters.source);
+      }
+      if (filters.actor.trim()) {
+        query = query.ilike('actor_name', `%${filters.actor.trim()}%`);
+      }
+      if (filters.rowId.trim()) {
+        query = query.eq('row_id', filters.rowId.trim());
+      }
+      if (filters.start) {
+        query = query.gte('occurred_at', startOfDay(parseISO(filters.start)).toISOString());
+      }
+      if (filters.end) {
+        query = query.lte('occurred_at', endOfDay(parseISO(filters.end)).toISOString());
+      }
+      if (filters.productId !== 'all') {
+        query = query.eq('product_id', Number(filters.productId));
+      }
+
+      const { data, error, count } = await query
+        .order('occurred_at', { ascending: false })
+        .order('id', { ascending: false })
+        .range(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1);
+
+      if (error) throw error;
+      return { entries: data, count: count || 0 };
+    },
+    placeholderData: keepPreviousData
+  });
+
+  const entries = data?.entries || [];
+  const totalCount = data?.count || 0;
+  const pageCount = Math.max(1, Math.ceil(totalCount / PAGE_SIZE));
+
+  return (
+    <>
+      {isLoading ? (
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-pos-primary"></div>
+        </div>
+      ) : entries.length === 0 ? (
+        <div className="text-center py-12 text-gray-500">No changes match these filters</div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">When</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Who</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Action</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Table</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Row</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Source</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Columns</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {entries.map(entry => (
+                <React.Fragment key={entry.id}>
+                  <tr
+                    className="hover:bg-gray-50 cursor-pointer"
+                    onClick={() => setExpandedId(expandedId === entry.id ? null : entry.id)}
+                  >
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {format(new Date(entry.occurred_at), 'PPp')}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {entry.actor_name || 'System'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${ACTION_BADGE_CLASSES[entry.action as AuditAction] ?? ''}`}>
+                        {AUDIT_ACTION_LABELS[entry.action as AuditAction] ?? entry.action}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-mono text-gray-900">{entry.table_name}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{entry.row_id}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{sourceLabel(entry.source)}</td>
+                    <td className="px-6 py-4 text-sm text-gray-500">
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="truncate max-w-xs">
+                          {entry.action === 'update' ? (entry.changed_columns ?? []).join(', ') : 'All'}
+                        </span>
+                        <ChevronDown
+                          className={`h-4 w-4 flex-shrink-0 transition-transform ${expandedId === entry.id ? 'rotate-180' : ''}`}
+                        />
+                      </div>
+                    </td>
+                  </tr>
+                  {expandedId === entry.id && (
+                    <tr className="bg-gray-50">
+                      <td colSpan={7} className="px-6 py-4">
+                        <AuditChanges entry={entry} />
+                      </td>
+                    </tr>
+                  )}
+                </React.Fragment>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Pagination */}
+      <div className="flex justify-between items-center mt-6">
+        <span className="text-sm text-gray-600">
+          {totalCount} change{totalCount === 1 ? '' : 's'} · Page {page + 1} of {pageCount}
+        </span>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onPageChange(page - 1)}
+            disabled={page === 0}
+          >
+            <ChevronLeft className="h-4 w-4 mr-1" />
+            Previous
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onPageChange(page + 1)}
+            disabled={page + 1 >= pageCount}
+          >
+            Next
+            <ChevronRight className="h-4 w-4 ml-1" />
+          </Button>
+        </div>
+      </div>
+    </>
+  );
+};
+
+// Every insert, update and delete recorded by the audit_row_change trigger,
+// and the change history of a single product.
+const AuditLog: React.FC = () => {
+  const [filters, setFilters] = useState<AuditFilters>(DEFAULT_FILTERS);
+  const [page, setPage] = useState(0);
+  const [historyProductId, setHistoryProductId] = useState('');
+  const [historyPage, setHistoryPage] = useState(0);
+
+  const { data: products = [] } = useQuery({
+    queryKey: ['products', 'options'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('products')
+        .select('id, product_name')
+        .order('product_name');
+
+      if (error) throw error;
+      return data;
+    }
+  });
+
+  const updateFilters = (changes: Partial<AuditFilters>) => {
+    setFilters(prev => ({ ...prev, ...changes }));
+    setPage(0);
+  };
+
+  return (
+    <div className="p-6">
+      <div className="mb-8">
+        <h1 className="text-2xl font-bold text-gray-800 flex items-center gap-2">
+          <History className="h-6 w-6 text-pos-primary" />
+          Audit Log
+        </h1>
+        <p className="text-gray-600 mt-1">Who changed what, when and from which screen</p>
+      </div>
+
+      <Tabs defaultValue="changes">
+        <TabsList className="mb-6">
+          <TabsTrigger value="changes">All Changes</TabsTrigger>
+          <TabsTrigger value="product">Product History</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="changes">
+          <div className="bg-white rounded-lg shadow-sm p-6">
+            {/* Filters */}
+            <div className="grid grid-cols-1 md:grid-cols-4 lg:grid-cols-7 gap-4 mb-6">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Table</label>
+                <Select value={filters.table} onValueChange={(value) => updateFilters({ table: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Tables</SelectItem>
+                    {AUDITED_TABLES.map(table => (
+                      <SelectItem key={table} value={table}>{table}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Action</label>
+                <Select value={filters.action} onValueChange={(value) => updateFilters({ action: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All</SelectItem>
+                    {(Object.keys(AUDIT_ACTION_LABELS) as AuditAction[]).map(action => (
+                      <SelectItem key={action} value={action}>{AUDIT_ACTION_LABELS[action]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Source</label>
+                <Select value={filters.source} onValueChange={(value) => updateFilters({ source: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All</SelectItem>
+                    {(Object.keys(AUDIT_SOURCE_LABELS) as AuditSource[]).map(source => (
+                      <SelectItem key={source} value={source}>{AUDIT_SOURCE_LABELS[source]}</SelectItem>
+                    ))}
+                    <SelectItem value="none">Server</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Who</label>
+                <Input
+                  placeholder="Name..."
+                  value={filters.actor}
+                  onChange={(e) => updateFilters({ actor: e.target.value })}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Row ID</label>
+                <Input
+                  placeholder="e.g. 42"
+                  value={filters.rowId}
+                  onChange={(e) => updateFilters({ rowId: e.target.value })}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Start Date</label>
+                <Input
+                  type="date"
+                  value={filters.start}
+                  onChange={(e) => updateFilters({ start: e.target.value })}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">End Date</label>
+                <Input
+                  type="date"
+                  value={filters.end}
+                  onChange={(e) => updateFilters({ end: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <AuditEntries filters={filters} page={page} onPageChange={setPage} />
+          </div>
+        </TabsContent>
+
+        <TabsContent value="product">
+          <div className="bg-white rounded-lg shadow-sm p-6">
+            <div className="max-w-sm mb-6">
+              <label className="block text-sm font-medium text-gray-700 mb-1">Product</label>
+              <Select
+                value={historyProductId}
+                onValueChange={(value) => {
+                  setHistoryProductId(value);
+                  setHistoryPage(0);
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a product" />
+                </SelectTrigger>
+                <SelectContent>
+                  {products.map(product => (
+                    <SelectItem key={product.id} value={String(product.id)}>
+                      {product.product_name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-gray-500 mt-1">
+                Price and stock changes, recipe edits, purchases, production and sales of the product.
+              </p>
+            </div>
+
+            {historyProductId ? (
+              <AuditEntries
+                filters={{ ...DEFAULT_FILTERS, start: '', end: '', productId: historyProductId }}
+                page={historyPage}
+                onPageChange={setHistoryPage}
+              />
+            ) : (
+              <div className="text-center py-12 text-gray-500">
+                <History className="h-12 w-12 mx-auto mb-4 text-gray-400" />
+                <p>Choose a product to see its change history</p>
+              </div>
+            )}
+          </div>
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+};
+
+export default AuditLog;
@@ -0,0 +1,80 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Session } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { AuthContext, AuthState } from '@/hooks/use-auth';
+import { cachedQuery } from '@/lib/offline/cache';
+import { hasAnyRole, Role, ROLES } from '@/lib/roles';
+
+// Keeps track of the Supabase Auth session and the signed-in user's roles.
+// Sessions are kept in local storage by supabase-js and roles are cached in
+// IndexedDB, so a terminal that was signed in keeps working offline.
+const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [session, setSession] = useState<Session | null>(null);
+  const [isSessionLoading, setIsSessionLoading] = useState(true);
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data }) => {
+      setSession(data.session);
+      setIsSessionLoading(false);
+    });
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, newSession) => {
+      setSession(newSession);
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  const userId = session?.user.id;
+
+  const { data: staff, isLoading: isStaffLoading } = useQuery({
+    queryKey: ['auth', 'staff', userId],
+    queryFn: () => cachedQuery(`staff:${userId}`, async () => {
+      const [rolesResult, profileResult] = await Promise.all([
+        supabase.rpc('app_roles'),
+        supabase.from('profiles').select('full_name, username').eq('id', userId!).maybeSingle()
+      ]);
+
+      if (rolesResult.error) throw rolesResult.error;
+      if (profileResult.error) throw profileResult.error;
+
+      return {
+        roles: (rolesResult.data ?? []).filter((role): role is Role => ROLES.includes(role as Role)),
+        name: profileResult.data?.full_name || profileResult.data?.username || null
+      };
+    }),
+    enabled: !!userId,
+    staleTime: Infinity
+  });
+
+  const signIn = useCallback(async (email: string, password: string) => {
+    const { error } = await supabase.auth.signInWithPassword({ email, password });
+    if (error) throw error;
+  }, []);
+
+  // Drops everything fetched for the previous user along with the session.
+  const signOut = useCallback(async () => {
+    const { error } = await supabase.auth.signOut();
+    if (error) throw error;
+    queryClient.clear();
+  }, [queryClient]);
+
+  const value = useMemo<AuthState>(() => {
+    const roles = staff?.roles ?? [];
+    return {
+      session,
+      roles,
+      staffName: staff?.name || session?.user.email || '',
+      isLoading: isSessionLoading || (!!userId && isStaffLoading),
+      hasRole: (...allowed: Role[]) => hasAnyRole(roles, allowed),
+      signIn,
+      signOut
+    };
+  }, [session, staff, userId, isSessionLoading, isStaffLoading, signIn, signOut]);
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+};
+
+export default AuthProvider;
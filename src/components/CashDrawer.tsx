@@ -0,0 +1,440 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Json } from '@/integrations/supabase/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { toast } from 'sonner';
+import { Banknote, Lock, RefreshCw, Unlock } from 'lucide-react';
+import { format } from 'date-fns';
+import { getTerminalId } from '@/lib/terminal';
+import { countedTotal, describeVariance, DenominationCounts, toCountedDenominations } from '@/lib/cash';
+import { useCashSession, useCashSessionReport } from '@/hooks/use-cash-session';
+import { useAuth } from '@/hooks/use-auth';
+import { CashMovementType, CashSessionReport } from '@/types/cash';
+import { ApprovalRequest } from '@/lib/approvals';
+import CashReport from './CashReport';
+import DenominationCounter from './DenominationCounter';
+import ManagerApprovalDialog from './ManagerApprovalDialog';
+import { AUDIT_SOURCE_HEADER } from '@/lib/audit';
+
+const CashDrawer: React.FC = () => {
+  const queryClient = useQueryClient();
+  const terminalId = getTerminalId();
+  // Drawers are opened, topped up and closed in the signed-in user's name.
+  const { staffName } = useAuth();
+  const [openForm, setOpenForm] = useState({ openingFloat: '' });
+  const [movementForm, setMovementForm] = useState({
+    type: 'paid_out' as CashMovementType,
+    amount: '',
+    reason: ''
+  });
+  const [counts, setCounts] = useState<DenominationCounts>({});
+  const [closeForm, setCloseForm] = useState({ notes: '' });
+  const [zReport, setZReport] = useState<CashSessionReport | null>(null);
+  const [viewedSessionId, setViewedSessionId] = useState<number | undefined>();
+  // Opening the drawer without a sale needs a manager's approval.
+  const [noSaleRequest, setNoSaleRequest] = useState<ApprovalRequest | null>(null);
+
+  const { data: session, isLoading } = useCashSession();
+  const {
+    data: xReport,
+    refetch: refetchXReport,
+    isFetching: isRefreshingXReport
+  } = useCashSessionReport(session?.id);
+  const { data: viewedReport } = useCashSessionReport(viewedSessionId);
+
+  const { data: movements = [] } = useQuery({
+    queryKey: ['cash-movements', session?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('cash_movements')
+        .select('*')
+        .eq('session_id', session!.id)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!session
+  });
+
+  const { data: closedSessions = [] } = useQuery({
+    queryKey: ['cash-sessions', 'closed'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('cash_sessions')
+        .select('*')
+        .eq('status', 'closed')
+        .order('closed_at', { ascending: false })
+        .limit(10);
+
+      if (error) throw error;
+      return data;
+    }
+  });
+
+  const openSessionMutation = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase
+        .from('cash_sessions')
+        .insert({
+          terminal_id: terminalId,
+          opened_by: staffName,
+          opening_float: Number(openForm.openingFloat) || 0
+        })
+        .setHeader(AUDIT_SOURCE_HEADER, 'cash');
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['cash-session'] });
+      setOpenForm({ openingFloat: '' });
+      setZReport(null);
+      toast.success('Cash drawer opened');
+    },
+    onError: (error) => {
+      toast.error(`Failed to open cash drawer: ${error.message}`);
+    }
+  });
+
+  const movementMutation = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase
+        .from('cash_movements')
+        .insert({
+          session_id: session!.id,
+          movement_type: movementForm.type,
+          amount: Number(movementForm.amount),
+          reason: movementForm.reason.trim(),
+          created_by: staffName
+        })
+        .setHeader(AUDIT_SOURCE_HEADER, 'cash');
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['cash-movements'] });
+      queryClient.invalidateQueries({ queryKey: ['cash-session-report'] });
+      toast.success(movementForm.type === 'paid_in' ? 'Paid in recorded' : 'Paid out recorded');
+      setMovementForm(prev => ({ ...prev, amount: '', reason: '' }));
+    },
+    onError: (error) => {
+      toast.error(`Failed to record cash movement: ${error.message}`);
+    }
+  });
+
+  const closeSessionMutation = useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase.rpc('close_cash_session', {
+        p_session_id: session!.id,
+        p_counted_denominations: toCountedDenominations(counts) as unknown as Json,
+        p_closed_by: staffName,
+        p_notes: closeForm.notes.trim() || undefined
+      }).setHeader(AUDIT_SOURCE_HEADER, 'cash');
+
+      if (error) throw error;
+      return data as unknown as CashSessionReport;
+    },
+    onSuccess: (report) => {
+      queryClient.invalidateQueries({ queryKey: ['cash-session'] });
+      queryClient.invalidateQueries({ queryKey: ['cash-session-report'] });
+      queryClient.invalidateQueries({ queryKey: ['cash-sessions'] });
+      setZReport(report);
+      setCounts({});
+      setCloseForm({ notes: '' });
+      toast.success(`Cash drawer closed. ${describeVariance(report.variance ?? 0)}`);
+    },
+    onError: (error) => {
+      toast.error(`Failed to close cash drawer: ${error.message}`);
+    }
+  });
+
+  const handleOpen = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (Number(openForm.openingFloat) < 0) {
+      toast.error('Opening float cannot be negative');
+      return;
+    }
+    openSessionMutation.mutate();
+  };
+
+  const handleMovement = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!(Number(movementForm.amount) > 0)) {
+      toast.error('Enter an amount greater than zero');
+      return;
+    }
+    if (!movementForm.reason.trim()) {
+      toast.error('Enter a reason');
+      return;
+    }
+    movementMutation.mutate();
+  };
+
+  const handleClose = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!window.confirm(`Close the drawer with $${countedTotal(counts).toFixed(2)} counted?`)) {
+      return;
+    }
+    closeSessionMutation.mutate();
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-pos-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6">
+      <div className="mb-8">
+        <h1 className="text-2xl font-bold text-gray-800 flex items-center gap-2">
+          <Banknote className="h-6 w-6 text-pos-primary" />
+          Cash Drawer
+        </h1>
+        <p className="text-gray-600 mt-1">
+          Open and close the till for terminal {terminalId}, record paid in and paid out cash
+        </p>
+      </div>
+
+      {zReport && (
+        <div className="bg-white rounded-lg shadow-sm p-6 mb-6">
+          <CashReport report={zReport} />
+        </div>
+      )}
+
+      {!session ? (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <form onSubmit={handleOpen} className="bg-white rounded-lg shadow-sm p-6 space-y-4">
+            <h2 className="text-lg font-semibold text-gray-800">Open Drawer</h2>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Cashier</label>
+              <Input value={staffName} disabled />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Opening Float</label>
+              <Input
+                type="number"
+                min="0"
+                step="0.01"
+                value={openForm.openingFloat}
+                onChange={(e) => setOpenForm(prev => ({ ...prev, openingFloat: e.target.value }))}
+                placeholder="0.00"
+              />
+            </div>
+            <Button
+              type="submit"
+              className="w-full bg-pos-primary hover:bg-pos-secondary"
+              disabled={openSessionMutation.isPending}
+            >
+              {openSessionMutation.isPending ? 'Opening...' : 'Open Drawer'}
+            </Button>
+          </form>
+
+          <div className="lg:col-span-2 bg-white rounded-lg shadow-sm p-6">
+            <h2 className="text-lg font-semibold text-gray-800 mb-4">Recent Z Reports</h2>
+            {closedSessions.length === 0 ? (
+              <p className="text-sm text-gray-500">No drawers have been closed yet</p>
+            ) : (
+              <table className="min-w-full">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-sm font-medium text-gray-600">Closed</th>
+                    <th className="px-4 py-2 text-left text-sm font-medium text-gray-600">Terminal</th>
+                    <th className="px-4 py-2 text-right text-sm font-medium text-gray-600">Expected</th>
+                    <th className="px-4 py-2 text-right text-sm font-medium text-gray-600">Counted</th>
+                    <th className="px-4 py-2 text-right text-sm font-medium text-gray-600">Variance</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {closedSessions.map((closed) => (
+                    <tr
+                      key={closed.id}
+                      className={`hover:bg-gray-50 cursor-pointer ${viewedSessionId === closed.id ? 'bg-gray-50' : ''}`}
+                      onClick={() => setViewedSessionId(closed.id)}
+                    >
+                      <td className="px-4 py-2 text-sm">
+                        {closed.closed_at && format(new Date(closed.closed_at), 'PPp')}
+                      </td>
+                      <td className="px-4 py-2 text-sm">{closed.terminal_id}</td>
+                      <td className="px-4 py-2 text-sm text-right">${Number(closed.expected_cash).toFixed(2)}</td>
+                      <td className="px-4 py-2 text-sm text-right">${Number(closed.counted_cash).toFixed(2)}</td>
+                      <td className={`px-4 py-2 text-sm text-right ${Number(closed.variance) === 0 ? 'text-green-600' : 'text-red-600'}`}>
+                        {describeVariance(Number(closed.variance))}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+            {viewedReport && (
+              <div className="border-t mt-6 pt-6">
+                <CashReport report={viewedReport} />
+              </div>
+            )}
+          </div>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2 space-y-6">
+            <div className="bg-white rounded-lg shadow-sm p-6">
+              <div className="flex justify-end gap-2 mb-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setNoSaleRequest({
+                    action: 'no_sale',
+                    description: `Open the drawer on terminal ${terminalId} without a sale`,
+                    cashSessionId: session.id
+                  })}
+                >
+                  <Unlock className="h-4 w-4 mr-2" />
+                  No Sale
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => refetchXReport()}
+                  disabled={isRefreshingXReport}
+                >
+                  <RefreshCw className="h-4 w-4 mr-2" />
+                  Refresh
+                </Button>
+              </div>
+              {xReport ? (
+                <CashReport report={xReport} />
+              ) : (
+                <div className="flex justify-center py-12">
+                  <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-pos-primary"></div>
+                </div>
+              )}
+            </div>
+
+            <form onSubmit={handleClose} className="bg-white rounded-lg shadow-sm p-6 space-y-4">
+              <div>
+                <h2 className="text-lg font-semibold text-gray-800">Count and Close</h2>
+                <p className="text-sm text-gray-600">
+                  Count every note and coin in the drawer, including the float.
+                </p>
+              </div>
+              <DenominationCounter
+                counts={counts}
+                onChange={setCounts}
+                disabled={closeSessionMutation.isPending}
+              />
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Closed By</label>
+                  <Input value={staffName} disabled />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+                  <Input
+                    value={closeForm.notes}
+                    onChange={(e) => setCloseForm(prev => ({ ...prev, notes: e.target.value }))}
+                    placeholder="Optional"
+                  />
+                </div>
+              </div>
+              <div className="flex justify-end">
+                <Button
+                  type="submit"
+                  className="bg-pos-primary hover:bg-pos-secondary"
+                  disabled={closeSessionMutation.isPending}
+                >
+                  <Lock className="h-4 w-4 mr-2" />
+                  {closeSessionMutation.isPending ? 'Closing...' : 'Close Drawer'}
+                </Button>
+              </div>
+            </form>
+          </div>
+
+          <div className="bg-white rounded-lg shadow-sm p-6">
+            <h2 className="text-lg font-semibold text-gray-800 mb-4">Paid In / Paid Out</h2>
+            <form onSubmit={handleMovement} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Type</label>
+                <Select
+                  value={movementForm.type}
+                  onValueChange={(value) => setMovementForm(prev => ({ ...prev, type: value as CashMovementType }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="paid_out">Paid Out</SelectItem>
+                    <SelectItem value="paid_in">Paid In</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Amount</label>
+                <Input
+                  type="number"
+                  min="0.01"
+                  step="0.01"
+                  value={movementForm.amount}
+                  onChange={(e) => setMovementForm(prev => ({ ...prev, amount: e.target.value }))}
+                  placeholder="0.00"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Reason</label>
+                <Input
+                  value={movementForm.reason}
+                  onChange={(e) => setMovementForm(prev => ({ ...prev, reason: e.target.value }))}
+                  placeholder="e.g. Milk for the staff room"
+                />
+              </div>
+              <Button
+                type="submit"
+                className="w-full bg-pos-primary hover:bg-pos-secondary"
+                disabled={movementMutation.isPending}
+              >
+                {movementMutation.isPending ? 'Saving...' : 'Record'}
+              </Button>
+            </form>
+
+            <h3 className="font-medium text-gray-800 mt-6 mb-2">This Session</h3>
+            {movements.length === 0 ? (
+              <p className="text-sm text-gray-500">No cash paid in or out yet</p>
+            ) : (
+              <div className="space-y-2">
+                {movements.map((movement) => (
+                  <div key={movement.id} className="border rounded p-3 text-sm">
+                    <div className="flex justify-between font-medium">
+                      <span>{movement.movement_type === 'paid_in' ? 'Paid In' : 'Paid Out'}</span>
+                      <span className={movement.movement_type === 'paid_in' ? 'text-green-600' : 'text-red-600'}>
+                        {movement.movement_type === 'paid_in' ? '' : '-'}${Number(movement.amount).toFixed(2)}
+                      </span>
+                    </div>
+                    <p className="text-gray-600">{movement.reason}</p>
+                    <p className="text-gray-500">{format(new Date(movement.created_at), 'PPp')}</p>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      <ManagerApprovalDialog
+        request={noSaleRequest}
+        onClose={() => setNoSaleRequest(null)}
+        onApproved={(approval) => toast.success(`No sale approved by ${approval.approved_by_name}, open the drawer`)}
+      />
+    </div>
+  );
+};
+
+export default CashDrawer;
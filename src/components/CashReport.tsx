@@ -0,0 +1,95 @@
+import React from 'react';
+import { format } from 'date-fns';
+import { describeVariance } from '@/lib/cash';
+import { CashSessionReport } from '@/types/cash';
+
+interface CashReportProps {
+  report: CashSessionReport;
+}
+
+const money = (amount: number) =>
+  `${amount < 0 ? '-' : ''}$${Math.abs(Number(amount)).toFixed(2)}`;
+
+const CashReport: React.FC<CashReportProps> = ({ report }) => {
+  const { session } = report;
+  const isClosed = session.status === 'closed';
+
+  const row = (label: string, amount: number, className = '') => (
+    <div className={`flex justify-between ${className}`}>
+      <span>{label}</span>
+      <span>{money(amount)}</span>
+    </div>
+  );
+
+  return (
+    <div className="text-sm">
+      <div className="flex justify-between items-start mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-800">
+            {isClosed ? 'Z Report' : 'X Report'}
+          </h3>
+          <p className="text-gray-500">
+            {session.terminal_id} · Session #{session.id}
+          </p>
+        </div>
+        <div className="text-right text-gray-500">
+          <p>Opened {format(new Date(session.opened_at), 'PPp')} by {session.opened_by}</p>
+          {isClosed && session.closed_at && (
+            <p>Closed {format(new Date(session.closed_at), 'PPp')} by {session.closed_by}</p>
+          )}
+          {!isClosed && <p>As of {format(new Date(report.generated_at), 'PPp')}</p>}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="space-y-1">
+          <h4 className="font-medium text-gray-800 mb-2">Sales</h4>
+          <div className="flex justify-between">
+            <span>Orders</span>
+            <span>{report.order_count}</span>
+          </div>
+          {row('Gross sales', report.gross_sales)}
+          {row('Cash sales', report.cash_sales)}
+          {row('Card sales', report.card_sales)}
+          {Number(report.other_sales) > 0 && row('Other tenders', report.other_sales)}
+          <div className="flex justify-between">
+            <span>Refunds</span>
+            <span>{report.refund_count}</span>
+          </div>
+          {row('Cash refunds', -report.cash_refunds, 'text-red-600')}
+          {row('Card refunds', -report.card_refunds, 'text-red-600')}
+          {Number(report.store_credit_refunds) > 0 && row('Store credit refunds', -report.store_credit_refunds, 'text-red-600')}
+        </div>
+
+        <div className="space-y-1">
+          <h4 className="font-medium text-gray-800 mb-2">Drawer</h4>
+          {row('Opening float', session.opening_float)}
+          {row('Cash sales', report.cash_sales)}
+          {row('Paid in', report.paid_in)}
+          {row('Paid out', -report.paid_out, 'text-red-600')}
+          {row('Cash refunds', -report.cash_refunds, 'text-red-600')}
+          {row('Expected cash', report.expected_cash, 'font-bold border-t pt-1')}
+          {report.counted_cash !== null && (
+            <>
+              {row('Counted cash', report.counted_cash, 'font-bold')}
+              <div
+                className={`flex justify-between font-bold ${
+                  report.variance === 0 ? 'text-green-600' : 'text-red-600'
+                }`}
+              >
+                <span>Variance</span>
+                <span>{describeVariance(report.variance ?? 0)}</span>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+
+      {session.notes && (
+        <p className="mt-4 text-gray-600">Notes: {session.notes}</p>
+      )}
+    </div>
+  );
+};
+
+export default CashReport;
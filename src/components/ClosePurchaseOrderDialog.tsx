@@ -0,0 +1,92 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { toast } from 'sonner';
+
+interface ClosePurchaseOrderDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  orderLabel: string;
+  // Units still open across the order, which will no longer be expected.
+  openUnits: number;
+  isClosing: boolean;
+  onSubmit: (reason: string) => void;
+}
+
+const ClosePurchaseOrderDialog: React.FC<ClosePurchaseOrderDialogProps> = ({
+  isOpen,
+  onClose,
+  orderLabel,
+  openUnits,
+  isClosing,
+  onSubmit,
+}) => {
+  const [reason, setReason] = useState('');
+
+  useEffect(() => {
+    if (isOpen) {
+      setReason('');
+    }
+  }, [isOpen]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reason.trim()) {
+      toast.error('A reason is required');
+      return;
+    }
+    onSubmit(reason.trim());
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-md">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>Close {orderLabel} Short</DialogTitle>
+            <DialogDescription>
+              The {openUnits} unit{openUnits === 1 ? '' : 's'} still open will no longer be expected,
+              and no more deliveries can be booked against this order.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid gap-4 py-4">
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="close-reason" className="text-right">
+                Reason
+              </Label>
+              <Input
+                id="close-reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="e.g. Discontinued by supplier"
+                className="col-span-3"
+                autoFocus
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose} className="mr-2">
+              Cancel
+            </Button>
+            <Button type="submit" className="bg-pos-primary hover:bg-pos-secondary" disabled={isClosing}>
+              {isClosing ? 'Closing...' : 'Close Short'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ClosePurchaseOrderDialog;
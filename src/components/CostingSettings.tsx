@@ -0,0 +1,94 @@
+import React from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { toast } from 'sonner';
+import { AUDIT_SOURCE_HEADER } from '@/lib/audit';
+import { COSTING_METHOD_DESCRIPTIONS, COSTING_METHOD_LABELS } from '@/lib/costing';
+import { CostingMethod } from '@/types/costing';
+
+// How the cost of stock going out is worked out. Past movements keep the
+// cost they were booked at; the method applies from the next one.
+const CostingSettings: React.FC = () => {
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['costing', 'settings'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('store_settings')
+        .select('costing_method')
+        .eq('id', 1)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    }
+  });
+
+  const costingMethod = (data?.costing_method ?? 'weighted_average') as CostingMethod;
+
+  const updateMethodMutation = useMutation({
+    mutationFn: async (method: CostingMethod) => {
+      const { error } = await supabase
+        .from('store_settings')
+        .upsert({ id: 1, costing_method: method, updated_at: new Date().toISOString() })
+        .setHeader(AUDIT_SOURCE_HEADER, 'settings');
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['costing'] });
+      toast.success('Costing method updated');
+    },
+    onError: (error) => {
+      toast.error(`Failed to update costing method: ${error.message}`);
+    }
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-pos-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-6 space-y-4 max-w-2xl">
+      <div>
+        <h2 className="text-lg font-semibold text-gray-800">Inventory Costing</h2>
+        <p className="text-sm text-gray-600">
+          Stock is costed from purchase prices and the components used in production. Changing the method applies to
+          stock going out from now on.
+        </p>
+      </div>
+
+      <div className="max-w-sm">
+        <Select
+          value={costingMethod}
+          onValueChange={(value) => updateMethodMutation.mutate(value as CostingMethod)}
+          disabled={updateMethodMutation.isPending}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(COSTING_METHOD_LABELS) as CostingMethod[]).map(method => (
+              <SelectItem key={method} value={method}>{COSTING_METHOD_LABELS[method]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-gray-500 mt-1">{COSTING_METHOD_DESCRIPTIONS[costingMethod]}</p>
+      </div>
+    </div>
+  );
+};
+
+export default CostingSettings;
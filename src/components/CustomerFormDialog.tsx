@@ -0,0 +1,258 @@
+import React, { useEffect, useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Json } from '@/integrations/supabase/types';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { toast } from 'sonner';
+import { Address, EMPTY_ADDRESS, toAddress } from '@/lib/customers';
+import { CustomerRow } from '@/types/customer';
+import { AUDIT_SOURCE_HEADER } from '@/lib/audit';
+
+interface CustomerFormDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // The customer being edited; a new customer is created when omitted.
+  customer?: CustomerRow | null;
+  onSaved?: (customer: CustomerRow) => void;
+}
+
+const ADDRESS_FIELDS: Array<{ key: keyof Address; label: string; wide?: boolean }> = [
+  { key: 'line1', label: 'Address Line 1', wide: true },
+  { key: 'line2', label: 'Address Line 2', wide: true },
+  { key: 'city', label: 'City' },
+  { key: 'region', label: 'State / Region' },
+  { key: 'postal_code', label: 'Postal Code' },
+  { key: 'country', label: 'Country' }
+];
+
+const EMPTY_FORM = {
+  name: '',
+  phone: '',
+  email: '',
+  notes: '',
+  referralCode: '',
+  billing: EMPTY_ADDRESS,
+  shipping: EMPTY_ADDRESS,
+  shippingSameAsBilling: true
+};
+
+const CustomerFormDialog: React.FC<CustomerFormDialogProps> = ({
+  isOpen,
+  onClose,
+  customer,
+  onSaved,
+}) => {
+  const [form, setForm] = useState(EMPTY_FORM);
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!isOpen) return;
+    if (customer) {
+      const billing = toAddress(customer.billing_address);
+      const shipping = toAddress(customer.shipping_address);
+      setForm({
+        name: customer.name,
+        phone: customer.phone || '',
+        email: customer.email || '',
+        notes: customer.notes || '',
+        referralCode: '',
+        billing,
+        shipping,
+        shippingSameAsBilling: JSON.stringify(billing) === JSON.stringify(shipping)
+      });
+    } else {
+      setForm(EMPTY_FORM);
+    }
+  }, [isOpen, customer]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const values = {
+        name: form.name.trim(),
+        phone: form.phone.trim() || null,
+        email: form.email.trim() || null,
+        notes: form.notes.trim() || null,
+        billing_address: form.billing as unknown as Json,
+        shipping_address: (form.shippingSameAsBilling ? form.billing : form.shipping) as unknown as Json
+      };
+
+      const { data, error } = customer
+        ? await supabase
+            .from('customers')
+            .update({ ...values, updated_at: new Date().toISOString() })
+            .eq('id', customer.id)
+            .select()
+            .single()
+            .setHeader(AUDIT_SOURCE_HEADER, 'customers')
+        : await supabase
+            .from('customers')
+            .insert(values)
+            .select()
+            .single()
+            .setHeader(AUDIT_SOURCE_HEADER, 'customers');
+
+      if (error) throw error;
+
+      // The customer is kept even if the referral code turns out to be
+      // wrong; it can be applied again from their profile.
+      if (!customer && form.referralCode.trim()) {
+        const { error: referralError } = await supabase.rpc('apply_referral_code', {
+          p_customer_id: data.id,
+          p_code: form.referralCode.trim()
+        }).setHeader(AUDIT_SOURCE_HEADER, 'customers');
+        if (referralError) {
+          toast.error(`Referral code not applied: ${referralError.message}`);
+        }
+      }
+
+      return data;
+    },
+    onSuccess: (saved) => {
+      queryClient.invalidateQueries({ queryKey: ['customers'] });
+      queryClient.invalidateQueries({ queryKey: ['customer', saved.id] });
+      queryClient.invalidateQueries({ queryKey: ['loyalty'] });
+      toast.success(customer ? 'Customer updated' : 'Customer added');
+      onSaved?.(saved);
+      onClose();
+    },
+    onError: (error) => {
+      toast.error(`Failed to save customer: ${error.message}`);
+    }
+  });
+
+  const updateAddress = (which: 'billing' | 'shipping', key: keyof Address, value: string) => {
+    setForm(prev => ({ ...prev, [which]: { ...prev[which], [key]: value } }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.name.trim()) {
+      toast.error('Customer name is required');
+      return;
+    }
+    saveMutation.mutate();
+  };
+
+  const addressFields = (which: 'billing' | 'shipping') => (
+    <div className="grid grid-cols-2 gap-3">
+      {ADDRESS_FIELDS.map(field => (
+        <div key={field.key} className={field.wide ? 'col-span-2' : ''}>
+          <label className="block text-sm font-medium text-gray-700 mb-1">{field.label}</label>
+          <Input
+            value={form[which][field.key]}
+            onChange={(e) => updateAddress(which, field.key, e.target.value)}
+          />
+        </div>
+      ))}
+    </div>
+  );
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>{customer ? 'Edit Customer' : 'New Customer'}</DialogTitle>
+            <DialogDescription>
+              Addresses are copied onto orders at checkout.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+                <Input
+                  value={form.name}
+                  onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+                  required
+                  autoFocus
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Phone</label>
+                <Input
+                  value={form.phone}
+                  onChange={(e) => setForm(prev => ({ ...prev, phone: e.target.value }))}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Email</label>
+                <Input
+                  type="email"
+                  value={form.email}
+                  onChange={(e) => setForm(prev => ({ ...prev, email: e.target.value }))}
+                />
+              </div>
+            </div>
+
+            {!customer && (
+              <div className="max-w-xs">
+                <label className="block text-sm font-medium text-gray-700 mb-1">Referral Code</label>
+                <Input
+                  value={form.referralCode}
+                  onChange={(e) => setForm(prev => ({ ...prev, referralCode: e.target.value }))}
+                  placeholder="Optional"
+                />
+              </div>
+            )}
+
+            <div>
+              <h3 className="font-medium text-gray-800 mb-2">Billing Address</h3>
+              {addressFields('billing')}
+            </div>
+
+            <div>
+              <div className="flex items-center gap-2 mb-2">
+                <h3 className="font-medium text-gray-800">Shipping Address</h3>
+                <label className="flex items-center gap-2 text-sm text-gray-600 ml-auto">
+                  <Checkbox
+                    checked={form.shippingSameAsBilling}
+                    onCheckedChange={(checked) => setForm(prev => ({ ...prev, shippingSameAsBilling: checked === true }))}
+                  />
+                  Same as billing
+                </label>
+              </div>
+              {!form.shippingSameAsBilling && addressFields('shipping')}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+              <Textarea
+                value={form.notes}
+                onChange={(e) => setForm(prev => ({ ...prev, notes: e.target.value }))}
+                className="min-h-[60px]"
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose} className="mr-2">
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              className="bg-pos-primary hover:bg-pos-secondary"
+              disabled={saveMutation.isPending}
+            >
+              {saveMutation.isPending ? 'Saving...' : 'Save Customer'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CustomerFormDialog;
@@ -0,0 +1,181 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { toast } from 'sonner';
+import { Star } from 'lucide-react';
+import { format } from 'date-fns';
+import { useLoyaltyBalance, useLoyaltyProgram } from '@/hooks/use-loyalty';
+import { DEFAULT_LOYALTY_PROGRAM, pointsToAmount, REWARD_TYPE_LABELS } from '@/lib/loyalty';
+import { AUDIT_SOURCE_HEADER } from '@/lib/audit';
+
+interface CustomerLoyaltyProps {
+  customerId: number;
+  // Referral codes can only be applied before the first purchase.
+  hasOrders: boolean;
+}
+
+// Points balance, referral code and points history on a customer's profile.
+const CustomerLoyalty: React.FC<CustomerLoyaltyProps> = ({ customerId, hasOrders }) => {
+  const [referralCode, setReferralCode] = useState('');
+  const queryClient = useQueryClient();
+  const { data: program = DEFAULT_LOYALTY_PROGRAM } = useLoyaltyProgram();
+  const { data: loyalty } = useLoyaltyBalance(customerId);
+
+  const { data } = useQuery({
+    queryKey: ['loyalty', 'customer', customerId],
+    queryFn: async () => {
+      const [codeResult, referralResult, rewardsResult] = await Promise.all([
+        supabase.from('referals2').select('referalcode').eq('customer_id', customerId).maybeSingle(),
+        supabase
+          .from('referals')
+          .select('*, referrer:customers!referals_referrer_customer_id_fkey(id, name)')
+          .eq('referee_customer_id', customerId)
+          .maybeSingle(),
+        supabase
+          .from('rewards')
+          .select('*')
+          .eq('customer_id', customerId)
+          .eq('currency', 'PTS')
+          .order('created_at', { ascending: false })
+          .limit(50)
+      ]);
+
+      if (codeResult.error) throw codeResult.error;
+      if (referralResult.error) throw referralResult.error;
+      if (rewardsResult.error) throw rewardsResult.error;
+
+      return {
+        code: codeResult.data?.referalcode ?? null,
+        referral: referralResult.data,
+        rewards: rewardsResult.data
+      };
+    }
+  });
+
+  const applyReferralMutation = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase.rpc('apply_referral_code', {
+        p_customer_id: customerId,
+        p_code: referralCode.trim()
+      }).setHeader(AUDIT_SOURCE_HEADER, 'customers');
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['loyalty', 'customer', customerId] });
+      setReferralCode('');
+      toast.success('Referral code applied');
+    },
+    onError: (error) => {
+      toast.error(`Failed to apply referral code: ${error.message}`);
+    }
+  });
+
+  const handleApply = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!referralCode.trim()) {
+      toast.error('Enter a referral code');
+      return;
+    }
+    applyReferralMutation.mutate();
+  };
+
+  const balance = loyalty?.balance ?? 0;
+  const rewards = data?.rewards ?? [];
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-6 mb-6">
+      <h2 className="text-lg font-semibold text-gray-800 mb-4 flex items-center gap-2">
+        <Star className="h-5 w-5 text-pos-primary" />
+        Loyalty
+      </h2>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+        <div>
+          <p className="text-sm text-gray-600">Points Balance</p>
+          <p className="text-2xl font-bold text-pos-primary">{balance}</p>
+          <p className="text-xs text-gray-500">Worth ${pointsToAmount(balance, program.pointValue).toFixed(2)}</p>
+        </div>
+        <div>
+          <p className="text-sm text-gray-600">Earned</p>
+          <p className="text-xl font-semibold">{loyalty?.earned ?? 0}</p>
+        </div>
+        <div>
+          <p className="text-sm text-gray-600">Redeemed</p>
+          <p className="text-xl font-semibold">{loyalty?.redeemed ?? 0}</p>
+        </div>
+        <div>
+          <p className="text-sm text-gray-600">Referral Code</p>
+          <p className="text-xl font-mono font-semibold">{data?.code ?? '—'}</p>
+        </div>
+      </div>
+
+      {data?.referral ? (
+        <p className="text-sm text-gray-600 mb-6">
+          Referred by{' '}
+          {data.referral.referrer ? (
+            <Link to={`/customers/${data.referral.referrer.id}`} className="font-medium text-pos-primary hover:underline">
+              {data.referral.referrer.name}
+            </Link>
+          ) : (
+            <span className="font-mono">{data.referral.referalcode1}</span>
+          )}
+          {data.referral.rewarded_at
+            ? ` · rewarded ${format(new Date(data.referral.rewarded_at), 'PP')}`
+            : ' · reward pending first purchase'}
+        </p>
+      ) : !hasOrders && (
+        <form onSubmit={handleApply} className="flex gap-2 mb-6 max-w-md">
+          <Input
+            placeholder="Referral code from another customer"
+            value={referralCode}
+            onChange={(e) => setReferralCode(e.target.value)}
+          />
+          <Button type="submit" variant="outline" disabled={applyReferralMutation.isPending}>
+            Apply
+          </Button>
+        </form>
+      )}
+
+      {rewards.length === 0 ? (
+        <p className="text-sm text-gray-500">No points activity yet</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Type</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Description</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Points</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {rewards.map((reward) => (
+                <tr key={reward.id}>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {reward.created_at && format(new Date(reward.created_at), 'PPp')}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {REWARD_TYPE_LABELS[reward.reward_type ?? ''] ?? reward.reward_type}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-900">{reward.description}</td>
+                  <td className={`px-6 py-4 whitespace-nowrap text-sm text-right font-medium ${
+                    reward.amount < 0 ? 'text-red-600' : 'text-green-600'
+                  }`}>
+                    {reward.amount > 0 ? `+${reward.amount}` : reward.amount}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CustomerLoyalty;
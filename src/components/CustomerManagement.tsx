@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useQuery, keepPreviousData } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Plus, Search, Users } from 'lucide-react';
+import { format } from 'date-fns';
+import { customerSearchFilter } from '@/lib/customers';
+import CustomerFormDialog from './CustomerFormDialog';
+
+const CustomerManagement: React.FC = () => {
+  const navigate = useNavigate();
+  const [searchTerm, setSearchTerm] = useState('');
+  const [isFormOpen, setIsFormOpen] = useState(false);
+
+  // Customers matching the search, with their order count and spend from
+  // customer_summaries.
+  const { data: customers = [], isLoading } = useQuery({
+    queryKey: ['customers', 'list', searchTerm.trim()],
+    queryFn: async () => {
+      let query = supabase
+        .from('customers')
+        .select('*')
+        .order('name')
+        .limit(100);
+
+      if (searchTerm.trim()) {
+        query = query.or(customerSearchFilter(searchTerm));
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+      if (data.length === 0) return [];
+
+      const { data: summaries, error: summariesError } = await supabase
+        .from('customer_summaries')
+        .select('*')
+        .in('customer_id', data.map(customer => customer.id));
+
+      if (summariesError) throw summariesError;
+
+      return data.map(customer => ({
+        ...customer,
+        summary: summaries.find(summary => summary.customer_id === customer.id)
+      }));
+    },
+    placeholderData: keepPreviousData
+  });
+
+  return (
+    <div className="p-6">
+      <div className="flex justify-between items-center mb-8">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-800 flex items-center gap-2">
+            <Users className="h-6 w-6 text-pos-primary" />
+            Customers
+          </h1>
+          <p className="text-gray-600 mt-1">Customer details, order history and lifetime spend</p>
+        </div>
+        <Button
+          onClick={() => setIsFormOpen(true)}
+          className="bg-pos-primary hover:bg-pos-secondary"
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Add Customer
+        </Button>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm p-6">
+        <div className="relative mb-6">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-5 w-5" />
+          <Input
+            placeholder="Search by name, phone or email..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="pl-10"
+          />
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-pos-primary"></div>
+          </div>
+        ) : customers.length === 0 ? (
+          <div className="text-center py-12 text-gray-500">No customers found</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Name</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Phone</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Email</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Orders</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Lifetime Spend</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Last Order</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {customers.map((customer) => (
+                  <tr
+                    key={customer.id}
+                    className="hover:bg-gray-50 cursor-pointer"
+                    onClick={() => navigate(`/customers/${customer.id}`)}
+                  >
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{customer.name}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{customer.phone}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{customer.email}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                      {customer.summary?.order_count ?? 0}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                      ${Number(customer.summary?.lifetime_spend ?? 0).toFixed(2)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {customer.summary?.last_order_at && format(new Date(customer.summary.last_order_at), 'PP')}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <CustomerFormDialog
+        isOpen={isFormOpen}
+        onClose={() => setIsFormOpen(false)}
+        onSaved={(customer) => navigate(`/customers/${customer.id}`)}
+      />
+    </div>
+  );
+};
+
+export default CustomerManagement;
@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { User, UserPlus, X } from 'lucide-react';
+import { useCustomerSearch } from '@/hooks/use-customers';
+import { useLoyaltyBalance } from '@/hooks/use-loyalty';
+import { CustomerRow } from '@/types/customer';
+import CustomerFormDialog from './CustomerFormDialog';
+
+interface CustomerPickerProps {
+  customer: CustomerRow | null;
+  onChange: (customer: CustomerRow | null) => void;
+  disabled?: boolean;
+}
+
+// Finds and attaches a customer to the current sale, or adds a new one.
+const CustomerPicker: React.FC<CustomerPickerProps> = ({ customer, onChange, disabled = false }) => {
+  const [searchTerm, setSearchTerm] = useState('');
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const { data: results = [], isFetching } = useCustomerSearch(searchTerm);
+  const { data: loyalty } = useLoyaltyBalance(customer?.id);
+
+  const attach = (selected: CustomerRow) => {
+    onChange(selected);
+    setSearchTerm('');
+  };
+
+  if (customer) {
+    return (
+      <div className="flex items-center gap-2 bg-gray-50 rounded-lg p-2">
+        <User className="h-4 w-4 text-pos-primary" />
+        <div className="flex-1 min-w-0">
+          <p className="font-medium text-gray-900 truncate">{customer.name}</p>
+          <p className="text-xs text-gray-500 truncate">
+            {[customer.phone, customer.email].filter(Boolean).join(' · ')}
+          </p>
+        </div>
+        {loyalty && (
+          <span className="text-xs font-medium text-pos-primary whitespace-nowrap">
+            {loyalty.balance} pts
+          </span>
+        )}
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => onChange(null)}
+          className="h-8 w-8 text-gray-400 hover:text-red-500"
+          disabled={disabled}
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative">
+      <div className="flex gap-2">
+        <Input
+          placeholder="Attach customer (name, phone, email)"
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.target.value)}
+          disabled={disabled}
+        />
+        <Button
+          variant="outline"
+          size="icon"
+          onClick={() => setIsFormOpen(true)}
+          title="New customer"
+          disabled={disabled}
+        >
+          <UserPlus className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {searchTerm.trim().length >= 2 && (
+        <div className="absolute z-10 mt-1 w-full bg-white border rounded-lg shadow-lg max-h-64 overflow-y-auto">
+          {results.length === 0 ? (
+            <p className="p-3 text-sm text-gray-500">
+              {isFetching ? 'Searching...' : 'No customers found'}
+            </p>
+          ) : (
+            results.map(result => (
+              <button
+                key={result.id}
+                type="button"
+                onClick={() => attach(result)}
+                className="w-full text-left px-3 py-2 hover:bg-gray-50"
+              >
+                <p className="font-medium text-gray-900">{result.name}</p>
+                <p className="text-xs text-gray-500">
+                  {[result.phone, result.email].filter(Boolean).join(' · ')}
+                </p>
+              </button>
+            ))
+          )}
+        </div>
+      )}
+
+      <CustomerFormDialog
+        isOpen={isFormOpen}
+        onClose={() => setIsFormOpen(false)}
+        onSaved={attach}
+      />
+    </div>
+  );
+};
+
+export default CustomerPicker;
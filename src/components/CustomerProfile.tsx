@@ -0,0 +1,219 @@
+import React, { useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { ArrowLeft, Mail, Pencil, Phone } from 'lucide-react';
+import { format } from 'date-fns';
+import { formatAddress, toAddress } from '@/lib/customers';
+import { tenderMethodLabel } from '@/lib/tender';
+import CustomerFormDialog from './CustomerFormDialog';
+import OrderStatusBadge from './OrderStatusBadge';
+import CustomerLoyalty from './CustomerLoyalty';
+
+const CustomerProfile: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const customerId = Number(id);
+  const navigate = useNavigate();
+  const [isFormOpen, setIsFormOpen] = useState(false);
+
+  const { data: customer, isLoading } = useQuery({
+    queryKey: ['customer', customerId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('customers')
+        .select('*')
+        .eq('id', customerId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: Number.isFinite(customerId)
+  });
+
+  const { data: summary } = useQuery({
+    queryKey: ['customers', 'summary', customerId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('customer_summaries')
+        .select('*')
+        .eq('customer_id', customerId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: Number.isFinite(customerId)
+  });
+
+  const { data: orders = [] } = useQuery({
+    queryKey: ['orders', 'customer', customerId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('orders')
+        .select('id, order_number, created_at, payment_method, order_status, total_amount')
+        .eq('customer_id', customerId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: Number.isFinite(customerId)
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-pos-primary"></div>
+      </div>
+    );
+  }
+
+  if (!customer) {
+    return (
+      <div className="flex flex-col items-center justify-center p-12">
+        <h1 className="text-2xl font-bold text-gray-800 mb-4">Customer Not Found</h1>
+        <Button onClick={() => navigate('/customers')}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back to Customers
+        </Button>
+      </div>
+    );
+  }
+
+  const billingLines = formatAddress(toAddress(customer.billing_address));
+  const shippingLines = formatAddress(toAddress(customer.shipping_address));
+  const orderCount = summary?.order_count ?? 0;
+  const lifetimeSpend = Number(summary?.lifetime_spend ?? 0);
+
+  return (
+    <div className="p-6">
+      <div className="flex justify-between items-center mb-6">
+        <Button variant="outline" onClick={() => navigate('/customers')}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back to Customers
+        </Button>
+        <Button variant="outline" onClick={() => setIsFormOpen(true)}>
+          <Pencil className="h-4 w-4 mr-2" />
+          Edit Customer
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-6">
+        <div className="lg:col-span-2 bg-white rounded-lg shadow-sm p-6">
+          <h1 className="text-2xl font-bold text-gray-800">{customer.name}</h1>
+          <div className="flex flex-wrap gap-4 text-gray-600 mt-2">
+            {customer.phone && (
+              <span className="flex items-center gap-1">
+                <Phone className="h-4 w-4" />
+                {customer.phone}
+              </span>
+            )}
+            {customer.email && (
+              <span className="flex items-center gap-1">
+                <Mail className="h-4 w-4" />
+                {customer.email}
+              </span>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-6">
+            <div>
+              <p className="text-sm text-gray-600">Billing Address</p>
+              {billingLines.length > 0
+                ? billingLines.map((line, index) => <p key={index} className="font-medium">{line}</p>)
+                : <p className="text-gray-400">Not set</p>}
+            </div>
+            <div>
+              <p className="text-sm text-gray-600">Shipping Address</p>
+              {shippingLines.length > 0
+                ? shippingLines.map((line, index) => <p key={index} className="font-medium">{line}</p>)
+                : <p className="text-gray-400">Not set</p>}
+            </div>
+          </div>
+
+          {customer.notes && (
+            <div className="mt-6">
+              <p className="text-sm text-gray-600">Notes</p>
+              <p className="whitespace-pre-line">{customer.notes}</p>
+            </div>
+          )}
+        </div>
+
+        <div className="bg-white rounded-lg shadow-sm p-6 space-y-4">
+          <div>
+            <p className="text-sm text-gray-600">Lifetime Spend</p>
+            <p className="text-2xl font-bold text-pos-primary">${lifetimeSpend.toFixed(2)}</p>
+          </div>
+          <div>
+            <p className="text-sm text-gray-600">Orders</p>
+            <p className="text-xl font-semibold">{orderCount}</p>
+          </div>
+          <div>
+            <p className="text-sm text-gray-600">Average Order</p>
+            <p className="text-xl font-semibold">
+              ${(orderCount > 0 ? lifetimeSpend / orderCount : 0).toFixed(2)}
+            </p>
+          </div>
+          <div>
+            <p className="text-sm text-gray-600">Customer Since</p>
+            <p className="font-medium">{format(new Date(customer.created_at), 'PPP')}</p>
+          </div>
+        </div>
+      </div>
+
+      <CustomerLoyalty customerId={customer.id} hasOrders={orders.length > 0} />
+
+      <div className="bg-white rounded-lg shadow-sm p-6">
+        <h2 className="text-lg font-semibold text-gray-800 mb-4">Order History</h2>
+        {orders.length === 0 ? (
+          <p className="text-sm text-gray-500">No orders yet</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Order</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Payment</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Total</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {orders.map((order) => (
+                  <tr
+                    key={order.id}
+                    className="hover:bg-gray-50 cursor-pointer"
+                    onClick={() => navigate(`/orders/${encodeURIComponent(order.order_number)}`)}
+                  >
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{order.order_number}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {order.created_at && format(new Date(order.created_at), 'PPp')}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{tenderMethodLabel(order.payment_method)}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      <OrderStatusBadge status={order.order_status} />
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                      ${Number(order.total_amount).toFixed(2)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <CustomerFormDialog
+        isOpen={isFormOpen}
+        onClose={() => setIsFormOpen(false)}
+        customer={customer}
+      />
+    </div>
+  );
+};
+
+export default CustomerProfile;
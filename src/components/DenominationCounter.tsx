@@ -0,0 +1,52 @@
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { countedTotal, DENOMINATIONS, DenominationCounts } from '@/lib/cash';
+
+interface DenominationCounterProps {
+  counts: DenominationCounts;
+  onChange: (counts: DenominationCounts) => void;
+  disabled?: boolean;
+}
+
+const DenominationCounter: React.FC<DenominationCounterProps> = ({
+  counts,
+  onChange,
+  disabled = false
+}) => {
+  return (
+    <div>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        {DENOMINATIONS.map(denomination => {
+          const count = counts[denomination.value] || 0;
+          return (
+            <div key={denomination.value}>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                {denomination.label}
+              </label>
+              <Input
+                type="number"
+                min="0"
+                value={count || ''}
+                placeholder="0"
+                onChange={(e) => onChange({
+                  ...counts,
+                  [denomination.value]: Math.max(0, parseInt(e.target.value) || 0)
+                })}
+                disabled={disabled}
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                ${(denomination.value * count).toFixed(2)}
+              </p>
+            </div>
+          );
+        })}
+      </div>
+      <div className="flex justify-between text-lg font-bold mt-4">
+        <span>Counted Total:</span>
+        <span>${countedTotal(counts).toFixed(2)}</span>
+      </div>
+    </div>
+  );
+};
+
+export default DenominationCounter;
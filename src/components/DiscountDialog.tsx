@@ -0,0 +1,169 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { toast } from 'sonner';
+import { DiscountType, ManualDiscount, ManualDiscountEntry } from '@/lib/pricing';
+
+interface DiscountDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  title: string;
+  // Amount the discount is taken from, used to validate fixed amounts.
+  baseAmount: number;
+  discount?: ManualDiscount;
+  // A new discount still needs a manager's approval before it is applied.
+  onSave: (discount: ManualDiscountEntry | undefined) => void;
+}
+
+const EMPTY_DISCOUNT = {
+  type: 'percent' as DiscountType,
+  value: '',
+  reason: ''
+};
+
+const DiscountDialog: React.FC<DiscountDialogProps> = ({
+  isOpen,
+  onClose,
+  title,
+  baseAmount,
+  discount,
+  onSave,
+}) => {
+  const [formData, setFormData] = useState(EMPTY_DISCOUNT);
+
+  useEffect(() => {
+    if (isOpen) {
+      setFormData(discount
+        ? { type: discount.type, value: String(discount.value), reason: discount.reason }
+        : EMPTY_DISCOUNT);
+    }
+  }, [isOpen, discount]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = parseFloat(formData.value);
+
+    if (isNaN(value) || value <= 0) {
+      toast.error('Enter a discount greater than zero');
+      return;
+    }
+    if (formData.type === 'percent' && value > 100) {
+      toast.error('A percentage discount cannot exceed 100%');
+      return;
+    }
+    if (formData.type === 'amount' && value > baseAmount) {
+      toast.error(`Discount cannot exceed $${baseAmount.toFixed(2)}`);
+      return;
+    }
+    if (!formData.reason.trim()) {
+      toast.error('A reason is required');
+      return;
+    }
+
+    onSave({
+      type: formData.type,
+      value,
+      reason: formData.reason.trim()
+    });
+    onClose();
+  };
+
+  const handleRemove = () => {
+    onSave(undefined);
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-md">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>{title}</DialogTitle>
+            <DialogDescription>
+              Apply a percentage or fixed amount off ${baseAmount.toFixed(2)}.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid gap-4 py-4">
+            <div className="grid grid-cols-2 gap-2">
+              <Button
+                type="button"
+                variant={formData.type === 'percent' ? 'default' : 'outline'}
+                onClick={() => setFormData(prev => ({ ...prev, type: 'percent' }))}
+              >
+                Percent (%)
+              </Button>
+              <Button
+                type="button"
+                variant={formData.type === 'amount' ? 'default' : 'outline'}
+                onClick={() => setFormData(prev => ({ ...prev, type: 'amount' }))}
+              >
+                Amount ($)
+              </Button>
+            </div>
+
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="discount-value" className="text-right">
+                Value
+              </Label>
+              <Input
+                id="discount-value"
+                type="number"
+                min="0"
+                step="0.01"
+                value={formData.value}
+                onChange={(e) => setFormData(prev => ({ ...prev, value: e.target.value }))}
+                className="col-span-3"
+                required
+              />
+            </div>
+
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="discount-reason" className="text-right">
+                Reason
+              </Label>
+              <Input
+                id="discount-reason"
+                value={formData.reason}
+                onChange={(e) => setFormData(prev => ({ ...prev, reason: e.target.value }))}
+                placeholder="e.g. Damaged packaging"
+                className="col-span-3"
+                required
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            {discount && (
+              <Button
+                type="button"
+                variant="outline"
+                onClick={handleRemove}
+                className="mr-auto text-red-500"
+              >
+                Remove Discount
+              </Button>
+            )}
+            <Button type="button" variant="outline" onClick={onClose} className="mr-2">
+              Cancel
+            </Button>
+            <Button type="submit" className="bg-pos-primary hover:bg-pos-secondary">
+              Apply
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DiscountDialog;
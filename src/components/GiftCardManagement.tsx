@@ -0,0 +1,349 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { toast } from 'sonner';
+import { Gift, Search } from 'lucide-react';
+import { format } from 'date-fns';
+import { useGiftCard } from '@/hooks/use-gift-cards';
+import { useAuth } from '@/hooks/use-auth';
+import {
+  formatGiftCardCode,
+  GIFT_CARD_KIND_LABELS,
+  GIFT_CARD_TRANSACTION_LABELS,
+  isGiftCardExpired
+} from '@/lib/gift-cards';
+import { GiftCardKind, GiftCardRow } from '@/types/gift-card';
+import { AUDIT_SOURCE_HEADER } from '@/lib/audit';
+
+const cardStatus = (card: GiftCardRow) => {
+  if (card.status === 'void') return { label: 'Void', className: 'bg-gray-100 text-gray-800' };
+  if (isGiftCardExpired(card)) return { label: 'Expired', className: 'bg-red-100 text-red-800' };
+  return { label: 'Active', className: 'bg-green-100 text-green-800' };
+};
+
+const GiftCardManagement: React.FC = () => {
+  const queryClient = useQueryClient();
+  const [code, setCode] = useState('');
+  const [kindFilter, setKindFilter] = useState<'all' | GiftCardKind>('all');
+  const [adjustment, setAdjustment] = useState({ amount: '', note: '' });
+  const { data: card, isFetching: isCardLoading } = useGiftCard(code);
+  // Adjustments and write-offs are for managers; cashiers only look cards up.
+  const { hasRole } = useAuth();
+  const canManage = hasRole('manager');
+
+  const { data: liability = [] } = useQuery({
+    queryKey: ['gift-cards', 'liability'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('gift_card_liability')
+        .select('*');
+
+      if (error) throw error;
+      return data;
+    }
+  });
+
+  const { data: cards = [], isLoading } = useQuery({
+    queryKey: ['gift-cards', 'list', kindFilter],
+    queryFn: async () => {
+      let query = supabase
+        .from('gift_cards')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(50);
+
+      if (kindFilter !== 'all') {
+        query = query.eq('kind', kindFilter);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return data;
+    },
+    placeholderData: keepPreviousData
+  });
+
+  const expireMutation = useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase
+        .rpc('expire_gift_cards')
+        .setHeader(AUDIT_SOURCE_HEADER, 'gift-cards');
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (count) => {
+      queryClient.invalidateQueries({ queryKey: ['gift-cards'] });
+      toast.success(count > 0 ? `Wrote off ${count} expired card${count === 1 ? '' : 's'}` : 'No expired balances to write off');
+    },
+    onError: (error) => {
+      toast.error(`Failed to write off expired cards: ${error.message}`);
+    }
+  });
+
+  const adjustMutation = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase.rpc('adjust_gift_card', {
+        p_gift_card_id: card!.id,
+        p_amount: parseFloat(adjustment.amount),
+        p_note: adjustment.note.trim()
+      }).setHeader(AUDIT_SOURCE_HEADER, 'gift-cards');
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['gift-cards'] });
+      setAdjustment({ amount: '', note: '' });
+      toast.success('Balance adjusted');
+    },
+    onError: (error) => {
+      toast.error(`Failed to adjust balance: ${error.message}`);
+    }
+  });
+
+  const handleAdjust = (e: React.FormEvent) => {
+    e.preventDefault();
+    const amount = parseFloat(adjustment.amount);
+    if (isNaN(amount) || amount === 0) {
+      toast.error('Enter a positive or negative amount');
+      return;
+    }
+    if (!adjustment.note.trim()) {
+      toast.error('Enter a reason for the adjustment');
+      return;
+    }
+    adjustMutation.mutate();
+  };
+
+  return (
+    <div className="p-6">
+      <div className="flex justify-between items-center mb-8">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-800 flex items-center gap-2">
+            <Gift className="h-6 w-6 text-pos-primary" />
+            Gift Cards
+          </h1>
+          <p className="text-gray-600 mt-1">Gift card and store credit balances, history and outstanding liability</p>
+        </div>
+        {canManage && (
+          <Button
+            variant="outline"
+            onClick={() => expireMutation.mutate()}
+            disabled={expireMutation.isPending}
+          >
+            Write Off Expired
+          </Button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+        {(['gift_card', 'store_credit'] as GiftCardKind[]).map(kind => {
+          const row = liability.find(entry => entry.kind === kind);
+          return (
+            <div key={kind} className="bg-white rounded-lg shadow-sm p-6">
+              <p className="text-sm text-gray-600">{GIFT_CARD_KIND_LABELS[kind]} Outstanding</p>
+              <p className="text-2xl font-bold text-pos-primary">${Number(row?.outstanding ?? 0).toFixed(2)}</p>
+              <div className="grid grid-cols-3 gap-4 mt-4 text-sm">
+                <div>
+                  <p className="text-gray-600">Open Cards</p>
+                  <p className="font-semibold">{row?.open_cards ?? 0}</p>
+                </div>
+                <div>
+                  <p className="text-gray-600">Expired, Unclaimed</p>
+                  <p className="font-semibold">${Number(row?.expired_unclaimed ?? 0).toFixed(2)}</p>
+                </div>
+                <div>
+                  <p className="text-gray-600">Issued</p>
+                  <p className="font-semibold">${Number(row?.issued_total ?? 0).toFixed(2)}</p>
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm p-6 mb-6">
+        <h2 className="text-lg font-semibold text-gray-800 mb-4">Check Balance</h2>
+        <div className="relative mb-4 max-w-md">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-5 w-5" />
+          <Input
+            placeholder="XXXX-XXXX-XXXX-XXXX"
+            value={code}
+            onChange={(e) => setCode(formatGiftCardCode(e.target.value))}
+            className="pl-10 font-mono"
+          />
+        </div>
+
+        {isCardLoading && <p className="text-sm text-gray-500">Checking card...</p>}
+        {card === null && !isCardLoading && <p className="text-sm text-red-600">No card with this code</p>}
+        {card && (
+          <div className="space-y-6">
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+              <div>
+                <p className="text-sm text-gray-600">{GIFT_CARD_KIND_LABELS[card.kind as GiftCardKind]}</p>
+                <span className={`px-2 py-1 rounded text-xs font-medium ${cardStatus(card).className}`}>
+                  {cardStatus(card).label}
+                </span>
+              </div>
+              <div>
+                <p className="text-sm text-gray-600">Balance</p>
+                <p className="text-2xl font-bold text-pos-primary">${Number(card.balance).toFixed(2)}</p>
+              </div>
+              <div>
+                <p className="text-sm text-gray-600">Issued</p>
+                <p className="font-medium">${Number(card.initial_amount).toFixed(2)}</p>
+                <p className="text-xs text-gray-500">{format(new Date(card.created_at), 'PP')}</p>
+              </div>
+              <div>
+                <p className="text-sm text-gray-600">Expires</p>
+                <p className="font-medium">{card.expires_at ? format(new Date(card.expires_at), 'PP') : 'Never'}</p>
+              </div>
+              <div>
+                <p className="text-sm text-gray-600">Customer</p>
+                {card.customer ? (
+                  <Link to={`/customers/${card.customer.id}`} className="font-medium text-pos-primary hover:underline">
+                    {card.customer.name}
+                  </Link>
+                ) : (
+                  <p className="text-gray-400">None</p>
+                )}
+              </div>
+            </div>
+
+            {canManage && card.status === 'active' && (
+              <form onSubmit={handleAdjust} className="flex gap-2 max-w-2xl">
+                <Input
+                  type="number"
+                  step="0.01"
+                  placeholder="Amount, e.g. -5.00"
+                  value={adjustment.amount}
+                  onChange={(e) => setAdjustment(prev => ({ ...prev, amount: e.target.value }))}
+                  className="w-40"
+                />
+                <Input
+                  placeholder="Reason"
+                  value={adjustment.note}
+                  onChange={(e) => setAdjustment(prev => ({ ...prev, note: e.target.value }))}
+                />
+                <Button type="submit" variant="outline" disabled={adjustMutation.isPending}>
+                  Adjust
+                </Button>
+              </form>
+            )}
+
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Type</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Note</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Amount</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Balance</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {card.transactions.map(transaction => (
+                    <tr key={transaction.id}>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {format(new Date(transaction.created_at), 'PPp')}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {GIFT_CARD_TRANSACTION_LABELS[transaction.transaction_type] ?? transaction.transaction_type}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-500">{transaction.note}</td>
+                      <td className={`px-6 py-4 whitespace-nowrap text-sm text-right font-medium ${
+                        Number(transaction.amount) < 0 ? 'text-red-600' : 'text-green-600'
+                      }`}>
+                        {Number(transaction.amount) < 0 ? '-' : '+'}${Math.abs(Number(transaction.amount)).toFixed(2)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                        ${Number(transaction.balance_after).toFixed(2)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-lg font-semibold text-gray-800">Recently Issued</h2>
+          <Select value={kindFilter} onValueChange={(value) => setKindFilter(value as 'all' | GiftCardKind)}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All</SelectItem>
+              <SelectItem value="gift_card">Gift Cards</SelectItem>
+              <SelectItem value="store_credit">Store Credit</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-pos-primary"></div>
+          </div>
+        ) : cards.length === 0 ? (
+          <div className="text-center py-12 text-gray-500">No cards issued yet</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Code</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Type</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Issued</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Expires</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Balance</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {cards.map(row => (
+                  <tr
+                    key={row.id}
+                    className="hover:bg-gray-50 cursor-pointer"
+                    onClick={() => setCode(formatGiftCardCode(row.code))}
+                  >
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-mono text-gray-900">{formatGiftCardCode(row.code)}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {GIFT_CARD_KIND_LABELS[row.kind as GiftCardKind]}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{format(new Date(row.created_at), 'PP')}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {row.expires_at ? format(new Date(row.expires_at), 'PP') : 'Never'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      <span className={`px-2 py-1 rounded text-xs font-medium ${cardStatus(row).className}`}>
+                        {cardStatus(row).label}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                      ${Number(row.balance).toFixed(2)} / ${Number(row.initial_amount).toFixed(2)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default GiftCardManagement;
@@ -0,0 +1,125 @@
+import React, { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { toast } from 'sonner';
+import { AUDIT_SOURCE_HEADER } from '@/lib/audit';
+
+// A blank field means cards of that kind never expire.
+const toMonths = (value: string) => (value.trim() ? parseInt(value, 10) : null);
+
+const GiftCardSettings: React.FC = () => {
+  const [form, setForm] = useState({ giftCardMonths: '', storeCreditMonths: '' });
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['gift-cards', 'settings'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('store_settings')
+        .select('gift_card_expiry_months, store_credit_expiry_months')
+        .eq('id', 1)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    }
+  });
+
+  useEffect(() => {
+    if (data) {
+      setForm({
+        giftCardMonths: data.gift_card_expiry_months?.toString() ?? '',
+        storeCreditMonths: data.store_credit_expiry_months?.toString() ?? ''
+      });
+    }
+  }, [data]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase
+        .from('store_settings')
+        .upsert({
+          id: 1,
+          gift_card_expiry_months: toMonths(form.giftCardMonths),
+          store_credit_expiry_months: toMonths(form.storeCreditMonths),
+          updated_at: new Date().toISOString()
+        })
+        .setHeader(AUDIT_SOURCE_HEADER, 'settings');
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['gift-cards', 'settings'] });
+      toast.success('Gift card settings saved');
+    },
+    onError: (error) => {
+      toast.error(`Failed to save gift card settings: ${error.message}`);
+    }
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const months = [toMonths(form.giftCardMonths), toMonths(form.storeCreditMonths)];
+    if (months.some(value => value !== null && (isNaN(value) || value <= 0))) {
+      toast.error('Expiry must be a whole number of months, or blank for no expiry');
+      return;
+    }
+    saveMutation.mutate();
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-pos-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-sm p-6 space-y-4 max-w-2xl">
+      <div>
+        <h2 className="text-lg font-semibold text-gray-800">Expiry</h2>
+        <p className="text-sm text-gray-600">
+          Applies to cards issued from now on. Leave blank for cards that never expire.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Gift Cards (months)</label>
+          <Input
+            type="number"
+            min="1"
+            step="1"
+            value={form.giftCardMonths}
+            onChange={(e) => setForm(prev => ({ ...prev, giftCardMonths: e.target.value }))}
+            placeholder="Never"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Store Credit (months)</label>
+          <Input
+            type="number"
+            min="1"
+            step="1"
+            value={form.storeCreditMonths}
+            onChange={(e) => setForm(prev => ({ ...prev, storeCreditMonths: e.target.value }))}
+            placeholder="Never"
+          />
+        </div>
+      </div>
+
+      <Button
+        type="submit"
+        className="bg-pos-primary hover:bg-pos-secondary"
+        disabled={saveMutation.isPending}
+      >
+        {saveMutation.isPending ? 'Saving...' : 'Save'}
+      </Button>
+    </form>
+  );
+};
+
+export default GiftCardSettings;
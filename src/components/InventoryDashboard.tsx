@@ -1,6 +1,10 @@
-import React from 'react';
-import { useQuery } from '@tanstack/react-query';
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
+import { Json } from '@/integrations/supabase/types';
+import { Button } from '@/components/ui/button';
+import { toast } from 'sonner';
 import { 
   Package, 
   AlertTriangle, 
@@ -11,19 +15,21 @@ import {
   ArrowDownRight
 } from 'lucide-react';
 import { format } from 'date-fns';
+import { AUDIT_SOURCE_HEADER } from '@/lib/audit';
+import { totalInventoryValue } from '@/lib/costing';
+import { PurchaseOrderDraft } from '@/lib/purchase-orders';
+import { ReorderAlertRow } from '@/types/stock';
+import ReorderDialog from './ReorderDialog';
 
 interface InventoryMetrics {
   totalProducts: number;
   lowStockItems: number;
   outOfStockItems: number;
+  // Stock on hand at cost, from inventory_valuation.
   totalValue: number;
   recentOrders: number;
-  stockAlerts: Array<{
-    id: string;
-    name: string;
-    stock: number;
-    threshold: number;
-  }>;
+  // Products at or below their reorder point, from reorder_alerts.
+  stockAlerts: ReorderAlertRow[];
   topSellingProducts: Array<{
     id: string;
     name: string;
@@ -33,6 +39,10 @@ interface InventoryMetrics {
 }
 
 const InventoryDashboard: React.FC = () => {
+  const [isReorderOpen, setIsReorderOpen] = useState(false);
+  const queryClient = useQueryClient();
+  const navigate = useNavigate();
+
   // Fetch inventory metrics
   const { data: metrics, isLoading } = useQuery<InventoryMetrics>({
     queryKey: ['inventory-metrics'],
@@ -44,6 +54,19 @@ const InventoryDashboard: React.FC = () => {
       
       if (productsError) throw productsError;
 
+      const { data: stockAlerts, error: alertsError } = await supabase
+        .from('reorder_alerts')
+        .select('*')
+        .order('product_name');
+
+      if (alertsError) throw alertsError;
+
+      const { data: valuation, error: valuationError } = await supabase
+        .from('inventory_valuation')
+        .select('inventory_value');
+
+      if (valuationError) throw valuationError;
+
       // Get recent orders (last 7 days)
       const sevenDaysAgo = new Date();
       sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
@@ -57,19 +80,14 @@ const InventoryDashboard: React.FC = () => {
 
       // Calculate metrics
       const totalProducts = products.length;
-      const lowStockItems = products.filter(p => p.stock_quantity <= 10 && p.stock_quantity > 0).length;
-      const outOfStockItems = products.filter(p => p.stock_quantity === 0).length;
-      const totalValue = products.reduce((sum, p) => sum + (p.price * p.stock_quantity), 0);
-
-      // Calculate stock alerts
-      const stockAlerts = products
-        .filter(p => p.stock_quantity <= 10)
-        .map(p => ({
-          id: p.id,
-          name: p.product_name,
-          stock: p.stock_quantity,
-          threshold: 10
-        }));
+      // Counted from the products rather than the alerts, which leave out
+      // what is already covered by open purchase orders.
+      const stocked = products.filter(p => !p.is_gift_card);
+      const lowStockItems = stocked.filter(
+        p => Number(p.stock_quantity ?? 0) > 0 && Number(p.stock_quantity ?? 0) <= Number(p.reorder_point ?? 0)
+      ).length;
+      const outOfStockItems = stocked.filter(p => Number(p.stock_quantity ?? 0) <= 0).length;
+      const totalValue = totalInventoryValue(valuation);
 
       // Calculate top selling products
       const productSales = new Map();
@@ -108,6 +126,35 @@ const InventoryDashboard: React.FC = () => {
     }
   });
 
+  // Creates one draft purchase order per supplier, one after another so a
+  // failure leaves the orders already created in place.
+  const createOrdersMutation = useMutation({
+    mutationFn: async (drafts: PurchaseOrderDraft[]) => {
+      for (const draft of drafts) {
+        const { error } = await supabase
+          .rpc('create_purchase_order', {
+            p_supplier_id: draft.supplier_id,
+            p_lines: draft.lines as unknown as Json,
+            p_notes: 'Reorder from stock alerts'
+          })
+          .setHeader(AUDIT_SOURCE_HEADER, 'purchases');
+
+        if (error) throw error;
+      }
+      return drafts.length;
+    },
+    onSuccess: (count) => {
+      queryClient.invalidateQueries({ queryKey: ['purchase-orders'] });
+      setIsReorderOpen(false);
+      toast.success(`${count} draft purchase order${count === 1 ? '' : 's'} created`);
+      navigate('/purchase-orders');
+    },
+    onError: (error) => {
+      queryClient.invalidateQueries({ queryKey: ['purchase-orders'] });
+      toast.error(`Failed to create purchase orders: ${error.message}`);
+    }
+  });
+
   if (isLoading) {
     return (
       <div className="flex justify-center items-center min-h-screen">
@@ -151,7 +198,7 @@ const InventoryDashboard: React.FC = () => {
           trendColor="red"
         />
         <MetricCard
-          title="Total Inventory Value"
+          title="Inventory Value (at cost)"
           value={`$${metrics?.totalValue.toFixed(2) || '0.00'}`}
           icon={<DollarSign className="h-5 w-5" />}
           trend={null}
@@ -162,18 +209,39 @@ const InventoryDashboard: React.FC = () => {
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Stock Alerts */}
         <div className="bg-white rounded-lg shadow-sm p-6">
-          <h2 className="text-lg font-semibold text-gray-800 mb-4">Stock Alerts</h2>
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-lg font-semibold text-gray-800">Stock Alerts</h2>
+            {(metrics?.stockAlerts.length ?? 0) > 0 && (
+              <Button
+                size="sm"
+                className="bg-pos-primary hover:bg-pos-secondary"
+                onClick={() => setIsReorderOpen(true)}
+              >
+                <ShoppingCart className="h-4 w-4 mr-1" />
+                Create Purchase Order
+              </Button>
+            )}
+          </div>
           {metrics?.stockAlerts.length === 0 ? (
             <p className="text-gray-500 text-center py-4">No stock alerts at the moment</p>
           ) : (
             <div className="space-y-4">
               {metrics?.stockAlerts.map(alert => (
-                <div key={alert.id} className="flex items-center justify-between p-3 bg-red-50 rounded-lg">
+                <div key={alert.product_id} className="flex items-center justify-between p-3 bg-red-50 rounded-lg">
                   <div>
-                    <p className="font-medium text-gray-800">{alert.name}</p>
+                    <p className="font-medium text-gray-800">{alert.product_name}</p>
                     <p className="text-sm text-red-600">
-                      Only {alert.stock} items left
+                      {Number(alert.stock_quantity) <= 0
+                        ? 'Out of stock'
+                        : `Only ${Number(alert.stock_quantity)} left, reorder at ${Number(alert.reorder_point)}`}
+                      {Number(alert.on_order_quantity) > 0 && `, ${Number(alert.on_order_quantity)} on order`}
                     </p>
+                    {Number(alert.suggested_quantity) > 0 && (
+                      <p className="text-sm text-gray-600">
+                        Order {Number(alert.suggested_quantity)}
+                        {alert.preferred_supplier && ` from ${alert.preferred_supplier}`}
+                      </p>
+                    )}
                   </div>
                   <AlertTriangle className="h-5 w-5 text-red-500" />
                 </div>
@@ -209,6 +277,14 @@ const InventoryDashboard: React.FC = () => {
           )}
         </div>
       </div>
+
+      <ReorderDialog
+        isOpen={isReorderOpen}
+        onClose={() => setIsReorderOpen(false)}
+        alerts={metrics?.stockAlerts ?? []}
+        onCreate={(drafts) => createOrdersMutation.mutate(drafts)}
+        isSubmitting={createOrdersMutation.isPending}
+      />
     </div>
   );
 };
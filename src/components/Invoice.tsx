@@ -0,0 +1,209 @@
+import React from 'react';
+import { format } from 'date-fns';
+import { OrderDetails } from '@/types/order';
+import { useStoreSettings } from '@/hooks/use-store-settings';
+import { DEFAULT_STORE_DETAILS } from '@/lib/store';
+import { tenderMethodLabel } from '@/lib/tender';
+import { formatGiftCardCode } from '@/lib/gift-cards';
+
+interface InvoiceProps {
+  order: OrderDetails;
+}
+
+// Full-page invoice for an order. Printed receipts are rendered by
+// ThermalReceipt instead.
+const Invoice: React.FC<InvoiceProps> = ({ order }) => {
+  const { data: store = DEFAULT_STORE_DETAILS } = useStoreSettings();
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="border-b pb-4">
+        {store.logoUrl && (
+          <img src={store.logoUrl} alt={store.storeName} className="h-12 mb-2 object-contain" />
+        )}
+        <h2 className="text-xl font-semibold text-gray-800">{store.storeName}</h2>
+        {store.legalName && <p className="text-gray-600">{store.legalName}</p>}
+        {store.addressLines.map((line, index) => (
+          <p key={index} className="text-gray-600">{line}</p>
+        ))}
+        {(store.phone || store.email) && (
+          <p className="text-gray-600">{[store.phone, store.email].filter(Boolean).join(' | ')}</p>
+        )}
+        {store.taxId && <p className="text-gray-600">Tax ID: {store.taxId}</p>}
+      </div>
+
+      {/* Order Info */}
+      <div className="grid grid-cols-2 gap-4">
+        {order.invoice_number && (
+          <div>
+            <p className="text-sm text-gray-600">Invoice Number</p>
+            <p className="font-medium">{order.invoice_number}</p>
+          </div>
+        )}
+        <div>
+          <p className="text-sm text-gray-600">Order Number</p>
+          <p className="font-medium">{order.order_number}</p>
+        </div>
+        <div>
+          <p className="text-sm text-gray-600">Date</p>
+          <p className="font-medium">
+            {format(new Date(order.created_at), 'PPP')}
+          </p>
+        </div>
+        <div>
+          <p className="text-sm text-gray-600">Payment Method</p>
+          <p className="font-medium">{tenderMethodLabel(order.payment_method)}</p>
+        </div>
+        {order.customer && (
+          <div>
+            <p className="text-sm text-gray-600">Bill To</p>
+            <p className="font-medium">{order.customer.name}</p>
+            {order.customer.address_lines.map((line, index) => (
+              <p key={index} className="text-gray-600">{line}</p>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Items */}
+      <div>
+        <h3 className="font-semibold mb-2">Items</h3>
+        <div className="border rounded-lg">
+          <table className="min-w-full">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-2 text-left text-sm font-medium text-gray-600">Item</th>
+                <th className="px-4 py-2 text-right text-sm font-medium text-gray-600">Qty</th>
+                <th className="px-4 py-2 text-right text-sm font-medium text-gray-600">Price</th>
+                <th className="px-4 py-2 text-right text-sm font-medium text-gray-600">Total</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {order.items.map((item, index) => (
+                <React.Fragment key={index}>
+                  <tr>
+                    <td className="px-4 py-2">{item.product_name}</td>
+                    <td className="px-4 py-2 text-right">{item.quantity}</td>
+                    <td className="px-4 py-2 text-right">${item.price.toFixed(2)}</td>
+                    <td className="px-4 py-2 text-right">
+                      ${(item.quantity * item.price).toFixed(2)}
+                    </td>
+                  </tr>
+                  {order.discounts
+                    ?.filter(discount => item.id !== undefined && discount.order_item_id === item.id)
+                    .map((discount, discountIndex) => (
+                      <tr key={`${index}-${discountIndex}`} className="text-sm text-green-600">
+                        <td className="px-4 py-1 pl-8" colSpan={3}>
+                          {discount.description}
+                          {discount.reason && ` (${discount.reason})`}
+                        </td>
+                        <td className="px-4 py-1 text-right">-${discount.amount.toFixed(2)}</td>
+                      </tr>
+                    ))}
+                </React.Fragment>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Total */}
+      <div className="border-t pt-4">
+        {order.subtotal !== undefined && (
+          <div className="mb-3 space-y-1 text-sm">
+            {order.discounts
+              ?.filter(discount => discount.order_item_id === null)
+              .map((discount, index) => (
+                <div key={index} className="flex justify-between text-green-600">
+                  <span>
+                    {discount.description}
+                    {discount.reason && ` (${discount.reason})`}
+                  </span>
+                  <span>-${discount.amount.toFixed(2)}</span>
+                </div>
+              ))}
+            {!!order.discount_total && (
+              <div className="flex justify-between text-green-600">
+                <span>Total Savings</span>
+                <span>-${order.discount_total.toFixed(2)}</span>
+              </div>
+            )}
+            <div className="flex justify-between text-gray-600">
+              <span>Subtotal{order.prices_include_tax ? ' (excl. tax)' : ''}</span>
+              <span>${order.subtotal.toFixed(2)}</span>
+            </div>
+            {order.tax_lines?.map((line, index) => (
+              <div key={index} className="flex justify-between text-gray-600">
+                <span>{line.name} ({line.rate}%)</span>
+                <span>${line.tax_amount.toFixed(2)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+        <div className="flex justify-between items-center">
+          <span className="text-lg font-semibold">Total</span>
+          <span className="text-2xl font-bold text-pos-primary">
+            ${order.total_amount.toFixed(2)}
+          </span>
+        </div>
+        {order.payments && order.payments.length > 0 && (
+          <div className="mt-3 space-y-1 text-sm">
+            {order.payments.map((payment, index) => (
+              <div key={index} className="flex justify-between text-gray-600">
+                <span>{tenderMethodLabel(payment.method)}</span>
+                <span>${payment.amount.toFixed(2)}</span>
+              </div>
+            ))}
+            <div className="flex justify-between font-medium">
+              <span>Change</span>
+              <span>${(order.change_given || 0).toFixed(2)}</span>
+            </div>
+            {!!order.points_earned && (
+              <div className="flex justify-between text-gray-600">
+                <span>Points earned</span>
+                <span>{order.points_earned}</span>
+              </div>
+            )}
+          </div>
+        )}
+        {order.gift_cards && order.gift_cards.length > 0 && (
+          <div className="mt-3 space-y-1 text-sm">
+            {order.gift_cards.map((card) => (
+              <div key={card.code} className="flex justify-between">
+                <span>
+                  Gift card <span className="font-mono">{formatGiftCardCode(card.code)}</span>
+                  {card.expires_at && (
+                    <span className="text-gray-500"> (expires {format(new Date(card.expires_at), 'PP')})</span>
+                  )}
+                </span>
+                <span>${card.amount.toFixed(2)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+        {order.refunds && order.refunds.length > 0 && (
+          <div className="mt-3 space-y-1 text-sm">
+            {order.refunds.map((refund) => (
+              <div key={refund.refund_number} className="flex justify-between text-red-600">
+                <span>
+                  Refund {refund.refund_number} ({format(new Date(refund.created_at), 'PP')})
+                </span>
+                <span>-${refund.amount.toFixed(2)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Footer */}
+      <div className="border-t pt-4 text-center text-sm text-gray-600">
+        {store.footerLines.map((line, index) => (
+          <p key={index}>{line}</p>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default Invoice;
@@ -0,0 +1,223 @@
+import React, { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { toast } from 'sonner';
+import { MapPin, Plus } from 'lucide-react';
+import { AUDIT_SOURCE_HEADER } from '@/lib/audit';
+import { LOCATION_KIND_LABELS, resolveLocation } from '@/lib/locations';
+import { getTerminalLocationId, setTerminalLocationId } from '@/lib/terminal';
+import { useLocations } from '@/hooks/use-locations';
+import { LocationKind, LocationRow } from '@/types/location';
+
+// The shops, warehouse and production floor stock is held at, and which of
+// them this terminal sells from.
+const LocationSettings: React.FC = () => {
+  const [newLocation, setNewLocation] = useState<{ name: string; kind: LocationKind }>({ name: '', kind: 'store' });
+  const [terminalLocationId, setTerminalLocation] = useState(getTerminalLocationId);
+  const queryClient = useQueryClient();
+  const { data: locations = [], isLoading } = useLocations();
+  const terminalLocation = resolveLocation(locations, terminalLocationId);
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['locations'] });
+  };
+
+  const addLocationMutation = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase
+        .from('locations')
+        .insert([{ name: newLocation.name.trim(), kind: newLocation.kind }])
+        .setHeader(AUDIT_SOURCE_HEADER, 'settings');
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      setNewLocation({ name: '', kind: 'store' });
+      toast.success('Location added');
+    },
+    onError: (error) => {
+      toast.error(`Failed to add location: ${error.message}`);
+    }
+  });
+
+  const toggleLocationMutation = useMutation({
+    mutationFn: async (location: LocationRow) => {
+      const { error } = await supabase
+        .from('locations')
+        .update({ is_active: !location.is_active })
+        .eq('id', location.id)
+        .setHeader(AUDIT_SOURCE_HEADER, 'settings');
+
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+    onError: (error) => {
+      toast.error(`Failed to update location: ${error.message}`);
+    }
+  });
+
+  const setDefaultMutation = useMutation({
+    mutationFn: async (locationId: number) => {
+      const { error } = await supabase
+        .rpc('set_default_location', { p_location_id: locationId })
+        .setHeader(AUDIT_SOURCE_HEADER, 'settings');
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success('Default location changed');
+    },
+    onError: (error) => {
+      toast.error(`Failed to change default location: ${error.message}`);
+    }
+  });
+
+  const handleAddLocation = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newLocation.name.trim()) {
+      toast.error('Enter a name for the location');
+      return;
+    }
+    addLocationMutation.mutate();
+  };
+
+  const handleTerminalLocationChange = (value: string) => {
+    const locationId = Number(value);
+    setTerminalLocationId(locationId);
+    setTerminalLocation(locationId);
+    queryClient.invalidateQueries({ queryKey: ['products'] });
+    toast.success('This terminal now sells from the selected location');
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-pos-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* This Terminal */}
+      <div className="bg-white rounded-lg shadow-sm p-6">
+        <h2 className="text-lg font-semibold text-gray-800">This Terminal</h2>
+        <p className="text-sm text-gray-600 mb-4">
+          Sales rung up on this till come out of the stock at this location. Stored in this browser, since each till
+          has its own.
+        </p>
+        <div className="max-w-sm">
+          <Select
+            value={terminalLocation ? String(terminalLocation.id) : undefined}
+            onValueChange={handleTerminalLocationChange}
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="Select a location" />
+            </SelectTrigger>
+            <SelectContent>
+              {locations.filter(location => location.is_active).map(location => (
+                <SelectItem key={location.id} value={String(location.id)}>{location.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {/* Locations */}
+      <div className="bg-white rounded-lg shadow-sm p-6">
+        <h2 className="text-lg font-semibold text-gray-800 mb-4">Locations</h2>
+        <form onSubmit={handleAddLocation} className="flex gap-2 mb-4">
+          <Input
+            placeholder="Name, e.g. High Street Shop"
+            value={newLocation.name}
+            onChange={(e) => setNewLocation(prev => ({ ...prev, name: e.target.value }))}
+          />
+          <Select
+            value={newLocation.kind}
+            onValueChange={(value) => setNewLocation(prev => ({ ...prev, kind: value as LocationKind }))}
+          >
+            <SelectTrigger className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(LOCATION_KIND_LABELS) as LocationKind[]).map(kind => (
+                <SelectItem key={kind} value={kind}>{LOCATION_KIND_LABELS[kind]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            type="submit"
+            className="bg-pos-primary hover:bg-pos-secondary"
+            disabled={addLocationMutation.isPending}
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add
+          </Button>
+        </form>
+
+        {locations.length === 0 ? (
+          <div className="text-center py-4 text-gray-500">
+            <MapPin className="h-8 w-8 mx-auto mb-2 text-gray-400" />
+            <p>No locations configured</p>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {locations.map(location => (
+              <div key={location.id} className="p-3 bg-gray-50 rounded-lg flex justify-between items-center">
+                <div>
+                  <p className="font-medium text-gray-800">
+                    {location.name}
+                    {location.is_default && (
+                      <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                        Default
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-sm text-gray-500">
+                    {LOCATION_KIND_LABELS[location.kind as LocationKind] ?? location.kind}
+                  </p>
+                </div>
+                <div className="flex items-center gap-3">
+                  {!location.is_default && location.is_active && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setDefaultMutation.mutate(location.id)}
+                      disabled={setDefaultMutation.isPending}
+                    >
+                      Make Default
+                    </Button>
+                  )}
+                  <span className="text-sm text-gray-500">{location.is_active ? 'Active' : 'Inactive'}</span>
+                  <Switch
+                    checked={location.is_active}
+                    onCheckedChange={() => toggleLocationMutation.mutate(location)}
+                    disabled={location.is_default}
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+        <p className="text-sm text-gray-500 mt-4">
+          Stock that arrives without a location, such as a new product's opening stock, goes to the default location.
+          An inactive location keeps its history but can no longer sell, receive or make stock.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default LocationSettings;
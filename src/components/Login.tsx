@@ -0,0 +1,78 @@
+import React, { useState } from 'react';
+import { Navigate, useLocation } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { toast } from 'sonner';
+import { LogIn } from 'lucide-react';
+import { useAuth } from '@/hooks/use-auth';
+
+const Login: React.FC = () => {
+  const [form, setForm] = useState({ email: '', password: '' });
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { session, isLoading, signIn } = useAuth();
+  const location = useLocation();
+  // Where RequireRole sent us from, so staff land back where they were.
+  const from = (location.state as { from?: string } | null)?.from ?? '/';
+
+  if (!isLoading && session) {
+    return <Navigate to={from} replace />;
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.email.trim() || !form.password) {
+      toast.error('Enter your email and password');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await signIn(form.email.trim(), form.password);
+    } catch (error) {
+      toast.error(`Failed to sign in: ${(error as Error).message}`);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="p-6 flex justify-center">
+      <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-sm p-6 space-y-4 w-full max-w-sm">
+        <h1 className="text-2xl font-bold text-gray-800 flex items-center gap-2">
+          <LogIn className="h-6 w-6 text-pos-primary" />
+          Staff Sign In
+        </h1>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Email</label>
+          <Input
+            type="email"
+            autoComplete="username"
+            value={form.email}
+            onChange={(e) => setForm(prev => ({ ...prev, email: e.target.value }))}
+            autoFocus
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Password</label>
+          <Input
+            type="password"
+            autoComplete="current-password"
+            value={form.password}
+            onChange={(e) => setForm(prev => ({ ...prev, password: e.target.value }))}
+          />
+        </div>
+
+        <Button
+          type="submit"
+          className="w-full bg-pos-primary hover:bg-pos-secondary"
+          disabled={isSubmitting}
+        >
+          {isSubmitting ? 'Signing in...' : 'Sign In'}
+        </Button>
+      </form>
+    </div>
+  );
+};
+
+export default Login;
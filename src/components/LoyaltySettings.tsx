@@ -0,0 +1,361 @@
+import React, { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { toast } from 'sonner';
+import { Plus, Star, Trash2 } from 'lucide-react';
+import { describeEarnRule } from '@/lib/loyalty';
+import { LoyaltyEarnRuleRow } from '@/types/loyalty';
+import { AUDIT_SOURCE_HEADER } from '@/lib/audit';
+
+const ALL_CATEGORIES = 'all';
+
+const EMPTY_RULE = {
+  name: '',
+  category: ALL_CATEGORIES,
+  points_per_dollar: '1',
+  bonus_points: '0',
+  min_order_total: '0'
+};
+
+const LoyaltySettings: React.FC = () => {
+  const [program, setProgram] = useState({
+    pointValue: '',
+    referrerPoints: '',
+    refereePoints: ''
+  });
+  const [newRule, setNewRule] = useState(EMPTY_RULE);
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['loyalty', 'settings'],
+    queryFn: async () => {
+      const [settingsResult, rulesResult, productsResult] = await Promise.all([
+        supabase.from('store_settings').select('*').eq('id', 1).maybeSingle(),
+        supabase.from('loyalty_earn_rules').select('*').order('created_at'),
+        supabase.from('products').select('category')
+      ]);
+
+      if (settingsResult.error) throw settingsResult.error;
+      if (rulesResult.error) throw rulesResult.error;
+      if (productsResult.error) throw productsResult.error;
+
+      const categories = Array.from(
+        new Set(productsResult.data.map(p => p.category).filter(Boolean))
+      ).sort();
+
+      return {
+        settings: settingsResult.data,
+        rules: rulesResult.data as LoyaltyEarnRuleRow[],
+        categories
+      };
+    }
+  });
+
+  useEffect(() => {
+    if (data?.settings) {
+      setProgram({
+        pointValue: String(data.settings.points_redemption_value),
+        referrerPoints: String(data.settings.referral_referrer_points),
+        refereePoints: String(data.settings.referral_referee_points)
+      });
+    }
+  }, [data]);
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['loyalty'] });
+  };
+
+  const saveProgramMutation = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase
+        .from('store_settings')
+        .upsert({
+          id: 1,
+          points_redemption_value: parseFloat(program.pointValue),
+          referral_referrer_points: parseInt(program.referrerPoints, 10),
+          referral_referee_points: parseInt(program.refereePoints, 10),
+          updated_at: new Date().toISOString()
+        })
+        .setHeader(AUDIT_SOURCE_HEADER, 'settings');
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success('Loyalty programme saved');
+    },
+    onError: (error) => {
+      toast.error(`Failed to save loyalty programme: ${error.message}`);
+    }
+  });
+
+  const addRuleMutation = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase
+        .from('loyalty_earn_rules')
+        .insert([{
+          name: newRule.name.trim(),
+          category: newRule.category === ALL_CATEGORIES ? null : newRule.category,
+          points_per_dollar: parseFloat(newRule.points_per_dollar) || 0,
+          bonus_points: parseInt(newRule.bonus_points, 10) || 0,
+          min_order_total: parseFloat(newRule.min_order_total) || 0
+        }])
+        .setHeader(AUDIT_SOURCE_HEADER, 'settings');
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      setNewRule(EMPTY_RULE);
+      toast.success('Earn rule added');
+    },
+    onError: (error) => {
+      toast.error(`Failed to add earn rule: ${error.message}`);
+    }
+  });
+
+  const toggleRuleMutation = useMutation({
+    mutationFn: async (rule: LoyaltyEarnRuleRow) => {
+      const { error } = await supabase
+        .from('loyalty_earn_rules')
+        .update({ is_active: !rule.is_active })
+        .eq('id', rule.id)
+        .setHeader(AUDIT_SOURCE_HEADER, 'settings');
+
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+    onError: (error) => {
+      toast.error(`Failed to update earn rule: ${error.message}`);
+    }
+  });
+
+  const deleteRuleMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const { error } = await supabase
+        .from('loyalty_earn_rules')
+        .delete()
+        .eq('id', id)
+        .setHeader(AUDIT_SOURCE_HEADER, 'settings');
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success('Earn rule deleted');
+    },
+    onError: (error) => {
+      toast.error(`Failed to delete earn rule: ${error.message}`);
+    }
+  });
+
+  const handleSaveProgram = (e: React.FormEvent) => {
+    e.preventDefault();
+    const pointValue = parseFloat(program.pointValue);
+    const referrerPoints = parseInt(program.referrerPoints, 10);
+    const refereePoints = parseInt(program.refereePoints, 10);
+    if (isNaN(pointValue) || pointValue <= 0) {
+      toast.error('Point value must be greater than zero');
+      return;
+    }
+    if (isNaN(referrerPoints) || referrerPoints < 0 || isNaN(refereePoints) || refereePoints < 0) {
+      toast.error('Referral rewards must be zero or more points');
+      return;
+    }
+    saveProgramMutation.mutate();
+  };
+
+  const handleAddRule = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newRule.name.trim()) {
+      toast.error('Enter a name for the rule');
+      return;
+    }
+    if (!(parseFloat(newRule.points_per_dollar) > 0) && !(parseInt(newRule.bonus_points, 10) > 0)) {
+      toast.error('A rule must award points per dollar or bonus points');
+      return;
+    }
+    addRuleMutation.mutate();
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-pos-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Programme */}
+      <form onSubmit={handleSaveProgram} className="bg-white rounded-lg shadow-sm p-6 space-y-4 max-w-2xl">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-800">Points &amp; Referrals</h2>
+          <p className="text-sm text-gray-600">
+            Referral rewards are paid to both customers when the referred customer makes a first purchase.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Value per Point ($)</label>
+            <Input
+              type="number"
+              min="0"
+              step="0.001"
+              value={program.pointValue}
+              onChange={(e) => setProgram(prev => ({ ...prev, pointValue: e.target.value }))}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Referrer Reward (pts)</label>
+            <Input
+              type="number"
+              min="0"
+              step="1"
+              value={program.referrerPoints}
+              onChange={(e) => setProgram(prev => ({ ...prev, referrerPoints: e.target.value }))}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">New Customer Reward (pts)</label>
+            <Input
+              type="number"
+              min="0"
+              step="1"
+              value={program.refereePoints}
+              onChange={(e) => setProgram(prev => ({ ...prev, refereePoints: e.target.value }))}
+            />
+          </div>
+        </div>
+
+        <Button
+          type="submit"
+          className="bg-pos-primary hover:bg-pos-secondary"
+          disabled={saveProgramMutation.isPending}
+        >
+          {saveProgramMutation.isPending ? 'Saving...' : 'Save'}
+        </Button>
+      </form>
+
+      {/* Earn Rules */}
+      <div className="bg-white rounded-lg shadow-sm p-6">
+        <h2 className="text-lg font-semibold text-gray-800 mb-1">Earn Rules</h2>
+        <p className="text-sm text-gray-600 mb-4">
+          Every active rule adds to the points an order earns. Points are not earned on the part of an order paid with points.
+        </p>
+        <form onSubmit={handleAddRule} className="grid grid-cols-2 md:grid-cols-6 gap-2 mb-4 items-end">
+          <div className="col-span-2">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+            <Input
+              placeholder="e.g. Standard earn"
+              value={newRule.name}
+              onChange={(e) => setNewRule(prev => ({ ...prev, name: e.target.value }))}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Category</label>
+            <Select
+              value={newRule.category}
+              onValueChange={(value) => setNewRule(prev => ({ ...prev, category: value }))}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_CATEGORIES}>All categories</SelectItem>
+                {data?.categories.map(category => (
+                  <SelectItem key={category} value={category}>{category}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Pts per $1</label>
+            <Input
+              type="number"
+              min="0"
+              step="0.01"
+              value={newRule.points_per_dollar}
+              onChange={(e) => setNewRule(prev => ({ ...prev, points_per_dollar: e.target.value }))}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Bonus Pts</label>
+            <Input
+              type="number"
+              min="0"
+              step="1"
+              value={newRule.bonus_points}
+              onChange={(e) => setNewRule(prev => ({ ...prev, bonus_points: e.target.value }))}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Min Order ($)</label>
+            <Input
+              type="number"
+              min="0"
+              step="0.01"
+              value={newRule.min_order_total}
+              onChange={(e) => setNewRule(prev => ({ ...prev, min_order_total: e.target.value }))}
+            />
+          </div>
+          <Button
+            type="submit"
+            className="bg-pos-primary hover:bg-pos-secondary col-span-2 md:col-span-6 md:w-fit"
+            disabled={addRuleMutation.isPending}
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add Rule
+          </Button>
+        </form>
+
+        {data?.rules.length === 0 ? (
+          <div className="text-center py-4 text-gray-500">
+            <Star className="h-8 w-8 mx-auto mb-2 text-gray-400" />
+            <p>No earn rules yet, so orders earn no points</p>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {data?.rules.map(rule => (
+              <div key={rule.id} className="p-3 bg-gray-50 rounded-lg flex justify-between items-center">
+                <div>
+                  <p className="font-medium text-gray-800">{rule.name}</p>
+                  <p className="text-sm text-gray-500">{describeEarnRule(rule)}</p>
+                </div>
+                <div className="flex items-center gap-3">
+                  <span className="text-sm text-gray-500">{rule.is_active ? 'Active' : 'Inactive'}</span>
+                  <Switch
+                    checked={rule.is_active}
+                    onCheckedChange={() => toggleRuleMutation.mutate(rule)}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => deleteRuleMutation.mutate(rule.id)}
+                    className="text-red-500 hover:text-red-600 hover:bg-red-50"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LoyaltySettings;
@@ -0,0 +1,181 @@
+import React, { useEffect, useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { toast } from 'sonner';
+import { ShieldCheck } from 'lucide-react';
+import { useAuth } from '@/hooks/use-auth';
+import { APPROVAL_ACTION_LABELS, APPROVAL_ACTION_SOURCES, ApprovalRequest } from '@/lib/approvals';
+import { AUDIT_SOURCE_HEADER } from '@/lib/audit';
+import { getTerminalId } from '@/lib/terminal';
+import { ManagerApprovalRow } from '@/types/approval';
+
+interface ManagerApprovalDialogProps {
+  // The action waiting for approval; the dialog is open while this is set.
+  request: ApprovalRequest | null;
+  onClose: () => void;
+  onApproved: (approval: ManagerApprovalRow) => void;
+}
+
+// Asks a manager to approve a privileged action, either by choosing their
+// name and entering their PIN or, when the signed-in user is a manager, with
+// a single click.
+const ManagerApprovalDialog: React.FC<ManagerApprovalDialogProps> = ({
+  request,
+  onClose,
+  onApproved,
+}) => {
+  const [pin, setPin] = useState('');
+  const [approverId, setApproverId] = useState('');
+  const { hasRole } = useAuth();
+  const isManager = hasRole('manager');
+
+  const { data: managers = [] } = useQuery({
+    queryKey: ['approving-managers'],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('approving_managers');
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: request !== null && !isManager
+  });
+
+  useEffect(() => {
+    if (request) {
+      setPin('');
+    }
+  }, [request]);
+
+  const approveMutation = useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase.rpc('approve_action', {
+        p_action: request!.action,
+        p_description: request!.description,
+        p_pin: isManager ? undefined : pin,
+        p_approver_id: isManager ? undefined : approverId,
+        p_amount: request!.amount,
+        p_discount_type: request!.discountType,
+        p_product_id: request!.productId,
+        p_order_id: request!.orderId,
+        p_cash_session_id: request!.cashSessionId,
+        p_terminal_id: getTerminalId()
+      }).setHeader(AUDIT_SOURCE_HEADER, APPROVAL_ACTION_SOURCES[request!.action]);
+
+      if (error) throw error;
+      // approve_action returns null for a wrong PIN so the attempt is kept.
+      if (!data) throw new Error('Incorrect manager PIN');
+      return data as unknown as ManagerApprovalRow;
+    },
+    onSuccess: (approval) => {
+      onApproved(approval);
+      onClose();
+    },
+    onError: (error) => {
+      setPin('');
+      toast.error(`Approval failed: ${error.message}`);
+    }
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isManager && !approverId) {
+      toast.error('Choose the manager approving this');
+      return;
+    }
+    if (!isManager && !/^[0-9]{4,8}$/.test(pin)) {
+      toast.error('Enter a 4 to 8 digit manager PIN');
+      return;
+    }
+    approveMutation.mutate();
+  };
+
+  return (
+    <Dialog open={request !== null} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-md">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <ShieldCheck className="h-5 w-5 text-pos-primary" />
+              Manager Approval: {request && APPROVAL_ACTION_LABELS[request.action]}
+            </DialogTitle>
+            <DialogDescription>{request?.description}</DialogDescription>
+          </DialogHeader>
+
+          {isManager ? (
+            <p className="py-4 text-sm text-gray-600">
+              You are signed in as a manager. The approval will be recorded in your name.
+            </p>
+          ) : (
+            <div className="grid gap-4 py-4">
+              <div className="grid grid-cols-4 items-center gap-4">
+                <Label htmlFor="manager-approver" className="text-right">
+                  Manager
+                </Label>
+                <div className="col-span-3">
+                  <Select value={approverId} onValueChange={setApproverId}>
+                    <SelectTrigger id="manager-approver">
+                      <SelectValue placeholder={managers.length === 0 ? 'No manager has set a PIN' : 'Select a manager'} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {managers.map(manager => (
+                        <SelectItem key={manager.user_id} value={manager.user_id}>{manager.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="grid grid-cols-4 items-center gap-4">
+                <Label htmlFor="manager-pin" className="text-right">
+                  PIN
+                </Label>
+                <Input
+                  id="manager-pin"
+                  type="password"
+                  inputMode="numeric"
+                  autoComplete="off"
+                  value={pin}
+                  onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))}
+                  maxLength={8}
+                  className="col-span-3"
+                />
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose} className="mr-2">
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              className="bg-pos-primary hover:bg-pos-secondary"
+              disabled={approveMutation.isPending}
+            >
+              {approveMutation.isPending ? 'Checking...' : 'Approve'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ManagerApprovalDialog;
@@ -0,0 +1,246 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { endOfDay, format, parseISO, startOfDay } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { Input } from '@/components/ui/input';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Calendar, DollarSign, Package, Percent, TrendingUp } from 'lucide-react';
+import {
+  COSTING_METHOD_LABELS,
+  EMPTY_MARGIN_TOTALS,
+  addMargin,
+  marginPercent,
+  marginsByOrder,
+  marginsByProduct,
+  totalInventoryValue
+} from '@/lib/costing';
+import { CostingMethod } from '@/types/costing';
+
+const formatPercent = (value: number | null) => (value === null ? '—' : `${value.toFixed(1)}%`);
+
+// Revenue against the cost of what was sold, per order and per product, and
+// what the stock on hand is worth at cost.
+const MarginReport: React.FC = () => {
+  const navigate = useNavigate();
+  const [dateRange, setDateRange] = useState({
+    start: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
+    end: new Date().toISOString().split('T')[0]
+  });
+
+  const { data: rows = [], isLoading } = useQuery({
+    queryKey: ['costing', 'margins', dateRange],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('order_item_margins')
+        .select('*')
+        .gte('created_at', startOfDay(parseISO(dateRange.start)).toISOString())
+        .lte('created_at', endOfDay(parseISO(dateRange.end)).toISOString())
+        .order('order_id', { ascending: false });
+
+      if (error) throw error;
+      return data;
+    }
+  });
+
+  const { data: valuation = [] } = useQuery({
+    queryKey: ['costing', 'valuation'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('inventory_valuation')
+        .select('*');
+
+      if (error) throw error;
+      return data;
+    }
+  });
+
+  const totals = rows.reduce(addMargin, EMPTY_MARGIN_TOTALS);
+  const orders = marginsByOrder(rows);
+  const products = marginsByProduct(rows);
+  const inventoryValue = totalInventoryValue(valuation);
+  const costingMethod = valuation[0]?.costing_method as CostingMethod | undefined;
+
+  return (
+    <div className="p-6">
+      <div className="mb-8">
+        <h1 className="text-2xl font-bold text-gray-800 flex items-center gap-2">
+          <TrendingUp className="h-6 w-6 text-pos-primary" />
+          Margins
+        </h1>
+        <p className="text-gray-600 mt-1">
+          Revenue, cost of goods sold and gross margin
+          {costingMethod && ` · costed by ${COSTING_METHOD_LABELS[costingMethod]}`}
+        </p>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm p-6">
+        {/* Date Range Filter */}
+        <div className="grid grid-cols-2 gap-4 mb-6">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Start Date
+            </label>
+            <Input
+              type="date"
+              value={dateRange.start}
+              onChange={(e) => setDateRange(prev => ({ ...prev, start: e.target.value }))}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              End Date
+            </label>
+            <Input
+              type="date"
+              value={dateRange.end}
+              onChange={(e) => setDateRange(prev => ({ ...prev, end: e.target.value }))}
+            />
+          </div>
+        </div>
+
+        {/* Statistics */}
+        <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
+          <div className="bg-gray-50 rounded-lg p-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm text-gray-500">Revenue (excl. tax)</p>
+                <p className="text-2xl font-semibold text-gray-800">${totals.revenue.toFixed(2)}</p>
+                <p className="text-xs text-gray-500">COGS ${totals.costOfGoods.toFixed(2)}</p>
+              </div>
+              <DollarSign className="h-8 w-8 text-green-500" />
+            </div>
+          </div>
+          <div className="bg-gray-50 rounded-lg p-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm text-gray-500">Gross Margin</p>
+                <p className={`text-2xl font-semibold ${totals.grossMargin < 0 ? 'text-red-600' : 'text-gray-800'}`}>
+                  ${totals.grossMargin.toFixed(2)}
+                </p>
+              </div>
+              <TrendingUp className="h-8 w-8 text-blue-500" />
+            </div>
+          </div>
+          <div className="bg-gray-50 rounded-lg p-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm text-gray-500">Margin</p>
+                <p className="text-2xl font-semibold text-gray-800">{formatPercent(marginPercent(totals))}</p>
+              </div>
+              <Percent className="h-8 w-8 text-purple-500" />
+            </div>
+          </div>
+          <div className="bg-gray-50 rounded-lg p-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm text-gray-500">Inventory at Cost</p>
+                <p className="text-2xl font-semibold text-gray-800">${inventoryValue.toFixed(2)}</p>
+              </div>
+              <Package className="h-8 w-8 text-pos-primary" />
+            </div>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-pos-primary"></div>
+          </div>
+        ) : rows.length === 0 ? (
+          <div className="text-center py-4 text-gray-500">
+            <Calendar className="h-8 w-8 mx-auto mb-2 text-gray-400" />
+            <p>No sales found in the selected date range</p>
+          </div>
+        ) : (
+          <Tabs defaultValue="products">
+            <TabsList className="mb-4">
+              <TabsTrigger value="products">By Product</TabsTrigger>
+              <TabsTrigger value="orders">By Order</TabsTrigger>
+            </TabsList>
+            <TabsContent value="products">
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Product</th>
+                      <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Units</th>
+                      <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Revenue</th>
+                      <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">COGS</th>
+                      <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Gross Margin</th>
+                      <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Margin</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {products.map(product => (
+                      <tr key={product.productId}>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm">
+                          <p className="font-medium text-gray-900">{product.productName}</p>
+                          {product.sku && <p className="text-gray-500">{product.sku}</p>}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">{product.quantity}</td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">${product.revenue.toFixed(2)}</td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">${product.costOfGoods.toFixed(2)}</td>
+                        <td className={`px-6 py-4 whitespace-nowrap text-sm text-right font-medium ${
+                          product.grossMargin < 0 ? 'text-red-600' : 'text-gray-900'
+                        }`}>
+                          ${product.grossMargin.toFixed(2)}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-500">
+                          {formatPercent(marginPercent(product))}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </TabsContent>
+            <TabsContent value="orders">
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Order</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+                      <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Units</th>
+                      <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Revenue</th>
+                      <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">COGS</th>
+                      <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Gross Margin</th>
+                      <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Margin</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {orders.map(order => (
+                      <tr
+                        key={order.orderId}
+                        className="hover:bg-gray-50 cursor-pointer"
+                        onClick={() => navigate(`/orders/${encodeURIComponent(order.orderNumber)}`)}
+                      >
+                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-pos-primary">{order.orderNumber}</td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          {order.createdAt && format(new Date(order.createdAt), 'PPp')}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">{order.quantity}</td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">${order.revenue.toFixed(2)}</td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">${order.costOfGoods.toFixed(2)}</td>
+                        <td className={`px-6 py-4 whitespace-nowrap text-sm text-right font-medium ${
+                          order.grossMargin < 0 ? 'text-red-600' : 'text-gray-900'
+                        }`}>
+                          ${order.grossMargin.toFixed(2)}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-500">
+                          {formatPercent(marginPercent(order))}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </TabsContent>
+          </Tabs>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MarginReport;
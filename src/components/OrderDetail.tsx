@@ -0,0 +1,72 @@
+import React from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { ArrowLeft, RotateCcw } from 'lucide-react';
+import Invoice from '@/components/Invoice';
+import OrderStatusBadge from './OrderStatusBadge';
+import ReceiptActions from './ReceiptActions';
+import { useOrder } from '@/hooks/use-order';
+
+const OrderDetail: React.FC = () => {
+  const { orderNumber } = useParams<{ orderNumber: string }>();
+  const navigate = useNavigate();
+  const { data: order, isLoading } = useOrder(orderNumber);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-pos-primary"></div>
+      </div>
+    );
+  }
+
+  if (!order) {
+    return (
+      <div className="flex flex-col items-center justify-center p-12">
+        <h1 className="text-2xl font-bold text-gray-800 mb-4">Order {orderNumber} Not Found</h1>
+        <Button onClick={() => navigate('/orders')}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back to Orders
+        </Button>
+      </div>
+    );
+  }
+
+  const canRefund = order.order_status === 'completed' || order.order_status === 'partially_refunded';
+
+  return (
+    <div className="p-6">
+      <div className="max-w-4xl mx-auto">
+        <div className="flex justify-between items-center mb-6">
+          <Button variant="outline" onClick={() => navigate('/orders')}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Orders
+          </Button>
+          <div className="flex gap-2">
+            {canRefund && (
+              <Button
+                variant="outline"
+                onClick={() => navigate(`/returns?order=${encodeURIComponent(order.order_number)}`)}
+              >
+                <RotateCcw className="h-4 w-4 mr-2" />
+                Return Items
+              </Button>
+            )}
+            <ReceiptActions order={order} printLabel="Reprint Receipt" />
+          </div>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-sm p-6">
+          {order.order_status && (
+            <div className="flex justify-end mb-4">
+              <OrderStatusBadge status={order.order_status} />
+            </div>
+          )}
+          <Invoice order={order} />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default OrderDetail;
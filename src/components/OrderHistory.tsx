@@ -0,0 +1,291 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useQuery, keepPreviousData } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ChevronLeft, ChevronRight, Receipt } from 'lucide-react';
+import { endOfDay, format, parseISO, startOfDay } from 'date-fns';
+import { tenderMethodLabel } from '@/lib/tender';
+import OrderStatusBadge from './OrderStatusBadge';
+
+const PAGE_SIZE = 20;
+
+const ORDER_COLUMNS = 'id, order_number, created_at, payment_method, order_status, total_amount';
+
+interface OrderFilters {
+  search: string;
+  start: string;
+  end: string;
+  paymentMethod: string;
+  status: string;
+  productId: string;
+}
+
+const OrderHistory: React.FC = () => {
+  const navigate = useNavigate();
+  const [page, setPage] = useState(0);
+  const [filters, setFilters] = useState<OrderFilters>({
+    search: '',
+    start: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
+    end: new Date().toISOString().split('T')[0],
+    paymentMethod: 'all',
+    status: 'all',
+    productId: 'all'
+  });
+
+  const { data: products = [] } = useQuery({
+    queryKey: ['products', 'options'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('products')
+        .select('id, product_name')
+        .order('product_name');
+
+      if (error) throw error;
+      return data;
+    }
+  });
+
+  // Filtering and paging happen in the database; only one page of orders is
+  // ever loaded. The product filter inner-joins order_items so only orders
+  // containing that product are counted.
+  const { data, isLoading } = useQuery({
+    queryKey: ['orders', filters, page],
+    queryFn: async () => {
+      let query = supabase
+        .from('orders')
+        .select(
+          filters.productId === 'all' ? ORDER_COLUMNS : `${ORDER_COLUMNS}, order_items!inner(product_id)`,
+          { count: 'exact' }
+        );
+
+      if (filters.search.trim()) {
+        query = query.ilike('order_number', `%${filters.search.trim()}%`);
+      }
+      if (filters.start) {
+        query = query.gte('created_at', startOfDay(parseISO(filters.start)).toISOString());
+      }
+      if (filters.end) {
+        query = query.lte('created_at', endOfDay(parseISO(filters.end)).toISOString());
+      }
+      if (filters.paymentMethod !== 'all') {
+        query = query.eq('payment_method', filters.paymentMethod);
+      }
+      if (filters.status !== 'all') {
+        query = query.eq('order_status', filters.status);
+      }
+      if (filters.productId !== 'all') {
+        query = query.eq('order_items.product_id', Number(filters.productId));
+      }
+
+      const { data, error, count } = await query
+        .order('created_at', { ascending: false })
+        .range(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1);
+
+      if (error) throw error;
+      return {
+        orders: data as unknown as Array<{
+          id: number;
+          order_number: string;
+          created_at: string | null;
+          payment_method: string;
+          order_status: string;
+          total_amount: number;
+        }>,
+        count: count || 0
+      };
+    },
+    placeholderData: keepPreviousData
+  });
+
+  const orders = data?.orders || [];
+  const totalCount = data?.count || 0;
+  const pageCount = Math.max(1, Math.ceil(totalCount / PAGE_SIZE));
+
+  const updateFilters = (changes: Partial<OrderFilters>) => {
+    setFilters(prev => ({ ...prev, ...changes }));
+    setPage(0);
+  };
+
+  return (
+    <div className="p-6">
+      <div className="mb-8">
+        <h1 className="text-2xl font-bold text-gray-800 flex items-center gap-2">
+          <Receipt className="h-6 w-6 text-pos-primary" />
+          Orders
+        </h1>
+        <p className="text-gray-600 mt-1">Search past sales and reprint invoices</p>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm p-6">
+        {/* Filters */}
+        <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4 mb-6">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Order Number</label>
+            <Input
+              placeholder="Search..."
+              value={filters.search}
+              onChange={(e) => updateFilters({ search: e.target.value })}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Start Date</label>
+            <Input
+              type="date"
+              value={filters.start}
+              onChange={(e) => updateFilters({ start: e.target.value })}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">End Date</label>
+            <Input
+              type="date"
+              value={filters.end}
+              onChange={(e) => updateFilters({ end: e.target.value })}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Payment</label>
+            <Select
+              value={filters.paymentMethod}
+              onValueChange={(value) => updateFilters({ paymentMethod: value })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All</SelectItem>
+                <SelectItem value="cash">Cash</SelectItem>
+                <SelectItem value="card">Card</SelectItem>
+                <SelectItem value="gift_card">Gift Card</SelectItem>
+                <SelectItem value="store_credit">Store Credit</SelectItem>
+                <SelectItem value="points">Points</SelectItem>
+                <SelectItem value="split">Split</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Status</label>
+            <Select
+              value={filters.status}
+              onValueChange={(value) => updateFilters({ status: value })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All</SelectItem>
+                <SelectItem value="completed">Completed</SelectItem>
+                <SelectItem value="partially_refunded">Partially Refunded</SelectItem>
+                <SelectItem value="refunded">Refunded</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Product</label>
+            <Select
+              value={filters.productId}
+              onValueChange={(value) => updateFilters({ productId: value })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Products</SelectItem>
+                {products.map((product) => (
+                  <SelectItem key={product.id} value={String(product.id)}>
+                    {product.product_name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-pos-primary"></div>
+          </div>
+        ) : orders.length === 0 ? (
+          <div className="text-center py-12 text-gray-500">No orders match these filters</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Order</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Payment</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Total</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {orders.map((order) => (
+                  <tr
+                    key={order.id}
+                    className="hover:bg-gray-50 cursor-pointer"
+                    onClick={() => navigate(`/orders/${encodeURIComponent(order.order_number)}`)}
+                  >
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                      {order.order_number}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {order.created_at && format(new Date(order.created_at), 'PPp')}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {tenderMethodLabel(order.payment_method)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      <OrderStatusBadge status={order.order_status} />
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                      ${Number(order.total_amount).toFixed(2)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {/* Pagination */}
+        <div className="flex justify-between items-center mt-6">
+          <span className="text-sm text-gray-600">
+            {totalCount} order{totalCount === 1 ? '' : 's'} · Page {page + 1} of {pageCount}
+          </span>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage(prev => prev - 1)}
+              disabled={page === 0}
+            >
+              <ChevronLeft className="h-4 w-4 mr-1" />
+              Previous
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage(prev => prev + 1)}
+              disabled={page + 1 >= pageCount}
+            >
+              Next
+              <ChevronRight className="h-4 w-4 ml-1" />
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default OrderHistory;
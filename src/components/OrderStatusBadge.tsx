@@ -0,0 +1,21 @@
+import React from 'react';
+
+const STATUS_STYLES: Record<string, string> = {
+  completed: 'bg-green-100 text-green-800',
+  partially_refunded: 'bg-yellow-100 text-yellow-800',
+  refunded: 'bg-red-100 text-red-800'
+};
+
+interface OrderStatusBadgeProps {
+  status: string;
+}
+
+const OrderStatusBadge: React.FC<OrderStatusBadgeProps> = ({ status }) => {
+  return (
+    <span className={`px-2 py-1 rounded text-xs font-medium capitalize ${STATUS_STYLES[status] || 'bg-gray-100 text-gray-800'}`}>
+      {status.replace(/_/g, ' ')}
+    </span>
+  );
+};
+
+export default OrderStatusBadge;
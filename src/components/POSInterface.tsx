@@ -1,44 +1,112 @@
 import React, { useState } from 'react';
 import { Product } from '@/types/product';
+import { CheckoutDiscount, CheckoutLine } from '@/types/order';
 import { supabase } from '@/integrations/supabase/client';
+import { Json } from '@/integrations/supabase/types';
+import { Tender } from '@/lib/tender';
+import { roundCurrency } from '@/lib/money';
+import { calculateTax, EMPTY_TAX_CONFIG, TaxTotals } from '@/lib/tax';
+import { CartPricing, describeDiscount, ManualDiscount, ManualDiscountEntry, PriceOverride, priceCart } from '@/lib/pricing';
+import { toOrderDetails, toQueuedOrderDetails } from '@/lib/invoice';
+import { cachedQuery } from '@/lib/offline/cache';
+import { placeSale, PRODUCTS_CACHE_KEY, Sale } from '@/lib/offline/outbox';
+import { useTaxConfig } from '@/hooks/use-tax-config';
+import { usePromotions } from '@/hooks/use-promotions';
+import { useStoreSettings } from '@/hooks/use-store-settings';
+import { reservedQuantities, useParkedCarts } from '@/hooks/use-parked-carts';
+import { generateOrderNumber, getTerminalId } from '@/lib/terminal';
+import { findProductByCode, parseScan, playScanTone } from '@/lib/barcode';
+import { useBarcodeScanner } from '@/hooks/use-barcode-scanner';
+import { useCashSession } from '@/hooks/use-cash-session';
+import { useTerminalLocation } from '@/hooks/use-locations';
+import { stockAt } from '@/lib/locations';
+import { useLoyaltyBalance, useLoyaltyProgram } from '@/hooks/use-loyalty';
+import { DEFAULT_LOYALTY_PROGRAM } from '@/lib/loyalty';
+import { DEFAULT_STORE_DETAILS } from '@/lib/store';
+import { ApprovalRequest } from '@/lib/approvals';
+import { ManagerApprovalRow } from '@/types/approval';
+import { ParkedCart, ParkedCartItem } from '@/types/parked-cart';
+import { CustomerRow } from '@/types/customer';
+import TenderDialog from './TenderDialog';
+import DiscountDialog from './DiscountDialog';
+import ParkCartDialog from './ParkCartDialog';
+import ParkedCartsDialog from './ParkedCartsDialog';
+import CustomerPicker from './CustomerPicker';
+import ManagerApprovalDialog from './ManagerApprovalDialog';
+import PriceOverrideDialog from './PriceOverrideDialog';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { toast } from 'sonner';
-import { useNavigate } from 'react-router-dom';
+import { Link, useNavigate } from 'react-router-dom';
 import { 
   ShoppingCart, 
   Plus, 
   Minus, 
   Trash2, 
   CreditCard, 
-  Banknote,
   Search,
   Package,
+  Percent,
+  PauseCircle,
+  ScanBarcode,
+  ClipboardList,
+  Banknote,
+  Tag,
   X
 } from 'lucide-react';
+import { AUDIT_SOURCE_HEADER } from '@/lib/audit';
+
+const SCANNER_ENABLED_KEY = 'neonpos.scanner-enabled';
 
 interface CartItem {
   product: Product;
   quantity: number;
+  discount?: ManualDiscount;
+  priceOverride?: PriceOverride;
 }
 
+const unitPrice = (item: CartItem) => item.priceOverride?.price ?? item.product.price;
+
 const POSInterface: React.FC = () => {
   const [cart, setCart] = useState<CartItem[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedCategory, setSelectedCategory] = useState<string>('all');
+  const [isTenderOpen, setIsTenderOpen] = useState(false);
+  const [orderDiscount, setOrderDiscount] = useState<ManualDiscount | undefined>();
+  const [customer, setCustomer] = useState<CustomerRow | null>(null);
+  // Product id of the line being discounted, or 'order' for the whole cart.
+  const [discountTarget, setDiscountTarget] = useState<string | null>(null);
+  const [isParkOpen, setIsParkOpen] = useState(false);
+  const [isParkedListOpen, setIsParkedListOpen] = useState(false);
+  // Product id of the line whose price is being overridden.
+  const [priceOverrideTarget, setPriceOverrideTarget] = useState<string | null>(null);
+  // A void or price override waiting for a manager, and what to do once
+  // it is approved.
+  const [pendingApproval, setPendingApproval] = useState<{
+    request: ApprovalRequest;
+    onApproved: (approval: ManagerApprovalRow) => void;
+  } | null>(null);
+  const [scannerEnabled, setScannerEnabled] = useState(
+    () => localStorage.getItem(SCANNER_ENABLED_KEY) !== 'false'
+  );
   const queryClient = useQueryClient();
   const navigate = useNavigate();
+  const { data: location } = useTerminalLocation();
 
-  // Fetch products
+  // Fetch products with their stock at this terminal's location. The last
+  // good list is kept in IndexedDB so the POS can keep selling while offline.
   const { data: products = [], isLoading } = useQuery({
-    queryKey: ['products'],
+    queryKey: ['products', 'pos', location?.id],
     queryFn: async () => {
-      const { data, error } = await supabase
-        .from('products')
-        .select('*');
-      
-      if (error) throw error;
+      const data = await cachedQuery(PRODUCTS_CACHE_KEY, async () => {
+        const { data, error } = await supabase
+          .from('products')
+          .select('*, stock_levels(location_id, quantity)');
+
+        if (error) throw error;
+        return data;
+      });
       
       return data.map((item) => ({
         id: String(item.id),
@@ -47,7 +115,10 @@ const POSInterface: React.FC = () => {
         price: Number(item.price),
         category: item.category || '',
         sku: item.sku,
-        stock: item.stock_quantity || 0,
+        barcode: item.barcode || undefined,
+        alternateCodes: item.alternate_codes || [],
+        stock: stockAt(item.stock_levels, location?.id),
+        isGiftCard: item.is_gift_card,
         image: item.photo_url,
         createdAt: new Date(item.created_at),
         updatedAt: new Date(item.updated_at)
@@ -55,141 +126,373 @@ const POSInterface: React.FC = () => {
     }
   });
 
-  // Create order mutation
+  const { data: taxConfig = EMPTY_TAX_CONFIG } = useTaxConfig();
+  const { data: promotions = [] } = usePromotions();
+  const { data: store = DEFAULT_STORE_DETAILS } = useStoreSettings();
+  const { data: parkedCarts = [] } = useParkedCarts();
+  const reserved = reservedQuantities(parkedCarts);
+  const { data: cashSession, isLoading: isCashSessionLoading } = useCashSession();
+  const { data: loyaltyProgram = DEFAULT_LOYALTY_PROGRAM } = useLoyaltyProgram();
+  const { data: loyalty } = useLoyaltyBalance(customer?.id);
+
+  // Create order mutation. The RPC locks the sold products, refuses
+  // oversells and writes the order, its items and the stock change in one
+  // transaction. Without a connection the sale is queued in the outbox and
+  // replayed by SyncStatus once the server is reachable again.
   const createOrderMutation = useMutation({
     mutationFn: async (orderData: {
       items: CartItem[];
-      totalAmount: number;
-      paymentMethod: string;
+      pricing: CartPricing;
+      totals: TaxTotals;
+      tenders: Tender[];
     }) => {
-      const { data: order, error: orderError } = await supabase
-        .from('orders')
-        .insert([{
-          order_number: `ORD-${Date.now()}`,
-          total_amount: orderData.totalAmount,
-          payment_method: orderData.paymentMethod,
-          payment_status: 'completed',
-          order_status: 'completed',
-          user_id: 1,
-          billing_address: {},
-          shipping_address: {}
-        }])
-        .select()
-        .single();
-
-      if (orderError) throw orderError;
-
-      const orderItems = orderData.items.map(item => ({
-        order_id: order.id,
+      const lines: CheckoutLine[] = orderData.items.map(item => ({
         product_id: Number(item.product.id),
-        product_name: item.product.name,
         quantity: item.quantity,
-        price: item.product.price,
-        sku: item.product.sku
+        discount_amount: orderData.pricing.lines.find(
+          line => line.productId === Number(item.product.id)
+        )?.discountAmount ?? 0,
+        approval_id: item.priceOverride?.approvalId
       }));
 
-      const { error: itemsError } = await supabase
-        .from('order_items')
-        .insert(orderItems);
-
-      if (itemsError) throw itemsError;
+      const discounts: CheckoutDiscount[] = orderData.pricing.discounts.map(discount => ({
+        product_id: discount.productId,
+        source: discount.source,
+        promotion_id: discount.promotionId,
+        description: discount.description,
+        discount_type: discount.discountType,
+        value: discount.value,
+        amount: discount.amount,
+        reason: discount.reason,
+        approval_id: discount.approvalId
+      }));
 
-      for (const item of orderData.items) {
-        const { error: updateError } = await supabase
-          .from('products')
-          .update({
-            stock_quantity: item.product.stock - item.quantity
-          })
-          .eq('id', Number(item.product.id));
+      const sale: Sale = {
+        order_number: generateOrderNumber(),
+        created_at: new Date().toISOString(),
+        items: lines,
+        tenders: orderData.tenders,
+        discounts,
+        cash_session_id: cashSession?.id ?? null,
+        customer_id: customer?.id ?? null,
+        location_id: location?.id ?? null
+      };
 
-        if (updateError) throw updateError;
-      }
+      // What the customer is given if the sale has to be queued.
+      const queuedDetails = toQueuedOrderDetails(
+        sale,
+        orderData.items.map(item => ({
+          product_id: Number(item.product.id),
+          product_name: item.product.name,
+          price: unitPrice(item)
+        })),
+        orderData.totals,
+        taxConfig.pricesIncludeTax,
+        customer
+      );
 
-      return order;
+      const order = await placeSale(sale, queuedDetails);
+      return order ? toOrderDetails({ ...order, customer }) : queuedDetails;
     },
-    onSuccess: (order) => {
+    onSuccess: (orderDetails) => {
       queryClient.invalidateQueries({ queryKey: ['products'] });
+      queryClient.invalidateQueries({ queryKey: ['orders'] });
+      queryClient.invalidateQueries({ queryKey: ['cash-session-report'] });
+      queryClient.invalidateQueries({ queryKey: ['outbox'] });
+      queryClient.invalidateQueries({ queryKey: ['loyalty'] });
       setCart([]);
-      toast.success('Order completed successfully');
+      setOrderDiscount(undefined);
+      setCustomer(null);
+      setIsTenderOpen(false);
+      if (orderDetails.queued) {
+        toast.warning('Offline: sale saved and will sync when the connection returns');
+      } else if (orderDetails.points_earned) {
+        toast.success(`Order completed successfully, ${orderDetails.points_earned} points earned`);
+      } else {
+        toast.success('Order completed successfully');
+      }
       // Navigate to success page with order details
-      navigate('/order-success', {
-        state: {
-          orderDetails: {
-            order_number: order.order_number,
-            total_amount: order.total_amount,
-            payment_method: order.payment_method,
-            items: cart.map(item => ({
-              product_name: item.product.name,
-              quantity: item.quantity,
-              price: item.product.price
-            })),
-            created_at: order.created_at
-          }
-        }
+      navigate(`/order-success?order=${encodeURIComponent(orderDetails.order_number)}`, {
+        state: { orderDetails }
       });
     },
     onError: (error) => {
+      queryClient.invalidateQueries({ queryKey: ['products'] });
       toast.error(`Failed to complete order: ${error.message}`);
     }
   });
 
-  const addToCart = (product: Product) => {
-    if (product.stock <= 0) {
+  const parkCartMutation = useMutation({
+    mutationFn: async (label: string) => {
+      const items: ParkedCartItem[] = cart.map(item => ({
+        product_id: Number(item.product.id),
+        quantity: item.quantity,
+        discount: item.discount,
+        price_override: item.priceOverride
+      }));
+
+      const { error } = await supabase
+        .from('parked_carts')
+        .insert([{
+          label,
+          terminal_id: getTerminalId(),
+          items: items as unknown as Json,
+          order_discount: (orderDiscount ?? null) as unknown as Json,
+          customer_id: customer?.id ?? null
+        }])
+        .setHeader(AUDIT_SOURCE_HEADER, 'pos');
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['parked-carts'] });
+      setCart([]);
+      setOrderDiscount(undefined);
+      setCustomer(null);
+      setIsParkOpen(false);
+      toast.success('Cart parked');
+    },
+    onError: (error) => {
+      toast.error(`Failed to park cart: ${error.message}`);
+    }
+  });
+
+  // Recalling deletes the parked cart first; if another terminal got there
+  // first nothing is deleted and the recall is refused.
+  const recallCartMutation = useMutation({
+    mutationFn: async (parked: ParkedCart) => {
+      const { data, error } = await supabase
+        .from('parked_carts')
+        .delete()
+        .eq('id', parked.id)
+        .select('id')
+        .setHeader(AUDIT_SOURCE_HEADER, 'pos');
+
+      if (error) throw error;
+      if (data.length === 0) {
+        throw new Error('This cart has already been recalled');
+      }
+
+      let parkedCustomer: CustomerRow | null = null;
+      if (parked.customer_id) {
+        const { data: customerData } = await supabase
+          .from('customers')
+          .select('*')
+          .eq('id', parked.customer_id)
+          .maybeSingle();
+        parkedCustomer = customerData;
+      }
+      return { parked, customer: parkedCustomer };
+    },
+    onSuccess: ({ parked, customer: parkedCustomer }) => {
+      queryClient.invalidateQueries({ queryKey: ['parked-carts'] });
+      const missing = parked.items.filter(
+        item => !products.some(product => Number(product.id) === item.product_id)
+      );
+      setCart(parked.items.flatMap(item => {
+        const product = products.find(p => Number(p.id) === item.product_id);
+        return product
+          ? [{ product, quantity: item.quantity, discount: item.discount, priceOverride: item.price_override }]
+          : [];
+      }));
+      setOrderDiscount(parked.order_discount ?? undefined);
+      setCustomer(parkedCustomer);
+      setIsParkedListOpen(false);
+      if (missing.length > 0) {
+        toast.warning(`${missing.length} item(s) no longer exist and were left out`);
+      } else {
+        toast.success(`Recalled ${parked.label}`);
+      }
+    },
+    onError: (error) => {
+      queryClient.invalidateQueries({ queryKey: ['parked-carts'] });
+      toast.error(`Failed to recall cart: ${error.message}`);
+    }
+  });
+
+  const deleteParkedCartMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const { error } = await supabase
+        .from('parked_carts')
+        .delete()
+        .eq('id', id)
+        .setHeader(AUDIT_SOURCE_HEADER, 'pos');
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['parked-carts'] });
+      toast.success('Parked cart deleted');
+    },
+    onError: (error) => {
+      toast.error(`Failed to delete parked cart: ${error.message}`);
+    }
+  });
+
+  const handleRecall = (parked: ParkedCart) => {
+    if (cart.length > 0) {
+      toast.error('Park or clear the current cart before recalling another');
+      return;
+    }
+    recallCartMutation.mutate(parked);
+  };
+
+  // Returns whether the product was added, so scans can signal failure.
+  const addToCart = (product: Product, quantity = 1) => {
+    if (!product.isGiftCard && product.stock <= 0) {
       toast.error('Product is out of stock');
+      return false;
+    }
+    const existingItem = cart.find(item => item.product.id === product.id);
+    if (!product.isGiftCard && (existingItem?.quantity ?? 0) + quantity > product.stock) {
+      toast.error('Not enough stock available');
+      return false;
+    }
+    setCart(prevCart =>
+      prevCart.some(item => item.product.id === product.id)
+        ? prevCart.map(item =>
+            item.product.id === product.id
+              ? { ...item, quantity: item.quantity + quantity }
+              : item
+          )
+        : [...prevCart, { product, quantity }]
+    );
+    return true;
+  };
+
+  const handleScan = (input: string) => {
+    const { code, quantity } = parseScan(input);
+    const product = findProductByCode(products, code);
+    // A scan into the search box leaves the code there; it is not a search.
+    setSearchQuery('');
+
+    if (!product) {
+      playScanTone('error');
+      toast.error(`Unknown code: ${code}`);
       return;
     }
-    setCart(prevCart => {
-      const existingItem = prevCart.find(item => item.product.id === product.id);
-      if (existingItem) {
-        if (existingItem.quantity >= product.stock) {
-          toast.error('Not enough stock available');
-          return prevCart;
-        }
-        return prevCart.map(item =>
-          item.product.id === product.id
-            ? { ...item, quantity: item.quantity + 1 }
-            : item
-        );
-      }
-      return [...prevCart, { product, quantity: 1 }];
+    playScanTone(addToCart(product, quantity) ? 'success' : 'error');
+  };
+
+  useBarcodeScanner({ enabled: scannerEnabled, onScan: handleScan });
+
+  const toggleScanner = () => {
+    setScannerEnabled(prev => {
+      localStorage.setItem(SCANNER_ENABLED_KEY, String(!prev));
+      return !prev;
+    });
+  };
+
+  // Taking units back out of the cart is a void and needs a manager, whether
+  // it takes the whole line or only some of it.
+  const requestVoid = (item: CartItem, quantity: number = item.quantity) => {
+    setPendingApproval({
+      request: {
+        action: 'void_line',
+        description: `Void ${quantity} x ${item.product.name} ($${(unitPrice(item) * quantity).toFixed(2)})`,
+        amount: roundCurrency(unitPrice(item) * quantity),
+        productId: Number(item.product.id),
+        cashSessionId: cashSession?.id
+      },
+      onApproved: () => setCart(prevCart =>
+        prevCart
+          .map(cartItem =>
+            cartItem.product.id === item.product.id
+              ? { ...cartItem, quantity: cartItem.quantity - quantity }
+              : cartItem
+          )
+          .filter(cartItem => cartItem.quantity > 0)
+      )
     });
   };
 
-  const removeFromCart = (productId: string) => {
-    setCart(prevCart => prevCart.filter(item => item.product.id !== productId));
+  const requestPriceOverride = (item: CartItem, price: number, reason: string) => {
+    setPriceOverrideTarget(null);
+    setPendingApproval({
+      request: {
+        action: 'price_override',
+        description: `${item.product.name}: $${item.product.price.toFixed(2)} to $${price.toFixed(2)} (${reason})`,
+        amount: price,
+        productId: Number(item.product.id),
+        cashSessionId: cashSession?.id
+      },
+      onApproved: (approval) => setCart(prevCart =>
+        prevCart.map(cartItem =>
+          cartItem.product.id === item.product.id
+            ? { ...cartItem, priceOverride: { price: Number(approval.amount), approvalId: approval.id } }
+            : cartItem
+        )
+      )
+    });
+  };
+
+  // target is 'order' or the product id of the line being discounted.
+  const requestDiscount = (target: string, entry: ManualDiscountEntry) => {
+    const item = cart.find(cartItem => cartItem.product.id === target);
+    setPendingApproval({
+      request: {
+        action: 'manual_discount',
+        description: `${target === 'order' ? 'Order' : item?.product.name ?? 'Item'}: ${describeDiscount(entry)} (${entry.reason})`,
+        amount: entry.value,
+        discountType: entry.type,
+        productId: target === 'order' ? undefined : Number(target),
+        cashSessionId: cashSession?.id
+      },
+      onApproved: (approval) => {
+        const discount: ManualDiscount = {
+          ...entry,
+          authorisedBy: approval.approved_by_name,
+          approvalId: approval.id
+        };
+        if (target === 'order') {
+          setOrderDiscount(discount);
+        } else {
+          setLineDiscount(target, discount);
+        }
+      }
+    });
   };
 
   const updateQuantity = (productId: string, delta: number) => {
+    const current = cart.find(item => item.product.id === productId);
+    if (current && delta < 0) {
+      requestVoid(current, Math.min(-delta, current.quantity));
+      return;
+    }
+
     setCart(prevCart =>
       prevCart.map(item => {
         if (item.product.id === productId) {
-          const newQuantity = Math.max(0, item.quantity + delta);
-          if (newQuantity > item.product.stock) {
+          const newQuantity = item.quantity + delta;
+          if (!item.product.isGiftCard && newQuantity > item.product.stock) {
             toast.error('Not enough stock available');
             return item;
           }
           return { ...item, quantity: newQuantity };
         }
         return item;
-      }).filter(item => item.quantity > 0)
+      })
     );
   };
 
-  const handleCheckout = (paymentMethod: string) => {
+  const handleCheckout = () => {
     if (cart.length === 0) {
       toast.error('Cart is empty');
       return;
     }
+    if (!cashSession) {
+      toast.error('Open the cash drawer before taking payments');
+      return;
+    }
+    setIsTenderOpen(true);
+  };
 
-    const totalAmount = cart.reduce(
-      (sum, item) => sum + item.product.price * item.quantity,
-      0
-    );
-
+  const handleTendersConfirmed = (tenders: Tender[]) => {
     createOrderMutation.mutate({
       items: cart,
-      totalAmount,
-      paymentMethod
+      pricing,
+      totals: cartTotals,
+      tenders
     });
   };
 
@@ -202,24 +505,82 @@ const POSInterface: React.FC = () => {
        product.sku.toLowerCase().includes(searchQuery.toLowerCase()))
   );
 
-  const cartTotal = cart.reduce(
-    (sum, item) => sum + item.product.price * item.quantity,
-    0
+  const pricing = priceCart(
+    cart.map(item => ({
+      productId: Number(item.product.id),
+      category: item.product.category,
+      unitPrice: unitPrice(item),
+      quantity: item.quantity,
+      discount: item.discount
+    })),
+    promotions,
+    orderDiscount,
+    new Date(),
+    store.timeZone
   );
 
+  const cartTotals = calculateTax(
+    pricing.lines.map(line => ({
+      category: line.category,
+      amount: line.net
+    })),
+    taxConfig
+  );
+
+  const setLineDiscount = (productId: string, discount: ManualDiscount | undefined) => {
+    setCart(prevCart =>
+      prevCart.map(item =>
+        item.product.id === productId ? { ...item, discount } : item
+      )
+    );
+  };
+
+  const discountingItem = cart.find(item => item.product.id === discountTarget);
+  const overridingItem = cart.find(item => item.product.id === priceOverrideTarget);
+  const discountingLine = pricing.lines.find(
+    line => discountingItem && line.productId === Number(discountingItem.product.id)
+  );
+
+  // What a manual discount is taken from: the line after promotions, or the
+  // cart after line discounts for an order discount.
+  const discountBase = discountTarget === 'order'
+    ? roundCurrency(
+        pricing.lines.reduce((sum, line) => sum + line.net, 0) +
+        (pricing.discounts.find(discount => discount.productId === null)?.amount ?? 0)
+      )
+    : roundCurrency(
+        (discountingLine?.gross ?? 0) -
+        pricing.discounts
+          .filter(discount =>
+            discount.source === 'promotion' && discount.productId === discountingLine?.productId
+          )
+          .reduce((sum, discount) => sum + discount.amount, 0)
+      );
+
   return (
     <div className="flex h-screen bg-gray-50">
       {/* Product Selection Panel */}
       <div className="w-2/3 p-4 flex flex-col">
         <div className="mb-4 space-y-4">
-          <div className="relative">
-            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-5 w-5" />
-            <Input
-              placeholder="Search products..."
-              value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
-              className="pl-10"
-            />
+          <div className="flex gap-2">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-5 w-5" />
+              <Input
+                placeholder={scannerEnabled ? 'Search or scan...' : 'Search products...'}
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                className="pl-10"
+                data-barcode-input="true"
+              />
+            </div>
+            <Button
+              variant={scannerEnabled ? 'default' : 'outline'}
+              onClick={toggleScanner}
+              title={scannerEnabled ? 'Scanner on' : 'Scanner off'}
+            >
+              <ScanBarcode className="h-4 w-4 mr-2" />
+              Scanner {scannerEnabled ? 'On' : 'Off'}
+            </Button>
           </div>
           
           <div className="flex gap-2 overflow-x-auto pb-2">
@@ -261,7 +622,16 @@ const POSInterface: React.FC = () => {
                 <p className="text-sm text-gray-500">SKU: {product.sku}</p>
                 <div className="mt-2 flex justify-between items-center">
                   <p className="font-bold text-pos-primary">${product.price.toFixed(2)}</p>
-                  <p className="text-sm text-gray-500">Stock: {product.stock}</p>
+                  {product.isGiftCard ? (
+                    <p className="text-sm text-gray-500">Gift card</p>
+                  ) : (
+                    <p className="text-sm text-gray-500">
+                      Stock: {product.stock}
+                      {reserved[Number(product.id)] > 0 && (
+                        <span className="text-amber-600"> ({reserved[Number(product.id)]} held)</span>
+                      )}
+                    </p>
+                  )}
                 </div>
               </div>
             ))
@@ -275,6 +645,23 @@ const POSInterface: React.FC = () => {
           <div className="flex items-center gap-2">
             <ShoppingCart className="h-6 w-6 text-pos-primary" />
             <h2 className="text-xl font-bold">Current Order</h2>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setIsParkedListOpen(true)}
+              className="ml-auto"
+            >
+              <ClipboardList className="h-4 w-4 mr-1" />
+              Parked ({parkedCarts.length})
+            </Button>
+          </div>
+          {location && <p className="text-sm text-gray-500 mt-1">Selling from {location.name}</p>}
+          <div className="mt-3">
+            <CustomerPicker
+              customer={customer}
+              onChange={setCustomer}
+              disabled={createOrderMutation.isPending}
+            />
           </div>
         </div>
         
@@ -291,12 +678,19 @@ const POSInterface: React.FC = () => {
                 <div className="flex justify-between items-start">
                   <div>
                     <h3 className="font-medium text-gray-900">{item.product.name}</h3>
-                    <p className="text-sm text-gray-500">${item.product.price.toFixed(2)}</p>
+                    {item.priceOverride ? (
+                      <p className="text-sm text-amber-600">
+                        <span className="line-through text-gray-400 mr-1">${item.product.price.toFixed(2)}</span>
+                        ${item.priceOverride.price.toFixed(2)}
+                      </p>
+                    ) : (
+                      <p className="text-sm text-gray-500">${item.product.price.toFixed(2)}</p>
+                    )}
                   </div>
                   <Button
                     variant="ghost"
                     size="icon"
-                    onClick={() => removeFromCart(item.product.id)}
+                    onClick={() => requestVoid(item)}
                     className="text-gray-400 hover:text-red-500"
                   >
                     <X className="h-4 w-4" />
@@ -320,40 +714,167 @@ const POSInterface: React.FC = () => {
                   >
                     <Plus className="h-3 w-3" />
                   </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setDiscountTarget(item.product.id)}
+                    className={`h-8 w-8 ${item.discount ? 'text-green-600' : 'text-gray-400'}`}
+                  >
+                    <Percent className="h-3 w-3" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setPriceOverrideTarget(item.product.id)}
+                    className={`h-8 w-8 ${item.priceOverride ? 'text-amber-600' : 'text-gray-400'}`}
+                    title="Override price"
+                  >
+                    <Tag className="h-3 w-3" />
+                  </Button>
                   <span className="ml-auto font-medium">
-                    ${(item.product.price * item.quantity).toFixed(2)}
+                    ${(unitPrice(item) * item.quantity).toFixed(2)}
                   </span>
                 </div>
+                {pricing.discounts
+                  .filter(discount => discount.productId === Number(item.product.id))
+                  .map((discount, index) => (
+                    <div key={index} className="flex justify-between text-sm text-green-600 mt-1">
+                      <span>{discount.description}</span>
+                      <span>-${discount.amount.toFixed(2)}</span>
+                    </div>
+                  ))}
               </div>
             ))
           )}
         </div>
 
         <div className="border-t p-4 bg-gray-50">
+          <div className="space-y-1 mb-2 text-sm text-gray-600">
+            <div className="flex justify-between items-center">
+              <Button
+                variant="link"
+                size="sm"
+                onClick={() => setDiscountTarget('order')}
+                disabled={cart.length === 0}
+                className="px-0 h-auto"
+              >
+                <Percent className="h-3 w-3 mr-1" />
+                {orderDiscount ? 'Edit order discount' : 'Add order discount'}
+              </Button>
+            </div>
+            {pricing.discountTotal > 0 && (
+              <div className="flex justify-between text-green-600">
+                <span>Discounts:</span>
+                <span>-${pricing.discountTotal.toFixed(2)}</span>
+              </div>
+            )}
+            <div className="flex justify-between">
+              <span>Subtotal{taxConfig.pricesIncludeTax ? ' (excl. tax)' : ''}:</span>
+              <span>${cartTotals.subtotal.toFixed(2)}</span>
+            </div>
+            {cartTotals.taxLines.map(line => (
+              <div key={line.taxRateId} className="flex justify-between">
+                <span>{line.name} ({line.rate}%):</span>
+                <span>${line.taxAmount.toFixed(2)}</span>
+              </div>
+            ))}
+          </div>
+          {!cashSession && !isCashSessionLoading && (
+            <div className="flex items-center justify-between bg-amber-50 border border-amber-200 text-amber-800 rounded p-2 mb-3 text-sm">
+              <span>No cash drawer is open on this terminal</span>
+              <Link to="/cash" className="inline-flex items-center font-medium hover:underline">
+                <Banknote className="h-4 w-4 mr-1" />
+                Open drawer
+              </Link>
+            </div>
+          )}
           <div className="flex justify-between text-xl font-bold mb-4">
             <span>Total:</span>
-            <span className="text-pos-primary">${cartTotal.toFixed(2)}</span>
+            <span className="text-pos-primary">${cartTotals.total.toFixed(2)}</span>
           </div>
-          <div className="grid grid-cols-2 gap-2">
+          <div className="flex gap-2">
             <Button
-              className="w-full bg-green-600 hover:bg-green-700"
-              onClick={() => handleCheckout('cash')}
-              disabled={cart.length === 0}
+              variant="outline"
+              onClick={() => setIsParkOpen(true)}
+              disabled={cart.length === 0 || createOrderMutation.isPending}
             >
-              <Banknote className="h-4 w-4 mr-2" />
-              Cash
+              <PauseCircle className="h-4 w-4 mr-2" />
+              Park
             </Button>
             <Button
-              className="w-full bg-blue-600 hover:bg-blue-700"
-              onClick={() => handleCheckout('card')}
-              disabled={cart.length === 0}
+              className="flex-1 bg-pos-primary hover:bg-pos-secondary"
+              onClick={handleCheckout}
+              disabled={cart.length === 0 || !cashSession || createOrderMutation.isPending}
             >
               <CreditCard className="h-4 w-4 mr-2" />
-              Card
+              Take Payment
             </Button>
           </div>
         </div>
       </div>
+
+      <TenderDialog
+        isOpen={isTenderOpen}
+        onClose={() => setIsTenderOpen(false)}
+        total={cartTotals.total}
+        onConfirm={handleTendersConfirmed}
+        isSubmitting={createOrderMutation.isPending}
+        points={customer && loyalty
+          ? { balance: loyalty.balance, pointValue: loyaltyProgram.pointValue }
+          : undefined}
+      />
+
+      <ParkCartDialog
+        isOpen={isParkOpen}
+        onClose={() => setIsParkOpen(false)}
+        onPark={(label) => parkCartMutation.mutate(label)}
+        isSubmitting={parkCartMutation.isPending}
+      />
+
+      <ParkedCartsDialog
+        isOpen={isParkedListOpen}
+        onClose={() => setIsParkedListOpen(false)}
+        parkedCarts={parkedCarts}
+        products={products}
+        terminalId={getTerminalId()}
+        onRecall={handleRecall}
+        onDelete={(parked) => deleteParkedCartMutation.mutate(parked.id)}
+        isBusy={recallCartMutation.isPending || deleteParkedCartMutation.isPending}
+      />
+
+      <DiscountDialog
+        isOpen={discountTarget !== null}
+        onClose={() => setDiscountTarget(null)}
+        title={discountTarget === 'order'
+          ? 'Order Discount'
+          : `Discount ${discountingItem?.product.name ?? ''}`}
+        baseAmount={discountBase}
+        discount={discountTarget === 'order' ? orderDiscount : discountingItem?.discount}
+        onSave={(entry) => {
+          if (!discountTarget) return;
+          if (entry) {
+            requestDiscount(discountTarget, entry);
+          } else if (discountTarget === 'order') {
+            setOrderDiscount(undefined);
+          } else {
+            setLineDiscount(discountTarget, undefined);
+          }
+        }}
+      />
+
+      <PriceOverrideDialog
+        isOpen={overridingItem !== undefined}
+        onClose={() => setPriceOverrideTarget(null)}
+        productName={overridingItem?.product.name ?? ''}
+        listPrice={overridingItem?.product.price ?? 0}
+        onSubmit={(price, reason) => overridingItem && requestPriceOverride(overridingItem, price, reason)}
+      />
+
+      <ManagerApprovalDialog
+        request={pendingApproval?.request ?? null}
+        onClose={() => setPendingApproval(null)}
+        onApproved={(approval) => pendingApproval?.onApproved(approval)}
+      />
     </div>
   );
 };
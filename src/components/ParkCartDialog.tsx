@@ -0,0 +1,86 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { format } from 'date-fns';
+
+interface ParkCartDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onPark: (label: string) => void;
+  isSubmitting: boolean;
+}
+
+const ParkCartDialog: React.FC<ParkCartDialogProps> = ({
+  isOpen,
+  onClose,
+  onPark,
+  isSubmitting,
+}) => {
+  const [label, setLabel] = useState('');
+
+  useEffect(() => {
+    if (isOpen) {
+      setLabel(`Cart ${format(new Date(), 'HH:mm')}`);
+    }
+  }, [isOpen]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onPark(label.trim() || `Cart ${format(new Date(), 'HH:mm')}`);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-md">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>Park Cart</DialogTitle>
+            <DialogDescription>
+              Hold this cart so it can be recalled later from any terminal.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid gap-4 py-4">
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="park-label" className="text-right">
+                Label
+              </Label>
+              <Input
+                id="park-label"
+                value={label}
+                onChange={(e) => setLabel(e.target.value)}
+                placeholder="e.g. Customer name"
+                className="col-span-3"
+                autoFocus
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose} className="mr-2">
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              className="bg-pos-primary hover:bg-pos-secondary"
+              disabled={isSubmitting}
+            >
+              {isSubmitting ? 'Parking...' : 'Park Cart'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ParkCartDialog;
@@ -0,0 +1,109 @@
+import React from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Trash2 } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { Product } from '@/types/product';
+import { ParkedCart } from '@/types/parked-cart';
+
+interface ParkedCartsDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  parkedCarts: ParkedCart[];
+  products: Product[];
+  terminalId: string;
+  onRecall: (cart: ParkedCart) => void;
+  onDelete: (cart: ParkedCart) => void;
+  isBusy: boolean;
+}
+
+const ParkedCartsDialog: React.FC<ParkedCartsDialogProps> = ({
+  isOpen,
+  onClose,
+  parkedCarts,
+  products,
+  terminalId,
+  onRecall,
+  onDelete,
+  isBusy,
+}) => {
+  const productName = (productId: number) =>
+    products.find(product => Number(product.id) === productId)?.name || `Product #${productId}`;
+
+  // Parked carts are re-priced on recall, so this is the current list price
+  // unless a line's price was overridden.
+  const cartValue = (cart: ParkedCart) =>
+    cart.items.reduce((sum, item) => {
+      const product = products.find(p => Number(p.id) === item.product_id);
+      return sum + (product ? (item.price_override?.price ?? product.price) * item.quantity : 0);
+    }, 0);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Parked Carts</DialogTitle>
+          <DialogDescription>
+            Recall a held cart into the POS. Recalling removes it from this list.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-96 overflow-y-auto space-y-3 py-2">
+          {parkedCarts.length === 0 ? (
+            <p className="text-center text-gray-500 py-6">No parked carts</p>
+          ) : (
+            parkedCarts.map(cart => (
+              <div key={cart.id} className="border rounded-lg p-3">
+                <div className="flex justify-between items-start">
+                  <div>
+                    <h3 className="font-medium text-gray-900">{cart.label}</h3>
+                    <p className="text-xs text-gray-500">
+                      {cart.terminal_id === terminalId ? 'This terminal' : cart.terminal_id}
+                      {' · '}
+                      {formatDistanceToNow(new Date(cart.created_at), { addSuffix: true })}
+                    </p>
+                  </div>
+                  <span className="font-medium">${cartValue(cart).toFixed(2)}</span>
+                </div>
+                <ul className="text-sm text-gray-600 mt-2">
+                  {cart.items.map(item => (
+                    <li key={item.product_id}>
+                      {item.quantity} x {productName(item.product_id)}
+                    </li>
+                  ))}
+                </ul>
+                <div className="flex justify-end gap-2 mt-2">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => onDelete(cart)}
+                    disabled={isBusy}
+                    className="text-gray-400 hover:text-red-500"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    onClick={() => onRecall(cart)}
+                    disabled={isBusy}
+                    className="bg-pos-primary hover:bg-pos-secondary"
+                  >
+                    Recall
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ParkedCartsDialog;
@@ -0,0 +1,115 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { toast } from 'sonner';
+import { roundCurrency } from '@/lib/money';
+
+interface PriceOverrideDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  productName: string;
+  listPrice: number;
+  // Goes on to manager approval; the price only applies once approved.
+  onSubmit: (price: number, reason: string) => void;
+}
+
+const PriceOverrideDialog: React.FC<PriceOverrideDialogProps> = ({
+  isOpen,
+  onClose,
+  productName,
+  listPrice,
+  onSubmit,
+}) => {
+  const [formData, setFormData] = useState({ price: '', reason: '' });
+
+  useEffect(() => {
+    if (isOpen) {
+      setFormData({ price: listPrice.toFixed(2), reason: '' });
+    }
+  }, [isOpen, listPrice]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const price = parseFloat(formData.price);
+
+    if (isNaN(price) || price < 0) {
+      toast.error('Enter a price of zero or more');
+      return;
+    }
+    if (price === listPrice) {
+      toast.error('The new price is the same as the list price');
+      return;
+    }
+    if (!formData.reason.trim()) {
+      toast.error('A reason is required');
+      return;
+    }
+
+    onSubmit(roundCurrency(price), formData.reason.trim());
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-md">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>Override Price</DialogTitle>
+            <DialogDescription>
+              Change the unit price of {productName} from ${listPrice.toFixed(2)}. A manager has to approve it.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid gap-4 py-4">
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="override-price" className="text-right">
+                Price
+              </Label>
+              <Input
+                id="override-price"
+                type="number"
+                min="0"
+                step="0.01"
+                value={formData.price}
+                onChange={(e) => setFormData(prev => ({ ...prev, price: e.target.value }))}
+                className="col-span-3"
+                autoFocus
+              />
+            </div>
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="override-reason" className="text-right">
+                Reason
+              </Label>
+              <Input
+                id="override-reason"
+                value={formData.reason}
+                onChange={(e) => setFormData(prev => ({ ...prev, reason: e.target.value }))}
+                placeholder="e.g. Shelf price mismatch"
+                className="col-span-3"
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose} className="mr-2">
+              Cancel
+            </Button>
+            <Button type="submit" className="bg-pos-primary hover:bg-pos-secondary">
+              Request Approval
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PriceOverrideDialog;
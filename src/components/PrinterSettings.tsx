@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { OrderDetails } from '@/types/order';
+import { PaperWidth } from '@/lib/receipt/receipt';
+import {
+  getPrinterSettings,
+  PRINTER_TRANSPORT_LABELS,
+  PrinterTransport,
+  savePrinterSettings,
+} from '@/lib/receipt/printer';
+import ThermalReceipt from './ThermalReceipt';
+import ReceiptActions from './ReceiptActions';
+import { useStoreSettings } from '@/hooks/use-store-settings';
+import { DEFAULT_STORE_DETAILS } from '@/lib/store';
+
+const SAMPLE_ORDER: OrderDetails = {
+  order_number: 'ORD-TEST',
+  total_amount: 10.8,
+  payment_method: 'cash',
+  payments: [{ method: 'cash', amount: 20 }],
+  change_given: 9.2,
+  subtotal: 10,
+  tax_lines: [{ name: 'Sales Tax', rate: 8, tax_amount: 0.8 }],
+  items: [
+    { product_name: 'Sample Item', quantity: 2, price: 3.5 },
+    { product_name: 'Another Item', quantity: 1, price: 3 }
+  ],
+  created_at: new Date().toISOString()
+};
+
+// Receipt printer for this terminal. Stored in the browser rather than the
+// database, since each till has its own printer.
+const PrinterSettings: React.FC = () => {
+  const [settings, setSettings] = useState(getPrinterSettings);
+  const { data: store = DEFAULT_STORE_DETAILS } = useStoreSettings();
+
+  const updateSettings = (changes: Partial<typeof settings>) => {
+    const next = { ...settings, ...changes };
+    setSettings(next);
+    savePrinterSettings(next);
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      <div className="bg-white rounded-lg shadow-sm p-6 space-y-4">
+        <h2 className="text-lg font-semibold text-gray-800">Receipt Printer</h2>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Paper Width</label>
+          <Select
+            value={String(settings.paper)}
+            onValueChange={(value) => updateSettings({ paper: Number(value) as PaperWidth })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="58">58mm</SelectItem>
+              <SelectItem value="80">80mm</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Print Using</label>
+          <Select
+            value={settings.transport}
+            onValueChange={(value) => updateSettings({ transport: value as PrinterTransport })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(PRINTER_TRANSPORT_LABELS) as PrinterTransport[]).map(transport => (
+                <SelectItem key={transport} value={transport}>
+                  {PRINTER_TRANSPORT_LABELS[transport]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {settings.transport === 'serial' && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Baud Rate</label>
+            <Input
+              type="number"
+              min="1200"
+              value={settings.baudRate}
+              onChange={(e) => updateSettings({ baudRate: parseInt(e.target.value) || 9600 })}
+            />
+          </div>
+        )}
+
+        {settings.transport === 'emulator' && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Emulator URL</label>
+            <Input
+              value={settings.emulatorUrl}
+              onChange={(e) => updateSettings({ emulatorUrl: e.target.value })}
+              placeholder="http://localhost:9100"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              The raw ESC/POS job is POSTed to this address.
+            </p>
+          </div>
+        )}
+
+        <div className="pt-2">
+          <ReceiptActions order={SAMPLE_ORDER} printLabel="Test Print" />
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm p-6">
+        <h2 className="text-lg font-semibold text-gray-800 mb-4">Preview</h2>
+        <div className="border rounded p-2 overflow-x-auto flex justify-center">
+          <ThermalReceipt order={SAMPLE_ORDER} paper={settings.paper} store={store} />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PrinterSettings;
@@ -68,15 +68,19 @@ const ProductCard: React.FC<ProductCardProps> = ({ product, onDelete, onEdit })
         
         <div className="flex items-center justify-between">
           <div className="flex items-center">
-            <span className={`pos-badge ${product.stock > 0 ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}`}>
-              {product.stock > 0 ? `${product.stock} in stock` : 'Out of stock'}
-            </span>
+            {product.isGiftCard ? (
+              <span className="pos-badge bg-purple-100 text-purple-800">Gift card</span>
+            ) : (
+              <span className={`pos-badge ${product.stock > 0 ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}`}>
+                {product.stock > 0 ? `${product.stock} in stock` : 'Out of stock'}
+              </span>
+            )}
           </div>
           
           <Button
             onClick={handleAddToCart}
             size="sm"
-            disabled={product.stock <= 0}
+            disabled={!product.isGiftCard && product.stock <= 0}
             className="bg-pos-primary hover:bg-pos-secondary text-white"
           >
             <ShoppingCart className="h-4 w-4 mr-1" />
@@ -3,17 +3,22 @@ import React, { useState, useEffect } from 'react';
 import { Product } from '@/types/product';
 import ProductGrid from './ProductGrid';
 import AddProductModal from './AddProductModal';
+import ManagerApprovalDialog from './ManagerApprovalDialog';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Plus, Search, Package } from 'lucide-react';
 import { toast } from 'sonner';
 import { supabase } from '@/integrations/supabase/client';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { ApprovalRequest } from '@/lib/approvals';
+import { AUDIT_SOURCE_HEADER } from '@/lib/audit';
 
 const ProductCatalog: React.FC = () => {
   const [isModalOpen, setIsModalOpen] = useState<boolean>(false);
   const [editingProduct, setEditingProduct] = useState<Product | null>(null);
   const [searchQuery, setSearchQuery] = useState<string>('');
+  // Deleting a product needs a manager's approval first.
+  const [deleteRequest, setDeleteRequest] = useState<ApprovalRequest | null>(null);
 
   const queryClient = useQueryClient();
 
@@ -38,7 +43,13 @@ const ProductCatalog: React.FC = () => {
         price: Number(item.price),
         category: item.category || '',
         sku: item.sku,
+        barcode: item.barcode || undefined,
+        alternateCodes: item.alternate_codes || [],
         stock: item.stock_quantity || 0,
+        isGiftCard: item.is_gift_card,
+        reorderPoint: item.reorder_point,
+        reorderQuantity: item.reorder_quantity,
+        preferredSupplierId: item.preferred_supplier_id,
         image: item.photo_url,
         createdAt: new Date(item.created_at),
         updatedAt: new Date(item.updated_at)
@@ -57,10 +68,17 @@ const ProductCatalog: React.FC = () => {
           price: productData.price,
           category: productData.category,
           sku: productData.sku,
+          barcode: productData.barcode || null,
+          alternate_codes: productData.alternateCodes || [],
           stock_quantity: productData.stock,
+          is_gift_card: productData.isGiftCard ?? false,
+          reorder_point: productData.reorderPoint ?? null,
+          reorder_quantity: productData.reorderQuantity ?? null,
+          preferred_supplier_id: productData.preferredSupplierId ?? null,
           photo_url: productData.image
         }])
-        .select();
+        .select()
+        .setHeader(AUDIT_SOURCE_HEADER, 'products');
       
       if (error) throw error;
       return data;
@@ -85,12 +103,18 @@ const ProductCatalog: React.FC = () => {
           price: productData.price,
           category: productData.category,
           sku: productData.sku,
-          stock_quantity: productData.stock,
+          barcode: productData.barcode || null,
+          alternate_codes: productData.alternateCodes || [],
+          is_gift_card: productData.isGiftCard ?? false,
+          reorder_point: productData.reorderPoint ?? null,
+          reorder_quantity: productData.reorderQuantity ?? null,
+          preferred_supplier_id: productData.preferredSupplierId ?? null,
           photo_url: productData.image,
           updated_at: new Date()
         })
         .eq('id', productData.id)
-        .select();
+        .select()
+        .setHeader(AUDIT_SOURCE_HEADER, 'products');
       
       if (error) throw error;
       return data;
@@ -104,14 +128,15 @@ const ProductCatalog: React.FC = () => {
     }
   });
 
-  // Delete product mutation
+  // Delete product mutation. delete_product claims the approval, so a
+  // product cannot be deleted without one.
   const deleteProductMutation = useMutation({
-    mutationFn: async (id: string) => {
-      const { error } = await supabase
-        .from('products')
-        .delete()
-        .eq('id', id);
-      
+    mutationFn: async ({ id, approvalId }: { id: number; approvalId: number }) => {
+      const { error } = await supabase.rpc('delete_product', {
+        p_product_id: id,
+        p_approval_id: approvalId
+      }).setHeader(AUDIT_SOURCE_HEADER, 'products');
+
       if (error) throw error;
     },
     onSuccess: () => {
@@ -134,7 +159,12 @@ const ProductCatalog: React.FC = () => {
   };
 
   const handleDeleteProduct = (id: string) => {
-    deleteProductMutation.mutate(id);
+    const product = products.find(p => p.id === id);
+    setDeleteRequest({
+      action: 'delete_product',
+      description: `Delete ${product?.name ?? 'product'}${product?.sku ? ` (SKU ${product.sku})` : ''}`,
+      productId: Number(id)
+    });
   };
 
   const handleSaveProduct = (productData: Partial<Product>) => {
@@ -205,6 +235,15 @@ const ProductCatalog: React.FC = () => {
         onSave={handleSaveProduct}
         editingProduct={editingProduct}
       />
+
+      <ManagerApprovalDialog
+        request={deleteRequest}
+        onClose={() => setDeleteRequest(null)}
+        onApproved={(approval) => deleteProductMutation.mutate({
+          id: approval.product_id!,
+          approvalId: approval.id
+        })}
+      />
     </div>
   );
 };
@@ -13,6 +13,7 @@ import {
   CheckCircle2,
   XCircle
 } from 'lucide-react';
+import { AUDIT_SOURCE_HEADER } from '@/lib/audit';
 
 interface Product {
   id: string;
@@ -113,76 +114,22 @@ const ProductionManagement: React.FC = () => {
     mutationFn: async () => {
       if (!selectedProduct) throw new Error('No product selected');
 
-      // Start a transaction
-      const { data: batch, error: batchError } = await supabase
-        .from('production_batches')
-        .insert([{
-          finished_product_id: Number(selectedProduct.id),
-          quantity_produced: productionQuantity,
-          status: 'in_progress',
-          notes
-        }])
-        .select()
-        .single();
-
-      if (batchError) throw batchError;
-
-      // Check if we have enough components
-      for (const recipe of recipes) {
-        const requiredQuantity = recipe.quantity_required * productionQuantity;
-        if (recipe.component.stock < requiredQuantity) {
-          throw new Error(`Not enough stock of ${recipe.component.name}. Required: ${requiredQuantity}, Available: ${recipe.component.stock}`);
-        }
-      }
-
-      // Deduct components and record usage
-      for (const recipe of recipes) {
-        const quantityUsed = recipe.quantity_required * productionQuantity;
-        
-        // Update component stock
-        const { error: updateError } = await supabase
-          .from('products')
-          .update({
-            stock_quantity: recipe.component.stock - quantityUsed
-          })
-          .eq('id', Number(recipe.component_id));
-
-        if (updateError) throw updateError;
-
-        // Record component usage
-        const { error: usageError } = await supabase
-          .from('production_batch_components')
-          .insert([{
-            batch_id: batch.id,
-            component_id: Number(recipe.component_id),
-            quantity_used: quantityUsed
-          }]);
-
-        if (usageError) throw usageError;
-      }
-
-      // Update finished product stock
-      const { error: productError } = await supabase
-        .from('products')
-        .update({
-          stock_quantity: selectedProduct.stock + productionQuantity
+      // complete_production checks the components, takes them out of stock
+      // and adds the finished goods in one transaction.
+      const { data: batch, error } = await supabase
+        .rpc('complete_production', {
+          p_finished_product_id: Number(selectedProduct.id),
+          p_quantity: productionQuantity,
+          p_notes: notes || undefined
         })
-        .eq('id', Number(selectedProduct.id));
-
-      if (productError) throw productError;
-
-      // Mark batch as completed
-      const { error: completeError } = await supabase
-        .from('production_batches')
-        .update({ status: 'completed' })
-        .eq('id', batch.id);
-
-      if (completeError) throw completeError;
+        .setHeader(AUDIT_SOURCE_HEADER, 'production');
 
+      if (error) throw error;
       return batch;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['products'] });
+      queryClient.invalidateQueries({ queryKey: ['stock-movements'] });
       toast.success('Production batch completed successfully');
       resetForm();
     },
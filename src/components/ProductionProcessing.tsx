@@ -3,6 +3,13 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { toast } from 'sonner';
 import {
   Factory,
@@ -16,6 +23,10 @@ import {
   TrendingUp
 } from 'lucide-react';
 import { Database } from '@/integrations/supabase/types';
+import { AUDIT_SOURCE_HEADER } from '@/lib/audit';
+import { useLocations } from '@/hooks/use-locations';
+import { productionLocation, stockAt } from '@/lib/locations';
+import { StockLevelRow } from '@/types/location';
 
 type Product = Database['public']['Tables']['products']['Row'];
 type ProductionBatch = Database['public']['Tables']['production_batches']['Row'] & {
@@ -35,6 +46,7 @@ const ProductionProcessing: React.FC = () => {
   const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
   const [productionQuantity, setProductionQuantity] = useState(1);
   const [notes, setNotes] = useState('');
+  const [locationId, setLocationId] = useState<number | null>(null);
   const [dateRange, setDateRange] = useState({
     start: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
     end: new Date().toISOString().split('T')[0]
@@ -42,6 +54,13 @@ const ProductionProcessing: React.FC = () => {
 
   const queryClient = useQueryClient();
 
+  // Components are taken from, and finished goods put into, a production
+  // location; without one the default location is used, as on the server.
+  const { data: locations = [] } = useLocations();
+  const productionSites = locations.filter(location => location.kind === 'production' && location.is_active);
+  const siteOptions = productionSites.length > 0 ? productionSites : locations.filter(location => location.is_default);
+  const productionSite = siteOptions.find(location => location.id === locationId) ?? productionLocation(locations);
+
   // Add this function to format dates for the query
   const formatDateForQuery = (dateStr: string, isEndDate: boolean = false) => {
     const date = new Date(dateStr);
@@ -136,7 +155,7 @@ const ProductionProcessing: React.FC = () => {
 
   // Fetch recipes for selected product
   const { data: recipes = [], isLoading: isLoadingRecipes } = useQuery({
-    queryKey: ['recipes', selectedProduct?.id],
+    queryKey: ['recipes', selectedProduct?.id, productionSite?.id],
     queryFn: async () => {
       if (!selectedProduct) return [];
 
@@ -166,7 +185,11 @@ const ProductionProcessing: React.FC = () => {
             reviews_count,
             seller_id,
             specifications,
-            status
+            status,
+            stock_levels (
+              location_id,
+              quantity
+            )
           )
         `)
         .eq('finished_product_id', selectedProduct.id);
@@ -174,7 +197,9 @@ const ProductionProcessing: React.FC = () => {
       if (error) throw error;
 
       return data.map((item) => {
-        const component = item.component as unknown as Product;
+        const component = item.component as unknown as Product & {
+          stock_levels: Pick<StockLevelRow, 'location_id' | 'quantity'>[];
+        };
         return {
           id: String(item.id),
           finished_product_id: String(item.finished_product_id),
@@ -184,7 +209,7 @@ const ProductionProcessing: React.FC = () => {
             ...component,
             id: Number(component.id),
             price: Number(component.price),
-            stock_quantity: component.stock_quantity || 0
+            stock_quantity: stockAt(component.stock_levels, productionSite?.id)
           }
         };
       });
@@ -197,77 +222,25 @@ const ProductionProcessing: React.FC = () => {
     mutationFn: async () => {
       if (!selectedProduct) throw new Error('No product selected');
 
-      // Start a transaction
-      const { data: batch, error: batchError } = await supabase
-        .from('production_batches')
-        .insert([{
-          finished_product_id: Number(selectedProduct.id),
-          quantity_produced: productionQuantity,
-          status: 'in_progress',
-          notes
-        }])
-        .select()
-        .single();
-
-      if (batchError) throw batchError;
-
-      // Check if we have enough components
-      for (const recipe of recipes) {
-        const requiredQuantity = recipe.quantity_required * productionQuantity;
-        if (recipe.component.stock_quantity < requiredQuantity) {
-          throw new Error(`Not enough stock of ${recipe.component.product_name}. Required: ${requiredQuantity}, Available: ${recipe.component.stock_quantity}`);
-        }
-      }
-
-      // Deduct components and record usage
-      for (const recipe of recipes) {
-        const quantityUsed = recipe.quantity_required * productionQuantity;
-        
-        // Update component stock
-        const { error: updateError } = await supabase
-          .from('products')
-          .update({
-            stock_quantity: recipe.component.stock_quantity - quantityUsed
-          })
-          .eq('id', Number(recipe.component_id));
-
-        if (updateError) throw updateError;
-
-        // Record component usage
-        const { error: usageError } = await supabase
-          .from('production_batch_components')
-          .insert([{
-            batch_id: batch.id,
-            component_id: Number(recipe.component_id),
-            quantity_used: quantityUsed
-          }]);
-
-        if (usageError) throw usageError;
-      }
-
-      // Update finished product stock
-      const { error: productError } = await supabase
-        .from('products')
-        .update({
-          stock_quantity: selectedProduct.stock_quantity + productionQuantity
+      // complete_production checks the components, takes them out of stock
+      // and adds the finished goods in one transaction.
+      const { data: batch, error } = await supabase
+        .rpc('complete_production', {
+          p_finished_product_id: Number(selectedProduct.id),
+          p_quantity: productionQuantity,
+          p_notes: notes || undefined,
+          p_location_id: productionSite?.id
         })
-        .eq('id', Number(selectedProduct.id));
-
-      if (productError) throw productError;
-
-      // Mark batch as completed
-      const { error: completeError } = await supabase
-        .from('production_batches')
-        .update({ status: 'completed' })
-        .eq('id', batch.id);
-
-      if (completeError) throw completeError;
+        .setHeader(AUDIT_SOURCE_HEADER, 'production');
 
+      if (error) throw error;
       return batch;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['products'] });
       queryClient.invalidateQueries({ queryKey: ['production-batches'] });
+      queryClient.invalidateQueries({ queryKey: ['recipes'] });
+      queryClient.invalidateQueries({ queryKey: ['stock-movements'] });
       toast.success('Production batch completed successfully');
       resetForm();
     },
@@ -386,6 +359,26 @@ const ProductionProcessing: React.FC = () => {
                 />
               </div>
 
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Production Location
+                </label>
+                <Select
+                  value={productionSite ? String(productionSite.id) : undefined}
+                  onValueChange={(value) => setLocationId(Number(value))}
+                  disabled={siteOptions.length <= 1}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a location" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {siteOptions.map(location => (
+                      <SelectItem key={location.id} value={String(location.id)}>{location.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
                   Required Components
@@ -0,0 +1,586 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { toast } from 'sonner';
+import { Plus, Tag, Trash2, X } from 'lucide-react';
+import { format } from 'date-fns';
+import { Database, Json } from '@/integrations/supabase/types';
+import { Promotion, PROMOTION_TYPE_LABELS, PromotionType } from '@/lib/promotions';
+import { AUDIT_SOURCE_HEADER } from '@/lib/audit';
+
+type PromotionRow = Database['public']['Tables']['promotions']['Row'];
+
+interface ProductOption {
+  id: number;
+  name: string;
+  category: string;
+}
+
+const DAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const EMPTY_FORM = {
+  name: '',
+  type: 'category_percent' as PromotionType,
+  starts_at: '',
+  ends_at: '',
+  product_id: '',
+  buy_quantity: 2,
+  get_quantity: 1,
+  get_percent_off: 100,
+  category: '',
+  percent: 10,
+  days: [1, 2, 3, 4, 5] as number[],
+  start_time: '16:00',
+  end_time: '18:00',
+  bundle_items: [] as Array<{ product_id: string; quantity: number }>,
+  bundle_price: 0
+};
+
+type PromotionForm = typeof EMPTY_FORM;
+
+// Builds the type-specific config stored in promotions.config; see
+// src/lib/promotions.ts for how each shape is evaluated.
+const buildConfig = (form: PromotionForm) => {
+  switch (form.type) {
+    case 'buy_x_get_y':
+      return {
+        product_id: Number(form.product_id),
+        buy_quantity: form.buy_quantity,
+        get_quantity: form.get_quantity,
+        get_percent_off: form.get_percent_off
+      };
+    case 'category_percent':
+      return { category: form.category, percent: form.percent };
+    case 'happy_hour':
+      return {
+        days: form.days,
+        start_time: form.start_time,
+        end_time: form.end_time,
+        percent: form.percent,
+        category: form.category || undefined
+      };
+    case 'bundle_price':
+      return {
+        items: form.bundle_items.map(item => ({
+          product_id: Number(item.product_id),
+          quantity: item.quantity
+        })),
+        price: form.bundle_price
+      };
+  }
+};
+
+const validate = (form: PromotionForm): string | null => {
+  if (!form.name.trim()) return 'Promotion name is required';
+  switch (form.type) {
+    case 'buy_x_get_y':
+      if (!form.product_id) return 'Select a product';
+      if (form.buy_quantity <= 0 || form.get_quantity <= 0) return 'Quantities must be positive';
+      return null;
+    case 'category_percent':
+      if (!form.category) return 'Select a category';
+      return form.percent > 0 && form.percent <= 100 ? null : 'Percent must be between 0 and 100';
+    case 'happy_hour':
+      if (form.days.length === 0) return 'Select at least one day';
+      return form.percent > 0 && form.percent <= 100 ? null : 'Percent must be between 0 and 100';
+    case 'bundle_price':
+      if (form.bundle_items.length < 2) return 'A bundle needs at least two products';
+      if (form.bundle_items.some(item => !item.product_id || item.quantity <= 0)) {
+        return 'Every bundle item needs a product and quantity';
+      }
+      return form.bundle_price > 0 ? null : 'Bundle price must be positive';
+  }
+};
+
+const PromotionManagement: React.FC = () => {
+  const [form, setForm] = useState<PromotionForm>(EMPTY_FORM);
+  const queryClient = useQueryClient();
+
+  const { data: promotions = [], isLoading } = useQuery({
+    queryKey: ['promotions'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('promotions')
+        .select('*')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data as PromotionRow[];
+    }
+  });
+
+  const { data: products = [] } = useQuery({
+    queryKey: ['products'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('products')
+        .select('*');
+
+      if (error) throw error;
+
+      return data.map((item) => ({
+        id: String(item.id),
+        name: item.product_name,
+        description: item.description || '',
+        price: Number(item.price),
+        category: item.category || '',
+        sku: item.sku,
+        stock: item.stock_quantity || 0,
+        image: item.photo_url,
+        createdAt: new Date(item.created_at),
+        updatedAt: new Date(item.updated_at)
+      }));
+    }
+  });
+
+  const productOptions: ProductOption[] = products.map(product => ({
+    id: Number(product.id),
+    name: product.name,
+    category: product.category
+  }));
+  const categories = Array.from(new Set(products.map(p => p.category).filter(Boolean))).sort();
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['promotions'] });
+  };
+
+  const createPromotionMutation = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase
+        .from('promotions')
+        .insert([{
+          name: form.name.trim(),
+          type: form.type,
+          config: buildConfig(form) as unknown as Json,
+          starts_at: form.starts_at ? new Date(form.starts_at).toISOString() : null,
+          ends_at: form.ends_at ? new Date(form.ends_at).toISOString() : null
+        }])
+        .setHeader(AUDIT_SOURCE_HEADER, 'promotions');
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      setForm(EMPTY_FORM);
+      toast.success('Promotion created successfully');
+    },
+    onError: (error) => {
+      toast.error(`Failed to create promotion: ${error.message}`);
+    }
+  });
+
+  const togglePromotionMutation = useMutation({
+    mutationFn: async (promotion: PromotionRow) => {
+      const { error } = await supabase
+        .from('promotions')
+        .update({ is_active: !promotion.is_active })
+        .eq('id', promotion.id)
+        .setHeader(AUDIT_SOURCE_HEADER, 'promotions');
+
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+    onError: (error) => {
+      toast.error(`Failed to update promotion: ${error.message}`);
+    }
+  });
+
+  const deletePromotionMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const { error } = await supabase
+        .from('promotions')
+        .delete()
+        .eq('id', id)
+        .setHeader(AUDIT_SOURCE_HEADER, 'promotions');
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success('Promotion deleted successfully');
+    },
+    onError: (error) => {
+      toast.error(`Failed to delete promotion: ${error.message}`);
+    }
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const problem = validate(form);
+    if (problem) {
+      toast.error(problem);
+      return;
+    }
+    createPromotionMutation.mutate();
+  };
+
+  const updateForm = (changes: Partial<PromotionForm>) => {
+    setForm(prev => ({ ...prev, ...changes }));
+  };
+
+  const productName = (id: number) =>
+    productOptions.find(product => product.id === id)?.name || `Product #${id}`;
+
+  const describePromotion = (row: PromotionRow) => {
+    const promotion = { ...row, config: row.config } as unknown as Promotion;
+    switch (promotion.type) {
+      case 'buy_x_get_y': {
+        const { buy_quantity, product_id, get_quantity, get_percent_off } = promotion.config;
+        return `Buy ${buy_quantity} ${productName(product_id)}, get ${get_quantity} at ${get_percent_off}% off`;
+      }
+      case 'category_percent':
+        return `${promotion.config.percent}% off ${promotion.config.category}`;
+      case 'happy_hour': {
+        const { percent, category, days, start_time, end_time } = promotion.config;
+        const dayNames = days.map(day => DAYS[day]).join(', ');
+        return `${percent}% off${category ? ` ${category}` : ''}, ${dayNames} ${start_time}-${end_time}`;
+      }
+      case 'bundle_price': {
+        const items = promotion.config.items
+          .map(item => `${item.quantity} x ${productName(item.product_id)}`)
+          .join(' + ');
+        return `${items} for $${Number(promotion.config.price).toFixed(2)}`;
+      }
+      default:
+        return '';
+    }
+  };
+
+  const productSelect = (value: string, onChange: (value: string) => void) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger>
+        <SelectValue placeholder="Select product" />
+      </SelectTrigger>
+      <SelectContent>
+        {productOptions.map(product => (
+          <SelectItem key={product.id} value={String(product.id)}>
+            {product.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <div className="p-6">
+      <div className="mb-8">
+        <h1 className="text-2xl font-bold text-gray-800 flex items-center gap-2">
+          <Tag className="h-6 w-6 text-pos-primary" />
+          Promotions
+        </h1>
+        <p className="text-gray-600 mt-1">Set up automatic discounts applied at the POS</p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Promotion Form */}
+        <div className="bg-white rounded-lg shadow-sm p-6">
+          <h2 className="text-lg font-semibold text-gray-800 mb-4">New Promotion</h2>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+              <Input
+                value={form.name}
+                onChange={(e) => updateForm({ name: e.target.value })}
+                required
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Type</label>
+              <Select
+                value={form.type}
+                onValueChange={(value) => updateForm({ type: value as PromotionType })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(PROMOTION_TYPE_LABELS) as PromotionType[]).map(type => (
+                    <SelectItem key={type} value={type}>
+                      {PROMOTION_TYPE_LABELS[type]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {form.type === 'buy_x_get_y' && (
+              <>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Product</label>
+                  {productSelect(form.product_id, (value) => updateForm({ product_id: value }))}
+                </div>
+                <div className="grid grid-cols-3 gap-2">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Buy</label>
+                    <Input
+                      type="number"
+                      min="1"
+                      value={form.buy_quantity}
+                      onChange={(e) => updateForm({ buy_quantity: parseInt(e.target.value) || 0 })}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Get</label>
+                    <Input
+                      type="number"
+                      min="1"
+                      value={form.get_quantity}
+                      onChange={(e) => updateForm({ get_quantity: parseInt(e.target.value) || 0 })}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">% Off</label>
+                    <Input
+                      type="number"
+                      min="1"
+                      max="100"
+                      value={form.get_percent_off}
+                      onChange={(e) => updateForm({ get_percent_off: parseFloat(e.target.value) || 0 })}
+                    />
+                  </div>
+                </div>
+              </>
+            )}
+
+            {(form.type === 'category_percent' || form.type === 'happy_hour') && (
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Category{form.type === 'happy_hour' ? ' (optional)' : ''}
+                  </label>
+                  <Select
+                    value={form.category || 'all'}
+                    onValueChange={(value) => updateForm({ category: value === 'all' ? '' : value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select category" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {form.type === 'happy_hour' && (
+                        <SelectItem value="all">All products</SelectItem>
+                      )}
+                      {categories.map(category => (
+                        <SelectItem key={category} value={category}>
+                          {category}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">% Off</label>
+                  <Input
+                    type="number"
+                    min="1"
+                    max="100"
+                    value={form.percent}
+                    onChange={(e) => updateForm({ percent: parseFloat(e.target.value) || 0 })}
+                  />
+                </div>
+              </div>
+            )}
+
+            {form.type === 'happy_hour' && (
+              <>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Days</label>
+                  <div className="flex flex-wrap gap-3">
+                    {DAYS.map((day, index) => (
+                      <label key={day} className="flex items-center gap-1 text-sm">
+                        <Checkbox
+                          checked={form.days.includes(index)}
+                          onCheckedChange={(checked) => updateForm({
+                            days: checked
+                              ? [...form.days, index].sort()
+                              : form.days.filter(d => d !== index)
+                          })}
+                        />
+                        {day}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">From</label>
+                    <Input
+                      type="time"
+                      value={form.start_time}
+                      onChange={(e) => updateForm({ start_time: e.target.value })}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Until</label>
+                    <Input
+                      type="time"
+                      value={form.end_time}
+                      onChange={(e) => updateForm({ end_time: e.target.value })}
+                    />
+                  </div>
+                </div>
+              </>
+            )}
+
+            {form.type === 'bundle_price' && (
+              <div className="space-y-2">
+                <label className="block text-sm font-medium text-gray-700">Bundle Items</label>
+                {form.bundle_items.map((item, index) => (
+                  <div key={index} className="flex gap-2 items-center">
+                    <div className="flex-1">
+                      {productSelect(item.product_id, (value) => updateForm({
+                        bundle_items: form.bundle_items.map((current, i) =>
+                          i === index ? { ...current, product_id: value } : current
+                        )
+                      }))}
+                    </div>
+                    <Input
+                      type="number"
+                      min="1"
+                      value={item.quantity}
+                      onChange={(e) => updateForm({
+                        bundle_items: form.bundle_items.map((current, i) =>
+                          i === index ? { ...current, quantity: parseInt(e.target.value) || 0 } : current
+                        )
+                      })}
+                      className="w-20"
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => updateForm({
+                        bundle_items: form.bundle_items.filter((_, i) => i !== index)
+                      })}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => updateForm({
+                    bundle_items: [...form.bundle_items, { product_id: '', quantity: 1 }]
+                  })}
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add Item
+                </Button>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Bundle Price ($)</label>
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={form.bundle_price}
+                    onChange={(e) => updateForm({ bundle_price: parseFloat(e.target.value) || 0 })}
+                  />
+                </div>
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Starts (optional)</label>
+                <Input
+                  type="datetime-local"
+                  value={form.starts_at}
+                  onChange={(e) => updateForm({ starts_at: e.target.value })}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Ends (optional)</label>
+                <Input
+                  type="datetime-local"
+                  value={form.ends_at}
+                  onChange={(e) => updateForm({ ends_at: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <Button
+              type="submit"
+              className="w-full bg-pos-primary hover:bg-pos-secondary"
+              disabled={createPromotionMutation.isPending}
+            >
+              {createPromotionMutation.isPending ? (
+                <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div>
+              ) : (
+                <>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Create Promotion
+                </>
+              )}
+            </Button>
+          </form>
+        </div>
+
+        {/* Promotion List */}
+        <div className="bg-white rounded-lg shadow-sm p-6">
+          <h2 className="text-lg font-semibold text-gray-800 mb-4">Promotions</h2>
+          {isLoading ? (
+            <div className="flex justify-center py-4">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-pos-primary"></div>
+            </div>
+          ) : promotions.length === 0 ? (
+            <div className="text-center py-4 text-gray-500">
+              <Tag className="h-8 w-8 mx-auto mb-2 text-gray-400" />
+              <p>No promotions yet</p>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {promotions.map(promotion => (
+                <div key={promotion.id} className="p-3 bg-gray-50 rounded-lg">
+                  <div className="flex justify-between items-start">
+                    <div>
+                      <p className="font-medium text-gray-800">{promotion.name}</p>
+                      <p className="text-sm text-gray-500">
+                        {PROMOTION_TYPE_LABELS[promotion.type as PromotionType]}: {describePromotion(promotion)}
+                      </p>
+                      {(promotion.starts_at || promotion.ends_at) && (
+                        <p className="text-sm text-gray-500">
+                          {promotion.starts_at ? format(new Date(promotion.starts_at), 'PP p') : 'Now'}
+                          {' - '}
+                          {promotion.ends_at ? format(new Date(promotion.ends_at), 'PP p') : 'No end'}
+                        </p>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Switch
+                        checked={promotion.is_active}
+                        onCheckedChange={() => togglePromotionMutation.mutate(promotion)}
+                      />
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => deletePromotionMutation.mutate(promotion.id)}
+                        className="text-red-500 hover:text-red-600 hover:bg-red-50"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PromotionManagement;
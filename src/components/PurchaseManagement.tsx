@@ -1,6 +1,8 @@
 import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
+import { Json } from '@/integrations/supabase/types';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { toast } from 'sonner';
@@ -8,10 +10,14 @@ import {
   Package,
   Plus,
   Search,
-  DollarSign,
   ShoppingBag,
-  AlertTriangle
+  Trash2
 } from 'lucide-react';
+import { AUDIT_SOURCE_HEADER } from '@/lib/audit';
+import { roundCurrency } from '@/lib/money';
+import { PurchaseOrderLineInput } from '@/lib/purchase-orders';
+import { PurchaseOrderRow } from '@/types/purchase-order';
+import SupplierCombobox from '@/components/SupplierCombobox';
 
 interface Product {
   id: string;
@@ -20,28 +26,27 @@ interface Product {
   stock: number;
   price: number;
   category: string;
+  supplierId: number | null;
 }
 
-interface Purchase {
-  product_id: string;
-  quantity: number;
-  unit_price: number;
-  supplier: string;
-  purchase_date: string;
-  notes?: string;
+// A line being put together. A blank unit price is filled in from the
+// supplier's price list, or what the product last cost, when the order is
+// created.
+interface OrderLine {
+  product: Product;
+  quantity: string;
+  unitPrice: string;
 }
 
+// Puts together a purchase order. Nothing is added to stock here: the order
+// is sent to the supplier and stock is booked as deliveries are received.
 const PurchaseManagement: React.FC = () => {
   const [searchQuery, setSearchQuery] = useState('');
-  const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
-  const [purchaseDetails, setPurchaseDetails] = useState<Partial<Purchase>>({
-    quantity: 1,
-    unit_price: 0,
-    supplier: '',
-    purchase_date: new Date().toISOString().split('T')[0],
-    notes: ''
-  });
+  const [lines, setLines] = useState<OrderLine[]>([]);
+  const [supplierId, setSupplierId] = useState<number | null>(null);
+  const [notes, setNotes] = useState('');
 
+  const navigate = useNavigate();
   const queryClient = useQueryClient();
 
   // Fetch products
@@ -63,94 +68,110 @@ const PurchaseManagement: React.FC = () => {
         sku: item.sku,
         stock: item.stock_quantity || 0,
         image: item.photo_url,
+        isGiftCard: item.is_gift_card,
+        supplierId: item.preferred_supplier_id,
         createdAt: new Date(item.created_at),
         updatedAt: new Date(item.updated_at)
       }));
     }
   });
 
-  // Create purchase mutation
-  const createPurchaseMutation = useMutation({
-    mutationFn: async (purchase: Purchase) => {
-      // First, create the purchase record
-      const { data: purchaseRecord, error: purchaseError } = await supabase
-        .from('purchases')
-        .insert([{
-          product_id: Number(purchase.product_id),
-          quantity: purchase.quantity,
-          unit_price: purchase.unit_price,
-          supplier: purchase.supplier,
-          purchase_date: purchase.purchase_date,
-          notes: purchase.notes,
-          total_amount: purchase.quantity * purchase.unit_price
-        }])
-        .select()
-        .single();
+  // The chosen supplier's price list, shown against lines left unpriced.
+  const { data: supplierPrices = [] } = useQuery({
+    queryKey: ['supplier-prices', supplierId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('supplier_prices')
+        .select('product_id, unit_price')
+        .eq('supplier_id', supplierId);
 
-      if (purchaseError) throw purchaseError;
+      if (error) throw error;
+      return data;
+    },
+    enabled: supplierId !== null
+  });
 
-      // Then, update the product stock
-      const { error: updateError } = await supabase
-        .from('products')
-        .update({
-          stock_quantity: selectedProduct!.stock + purchase.quantity
-        })
-        .eq('id', Number(purchase.product_id));
+  const listPrice = (productId: string) =>
+    supplierPrices.find(price => String(price.product_id) === productId)?.unit_price;
 
-      if (updateError) throw updateError;
+  const createOrderMutation = useMutation({
+    mutationFn: async (order: { supplierId: number | null; lines: PurchaseOrderLineInput[]; notes: string }) => {
+      const { data, error } = await supabase
+        .rpc('create_purchase_order', {
+          p_supplier_id: order.supplierId,
+          p_lines: order.lines as unknown as Json,
+          p_notes: order.notes || undefined
+        })
+        .setHeader(AUDIT_SOURCE_HEADER, 'purchases');
 
-      return purchaseRecord;
+      if (error) throw error;
+      return data as unknown as PurchaseOrderRow;
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['products'] });
-      toast.success('Purchase recorded successfully');
-      resetForm();
+    onSuccess: (order) => {
+      queryClient.invalidateQueries({ queryKey: ['purchase-orders'] });
+      toast.success(`Purchase order PO-${order.id} created`);
+      navigate(`/purchase-orders/${order.id}`);
     },
     onError: (error) => {
-      toast.error(`Failed to record purchase: ${error.message}`);
+      toast.error(`Failed to create purchase order: ${error.message}`);
     }
   });
 
   const handleProductSelect = (product: Product) => {
-    setSelectedProduct(product);
-    setPurchaseDetails(prev => ({
-      ...prev,
-      unit_price: product.price
-    }));
+    if (lines.some(line => line.product.id === product.id)) {
+      return;
+    }
+    setLines(prev => [...prev, { product, quantity: '1', unitPrice: '' }]);
+    if (supplierId === null && product.supplierId) {
+      setSupplierId(product.supplierId);
+    }
   };
 
+  const updateLine = (productId: string, changes: Partial<OrderLine>) => {
+    setLines(prev => prev.map(line => line.product.id === productId ? { ...line, ...changes } : line));
+  };
+
+  const removeLine = (productId: string) => {
+    setLines(prev => prev.filter(line => line.product.id !== productId));
+  };
+
+  const total = roundCurrency(
+    lines.reduce((sum, line) => {
+      const unitPrice = line.unitPrice.trim() === ''
+        ? Number(listPrice(line.product.id) ?? 0)
+        : parseFloat(line.unitPrice) || 0;
+      return sum + (parseFloat(line.quantity) || 0) * unitPrice;
+    }, 0)
+  );
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!selectedProduct) {
-      toast.error('Please select a product');
+    if (lines.length === 0) {
+      toast.error('Please add at least one product');
+      return;
+    }
+    if (lines.some(line => !(parseFloat(line.quantity) > 0))) {
+      toast.error('Every product needs a quantity');
       return;
     }
 
-    createPurchaseMutation.mutate({
-      product_id: selectedProduct.id,
-      quantity: purchaseDetails.quantity || 0,
-      unit_price: purchaseDetails.unit_price || 0,
-      supplier: purchaseDetails.supplier || '',
-      purchase_date: purchaseDetails.purchase_date || new Date().toISOString().split('T')[0],
-      notes: purchaseDetails.notes
-    });
-  };
-
-  const resetForm = () => {
-    setSelectedProduct(null);
-    setPurchaseDetails({
-      quantity: 1,
-      unit_price: 0,
-      supplier: '',
-      purchase_date: new Date().toISOString().split('T')[0],
-      notes: ''
+    createOrderMutation.mutate({
+      supplierId,
+      notes: notes.trim(),
+      lines: lines.map(line => ({
+        product_id: Number(line.product.id),
+        quantity: parseFloat(line.quantity),
+        unit_price: line.unitPrice.trim() === '' ? undefined : parseFloat(line.unitPrice) || 0
+      }))
     });
   };
 
   const filteredProducts = products.filter(
     product =>
-      product.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      product.sku.toLowerCase().includes(searchQuery.toLowerCase())
+      !product.isGiftCard && (
+        product.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
+        product.sku.toLowerCase().includes(searchQuery.toLowerCase())
+      )
   );
 
   return (
@@ -160,13 +181,13 @@ const PurchaseManagement: React.FC = () => {
           <ShoppingBag className="h-6 w-6 text-pos-primary" />
           Purchase Management
         </h1>
-        <p className="text-gray-600 mt-1">Add stock to your inventory through purchases</p>
+        <p className="text-gray-600 mt-1">Order stock from suppliers and receive it as it arrives</p>
       </div>
 
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Product Selection */}
         <div className="bg-white rounded-lg shadow-sm p-6">
-          <h2 className="text-lg font-semibold text-gray-800 mb-4">Select Product</h2>
+          <h2 className="text-lg font-semibold text-gray-800 mb-4">Add Products</h2>
           <div className="relative mb-4">
             <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-5 w-5" />
             <Input
@@ -177,11 +198,15 @@ const PurchaseManagement: React.FC = () => {
             />
           </div>
           <div className="space-y-2 max-h-[400px] overflow-y-auto">
-            {filteredProducts.map(product => (
+            {isLoading ? (
+              <div className="flex justify-center py-8">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-pos-primary"></div>
+              </div>
+            ) : filteredProducts.map(product => (
               <div
                 key={product.id}
                 className={`p-3 rounded-lg cursor-pointer transition-colors ${
-                  selectedProduct?.id === product.id
+                  lines.some(line => line.product.id === product.id)
                     ? 'bg-pos-primary/10 border border-pos-primary'
                     : 'bg-gray-50 hover:bg-gray-100'
                 }`}
@@ -202,81 +227,67 @@ const PurchaseManagement: React.FC = () => {
           </div>
         </div>
 
-        {/* Purchase Form */}
+        {/* Order Form */}
         <div className="bg-white rounded-lg shadow-sm p-6">
-          <h2 className="text-lg font-semibold text-gray-800 mb-4">Purchase Details</h2>
-          {selectedProduct ? (
+          <h2 className="text-lg font-semibold text-gray-800 mb-4">New Purchase Order</h2>
+          {lines.length > 0 ? (
             <form onSubmit={handleSubmit} className="space-y-4">
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Selected Product
-                </label>
-                <div className="p-3 bg-gray-50 rounded-lg">
-                  <p className="font-medium text-gray-800">{selectedProduct.name}</p>
-                  <p className="text-sm text-gray-500">Current Stock: {selectedProduct.stock}</p>
-                </div>
-              </div>
-
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Quantity
-                </label>
-                <Input
-                  type="number"
-                  min="1"
-                  value={purchaseDetails.quantity}
-                  onChange={(e) => setPurchaseDetails(prev => ({
-                    ...prev,
-                    quantity: parseInt(e.target.value) || 0
-                  }))}
-                  required
-                />
-              </div>
-
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Unit Price ($)
-                </label>
-                <Input
-                  type="number"
-                  min="0"
-                  step="0.01"
-                  value={purchaseDetails.unit_price}
-                  onChange={(e) => setPurchaseDetails(prev => ({
-                    ...prev,
-                    unit_price: parseFloat(e.target.value) || 0
-                  }))}
-                  required
-                />
-              </div>
-
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
                   Supplier
                 </label>
-                <Input
-                  value={purchaseDetails.supplier}
-                  onChange={(e) => setPurchaseDetails(prev => ({
-                    ...prev,
-                    supplier: e.target.value
-                  }))}
-                  required
+                <SupplierCombobox
+                  value={supplierId}
+                  onChange={setSupplierId}
+                  placeholder="Can be chosen before the order is sent"
                 />
               </div>
 
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Purchase Date
-                </label>
-                <Input
-                  type="date"
-                  value={purchaseDetails.purchase_date}
-                  onChange={(e) => setPurchaseDetails(prev => ({
-                    ...prev,
-                    purchase_date: e.target.value
-                  }))}
-                  required
-                />
+              <div className="space-y-2">
+                {lines.map(line => (
+                  <div key={line.product.id} className="p-3 bg-gray-50 rounded-lg">
+                    <div className="flex justify-between items-start mb-2">
+                      <div>
+                        <p className="font-medium text-gray-800">{line.product.name}</p>
+                        <p className="text-sm text-gray-500">Current Stock: {line.product.stock}</p>
+                      </div>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => removeLine(line.product.id)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                    <div className="grid grid-cols-2 gap-2">
+                      <div>
+                        <label className="block text-xs text-gray-500 mb-1">Quantity</label>
+                        <Input
+                          type="number"
+                          min="0"
+                          step="any"
+                          value={line.quantity}
+                          onChange={(e) => updateLine(line.product.id, { quantity: e.target.value })}
+                          required
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-xs text-gray-500 mb-1">Unit Price ($)</label>
+                        <Input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={line.unitPrice}
+                          onChange={(e) => updateLine(line.product.id, { unitPrice: e.target.value })}
+                          placeholder={listPrice(line.product.id) !== undefined
+                            ? `List ${Number(listPrice(line.product.id)).toFixed(2)}`
+                            : 'Last cost'}
+                        />
+                      </div>
+                    </div>
+                  </div>
+                ))}
               </div>
 
               <div>
@@ -284,27 +295,29 @@ const PurchaseManagement: React.FC = () => {
                   Notes
                 </label>
                 <Input
-                  value={purchaseDetails.notes}
-                  onChange={(e) => setPurchaseDetails(prev => ({
-                    ...prev,
-                    notes: e.target.value
-                  }))}
-                  placeholder="Optional notes about this purchase"
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  placeholder="Optional notes about this order"
                 />
               </div>
 
+              <div className="flex justify-between text-sm">
+                <span className="text-gray-600">Total</span>
+                <span className="font-medium text-gray-900">${total.toFixed(2)}</span>
+              </div>
+
               <div className="pt-4">
                 <Button
                   type="submit"
                   className="w-full bg-pos-primary hover:bg-pos-secondary"
-                  disabled={createPurchaseMutation.isPending}
+                  disabled={createOrderMutation.isPending}
                 >
-                  {createPurchaseMutation.isPending ? (
+                  {createOrderMutation.isPending ? (
                     <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div>
                   ) : (
                     <>
                       <Plus className="h-4 w-4 mr-2" />
-                      Record Purchase
+                      Create Purchase Order
                     </>
                   )}
                 </Button>
@@ -313,7 +326,7 @@ const PurchaseManagement: React.FC = () => {
           ) : (
             <div className="text-center py-8 text-gray-500">
               <Package className="h-12 w-12 mx-auto mb-2 text-gray-400" />
-              <p>Select a product to record a purchase</p>
+              <p>Select products to order</p>
             </div>
           )}
         </div>
@@ -322,4 +335,4 @@ const PurchaseManagement: React.FC = () => {
   );
 };
 
-export default PurchaseManagement; 
\ No newline at end of file
+export default PurchaseManagement;
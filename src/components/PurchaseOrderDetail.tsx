@@ -0,0 +1,606 @@
+import React, { useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Json } from '@/integrations/supabase/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { toast } from 'sonner';
+import { ArrowLeft, PackageCheck, PackageX, Send, Trash2, XCircle } from 'lucide-react';
+import { format } from 'date-fns';
+import { AUDIT_SOURCE_HEADER } from '@/lib/audit';
+import { roundCurrency } from '@/lib/money';
+import { useLocations } from '@/hooks/use-locations';
+import { resolveLocation } from '@/lib/locations';
+import { expectedDelivery, formatSupplierAmount } from '@/lib/suppliers';
+import {
+  openQuantity,
+  PURCHASE_ORDER_STATUS_CLASSES,
+  PURCHASE_ORDER_STATUS_LABELS,
+  RECEIVABLE_STATUSES
+} from '@/lib/purchase-orders';
+import { PurchaseOrderLineRow, PurchaseOrderStatus } from '@/types/purchase-order';
+import SupplierCombobox from '@/components/SupplierCombobox';
+import ClosePurchaseOrderDialog from '@/components/ClosePurchaseOrderDialog';
+
+type OrderLine = PurchaseOrderLineRow & {
+  product: { product_name: string; sku: string } | null;
+};
+
+type LineChanges = Partial<Pick<PurchaseOrderLineRow, 'quantity' | 'unit_price'>>;
+
+// One purchase order: edit it while it is a draft, send it to the supplier,
+// and book each delivery against it as a goods-received note.
+const PurchaseOrderDetail: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const orderId = Number(id);
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { data: locations = [] } = useLocations();
+  // Values typed but not yet saved, by line id and field.
+  const [lineDrafts, setLineDrafts] = useState<Record<number, { quantity?: string; unit_price?: string }>>({});
+  // Quantities arriving in the delivery being booked, by line id. A line
+  // not touched defaults to everything still open on it.
+  const [deliveryQuantities, setDeliveryQuantities] = useState<Record<number, string>>({});
+  const [deliveryLocationId, setDeliveryLocationId] = useState<number | null>(null);
+  const [deliveryNotes, setDeliveryNotes] = useState('');
+  const [isClosingShort, setIsClosingShort] = useState(false);
+
+  const activeLocations = locations.filter(location => location.is_active);
+  const deliveryLocation = resolveLocation(locations, deliveryLocationId);
+
+  const { data: order, isLoading } = useQuery({
+    queryKey: ['purchase-orders', orderId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('purchase_orders')
+        .select('*, supplier:suppliers(*)')
+        .eq('id', orderId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: Number.isFinite(orderId)
+  });
+
+  const { data: lines = [] } = useQuery({
+    queryKey: ['purchase-orders', orderId, 'lines'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('purchase_order_lines')
+        .select('*, product:products(product_name, sku)')
+        .eq('purchase_order_id', orderId)
+        .order('id');
+
+      if (error) throw error;
+      return data as unknown as OrderLine[];
+    },
+    enabled: Number.isFinite(orderId)
+  });
+
+  const { data: receipts = [] } = useQuery({
+    queryKey: ['purchase-orders', orderId, 'receipts'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('goods_receipts')
+        .select('*, location:locations(name), lines:goods_receipt_lines(id, purchase_order_line_id, quantity)')
+        .eq('purchase_order_id', orderId)
+        .order('received_at', { ascending: false });
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: Number.isFinite(orderId)
+  });
+
+  const invalidateOrder = () => {
+    queryClient.invalidateQueries({ queryKey: ['purchase-orders'] });
+  };
+
+  const saveSupplierMutation = useMutation({
+    mutationFn: async (supplierId: number | null) => {
+      const { error } = await supabase
+        .from('purchase_orders')
+        .update({ supplier_id: supplierId, updated_at: new Date().toISOString() })
+        .eq('id', orderId)
+        .setHeader(AUDIT_SOURCE_HEADER, 'purchases');
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidateOrder();
+    },
+    onError: (error) => {
+      toast.error(`Failed to save supplier: ${error.message}`);
+    }
+  });
+
+  const saveLineMutation = useMutation({
+    mutationFn: async ({ lineId, changes }: { lineId: number; changes: LineChanges }) => {
+      const { error } = await supabase
+        .from('purchase_order_lines')
+        .update(changes)
+        .eq('id', lineId)
+        .setHeader(AUDIT_SOURCE_HEADER, 'purchases');
+
+      if (error) throw error;
+    },
+    onSuccess: (_, { lineId }) => {
+      setLineDrafts(prev => {
+        const next = { ...prev };
+        delete next[lineId];
+        return next;
+      });
+      invalidateOrder();
+    },
+    onError: (error) => {
+      toast.error(`Failed to save line: ${error.message}`);
+    }
+  });
+
+  const removeLineMutation = useMutation({
+    mutationFn: async (lineId: number) => {
+      const { error } = await supabase
+        .from('purchase_order_lines')
+        .delete()
+        .eq('id', lineId)
+        .setHeader(AUDIT_SOURCE_HEADER, 'purchases');
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidateOrder();
+    },
+    onError: (error) => {
+      toast.error(`Failed to remove line: ${error.message}`);
+    }
+  });
+
+  const sendMutation = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase
+        .rpc('send_purchase_order', { p_purchase_order_id: orderId })
+        .setHeader(AUDIT_SOURCE_HEADER, 'purchases');
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidateOrder();
+      toast.success('Purchase order sent');
+    },
+    onError: (error) => {
+      toast.error(`Failed to send purchase order: ${error.message}`);
+    }
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase
+        .rpc('cancel_purchase_order', { p_purchase_order_id: orderId })
+        .setHeader(AUDIT_SOURCE_HEADER, 'purchases');
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidateOrder();
+      toast.success('Purchase order cancelled');
+    },
+    onError: (error) => {
+      toast.error(`Failed to cancel purchase order: ${error.message}`);
+    }
+  });
+
+  const closeMutation = useMutation({
+    mutationFn: async (reason: string) => {
+      const { error } = await supabase
+        .rpc('close_purchase_order', { p_purchase_order_id: orderId, p_reason: reason })
+        .setHeader(AUDIT_SOURCE_HEADER, 'purchases');
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidateOrder();
+      setIsClosingShort(false);
+      toast.success('Purchase order closed short');
+    },
+    onError: (error) => {
+      toast.error(`Failed to close purchase order: ${error.message}`);
+    }
+  });
+
+  const receiveMutation = useMutation({
+    mutationFn: async (items: Array<{ purchase_order_line_id: number; quantity: number }>) => {
+      const { error } = await supabase
+        .rpc('receive_purchase_order', {
+          p_purchase_order_id: orderId,
+          p_lines: items as unknown as Json,
+          p_location_id: deliveryLocation?.id,
+          p_notes: deliveryNotes.trim() || undefined
+        })
+        .setHeader(AUDIT_SOURCE_HEADER, 'purchases');
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidateOrder();
+      queryClient.invalidateQueries({ queryKey: ['purchases'] });
+      queryClient.invalidateQueries({ queryKey: ['products'] });
+      queryClient.invalidateQueries({ queryKey: ['stock-movements'] });
+      setDeliveryQuantities({});
+      setDeliveryNotes('');
+      toast.success('Delivery received into stock');
+    },
+    onError: (error) => {
+      toast.error(`Failed to receive delivery: ${error.message}`);
+    }
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-pos-primary"></div>
+      </div>
+    );
+  }
+
+  if (!order) {
+    return (
+      <div className="flex flex-col items-center justify-center p-12">
+        <h1 className="text-2xl font-bold text-gray-800 mb-4">Purchase Order Not Found</h1>
+        <Button onClick={() => navigate('/purchase-orders')}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back to Purchase Orders
+        </Button>
+      </div>
+    );
+  }
+
+  const status = order.status as PurchaseOrderStatus;
+  const isDraft = status === 'draft';
+  const isReceivable = RECEIVABLE_STATUSES.includes(status);
+  const canCancel = isDraft || status === 'sent';
+  // Once something has arrived the rest can only be closed short.
+  const canCloseShort = status === 'partially_received';
+  const total = roundCurrency(
+    lines.reduce((sum, line) => sum + Number(line.quantity) * Number(line.unit_price), 0)
+  );
+  const supplier = order.supplier;
+  const expected = expectedDelivery(order.sent_at, supplier);
+  const productNames = new Map(lines.map(line => [line.id, line.product?.product_name ?? '']));
+
+  const saveLine = (line: OrderLine, field: 'quantity' | 'unit_price') => {
+    const draft = lineDrafts[line.id]?.[field];
+    if (draft === undefined) return;
+
+    const value = Number(draft);
+    if (draft.trim() === '' || isNaN(value) || value < 0 || (field === 'quantity' && value === 0)) {
+      toast.error(field === 'quantity' ? 'A quantity must be more than zero' : 'A unit price must be zero or more');
+      return;
+    }
+    if (value === Number(line[field])) {
+      setLineDrafts(prev => ({ ...prev, [line.id]: { ...prev[line.id], [field]: undefined } }));
+      return;
+    }
+    saveLineMutation.mutate({ lineId: line.id, changes: { [field]: value } });
+  };
+
+  const deliveryQuantity = (line: OrderLine) =>
+    deliveryQuantities[line.id] ?? String(openQuantity(line));
+
+  const handleSend = () => {
+    if (!window.confirm(`Send PO-${order.id} to ${supplier?.name ?? 'the supplier'}? It can no longer be edited.`)) {
+      return;
+    }
+    sendMutation.mutate();
+  };
+
+  const handleCancel = () => {
+    if (!window.confirm(`Cancel PO-${order.id}?`)) {
+      return;
+    }
+    cancelMutation.mutate();
+  };
+
+  const handleReceive = (e: React.FormEvent) => {
+    e.preventDefault();
+    const items = lines
+      .filter(line => openQuantity(line) > 0)
+      .map(line => ({ purchase_order_line_id: line.id, quantity: Number(deliveryQuantity(line)) }));
+
+    if (items.some(item => isNaN(item.quantity) || item.quantity < 0)) {
+      toast.error('A delivered quantity must be zero or more');
+      return;
+    }
+    const delivered = items.filter(item => item.quantity > 0);
+    if (delivered.length === 0) {
+      toast.error('Enter what was delivered');
+      return;
+    }
+    receiveMutation.mutate(delivered);
+  };
+
+  return (
+    <div className="p-6">
+      <div className="flex justify-between items-center mb-6">
+        <Button variant="outline" onClick={() => navigate('/purchase-orders')}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back to Purchase Orders
+        </Button>
+        <div className="flex gap-2">
+          {canCancel && (
+            <Button variant="outline" onClick={handleCancel} disabled={cancelMutation.isPending}>
+              <XCircle className="h-4 w-4 mr-2" />
+              Cancel Order
+            </Button>
+          )}
+          {canCloseShort && (
+            <Button variant="outline" onClick={() => setIsClosingShort(true)}>
+              <PackageX className="h-4 w-4 mr-2" />
+              Close Short
+            </Button>
+          )}
+          {isDraft && (
+            <Button
+              className="bg-pos-primary hover:bg-pos-secondary"
+              onClick={handleSend}
+              disabled={sendMutation.isPending || lines.length === 0}
+            >
+              <Send className="h-4 w-4 mr-2" />
+              {sendMutation.isPending ? 'Sending...' : 'Send to Supplier'}
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm p-6 mb-6">
+        <div className="flex items-center gap-3">
+          <h1 className="text-2xl font-bold text-gray-800">PO-{order.id}</h1>
+          <span className={`px-2 py-1 rounded-full text-xs font-medium ${PURCHASE_ORDER_STATUS_CLASSES[status] ?? ''}`}>
+            {PURCHASE_ORDER_STATUS_LABELS[status] ?? order.status}
+          </span>
+        </div>
+        <p className="text-gray-600 mt-1">
+          Created {format(new Date(order.created_at), 'PPp')}
+          {order.created_by_name && ` by ${order.created_by_name}`}
+          {order.sent_at && ` · Sent ${format(new Date(order.sent_at), 'PPp')}`}
+          {order.sent_by_name && ` by ${order.sent_by_name}`}
+          {order.cancelled_at && ` · Cancelled ${format(new Date(order.cancelled_at), 'PPp')}`}
+          {order.closed_at && ` · Closed short ${format(new Date(order.closed_at), 'PPp')}`}
+          {order.closed_by_name && ` by ${order.closed_by_name}`}
+        </p>
+        {order.notes && <p className="text-gray-600 mt-1">{order.notes}</p>}
+        {order.close_reason && <p className="text-gray-600 mt-1">Closed short: {order.close_reason}</p>}
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-6">
+          <div>
+            <p className="text-sm text-gray-600">Supplier</p>
+            {isDraft ? (
+              <SupplierCombobox
+                value={order.supplier_id}
+                onChange={(supplierId) => saveSupplierMutation.mutate(supplierId)}
+                placeholder="Choose before sending"
+                disabled={saveSupplierMutation.isPending}
+              />
+            ) : (
+              <p className="text-xl font-semibold">{supplier?.name}</p>
+            )}
+          </div>
+          <div>
+            <p className="text-sm text-gray-600">Order Total</p>
+            <p className="text-xl font-semibold">{formatSupplierAmount(total, supplier?.currency)}</p>
+          </div>
+          <div>
+            <p className="text-sm text-gray-600">{expected ? 'Expected By' : 'Deliveries'}</p>
+            <p className="text-xl font-semibold">
+              {expected ? format(expected, 'PP') : receipts.length}
+            </p>
+          </div>
+        </div>
+
+        {supplier && (
+          <p className="text-sm text-gray-500 mt-4">
+            {[
+              supplier.contact_name,
+              supplier.phone,
+              supplier.email,
+              supplier.payment_terms && `Terms: ${supplier.payment_terms}`,
+              supplier.lead_time_days != null && `Lead time: ${supplier.lead_time_days} days`
+            ].filter(Boolean).join(' · ')}
+          </p>
+        )}
+      </div>
+
+      <form onSubmit={handleReceive} className="bg-white rounded-lg shadow-sm p-6 mb-6">
+        <h2 className="text-lg font-semibold text-gray-800 mb-4">Products</h2>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Product</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Ordered</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Unit Price</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Received</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Open</th>
+                {isReceivable && (
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Delivered Now</th>
+                )}
+                {isDraft && <th className="px-6 py-3"></th>}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {lines.map(line => {
+                const open = openQuantity(line);
+                return (
+                  <tr key={line.id}>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      <p className="font-medium text-gray-900">{line.product?.product_name}</p>
+                      <p className="text-gray-500">{line.product?.sku}</p>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                      {isDraft ? (
+                        <Input
+                          type="number"
+                          min="0"
+                          step="any"
+                          className="w-24 ml-auto text-right"
+                          value={lineDrafts[line.id]?.quantity ?? String(line.quantity)}
+                          onChange={(e) => setLineDrafts(prev => ({
+                            ...prev,
+                            [line.id]: { ...prev[line.id], quantity: e.target.value }
+                          }))}
+                          onBlur={() => saveLine(line, 'quantity')}
+                        />
+                      ) : (
+                        Number(line.quantity)
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                      {isDraft ? (
+                        <Input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          className="w-24 ml-auto text-right"
+                          value={lineDrafts[line.id]?.unit_price ?? String(line.unit_price)}
+                          onChange={(e) => setLineDrafts(prev => ({
+                            ...prev,
+                            [line.id]: { ...prev[line.id], unit_price: e.target.value }
+                          }))}
+                          onBlur={() => saveLine(line, 'unit_price')}
+                        />
+                      ) : (
+                        formatSupplierAmount(Number(line.unit_price), supplier?.currency)
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                      {Number(line.quantity_received)}
+                    </td>
+                    <td className={`px-6 py-4 whitespace-nowrap text-sm text-right font-medium ${open > 0 ? 'text-gray-900' : 'text-gray-400'}`}>
+                      {open}
+                    </td>
+                    {isReceivable && (
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right">
+                        {open > 0 ? (
+                          <Input
+                            type="number"
+                            min="0"
+                            max={open}
+                            step="any"
+                            className="w-24 ml-auto text-right"
+                            value={deliveryQuantity(line)}
+                            onChange={(e) => setDeliveryQuantities(prev => ({ ...prev, [line.id]: e.target.value }))}
+                          />
+                        ) : (
+                          '—'
+                        )}
+                      </td>
+                    )}
+                    {isDraft && (
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right">
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => removeLineMutation.mutate(line.id)}
+                          disabled={removeLineMutation.isPending || lines.length === 1}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </td>
+                    )}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        {isReceivable && (
+          <div className="flex flex-col md:flex-row gap-4 mt-6 md:items-end">
+            <div className="md:w-64">
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Receive Into
+              </label>
+              <Select
+                value={deliveryLocation ? String(deliveryLocation.id) : undefined}
+                onValueChange={(value) => setDeliveryLocationId(Number(value))}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a location" />
+                </SelectTrigger>
+                <SelectContent>
+                  {activeLocations.map(location => (
+                    <SelectItem key={location.id} value={String(location.id)}>{location.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex-1">
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Delivery Notes
+              </label>
+              <Input
+                value={deliveryNotes}
+                onChange={(e) => setDeliveryNotes(e.target.value)}
+                placeholder="Delivery note number, damaged items..."
+              />
+            </div>
+            <Button
+              type="submit"
+              className="bg-pos-primary hover:bg-pos-secondary"
+              disabled={receiveMutation.isPending}
+            >
+              <PackageCheck className="h-4 w-4 mr-2" />
+              {receiveMutation.isPending ? 'Receiving...' : 'Receive Delivery'}
+            </Button>
+          </div>
+        )}
+      </form>
+
+      <div className="bg-white rounded-lg shadow-sm p-6">
+        <h2 className="text-lg font-semibold text-gray-800 mb-4">Goods Received</h2>
+        {receipts.length === 0 ? (
+          <p className="text-gray-500">Nothing has been delivered yet</p>
+        ) : (
+          <div className="space-y-4">
+            {receipts.map(receipt => (
+              <div key={receipt.id} className="p-4 bg-gray-50 rounded-lg">
+                <p className="font-medium text-gray-900">GRN-{receipt.id}</p>
+                <p className="text-sm text-gray-500">
+                  {format(new Date(receipt.received_at), 'PPp')}
+                  {receipt.received_by_name && ` by ${receipt.received_by_name}`}
+                  {' · '}{receipt.location?.name}
+                </p>
+                {receipt.notes && <p className="text-sm text-gray-600">{receipt.notes}</p>}
+                <div className="mt-2 text-sm text-gray-900">
+                  {receipt.lines.map(line => (
+                    <p key={line.id}>{Number(line.quantity)} × {productNames.get(line.purchase_order_line_id)}</p>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <ClosePurchaseOrderDialog
+        isOpen={isClosingShort}
+        onClose={() => setIsClosingShort(false)}
+        orderLabel={`PO-${order.id}`}
+        openUnits={lines.reduce((sum, line) => sum + openQuantity(line), 0)}
+        isClosing={closeMutation.isPending}
+        onSubmit={(reason) => closeMutation.mutate(reason)}
+      />
+    </div>
+  );
+};
+
+export default PurchaseOrderDetail;
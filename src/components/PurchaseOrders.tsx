@@ -0,0 +1,118 @@
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { FileText } from 'lucide-react';
+import { format } from 'date-fns';
+import { roundCurrency } from '@/lib/money';
+import { formatSupplierAmount } from '@/lib/suppliers';
+import { PURCHASE_ORDER_STATUS_CLASSES, PURCHASE_ORDER_STATUS_LABELS } from '@/lib/purchase-orders';
+import { PurchaseOrderStatus } from '@/types/purchase-order';
+
+// Purchase orders and what is on them.
+const PurchaseOrders: React.FC = () => {
+  const navigate = useNavigate();
+  const { data: orders = [], isLoading } = useQuery({
+    queryKey: ['purchase-orders'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('purchase_orders')
+        .select('*, supplier:suppliers(name, currency), lines:purchase_order_lines(id, quantity, quantity_received, quantity_closed, unit_price, product:products(product_name, sku))')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data;
+    }
+  });
+
+  return (
+    <div className="p-6">
+      <div className="mb-8">
+        <h1 className="text-2xl font-bold text-gray-800 flex items-center gap-2">
+          <FileText className="h-6 w-6 text-pos-primary" />
+          Purchase Orders
+        </h1>
+        <p className="text-gray-600 mt-1">Stock ordered from suppliers</p>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm overflow-hidden">
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-pos-primary"></div>
+          </div>
+        ) : orders.length === 0 ? (
+          <div className="text-center py-12 text-gray-500">
+            <FileText className="h-12 w-12 mx-auto mb-4 text-gray-400" />
+            <p>No purchase orders yet</p>
+            <p className="text-sm">Create them from Purchases or the stock alerts on the inventory dashboard</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Order</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Supplier</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Products</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Total</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Created</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {orders.map(order => {
+                  const status = order.status as PurchaseOrderStatus;
+                  const total = roundCurrency(
+                    order.lines.reduce((sum, line) => sum + Number(line.quantity) * Number(line.unit_price), 0)
+                  );
+                  return (
+                    <tr
+                      key={order.id}
+                      className="hover:bg-gray-50 cursor-pointer"
+                      onClick={() => navigate(`/purchase-orders/${order.id}`)}
+                    >
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        <p className="font-medium text-gray-900">PO-{order.id}</p>
+                        {order.notes && <p className="text-gray-500">{order.notes}</p>}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {order.supplier?.name || <span className="text-gray-400">Not chosen</span>}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-900">
+                        {order.lines.map(line => (
+                          <p key={line.id}>
+                            {Number(line.quantity)} × {line.product?.product_name}
+                            {Number(line.quantity_received) > 0 && (
+                              <span className="text-gray-500"> ({Number(line.quantity_received)} received)</span>
+                            )}
+                            {Number(line.quantity_closed) > 0 && (
+                              <span className="text-gray-500"> ({Number(line.quantity_closed)} closed)</span>
+                            )}
+                          </p>
+                        ))}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                        {formatSupplierAmount(total, order.supplier?.currency)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {format(new Date(order.created_at), 'PPp')}
+                        {order.created_by_name && <p>{order.created_by_name}</p>}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        <span className={`px-2 py-1 rounded-full text-xs font-medium ${PURCHASE_ORDER_STATUS_CLASSES[status] ?? ''}`}>
+                          {PURCHASE_ORDER_STATUS_LABELS[status] ?? order.status}
+                        </span>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PurchaseOrders;
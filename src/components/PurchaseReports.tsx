@@ -1,4 +1,5 @@
 import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
 import { useQuery } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { Input } from '@/components/ui/input';
@@ -13,8 +14,17 @@ import { Database } from '@/integrations/supabase/types';
 
 type Purchase = Database['public']['Tables']['purchases']['Row'] & {
   product: Database['public']['Tables']['products']['Row'];
+  supplier_ref: { name: string } | null;
 };
 
+interface SupplierTotal {
+  supplierId: number | null;
+  name: string;
+  purchases: number;
+  quantity: number;
+  spent: number;
+}
+
 const PurchaseReports: React.FC = () => {
   const [dateRange, setDateRange] = useState({
     start: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
@@ -34,9 +44,15 @@ const PurchaseReports: React.FC = () => {
           unit_price,
           total_amount,
           supplier,
+          supplier_id,
+          supplier_ref:suppliers (
+            name
+          ),
           purchase_date,
           notes,
           created_at,
+          purchase_order_id,
+          goods_receipt_id,
           product:products (
             id,
             product_name,
@@ -51,7 +67,7 @@ const PurchaseReports: React.FC = () => {
         .order('purchase_date', { ascending: false });
 
       if (error) throw error;
-      return data as Purchase[];
+      return data as unknown as Purchase[];
     }
   });
 
@@ -60,6 +76,25 @@ const PurchaseReports: React.FC = () => {
   const totalSpent = purchases.reduce((sum, purchase) => sum + purchase.total_amount, 0);
   const averagePrice = totalPurchases > 0 ? totalSpent / totalPurchases : 0;
 
+  // Totals per supplier id, so one vendor is one row however its name was
+  // typed on older purchases. Purchases never matched to a supplier share a
+  // row.
+  const supplierTotals = Array.from(
+    purchases.reduce((totals, purchase) => {
+      const total = totals.get(purchase.supplier_id) ?? {
+        supplierId: purchase.supplier_id,
+        name: purchase.supplier_ref?.name ?? 'No supplier',
+        purchases: 0,
+        quantity: 0,
+        spent: 0
+      };
+      total.purchases += 1;
+      total.quantity += purchase.quantity;
+      total.spent += purchase.total_amount;
+      return totals.set(purchase.supplier_id, total);
+    }, new Map<number | null, SupplierTotal>()).values()
+  ).sort((a, b) => b.spent - a.spent);
+
   return (
     <div className="p-6">
       <div className="mb-8">
@@ -126,6 +161,43 @@ const PurchaseReports: React.FC = () => {
           </div>
         </div>
 
+        {/* By Supplier */}
+        {supplierTotals.length > 0 && (
+          <div className="mb-6">
+            <h3 className="text-md font-medium text-gray-800 mb-3">By Supplier</h3>
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Supplier</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Purchases</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Units</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Spent</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {supplierTotals.map(total => (
+                    <tr key={total.supplierId ?? 'none'}>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                        {total.supplierId !== null ? (
+                          <Link to={`/suppliers/${total.supplierId}`} className="text-pos-primary hover:underline">
+                            {total.name}
+                          </Link>
+                        ) : (
+                          <span className="text-gray-500">{total.name}</span>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">{total.purchases}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">{total.quantity}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">${total.spent.toFixed(2)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
         {/* Purchase History */}
         <div>
           <h3 className="text-md font-medium text-gray-800 mb-3">Purchase History</h3>
@@ -152,11 +224,22 @@ const PurchaseReports: React.FC = () => {
                         Quantity: {purchase.quantity} units
                       </p>
                       <p className="text-sm text-gray-500">
-                        Supplier: {purchase.supplier}
+                        Supplier: {purchase.supplier_ref?.name ?? purchase.supplier}
                       </p>
                       <p className="text-sm text-gray-500">
                         {new Date(purchase.purchase_date).toLocaleDateString()}
                       </p>
+                      {purchase.purchase_order_id && (
+                        <p className="text-sm text-gray-500">
+                          <Link
+                            to={`/purchase-orders/${purchase.purchase_order_id}`}
+                            className="text-pos-primary hover:underline"
+                          >
+                            PO-{purchase.purchase_order_id}
+                          </Link>
+                          {purchase.goods_receipt_id && ` · GRN-${purchase.goods_receipt_id}`}
+                        </p>
+                      )}
                     </div>
                     <div className="text-right">
                       <p className="font-medium text-gray-800">
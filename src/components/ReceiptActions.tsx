@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { toast } from 'sonner';
+import { FileCode, FileDown, FileText, Printer } from 'lucide-react';
+import { OrderDetails } from '@/types/order';
+import { renderEscPos } from '@/lib/receipt/escpos';
+import { renderReceiptHtml } from '@/lib/receipt/html';
+import {
+  getPrinterSettings,
+  printHtml,
+  printViaEmulator,
+  printViaSerial,
+  printViaUsb,
+} from '@/lib/receipt/printer';
+import { downloadFile } from '@/lib/download';
+import { downloadInvoicePdf } from '@/lib/invoice-pdf';
+import { DEFAULT_STORE_DETAILS } from '@/lib/store';
+import { useStoreSettings } from '@/hooks/use-store-settings';
+
+interface ReceiptActionsProps {
+  order: OrderDetails;
+  printLabel?: string;
+}
+
+// Print and download buttons for an order's receipt and invoice. Receipts
+// use the printer configured for this terminal under Settings > Printer.
+const ReceiptActions: React.FC<ReceiptActionsProps> = ({ order, printLabel = 'Print Receipt' }) => {
+  const [isPrinting, setIsPrinting] = useState(false);
+  const [isGeneratingPdf, setIsGeneratingPdf] = useState(false);
+  const { data: store = DEFAULT_STORE_DETAILS } = useStoreSettings();
+
+  const handlePrint = async () => {
+    const settings = getPrinterSettings();
+    setIsPrinting(true);
+    try {
+      switch (settings.transport) {
+        case 'browser':
+          printHtml(renderReceiptHtml(order, settings.paper, store));
+          break;
+        case 'usb':
+          await printViaUsb(renderEscPos(order, settings.paper, store));
+          break;
+        case 'serial':
+          await printViaSerial(renderEscPos(order, settings.paper, store), settings.baudRate);
+          break;
+        case 'emulator':
+          await printViaEmulator(renderEscPos(order, settings.paper, store), settings.emulatorUrl);
+          break;
+      }
+      if (settings.transport !== 'browser') {
+        toast.success('Receipt sent to printer');
+      }
+    } catch (error) {
+      toast.error(`Failed to print receipt: ${(error as Error).message}`);
+    } finally {
+      setIsPrinting(false);
+    }
+  };
+
+  const handleDownloadBin = () => {
+    const { paper } = getPrinterSettings();
+    downloadFile(renderEscPos(order, paper, store), `receipt-${order.order_number}.bin`, 'application/octet-stream');
+  };
+
+  const handleDownloadHtml = () => {
+    const { paper } = getPrinterSettings();
+    downloadFile(renderReceiptHtml(order, paper, store), `receipt-${order.order_number}.html`, 'text/html');
+  };
+
+  const handleDownloadPdf = async () => {
+    setIsGeneratingPdf(true);
+    try {
+      await downloadInvoicePdf(order, store);
+    } catch (error) {
+      toast.error(`Failed to generate invoice: ${(error as Error).message}`);
+    } finally {
+      setIsGeneratingPdf(false);
+    }
+  };
+
+  return (
+    <div className="flex gap-2">
+      <Button variant="outline" onClick={handlePrint} disabled={isPrinting}>
+        <Printer className="h-4 w-4 mr-2" />
+        {isPrinting ? 'Printing...' : printLabel}
+      </Button>
+      <Button variant="outline" onClick={handleDownloadPdf} disabled={isGeneratingPdf}>
+        <FileText className="h-4 w-4 mr-2" />
+        Invoice PDF
+      </Button>
+      <Button variant="outline" onClick={handleDownloadHtml} title="Receipt as HTML">
+        <FileDown className="h-4 w-4 mr-2" />
+        Receipt
+      </Button>
+      <Button variant="outline" onClick={handleDownloadBin} title="Raw ESC/POS print job">
+        <FileCode className="h-4 w-4 mr-2" />
+        .bin
+      </Button>
+    </div>
+  );
+};
+
+export default ReceiptActions;
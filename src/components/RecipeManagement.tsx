@@ -12,6 +12,7 @@ import {
   Trash2,
   AlertTriangle
 } from 'lucide-react';
+import { AUDIT_SOURCE_HEADER } from '@/lib/audit';
 
 interface Product {
   id: string;
@@ -148,7 +149,8 @@ const RecipeManagement: React.FC = () => {
           component_id: Number(selectedComponent.id),
           quantity_required: quantityRequired
         }])
-        .select();
+        .select()
+        .setHeader(AUDIT_SOURCE_HEADER, 'recipes');
 
       if (error) throw error;
 
@@ -178,7 +180,8 @@ const RecipeManagement: React.FC = () => {
       const { error: updateError } = await supabase
         .from('products')
         .update({ price: finalPrice })
-        .eq('id', selectedProduct.id);
+        .eq('id', selectedProduct.id)
+        .setHeader(AUDIT_SOURCE_HEADER, 'recipes');
 
       if (updateError) throw updateError;
 
@@ -204,7 +207,8 @@ const RecipeManagement: React.FC = () => {
       const { error } = await supabase
         .from('product_recipes')
         .delete()
-        .eq('id', recipeId);
+        .eq('id', recipeId)
+        .setHeader(AUDIT_SOURCE_HEADER, 'recipes');
 
       if (error) throw error;
 
@@ -234,7 +238,8 @@ const RecipeManagement: React.FC = () => {
       const { error: updateError } = await supabase
         .from('products')
         .update({ price: finalPrice })
-        .eq('id', selectedProduct.id);
+        .eq('id', selectedProduct.id)
+        .setHeader(AUDIT_SOURCE_HEADER, 'recipes');
 
       if (updateError) throw updateError;
     },
@@ -0,0 +1,159 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import SupplierCombobox from '@/components/SupplierCombobox';
+import { groupBySupplier, PurchaseOrderDraft } from '@/lib/purchase-orders';
+import { ReorderAlertRow } from '@/types/stock';
+
+interface ReorderDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  alerts: ReorderAlertRow[];
+  onCreate: (drafts: PurchaseOrderDraft[]) => void;
+  isSubmitting: boolean;
+}
+
+interface ReorderLine {
+  productId: number;
+  include: boolean;
+  quantity: string;
+  supplierId: number | null;
+}
+
+// Turns the stock alerts into draft purchase orders. Quantities start at
+// each product's suggested order and can be changed before the orders are
+// created.
+const ReorderDialog: React.FC<ReorderDialogProps> = ({
+  isOpen,
+  onClose,
+  alerts,
+  onCreate,
+  isSubmitting,
+}) => {
+  const [lines, setLines] = useState<ReorderLine[]>([]);
+
+  useEffect(() => {
+    if (isOpen) {
+      setLines(alerts.map(alert => ({
+        productId: alert.product_id as number,
+        include: Number(alert.suggested_quantity) > 0,
+        quantity: String(Number(alert.suggested_quantity) || ''),
+        supplierId: alert.preferred_supplier_id
+      })));
+    }
+  }, [isOpen, alerts]);
+
+  const updateLine = (productId: number, changes: Partial<ReorderLine>) => {
+    setLines(prev => prev.map(line => line.productId === productId ? { ...line, ...changes } : line));
+  };
+
+  const ordered = lines.filter(line => line.include && parseFloat(line.quantity) > 0);
+  const drafts = groupBySupplier(ordered.map(line => ({
+    product_id: line.productId,
+    quantity: parseFloat(line.quantity),
+    supplier_id: line.supplierId
+  })));
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onCreate(drafts);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-2xl">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>Create Purchase Orders</DialogTitle>
+            <DialogDescription>
+              One draft purchase order is created for each supplier.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="py-4 max-h-[60vh] overflow-y-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2"></th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Product</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Stock</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Order</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Supplier</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {alerts.map(alert => {
+                  const line = lines.find(other => other.productId === alert.product_id);
+                  if (!line) return null;
+                  return (
+                    <tr key={alert.product_id}>
+                      <td className="px-3 py-2">
+                        <Checkbox
+                          checked={line.include}
+                          onCheckedChange={(checked) => updateLine(line.productId, { include: checked === true })}
+                        />
+                      </td>
+                      <td className="px-3 py-2 text-sm">
+                        <p className="font-medium text-gray-900">{alert.product_name}</p>
+                        <p className="text-gray-500">{alert.sku}</p>
+                      </td>
+                      <td className="px-3 py-2 text-sm text-right text-gray-900">
+                        {Number(alert.stock_quantity)}
+                        {alert.reorder_point !== null && (
+                          <p className="text-xs text-gray-500">of {Number(alert.reorder_point)}</p>
+                        )}
+                      </td>
+                      <td className="px-3 py-2">
+                        <Input
+                          type="number"
+                          min="0"
+                          step="any"
+                          value={line.quantity}
+                          onChange={(e) => updateLine(line.productId, { quantity: e.target.value })}
+                          className="w-24"
+                        />
+                      </td>
+                      <td className="px-3 py-2">
+                        <SupplierCombobox
+                          value={line.supplierId}
+                          onChange={(supplierId) => updateLine(line.productId, { supplierId })}
+                          placeholder="Supplier"
+                        />
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose} className="mr-2">
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              className="bg-pos-primary hover:bg-pos-secondary"
+              disabled={isSubmitting || drafts.length === 0}
+            >
+              {isSubmitting
+                ? 'Creating...'
+                : `Create ${drafts.length} Purchase Order${drafts.length === 1 ? '' : 's'}`}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReorderDialog;
@@ -0,0 +1,47 @@
+import React from 'react';
+import { Navigate, useLocation } from 'react-router-dom';
+import { ShieldAlert } from 'lucide-react';
+import { useAuth } from '@/hooks/use-auth';
+import { Role } from '@/lib/roles';
+
+interface RequireRoleProps {
+  roles: Role[];
+  children: React.ReactNode;
+}
+
+// Route guard: sends signed-out staff to the sign-in page and tells
+// signed-in staff without one of the roles that the page is not for them.
+const RequireRole: React.FC<RequireRoleProps> = ({ roles, children }) => {
+  const { session, isLoading, hasRole } = useAuth();
+  const location = useLocation();
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-pos-primary"></div>
+      </div>
+    );
+  }
+
+  if (!session) {
+    return <Navigate to="/login" replace state={{ from: location.pathname + location.search }} />;
+  }
+
+  if (!hasRole(...roles)) {
+    return (
+      <div className="p-6">
+        <div className="bg-white rounded-lg shadow-sm p-6 text-center">
+          <ShieldAlert className="h-12 w-12 mx-auto mb-4 text-gray-400" />
+          <h2 className="text-lg font-semibold text-gray-800">No access</h2>
+          <p className="text-sm text-gray-600">
+            Your account does not have a role that can use this page. Ask an admin to grant one.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+};
+
+export default RequireRole;
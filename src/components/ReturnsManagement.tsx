@@ -0,0 +1,376 @@
+import React, { useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { toast } from 'sonner';
+import { RotateCcw, Search } from 'lucide-react';
+import { format } from 'date-fns';
+import {
+  calculateRefundTotal,
+  refundableQuantity,
+  refundAmountFor,
+  RefundMethod,
+  RefundSelection,
+} from '@/lib/refunds';
+import { RefundResult } from '@/types/order';
+import { GiftCardRow } from '@/types/gift-card';
+import { formatGiftCardCode } from '@/lib/gift-cards';
+import { ApprovalRequest, refundNeedsApproval } from '@/lib/approvals';
+import { useCashSession } from '@/hooks/use-cash-session';
+import OrderStatusBadge from './OrderStatusBadge';
+import ManagerApprovalDialog from './ManagerApprovalDialog';
+import { AUDIT_SOURCE_HEADER } from '@/lib/audit';
+
+const ReturnsManagement: React.FC = () => {
+  const queryClient = useQueryClient();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const orderNumber = searchParams.get('order') || '';
+  const [searchTerm, setSearchTerm] = useState(orderNumber);
+  const [selections, setSelections] = useState<Record<number, RefundSelection>>({});
+  const [refundMethod, setRefundMethod] = useState<RefundMethod>('cash');
+  const [reason, setReason] = useState('');
+  // Store credit issued by the last refund, kept on screen so the code can
+  // be handed to the customer.
+  const [issuedCredit, setIssuedCredit] = useState<GiftCardRow | null>(null);
+  const [approvalRequest, setApprovalRequest] = useState<ApprovalRequest | null>(null);
+  const { data: cashSession } = useCashSession();
+
+  const { data: approvalThreshold = null } = useQuery({
+    queryKey: ['approvals', 'refund-threshold'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('store_settings')
+        .select('refund_approval_threshold')
+        .eq('id', 1)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data?.refund_approval_threshold ?? null;
+    }
+  });
+
+  const { data: order, isLoading } = useQuery({
+    queryKey: ['refund-order', orderNumber],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('orders')
+        .select('*, order_items(*), refunds(*, refund_items(*))')
+        .eq('order_number', orderNumber)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!orderNumber
+  });
+
+  const items = order
+    ? [...order.order_items].sort((a, b) => a.id - b.id)
+    : [];
+  const refunds = order
+    ? [...order.refunds].sort((a, b) => b.id - a.id)
+    : [];
+  const refundTotal = order ? calculateRefundTotal(order, items, selections) : 0;
+  const refundedSoFar = refunds.reduce((sum, refund) => sum + Number(refund.amount), 0);
+  const canRefund = order && ['completed', 'partially_refunded'].includes(order.order_status);
+
+  const resetForm = () => {
+    setSelections({});
+    setReason('');
+  };
+
+  const refundMutation = useMutation({
+    mutationFn: async (approvalId?: number) => {
+      if (!order) throw new Error('No order selected');
+
+      const { data, error } = await supabase.rpc('create_refund', {
+        p_order_id: order.id,
+        p_items: Object.entries(selections)
+          .filter(([, selection]) => selection.quantity > 0)
+          .map(([orderItemId, selection]) => ({
+            order_item_id: Number(orderItemId),
+            quantity: selection.quantity,
+            restock: selection.restock
+          })),
+        p_refund_method: refundMethod,
+        p_reason: reason.trim() || undefined,
+        p_cash_session_id: cashSession?.id,
+        p_approval_id: approvalId
+      }).setHeader(AUDIT_SOURCE_HEADER, 'returns');
+
+      if (error) throw error;
+      return data as unknown as RefundResult;
+    },
+    onSuccess: (refund) => {
+      queryClient.invalidateQueries({ queryKey: ['refund-order'] });
+      queryClient.invalidateQueries({ queryKey: ['order'] });
+      queryClient.invalidateQueries({ queryKey: ['orders'] });
+      queryClient.invalidateQueries({ queryKey: ['products'] });
+      queryClient.invalidateQueries({ queryKey: ['cash-session-report'] });
+      queryClient.invalidateQueries({ queryKey: ['gift-cards'] });
+      queryClient.invalidateQueries({ queryKey: ['loyalty'] });
+      resetForm();
+      setIssuedCredit(refund.store_credit);
+      toast.success(`Refund ${refund.refund_number} processed: $${Number(refund.amount).toFixed(2)}`);
+    },
+    onError: (error) => {
+      toast.error(`Failed to process refund: ${error.message}`);
+    }
+  });
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    resetForm();
+    setIssuedCredit(null);
+    setSearchParams(searchTerm.trim() ? { order: searchTerm.trim() } : {});
+  };
+
+  const updateSelection = (itemId: number, changes: Partial<RefundSelection>) => {
+    setSelections(prev => ({
+      ...prev,
+      [itemId]: { quantity: 0, restock: true, ...prev[itemId], ...changes }
+    }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (refundTotal <= 0) {
+      toast.error('Select at least one item to refund');
+      return;
+    }
+    if (refundMethod === 'cash' && !cashSession) {
+      toast.error('Open the cash drawer before giving a cash refund');
+      return;
+    }
+    if (order && refundNeedsApproval(refundedSoFar + refundTotal, approvalThreshold)) {
+      setApprovalRequest({
+        action: 'refund',
+        description: `Refund $${refundTotal.toFixed(2)} on order ${order.order_number}`,
+        amount: refundTotal,
+        orderId: order.id,
+        cashSessionId: cashSession?.id
+      });
+      return;
+    }
+    refundMutation.mutate(undefined);
+  };
+
+  return (
+    <div className="p-6">
+      <div className="mb-8">
+        <h1 className="text-2xl font-bold text-gray-800 flex items-center gap-2">
+          <RotateCcw className="h-6 w-6 text-pos-primary" />
+          Returns
+        </h1>
+        <p className="text-gray-600 mt-1">Refund items from a completed order</p>
+      </div>
+
+      <form onSubmit={handleSearch} className="bg-white rounded-lg shadow-sm p-6 mb-6 flex gap-2">
+        <Input
+          placeholder="Order number, e.g. ORD-1718000000000"
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.target.value)}
+        />
+        <Button type="submit" className="bg-pos-primary hover:bg-pos-secondary">
+          <Search className="h-4 w-4 mr-2" />
+          Find Order
+        </Button>
+      </form>
+
+      {issuedCredit && (
+        <div className="bg-green-50 border border-green-200 text-green-800 rounded-lg p-4 mb-6">
+          <p className="font-medium">
+            ${Number(issuedCredit.initial_amount).toFixed(2)} issued as store credit
+          </p>
+          <p className="text-2xl font-mono font-bold tracking-wider my-1">
+            {formatGiftCardCode(issuedCredit.code)}
+          </p>
+          <p className="text-sm">
+            {issuedCredit.expires_at
+              ? `Valid until ${format(new Date(issuedCredit.expires_at), 'PPP')}`
+              : 'Does not expire'}
+          </p>
+        </div>
+      )}
+
+      {isLoading && (
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-pos-primary"></div>
+        </div>
+      )}
+
+      {orderNumber && !isLoading && !order && (
+        <div className="bg-white rounded-lg shadow-sm p-6 text-center text-gray-500">
+          No order found with number {orderNumber}
+        </div>
+      )}
+
+      {order && (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <form onSubmit={handleSubmit} className="lg:col-span-2 bg-white rounded-lg shadow-sm p-6">
+            <div className="flex justify-between items-start mb-4">
+              <div>
+                <h2 className="text-lg font-semibold text-gray-800">{order.order_number}</h2>
+                <p className="text-sm text-gray-500">
+                  {order.created_at && format(new Date(order.created_at), 'PPpp')}
+                </p>
+              </div>
+              <OrderStatusBadge status={order.order_status} />
+            </div>
+
+            <table className="min-w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-sm font-medium text-gray-600">Item</th>
+                  <th className="px-4 py-2 text-right text-sm font-medium text-gray-600">Sold</th>
+                  <th className="px-4 py-2 text-right text-sm font-medium text-gray-600">Refunded</th>
+                  <th className="px-4 py-2 text-right text-sm font-medium text-gray-600">Return</th>
+                  <th className="px-4 py-2 text-center text-sm font-medium text-gray-600">Restock</th>
+                  <th className="px-4 py-2 text-right text-sm font-medium text-gray-600">Refund</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {items.map((item) => {
+                  const remaining = refundableQuantity(item);
+                  const selection = selections[item.id];
+                  return (
+                    <tr key={item.id}>
+                      <td className="px-4 py-2">{item.product_name}</td>
+                      <td className="px-4 py-2 text-right">{item.quantity}</td>
+                      <td className="px-4 py-2 text-right">{item.refunded_quantity}</td>
+                      <td className="px-4 py-2 text-right">
+                        <Input
+                          type="number"
+                          min="0"
+                          max={remaining}
+                          value={selection?.quantity || 0}
+                          onChange={(e) => updateSelection(item.id, {
+                            quantity: Math.min(remaining, Math.max(0, parseInt(e.target.value) || 0))
+                          })}
+                          disabled={!canRefund || remaining === 0}
+                          className="w-20 ml-auto text-right"
+                        />
+                      </td>
+                      <td className="px-4 py-2 text-center">
+                        <Checkbox
+                          checked={selection?.restock ?? true}
+                          onCheckedChange={(checked) => updateSelection(item.id, { restock: checked === true })}
+                          disabled={!canRefund || remaining === 0}
+                        />
+                      </td>
+                      <td className="px-4 py-2 text-right">
+                        ${refundAmountFor(item, selection?.quantity || 0, order.prices_include_tax).toFixed(2)}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+
+            {canRefund && (
+              <div className="mt-6 border-t pt-4 space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Refund To</label>
+                    <Select
+                      value={refundMethod}
+                      onValueChange={(value) => setRefundMethod(value as RefundMethod)}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="cash">Cash</SelectItem>
+                        <SelectItem value="card">Card</SelectItem>
+                        <SelectItem value="store_credit">Store Credit</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Reason</label>
+                    <Input
+                      value={reason}
+                      onChange={(e) => setReason(e.target.value)}
+                      placeholder="e.g. Faulty item"
+                    />
+                  </div>
+                </div>
+
+                <div className="flex justify-between items-center">
+                  <span className="text-lg font-bold">Refund Total: ${refundTotal.toFixed(2)}</span>
+                  <Button
+                    type="submit"
+                    className="bg-pos-primary hover:bg-pos-secondary"
+                    disabled={refundTotal <= 0 || refundMutation.isPending}
+                  >
+                    {refundMutation.isPending ? 'Processing...' : 'Process Refund'}
+                  </Button>
+                </div>
+              </div>
+            )}
+          </form>
+
+          <div className="bg-white rounded-lg shadow-sm p-6">
+            <h2 className="text-lg font-semibold text-gray-800 mb-4">Summary</h2>
+            <div className="space-y-2 text-sm">
+              <div className="flex justify-between">
+                <span>Order Total:</span>
+                <span>${Number(order.total_amount).toFixed(2)}</span>
+              </div>
+              <div className="flex justify-between text-red-600">
+                <span>Refunded:</span>
+                <span>-${refundedSoFar.toFixed(2)}</span>
+              </div>
+            </div>
+
+            <h3 className="font-medium text-gray-800 mt-6 mb-2">Refund History</h3>
+            {refunds.length === 0 ? (
+              <p className="text-sm text-gray-500">No refunds yet</p>
+            ) : (
+              <div className="space-y-3">
+                {refunds.map((refund) => (
+                  <div key={refund.id} className="border rounded p-3 text-sm">
+                    <div className="flex justify-between font-medium">
+                      <span>{refund.refund_number}</span>
+                      <span>${Number(refund.amount).toFixed(2)}</span>
+                    </div>
+                    <p className="text-gray-500">
+                      {format(new Date(refund.created_at), 'PPp')} · {refund.refund_method}
+                    </p>
+                    {refund.reason && <p className="text-gray-600">{refund.reason}</p>}
+                    <ul className="mt-1 text-gray-600">
+                      {refund.refund_items.map((refundItem) => (
+                        <li key={refundItem.id}>
+                          {refundItem.quantity} x {items.find(item => item.id === refundItem.order_item_id)?.product_name}
+                          {refundItem.restocked ? ' (restocked)' : ''}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      <ManagerApprovalDialog
+        request={approvalRequest}
+        onClose={() => setApprovalRequest(null)}
+        onApproved={(approval) => refundMutation.mutate(approval.id)}
+      />
+    </div>
+  );
+};
+
+export default ReturnsManagement;
@@ -0,0 +1,64 @@
+import React from 'react';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Settings as SettingsIcon } from 'lucide-react';
+import StoreSettings from './StoreSettings';
+import TaxSettings from './TaxSettings';
+import PrinterSettings from './PrinterSettings';
+import LoyaltySettings from './LoyaltySettings';
+import GiftCardSettings from './GiftCardSettings';
+import ApprovalSettings from './ApprovalSettings';
+import LocationSettings from './LocationSettings';
+import CostingSettings from './CostingSettings';
+
+const Settings: React.FC = () => {
+  return (
+    <div className="p-6">
+      <div className="mb-8">
+        <h1 className="text-2xl font-bold text-gray-800 flex items-center gap-2">
+          <SettingsIcon className="h-6 w-6 text-pos-primary" />
+          Settings
+        </h1>
+        <p className="text-gray-600 mt-1">Configure how your store prices, taxes, rewards and prints sales</p>
+      </div>
+
+      <Tabs defaultValue="store">
+        <TabsList className="mb-6">
+          <TabsTrigger value="store">Store</TabsTrigger>
+          <TabsTrigger value="tax">Tax</TabsTrigger>
+          <TabsTrigger value="locations">Locations</TabsTrigger>
+          <TabsTrigger value="costing">Costing</TabsTrigger>
+          <TabsTrigger value="loyalty">Loyalty</TabsTrigger>
+          <TabsTrigger value="gift-cards">Gift Cards</TabsTrigger>
+          <TabsTrigger value="approvals">Approvals</TabsTrigger>
+          <TabsTrigger value="printer">Printer</TabsTrigger>
+        </TabsList>
+        <TabsContent value="store">
+          <StoreSettings />
+        </TabsContent>
+        <TabsContent value="tax">
+          <TaxSettings />
+        </TabsContent>
+        <TabsContent value="locations">
+          <LocationSettings />
+        </TabsContent>
+        <TabsContent value="costing">
+          <CostingSettings />
+        </TabsContent>
+        <TabsContent value="loyalty">
+          <LoyaltySettings />
+        </TabsContent>
+        <TabsContent value="gift-cards">
+          <GiftCardSettings />
+        </TabsContent>
+        <TabsContent value="approvals">
+          <ApprovalSettings />
+        </TabsContent>
+        <TabsContent value="printer">
+          <PrinterSettings />
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+};
+
+export default Settings;
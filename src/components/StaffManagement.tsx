@@ -0,0 +1,136 @@
+import React from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Checkbox } from '@/components/ui/checkbox';
+import { toast } from 'sonner';
+import { UserCog } from 'lucide-react';
+import { useAuth } from '@/hooks/use-auth';
+import { privilegeRole, Role, ROLE_LABELS, ROLE_PRIVILEGES, ROLES } from '@/lib/roles';
+import { AUDIT_SOURCE_HEADER } from '@/lib/audit';
+
+// Staff accounts and the roles granted to them. Accounts are created by
+// signing up through Supabase Auth; this page only hands out roles.
+const StaffManagement: React.FC = () => {
+  const queryClient = useQueryClient();
+  const { session } = useAuth();
+
+  const { data: staff = [], isLoading } = useQuery({
+    queryKey: ['staff'],
+    queryFn: async () => {
+      const [profilesResult, grantsResult] = await Promise.all([
+        supabase.from('profiles').select('id, full_name, username').order('full_name'),
+        supabase.from('grants').select('*')
+      ]);
+
+      if (profilesResult.error) throw profilesResult.error;
+      if (grantsResult.error) throw grantsResult.error;
+
+      return profilesResult.data.map(profile => ({
+        ...profile,
+        grants: grantsResult.data.filter(grant => grant.granteeid === profile.id)
+      }));
+    }
+  });
+
+  const toggleRoleMutation = useMutation({
+    mutationFn: async ({ userId, role, grantId }: { userId: string; role: Role; grantId?: number }) => {
+      const { error } = grantId
+        ? await supabase
+            .from('grants')
+            .delete()
+            .eq('grantid', grantId)
+            .setHeader(AUDIT_SOURCE_HEADER, 'staff')
+        : await supabase
+            .from('grants')
+            .insert([{
+              granteeid: userId,
+              grantorid: session!.user.id,
+              privilege: ROLE_PRIVILEGES[role]
+            }])
+            .setHeader(AUDIT_SOURCE_HEADER, 'staff');
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['staff'] });
+      queryClient.invalidateQueries({ queryKey: ['auth'] });
+    },
+    onError: (error) => {
+      toast.error(`Failed to update roles: ${error.message}`);
+    }
+  });
+
+  return (
+    <div className="p-6">
+      <div className="mb-8">
+        <h1 className="text-2xl font-bold text-gray-800 flex items-center gap-2">
+          <UserCog className="h-6 w-6 text-pos-primary" />
+          Staff
+        </h1>
+        <p className="text-gray-600 mt-1">
+          Roles decide which pages staff can open. Managers can do everything except manage staff.
+        </p>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm overflow-hidden">
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-pos-primary"></div>
+          </div>
+        ) : staff.length === 0 ? (
+          <div className="text-center py-12 text-gray-500">
+            <UserCog className="h-12 w-12 mx-auto mb-4 text-gray-400" />
+            <p>No staff accounts yet</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Name</th>
+                  {ROLES.map(role => (
+                    <th key={role} className="px-6 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      {ROLE_LABELS[role]}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {staff.map(member => (
+                  <tr key={member.id}>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <p className="text-sm font-medium text-gray-900">{member.full_name || member.username || 'Unnamed'}</p>
+                      {member.username && member.full_name && (
+                        <p className="text-xs text-gray-500">{member.username}</p>
+                      )}
+                    </td>
+                    {ROLES.map(role => {
+                      const grant = member.grants.find(g => privilegeRole(g.privilege) === role);
+                      // Admins cannot take admin away from themselves.
+                      const isOwnAdmin = role === 'admin' && member.id === session?.user.id;
+                      return (
+                        <td key={role} className="px-6 py-4 text-center">
+                          <Checkbox
+                            checked={!!grant}
+                            disabled={toggleRoleMutation.isPending || (isOwnAdmin && !!grant)}
+                            onCheckedChange={() => toggleRoleMutation.mutate({
+                              userId: member.id,
+                              role,
+                              grantId: grant?.grantid
+                            })}
+                          />
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default StaffManagement;
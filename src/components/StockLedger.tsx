@@ -0,0 +1,345 @@
+import React, { useState } from 'react';
+import { useQuery, keepPreviousData } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { AlertTriangle, ArrowLeftRight, CheckCircle2, ChevronLeft, ChevronRight } from 'lucide-react';
+import { endOfDay, format, parseISO, startOfDay } from 'date-fns';
+import {
+  formatStockChange,
+  STOCK_MOVEMENT_REASON_LABELS,
+  STOCK_MOVEMENT_REFERENCE_LABELS
+} from '@/lib/stock';
+import { StockMovementReason } from '@/types/stock';
+import { useLocations } from '@/hooks/use-locations';
+
+const PAGE_SIZE = 25;
+
+interface MovementFilters {
+  productId: string;
+  locationId: string;
+  reason: string;
+  start: string;
+  end: string;
+}
+
+// Every stock movement, per product or across the shop, and any product
+// whose on-hand quantity no longer matches its ledger.
+const StockLedger: React.FC = () => {
+  const [page, setPage] = useState(0);
+  const [filters, setFilters] = useState<MovementFilters>({
+    productId: 'all',
+    locationId: 'all',
+    reason: 'all',
+    start: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
+    end: new Date().toISOString().split('T')[0]
+  });
+
+  const { data: products = [] } = useQuery({
+    queryKey: ['products', 'options'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('products')
+        .select('id, product_name')
+        .order('product_name');
+
+      if (error) throw error;
+      return data;
+    }
+  });
+
+  const { data: locations = [] } = useLocations();
+
+  const { data: drift = [] } = useQuery({
+    queryKey: ['stock-movements', 'reconciliation'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('stock_reconciliation')
+        .select('*')
+        .neq('difference', 0)
+        .order('product_name');
+
+      if (error) throw error;
+      return data;
+    }
+  });
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['stock-movements', filters, page],
+    queryFn: async () => {
+      let query = supabase
+        .from('stock_movements')
+        .select('*, product:products(product_name, sku), location:locations(name)', { count: 'exact' });
+
+      if (filters.productId !== 'all') {
+        query = query.eq('product_id', Number(filters.productId));
+      }
+      if (filters.locationId !== 'all') {
+        query = query.eq('location_id', Number(filters.locationId));
+      }
+      if (filters.reason !== 'all') {
+        query = query.eq('reason', filters.reason);
+      }
+      if (filters.start) {
+        query = query.gte('created_at', startOfDay(parseISO(filters.start)).toISOString());
+      }
+      if (filters.end) {
+        query = query.lte('created_at', endOfDay(parseISO(filters.end)).toISOString());
+      }
+
+      const { data, error, count } = await query
+        .order('id', { ascending: false })
+        .range(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1);
+
+      if (error) throw error;
+      return { movements: data, count: count || 0 };
+    },
+    placeholderData: keepPreviousData
+  });
+
+  const movements = data?.movements || [];
+  const totalCount = data?.count || 0;
+  const pageCount = Math.max(1, Math.ceil(totalCount / PAGE_SIZE));
+
+  const updateFilters = (changes: Partial<MovementFilters>) => {
+    setFilters(prev => ({ ...prev, ...changes }));
+    setPage(0);
+  };
+
+  return (
+    <div className="p-6">
+      <div className="mb-8">
+        <h1 className="text-2xl font-bold text-gray-800 flex items-center gap-2">
+          <ArrowLeftRight className="h-6 w-6 text-pos-primary" />
+          Stock Ledger
+        </h1>
+        <p className="text-gray-600 mt-1">Every sale, purchase, production run, return, transfer and adjustment of stock</p>
+      </div>
+
+      {drift.length === 0 ? (
+        <div className="flex items-center gap-2 text-sm text-green-700 bg-green-50 rounded-lg p-4 mb-6">
+          <CheckCircle2 className="h-4 w-4" />
+          On-hand stock matches the ledger for every product.
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow-sm p-6 mb-6">
+          <h2 className="text-lg font-semibold text-gray-800 flex items-center gap-2 mb-4">
+            <AlertTriangle className="h-5 w-5 text-amber-500" />
+            Out of Balance
+          </h2>
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Product</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">On Hand</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Ledger</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Difference</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {drift.map(row => (
+                <tr
+                  key={row.product_id}
+                  className="hover:bg-gray-50 cursor-pointer"
+                  onClick={() => updateFilters({ productId: String(row.product_id), start: '', end: '' })}
+                >
+                  <td className="px-6 py-4 whitespace-nowrap text-sm">
+                    <p className="font-medium text-gray-900">{row.product_name}</p>
+                    <p className="text-gray-500">{row.sku}</p>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">{row.stock_quantity}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">{row.ledger_quantity}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-right font-medium text-red-600">
+                    {formatStockChange(Number(row.difference))}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow-sm p-6">
+        {/* Filters */}
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-4 mb-6">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Product</label>
+            <Select
+              value={filters.productId}
+              onValueChange={(value) => updateFilters({ productId: value })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Products</SelectItem>
+                {products.map(product => (
+                  <SelectItem key={product.id} value={String(product.id)}>
+                    {product.product_name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Location</label>
+            <Select
+              value={filters.locationId}
+              onValueChange={(value) => updateFilters({ locationId: value })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Locations</SelectItem>
+                {locations.map(location => (
+                  <SelectItem key={location.id} value={String(location.id)}>
+                    {location.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Reason</label>
+            <Select
+              value={filters.reason}
+              onValueChange={(value) => updateFilters({ reason: value })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All</SelectItem>
+                {(Object.keys(STOCK_MOVEMENT_REASON_LABELS) as StockMovementReason[]).map(reason => (
+                  <SelectItem key={reason} value={reason}>{STOCK_MOVEMENT_REASON_LABELS[reason]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Start Date</label>
+            <Input
+              type="date"
+              value={filters.start}
+              onChange={(e) => updateFilters({ start: e.target.value })}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">End Date</label>
+            <Input
+              type="date"
+              value={filters.end}
+              onChange={(e) => updateFilters({ end: e.target.value })}
+            />
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-pos-primary"></div>
+          </div>
+        ) : movements.length === 0 ? (
+          <div className="text-center py-12 text-gray-500">No stock movements match these filters</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">When</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Product</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Location</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Reason</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Reference</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Change</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">On Hand</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Cost</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">By</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {movements.map(movement => {
+                  const reason = movement.reason as StockMovementReason;
+                  const referenceLabel = STOCK_MOVEMENT_REFERENCE_LABELS[reason];
+                  return (
+                    <tr key={movement.id}>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {format(new Date(movement.created_at), 'PPp')}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {movement.product?.product_name}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {movement.location?.name}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {STOCK_MOVEMENT_REASON_LABELS[reason] ?? movement.reason}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-500">
+                        {movement.reference_id && referenceLabel && `${referenceLabel} #${movement.reference_id}`}
+                        {movement.note && <p className="text-xs">{movement.note}</p>}
+                      </td>
+                      <td className={`px-6 py-4 whitespace-nowrap text-sm text-right font-medium ${movement.quantity < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                        {formatStockChange(movement.quantity)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                        {Number(movement.quantity_after)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                        {movement.cost_amount !== null && (
+                          <>
+                            ${Number(movement.cost_amount).toFixed(2)}
+                            <p className="text-xs text-gray-500">${Number(movement.unit_cost).toFixed(2)} each</p>
+                          </>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {movement.created_by_name || 'System'}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {/* Pagination */}
+        <div className="flex justify-between items-center mt-6">
+          <span className="text-sm text-gray-600">
+            {totalCount} movement{totalCount === 1 ? '' : 's'} · Page {page + 1} of {pageCount}
+          </span>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage(prev => prev - 1)}
+              disabled={page === 0}
+            >
+              <ChevronLeft className="h-4 w-4 mr-1" />
+              Previous
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage(prev => prev + 1)}
+              disabled={page + 1 >= pageCount}
+            >
+              Next
+              <ChevronRight className="h-4 w-4 ml-1" />
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StockLedger;
@@ -0,0 +1,414 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Json } from '@/integrations/supabase/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { toast } from 'sonner';
+import { ArrowRight, PackageCheck, Plus, Send, Trash2, Truck, XCircle } from 'lucide-react';
+import { format } from 'date-fns';
+import { AUDIT_SOURCE_HEADER } from '@/lib/audit';
+import { stockAt } from '@/lib/locations';
+import { TRANSFER_STATUS_CLASSES, TRANSFER_STATUS_LABELS } from '@/lib/transfers';
+import { useLocations } from '@/hooks/use-locations';
+import { StockTransferStatus } from '@/types/transfer';
+
+interface TransferLine {
+  productId: number;
+  quantity: number;
+}
+
+const EMPTY_FORM = {
+  fromLocationId: '',
+  toLocationId: '',
+  productId: '',
+  quantity: '1',
+  notes: ''
+};
+
+// Stock sent between locations. Dispatching takes the stock out of the
+// source straight away; it reaches the destination when it is received.
+const StockTransfers: React.FC = () => {
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [lines, setLines] = useState<TransferLine[]>([]);
+
+  const { data: locations = [] } = useLocations();
+  const activeLocations = locations.filter(location => location.is_active);
+
+  const { data: products = [] } = useQuery({
+    queryKey: ['products', 'stock-levels'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('products')
+        .select('id, product_name, sku, stock_levels(location_id, quantity)')
+        .eq('is_gift_card', false)
+        .order('product_name');
+
+      if (error) throw error;
+      return data;
+    }
+  });
+
+  const { data: transfers = [], isLoading } = useQuery({
+    queryKey: ['stock-transfers'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('stock_transfers')
+        .select(`
+          *,
+          from_location:locations!from_location_id(name),
+          to_location:locations!to_location_id(name),
+          lines:stock_transfer_lines(id, quantity, product:products(product_name, sku))
+        `)
+        .order('dispatched_at', { ascending: false });
+
+      if (error) throw error;
+      return data;
+    }
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['stock-transfers'] });
+    queryClient.invalidateQueries({ queryKey: ['products'] });
+    queryClient.invalidateQueries({ queryKey: ['stock-movements'] });
+  };
+
+  const dispatchMutation = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase
+        .rpc('dispatch_transfer', {
+          p_from_location_id: Number(form.fromLocationId),
+          p_to_location_id: Number(form.toLocationId),
+          p_items: lines.map(line => ({ product_id: line.productId, quantity: line.quantity })) as unknown as Json,
+          p_notes: form.notes.trim() || undefined
+        })
+        .setHeader(AUDIT_SOURCE_HEADER, 'transfers');
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      setForm(prev => ({ ...EMPTY_FORM, fromLocationId: prev.fromLocationId }));
+      setLines([]);
+      toast.success('Transfer dispatched');
+    },
+    onError: (error) => {
+      toast.error(`Failed to dispatch transfer: ${error.message}`);
+    }
+  });
+
+  const receiveMutation = useMutation({
+    mutationFn: async (transferId: number) => {
+      const { error } = await supabase
+        .rpc('receive_transfer', { p_transfer_id: transferId })
+        .setHeader(AUDIT_SOURCE_HEADER, 'transfers');
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success('Transfer received');
+    },
+    onError: (error) => {
+      toast.error(`Failed to receive transfer: ${error.message}`);
+    }
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (transferId: number) => {
+      const { error } = await supabase
+        .rpc('cancel_transfer', { p_transfer_id: transferId })
+        .setHeader(AUDIT_SOURCE_HEADER, 'transfers');
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success('Transfer cancelled');
+    },
+    onError: (error) => {
+      toast.error(`Failed to cancel transfer: ${error.message}`);
+    }
+  });
+
+  const sourceId = form.fromLocationId ? Number(form.fromLocationId) : undefined;
+  const productById = (id: number) => products.find(product => product.id === id);
+  const available = (productId: number) => stockAt(productById(productId)?.stock_levels, sourceId);
+
+  const handleAddLine = () => {
+    const productId = Number(form.productId);
+    const quantity = parseFloat(form.quantity);
+    if (!productId || isNaN(quantity) || quantity <= 0) {
+      toast.error('Select a product and a quantity above zero');
+      return;
+    }
+
+    const existing = lines.find(line => line.productId === productId);
+    const total = (existing?.quantity ?? 0) + quantity;
+    if (sourceId && total > available(productId)) {
+      toast.error(`Only ${available(productId)} in stock at the source location`);
+      return;
+    }
+
+    setLines(prev => existing
+      ? prev.map(line => line.productId === productId ? { ...line, quantity: total } : line)
+      : [...prev, { productId, quantity }]);
+    setForm(prev => ({ ...prev, productId: '', quantity: '1' }));
+  };
+
+  const handleDispatch = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.fromLocationId || !form.toLocationId) {
+      toast.error('Choose where the stock is going from and to');
+      return;
+    }
+    if (form.fromLocationId === form.toLocationId) {
+      toast.error('A transfer needs two different locations');
+      return;
+    }
+    if (lines.length === 0) {
+      toast.error('Add at least one product');
+      return;
+    }
+    dispatchMutation.mutate();
+  };
+
+  return (
+    <div className="p-6">
+      <div className="mb-8">
+        <h1 className="text-2xl font-bold text-gray-800 flex items-center gap-2">
+          <Truck className="h-6 w-6 text-pos-primary" />
+          Stock Transfers
+        </h1>
+        <p className="text-gray-600 mt-1">Move stock between the shops, warehouse and production floor</p>
+      </div>
+
+      <form onSubmit={handleDispatch} className="bg-white rounded-lg shadow-sm p-6 mb-6">
+        <h2 className="text-lg font-semibold text-gray-800 mb-4">New Transfer</h2>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">From</label>
+            <Select
+              value={form.fromLocationId}
+              onValueChange={(value) => {
+                setForm(prev => ({ ...prev, fromLocationId: value }));
+                setLines([]);
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Select a location" />
+              </SelectTrigger>
+              <SelectContent>
+                {activeLocations.map(location => (
+                  <SelectItem key={location.id} value={String(location.id)}>{location.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">To</label>
+            <Select
+              value={form.toLocationId}
+              onValueChange={(value) => setForm(prev => ({ ...prev, toLocationId: value }))}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Select a location" />
+              </SelectTrigger>
+              <SelectContent>
+                {activeLocations
+                  .filter(location => String(location.id) !== form.fromLocationId)
+                  .map(location => (
+                    <SelectItem key={location.id} value={String(location.id)}>{location.name}</SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+            <Input
+              value={form.notes}
+              onChange={(e) => setForm(prev => ({ ...prev, notes: e.target.value }))}
+              placeholder="e.g. Weekend restock"
+            />
+          </div>
+        </div>
+
+        <div className="flex gap-2 mb-4">
+          <Select
+            value={form.productId}
+            onValueChange={(value) => setForm(prev => ({ ...prev, productId: value }))}
+            disabled={!sourceId}
+          >
+            <SelectTrigger className="flex-1">
+              <SelectValue placeholder={sourceId ? 'Select a product' : 'Choose where it is going from first'} />
+            </SelectTrigger>
+            <SelectContent>
+              {products
+                .filter(product => available(product.id) > 0)
+                .map(product => (
+                  <SelectItem key={product.id} value={String(product.id)}>
+                    {product.product_name} ({available(product.id)} available)
+                  </SelectItem>
+                ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="number"
+            min="0"
+            step="any"
+            value={form.quantity}
+            onChange={(e) => setForm(prev => ({ ...prev, quantity: e.target.value }))}
+            className="w-32"
+          />
+          <Button type="button" variant="outline" onClick={handleAddLine} disabled={!sourceId}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add
+          </Button>
+        </div>
+
+        {lines.length > 0 && (
+          <div className="space-y-2 mb-4">
+            {lines.map(line => (
+              <div key={line.productId} className="p-3 bg-gray-50 rounded-lg flex justify-between items-center">
+                <div>
+                  <p className="font-medium text-gray-800">{productById(line.productId)?.product_name}</p>
+                  <p className="text-sm text-gray-500">{productById(line.productId)?.sku}</p>
+                </div>
+                <div className="flex items-center gap-3">
+                  <span className="font-medium text-gray-900">{line.quantity}</span>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setLines(prev => prev.filter(other => other.productId !== line.productId))}
+                    className="text-red-500 hover:text-red-600 hover:bg-red-50"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <Button
+          type="submit"
+          className="bg-pos-primary hover:bg-pos-secondary"
+          disabled={dispatchMutation.isPending || lines.length === 0}
+        >
+          <Send className="h-4 w-4 mr-2" />
+          {dispatchMutation.isPending ? 'Dispatching...' : 'Dispatch'}
+        </Button>
+      </form>
+
+      <div className="bg-white rounded-lg shadow-sm overflow-hidden">
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-pos-primary"></div>
+          </div>
+        ) : transfers.length === 0 ? (
+          <div className="text-center py-12 text-gray-500">
+            <Truck className="h-12 w-12 mx-auto mb-4 text-gray-400" />
+            <p>No transfers yet</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Transfer</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Route</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Products</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Dispatched</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Received</th>
+                  <th className="px-6 py-3"></th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {transfers.map(transfer => {
+                  const status = transfer.status as StockTransferStatus;
+                  return (
+                    <tr key={transfer.id}>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        <p className="font-medium text-gray-900">#{transfer.id}</p>
+                        {transfer.notes && <p className="text-gray-500">{transfer.notes}</p>}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        <span className="flex items-center gap-1">
+                          {transfer.from_location?.name}
+                          <ArrowRight className="h-4 w-4 text-gray-400" />
+                          {transfer.to_location?.name}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-900">
+                        {transfer.lines.map(line => (
+                          <p key={line.id}>{Number(line.quantity)} × {line.product?.product_name}</p>
+                        ))}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {format(new Date(transfer.dispatched_at), 'PPp')}
+                        {transfer.dispatched_by_name && <p>{transfer.dispatched_by_name}</p>}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        <span className={`px-2 py-1 rounded-full text-xs font-medium ${TRANSFER_STATUS_CLASSES[status] ?? ''}`}>
+                          {TRANSFER_STATUS_LABELS[status] ?? transfer.status}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {transfer.received_at && format(new Date(transfer.received_at), 'PPp')}
+                        {transfer.received_by_name && <p>{transfer.received_by_name}</p>}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right">
+                        {status === 'dispatched' && (
+                          <div className="flex justify-end gap-2">
+                            <Button
+                              size="sm"
+                              className="bg-pos-primary hover:bg-pos-secondary"
+                              onClick={() => {
+                                if (window.confirm(`Receive transfer #${transfer.id} into ${transfer.to_location?.name}?`)) {
+                                  receiveMutation.mutate(transfer.id);
+                                }
+                              }}
+                              disabled={receiveMutation.isPending}
+                            >
+                              <PackageCheck className="h-4 w-4 mr-1" />
+                              Receive
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => {
+                                if (window.confirm(`Cancel transfer #${transfer.id}? The stock goes back to ${transfer.from_location?.name}.`)) {
+                                  cancelMutation.mutate(transfer.id);
+                                }
+                              }}
+                              disabled={cancelMutation.isPending}
+                            >
+                              <XCircle className="h-4 w-4 mr-1" />
+                              Cancel
+                            </Button>
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default StockTransfers;
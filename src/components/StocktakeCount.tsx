@@ -0,0 +1,375 @@
+import React, { useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { toast } from 'sonner';
+import { ArrowLeft, CheckCircle2, Search, XCircle } from 'lucide-react';
+import { format } from 'date-fns';
+import { useAuth } from '@/hooks/use-auth';
+import { AUDIT_SOURCE_HEADER } from '@/lib/audit';
+import {
+  lineExpected,
+  lineVariance,
+  STOCKTAKE_STATUS_CLASSES,
+  STOCKTAKE_STATUS_LABELS,
+  summariseStocktake
+} from '@/lib/stocktake';
+import { formatStockChange } from '@/lib/stock';
+import { StocktakeLineRow, StocktakeStatus } from '@/types/stocktake';
+
+type CountedLine = StocktakeLineRow & {
+  product: { product_name: string; sku: string; category: string | null } | null;
+};
+
+type LineFilter = 'all' | 'uncounted' | 'variance';
+
+// One stocktake: enter counts while it is open, review the variances and
+// their value, and approve it to post them to stock.
+const StocktakeCount: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const stocktakeId = Number(id);
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { hasRole } = useAuth();
+  const [search, setSearch] = useState('');
+  const [lineFilter, setLineFilter] = useState<LineFilter>('all');
+  // Counts typed but not yet saved, by line id.
+  const [drafts, setDrafts] = useState<Record<number, string>>({});
+
+  const { data: stocktake, isLoading } = useQuery({
+    queryKey: ['stocktakes', stocktakeId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('stocktakes')
+        .select('*, location:locations(name)')
+        .eq('id', stocktakeId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: Number.isFinite(stocktakeId)
+  });
+
+  const { data: lines = [] } = useQuery({
+    queryKey: ['stocktakes', stocktakeId, 'lines'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('stocktake_lines')
+        .select('*, product:products(product_name, sku, category)')
+        .eq('stocktake_id', stocktakeId);
+
+      if (error) throw error;
+      return (data as unknown as CountedLine[]).sort((a, b) =>
+        (a.product?.product_name ?? '').localeCompare(b.product?.product_name ?? '')
+      );
+    },
+    enabled: Number.isFinite(stocktakeId)
+  });
+
+  const saveCountMutation = useMutation({
+    mutationFn: async ({ lineId, counted }: { lineId: number; counted: number | null }) => {
+      const { error } = await supabase
+        .from('stocktake_lines')
+        .update({ counted_quantity: counted })
+        .eq('id', lineId)
+        .setHeader(AUDIT_SOURCE_HEADER, 'stocktake');
+
+      if (error) throw error;
+    },
+    onSuccess: (_, { lineId }) => {
+      setDrafts(prev => {
+        const next = { ...prev };
+        delete next[lineId];
+        return next;
+      });
+      queryClient.invalidateQueries({ queryKey: ['stocktakes', stocktakeId, 'lines'] });
+    },
+    onError: (error) => {
+      toast.error(`Failed to save count: ${error.message}`);
+    }
+  });
+
+  const approveMutation = useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase
+        .rpc('approve_stocktake', { p_stocktake_id: stocktakeId })
+        .setHeader(AUDIT_SOURCE_HEADER, 'stocktake');
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (posted) => {
+      queryClient.invalidateQueries({ queryKey: ['stocktakes'] });
+      queryClient.invalidateQueries({ queryKey: ['products'] });
+      queryClient.invalidateQueries({ queryKey: ['stock-movements'] });
+      toast.success(`Stocktake approved: ${posted} adjustment${posted === 1 ? '' : 's'} posted`);
+    },
+    onError: (error) => {
+      toast.error(`Failed to approve stocktake: ${error.message}`);
+    }
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase
+        .rpc('cancel_stocktake', { p_stocktake_id: stocktakeId })
+        .setHeader(AUDIT_SOURCE_HEADER, 'stocktake');
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['stocktakes'] });
+      toast.success('Stocktake cancelled');
+    },
+    onError: (error) => {
+      toast.error(`Failed to cancel stocktake: ${error.message}`);
+    }
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-pos-primary"></div>
+      </div>
+    );
+  }
+
+  if (!stocktake) {
+    return (
+      <div className="flex flex-col items-center justify-center p-12">
+        <h1 className="text-2xl font-bold text-gray-800 mb-4">Stocktake Not Found</h1>
+        <Button onClick={() => navigate('/stocktake')}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back to Stocktakes
+        </Button>
+      </div>
+    );
+  }
+
+  const status = stocktake.status as StocktakeStatus;
+  const isOpen = status === 'counting';
+  const summary = summariseStocktake(lines);
+
+  const saveCount = (line: CountedLine) => {
+    const draft = drafts[line.id];
+    if (draft === undefined) return;
+
+    const counted = draft.trim() === '' ? null : Number(draft);
+    if (counted !== null && (isNaN(counted) || counted < 0)) {
+      toast.error('A count must be zero or more');
+      return;
+    }
+    if (counted === (line.counted_quantity === null ? null : Number(line.counted_quantity))) {
+      setDrafts(prev => {
+        const next = { ...prev };
+        delete next[line.id];
+        return next;
+      });
+      return;
+    }
+    saveCountMutation.mutate({ lineId: line.id, counted });
+  };
+
+  const handleApprove = () => {
+    const uncounted = summary.lineCount - summary.countedCount;
+    const message = uncounted > 0
+      ? `${uncounted} product${uncounted === 1 ? ' has' : 's have'} not been counted and will be left as they are. Post ${summary.varianceLines} adjustment${summary.varianceLines === 1 ? '' : 's'}?`
+      : `Post ${summary.varianceLines} adjustment${summary.varianceLines === 1 ? '' : 's'} to stock?`;
+    if (!window.confirm(message)) {
+      return;
+    }
+    approveMutation.mutate();
+  };
+
+  const handleCancel = () => {
+    if (!window.confirm('Cancel this stocktake? Nothing will be posted to stock.')) {
+      return;
+    }
+    cancelMutation.mutate();
+  };
+
+  const query = search.trim().toLowerCase();
+  const visibleLines = lines.filter(line => {
+    const variance = lineVariance(line);
+    if (lineFilter === 'uncounted' && variance !== null) return false;
+    if (lineFilter === 'variance' && !variance) return false;
+    return !query
+      || line.product?.product_name.toLowerCase().includes(query)
+      || line.product?.sku.toLowerCase().includes(query);
+  });
+
+  return (
+    <div className="p-6">
+      <div className="flex justify-between items-center mb-6">
+        <Button variant="outline" onClick={() => navigate('/stocktake')}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back to Stocktakes
+        </Button>
+        {isOpen && (
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={handleCancel} disabled={cancelMutation.isPending}>
+              <XCircle className="h-4 w-4 mr-2" />
+              Cancel Stocktake
+            </Button>
+            {hasRole('manager') && (
+              <Button
+                className="bg-pos-primary hover:bg-pos-secondary"
+                onClick={handleApprove}
+                disabled={approveMutation.isPending || summary.countedCount === 0}
+              >
+                <CheckCircle2 className="h-4 w-4 mr-2" />
+                {approveMutation.isPending ? 'Posting...' : 'Approve & Post'}
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm p-6 mb-6">
+        <div className="flex items-center gap-3">
+          <h1 className="text-2xl font-bold text-gray-800">Stocktake #{stocktake.id}</h1>
+          <span className={`px-2 py-1 rounded-full text-xs font-medium ${STOCKTAKE_STATUS_CLASSES[status] ?? ''}`}>
+            {STOCKTAKE_STATUS_LABELS[status] ?? stocktake.status}
+          </span>
+        </div>
+        <p className="text-gray-600 mt-1">
+          {stocktake.location?.name} · {stocktake.category ?? 'All products'} · Started {format(new Date(stocktake.created_at), 'PPp')}
+          {stocktake.created_by_name && ` by ${stocktake.created_by_name}`}
+          {stocktake.approved_at && ` · Approved ${format(new Date(stocktake.approved_at), 'PPp')}`}
+          {stocktake.approved_by_name && ` by ${stocktake.approved_by_name}`}
+        </p>
+        {stocktake.notes && <p className="text-gray-600 mt-1">{stocktake.notes}</p>}
+        {isOpen && !hasRole('manager') && (
+          <p className="text-sm text-gray-500 mt-2">A manager approves the count to post it to stock.</p>
+        )}
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-6">
+          <div>
+            <p className="text-sm text-gray-600">Counted</p>
+            <p className="text-xl font-semibold">{summary.countedCount} of {summary.lineCount}</p>
+          </div>
+          <div>
+            <p className="text-sm text-gray-600">Net Variance</p>
+            <p className="text-xl font-semibold">
+              {formatStockChange(summary.netUnits)} units
+              <span className="text-sm text-gray-500 ml-2">({summary.varianceLines} products)</span>
+            </p>
+          </div>
+          <div>
+            <p className="text-sm text-gray-600">Net Value</p>
+            <p className={`text-xl font-semibold ${summary.netValue < 0 ? 'text-red-600' : 'text-gray-900'}`}>
+              {summary.netValue < 0 ? '-' : ''}${Math.abs(summary.netValue).toFixed(2)}
+            </p>
+          </div>
+          <div>
+            <p className="text-sm text-gray-600">Shortage Value</p>
+            <p className="text-xl font-semibold text-red-600">${summary.shortageValue.toFixed(2)}</p>
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm p-6">
+        <div className="flex flex-col md:flex-row gap-4 mb-6">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+            <Input
+              placeholder="Search by name or SKU..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="pl-10"
+            />
+          </div>
+          <Select value={lineFilter} onValueChange={(value) => setLineFilter(value as LineFilter)}>
+            <SelectTrigger className="md:w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Products</SelectItem>
+              <SelectItem value="uncounted">Not Counted</SelectItem>
+              <SelectItem value="variance">With Variance</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {visibleLines.length === 0 ? (
+          <div className="text-center py-12 text-gray-500">No products match</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Product</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Expected</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Counted</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Variance</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Value</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Counted By</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {visibleLines.map(line => {
+                  const variance = lineVariance(line);
+                  const value = variance === null ? null : variance * Number(line.unit_value);
+                  return (
+                    <tr key={line.id}>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        <p className="font-medium text-gray-900">{line.product?.product_name}</p>
+                        <p className="text-gray-500">{line.product?.sku}</p>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                        {lineExpected(line)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right">
+                        {isOpen ? (
+                          <Input
+                            type="number"
+                            min="0"
+                            step="any"
+                            className="w-24 ml-auto text-right"
+                            value={drafts[line.id] ?? (line.counted_quantity === null ? '' : String(line.counted_quantity))}
+                            onChange={(e) => setDrafts(prev => ({ ...prev, [line.id]: e.target.value }))}
+                            onBlur={() => saveCount(line)}
+                            onKeyDown={(e) => {
+                              if (e.key === 'Enter') {
+                                e.currentTarget.blur();
+                              }
+                            }}
+                          />
+                        ) : (
+                          line.counted_quantity === null ? '—' : Number(line.counted_quantity)
+                        )}
+                      </td>
+                      <td className={`px-6 py-4 whitespace-nowrap text-sm text-right font-medium ${
+                        variance === null || variance === 0 ? 'text-gray-500' : variance < 0 ? 'text-red-600' : 'text-green-600'
+                      }`}>
+                        {variance === null ? '—' : formatStockChange(variance)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                        {value === null ? '—' : `${value < 0 ? '-' : ''}$${Math.abs(value).toFixed(2)}`}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {line.counted_by_name}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default StocktakeCount;
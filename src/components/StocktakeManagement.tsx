@@ -0,0 +1,220 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { toast } from 'sonner';
+import { ClipboardList, Plus } from 'lucide-react';
+import { format } from 'date-fns';
+import { AUDIT_SOURCE_HEADER } from '@/lib/audit';
+import { useLocations } from '@/hooks/use-locations';
+import { resolveLocation } from '@/lib/locations';
+import { STOCKTAKE_STATUS_CLASSES, STOCKTAKE_STATUS_LABELS } from '@/lib/stocktake';
+import { StocktakeRow, StocktakeStatus } from '@/types/stocktake';
+
+const ALL_CATEGORIES = 'all';
+
+// Past and open stocktakes, and the form to start a new one.
+const StocktakeManagement: React.FC = () => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState({ category: ALL_CATEGORIES, notes: '', locationId: null as number | null });
+  const { data: locations = [] } = useLocations();
+  const countLocation = resolveLocation(locations, form.locationId);
+
+  const { data: stocktakes = [], isLoading } = useQuery({
+    queryKey: ['stocktakes'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('stocktakes')
+        .select('*, location:locations(name)')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data;
+    }
+  });
+
+  const { data: categories = [] } = useQuery({
+    queryKey: ['products', 'categories'],
+    queryFn: async () => {
+      const { data, error } = await supabase.from('products').select('category');
+      if (error) throw error;
+      return Array.from(new Set(data.map(p => p.category).filter(Boolean) as string[])).sort();
+    }
+  });
+
+  const startMutation = useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase
+        .rpc('start_stocktake', {
+          p_category: form.category === ALL_CATEGORIES ? undefined : form.category,
+          p_notes: form.notes.trim() || undefined,
+          p_location_id: countLocation?.id
+        })
+        .setHeader(AUDIT_SOURCE_HEADER, 'stocktake');
+
+      if (error) throw error;
+      return data as unknown as StocktakeRow;
+    },
+    onSuccess: (stocktake) => {
+      queryClient.invalidateQueries({ queryKey: ['stocktakes'] });
+      setForm(prev => ({ ...prev, category: ALL_CATEGORIES, notes: '' }));
+      navigate(`/stocktake/${stocktake.id}`);
+    },
+    onError: (error) => {
+      toast.error(`Failed to start stocktake: ${error.message}`);
+    }
+  });
+
+  const hasOpenCount = stocktakes.some(stocktake => stocktake.status === 'counting');
+
+  return (
+    <div className="p-6">
+      <div className="mb-8">
+        <h1 className="text-2xl font-bold text-gray-800 flex items-center gap-2">
+          <ClipboardList className="h-6 w-6 text-pos-primary" />
+          Stocktake
+        </h1>
+        <p className="text-gray-600 mt-1">Count what is on the shelf and post the differences to stock</p>
+      </div>
+
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          startMutation.mutate();
+        }}
+        className="bg-white rounded-lg shadow-sm p-6 mb-6"
+      >
+        <h2 className="text-lg font-semibold text-gray-800 mb-4">New Stocktake</h2>
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Location</label>
+            <Select
+              value={countLocation ? String(countLocation.id) : undefined}
+              onValueChange={(value) => setForm(prev => ({ ...prev, locationId: Number(value) }))}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Select a location" />
+              </SelectTrigger>
+              <SelectContent>
+                {locations.filter(location => location.is_active).map(location => (
+                  <SelectItem key={location.id} value={String(location.id)}>{location.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Products to Count</label>
+            <Select value={form.category} onValueChange={(value) => setForm(prev => ({ ...prev, category: value }))}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_CATEGORIES}>All Products</SelectItem>
+                {categories.map(category => (
+                  <SelectItem key={category} value={category}>{category}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+            <Input
+              value={form.notes}
+              onChange={(e) => setForm(prev => ({ ...prev, notes: e.target.value }))}
+              placeholder="e.g. Month-end count"
+            />
+          </div>
+          <Button
+            type="submit"
+            className="bg-pos-primary hover:bg-pos-secondary"
+            disabled={startMutation.isPending}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            {startMutation.isPending ? 'Starting...' : 'Start Count'}
+          </Button>
+        </div>
+        {hasOpenCount && (
+          <p className="text-sm text-amber-600 mt-3">
+            A stocktake is already being counted. Counts overlapping the same products at the same location will each post their own variance.
+          </p>
+        )}
+      </form>
+
+      <div className="bg-white rounded-lg shadow-sm overflow-hidden">
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-pos-primary"></div>
+          </div>
+        ) : stocktakes.length === 0 ? (
+          <div className="text-center py-12 text-gray-500">
+            <ClipboardList className="h-12 w-12 mx-auto mb-4 text-gray-400" />
+            <p>No stocktakes yet</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Stocktake</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Started</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Location</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Products</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Approved</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {stocktakes.map(stocktake => {
+                  const status = stocktake.status as StocktakeStatus;
+                  return (
+                    <tr
+                      key={stocktake.id}
+                      className="hover:bg-gray-50 cursor-pointer"
+                      onClick={() => navigate(`/stocktake/${stocktake.id}`)}
+                    >
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        <p className="font-medium text-gray-900">#{stocktake.id}</p>
+                        {stocktake.notes && <p className="text-gray-500">{stocktake.notes}</p>}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {format(new Date(stocktake.created_at), 'PPp')}
+                        {stocktake.created_by_name && <p>{stocktake.created_by_name}</p>}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {stocktake.location?.name}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {stocktake.category ?? 'All Products'}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        <span className={`px-2 py-1 rounded-full text-xs font-medium ${STOCKTAKE_STATUS_CLASSES[status] ?? ''}`}>
+                          {STOCKTAKE_STATUS_LABELS[status] ?? stocktake.status}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {stocktake.approved_at && format(new Date(stocktake.approved_at), 'PPp')}
+                        {stocktake.approved_by_name && <p>{stocktake.approved_by_name}</p>}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default StocktakeManagement;
@@ -0,0 +1,227 @@
+import React, { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { toast } from 'sonner';
+import { AUDIT_SOURCE_HEADER } from '@/lib/audit';
+
+const EMPTY_FORM = {
+  store_name: '',
+  legal_name: '',
+  address: '',
+  phone: '',
+  email: '',
+  tax_id: '',
+  logo_url: '',
+  footer_text: '',
+  invoice_prefix: '',
+  time_zone: 'UTC'
+};
+
+const isTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+type StoreForm = typeof EMPTY_FORM;
+
+const StoreSettings: React.FC = () => {
+  const [form, setForm] = useState<StoreForm>(EMPTY_FORM);
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['store-settings-form'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('store_settings')
+        .select('*')
+        .eq('id', 1)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    }
+  });
+
+  useEffect(() => {
+    if (data) {
+      setForm({
+        store_name: data.store_name,
+        legal_name: data.legal_name || '',
+        address: data.address || '',
+        phone: data.phone || '',
+        email: data.email || '',
+        tax_id: data.tax_id || '',
+        logo_url: data.logo_url || '',
+        footer_text: data.footer_text || '',
+        invoice_prefix: data.invoice_prefix,
+        time_zone: data.time_zone
+      });
+    }
+  }, [data]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase
+        .from('store_settings')
+        .upsert({
+          id: 1,
+          store_name: form.store_name.trim(),
+          legal_name: form.legal_name.trim() || null,
+          address: form.address.trim() || null,
+          phone: form.phone.trim() || null,
+          email: form.email.trim() || null,
+          tax_id: form.tax_id.trim() || null,
+          logo_url: form.logo_url.trim() || null,
+          footer_text: form.footer_text.trim() || null,
+          invoice_prefix: form.invoice_prefix.trim(),
+          time_zone: form.time_zone.trim(),
+          updated_at: new Date().toISOString()
+        })
+        .setHeader(AUDIT_SOURCE_HEADER, 'settings');
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['store-settings'] });
+      queryClient.invalidateQueries({ queryKey: ['store-settings-form'] });
+      toast.success('Store details saved');
+    },
+    onError: (error) => {
+      toast.error(`Failed to save store details: ${error.message}`);
+    }
+  });
+
+  const handleChange = (
+    e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>
+  ) => {
+    const { name, value } = e.target;
+    setForm(prev => ({ ...prev, [name]: value }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.store_name.trim()) {
+      toast.error('Store name is required');
+      return;
+    }
+    if (!form.invoice_prefix.trim()) {
+      toast.error('Invoice prefix is required');
+      return;
+    }
+    if (!isTimeZone(form.time_zone.trim())) {
+      toast.error('Enter a time zone such as Europe/London');
+      return;
+    }
+    saveMutation.mutate();
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-pos-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-sm p-6 space-y-4 max-w-2xl">
+      <div>
+        <h2 className="text-lg font-semibold text-gray-800">Store Details</h2>
+        <p className="text-sm text-gray-600">Shown on invoices and printed receipts.</p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Store Name</label>
+          <Input name="store_name" value={form.store_name} onChange={handleChange} required />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Legal Name</label>
+          <Input name="legal_name" value={form.legal_name} onChange={handleChange} />
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Address</label>
+        <Textarea
+          name="address"
+          value={form.address}
+          onChange={handleChange}
+          placeholder="One line per row"
+          className="min-h-[80px]"
+        />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Phone</label>
+          <Input name="phone" value={form.phone} onChange={handleChange} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Email</label>
+          <Input name="email" type="email" value={form.email} onChange={handleChange} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Tax ID</label>
+          <Input name="tax_id" value={form.tax_id} onChange={handleChange} />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="md:col-span-2">
+          <label className="block text-sm font-medium text-gray-700 mb-1">Logo URL</label>
+          <Input name="logo_url" value={form.logo_url} onChange={handleChange} placeholder="https://..." />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Invoice Prefix</label>
+          <Input name="invoice_prefix" value={form.invoice_prefix} onChange={handleChange} required />
+          <p className="text-xs text-gray-500 mt-1">
+            Next invoice: {form.invoice_prefix}{String(data?.next_invoice_number ?? 1).padStart(6, '0')}
+          </p>
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Time Zone</label>
+        <Input
+          name="time_zone"
+          value={form.time_zone}
+          onChange={handleChange}
+          placeholder={Intl.DateTimeFormat().resolvedOptions().timeZone}
+          required
+        />
+        <p className="text-xs text-gray-500 mt-1">Happy hours run on this clock, e.g. Europe/London.</p>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Footer Text</label>
+        <Textarea
+          name="footer_text"
+          value={form.footer_text}
+          onChange={handleChange}
+          placeholder="e.g. Thank you for your business!"
+          className="min-h-[60px]"
+        />
+      </div>
+
+      <div className="flex justify-end">
+        <Button
+          type="submit"
+          className="bg-pos-primary hover:bg-pos-secondary"
+          disabled={saveMutation.isPending}
+        >
+          {saveMutation.isPending ? 'Saving...' : 'Save Store Details'}
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+export default StoreSettings;
@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { Check, ChevronsUpDown } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { cn } from '@/lib/utils';
+import { useSuppliers } from '@/hooks/use-suppliers';
+
+interface SupplierComboboxProps {
+  value: number | null;
+  onChange: (supplierId: number | null) => void;
+  placeholder?: string;
+  disabled?: boolean;
+  className?: string;
+}
+
+// Picks a supplier from the directory by name. Inactive suppliers are only
+// listed while already chosen.
+const SupplierCombobox: React.FC<SupplierComboboxProps> = ({
+  value,
+  onChange,
+  placeholder = 'Select a supplier',
+  disabled,
+  className,
+}) => {
+  const [open, setOpen] = useState(false);
+  const { data: suppliers = [] } = useSuppliers();
+  const selected = suppliers.find(supplier => supplier.id === value);
+  const options = suppliers.filter(supplier => supplier.is_active || supplier.id === value);
+
+  const choose = (supplierId: number | null) => {
+    onChange(supplierId);
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          type="button"
+          variant="outline"
+          role="combobox"
+          aria-expanded={open}
+          disabled={disabled}
+          className={cn('w-full justify-between font-normal', className)}
+        >
+          <span className={cn('truncate', !selected && 'text-muted-foreground')}>
+            {selected ? selected.name : placeholder}
+          </span>
+          <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[--radix-popover-trigger-width] p-0" align="start">
+        <Command>
+          <CommandInput placeholder="Search suppliers..." />
+          <CommandList>
+            <CommandEmpty>No supplier found</CommandEmpty>
+            <CommandGroup>
+              {value !== null && (
+                <CommandItem value="__none" onSelect={() => choose(null)}>
+                  <span className="text-muted-foreground">No supplier</span>
+                </CommandItem>
+              )}
+              {options.map(supplier => (
+                <CommandItem
+                  key={supplier.id}
+                  value={`${supplier.name} ${supplier.id}`}
+                  onSelect={() => choose(supplier.id)}
+                >
+                  <Check className={cn('mr-2 h-4 w-4', supplier.id === value ? 'opacity-100' : 'opacity-0')} />
+                  {supplier.name}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default SupplierCombobox;
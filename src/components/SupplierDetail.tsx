@@ -0,0 +1,395 @@
+import React, { useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { toast } from 'sonner';
+import { ArrowLeft, Pencil, Plus, Trash2 } from 'lucide-react';
+import { AUDIT_SOURCE_HEADER } from '@/lib/audit';
+import { useSuppliers } from '@/hooks/use-suppliers';
+import { SupplierInsert, SupplierPriceRow } from '@/types/supplier';
+import SupplierDialog from './SupplierDialog';
+
+type PriceLine = SupplierPriceRow & {
+  product: { product_name: string; sku: string } | null;
+};
+
+type PriceChanges = Partial<Pick<SupplierPriceRow, 'unit_price' | 'supplier_sku'>>;
+
+// One supplier: its contact details and terms, and its price list. Prices
+// are in the supplier's currency and fill in new purchase order lines.
+const SupplierDetail: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const supplierId = Number(id);
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [newProductId, setNewProductId] = useState<string | undefined>(undefined);
+  const [newPrice, setNewPrice] = useState('');
+  // Values typed but not yet saved, by price id and field.
+  const [drafts, setDrafts] = useState<Record<number, { unit_price?: string; supplier_sku?: string }>>({});
+
+  const { data: suppliers = [], isLoading } = useSuppliers();
+  const supplier = suppliers.find(other => other.id === supplierId);
+
+  const { data: prices = [] } = useQuery({
+    queryKey: ['supplier-prices', supplierId, 'list'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('supplier_prices')
+        .select('*, product:products(product_name, sku)')
+        .eq('supplier_id', supplierId);
+
+      if (error) throw error;
+      return (data as unknown as PriceLine[]).sort((a, b) =>
+        (a.product?.product_name ?? '').localeCompare(b.product?.product_name ?? '')
+      );
+    },
+    enabled: Number.isFinite(supplierId)
+  });
+
+  const { data: products = [] } = useQuery({
+    queryKey: ['products', 'buyable'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('products')
+        .select('id, product_name, sku')
+        .eq('is_gift_card', false)
+        .order('product_name');
+
+      if (error) throw error;
+      return data;
+    }
+  });
+
+  const invalidatePrices = () => {
+    queryClient.invalidateQueries({ queryKey: ['supplier-prices'] });
+  };
+
+  const updateSupplierMutation = useMutation({
+    mutationFn: async (changes: SupplierInsert) => {
+      const { error } = await supabase
+        .from('suppliers')
+        .update({ ...changes, updated_at: new Date().toISOString() })
+        .eq('id', supplierId)
+        .setHeader(AUDIT_SOURCE_HEADER, 'suppliers');
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['suppliers'] });
+      setIsDialogOpen(false);
+      toast.success('Supplier updated');
+    },
+    onError: (error) => {
+      toast.error(`Failed to update supplier: ${error.message}`);
+    }
+  });
+
+  const toggleActiveMutation = useMutation({
+    mutationFn: async (isActive: boolean) => {
+      const { error } = await supabase
+        .from('suppliers')
+        .update({ is_active: isActive, updated_at: new Date().toISOString() })
+        .eq('id', supplierId)
+        .setHeader(AUDIT_SOURCE_HEADER, 'suppliers');
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['suppliers'] });
+    },
+    onError: (error) => {
+      toast.error(`Failed to update supplier: ${error.message}`);
+    }
+  });
+
+  const addPriceMutation = useMutation({
+    mutationFn: async ({ productId, unitPrice }: { productId: number; unitPrice: number }) => {
+      const { error } = await supabase
+        .from('supplier_prices')
+        .insert({ supplier_id: supplierId, product_id: productId, unit_price: unitPrice })
+        .setHeader(AUDIT_SOURCE_HEADER, 'suppliers');
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidatePrices();
+      setNewProductId(undefined);
+      setNewPrice('');
+    },
+    onError: (error) => {
+      toast.error(`Failed to add price: ${error.message}`);
+    }
+  });
+
+  const savePriceMutation = useMutation({
+    mutationFn: async ({ priceId, changes }: { priceId: number; changes: PriceChanges }) => {
+      const { error } = await supabase
+        .from('supplier_prices')
+        .update({ ...changes, updated_at: new Date().toISOString() })
+        .eq('id', priceId)
+        .setHeader(AUDIT_SOURCE_HEADER, 'suppliers');
+
+      if (error) throw error;
+    },
+    onSuccess: (_, { priceId }) => {
+      setDrafts(prev => {
+        const next = { ...prev };
+        delete next[priceId];
+        return next;
+      });
+      invalidatePrices();
+    },
+    onError: (error) => {
+      toast.error(`Failed to save price: ${error.message}`);
+    }
+  });
+
+  const removePriceMutation = useMutation({
+    mutationFn: async (priceId: number) => {
+      const { error } = await supabase
+        .from('supplier_prices')
+        .delete()
+        .eq('id', priceId)
+        .setHeader(AUDIT_SOURCE_HEADER, 'suppliers');
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidatePrices();
+    },
+    onError: (error) => {
+      toast.error(`Failed to remove price: ${error.message}`);
+    }
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-pos-primary"></div>
+      </div>
+    );
+  }
+
+  if (!supplier) {
+    return (
+      <div className="flex flex-col items-center justify-center p-12">
+        <h1 className="text-2xl font-bold text-gray-800 mb-4">Supplier Not Found</h1>
+        <Button onClick={() => navigate('/suppliers')}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back to Suppliers
+        </Button>
+      </div>
+    );
+  }
+
+  const pricedProductIds = new Set(prices.map(price => price.product_id));
+  const unpricedProducts = products.filter(product => !pricedProductIds.has(product.id));
+
+  const savePrice = (price: PriceLine, field: 'unit_price' | 'supplier_sku') => {
+    const draft = drafts[price.id]?.[field];
+    if (draft === undefined) return;
+
+    if (field === 'unit_price') {
+      const value = Number(draft);
+      if (draft.trim() === '' || isNaN(value) || value < 0) {
+        toast.error('A price must be zero or more');
+        return;
+      }
+      if (value !== Number(price.unit_price)) {
+        savePriceMutation.mutate({ priceId: price.id, changes: { unit_price: value } });
+        return;
+      }
+    } else if ((draft.trim() || null) !== price.supplier_sku) {
+      savePriceMutation.mutate({ priceId: price.id, changes: { supplier_sku: draft.trim() || null } });
+      return;
+    }
+    setDrafts(prev => ({ ...prev, [price.id]: { ...prev[price.id], [field]: undefined } }));
+  };
+
+  const handleAddPrice = (e: React.FormEvent) => {
+    e.preventDefault();
+    const unitPrice = Number(newPrice);
+    if (!newProductId) {
+      toast.error('Please select a product');
+      return;
+    }
+    if (newPrice.trim() === '' || isNaN(unitPrice) || unitPrice < 0) {
+      toast.error('A price must be zero or more');
+      return;
+    }
+    addPriceMutation.mutate({ productId: Number(newProductId), unitPrice });
+  };
+
+  return (
+    <div className="p-6">
+      <div className="flex justify-between items-center mb-6">
+        <Button variant="outline" onClick={() => navigate('/suppliers')}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back to Suppliers
+        </Button>
+        <div className="flex items-center gap-3">
+          <span className="text-sm text-gray-500">{supplier.is_active ? 'Active' : 'Inactive'}</span>
+          <Switch
+            checked={supplier.is_active}
+            onCheckedChange={(checked) => toggleActiveMutation.mutate(checked)}
+            disabled={toggleActiveMutation.isPending}
+          />
+          <Button variant="outline" onClick={() => setIsDialogOpen(true)}>
+            <Pencil className="h-4 w-4 mr-2" />
+            Edit
+          </Button>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm p-6 mb-6">
+        <h1 className="text-2xl font-bold text-gray-800">{supplier.name}</h1>
+        {supplier.notes && <p className="text-gray-600 mt-1">{supplier.notes}</p>}
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-6">
+          <div>
+            <p className="text-sm text-gray-600">Contact</p>
+            <p className="font-medium">{supplier.contact_name || '—'}</p>
+            {supplier.phone && <p className="text-sm text-gray-500">{supplier.phone}</p>}
+            {supplier.email && <p className="text-sm text-gray-500">{supplier.email}</p>}
+            {supplier.address && <p className="text-sm text-gray-500 whitespace-pre-line">{supplier.address}</p>}
+          </div>
+          <div>
+            <p className="text-sm text-gray-600">Payment Terms</p>
+            <p className="font-medium">{supplier.payment_terms || '—'}</p>
+          </div>
+          <div>
+            <p className="text-sm text-gray-600">Lead Time</p>
+            <p className="font-medium">
+              {supplier.lead_time_days === null ? '—' : `${supplier.lead_time_days} days`}
+            </p>
+          </div>
+          <div>
+            <p className="text-sm text-gray-600">Currency</p>
+            <p className="font-medium">{supplier.currency}</p>
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm p-6">
+        <h2 className="text-lg font-semibold text-gray-800 mb-4">Price List</h2>
+
+        <form onSubmit={handleAddPrice} className="flex flex-col md:flex-row gap-4 mb-6">
+          <Select value={newProductId} onValueChange={setNewProductId}>
+            <SelectTrigger className="md:flex-1">
+              <SelectValue placeholder="Select a product" />
+            </SelectTrigger>
+            <SelectContent>
+              {unpricedProducts.map(product => (
+                <SelectItem key={product.id} value={String(product.id)}>
+                  {product.product_name} ({product.sku})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="number"
+            min="0"
+            step="0.01"
+            value={newPrice}
+            onChange={(e) => setNewPrice(e.target.value)}
+            placeholder={`Unit price (${supplier.currency})`}
+            className="md:w-48"
+          />
+          <Button
+            type="submit"
+            className="bg-pos-primary hover:bg-pos-secondary"
+            disabled={addPriceMutation.isPending}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Price
+          </Button>
+        </form>
+
+        {prices.length === 0 ? (
+          <p className="text-gray-500">No prices yet</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Product</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Supplier SKU</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Unit Price ({supplier.currency})
+                  </th>
+                  <th className="px-6 py-3"></th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {prices.map(price => (
+                  <tr key={price.id}>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      <p className="font-medium text-gray-900">{price.product?.product_name}</p>
+                      <p className="text-gray-500">{price.product?.sku}</p>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      <Input
+                        className="w-40"
+                        value={drafts[price.id]?.supplier_sku ?? price.supplier_sku ?? ''}
+                        onChange={(e) => setDrafts(prev => ({
+                          ...prev,
+                          [price.id]: { ...prev[price.id], supplier_sku: e.target.value }
+                        }))}
+                        onBlur={() => savePrice(price, 'supplier_sku')}
+                      />
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-right">
+                      <Input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        className="w-28 ml-auto text-right"
+                        value={drafts[price.id]?.unit_price ?? String(price.unit_price)}
+                        onChange={(e) => setDrafts(prev => ({
+                          ...prev,
+                          [price.id]: { ...prev[price.id], unit_price: e.target.value }
+                        }))}
+                        onBlur={() => savePrice(price, 'unit_price')}
+                      />
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-right">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => removePriceMutation.mutate(price.id)}
+                        disabled={removePriceMutation.isPending}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <SupplierDialog
+        isOpen={isDialogOpen}
+        onClose={() => setIsDialogOpen(false)}
+        supplier={supplier}
+        onSave={(changes) => updateSupplierMutation.mutate(changes)}
+        isSubmitting={updateSupplierMutation.isPending}
+      />
+    </div>
+  );
+};
+
+export default SupplierDetail;
@@ -0,0 +1,189 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { toast } from 'sonner';
+import { SupplierInsert, SupplierRow } from '@/types/supplier';
+
+interface SupplierDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  supplier: SupplierRow | null;
+  onSave: (supplier: SupplierInsert) => void;
+  isSubmitting: boolean;
+}
+
+const EMPTY_FORM = {
+  name: '',
+  contact_name: '',
+  email: '',
+  phone: '',
+  address: '',
+  payment_terms: '',
+  lead_time_days: '',
+  currency: 'USD',
+  notes: ''
+};
+
+type SupplierForm = typeof EMPTY_FORM;
+
+// Adds a supplier to the directory or edits one.
+const SupplierDialog: React.FC<SupplierDialogProps> = ({
+  isOpen,
+  onClose,
+  supplier,
+  onSave,
+  isSubmitting,
+}) => {
+  const [form, setForm] = useState<SupplierForm>(EMPTY_FORM);
+
+  useEffect(() => {
+    if (isOpen) {
+      setForm(supplier ? {
+        name: supplier.name,
+        contact_name: supplier.contact_name ?? '',
+        email: supplier.email ?? '',
+        phone: supplier.phone ?? '',
+        address: supplier.address ?? '',
+        payment_terms: supplier.payment_terms ?? '',
+        lead_time_days: supplier.lead_time_days === null ? '' : String(supplier.lead_time_days),
+        currency: supplier.currency,
+        notes: supplier.notes ?? ''
+      } : EMPTY_FORM);
+    }
+  }, [isOpen, supplier]);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setForm(prev => ({ ...prev, [name]: value }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const currency = form.currency.trim().toUpperCase();
+    const leadTime = form.lead_time_days.trim() === '' ? null : Number(form.lead_time_days);
+    if (!form.name.trim()) {
+      toast.error('A supplier needs a name');
+      return;
+    }
+    if (!/^[A-Z]{3}$/.test(currency)) {
+      toast.error('Currency must be a three-letter code such as USD');
+      return;
+    }
+    if (leadTime !== null && (!Number.isInteger(leadTime) || leadTime < 0)) {
+      toast.error('Lead time must be a whole number of days');
+      return;
+    }
+
+    onSave({
+      name: form.name.trim(),
+      contact_name: form.contact_name.trim() || null,
+      email: form.email.trim() || null,
+      phone: form.phone.trim() || null,
+      address: form.address.trim() || null,
+      payment_terms: form.payment_terms.trim() || null,
+      lead_time_days: leadTime,
+      currency,
+      notes: form.notes.trim() || null
+    });
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-md">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>{supplier ? 'Edit Supplier' : 'Add Supplier'}</DialogTitle>
+            <DialogDescription>
+              Contact details and the terms this supplier trades on.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid gap-4 py-4">
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="name" className="text-right">Name</Label>
+              <Input id="name" name="name" value={form.name} onChange={handleChange} className="col-span-3" required />
+            </div>
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="contact_name" className="text-right">Contact</Label>
+              <Input id="contact_name" name="contact_name" value={form.contact_name} onChange={handleChange} className="col-span-3" />
+            </div>
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="email" className="text-right">Email</Label>
+              <Input id="email" name="email" type="email" value={form.email} onChange={handleChange} className="col-span-3" />
+            </div>
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="phone" className="text-right">Phone</Label>
+              <Input id="phone" name="phone" value={form.phone} onChange={handleChange} className="col-span-3" />
+            </div>
+            <div className="grid grid-cols-4 items-start gap-4">
+              <Label htmlFor="address" className="text-right pt-2">Address</Label>
+              <Textarea id="address" name="address" value={form.address} onChange={handleChange} className="col-span-3" />
+            </div>
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="payment_terms" className="text-right">Terms</Label>
+              <Input
+                id="payment_terms"
+                name="payment_terms"
+                value={form.payment_terms}
+                onChange={handleChange}
+                placeholder="e.g. Net 30"
+                className="col-span-3"
+              />
+            </div>
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="lead_time_days" className="text-right">Lead Time</Label>
+              <Input
+                id="lead_time_days"
+                name="lead_time_days"
+                type="number"
+                min="0"
+                step="1"
+                value={form.lead_time_days}
+                onChange={handleChange}
+                placeholder="Days from order to delivery"
+                className="col-span-3"
+              />
+            </div>
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="currency" className="text-right">Currency</Label>
+              <Input
+                id="currency"
+                name="currency"
+                value={form.currency}
+                onChange={handleChange}
+                maxLength={3}
+                className="col-span-3 uppercase"
+              />
+            </div>
+            <div className="grid grid-cols-4 items-start gap-4">
+              <Label htmlFor="notes" className="text-right pt-2">Notes</Label>
+              <Textarea id="notes" name="notes" value={form.notes} onChange={handleChange} className="col-span-3" />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose} className="mr-2">
+              Cancel
+            </Button>
+            <Button type="submit" className="bg-pos-primary hover:bg-pos-secondary" disabled={isSubmitting}>
+              {isSubmitting ? 'Saving...' : supplier ? 'Update' : 'Add Supplier'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SupplierDialog;
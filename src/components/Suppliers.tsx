@@ -0,0 +1,145 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { toast } from 'sonner';
+import { Building2, Plus, Search } from 'lucide-react';
+import { AUDIT_SOURCE_HEADER } from '@/lib/audit';
+import { useSuppliers } from '@/hooks/use-suppliers';
+import { SupplierInsert } from '@/types/supplier';
+import SupplierDialog from './SupplierDialog';
+
+// The supplier directory: who stock is bought from and on what terms.
+const Suppliers: React.FC = () => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [search, setSearch] = useState('');
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const { data: suppliers = [], isLoading } = useSuppliers();
+
+  const addSupplierMutation = useMutation({
+    mutationFn: async (supplier: SupplierInsert) => {
+      const { data, error } = await supabase
+        .from('suppliers')
+        .insert(supplier)
+        .select()
+        .single()
+        .setHeader(AUDIT_SOURCE_HEADER, 'suppliers');
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (supplier) => {
+      queryClient.invalidateQueries({ queryKey: ['suppliers'] });
+      setIsDialogOpen(false);
+      toast.success(`${supplier.name} added`);
+      navigate(`/suppliers/${supplier.id}`);
+    },
+    onError: (error) => {
+      toast.error(`Failed to add supplier: ${error.message}`);
+    }
+  });
+
+  const query = search.trim().toLowerCase();
+  const visibleSuppliers = suppliers.filter(supplier =>
+    !query
+    || supplier.name.toLowerCase().includes(query)
+    || supplier.contact_name?.toLowerCase().includes(query)
+  );
+
+  return (
+    <div className="p-6">
+      <div className="flex justify-between items-center mb-8">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-800 flex items-center gap-2">
+            <Building2 className="h-6 w-6 text-pos-primary" />
+            Suppliers
+          </h1>
+          <p className="text-gray-600 mt-1">Who stock is bought from, their terms and price lists</p>
+        </div>
+        <Button className="bg-pos-primary hover:bg-pos-secondary" onClick={() => setIsDialogOpen(true)}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Supplier
+        </Button>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm p-6">
+        <div className="relative mb-6">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+          <Input
+            placeholder="Search by name or contact..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="pl-10"
+          />
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-pos-primary"></div>
+          </div>
+        ) : visibleSuppliers.length === 0 ? (
+          <div className="text-center py-12 text-gray-500">
+            <Building2 className="h-12 w-12 mx-auto mb-4 text-gray-400" />
+            <p>No suppliers found</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Supplier</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Contact</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Terms</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Lead Time</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Currency</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {visibleSuppliers.map(supplier => (
+                  <tr
+                    key={supplier.id}
+                    className="hover:bg-gray-50 cursor-pointer"
+                    onClick={() => navigate(`/suppliers/${supplier.id}`)}
+                  >
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{supplier.name}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {supplier.contact_name && <p className="text-gray-900">{supplier.contact_name}</p>}
+                      {supplier.phone && <p>{supplier.phone}</p>}
+                      {supplier.email && <p>{supplier.email}</p>}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{supplier.payment_terms}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                      {supplier.lead_time_days !== null && `${supplier.lead_time_days} days`}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{supplier.currency}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${
+                        supplier.is_active ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+                      }`}>
+                        {supplier.is_active ? 'Active' : 'Inactive'}
+                      </span>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <SupplierDialog
+        isOpen={isDialogOpen}
+        onClose={() => setIsDialogOpen(false)}
+        supplier={null}
+        onSave={(supplier) => addSupplierMutation.mutate(supplier)}
+        isSubmitting={addSupplierMutation.isPending}
+      />
+    </div>
+  );
+};
+
+export default Suppliers;
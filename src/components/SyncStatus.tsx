@@ -0,0 +1,200 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { toast } from 'sonner';
+import { AlertTriangle, CloudOff, RefreshCw, Wifi } from 'lucide-react';
+import { format } from 'date-fns';
+import {
+  discardOutboxEntry,
+  retryOutboxEntry,
+  syncOutbox,
+  SyncResult
+} from '@/lib/offline/outbox';
+import { useOutbox } from '@/hooks/use-outbox';
+
+const SYNC_INTERVAL = 30000;
+
+// Shows whether the terminal is online and how many sales are waiting to
+// sync, and replays the outbox whenever the connection comes back.
+const SyncStatus: React.FC = () => {
+  const queryClient = useQueryClient();
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [conflicts, setConflicts] = useState<SyncResult['conflicts']>([]);
+  const { data: outbox = [] } = useOutbox();
+  const pending = outbox.filter(entry => entry.status === 'pending');
+  const failed = outbox.filter(entry => entry.status === 'failed');
+  const hasPending = useRef(false);
+  hasPending.current = pending.length > 0;
+
+  const runSync = useCallback(async () => {
+    setIsSyncing(true);
+    try {
+      const result = await syncOutbox();
+      queryClient.invalidateQueries({ queryKey: ['outbox'] });
+
+      if (result.synced.length > 0) {
+        queryClient.invalidateQueries({ queryKey: ['products'] });
+        queryClient.invalidateQueries({ queryKey: ['orders'] });
+        // Receipts of synced sales were read from the outbox until now.
+        queryClient.invalidateQueries({ queryKey: ['order'] });
+        queryClient.invalidateQueries({ queryKey: ['cash-session-report'] });
+        toast.success(`Synced ${result.synced.length} offline sale${result.synced.length === 1 ? '' : 's'}`);
+      }
+      if (result.conflicts.length > 0) {
+        setConflicts(prev => [...result.conflicts, ...prev]);
+        toast.warning(
+          `${result.conflicts.length} product${result.conflicts.length === 1 ? ' was' : 's were'} oversold while offline. Check stock levels.`
+        );
+      }
+      if (result.failed > 0) {
+        toast.error(`${result.failed} offline sale${result.failed === 1 ? '' : 's'} could not be synced`);
+      }
+    } catch (error) {
+      toast.error(`Failed to sync offline sales: ${(error as Error).message}`);
+    } finally {
+      setIsSyncing(false);
+    }
+  }, [queryClient]);
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      runSync();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+
+    // navigator.onLine only knows about the local network, so queued sales
+    // are also retried on a timer in case the server itself was unreachable.
+    const interval = window.setInterval(() => {
+      if (navigator.onLine && hasPending.current) runSync();
+    }, SYNC_INTERVAL);
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      window.clearInterval(interval);
+    };
+  }, [runSync]);
+
+  const handleRetry = async (id: number) => {
+    await retryOutboxEntry(id);
+    runSync();
+  };
+
+  const handleDiscard = async (id: number, orderNumber: string) => {
+    if (!window.confirm(`Discard offline sale ${orderNumber}? It will not be recorded.`)) {
+      return;
+    }
+    await discardOutboxEntry(id);
+    queryClient.invalidateQueries({ queryKey: ['outbox'] });
+  };
+
+  const label = !isOnline
+    ? `Offline${pending.length > 0 ? ` · ${pending.length} queued` : ''}`
+    : isSyncing
+      ? 'Syncing...'
+      : failed.length > 0
+        ? `${failed.length} failed`
+        : pending.length > 0
+          ? `${pending.length} queued`
+          : 'Online';
+
+  const Icon = !isOnline
+    ? CloudOff
+    : isSyncing
+      ? RefreshCw
+      : failed.length > 0 || conflicts.length > 0
+        ? AlertTriangle
+        : Wifi;
+
+  const colour = !isOnline || failed.length > 0
+    ? 'text-red-600'
+    : pending.length > 0 || conflicts.length > 0
+      ? 'text-amber-600'
+      : 'text-green-600';
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className={colour}>
+          <Icon className={`h-4 w-4 mr-2 ${isSyncing ? 'animate-spin' : ''}`} />
+          {label}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-96">
+        <div className="flex justify-between items-center mb-3">
+          <h3 className="font-semibold text-gray-800">Offline Sales</h3>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={runSync}
+            disabled={!isOnline || isSyncing || pending.length === 0}
+          >
+            <RefreshCw className="h-4 w-4 mr-1" />
+            Sync now
+          </Button>
+        </div>
+
+        {outbox.length === 0 ? (
+          <p className="text-sm text-gray-500">All sales are synced</p>
+        ) : (
+          <div className="space-y-2 max-h-64 overflow-y-auto">
+            {outbox.map(entry => (
+              <div key={entry.id} className="border rounded p-2 text-sm">
+                <div className="flex justify-between font-medium">
+                  <span>{entry.order_number}</span>
+                  <span className={entry.status === 'failed' ? 'text-red-600' : 'text-amber-600'}>
+                    {entry.status === 'failed' ? 'Failed' : 'Queued'}
+                  </span>
+                </div>
+                <p className="text-gray-500">{format(new Date(entry.created_at), 'PPp')}</p>
+                {entry.last_error && <p className="text-red-600">{entry.last_error}</p>}
+                {entry.status === 'failed' && (
+                  <div className="flex gap-2 mt-2">
+                    <Button size="sm" variant="outline" onClick={() => handleRetry(entry.id as number)}>
+                      Retry
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="text-red-600"
+                      onClick={() => handleDiscard(entry.id as number, entry.order_number)}
+                    >
+                      Discard
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {conflicts.length > 0 && (
+          <div className="mt-4">
+            <div className="flex justify-between items-center mb-2">
+              <h4 className="font-medium text-gray-800">Stock Conflicts</h4>
+              <Button variant="link" size="sm" className="h-auto px-0" onClick={() => setConflicts([])}>
+                Clear
+              </Button>
+            </div>
+            <ul className="space-y-1 text-sm text-amber-700">
+              {conflicts.map((conflict, index) => (
+                <li key={index}>
+                  {conflict.order_number}: sold {conflict.requested} x {conflict.product_name} with{' '}
+                  {conflict.available} in stock
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default SyncStatus;
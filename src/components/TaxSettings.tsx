@@ -0,0 +1,310 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { toast } from 'sonner';
+import { Plus, Trash2, Percent } from 'lucide-react';
+import { Database } from '@/integrations/supabase/types';
+import { AUDIT_SOURCE_HEADER } from '@/lib/audit';
+
+type TaxRate = Database['public']['Tables']['tax_rates']['Row'];
+type CategoryTaxRate = Database['public']['Tables']['category_tax_rates']['Row'];
+
+const TaxSettings: React.FC = () => {
+  const [newRate, setNewRate] = useState({ name: '', rate: '' });
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['tax-settings'],
+    queryFn: async () => {
+      const [settingsResult, ratesResult, categoryRatesResult, productsResult] = await Promise.all([
+        supabase.from('store_settings').select('*').eq('id', 1).maybeSingle(),
+        supabase.from('tax_rates').select('*').order('name'),
+        supabase.from('category_tax_rates').select('*'),
+        supabase.from('products').select('category')
+      ]);
+
+      if (settingsResult.error) throw settingsResult.error;
+      if (ratesResult.error) throw ratesResult.error;
+      if (categoryRatesResult.error) throw categoryRatesResult.error;
+      if (productsResult.error) throw productsResult.error;
+
+      const categories = Array.from(
+        new Set(productsResult.data.map(p => p.category).filter(Boolean))
+      ).sort();
+
+      return {
+        pricesIncludeTax: settingsResult.data?.prices_include_tax ?? false,
+        rates: ratesResult.data as TaxRate[],
+        categoryRates: categoryRatesResult.data as CategoryTaxRate[],
+        categories
+      };
+    }
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['tax-settings'] });
+    queryClient.invalidateQueries({ queryKey: ['tax-config'] });
+  };
+
+  const updatePricingModeMutation = useMutation({
+    mutationFn: async (pricesIncludeTax: boolean) => {
+      const { error } = await supabase
+        .from('store_settings')
+        .upsert({ id: 1, prices_include_tax: pricesIncludeTax, updated_at: new Date().toISOString() })
+        .setHeader(AUDIT_SOURCE_HEADER, 'settings');
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success('Pricing mode updated');
+    },
+    onError: (error) => {
+      toast.error(`Failed to update pricing mode: ${error.message}`);
+    }
+  });
+
+  const addRateMutation = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase
+        .from('tax_rates')
+        .insert([{ name: newRate.name.trim(), rate: parseFloat(newRate.rate) }])
+        .setHeader(AUDIT_SOURCE_HEADER, 'settings');
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      setNewRate({ name: '', rate: '' });
+      toast.success('Tax rate added');
+    },
+    onError: (error) => {
+      toast.error(`Failed to add tax rate: ${error.message}`);
+    }
+  });
+
+  const toggleRateMutation = useMutation({
+    mutationFn: async (rate: TaxRate) => {
+      const { error } = await supabase
+        .from('tax_rates')
+        .update({ is_active: !rate.is_active })
+        .eq('id', rate.id)
+        .setHeader(AUDIT_SOURCE_HEADER, 'settings');
+
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+    onError: (error) => {
+      toast.error(`Failed to update tax rate: ${error.message}`);
+    }
+  });
+
+  const deleteRateMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const { error } = await supabase
+        .from('tax_rates')
+        .delete()
+        .eq('id', id)
+        .setHeader(AUDIT_SOURCE_HEADER, 'settings');
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success('Tax rate deleted');
+    },
+    onError: (error) => {
+      toast.error(`Failed to delete tax rate: ${error.message}`);
+    }
+  });
+
+  const toggleCategoryRateMutation = useMutation({
+    mutationFn: async ({ category, taxRateId, assigned }: {
+      category: string;
+      taxRateId: number;
+      assigned: boolean;
+    }) => {
+      const { error } = assigned
+        ? await supabase
+            .from('category_tax_rates')
+            .delete()
+            .eq('category', category)
+            .eq('tax_rate_id', taxRateId)
+            .setHeader(AUDIT_SOURCE_HEADER, 'settings')
+        : await supabase
+            .from('category_tax_rates')
+            .insert([{ category, tax_rate_id: taxRateId }])
+            .setHeader(AUDIT_SOURCE_HEADER, 'settings');
+
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+    onError: (error) => {
+      toast.error(`Failed to update category tax: ${error.message}`);
+    }
+  });
+
+  const handleAddRate = (e: React.FormEvent) => {
+    e.preventDefault();
+    const rate = parseFloat(newRate.rate);
+    if (!newRate.name.trim() || isNaN(rate) || rate < 0) {
+      toast.error('Enter a name and a non-negative rate');
+      return;
+    }
+    addRateMutation.mutate();
+  };
+
+  const isAssigned = (category: string, taxRateId: number) =>
+    data?.categoryRates.some(
+      assignment => assignment.category === category && assignment.tax_rate_id === taxRateId
+    ) ?? false;
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-pos-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Pricing Mode */}
+      <div className="bg-white rounded-lg shadow-sm p-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-800">Tax-Inclusive Prices</h2>
+            <p className="text-sm text-gray-600">
+              {data?.pricesIncludeTax
+                ? 'Product prices already include tax; tax is extracted from the total.'
+                : 'Product prices exclude tax; tax is added on top at checkout.'}
+            </p>
+          </div>
+          <Switch
+            checked={data?.pricesIncludeTax ?? false}
+            onCheckedChange={(checked) => updatePricingModeMutation.mutate(checked)}
+            disabled={updatePricingModeMutation.isPending}
+          />
+        </div>
+      </div>
+
+      {/* Tax Rates */}
+      <div className="bg-white rounded-lg shadow-sm p-6">
+        <h2 className="text-lg font-semibold text-gray-800 mb-4">Tax Rates</h2>
+        <form onSubmit={handleAddRate} className="flex gap-2 mb-4">
+          <Input
+            placeholder="Name, e.g. State Sales Tax"
+            value={newRate.name}
+            onChange={(e) => setNewRate(prev => ({ ...prev, name: e.target.value }))}
+          />
+          <Input
+            type="number"
+            min="0"
+            step="0.0001"
+            placeholder="Rate %"
+            value={newRate.rate}
+            onChange={(e) => setNewRate(prev => ({ ...prev, rate: e.target.value }))}
+            className="w-32"
+          />
+          <Button
+            type="submit"
+            className="bg-pos-primary hover:bg-pos-secondary"
+            disabled={addRateMutation.isPending}
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add
+          </Button>
+        </form>
+
+        {data?.rates.length === 0 ? (
+          <div className="text-center py-4 text-gray-500">
+            <Percent className="h-8 w-8 mx-auto mb-2 text-gray-400" />
+            <p>No tax rates configured</p>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {data?.rates.map(rate => (
+              <div key={rate.id} className="p-3 bg-gray-50 rounded-lg flex justify-between items-center">
+                <div>
+                  <p className="font-medium text-gray-800">{rate.name}</p>
+                  <p className="text-sm text-gray-500">{Number(rate.rate)}%</p>
+                </div>
+                <div className="flex items-center gap-3">
+                  <span className="text-sm text-gray-500">{rate.is_active ? 'Active' : 'Inactive'}</span>
+                  <Switch
+                    checked={rate.is_active}
+                    onCheckedChange={() => toggleRateMutation.mutate(rate)}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => deleteRateMutation.mutate(rate.id)}
+                    className="text-red-500 hover:text-red-600 hover:bg-red-50"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Category Assignment */}
+      <div className="bg-white rounded-lg shadow-sm p-6">
+        <h2 className="text-lg font-semibold text-gray-800 mb-1">Category Tax Rates</h2>
+        <p className="text-sm text-gray-600 mb-4">
+          Products are taxed by every active rate assigned to their category.
+        </p>
+        {data?.categories.length === 0 || data?.rates.length === 0 ? (
+          <p className="text-gray-500 text-center py-4">
+            Add tax rates and product categories to assign them
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-sm font-medium text-gray-600">Category</th>
+                  {data?.rates.map(rate => (
+                    <th key={rate.id} className="px-4 py-2 text-center text-sm font-medium text-gray-600">
+                      {rate.name}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {data?.categories.map(category => (
+                  <tr key={category}>
+                    <td className="px-4 py-2">{category}</td>
+                    {data.rates.map(rate => {
+                      const assigned = isAssigned(category, rate.id);
+                      return (
+                        <td key={rate.id} className="px-4 py-2 text-center">
+                          <Checkbox
+                            checked={assigned}
+                            onCheckedChange={() => toggleCategoryRateMutation.mutate({
+                              category,
+                              taxRateId: rate.id,
+                              assigned
+                            })}
+                          />
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TaxSettings;
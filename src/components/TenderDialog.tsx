@@ -0,0 +1,380 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { toast } from 'sonner';
+import { Banknote, CreditCard, Gift, Star, Wallet, X } from 'lucide-react';
+import { roundCurrency } from '@/lib/money';
+import { amountToPoints, pointsToAmount } from '@/lib/loyalty';
+import {
+  formatGiftCardCode,
+  giftCardUnavailableReason,
+  maskGiftCardCode,
+  normaliseGiftCardCode
+} from '@/lib/gift-cards';
+import { useGiftCard } from '@/hooks/use-gift-cards';
+import {
+  Tender,
+  TenderMethod,
+  TENDER_METHOD_LABELS,
+  summariseTenders,
+  suggestCashAmounts
+} from '@/lib/tender';
+import { format } from 'date-fns';
+
+interface TenderDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  total: number;
+  onConfirm: (tenders: Tender[]) => void;
+  isSubmitting: boolean;
+  // The attached customer's loyalty points; the points tender is offered
+  // when there are any to spend.
+  points?: {
+    balance: number;
+    pointValue: number;
+  };
+}
+
+// Tenders spent from a gift_cards balance by code.
+const isStoredValue = (method: TenderMethod): method is 'gift_card' | 'store_credit' =>
+  method === 'gift_card' || method === 'store_credit';
+
+const TenderDialog: React.FC<TenderDialogProps> = ({
+  isOpen,
+  onClose,
+  total,
+  onConfirm,
+  isSubmitting,
+  points,
+}) => {
+  const [tenders, setTenders] = useState<Tender[]>([]);
+  const [method, setMethod] = useState<TenderMethod>('cash');
+  const [amount, setAmount] = useState<string>('');
+  const [code, setCode] = useState('');
+  const [offeredCardId, setOfferedCardId] = useState<number | null>(null);
+  const { data: card, isFetching: isCardLoading } = useGiftCard(isStoredValue(method) ? code : '');
+
+  const summary = summariseTenders(total, tenders);
+  const pointValue = points?.pointValue ?? 0;
+  const pointsAvailable = roundCurrency(
+    pointsToAmount(points?.balance ?? 0, pointValue) -
+      tenders
+        .filter(tender => tender.method === 'points')
+        .reduce((sum, tender) => sum + tender.amount, 0)
+  );
+  const canPayWithPoints = !!points && points.balance > 0 && pointValue > 0;
+  const cardUnavailable = card && isStoredValue(method) ? giftCardUnavailableReason(card, method) : null;
+  // What is left on the card once the tenders already taken from it are
+  // counted.
+  const cardAvailable = card
+    ? roundCurrency(
+        Number(card.balance) -
+          tenders
+            .filter(tender => tender.code === card.code)
+            .reduce((sum, tender) => sum + tender.amount, 0)
+      )
+    : 0;
+
+  // Start every checkout with a clean slate and the full total pre-filled.
+  useEffect(() => {
+    if (isOpen) {
+      setTenders([]);
+      setMethod('cash');
+      setCode('');
+      setAmount(roundCurrency(total).toFixed(2));
+    }
+  }, [isOpen, total]);
+
+  // Offer as much of the amount due as the card can cover once it is found,
+  // only when a different card comes back from the lookup, so an amount typed
+  // for the same card is left alone.
+  const cardId = card?.id ?? null;
+  if (cardId !== offeredCardId) {
+    setOfferedCardId(cardId);
+    if (card) {
+      setAmount(Math.max(0, Math.min(summary.remaining, cardAvailable)).toFixed(2));
+    }
+  }
+
+  const addTender = (tenderMethod: TenderMethod, tenderAmount: number) => {
+    const value = roundCurrency(tenderAmount);
+    if (!value || value <= 0) {
+      toast.error('Enter an amount greater than zero');
+      return;
+    }
+    if (tenderMethod !== 'cash' && value > summary.remaining) {
+      toast.error(`${TENDER_METHOD_LABELS[tenderMethod]} payments cannot exceed the amount due`);
+      return;
+    }
+    if (tenderMethod === 'points' && value > pointsAvailable) {
+      toast.error(`Only $${pointsAvailable.toFixed(2)} is available in points`);
+      return;
+    }
+
+    let tender: Tender = { method: tenderMethod, amount: value };
+    if (isStoredValue(tenderMethod)) {
+      if (!card) {
+        toast.error('Enter a valid card code');
+        return;
+      }
+      if (cardUnavailable) {
+        toast.error(cardUnavailable);
+        return;
+      }
+      if (value > cardAvailable) {
+        toast.error(`Only $${cardAvailable.toFixed(2)} is left on this card`);
+        return;
+      }
+      tender = { ...tender, code: card.code };
+      setCode('');
+    }
+
+    const next = [...tenders, tender];
+    setTenders(next);
+    const remaining = summariseTenders(total, next).remaining;
+    setAmount(remaining > 0 ? remaining.toFixed(2) : '');
+  };
+
+  const removeTender = (index: number) => {
+    const next = tenders.filter((_, i) => i !== index);
+    setTenders(next);
+    setAmount(summariseTenders(total, next).remaining.toFixed(2));
+  };
+
+  const describeCard = () => {
+    if (!normaliseGiftCardCode(code)) return null;
+    if (isCardLoading) return 'Checking card...';
+    if (card === null) return 'No card with this code';
+    if (!card) return null;
+    if (cardUnavailable) return cardUnavailable;
+    const expiry = card.expires_at ? `, expires ${format(new Date(card.expires_at), 'PP')}` : '';
+    return `$${cardAvailable.toFixed(2)} available${expiry}`;
+  };
+  const cardStatus = describeCard();
+
+  const selectMethod = (tenderMethod: TenderMethod) => {
+    setMethod(tenderMethod);
+    if (tenderMethod === 'points') {
+      setAmount(Math.min(summary.remaining, pointsAvailable).toFixed(2));
+    }
+  };
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    addTender(method, parseFloat(amount));
+  };
+
+  const handleConfirm = () => {
+    if (!summary.isCovered) {
+      toast.error('Tenders do not cover the order total');
+      return;
+    }
+    onConfirm(tenders);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Take Payment</DialogTitle>
+          <DialogDescription>
+            Add one or more tenders. Cash over the amount due is returned as change.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="flex justify-between text-lg font-bold">
+            <span>Total Due</span>
+            <span className="text-pos-primary">${total.toFixed(2)}</span>
+          </div>
+
+          <form onSubmit={handleAdd} className="space-y-3">
+            <div className="grid grid-cols-2 gap-2">
+              <Button
+                type="button"
+                variant={method === 'cash' ? 'default' : 'outline'}
+                onClick={() => selectMethod('cash')}
+              >
+                <Banknote className="h-4 w-4 mr-2" />
+                Cash
+              </Button>
+              <Button
+                type="button"
+                variant={method === 'card' ? 'default' : 'outline'}
+                onClick={() => selectMethod('card')}
+              >
+                <CreditCard className="h-4 w-4 mr-2" />
+                Card
+              </Button>
+              <Button
+                type="button"
+                variant={method === 'gift_card' ? 'default' : 'outline'}
+                onClick={() => selectMethod('gift_card')}
+              >
+                <Gift className="h-4 w-4 mr-2" />
+                Gift Card
+              </Button>
+              <Button
+                type="button"
+                variant={method === 'store_credit' ? 'default' : 'outline'}
+                onClick={() => selectMethod('store_credit')}
+              >
+                <Wallet className="h-4 w-4 mr-2" />
+                Store Credit
+              </Button>
+              {canPayWithPoints && (
+                <Button
+                  type="button"
+                  variant={method === 'points' ? 'default' : 'outline'}
+                  onClick={() => selectMethod('points')}
+                >
+                  <Star className="h-4 w-4 mr-2" />
+                  Points
+                </Button>
+              )}
+            </div>
+
+            {isStoredValue(method) && (
+              <div>
+                <Label htmlFor="tender-code">Card Code</Label>
+                <Input
+                  id="tender-code"
+                  value={code}
+                  onChange={(e) => setCode(formatGiftCardCode(e.target.value))}
+                  placeholder="XXXX-XXXX-XXXX-XXXX"
+                  className="font-mono"
+                  autoFocus
+                />
+                {cardStatus && (
+                  <p className={`text-sm mt-1 ${card && !cardUnavailable ? 'text-gray-600' : 'text-red-600'}`}>
+                    {cardStatus}
+                  </p>
+                )}
+              </div>
+            )}
+
+            {method === 'points' && points && (
+              <p className="text-sm text-gray-600">
+                {points.balance} points available, worth ${pointsToAmount(points.balance, pointValue).toFixed(2)}
+              </p>
+            )}
+
+            <div className="flex items-end gap-2">
+              <div className="flex-1">
+                <Label htmlFor="tender-amount">Amount</Label>
+                <Input
+                  id="tender-amount"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                />
+              </div>
+              <Button type="submit" disabled={summary.isCovered}>
+                Add
+              </Button>
+            </div>
+
+            {method === 'cash' && summary.remaining > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {suggestCashAmounts(summary.remaining).map(suggestion => (
+                  <Button
+                    key={suggestion}
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => addTender('cash', suggestion)}
+                  >
+                    ${suggestion.toFixed(2)}
+                  </Button>
+                ))}
+              </div>
+            )}
+          </form>
+
+          {tenders.length > 0 && (
+            <div className="space-y-2">
+              {tenders.map((tender, index) => (
+                <div
+                  key={index}
+                  className="flex items-center justify-between bg-gray-50 rounded-lg px-3 py-2"
+                >
+                  <span className="font-medium">
+                    {TENDER_METHOD_LABELS[tender.method]}
+                    {tender.code && (
+                      <span className="text-sm text-gray-500 ml-1 font-mono">{maskGiftCardCode(tender.code)}</span>
+                    )}
+                    {tender.method === 'points' && (
+                      <span className="text-sm text-gray-500 ml-1">
+                        ({amountToPoints(tender.amount, pointValue)} pts)
+                      </span>
+                    )}
+                  </span>
+                  <div className="flex items-center gap-2">
+                    <span>${tender.amount.toFixed(2)}</span>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => removeTender(index)}
+                      className="h-6 w-6 text-gray-400 hover:text-red-500"
+                    >
+                      <X className="h-3 w-3" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="border-t pt-3 space-y-1 text-sm">
+            <div className="flex justify-between">
+              <span className="text-gray-600">Paid</span>
+              <span>${summary.paid.toFixed(2)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-600">Remaining</span>
+              <span className={summary.remaining > 0 ? 'text-red-600 font-medium' : ''}>
+                ${summary.remaining.toFixed(2)}
+              </span>
+            </div>
+            <div className="flex justify-between text-lg font-bold">
+              <span>Change Due</span>
+              <span className="text-green-600">${summary.change.toFixed(2)}</span>
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onClose} className="mr-2">
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            onClick={handleConfirm}
+            disabled={!summary.isCovered || isSubmitting}
+            className="bg-pos-primary hover:bg-pos-secondary"
+          >
+            {isSubmitting ? (
+              <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div>
+            ) : (
+              'Complete Sale'
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TenderDialog;
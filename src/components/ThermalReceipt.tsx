@@ -0,0 +1,80 @@
+import React from 'react';
+import { OrderDetails } from '@/types/order';
+import { encodeCode128 } from '@/lib/receipt/code128';
+import {
+  buildReceiptLines,
+  PAPER_COLUMNS,
+  PaperWidth,
+} from '@/lib/receipt/receipt';
+import { StoreDetails } from '@/lib/store';
+
+interface ThermalReceiptProps {
+  order: OrderDetails;
+  paper: PaperWidth;
+  store?: StoreDetails;
+}
+
+const Code128: React.FC<{ data: string }> = ({ data }) => {
+  const { bars, width } = encodeCode128(data);
+  // Ten-module quiet zone either side so scanners can find the symbol.
+  const quietZone = 10;
+  return (
+    <div style={{ textAlign: 'center' }}>
+      <svg
+        viewBox={`0 0 ${width + quietZone * 2} 50`}
+        preserveAspectRatio="none"
+        style={{ width: '100%', height: '50px' }}
+      >
+        {bars.map((bar, index) => (
+          <rect key={index} x={bar.x + quietZone} y={0} width={bar.width} height={50} fill="#000" />
+        ))}
+      </svg>
+      <div>{data}</div>
+    </div>
+  );
+};
+
+// Receipt as it comes out of a thermal printer: a monospace column exactly
+// as wide as the paper's character count. Styles are inline so the markup
+// can be printed or saved on its own.
+const ThermalReceipt: React.FC<ThermalReceiptProps> = ({ order, paper, store }) => {
+  const lines = buildReceiptLines(order, paper, store);
+
+  return (
+    <div
+      style={{
+        width: `${PAPER_COLUMNS[paper]}ch`,
+        fontFamily: "'Courier New', Courier, monospace",
+        fontSize: '12px',
+        lineHeight: 1.3,
+        color: '#000',
+        background: '#fff'
+      }}
+    >
+      {lines.map((line, index) => {
+        switch (line.type) {
+          case 'text':
+            return (
+              <div
+                key={index}
+                style={{
+                  whiteSpace: 'pre',
+                  textAlign: line.align ?? 'left',
+                  fontWeight: line.bold ? 'bold' : 'normal',
+                  fontSize: line.large ? '24px' : undefined
+                }}
+              >
+                {line.text}
+              </div>
+            );
+          case 'barcode':
+            return <Code128 key={index} data={line.data} />;
+          case 'feed':
+            return <div key={index} style={{ height: '1.3em' }} />;
+        }
+      })}
+    </div>
+  );
+};
+
+export default ThermalReceipt;
@@ -0,0 +1,24 @@
+import { createContext, useContext } from 'react';
+import { Session } from '@supabase/supabase-js';
+import { Role } from '@/lib/roles';
+
+export interface AuthState {
+  session: Session | null;
+  roles: Role[];
+  // Full name from profiles, falling back to the sign-in email.
+  staffName: string;
+  // True until the stored session and the user's roles have been loaded.
+  isLoading: boolean;
+  hasRole: (...allowed: Role[]) => boolean;
+  signIn: (email: string, password: string) => Promise<void>;
+  signOut: () => Promise<void>;
+}
+
+export const AuthContext = createContext<AuthState | null>(null);
+
+// The signed-in member of staff. Only usable under AuthProvider.
+export function useAuth() {
+  const auth = useContext(AuthContext);
+  if (!auth) throw new Error('useAuth must be used within an AuthProvider');
+  return auth;
+}
@@ -0,0 +1,69 @@
+import { useEffect, useRef } from 'react';
+
+interface BarcodeScannerOptions {
+  enabled: boolean;
+  onScan: (input: string) => void;
+  // Longest gap between keystrokes, in ms, still treated as scanner input.
+  maxKeyInterval?: number;
+  minLength?: number;
+}
+
+const isEditable = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+// Detects keyboard-wedge barcode scanners, which type a code far faster than
+// a person and finish with Enter. Keystrokes are collected anywhere on the
+// page except in form fields, unless the field opts in with
+// data-barcode-input. A slowly typed quantity prefix such as "3*" is kept
+// and handed over with the next scan.
+export function useBarcodeScanner({
+  enabled,
+  onScan,
+  maxKeyInterval = 50,
+  minLength = 4,
+}: BarcodeScannerOptions) {
+  const onScanRef = useRef(onScan);
+  onScanRef.current = onScan;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let buffer = '';
+    let burstStart = 0;
+    let lastKeyAt = 0;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.ctrlKey || event.metaKey || event.altKey) return;
+      if (isEditable(event.target) && !(event.target as HTMLElement).dataset.barcodeInput) return;
+
+      const now = event.timeStamp;
+      const isFast = now - lastKeyAt <= maxKeyInterval;
+      lastKeyAt = now;
+
+      if (event.key === 'Enter') {
+        const code = buffer.slice(burstStart);
+        if (isFast && code.length >= minLength) {
+          event.preventDefault();
+          event.stopPropagation();
+          onScanRef.current(buffer);
+        }
+        buffer = '';
+        burstStart = 0;
+        return;
+      }
+
+      if (event.key.length !== 1) return;
+
+      if (!isFast) {
+        // A pause ends any burst. Only a pending quantity prefix survives it.
+        if (!/^\d+\*?$/.test(buffer)) buffer = '';
+        burstStart = buffer.length;
+      }
+      buffer += event.key;
+    };
+
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [enabled, maxKeyInterval, minLength]);
+}
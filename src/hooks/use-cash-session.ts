@@ -0,0 +1,42 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { getTerminalId } from '@/lib/terminal';
+import { cachedQuery } from '@/lib/offline/cache';
+import { CashSessionReport } from '@/types/cash';
+
+// The drawer currently open on this terminal, or null when none is. Cached
+// so offline sales can still be rung up into it.
+export function useCashSession() {
+  const terminalId = getTerminalId();
+
+  return useQuery({
+    queryKey: ['cash-session', terminalId],
+    queryFn: () => cachedQuery(`cash-session:${terminalId}`, async () => {
+      const { data, error } = await supabase
+        .from('cash_sessions')
+        .select('*')
+        .eq('terminal_id', terminalId)
+        .eq('status', 'open')
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    })
+  });
+}
+
+// X report for an open session, Z report for a closed one.
+export function useCashSessionReport(sessionId: number | undefined) {
+  return useQuery({
+    queryKey: ['cash-session-report', sessionId],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('cash_session_report', {
+        p_session_id: sessionId as number
+      });
+
+      if (error) throw error;
+      return data as unknown as CashSessionReport;
+    },
+    enabled: sessionId !== undefined
+  });
+}
@@ -0,0 +1,25 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { customerSearchFilter } from '@/lib/customers';
+
+// Quick lookup for attaching a customer at the till. Waits for at least two
+// characters so every keystroke does not hit the whole table.
+export function useCustomerSearch(term: string) {
+  const trimmed = term.trim();
+
+  return useQuery({
+    queryKey: ['customers', 'search', trimmed],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('customers')
+        .select('*')
+        .or(customerSearchFilter(trimmed))
+        .order('name')
+        .limit(8);
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: trimmed.length >= 2
+  });
+}
@@ -0,0 +1,30 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { GIFT_CARD_CODE_LENGTH, normaliseGiftCardCode } from '@/lib/gift-cards';
+
+// Looks a gift card or store credit up by code, with its transaction
+// ledger. Waits for a complete code, and resolves to null when there is no
+// card with that code.
+export function useGiftCard(code: string) {
+  const normalised = normaliseGiftCardCode(code);
+
+  return useQuery({
+    queryKey: ['gift-cards', 'code', normalised],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('gift_cards')
+        .select('*, customer:customers(id, name), transactions:gift_card_transactions(*)')
+        .eq('code', normalised)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) return null;
+
+      return {
+        ...data,
+        transactions: [...data.transactions].sort((a, b) => b.id - a.id)
+      };
+    },
+    enabled: normalised.length === GIFT_CARD_CODE_LENGTH
+  });
+}
@@ -0,0 +1,29 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { cachedQuery } from '@/lib/offline/cache';
+import { resolveLocation } from '@/lib/locations';
+import { getTerminalLocationId } from '@/lib/terminal';
+import { LocationRow } from '@/types/location';
+
+// Every location, active or not, so past documents can still name theirs.
+// Cached for the POS, which needs its location to show stock offline.
+export function useLocations() {
+  return useQuery<LocationRow[]>({
+    queryKey: ['locations'],
+    queryFn: () => cachedQuery('locations', async () => {
+      const { data, error } = await supabase
+        .from('locations')
+        .select('*')
+        .order('name');
+
+      if (error) throw error;
+      return data;
+    })
+  });
+}
+
+// The location this terminal sells from.
+export function useTerminalLocation() {
+  const { data: locations = [], ...query } = useLocations();
+  return { ...query, data: resolveLocation(locations, getTerminalLocationId()) };
+}
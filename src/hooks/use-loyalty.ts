@@ -0,0 +1,50 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { DEFAULT_LOYALTY_PROGRAM, LoyaltyProgram } from '@/lib/loyalty';
+
+// Point value and referral rewards from store_settings.
+export function useLoyaltyProgram() {
+  return useQuery<LoyaltyProgram>({
+    queryKey: ['loyalty', 'program'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('store_settings')
+        .select('points_redemption_value, referral_referrer_points, referral_referee_points')
+        .eq('id', 1)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) return DEFAULT_LOYALTY_PROGRAM;
+
+      return {
+        pointValue: Number(data.points_redemption_value),
+        referrerPoints: data.referral_referrer_points,
+        refereePoints: data.referral_referee_points
+      };
+    },
+    placeholderData: DEFAULT_LOYALTY_PROGRAM
+  });
+}
+
+// A customer's spendable points. Customers who have never earned anything
+// have no loyalty_balances row and a balance of zero.
+export function useLoyaltyBalance(customerId: number | null | undefined) {
+  return useQuery({
+    queryKey: ['loyalty', 'balance', customerId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('loyalty_balances')
+        .select('*')
+        .eq('customer_id', customerId!)
+        .maybeSingle();
+
+      if (error) throw error;
+      return {
+        balance: data?.points_balance ?? 0,
+        earned: data?.points_earned ?? 0,
+        redeemed: data?.points_redeemed ?? 0
+      };
+    },
+    enabled: !!customerId
+  });
+}
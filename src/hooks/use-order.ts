@@ -0,0 +1,42 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { toOrderDetails } from '@/lib/invoice';
+import { getQueuedReceipt } from '@/lib/offline/outbox';
+import { CheckoutOrder } from '@/types/order';
+
+// Loads a saved order by its order number in the same shape create_pos_order
+// returns, so receipts can be rebuilt after a refresh or from order history.
+// A sale still queued on this terminal is not on the server yet, so its
+// invoice comes from the outbox; if the outbox cannot be read the server is
+// asked instead. Resolves to null when no order has that number.
+export function useOrder(orderNumber: string | undefined) {
+  return useQuery({
+    queryKey: ['order', orderNumber],
+    queryFn: async () => {
+      const queued = await getQueuedReceipt(orderNumber!).catch(() => null);
+      if (queued) return queued;
+
+      const { data, error } = await supabase
+        .from('orders')
+        .select(`
+          *,
+          items:order_items(*),
+          payments(*),
+          tax_lines:order_tax_lines(*),
+          discounts:order_discounts(*),
+          refunds(*),
+          customer:customers(*),
+          gift_cards:gift_cards!gift_cards_issued_order_id_fkey(*)
+        `)
+        .eq('order_number', orderNumber!)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) return null;
+
+      const { refunds, ...order } = data;
+      return toOrderDetails(order as unknown as CheckoutOrder, refunds);
+    },
+    enabled: !!orderNumber
+  });
+}
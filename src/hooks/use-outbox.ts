@@ -0,0 +1,12 @@
+import { useQuery } from '@tanstack/react-query';
+import { getOutbox, OutboxEntry } from '@/lib/offline/outbox';
+
+// Sales taken offline on this terminal that have not reached the server yet.
+export function useOutbox() {
+  return useQuery<OutboxEntry[]>({
+    queryKey: ['outbox'],
+    queryFn: getOutbox,
+    networkMode: 'always',
+    placeholderData: []
+  });
+}
@@ -0,0 +1,51 @@
+import { useEffect } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { ParkedCart } from '@/types/parked-cart';
+
+// Carts parked on any terminal, oldest first. Changes made elsewhere arrive
+// over realtime; the interval refetch covers a dropped subscription.
+export function useParkedCarts() {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    const channel = supabase
+      .channel('parked-carts')
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'parked_carts' },
+        () => queryClient.invalidateQueries({ queryKey: ['parked-carts'] })
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [queryClient]);
+
+  return useQuery<ParkedCart[]>({
+    queryKey: ['parked-carts'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('parked_carts')
+        .select('*')
+        .order('created_at');
+
+      if (error) throw error;
+      return data as unknown as ParkedCart[];
+    },
+    refetchInterval: 30000,
+    placeholderData: []
+  });
+}
+
+// Quantity of each product held in parked carts, keyed by product id.
+export const reservedQuantities = (parkedCarts: ParkedCart[]) => {
+  const reserved: Record<number, number> = {};
+  parkedCarts.forEach(cart => {
+    cart.items.forEach(item => {
+      reserved[item.product_id] = (reserved[item.product_id] || 0) + item.quantity;
+    });
+  });
+  return reserved;
+};
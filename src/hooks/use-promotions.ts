@@ -0,0 +1,30 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Promotion } from '@/lib/promotions';
+import { cachedQuery } from '@/lib/offline/cache';
+
+// Active promotions for the cart's promotion engine. Schedules and happy-hour
+// windows are checked at evaluation time, not here.
+export function usePromotions() {
+  return useQuery<Promotion[]>({
+    queryKey: ['promotions', 'active'],
+    queryFn: () => cachedQuery('promotions', async () => {
+      const { data, error } = await supabase
+        .from('promotions')
+        .select('*')
+        .eq('is_active', true);
+
+      if (error) throw error;
+
+      return data.map(promotion => ({
+        id: promotion.id,
+        name: promotion.name,
+        type: promotion.type,
+        config: promotion.config,
+        starts_at: promotion.starts_at,
+        ends_at: promotion.ends_at
+      })) as unknown as Promotion[];
+    }),
+    placeholderData: []
+  });
+}
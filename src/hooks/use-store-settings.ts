@@ -0,0 +1,24 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { DEFAULT_STORE_DETAILS, StoreDetails, toStoreDetails } from '@/lib/store';
+import { cachedQuery } from '@/lib/offline/cache';
+
+// The store's name, address, invoice wording and time zone from
+// store_settings. Kept offline so the POS prices happy hours on the store's
+// clock without a connection.
+export function useStoreSettings() {
+  return useQuery<StoreDetails>({
+    queryKey: ['store-settings'],
+    queryFn: () => cachedQuery('store-settings', async () => {
+      const { data, error } = await supabase
+        .from('store_settings')
+        .select('*')
+        .eq('id', 1)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data ? toStoreDetails(data) : DEFAULT_STORE_DETAILS;
+    }),
+    placeholderData: DEFAULT_STORE_DETAILS
+  });
+}
@@ -0,0 +1,20 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { SupplierRow } from '@/types/supplier';
+
+// Every supplier, active or not, so past orders and purchases can still
+// name theirs.
+export function useSuppliers() {
+  return useQuery<SupplierRow[]>({
+    queryKey: ['suppliers'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('suppliers')
+        .select('*')
+        .order('name');
+
+      if (error) throw error;
+      return data;
+    }
+  });
+}
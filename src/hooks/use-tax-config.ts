@@ -0,0 +1,39 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { EMPTY_TAX_CONFIG, TaxConfig } from '@/lib/tax';
+import { cachedQuery } from '@/lib/offline/cache';
+
+// Loads the store's tax setup in the shape calculateTax expects. Only active
+// rates are returned, matching what apply_order_tax uses at checkout.
+export function useTaxConfig() {
+  return useQuery<TaxConfig>({
+    queryKey: ['tax-config'],
+    queryFn: () => cachedQuery('tax-config', async () => {
+      const [settingsResult, ratesResult, categoryRatesResult] = await Promise.all([
+        supabase.from('store_settings').select('prices_include_tax').eq('id', 1).maybeSingle(),
+        supabase.from('tax_rates').select('id, name, rate').eq('is_active', true),
+        supabase.from('category_tax_rates').select('category, tax_rate_id')
+      ]);
+
+      if (settingsResult.error) throw settingsResult.error;
+      if (ratesResult.error) throw ratesResult.error;
+      if (categoryRatesResult.error) throw categoryRatesResult.error;
+
+      const categoryRates: Record<string, number[]> = {};
+      categoryRatesResult.data.forEach(({ category, tax_rate_id }) => {
+        categoryRates[category] = [...(categoryRates[category] || []), tax_rate_id];
+      });
+
+      return {
+        pricesIncludeTax: settingsResult.data?.prices_include_tax ?? false,
+        rates: ratesResult.data.map(rate => ({
+          id: rate.id,
+          name: rate.name,
+          rate: Number(rate.rate)
+        })),
+        categoryRates
+      };
+    }),
+    placeholderData: EMPTY_TAX_CONFIG
+  });
+}
@@ -36,6 +36,146 @@ export type Database = {
         }
         Relationships: []
       }
+      audit_log: {
+        Row: {
+          action: string
+          actor_id: string | null
+          actor_name: string | null
+          changed_columns: string[] | null
+          id: number
+          new_values: Json | null
+          occurred_at: string
+          old_values: Json | null
+          product_id: number | null
+          row_id: string
+          source: string | null
+          table_name: string
+        }
+        Insert: {
+          action: string
+          actor_id?: string | null
+          actor_name?: string | null
+          changed_columns?: string[] | null
+          id?: never
+          new_values?: Json | null
+          occurred_at?: string
+          old_values?: Json | null
+          product_id?: number | null
+          row_id: string
+          source?: string | null
+          table_name: string
+        }
+        Update: {
+          action?: string
+          actor_id?: string | null
+          actor_name?: string | null
+          changed_columns?: string[] | null
+          id?: never
+          new_values?: Json | null
+          occurred_at?: string
+          old_values?: Json | null
+          product_id?: number | null
+          row_id?: string
+          source?: string | null
+          table_name?: string
+        }
+        Relationships: []
+      }
+      cash_movements: {
+        Row: {
+          amount: number
+          created_at: string
+          created_by: string | null
+          created_by_id: string | null
+          id: number
+          movement_type: string
+          reason: string
+          session_id: number
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          created_by?: string | null
+          created_by_id?: string | null
+          id?: never
+          movement_type: string
+          reason: string
+          session_id: number
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          created_by?: string | null
+          created_by_id?: string | null
+          id?: never
+          movement_type?: string
+          reason?: string
+          session_id?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cash_movements_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "cash_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      cash_sessions: {
+        Row: {
+          closed_at: string | null
+          closed_by: string | null
+          closed_by_id: string | null
+          counted_cash: number | null
+          counted_denominations: Json | null
+          expected_cash: number | null
+          id: number
+          notes: string | null
+          opened_at: string
+          opened_by: string
+          opened_by_id: string | null
+          opening_float: number
+          status: string
+          terminal_id: string
+          variance: number | null
+        }
+        Insert: {
+          closed_at?: string | null
+          closed_by?: string | null
+          closed_by_id?: string | null
+          counted_cash?: number | null
+          counted_denominations?: Json | null
+          expected_cash?: number | null
+          id?: never
+          notes?: string | null
+          opened_at?: string
+          opened_by: string
+          opened_by_id?: string | null
+          opening_float?: number
+          status?: string
+          terminal_id: string
+          variance?: number | null
+        }
+        Update: {
+          closed_at?: string | null
+          closed_by?: string | null
+          closed_by_id?: string | null
+          counted_cash?: number | null
+          counted_denominations?: Json | null
+          expected_cash?: number | null
+          id?: never
+          notes?: string | null
+          opened_at?: string
+          opened_by?: string
+          opened_by_id?: string | null
+          opening_float?: number
+          status?: string
+          terminal_id?: string
+          variance?: number | null
+        }
+        Relationships: []
+      }
       categories: {
         Row: {
           categoryid: number
@@ -81,6 +221,103 @@ export type Database = {
         }
         Relationships: []
       }
+      category_tax_rates: {
+        Row: {
+          category: string
+          tax_rate_id: number
+        }
+        Insert: {
+          category: string
+          tax_rate_id: number
+        }
+        Update: {
+          category?: string
+          tax_rate_id?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "category_tax_rates_tax_rate_id_fkey"
+            columns: ["tax_rate_id"]
+            isOneToOne: false
+            referencedRelation: "tax_rates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      cost_layers: {
+        Row: {
+          created_at: string
+          id: number
+          movement_id: number | null
+          product_id: number
+          quantity: number
+          remaining: number
+          unit_cost: number
+        }
+        Insert: {
+          created_at?: string
+          id?: never
+          movement_id?: number | null
+          product_id: number
+          quantity: number
+          remaining: number
+          unit_cost: number
+        }
+        Update: {
+          created_at?: string
+          id?: never
+          movement_id?: number | null
+          product_id?: number
+          quantity?: number
+          remaining?: number
+          unit_cost?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cost_layers_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      customers: {
+        Row: {
+          billing_address: Json
+          created_at: string
+          email: string | null
+          id: number
+          name: string
+          notes: string | null
+          phone: string | null
+          shipping_address: Json
+          updated_at: string
+        }
+        Insert: {
+          billing_address?: Json
+          created_at?: string
+          email?: string | null
+          id?: never
+          name: string
+          notes?: string | null
+          phone?: string | null
+          shipping_address?: Json
+          updated_at?: string
+        }
+        Update: {
+          billing_address?: Json
+          created_at?: string
+          email?: string | null
+          id?: never
+          name?: string
+          notes?: string | null
+          phone?: string | null
+          shipping_address?: Json
+          updated_at?: string
+        }
+        Relationships: []
+      }
       deposits: {
         Row: {
           amount: number
@@ -114,6 +351,222 @@ export type Database = {
         }
         Relationships: []
       }
+      gift_card_transactions: {
+        Row: {
+          amount: number
+          balance_after: number
+          created_at: string
+          gift_card_id: number
+          id: number
+          note: string | null
+          order_id: number | null
+          refund_id: number | null
+          transaction_type: string
+        }
+        Insert: {
+          amount: number
+          balance_after?: number
+          created_at?: string
+          gift_card_id: number
+          id?: never
+          note?: string | null
+          order_id?: number | null
+          refund_id?: number | null
+          transaction_type: string
+        }
+        Update: {
+          amount?: number
+          balance_after?: number
+          created_at?: string
+          gift_card_id?: number
+          id?: never
+          note?: string | null
+          order_id?: number | null
+          refund_id?: number | null
+          transaction_type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "gift_card_transactions_gift_card_id_fkey"
+            columns: ["gift_card_id"]
+            isOneToOne: false
+            referencedRelation: "gift_cards"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "gift_card_transactions_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "gift_card_transactions_refund_id_fkey"
+            columns: ["refund_id"]
+            isOneToOne: false
+            referencedRelation: "refunds"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      gift_cards: {
+        Row: {
+          balance: number
+          code: string
+          created_at: string
+          customer_id: number | null
+          expires_at: string | null
+          id: number
+          initial_amount: number
+          issued_order_id: number | null
+          issued_order_item_id: number | null
+          issued_refund_id: number | null
+          kind: string
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          balance?: number
+          code: string
+          created_at?: string
+          customer_id?: number | null
+          expires_at?: string | null
+          id?: never
+          initial_amount: number
+          issued_order_id?: number | null
+          issued_order_item_id?: number | null
+          issued_refund_id?: number | null
+          kind: string
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          balance?: number
+          code?: string
+          created_at?: string
+          customer_id?: number | null
+          expires_at?: string | null
+          id?: never
+          initial_amount?: number
+          issued_order_id?: number | null
+          issued_order_item_id?: number | null
+          issued_refund_id?: number | null
+          kind?: string
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "gift_cards_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "gift_cards_issued_order_id_fkey"
+            columns: ["issued_order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "gift_cards_issued_order_item_id_fkey"
+            columns: ["issued_order_item_id"]
+            isOneToOne: false
+            referencedRelation: "order_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "gift_cards_issued_refund_id_fkey"
+            columns: ["issued_refund_id"]
+            isOneToOne: false
+            referencedRelation: "refunds"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      goods_receipt_lines: {
+        Row: {
+          goods_receipt_id: number
+          id: number
+          purchase_order_line_id: number
+          quantity: number
+        }
+        Insert: {
+          goods_receipt_id: number
+          id?: never
+          purchase_order_line_id: number
+          quantity: number
+        }
+        Update: {
+          goods_receipt_id?: number
+          id?: never
+          purchase_order_line_id?: number
+          quantity?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "goods_receipt_lines_goods_receipt_id_fkey"
+            columns: ["goods_receipt_id"]
+            isOneToOne: false
+            referencedRelation: "goods_receipts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "goods_receipt_lines_purchase_order_line_id_fkey"
+            columns: ["purchase_order_line_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_order_lines"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      goods_receipts: {
+        Row: {
+          id: number
+          location_id: number
+          notes: string | null
+          purchase_order_id: number
+          received_at: string
+          received_by: string | null
+          received_by_name: string | null
+        }
+        Insert: {
+          id?: never
+          location_id: number
+          notes?: string | null
+          purchase_order_id: number
+          received_at?: string
+          received_by?: string | null
+          received_by_name?: string | null
+        }
+        Update: {
+          id?: never
+          location_id?: number
+          notes?: string | null
+          purchase_order_id?: number
+          received_at?: string
+          received_by?: string | null
+          received_by_name?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "goods_receipts_purchase_order_id_fkey"
+            columns: ["purchase_order_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "goods_receipts_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       grants: {
         Row: {
           granteeid: string
@@ -201,24 +654,209 @@ export type Database = {
         }
         Relationships: []
       }
-      market: {
+      locations: {
         Row: {
-          avatar_url: string | null
-          created_at: string | null
-          description: string | null
-          full_name: string | null
-          id: string
-          name: string | null
-          price: string | null
-          rating: string | null
-          seller: string | null
-          specifications: string | null
-          updated_at: string | null
-          username: string | null
-          website: string | null
+          created_at: string
+          id: number
+          is_active: boolean
+          is_default: boolean
+          kind: string
+          name: string
         }
         Insert: {
-          avatar_url?: string | null
+          created_at?: string
+          id?: never
+          is_active?: boolean
+          is_default?: boolean
+          kind?: string
+          name: string
+        }
+        Update: {
+          created_at?: string
+          id?: never
+          is_active?: boolean
+          is_default?: boolean
+          kind?: string
+          name?: string
+        }
+        Relationships: []
+      }
+      loyalty_earn_rules: {
+        Row: {
+          bonus_points: number
+          category: string | null
+          created_at: string
+          id: number
+          is_active: boolean
+          min_order_total: number
+          name: string
+          points_per_dollar: number
+        }
+        Insert: {
+          bonus_points?: number
+          category?: string | null
+          created_at?: string
+          id?: never
+          is_active?: boolean
+          min_order_total?: number
+          name: string
+          points_per_dollar?: number
+        }
+        Update: {
+          bonus_points?: number
+          category?: string | null
+          created_at?: string
+          id?: never
+          is_active?: boolean
+          min_order_total?: number
+          name?: string
+          points_per_dollar?: number
+        }
+        Relationships: []
+      }
+      manager_approvals: {
+        Row: {
+          action: string
+          amount: number | null
+          approved_by: string
+          approved_by_name: string
+          cash_session_id: number | null
+          created_at: string
+          description: string
+          discount_type: string | null
+          id: number
+          order_id: number | null
+          product_id: number | null
+          refund_id: number | null
+          requested_by: string | null
+          requested_by_name: string | null
+          terminal_id: string | null
+          used_at: string | null
+        }
+        Insert: {
+          action: string
+          amount?: number | null
+          approved_by: string
+          approved_by_name: string
+          cash_session_id?: number | null
+          created_at?: string
+          description: string
+          discount_type?: string | null
+          id?: never
+          order_id?: number | null
+          product_id?: number | null
+          refund_id?: number | null
+          requested_by?: string | null
+          requested_by_name?: string | null
+          terminal_id?: string | null
+          used_at?: string | null
+        }
+        Update: {
+          action?: string
+          amount?: number | null
+          approved_by?: string
+          approved_by_name?: string
+          cash_session_id?: number | null
+          created_at?: string
+          description?: string
+          discount_type?: string | null
+          id?: never
+          order_id?: number | null
+          product_id?: number | null
+          refund_id?: number | null
+          requested_by?: string | null
+          requested_by_name?: string | null
+          terminal_id?: string | null
+          used_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "manager_approvals_cash_session_id_fkey"
+            columns: ["cash_session_id"]
+            isOneToOne: false
+            referencedRelation: "cash_sessions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "manager_approvals_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "manager_approvals_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "manager_approvals_refund_id_fkey"
+            columns: ["refund_id"]
+            isOneToOne: false
+            referencedRelation: "refunds"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      manager_pin_failures: {
+        Row: {
+          approver_id: string | null
+          created_at: string
+          id: number
+          user_id: string | null
+        }
+        Insert: {
+          approver_id?: string | null
+          created_at?: string
+          id?: never
+          user_id?: string | null
+        }
+        Update: {
+          approver_id?: string | null
+          created_at?: string
+          id?: never
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      manager_pins: {
+        Row: {
+          pin_hash: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          pin_hash: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          pin_hash?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      market: {
+        Row: {
+          avatar_url: string | null
+          created_at: string | null
+          description: string | null
+          full_name: string | null
+          id: string
+          name: string | null
+          price: string | null
+          rating: string | null
+          seller: string | null
+          specifications: string | null
+          updated_at: string | null
+          username: string | null
+          website: string | null
+        }
+        Insert: {
+          avatar_url?: string | null
           created_at?: string | null
           description?: string | null
           full_name?: string | null
@@ -249,40 +887,122 @@ export type Database = {
         }
         Relationships: []
       }
+      order_discounts: {
+        Row: {
+          amount: number
+          approval_id: number | null
+          authorised_by: string | null
+          created_at: string
+          description: string
+          discount_type: string | null
+          id: number
+          order_id: number
+          order_item_id: number | null
+          promotion_id: number | null
+          reason: string | null
+          source: string
+          value: number | null
+        }
+        Insert: {
+          amount: number
+          approval_id?: number | null
+          authorised_by?: string | null
+          created_at?: string
+          description: string
+          discount_type?: string | null
+          id?: never
+          order_id: number
+          order_item_id?: number | null
+          promotion_id?: number | null
+          reason?: string | null
+          source: string
+          value?: number | null
+        }
+        Update: {
+          amount?: number
+          approval_id?: number | null
+          authorised_by?: string | null
+          created_at?: string
+          description?: string
+          discount_type?: string | null
+          id?: never
+          order_id?: number
+          order_item_id?: number | null
+          promotion_id?: number | null
+          reason?: string | null
+          source?: string
+          value?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_discounts_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_discounts_order_item_id_fkey"
+            columns: ["order_item_id"]
+            isOneToOne: false
+            referencedRelation: "order_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_discounts_promotion_id_fkey"
+            columns: ["promotion_id"]
+            isOneToOne: false
+            referencedRelation: "promotions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       order_items: {
         Row: {
           created_at: string | null
+          discount_amount: number
           id: number
           order_id: number
           price: number
           product_id: number
           product_name: string
           quantity: number
+          refunded_amount: number
+          refunded_quantity: number
           sku: string
+          tax_amount: number
           total_price: number | null
           updated_at: string | null
         }
         Insert: {
           created_at?: string | null
+          discount_amount?: number
           id?: never
           order_id: number
           price: number
           product_id: number
           product_name: string
           quantity: number
+          refunded_amount?: number
+          refunded_quantity?: number
           sku: string
+          tax_amount?: number
           total_price?: number | null
           updated_at?: string | null
         }
         Update: {
           created_at?: string | null
+          discount_amount?: number
           id?: never
           order_id?: number
           price?: number
           product_id?: number
           product_name?: string
           quantity?: number
+          refunded_amount?: number
+          refunded_quantity?: number
           sku?: string
+          tax_amount?: number
           total_price?: number | null
           updated_at?: string | null
         }
@@ -296,81 +1016,225 @@ export type Database = {
           },
         ]
       }
+      order_tax_lines: {
+        Row: {
+          id: number
+          name: string
+          order_id: number
+          rate: number
+          tax_amount: number
+          tax_rate_id: number | null
+          taxable_amount: number
+        }
+        Insert: {
+          id?: never
+          name: string
+          order_id: number
+          rate: number
+          tax_amount: number
+          tax_rate_id?: number | null
+          taxable_amount: number
+        }
+        Update: {
+          id?: never
+          name?: string
+          order_id?: number
+          rate?: number
+          tax_amount?: number
+          tax_rate_id?: number | null
+          taxable_amount?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_tax_lines_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_tax_lines_tax_rate_id_fkey"
+            columns: ["tax_rate_id"]
+            isOneToOne: false
+            referencedRelation: "tax_rates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       orders: {
         Row: {
           billing_address: Json
+          cash_session_id: number | null
+          change_given: number
           created_at: string | null
+          customer_id: number | null
+          discount_total: number
           id: number
+          invoice_number: string | null
+          location_id: number | null
           order_number: string
           order_status: string | null
           payment_method: string | null
           payment_status: string | null
+          prices_include_tax: boolean
           shipping_address: Json
+          staff_id: string | null
+          subtotal: number | null
+          synced_at: string | null
+          tax_total: number
           total_amount: number
           updated_at: string | null
           user_id: number
         }
         Insert: {
           billing_address: Json
+          cash_session_id?: number | null
+          change_given?: number
           created_at?: string | null
+          customer_id?: number | null
+          discount_total?: number
           id?: never
+          invoice_number?: string | null
+          location_id?: number | null
           order_number: string
           order_status?: string | null
           payment_method?: string | null
           payment_status?: string | null
+          prices_include_tax?: boolean
           shipping_address: Json
+          staff_id?: string | null
+          subtotal?: number | null
+          synced_at?: string | null
+          tax_total?: number
           total_amount: number
           updated_at?: string | null
           user_id: number
         }
         Update: {
           billing_address?: Json
+          cash_session_id?: number | null
+          change_given?: number
           created_at?: string | null
+          customer_id?: number | null
+          discount_total?: number
           id?: never
+          invoice_number?: string | null
+          location_id?: number | null
           order_number?: string
           order_status?: string | null
           payment_method?: string | null
           payment_status?: string | null
+          prices_include_tax?: boolean
           shipping_address?: Json
+          staff_id?: string | null
+          subtotal?: number | null
+          synced_at?: string | null
+          tax_total?: number
           total_amount?: number
           updated_at?: string | null
           user_id?: number
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "orders_cash_session_id_fkey"
+            columns: ["cash_session_id"]
+            isOneToOne: false
+            referencedRelation: "cash_sessions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "orders_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "orders_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      parked_carts: {
+        Row: {
+          created_at: string
+          customer_id: number | null
+          id: number
+          items: Json
+          label: string
+          order_discount: Json | null
+          terminal_id: string
+        }
+        Insert: {
+          created_at?: string
+          customer_id?: number | null
+          id?: never
+          items?: Json
+          label: string
+          order_discount?: Json | null
+          terminal_id: string
+        }
+        Update: {
+          created_at?: string
+          customer_id?: number | null
+          id?: never
+          items?: Json
+          label?: string
+          order_discount?: Json | null
+          terminal_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "parked_carts_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       payments: {
         Row: {
           amount: number
           currency: string
           merchantid: number | null
+          order_id: number | null
           paymentgateway: string
           paymentid: number
           paymentstatus: string
           paymenttimestamp: string | null
+          refund_id: number | null
           user: string | null
-          userid: number
+          userid: number | null
         }
         Insert: {
           amount: number
           currency: string
           merchantid?: number | null
+          order_id?: number | null
           paymentgateway: string
           paymentid?: number
           paymentstatus: string
           paymenttimestamp?: string | null
+          refund_id?: number | null
           user?: string | null
-          userid: number
+          userid?: number | null
         }
         Update: {
           amount?: number
           currency?: string
           merchantid?: number | null
+          order_id?: number | null
           paymentgateway?: string
           paymentid?: number
           paymentstatus?: string
           paymenttimestamp?: string | null
+          refund_id?: number | null
           user?: string | null
-          userid?: number
+          userid?: number | null
         }
         Relationships: [
           {
@@ -380,6 +1244,13 @@ export type Database = {
             referencedRelation: "tbl_user"
             referencedColumns: ["userid"]
           },
+          {
+            foreignKeyName: "payments_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "payments_userid_fkey"
             columns: ["userid"]
@@ -387,6 +1258,13 @@ export type Database = {
             referencedRelation: "tbl_user"
             referencedColumns: ["userid"]
           },
+          {
+            foreignKeyName: "payments_refund_id_fkey"
+            columns: ["refund_id"]
+            isOneToOne: false
+            referencedRelation: "refunds"
+            referencedColumns: ["id"]
+          },
         ]
       }
       payouts: {
@@ -419,39 +1297,92 @@ export type Database = {
         }
         Relationships: []
       }
-      products: {
+      product_recipes: {
         Row: {
-          available_colors: string[] | null
-          category: string | null
-          created_at: string | null
-          description: string | null
-          features: string[] | null
+          component_id: number
+          created_at: string
+          finished_product_id: number
           id: number
-          minimum_order: number | null
-          photo_url: string | null
-          price: number
-          product_name: string
-          ratings: number | null
-          reviews_count: number | null
-          seller_id: string | null
-          sku: string
-          specifications: Json | null
-          status: string | null
-          stock_quantity: number | null
-          updated_at: string | null
+          quantity_required: number
         }
         Insert: {
-          available_colors?: string[] | null
-          category?: string | null
-          created_at?: string | null
-          description?: string | null
+          component_id: number
+          created_at?: string
+          finished_product_id: number
+          id?: never
+          quantity_required: number
+        }
+        Update: {
+          component_id?: number
+          created_at?: string
+          finished_product_id?: number
+          id?: never
+          quantity_required?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "product_recipes_component_id_fkey"
+            columns: ["component_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "product_recipes_finished_product_id_fkey"
+            columns: ["finished_product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      products: {
+        Row: {
+          alternate_codes: string[]
+          available_colors: string[] | null
+          average_cost: number
+          barcode: string | null
+          category: string | null
+          created_at: string | null
+          description: string | null
+          features: string[] | null
+          id: number
+          is_gift_card: boolean
+          minimum_order: number | null
+          photo_url: string | null
+          preferred_supplier_id: number | null
+          price: number
+          product_name: string
+          ratings: number | null
+          reorder_point: number | null
+          reorder_quantity: number | null
+          reviews_count: number | null
+          seller_id: string | null
+          sku: string
+          specifications: Json | null
+          status: string | null
+          stock_quantity: number | null
+          updated_at: string | null
+        }
+        Insert: {
+          alternate_codes?: string[]
+          available_colors?: string[] | null
+          average_cost?: number
+          barcode?: string | null
+          category?: string | null
+          created_at?: string | null
+          description?: string | null
           features?: string[] | null
           id?: never
+          is_gift_card?: boolean
           minimum_order?: number | null
           photo_url?: string | null
+          preferred_supplier_id?: number | null
           price: number
           product_name: string
           ratings?: number | null
+          reorder_point?: number | null
+          reorder_quantity?: number | null
           reviews_count?: number | null
           seller_id?: string | null
           sku: string
@@ -461,17 +1392,24 @@ export type Database = {
           updated_at?: string | null
         }
         Update: {
+          alternate_codes?: string[]
           available_colors?: string[] | null
+          average_cost?: number
+          barcode?: string | null
           category?: string | null
           created_at?: string | null
           description?: string | null
           features?: string[] | null
           id?: never
+          is_gift_card?: boolean
           minimum_order?: number | null
           photo_url?: string | null
+          preferred_supplier_id?: number | null
           price?: number
           product_name?: string
           ratings?: number | null
+          reorder_point?: number | null
+          reorder_quantity?: number | null
           reviews_count?: number | null
           seller_id?: string | null
           sku?: string
@@ -488,6 +1426,13 @@ export type Database = {
             referencedRelation: "sellers"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "products_preferred_supplier_id_fkey"
+            columns: ["preferred_supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          },
         ]
       }
       profiles: {
@@ -517,6 +1462,39 @@ export type Database = {
         }
         Relationships: []
       }
+      promotions: {
+        Row: {
+          config: Json
+          created_at: string
+          ends_at: string | null
+          id: number
+          is_active: boolean
+          name: string
+          starts_at: string | null
+          type: string
+        }
+        Insert: {
+          config?: Json
+          created_at?: string
+          ends_at?: string | null
+          id?: never
+          is_active?: boolean
+          name: string
+          starts_at?: string | null
+          type: string
+        }
+        Update: {
+          config?: Json
+          created_at?: string
+          ends_at?: string | null
+          id?: never
+          is_active?: boolean
+          name?: string
+          starts_at?: string | null
+          type?: string
+        }
+        Relationships: []
+      }
       providers: {
         Row: {
           accepts_card: boolean | null
@@ -601,114 +1579,467 @@ export type Database = {
         }
         Relationships: []
       }
+      purchase_order_lines: {
+        Row: {
+          id: number
+          product_id: number
+          purchase_order_id: number
+          quantity: number
+          quantity_closed: number
+          quantity_received: number
+          unit_price: number
+        }
+        Insert: {
+          id?: never
+          product_id: number
+          purchase_order_id: number
+          quantity: number
+          quantity_closed?: number
+          quantity_received?: number
+          unit_price?: number
+        }
+        Update: {
+          id?: never
+          product_id?: number
+          purchase_order_id?: number
+          quantity?: number
+          quantity_closed?: number
+          quantity_received?: number
+          unit_price?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "purchase_order_lines_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_order_lines_purchase_order_id_fkey"
+            columns: ["purchase_order_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      purchase_orders: {
+        Row: {
+          cancelled_at: string | null
+          close_reason: string | null
+          closed_at: string | null
+          closed_by_name: string | null
+          created_at: string
+          created_by: string | null
+          created_by_name: string | null
+          id: number
+          notes: string | null
+          sent_at: string | null
+          sent_by_name: string | null
+          status: string
+          supplier_id: number | null
+          updated_at: string
+        }
+        Insert: {
+          cancelled_at?: string | null
+          close_reason?: string | null
+          closed_at?: string | null
+          closed_by_name?: string | null
+          created_at?: string
+          created_by?: string | null
+          created_by_name?: string | null
+          id?: never
+          notes?: string | null
+          sent_at?: string | null
+          sent_by_name?: string | null
+          status?: string
+          supplier_id?: number | null
+          updated_at?: string
+        }
+        Update: {
+          cancelled_at?: string | null
+          close_reason?: string | null
+          closed_at?: string | null
+          closed_by_name?: string | null
+          created_at?: string
+          created_by?: string | null
+          created_by_name?: string | null
+          id?: never
+          notes?: string | null
+          sent_at?: string | null
+          sent_by_name?: string | null
+          status?: string
+          supplier_id?: number | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "purchase_orders_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      purchases: {
+        Row: {
+          created_at: string
+          goods_receipt_id: number | null
+          id: number
+          location_id: number | null
+          notes: string | null
+          product_id: number
+          purchase_date: string
+          purchase_order_id: number | null
+          quantity: number
+          supplier: string | null
+          supplier_id: number | null
+          total_amount: number
+          unit_price: number
+        }
+        Insert: {
+          created_at?: string
+          goods_receipt_id?: number | null
+          id?: never
+          location_id?: number | null
+          notes?: string | null
+          product_id: number
+          purchase_date?: string
+          purchase_order_id?: number | null
+          quantity: number
+          supplier?: string | null
+          supplier_id?: number | null
+          total_amount: number
+          unit_price: number
+        }
+        Update: {
+          created_at?: string
+          goods_receipt_id?: number | null
+          id?: never
+          location_id?: number | null
+          notes?: string | null
+          product_id?: number
+          purchase_date?: string
+          purchase_order_id?: number | null
+          quantity?: number
+          supplier?: string | null
+          supplier_id?: number | null
+          total_amount?: number
+          unit_price?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "purchases_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchases_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchases_purchase_order_id_fkey"
+            columns: ["purchase_order_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchases_goods_receipt_id_fkey"
+            columns: ["goods_receipt_id"]
+            isOneToOne: false
+            referencedRelation: "goods_receipts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchases_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       referals: {
         Row: {
           amount: number | null
+          order_id: number | null
           referalcode1: string
           referalcode2: string
           referalid: number
           referaltimestamp: string | null
+          referee_customer_id: number | null
+          referrer_customer_id: number | null
+          rewarded_at: string | null
           userid: string
         }
         Insert: {
           amount?: number | null
+          order_id?: number | null
           referalcode1: string
           referalcode2: string
           referalid?: number
           referaltimestamp?: string | null
+          referee_customer_id?: number | null
+          referrer_customer_id?: number | null
+          rewarded_at?: string | null
           userid: string
         }
         Update: {
           amount?: number | null
+          order_id?: number | null
           referalcode1?: string
           referalcode2?: string
           referalid?: number
           referaltimestamp?: string | null
+          referee_customer_id?: number | null
+          referrer_customer_id?: number | null
+          rewarded_at?: string | null
           userid?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "referals_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "referals_referee_customer_id_fkey"
+            columns: ["referee_customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "referals_referrer_customer_id_fkey"
+            columns: ["referrer_customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       referals2: {
         Row: {
+          customer_id: number | null
           referalcode: string
           referalid: number
           referaltimestamp: string | null
           userid: string
         }
         Insert: {
+          customer_id?: number | null
           referalcode: string
           referalid?: number
           referaltimestamp?: string | null
           userid: string
         }
         Update: {
+          customer_id?: number | null
           referalcode?: string
           referalid?: number
           referaltimestamp?: string | null
           userid?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "referals2_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      rewards: {
+      refund_items: {
         Row: {
           amount: number
-          created_at: string | null
-          currency: string
           id: number
-          referalcode2: string | null
-          userid: string
+          order_item_id: number
+          quantity: number
+          refund_id: number
+          restocked: boolean
         }
         Insert: {
           amount: number
-          created_at?: string | null
-          currency: string
-          id?: number
-          referalcode2?: string | null
-          userid: string
+          id?: never
+          order_item_id: number
+          quantity: number
+          refund_id: number
+          restocked?: boolean
         }
         Update: {
           amount?: number
-          created_at?: string | null
-          currency?: string
-          id?: number
-          referalcode2?: string | null
-          userid?: string
+          id?: never
+          order_item_id?: number
+          quantity?: number
+          refund_id?: number
+          restocked?: boolean
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "refund_items_order_item_id_fkey"
+            columns: ["order_item_id"]
+            isOneToOne: false
+            referencedRelation: "order_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "refund_items_refund_id_fkey"
+            columns: ["refund_id"]
+            isOneToOne: false
+            referencedRelation: "refunds"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      sales: {
+      refunds: {
         Row: {
-          commission_amount: number | null
-          commission_rate: number | null
-          created_at: string | null
+          amount: number
+          cash_session_id: number | null
+          created_at: string
           id: number
           order_id: number
-          product_id: number
-          quantity: number
-          sale_amount: number
-          seller_id: string
+          reason: string | null
+          refund_method: string
+          refund_number: string
+          staff_id: string | null
         }
         Insert: {
-          commission_amount?: number | null
-          commission_rate?: number | null
-          created_at?: string | null
+          amount: number
+          cash_session_id?: number | null
+          created_at?: string
           id?: never
           order_id: number
-          product_id: number
-          quantity: number
-          sale_amount: number
-          seller_id: string
+          reason?: string | null
+          refund_method: string
+          refund_number: string
+          staff_id?: string | null
         }
         Update: {
-          commission_amount?: number | null
-          commission_rate?: number | null
-          created_at?: string | null
+          amount?: number
+          cash_session_id?: number | null
+          created_at?: string
           id?: never
           order_id?: number
-          product_id?: number
-          quantity?: number
-          sale_amount?: number
-          seller_id?: string
+          reason?: string | null
+          refund_method?: string
+          refund_number?: string
+          staff_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "refunds_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "refunds_cash_session_id_fkey"
+            columns: ["cash_session_id"]
+            isOneToOne: false
+            referencedRelation: "cash_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      rewards: {
+        Row: {
+          amount: number
+          created_at: string | null
+          currency: string
+          customer_id: number | null
+          description: string | null
+          id: number
+          order_id: number | null
+          referalcode2: string | null
+          reward_type: string | null
+          userid: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string | null
+          currency: string
+          customer_id?: number | null
+          description?: string | null
+          id?: number
+          order_id?: number | null
+          referalcode2?: string | null
+          reward_type?: string | null
+          userid: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string | null
+          currency?: string
+          customer_id?: number | null
+          description?: string | null
+          id?: number
+          order_id?: number | null
+          referalcode2?: string | null
+          reward_type?: string | null
+          userid?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "rewards_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "rewards_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sales: {
+        Row: {
+          commission_amount: number | null
+          commission_rate: number | null
+          created_at: string | null
+          id: number
+          order_id: number
+          product_id: number
+          quantity: number
+          sale_amount: number
+          seller_id: string
+        }
+        Insert: {
+          commission_amount?: number | null
+          commission_rate?: number | null
+          created_at?: string | null
+          id?: never
+          order_id: number
+          product_id: number
+          quantity: number
+          sale_amount: number
+          seller_id: string
+        }
+        Update: {
+          commission_amount?: number | null
+          commission_rate?: number | null
+          created_at?: string | null
+          id?: never
+          order_id?: number
+          product_id?: number
+          quantity?: number
+          sale_amount?: number
+          seller_id?: string
         }
         Relationships: [
           {
@@ -776,6 +2107,488 @@ export type Database = {
         }
         Relationships: []
       }
+      stock_levels: {
+        Row: {
+          location_id: number
+          product_id: number
+          quantity: number
+          updated_at: string
+        }
+        Insert: {
+          location_id: number
+          product_id: number
+          quantity?: number
+          updated_at?: string
+        }
+        Update: {
+          location_id?: number
+          product_id?: number
+          quantity?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_levels_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_levels_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock_movements: {
+        Row: {
+          cost_amount: number | null
+          created_at: string
+          created_by: string | null
+          created_by_name: string | null
+          id: number
+          location_id: number
+          note: string | null
+          product_id: number
+          quantity: number
+          quantity_after: number
+          reason: string
+          reference_id: number | null
+          unit_cost: number | null
+        }
+        Insert: {
+          cost_amount?: number | null
+          created_at?: string
+          created_by?: string | null
+          created_by_name?: string | null
+          id?: never
+          location_id?: number
+          note?: string | null
+          product_id: number
+          quantity: number
+          quantity_after?: number
+          reason: string
+          reference_id?: number | null
+          unit_cost?: number | null
+        }
+        Update: {
+          cost_amount?: number | null
+          created_at?: string
+          created_by?: string | null
+          created_by_name?: string | null
+          id?: never
+          location_id?: number
+          note?: string | null
+          product_id?: number
+          quantity?: number
+          quantity_after?: number
+          reason?: string
+          reference_id?: number | null
+          unit_cost?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_movements_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_movements_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock_transfer_lines: {
+        Row: {
+          id: number
+          product_id: number
+          quantity: number
+          transfer_id: number
+        }
+        Insert: {
+          id?: never
+          product_id: number
+          quantity: number
+          transfer_id: number
+        }
+        Update: {
+          id?: never
+          product_id?: number
+          quantity?: number
+          transfer_id?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_transfer_lines_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_transfer_lines_transfer_id_fkey"
+            columns: ["transfer_id"]
+            isOneToOne: false
+            referencedRelation: "stock_transfers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock_transfers: {
+        Row: {
+          dispatched_at: string
+          dispatched_by: string | null
+          dispatched_by_name: string | null
+          from_location_id: number
+          id: number
+          notes: string | null
+          received_at: string | null
+          received_by: string | null
+          received_by_name: string | null
+          status: string
+          to_location_id: number
+        }
+        Insert: {
+          dispatched_at?: string
+          dispatched_by?: string | null
+          dispatched_by_name?: string | null
+          from_location_id: number
+          id?: never
+          notes?: string | null
+          received_at?: string | null
+          received_by?: string | null
+          received_by_name?: string | null
+          status?: string
+          to_location_id: number
+        }
+        Update: {
+          dispatched_at?: string
+          dispatched_by?: string | null
+          dispatched_by_name?: string | null
+          from_location_id?: number
+          id?: never
+          notes?: string | null
+          received_at?: string | null
+          received_by?: string | null
+          received_by_name?: string | null
+          status?: string
+          to_location_id?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_transfers_from_location_id_fkey"
+            columns: ["from_location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_transfers_to_location_id_fkey"
+            columns: ["to_location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stocktake_lines: {
+        Row: {
+          counted_at: string | null
+          counted_by_name: string | null
+          counted_quantity: number | null
+          expected_quantity: number
+          id: number
+          on_hand_at_count: number | null
+          product_id: number
+          stocktake_id: number
+          unit_value: number
+        }
+        Insert: {
+          counted_at?: string | null
+          counted_by_name?: string | null
+          counted_quantity?: number | null
+          expected_quantity: number
+          id?: never
+          on_hand_at_count?: number | null
+          product_id: number
+          stocktake_id: number
+          unit_value?: number
+        }
+        Update: {
+          counted_at?: string | null
+          counted_by_name?: string | null
+          counted_quantity?: number | null
+          expected_quantity?: number
+          id?: never
+          on_hand_at_count?: number | null
+          product_id?: number
+          stocktake_id?: number
+          unit_value?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stocktake_lines_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stocktake_lines_stocktake_id_fkey"
+            columns: ["stocktake_id"]
+            isOneToOne: false
+            referencedRelation: "stocktakes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stocktakes: {
+        Row: {
+          approved_at: string | null
+          approved_by: string | null
+          approved_by_name: string | null
+          category: string | null
+          created_at: string
+          created_by: string | null
+          created_by_name: string | null
+          id: number
+          location_id: number
+          notes: string | null
+          status: string
+        }
+        Insert: {
+          approved_at?: string | null
+          approved_by?: string | null
+          approved_by_name?: string | null
+          category?: string | null
+          created_at?: string
+          created_by?: string | null
+          created_by_name?: string | null
+          id?: never
+          location_id?: number
+          notes?: string | null
+          status?: string
+        }
+        Update: {
+          approved_at?: string | null
+          approved_by?: string | null
+          approved_by_name?: string | null
+          category?: string | null
+          created_at?: string
+          created_by?: string | null
+          created_by_name?: string | null
+          id?: never
+          location_id?: number
+          notes?: string | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stocktakes_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      store_settings: {
+        Row: {
+          address: string | null
+          costing_method: string
+          currency: string
+          email: string | null
+          footer_text: string | null
+          gift_card_expiry_months: number | null
+          id: number
+          invoice_prefix: string
+          legal_name: string | null
+          logo_url: string | null
+          next_invoice_number: number
+          phone: string | null
+          points_redemption_value: number
+          prices_include_tax: boolean
+          referral_referee_points: number
+          referral_referrer_points: number
+          refund_approval_threshold: number | null
+          store_credit_expiry_months: number | null
+          store_name: string
+          tax_id: string | null
+          time_zone: string
+          updated_at: string
+        }
+        Insert: {
+          address?: string | null
+          costing_method?: string
+          currency?: string
+          email?: string | null
+          footer_text?: string | null
+          gift_card_expiry_months?: number | null
+          id?: number
+          invoice_prefix?: string
+          legal_name?: string | null
+          logo_url?: string | null
+          next_invoice_number?: number
+          phone?: string | null
+          points_redemption_value?: number
+          prices_include_tax?: boolean
+          referral_referee_points?: number
+          referral_referrer_points?: number
+          refund_approval_threshold?: number | null
+          store_credit_expiry_months?: number | null
+          store_name?: string
+          tax_id?: string | null
+          time_zone?: string
+          updated_at?: string
+        }
+        Update: {
+          address?: string | null
+          costing_method?: string
+          currency?: string
+          email?: string | null
+          footer_text?: string | null
+          gift_card_expiry_months?: number | null
+          id?: number
+          invoice_prefix?: string
+          legal_name?: string | null
+          logo_url?: string | null
+          next_invoice_number?: number
+          phone?: string | null
+          points_redemption_value?: number
+          prices_include_tax?: boolean
+          referral_referee_points?: number
+          referral_referrer_points?: number
+          refund_approval_threshold?: number | null
+          store_credit_expiry_months?: number | null
+          store_name?: string
+          tax_id?: string | null
+          time_zone?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      supplier_prices: {
+        Row: {
+          id: number
+          product_id: number
+          supplier_id: number
+          supplier_sku: string | null
+          unit_price: number
+          updated_at: string
+        }
+        Insert: {
+          id?: never
+          product_id: number
+          supplier_id: number
+          supplier_sku?: string | null
+          unit_price: number
+          updated_at?: string
+        }
+        Update: {
+          id?: never
+          product_id?: number
+          supplier_id?: number
+          supplier_sku?: string | null
+          unit_price?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "supplier_prices_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "supplier_prices_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      suppliers: {
+        Row: {
+          address: string | null
+          contact_name: string | null
+          created_at: string
+          currency: string
+          email: string | null
+          id: number
+          is_active: boolean
+          lead_time_days: number | null
+          name: string
+          notes: string | null
+          payment_terms: string | null
+          phone: string | null
+          updated_at: string
+        }
+        Insert: {
+          address?: string | null
+          contact_name?: string | null
+          created_at?: string
+          currency?: string
+          email?: string | null
+          id?: never
+          is_active?: boolean
+          lead_time_days?: number | null
+          name: string
+          notes?: string | null
+          payment_terms?: string | null
+          phone?: string | null
+          updated_at?: string
+        }
+        Update: {
+          address?: string | null
+          contact_name?: string | null
+          created_at?: string
+          currency?: string
+          email?: string | null
+          id?: never
+          is_active?: boolean
+          lead_time_days?: number | null
+          name?: string
+          notes?: string | null
+          payment_terms?: string | null
+          phone?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      tax_rates: {
+        Row: {
+          created_at: string
+          id: number
+          is_active: boolean
+          name: string
+          rate: number
+        }
+        Insert: {
+          created_at?: string
+          id?: never
+          is_active?: boolean
+          name: string
+          rate: number
+        }
+        Update: {
+          created_at?: string
+          id?: never
+          is_active?: boolean
+          name?: string
+          rate?: number
+        }
+        Relationships: []
+      }
       tbl_user: {
         Row: {
           balance: number
@@ -856,32 +2669,44 @@ export type Database = {
       }
       production_batches: {
         Row: {
-          id: number
+          created_at: string
           finished_product_id: number
+          id: number
+          location_id: number | null
+          notes: string | null
           quantity_produced: number
           status: 'in_progress' | 'completed' | 'failed'
-          notes: string | null
-          created_at: string
           updated_at: string
         }
         Insert: {
-          id?: number
+          created_at?: string
           finished_product_id: number
+          id?: number
+          location_id?: number | null
+          notes?: string | null
           quantity_produced: number
           status: 'in_progress' | 'completed' | 'failed'
-          notes?: string | null
-          created_at?: string
           updated_at?: string
         }
         Update: {
-          id?: number
+          created_at?: string
           finished_product_id?: number
+          id?: number
+          location_id?: number | null
+          notes?: string | null
           quantity_produced?: number
           status?: 'in_progress' | 'completed' | 'failed'
-          notes?: string | null
-          created_at?: string
           updated_at?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: "production_batches_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       production_batch_components: {
         Row: {
@@ -908,10 +2733,406 @@ export type Database = {
       }
     }
     Views: {
-      [_ in never]: never
+      customer_summaries: {
+        Row: {
+          customer_id: number | null
+          last_order_at: string | null
+          lifetime_spend: number | null
+          order_count: number | null
+        }
+        Relationships: []
+      }
+      gift_card_liability: {
+        Row: {
+          expired_unclaimed: number | null
+          issued_total: number | null
+          kind: string | null
+          open_cards: number | null
+          outstanding: number | null
+        }
+        Relationships: []
+      }
+      inventory_valuation: {
+        Row: {
+          category: string | null
+          costing_method: string | null
+          inventory_value: number | null
+          product_id: number | null
+          product_name: string | null
+          sku: string | null
+          stock_quantity: number | null
+          unit_cost: number | null
+        }
+        Relationships: []
+      }
+      loyalty_balances: {
+        Row: {
+          customer_id: number | null
+          points_balance: number | null
+          points_earned: number | null
+          points_redeemed: number | null
+        }
+        Relationships: []
+      }
+      order_item_margins: {
+        Row: {
+          cost_of_goods: number | null
+          created_at: string | null
+          gross_margin: number | null
+          location_id: number | null
+          order_id: number | null
+          order_item_id: number | null
+          order_number: string | null
+          product_id: number | null
+          product_name: string | null
+          quantity: number | null
+          revenue: number | null
+          sku: string | null
+        }
+        Relationships: []
+      }
+      reorder_alerts: {
+        Row: {
+          category: string | null
+          last_unit_price: number | null
+          on_order_quantity: number | null
+          preferred_supplier: string | null
+          preferred_supplier_id: number | null
+          product_id: number | null
+          product_name: string | null
+          reorder_point: number | null
+          reorder_quantity: number | null
+          sku: string | null
+          stock_quantity: number | null
+          suggested_quantity: number | null
+        }
+        Relationships: []
+      }
+      stock_reconciliation: {
+        Row: {
+          difference: number | null
+          last_movement_at: string | null
+          ledger_quantity: number | null
+          product_id: number | null
+          product_name: string | null
+          sku: string | null
+          stock_quantity: number | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
-      [_ in never]: never
+      adjust_gift_card: {
+        Args: {
+          p_gift_card_id: number
+          p_amount: number
+          p_note: string
+        }
+        Returns: Database["public"]["Tables"]["gift_cards"]["Row"]
+      }
+      adjust_stock: {
+        Args: {
+          p_product_id: number
+          p_counted: number
+          p_note?: string
+          p_location_id?: number
+        }
+        Returns: Json
+      }
+      app_roles: {
+        Args: Record<PropertyKey, never>
+        Returns: string[]
+      }
+      apply_order_tax: {
+        Args: {
+          p_order_id: number
+        }
+        Returns: undefined
+      }
+      apply_referral_code: {
+        Args: {
+          p_customer_id: number
+          p_code: string
+        }
+        Returns: undefined
+      }
+      approve_action: {
+        Args: {
+          p_action: string
+          p_description: string
+          p_pin?: string
+          p_amount?: number
+          p_product_id?: number
+          p_order_id?: number
+          p_cash_session_id?: number
+          p_terminal_id?: string
+          p_approver_id?: string
+          p_discount_type?: string
+        }
+        Returns: Json
+      }
+      approve_stocktake: {
+        Args: {
+          p_stocktake_id: number
+        }
+        Returns: number
+      }
+      approving_managers: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          user_id: string
+          name: string
+        }[]
+      }
+      award_order_points: {
+        Args: {
+          p_order_id: number
+        }
+        Returns: number
+      }
+      cancel_purchase_order: {
+        Args: {
+          p_purchase_order_id: number
+        }
+        Returns: undefined
+      }
+      cancel_stocktake: {
+        Args: {
+          p_stocktake_id: number
+        }
+        Returns: undefined
+      }
+      cancel_transfer: {
+        Args: {
+          p_transfer_id: number
+        }
+        Returns: undefined
+      }
+      cash_session_report: {
+        Args: {
+          p_session_id: number
+        }
+        Returns: Json
+      }
+      claim_manager_approval: {
+        Args: {
+          p_approval_id: number
+          p_action: string
+        }
+        Returns: Database["public"]["Tables"]["manager_approvals"]["Row"]
+      }
+      close_cash_session: {
+        Args: {
+          p_session_id: number
+          p_counted_denominations: Json
+          p_closed_by: string
+          p_notes?: string
+        }
+        Returns: Json
+      }
+      close_purchase_order: {
+        Args: {
+          p_purchase_order_id: number
+          p_reason: string
+        }
+        Returns: Json
+      }
+      complete_production: {
+        Args: {
+          p_finished_product_id: number
+          p_quantity: number
+          p_notes?: string
+          p_location_id?: number
+        }
+        Returns: Json
+      }
+      create_pos_order: {
+        Args: {
+          p_items: Json
+          p_tenders: Json
+          p_discounts?: Json
+          p_cash_session_id?: number
+          p_order_number?: string
+          p_created_at?: string
+          p_offline?: boolean
+          p_customer_id?: number
+          p_location_id?: number
+        }
+        Returns: Json
+      }
+      create_purchase_order: {
+        Args: {
+          p_supplier_id: number
+          p_lines: Json
+          p_notes?: string
+        }
+        Returns: Json
+      }
+      create_refund: {
+        Args: {
+          p_order_id: number
+          p_items: Json
+          p_refund_method: string
+          p_reason?: string
+          p_cash_session_id?: number
+          p_approval_id?: number
+        }
+        Returns: Json
+      }
+      default_location_id: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      delete_product: {
+        Args: {
+          p_product_id: number
+          p_approval_id: number
+        }
+        Returns: undefined
+      }
+      dispatch_transfer: {
+        Args: {
+          p_from_location_id: number
+          p_to_location_id: number
+          p_items: Json
+          p_notes?: string
+        }
+        Returns: Json
+      }
+      expire_gift_cards: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      has_role: {
+        Args: {
+          p_roles: string[]
+        }
+        Returns: boolean
+      }
+      issue_gift_card: {
+        Args: {
+          p_kind: string
+          p_amount: number
+          p_customer_id?: number
+          p_order_id?: number
+          p_order_item_id?: number
+          p_refund_id?: number
+        }
+        Returns: Database["public"]["Tables"]["gift_cards"]["Row"]
+      }
+      new_gift_card_code: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      new_referral_code: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      normalise_gift_card_code: {
+        Args: {
+          p_code: string
+        }
+        Returns: string
+      }
+      order_line_tax_rates: {
+        Args: {
+          p_order_id: number
+        }
+        Returns: {
+          order_item_id: number
+          amount: number
+          tax_rate_id: number
+          name: string
+          rate: number
+          combined_rate: number
+        }[]
+      }
+      pos_order_json: {
+        Args: {
+          p_order_id: number
+        }
+        Returns: Json
+      }
+      production_location_id: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      receive_purchase_order: {
+        Args: {
+          p_purchase_order_id: number
+          p_lines: Json
+          p_location_id?: number
+          p_notes?: string
+        }
+        Returns: Json
+      }
+      receive_transfer: {
+        Args: {
+          p_transfer_id: number
+        }
+        Returns: Json
+      }
+      redeem_gift_card: {
+        Args: {
+          p_code: string
+          p_kind: string
+          p_order_id: number
+          p_amount: number
+        }
+        Returns: Database["public"]["Tables"]["gift_card_transactions"]["Row"]
+      }
+      redeem_loyalty_points: {
+        Args: {
+          p_order_id: number
+          p_customer_id: number
+          p_amount: number
+        }
+        Returns: number
+      }
+      require_role: {
+        Args: {
+          p_roles: string[]
+        }
+        Returns: undefined
+      }
+      send_purchase_order: {
+        Args: {
+          p_purchase_order_id: number
+        }
+        Returns: Json
+      }
+      set_default_location: {
+        Args: {
+          p_location_id: number
+        }
+        Returns: undefined
+      }
+      set_manager_pin: {
+        Args: {
+          p_pin: string
+        }
+        Returns: undefined
+      }
+      staff_display_name: {
+        Args: {
+          p_user_id: string
+        }
+        Returns: string
+      }
+      staff_roles: {
+        Args: {
+          p_user_id: string
+        }
+        Returns: string[]
+      }
+      start_stocktake: {
+        Args: {
+          p_category?: string
+          p_notes?: string
+          p_location_id?: number
+        }
+        Returns: Json
+      }
     }
     Enums: {
       [_ in never]: never
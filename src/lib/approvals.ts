@@ -0,0 +1,42 @@
+import { ApprovalAction } from '@/types/approval';
+import { AuditSource } from '@/types/audit';
+import { DiscountType } from '@/lib/pricing';
+
+export const APPROVAL_ACTION_LABELS: Record<ApprovalAction, string> = {
+  void_line: 'Void Line',
+  price_override: 'Price Override',
+  delete_product: 'Delete Product',
+  refund: 'Refund',
+  no_sale: 'No Sale',
+  manual_discount: 'Discount'
+};
+
+// The screen each kind of approval is asked for on, for the audit log.
+export const APPROVAL_ACTION_SOURCES: Record<ApprovalAction, AuditSource> = {
+  void_line: 'pos',
+  price_override: 'pos',
+  delete_product: 'products',
+  refund: 'returns',
+  no_sale: 'cash',
+  manual_discount: 'pos'
+};
+
+// What the approval prompt asks a manager to approve. amount is the new unit
+// price for a price override, the refund total for a refund and the
+// percentage or amount off for a manual discount; the server takes these from
+// the approval, not from the cart.
+export interface ApprovalRequest {
+  action: ApprovalAction;
+  description: string;
+  amount?: number;
+  discountType?: DiscountType;
+  productId?: number;
+  orderId?: number;
+  cashSessionId?: number;
+}
+
+// Mirrors create_refund: once the refunds on an order, this one included,
+// come to more than the threshold they need approval, and a null threshold
+// means they never do.
+export const refundNeedsApproval = (orderRefundTotal: number, threshold: number | null | undefined): boolean =>
+  threshold !== null && threshold !== undefined && orderRefundTotal > Number(threshold);
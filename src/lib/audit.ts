@@ -0,0 +1,77 @@
+import { AuditAction, AuditSource } from '@/types/audit';
+
+// Read by the audit_row_change trigger to record which screen made a
+// change. Writes set it with .setHeader(AUDIT_SOURCE_HEADER, source).
+export const AUDIT_SOURCE_HEADER = 'x-app-source';
+
+export const AUDIT_SOURCE_LABELS: Record<AuditSource, string> = {
+  pos: 'POS',
+  orders: 'Orders',
+  returns: 'Returns',
+  customers: 'Customers',
+  'gift-cards': 'Gift Cards',
+  cash: 'Cash Drawer',
+  products: 'Products',
+  recipes: 'Recipes',
+  production: 'Production',
+  purchases: 'Purchases',
+  suppliers: 'Suppliers',
+  stocktake: 'Stocktake',
+  transfers: 'Transfers',
+  promotions: 'Promotions',
+  settings: 'Settings',
+  staff: 'Staff'
+};
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  insert: 'Created',
+  update: 'Changed',
+  delete: 'Deleted'
+};
+
+export const AUDITED_TABLES = [
+  'products',
+  'product_recipes',
+  'production_batches',
+  'production_batch_components',
+  'purchases',
+  'purchase_orders',
+  'purchase_order_lines',
+  'goods_receipts',
+  'goods_receipt_lines',
+  'suppliers',
+  'supplier_prices',
+  'stocktakes',
+  'stocktake_lines',
+  'locations',
+  'stock_transfers',
+  'stock_transfer_lines',
+  'orders',
+  'order_items',
+  'order_tax_lines',
+  'order_discounts',
+  'payments',
+  'refunds',
+  'refund_items',
+  'parked_carts',
+  'customers',
+  'cash_sessions',
+  'cash_movements',
+  'gift_cards',
+  'gift_card_transactions',
+  'store_settings',
+  'tax_rates',
+  'category_tax_rates',
+  'promotions',
+  'loyalty_earn_rules',
+  'manager_approvals',
+  'grants',
+  'profiles'
+];
+
+// Renders a logged value for display; objects and arrays as compact JSON.
+export const formatAuditValue = (value: unknown): string => {
+  if (value === null || value === undefined) return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
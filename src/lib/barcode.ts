@@ -0,0 +1,50 @@
+import { Product } from '@/types/product';
+
+export interface ParsedScan {
+  code: string;
+  quantity: number;
+}
+
+// Splits an optional quantity prefix off a scanned code, so "3*5012345678900"
+// adds three of the product. Codes without a prefix add one.
+export const parseScan = (raw: string): ParsedScan => {
+  const input = raw.trim();
+  const match = input.match(/^(\d+)\*(.+)$/);
+  if (!match) return { code: input, quantity: 1 };
+  return { code: match[2].trim(), quantity: Math.max(1, parseInt(match[1], 10)) };
+};
+
+// Resolves a code against a product's barcode, its alternate codes and its
+// SKU. SKUs are matched case-insensitively since they are often typed.
+export const findProductByCode = (products: Product[], code: string) => {
+  const normalised = code.trim().toLowerCase();
+  if (!normalised) return undefined;
+  return (
+    products.find(product =>
+      product.barcode === code ||
+      product.alternateCodes?.includes(code)
+    ) ||
+    products.find(product => product.sku.toLowerCase() === normalised)
+  );
+};
+
+let audioContext: AudioContext | null = null;
+
+// Short confirmation or error tone for scans, so the cashier does not have
+// to look at the screen.
+export const playScanTone = (kind: 'success' | 'error') => {
+  try {
+    audioContext = audioContext || new AudioContext();
+    const oscillator = audioContext.createOscillator();
+    const gain = audioContext.createGain();
+    oscillator.type = kind === 'success' ? 'sine' : 'square';
+    oscillator.frequency.value = kind === 'success' ? 1320 : 220;
+    gain.gain.value = 0.1;
+    oscillator.connect(gain);
+    gain.connect(audioContext.destination);
+    oscillator.start();
+    oscillator.stop(audioContext.currentTime + (kind === 'success' ? 0.08 : 0.3));
+  } catch {
+    // Audio is best effort; the toast still shows.
+  }
+};
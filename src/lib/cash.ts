@@ -0,0 +1,47 @@
+import { roundCurrency } from '@/lib/money';
+
+export interface Denomination {
+  value: number;
+  label: string;
+}
+
+// Notes and coins counted into and out of the drawer, largest first.
+export const DENOMINATIONS: Denomination[] = [
+  { value: 100, label: '$100' },
+  { value: 50, label: '$50' },
+  { value: 20, label: '$20' },
+  { value: 10, label: '$10' },
+  { value: 5, label: '$5' },
+  { value: 2, label: '$2' },
+  { value: 1, label: '$1' },
+  { value: 0.25, label: '25¢' },
+  { value: 0.1, label: '10¢' },
+  { value: 0.05, label: '5¢' },
+  { value: 0.01, label: '1¢' }
+];
+
+// Number of each denomination counted, keyed by its value.
+export type DenominationCounts = Record<number, number>;
+
+// As sent to close_cash_session: one {value, count} per denomination.
+export const toCountedDenominations = (counts: DenominationCounts) =>
+  DENOMINATIONS.map(denomination => ({
+    value: denomination.value,
+    count: counts[denomination.value] || 0
+  }));
+
+export const countedTotal = (counts: DenominationCounts) =>
+  roundCurrency(
+    DENOMINATIONS.reduce(
+      (sum, denomination) => sum + denomination.value * (counts[denomination.value] || 0),
+      0
+    )
+  );
+
+// Over, short or balanced, for a variance of counted minus expected cash.
+export const describeVariance = (variance: number) => {
+  const rounded = roundCurrency(variance);
+  if (rounded > 0) return `Over by $${rounded.toFixed(2)}`;
+  if (rounded < 0) return `Short by $${Math.abs(rounded).toFixed(2)}`;
+  return 'Balanced';
+};
@@ -0,0 +1,77 @@
+import { roundCurrency } from '@/lib/money';
+import { CostingMethod, InventoryValuationRow, OrderItemMarginRow } from '@/types/costing';
+
+export const COSTING_METHOD_LABELS: Record<CostingMethod, string> = {
+  weighted_average: 'Weighted Average',
+  fifo: 'FIFO'
+};
+
+export const COSTING_METHOD_DESCRIPTIONS: Record<CostingMethod, string> = {
+  weighted_average: 'Stock going out is costed at the average cost of everything on hand.',
+  fifo: 'Stock going out is costed at the price of the oldest stock still on hand.'
+};
+
+export interface MarginTotals {
+  quantity: number;
+  revenue: number;
+  costOfGoods: number;
+  grossMargin: number;
+}
+
+export const EMPTY_MARGIN_TOTALS: MarginTotals = { quantity: 0, revenue: 0, costOfGoods: 0, grossMargin: 0 };
+
+export const addMargin = (totals: MarginTotals, row: OrderItemMarginRow): MarginTotals => ({
+  quantity: totals.quantity + Number(row.quantity ?? 0),
+  revenue: roundCurrency(totals.revenue + Number(row.revenue ?? 0)),
+  costOfGoods: roundCurrency(totals.costOfGoods + Number(row.cost_of_goods ?? 0)),
+  grossMargin: roundCurrency(totals.grossMargin + Number(row.gross_margin ?? 0))
+});
+
+// Gross margin as a share of revenue, null when nothing was sold.
+export const marginPercent = (totals: Pick<MarginTotals, 'revenue' | 'grossMargin'>): number | null =>
+  totals.revenue === 0 ? null : (totals.grossMargin / totals.revenue) * 100;
+
+export interface OrderMargin extends MarginTotals {
+  orderId: number;
+  orderNumber: string;
+  createdAt: string | null;
+}
+
+export interface ProductMargin extends MarginTotals {
+  productId: number;
+  productName: string;
+  sku: string | null;
+}
+
+// Per-order totals, newest order first.
+export const marginsByOrder = (rows: OrderItemMarginRow[]): OrderMargin[] => {
+  const orders = new Map<number, OrderMargin>();
+  rows.forEach(row => {
+    const current = orders.get(row.order_id) ?? {
+      orderId: row.order_id,
+      orderNumber: row.order_number,
+      createdAt: row.created_at,
+      ...EMPTY_MARGIN_TOTALS
+    };
+    orders.set(row.order_id, { ...current, ...addMargin(current, row) });
+  });
+  return Array.from(orders.values()).sort((a, b) => b.orderId - a.orderId);
+};
+
+// Per-product totals, biggest gross margin first.
+export const marginsByProduct = (rows: OrderItemMarginRow[]): ProductMargin[] => {
+  const products = new Map<number, ProductMargin>();
+  rows.forEach(row => {
+    const current = products.get(row.product_id) ?? {
+      productId: row.product_id,
+      productName: row.product_name,
+      sku: row.sku,
+      ...EMPTY_MARGIN_TOTALS
+    };
+    products.set(row.product_id, { ...current, ...addMargin(current, row) });
+  });
+  return Array.from(products.values()).sort((a, b) => b.grossMargin - a.grossMargin);
+};
+
+export const totalInventoryValue = (rows: Pick<InventoryValuationRow, 'inventory_value'>[]): number =>
+  roundCurrency(rows.reduce((sum, row) => sum + Number(row.inventory_value ?? 0), 0));
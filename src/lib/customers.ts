@@ -0,0 +1,52 @@
+import { Json } from '@/integrations/supabase/types';
+
+// Postal address as stored in customers.billing_address / shipping_address
+// and copied onto orders at checkout.
+export interface Address {
+  line1: string;
+  line2: string;
+  city: string;
+  region: string;
+  postal_code: string;
+  country: string;
+}
+
+export const EMPTY_ADDRESS: Address = {
+  line1: '',
+  line2: '',
+  city: '',
+  region: '',
+  postal_code: '',
+  country: ''
+};
+
+// Reads an address column, tolerating the empty objects older orders were
+// written with.
+export const toAddress = (value: Json | null | undefined): Address => {
+  const stored = (value && typeof value === 'object' && !Array.isArray(value) ? value : {}) as Record<string, Json>;
+  return {
+    line1: String(stored.line1 ?? ''),
+    line2: String(stored.line2 ?? ''),
+    city: String(stored.city ?? ''),
+    region: String(stored.region ?? ''),
+    postal_code: String(stored.postal_code ?? ''),
+    country: String(stored.country ?? '')
+  };
+};
+
+// Address as printed on an invoice, one entry per non-empty line.
+export const formatAddress = (address: Address): string[] =>
+  [
+    address.line1,
+    address.line2,
+    [address.city, address.region, address.postal_code].filter(Boolean).join(', '),
+    address.country
+  ].filter(Boolean);
+
+// PostgREST `or` filter matching a customer by name, phone or email. Commas
+// and brackets would break the filter syntax, so they are dropped from the
+// search term.
+export const customerSearchFilter = (term: string) => {
+  const cleaned = term.replace(/[,()]/g, ' ').trim();
+  return `name.ilike.%${cleaned}%,phone.ilike.%${cleaned}%,email.ilike.%${cleaned}%`;
+};
@@ -0,0 +1,46 @@
+import { GiftCardKind, GiftCardRow } from '@/types/gift-card';
+
+export const GIFT_CARD_CODE_LENGTH = 16;
+
+export const GIFT_CARD_KIND_LABELS: Record<GiftCardKind, string> = {
+  gift_card: 'Gift Card',
+  store_credit: 'Store Credit'
+};
+
+export const GIFT_CARD_TRANSACTION_LABELS: Record<string, string> = {
+  issue: 'Issued',
+  redeem: 'Redeemed',
+  adjust: 'Adjusted',
+  expire: 'Expired',
+  void: 'Voided'
+};
+
+// Mirrors normalise_gift_card_code: codes are compared without the dashes
+// and spaces they are printed or typed with.
+export const normaliseGiftCardCode = (code: string): string =>
+  code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+// ABCD1234EF567890 -> ABCD-1234-EF56-7890
+export const formatGiftCardCode = (code: string): string =>
+  normaliseGiftCardCode(code).match(/.{1,4}/g)?.join('-') ?? '';
+
+// Last four characters, for tender lists where the full code would be
+// spent by anyone reading over the cashier's shoulder.
+export const maskGiftCardCode = (code: string): string =>
+  `····${normaliseGiftCardCode(code).slice(-4)}`;
+
+export const isGiftCardExpired = (card: Pick<GiftCardRow, 'expires_at'>, now = new Date()): boolean =>
+  !!card.expires_at && new Date(card.expires_at) <= now;
+
+// Why a card cannot be spent as the given tender, or null when it can.
+// redeem_gift_card applies the same checks at checkout.
+export const giftCardUnavailableReason = (
+  card: Pick<GiftCardRow, 'kind' | 'status' | 'balance' | 'expires_at'>,
+  kind: GiftCardKind
+): string | null => {
+  if (card.kind !== kind) return `That code is not a ${GIFT_CARD_KIND_LABELS[kind].toLowerCase()}`;
+  if (card.status !== 'active') return 'This card has been voided';
+  if (isGiftCardExpired(card)) return 'This card has expired';
+  if (Number(card.balance) <= 0) return 'This card has no balance left';
+  return null;
+};
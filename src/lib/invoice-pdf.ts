@@ -0,0 +1,231 @@
+import { format } from 'date-fns';
+import type { jsPDF } from 'jspdf';
+import { OrderDetails } from '@/types/order';
+import { StoreDetails } from '@/lib/store';
+import { roundCurrency } from '@/lib/money';
+import { tenderMethodLabel } from '@/lib/tender';
+import { formatGiftCardCode } from '@/lib/gift-cards';
+
+const PAGE_WIDTH = 210;
+const PAGE_HEIGHT = 297;
+const MARGIN = 15;
+const LINE_HEIGHT = 5;
+
+const money = (amount: number) =>
+  `${amount < 0 ? '-' : ''}$${Math.abs(amount).toFixed(2)}`;
+
+// Item table columns: left edge for the description, right edges for the
+// numeric columns.
+const COLUMNS = {
+  item: MARGIN,
+  quantity: 115,
+  price: 140,
+  discount: 165,
+  total: PAGE_WIDTH - MARGIN
+};
+
+// Fetches the logo as a data URL. A missing or cross-origin logo is skipped
+// rather than failing the whole invoice.
+const loadImage = async (url: string) => {
+  try {
+    const response = await fetch(url);
+    if (!response.ok) return null;
+    const blob = await response.blob();
+    return await new Promise<string>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = reject;
+      reader.readAsDataURL(blob);
+    });
+  } catch {
+    return null;
+  }
+};
+
+// Builds an A4 invoice for the order. jsPDF is loaded on demand so it only
+// ships to the browser when an invoice is downloaded.
+export const generateInvoicePdf = async (
+  order: OrderDetails,
+  store: StoreDetails
+): Promise<jsPDF> => {
+  const { jsPDF } = await import('jspdf');
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  let y = MARGIN;
+
+  const ensureSpace = (height: number) => {
+    if (y + height > PAGE_HEIGHT - MARGIN - 15) {
+      doc.addPage();
+      y = MARGIN;
+    }
+  };
+
+  const totalRow = (label: string, amount: number, bold = false) => {
+    ensureSpace(LINE_HEIGHT);
+    doc.setFont('helvetica', bold ? 'bold' : 'normal');
+    doc.text(label, COLUMNS.discount, y, { align: 'right' });
+    doc.text(money(amount), COLUMNS.total, y, { align: 'right' });
+    y += LINE_HEIGHT;
+  };
+
+  // Store header
+  if (store.logoUrl) {
+    const logo = await loadImage(store.logoUrl);
+    if (logo) {
+      const properties = doc.getImageProperties(logo);
+      const height = 15;
+      const width = Math.min(40, properties.width * height / properties.height);
+      doc.addImage(logo, MARGIN, y, width, height);
+      y += height + 3;
+    }
+  }
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(16);
+  doc.text(store.storeName, MARGIN, y + 5);
+  y += 10;
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(10);
+  const storeLines = [
+    store.legalName,
+    ...store.addressLines,
+    [store.phone, store.email].filter(Boolean).join(' | '),
+    store.taxId ? `Tax ID: ${store.taxId}` : ''
+  ].filter(Boolean);
+  storeLines.forEach(line => {
+    doc.text(line, MARGIN, y);
+    y += LINE_HEIGHT;
+  });
+
+  // Invoice details, top right
+  let detailY = MARGIN + 5;
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(20);
+  doc.text('INVOICE', PAGE_WIDTH - MARGIN, detailY, { align: 'right' });
+  detailY += 8;
+  doc.setFontSize(10);
+  [
+    ['Invoice No', order.invoice_number || order.order_number],
+    ['Order No', order.order_number],
+    ['Date', format(new Date(order.created_at), 'PPP')],
+    ['Payment', tenderMethodLabel(order.payment_method)]
+  ].forEach(([label, value]) => {
+    doc.setFont('helvetica', 'bold');
+    doc.text(`${label}:`, PAGE_WIDTH - MARGIN - 45, detailY);
+    doc.setFont('helvetica', 'normal');
+    doc.text(value, PAGE_WIDTH - MARGIN, detailY, { align: 'right' });
+    detailY += LINE_HEIGHT;
+  });
+
+  y = Math.max(y, detailY) + 8;
+
+  if (order.customer) {
+    doc.setFont('helvetica', 'bold');
+    doc.text('Bill To', MARGIN, y);
+    doc.setFont('helvetica', 'normal');
+    y += LINE_HEIGHT;
+    [order.customer.name, ...order.customer.address_lines].forEach(line => {
+      doc.text(line, MARGIN, y);
+      y += LINE_HEIGHT;
+    });
+    y += 5;
+  }
+
+  // Items
+  const itemHeader = () => {
+    doc.setFillColor(243, 244, 246);
+    doc.rect(MARGIN, y - 4, PAGE_WIDTH - MARGIN * 2, 7, 'F');
+    doc.setFont('helvetica', 'bold');
+    doc.text('Item', COLUMNS.item + 2, y);
+    doc.text('Qty', COLUMNS.quantity, y, { align: 'right' });
+    doc.text('Unit Price', COLUMNS.price, y, { align: 'right' });
+    doc.text('Discount', COLUMNS.discount, y, { align: 'right' });
+    doc.text('Total', COLUMNS.total - 2, y, { align: 'right' });
+    doc.setFont('helvetica', 'normal');
+    y += 8;
+  };
+  itemHeader();
+
+  order.items.forEach(item => {
+    const name = doc.splitTextToSize(item.product_name, COLUMNS.quantity - COLUMNS.item - 20) as string[];
+    if (y + name.length * LINE_HEIGHT > PAGE_HEIGHT - MARGIN - 15) {
+      doc.addPage();
+      y = MARGIN + 4;
+      itemHeader();
+    }
+    const gross = item.quantity * item.price;
+    const discount = item.discount_amount || 0;
+    doc.text(name, COLUMNS.item + 2, y);
+    doc.text(String(item.quantity), COLUMNS.quantity, y, { align: 'right' });
+    doc.text(money(item.price), COLUMNS.price, y, { align: 'right' });
+    doc.text(discount > 0 ? money(-discount) : '', COLUMNS.discount, y, { align: 'right' });
+    doc.text(money(roundCurrency(gross - discount)), COLUMNS.total - 2, y, { align: 'right' });
+    y += name.length * LINE_HEIGHT + 1;
+  });
+
+  doc.setDrawColor(209, 213, 219);
+  doc.line(MARGIN, y - 2, PAGE_WIDTH - MARGIN, y - 2);
+  y += 4;
+
+  // Order-level discounts are already spread across the item discounts
+  // above, so they are listed for reference only.
+  order.discounts
+    ?.filter(discount => discount.order_item_id === null)
+    .forEach(discount => {
+      ensureSpace(LINE_HEIGHT);
+      doc.setTextColor(107, 114, 128);
+      doc.text(
+        `${discount.description}${discount.reason ? ` (${discount.reason})` : ''}: ${money(-discount.amount)} included in item discounts`,
+        MARGIN,
+        y
+      );
+      doc.setTextColor(0, 0, 0);
+      y += LINE_HEIGHT + 2;
+    });
+
+  // Totals
+  if (order.subtotal !== undefined) {
+    totalRow(`Subtotal${order.prices_include_tax ? ' (excl. tax)' : ''}`, order.subtotal);
+  }
+  order.tax_lines?.forEach(line => totalRow(`${line.name} (${line.rate}%)`, line.tax_amount));
+  doc.setFontSize(12);
+  totalRow('Total', order.total_amount, true);
+  doc.setFontSize(10);
+
+  if (order.payments && order.payments.length > 0) {
+    y += 3;
+    order.payments.forEach(payment => {
+      totalRow(`Paid by ${tenderMethodLabel(payment.method)}`, payment.amount);
+    });
+    totalRow('Change', order.change_given || 0);
+  }
+  order.refunds?.forEach(refund => {
+    totalRow(`Refund ${refund.refund_number}`, -refund.amount);
+  });
+  order.gift_cards?.forEach(card => {
+    totalRow(`Gift card ${formatGiftCardCode(card.code)}`, card.amount);
+  });
+
+  // Footer on every page
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(9);
+    doc.setTextColor(107, 114, 128);
+    store.footerLines.forEach((line, index) => {
+      doc.text(line, PAGE_WIDTH / 2, PAGE_HEIGHT - MARGIN - (store.footerLines.length - 1 - index) * 4, { align: 'center' });
+    });
+    if (pageCount > 1) {
+      doc.text(`Page ${page} of ${pageCount}`, PAGE_WIDTH - MARGIN, PAGE_HEIGHT - MARGIN, { align: 'right' });
+    }
+    doc.setTextColor(0, 0, 0);
+  }
+
+  return doc;
+};
+
+export const downloadInvoicePdf = async (order: OrderDetails, store: StoreDetails) => {
+  const doc = await generateInvoicePdf(order, store);
+  doc.save(`invoice-${order.invoice_number || order.order_number}.pdf`);
+};
@@ -0,0 +1,129 @@
+import { CheckoutOrder, OrderDetails, RefundRow } from '@/types/order';
+import { Sale } from '@/lib/offline/outbox';
+import { TaxTotals } from '@/lib/tax';
+import { roundCurrency } from '@/lib/money';
+import { formatAddress, toAddress } from '@/lib/customers';
+import { CustomerRow } from '@/types/customer';
+
+// Flattens an order as returned by create_pos_order (or loaded with the same
+// shape by useOrder) into what the invoice renders. Refund payments are
+// listed separately from the tenders the order was paid with.
+export const toOrderDetails = (
+  order: CheckoutOrder,
+  refunds: RefundRow[] = []
+): OrderDetails => ({
+  order_number: order.order_number,
+  invoice_number: order.invoice_number,
+  order_status: order.order_status,
+  customer: order.customer
+    ? {
+        id: order.customer.id,
+        name: order.customer.name,
+        address_lines: formatAddress(toAddress(order.billing_address))
+      }
+    : undefined,
+  total_amount: Number(order.total_amount),
+  points_earned: order.points_earned,
+  payment_method: order.payment_method,
+  payments: order.payments
+    .filter(payment => Number(payment.amount) > 0)
+    .map(payment => ({
+      method: payment.paymentgateway,
+      amount: Number(payment.amount)
+    })),
+  change_given: Number(order.change_given),
+  discount_total: Number(order.discount_total),
+  discounts: order.discounts.map(discount => ({
+    order_item_id: discount.order_item_id,
+    description: discount.description,
+    reason: discount.reason,
+    amount: Number(discount.amount)
+  })),
+  subtotal: Number(order.subtotal ?? order.total_amount),
+  tax_total: Number(order.tax_total),
+  prices_include_tax: order.prices_include_tax,
+  tax_lines: order.tax_lines.map(line => ({
+    name: line.name,
+    rate: Number(line.rate),
+    tax_amount: Number(line.tax_amount)
+  })),
+  refunds: refunds.map(refund => ({
+    refund_number: refund.refund_number,
+    amount: Number(refund.amount),
+    created_at: refund.created_at
+  })),
+  gift_cards: (order.gift_cards ?? []).map(card => ({
+    code: card.code,
+    amount: Number(card.initial_amount),
+    expires_at: card.expires_at
+  })),
+  items: [...order.items]
+    .sort((a, b) => a.id - b.id)
+    .map(item => ({
+      id: item.id,
+      product_name: item.product_name,
+      quantity: item.quantity,
+      price: Number(item.price),
+      discount_amount: Number(item.discount_amount)
+    })),
+  created_at: order.created_at ?? new Date().toISOString()
+});
+
+// Invoice for a sale queued while offline, built from the cart as the
+// terminal priced it. Items are keyed by product id, which is unique within
+// a cart, so line discounts still sit under their item.
+export const toQueuedOrderDetails = (
+  sale: Sale,
+  items: Array<{ product_id: number; product_name: string; price: number }>,
+  totals: TaxTotals,
+  pricesIncludeTax: boolean,
+  customer: CustomerRow | null
+): OrderDetails => {
+  const paid = roundCurrency(sale.tenders.reduce((sum, tender) => sum + tender.amount, 0));
+  const methods = [...new Set(sale.tenders.map(tender => tender.method))];
+
+  return {
+    order_number: sale.order_number,
+    queued: true,
+    customer: customer
+      ? {
+          id: customer.id,
+          name: customer.name,
+          address_lines: formatAddress(toAddress(customer.billing_address))
+        }
+      : undefined,
+    total_amount: totals.total,
+    payment_method: methods.length === 1 ? methods[0] : 'split',
+    payments: sale.tenders.map(tender => ({
+      method: tender.method,
+      amount: tender.amount
+    })),
+    change_given: Math.max(roundCurrency(paid - totals.total), 0),
+    discount_total: roundCurrency(sale.items.reduce((sum, item) => sum + item.discount_amount, 0)),
+    discounts: sale.discounts.map(discount => ({
+      order_item_id: discount.product_id,
+      description: discount.description,
+      reason: discount.reason ?? null,
+      amount: discount.amount
+    })),
+    subtotal: totals.subtotal,
+    tax_total: totals.taxTotal,
+    prices_include_tax: pricesIncludeTax,
+    tax_lines: totals.taxLines.map(line => ({
+      name: line.name,
+      rate: line.rate,
+      tax_amount: line.taxAmount
+    })),
+    items: sale.items.map(line => {
+      const item = items.find(candidate => candidate.product_id === line.product_id);
+      return {
+        id: line.product_id,
+        product_name: item?.product_name ?? '',
+        quantity: line.quantity,
+        price: item?.price ?? 0,
+        discount_amount: line.discount_amount
+      };
+    }),
+    created_at: sale.created_at
+  };
+};
@@ -0,0 +1,28 @@
+import { LocationKind, LocationRow, StockLevelRow } from '@/types/location';
+
+export const LOCATION_KIND_LABELS: Record<LocationKind, string> = {
+  store: 'Store',
+  warehouse: 'Warehouse',
+  production: 'Production'
+};
+
+// The location a terminal or form works from: the chosen one while it is
+// still active, otherwise the default location the server falls back to.
+export const resolveLocation = (
+  locations: LocationRow[],
+  locationId: number | null
+): LocationRow | undefined =>
+  locations.find(location => location.id === locationId && location.is_active) ??
+  locations.find(location => location.is_default);
+
+// Matches production_location_id on the server.
+export const productionLocation = (locations: LocationRow[]): LocationRow | undefined =>
+  locations.find(location => location.kind === 'production' && location.is_active) ??
+  locations.find(location => location.is_default);
+
+// A product's quantity at one location from its embedded stock_levels rows.
+export const stockAt = (
+  levels: Pick<StockLevelRow, 'location_id' | 'quantity'>[] | null | undefined,
+  locationId: number | undefined
+): number =>
+  Number(levels?.find(level => level.location_id === locationId)?.quantity ?? 0);
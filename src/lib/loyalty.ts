@@ -0,0 +1,50 @@
+import { roundCurrency } from '@/lib/money';
+import { LoyaltyEarnRuleRow } from '@/types/loyalty';
+
+// The programme settings kept on store_settings.
+export interface LoyaltyProgram {
+  // What one point is worth when spent at the till.
+  pointValue: number;
+  referrerPoints: number;
+  refereePoints: number;
+}
+
+export const DEFAULT_LOYALTY_PROGRAM: LoyaltyProgram = {
+  pointValue: 0.01,
+  referrerPoints: 500,
+  refereePoints: 500
+};
+
+export const REWARD_TYPE_LABELS: Record<string, string> = {
+  earn: 'Earned',
+  redeem: 'Redeemed',
+  referral: 'Referral',
+  refund: 'Refunded'
+};
+
+export const pointsToAmount = (points: number, pointValue: number): number =>
+  roundCurrency(Math.max(0, points) * pointValue);
+
+// Points needed to pay an amount, rounded up the same way
+// redeem_loyalty_points does.
+export const amountToPoints = (amount: number, pointValue: number): number =>
+  pointValue > 0 ? Math.ceil(Number((amount / pointValue).toFixed(6))) : 0;
+
+// One-line summary of an earn rule, e.g. "2 pts per $1 on Bakery, +50 bonus
+// on orders of $20 or more".
+export const describeEarnRule = (rule: LoyaltyEarnRuleRow): string => {
+  const parts: string[] = [];
+  const perDollar = Number(rule.points_per_dollar);
+  const minTotal = Number(rule.min_order_total);
+
+  if (perDollar > 0) {
+    parts.push(`${perDollar} pts per $1${rule.category ? ` on ${rule.category}` : ''}`);
+  }
+  if (rule.bonus_points > 0) {
+    const scope = rule.category && perDollar === 0 ? ` when buying ${rule.category}` : '';
+    parts.push(`+${rule.bonus_points} bonus${scope}`);
+  }
+
+  const summary = parts.join(', ') || 'No points';
+  return minTotal > 0 ? `${summary} on orders of $${minTotal.toFixed(2)} or more` : summary;
+};
@@ -0,0 +1,4 @@
+// Round to whole cents. All money maths in the POS goes through this so the
+// cart, the persisted order and the receipt agree to the cent.
+export const roundCurrency = (amount: number): number =>
+  Math.round((amount + Number.EPSILON) * 100) / 100;
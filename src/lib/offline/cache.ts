@@ -0,0 +1,29 @@
+import { idbGet, idbPut } from './db';
+
+// postgrest-js reports a fetch that never reached the server as an error
+// whose message is the fetch error's name and message, e.g.
+// "TypeError: Failed to fetch". Anything else came back from the database.
+export const isNetworkError = (error: unknown) =>
+  !navigator.onLine ||
+  /^(TypeError|FetchError|AbortError):/.test((error as { message?: string } | null)?.message ?? '');
+
+// Runs a query and keeps its result in IndexedDB. When the server cannot be
+// reached the last cached result is returned instead, so the POS can keep
+// selling from what it last knew.
+export const cachedQuery = async <T>(key: string, fetcher: () => Promise<T>): Promise<T> => {
+  try {
+    const result = await fetcher();
+    await idbPut('cache', result, key).catch(() => undefined);
+    return result;
+  } catch (error) {
+    if (isNetworkError(error)) {
+      const cached = await idbGet<T>('cache', key).catch(() => undefined);
+      if (cached !== undefined) return cached;
+    }
+    throw error;
+  }
+};
+
+export const getCached = <T>(key: string) => idbGet<T>('cache', key);
+
+export const setCached = (key: string, value: unknown) => idbPut('cache', value, key);
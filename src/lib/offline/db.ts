@@ -0,0 +1,72 @@
+// Minimal promise wrapper over the browser's IndexedDB, which keeps the POS
+// working when the connection drops. Two stores: `cache` holds the last
+// good copy of query results by key, `outbox` holds sales waiting to sync.
+const DB_NAME = 'neonpos';
+const DB_VERSION = 1;
+
+export type StoreName = 'cache' | 'outbox';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains('cache')) {
+          db.createObjectStore('cache');
+        }
+        if (!db.objectStoreNames.contains('outbox')) {
+          db.createObjectStore('outbox', { keyPath: 'id', autoIncrement: true });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const read = async <T>(
+  store: StoreName,
+  action: (objectStore: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(store, 'readonly').objectStore(store));
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Resolves once the transaction has committed, so a queued sale is on disk
+// before the cashier is told it was saved.
+const write = async <T>(
+  store: StoreName,
+  action: (objectStore: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(store, 'readwrite');
+    const request = action(transaction.objectStore(store));
+    transaction.oncomplete = () => resolve(request.result as T);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const idbGet = <T>(store: StoreName, key: IDBValidKey) =>
+  read<T | undefined>(store, objectStore => objectStore.get(key));
+
+export const idbGetAll = <T>(store: StoreName) =>
+  read<T[]>(store, objectStore => objectStore.getAll());
+
+export const idbPut = (store: StoreName, value: unknown, key?: IDBValidKey) =>
+  write<IDBValidKey>(store, objectStore => objectStore.put(value, key));
+
+export const idbDelete = (store: StoreName, key: IDBValidKey) =>
+  write<undefined>(store, objectStore => objectStore.delete(key));
@@ -0,0 +1,179 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Json } from '@/integrations/supabase/types';
+import { CheckoutDiscount, CheckoutLine, CheckoutOrder, OrderDetails, StockConflict } from '@/types/order';
+import { Tender } from '@/lib/tender';
+import { AUDIT_SOURCE_HEADER } from '@/lib/audit';
+import { idbDelete, idbGet, idbGetAll, idbPut } from './db';
+import { getCached, isNetworkError, setCached } from './cache';
+
+export const PRODUCTS_CACHE_KEY = 'products';
+
+// Everything create_pos_order needs to record a sale. The order number is
+// generated on the terminal, which makes replaying a sale safe: the server
+// returns the existing order if it has already seen that number.
+export interface Sale {
+  order_number: string;
+  created_at: string;
+  items: CheckoutLine[];
+  tenders: Tender[];
+  discounts: CheckoutDiscount[];
+  cash_session_id: number | null;
+  customer_id: number | null;
+  // The terminal's location; null sells from the default location.
+  location_id: number | null;
+}
+
+export interface OutboxEntry extends Sale {
+  id?: number;
+  status: 'pending' | 'failed';
+  attempts: number;
+  last_error: string | null;
+  // The invoice given when the sale was queued, so it can be shown again
+  // until the sale syncs.
+  receipt?: OrderDetails;
+}
+
+export interface SyncResult {
+  synced: CheckoutOrder[];
+  failed: number;
+  conflicts: Array<StockConflict & { order_number: string }>;
+  // Stopped early because the connection dropped again.
+  interrupted: boolean;
+}
+
+const submitSale = async (sale: Sale, offline: boolean) => {
+  const { data, error } = await supabase.rpc('create_pos_order', {
+    p_items: sale.items as unknown as Json,
+    p_tenders: sale.tenders as unknown as Json,
+    p_discounts: sale.discounts as unknown as Json,
+    p_cash_session_id: sale.cash_session_id ?? undefined,
+    p_order_number: sale.order_number,
+    p_created_at: sale.created_at,
+    p_offline: offline,
+    p_customer_id: sale.customer_id ?? undefined,
+    p_location_id: sale.location_id ?? undefined
+  }).setHeader(AUDIT_SOURCE_HEADER, 'pos');
+
+  if (error) throw error;
+  return data as unknown as CheckoutOrder;
+};
+
+interface CachedProduct {
+  id: number;
+  stock_quantity: number | null;
+  stock_levels?: Array<{ location_id: number; quantity: number }>;
+}
+
+const deductLevel = (levels: CachedProduct['stock_levels'] = [], locationId: number | null, sold: number) => {
+  if (locationId === null) return levels;
+  return levels.some(level => level.location_id === locationId)
+    ? levels.map(level => level.location_id === locationId ? { ...level, quantity: level.quantity - sold } : level)
+    : [...levels, { location_id: locationId, quantity: -sold }];
+};
+
+// Sold quantities are taken off the cached stock levels so the POS shows
+// sensible figures until the sale syncs and products are fetched again.
+const deductCachedStock = async (items: CheckoutLine[], locationId: number | null) => {
+  const products = await getCached<CachedProduct[]>(PRODUCTS_CACHE_KEY);
+  if (!products) return;
+  await setCached(
+    PRODUCTS_CACHE_KEY,
+    products.map(product => {
+      const sold = items
+        .filter(item => item.product_id === product.id)
+        .reduce((sum, item) => sum + item.quantity, 0);
+      return sold > 0
+        ? {
+            ...product,
+            stock_quantity: (product.stock_quantity || 0) - sold,
+            stock_levels: deductLevel(product.stock_levels, locationId, sold)
+          }
+        : product;
+    })
+  );
+};
+
+export const getOutbox = async () => {
+  const entries = await idbGetAll<OutboxEntry>('outbox');
+  return entries.sort((a, b) => (a.id ?? 0) - (b.id ?? 0));
+};
+
+// The invoice of a sale still waiting in the outbox, or null when no queued
+// sale has that order number.
+export const getQueuedReceipt = async (orderNumber: string): Promise<OrderDetails | null> => {
+  const entry = (await getOutbox()).find(outboxEntry => outboxEntry.order_number === orderNumber);
+  return entry?.receipt ?? null;
+};
+
+// Records the sale on the server, or queues it in the outbox with its
+// invoice when the server cannot be reached. Returns null when the sale was
+// queued.
+export const placeSale = async (sale: Sale, receipt: OrderDetails): Promise<CheckoutOrder | null> => {
+  if (navigator.onLine) {
+    try {
+      return await submitSale(sale, false);
+    } catch (error) {
+      if (!isNetworkError(error)) throw error;
+    }
+  }
+
+  const entry: OutboxEntry = { ...sale, status: 'pending', attempts: 0, last_error: null, receipt };
+  await idbPut('outbox', entry);
+  await deductCachedStock(sale.items, sale.location_id).catch(() => undefined);
+  return null;
+};
+
+// Replays queued sales oldest first. A sale the server rejects is set aside
+// as failed so it cannot hold up the rest; a lost connection stops the run
+// and the remaining sales wait for the next one.
+const replayOutbox = async (): Promise<SyncResult> => {
+  const result: SyncResult = { synced: [], failed: 0, conflicts: [], interrupted: false };
+  const entries = (await getOutbox()).filter(entry => entry.status === 'pending');
+
+  for (const entry of entries) {
+    try {
+      const order = await submitSale(entry, true);
+      await idbDelete('outbox', entry.id as number);
+      result.synced.push(order);
+      (order.stock_conflicts || []).forEach(conflict => {
+        result.conflicts.push({ ...conflict, order_number: order.order_number });
+      });
+    } catch (error) {
+      if (isNetworkError(error)) {
+        result.interrupted = true;
+        break;
+      }
+      await idbPut('outbox', {
+        ...entry,
+        status: 'failed',
+        attempts: entry.attempts + 1,
+        last_error: (error as Error).message
+      });
+      result.failed += 1;
+    }
+  }
+
+  return result;
+};
+
+let syncInProgress: Promise<SyncResult> | null = null;
+
+// Only one replay runs at a time; overlapping calls share it.
+export const syncOutbox = () => {
+  if (!syncInProgress) {
+    syncInProgress = replayOutbox().finally(() => {
+      syncInProgress = null;
+    });
+  }
+  return syncInProgress;
+};
+
+// Puts a failed sale back in the queue for the next sync.
+export const retryOutboxEntry = async (id: number) => {
+  const entry = await idbGet<OutboxEntry>('outbox', id);
+  if (entry) {
+    await idbPut('outbox', { ...entry, status: 'pending' });
+  }
+};
+
+export const discardOutboxEntry = (id: number) => idbDelete('outbox', id);
@@ -0,0 +1,170 @@
+import { roundCurrency } from '@/lib/money';
+import { evaluatePromotions, Promotion, PromotionLine } from '@/lib/promotions';
+
+export type DiscountType = 'percent' | 'amount';
+
+// A manual discount carries the manager approval it was given under;
+// create_pos_order checks the discount against it and records the approving
+// manager as authorisedBy.
+export interface ManualDiscount {
+  type: DiscountType;
+  value: number;
+  reason: string;
+  authorisedBy: string;
+  approvalId: number;
+}
+
+// What the cashier enters for a manual discount, before it is approved.
+export type ManualDiscountEntry = Pick<ManualDiscount, 'type' | 'value' | 'reason'>;
+
+// A manager-approved unit price for a cart line. create_pos_order takes the
+// price from the approval, so only the approval id has to reach the server.
+export interface PriceOverride {
+  price: number;
+  approvalId: number;
+}
+
+export interface PricingLine extends PromotionLine {
+  discount?: ManualDiscount;
+}
+
+// One discount as it is persisted to order_discounts and printed on the
+// invoice. productId is null for order-level discounts.
+export interface AppliedDiscount {
+  productId: number | null;
+  source: 'manual' | 'promotion';
+  promotionId?: number;
+  description: string;
+  discountType?: DiscountType;
+  value?: number;
+  amount: number;
+  reason?: string;
+  authorisedBy?: string;
+  approvalId?: number;
+}
+
+export interface PricedLine {
+  productId: number;
+  category: string;
+  gross: number;
+  discountAmount: number;
+  net: number;
+}
+
+export interface CartPricing {
+  lines: PricedLine[];
+  discounts: AppliedDiscount[];
+  grossTotal: number;
+  discountTotal: number;
+  netTotal: number;
+}
+
+const discountValue = (discount: ManualDiscountEntry, base: number) =>
+  roundCurrency(Math.min(
+    base,
+    discount.type === 'percent' ? base * discount.value / 100 : discount.value
+  ));
+
+export const describeDiscount = (discount: ManualDiscountEntry) =>
+  discount.type === 'percent'
+    ? `${discount.value}% off`
+    : `$${discount.value.toFixed(2)} off`;
+
+// Prices the cart in the order discounts are applied at the till:
+// promotions first, then manual line discounts on what remains, then the
+// order discount split across lines in proportion to their net amount. The
+// per-line result is what create_pos_order stores and taxes.
+export const priceCart = (
+  lines: PricingLine[],
+  promotions: Promotion[],
+  orderDiscount?: ManualDiscount,
+  now: Date = new Date(),
+  timeZone?: string
+): CartPricing => {
+  const promotionDiscounts = evaluatePromotions(lines, promotions, now, timeZone);
+  const discounts: AppliedDiscount[] = [];
+
+  const priced = lines.map(line => {
+    const gross = roundCurrency(line.unitPrice * line.quantity);
+    let discountAmount = 0;
+
+    promotionDiscounts
+      .filter(discount => discount.productId === line.productId)
+      .forEach(discount => {
+        const amount = Math.min(discount.amount, roundCurrency(gross - discountAmount));
+        discountAmount = roundCurrency(discountAmount + amount);
+        discounts.push({
+          productId: line.productId,
+          source: 'promotion',
+          promotionId: discount.promotionId,
+          description: discount.description,
+          amount
+        });
+      });
+
+    if (line.discount && line.discount.value > 0) {
+      const amount = discountValue(line.discount, roundCurrency(gross - discountAmount));
+      discountAmount = roundCurrency(discountAmount + amount);
+      discounts.push({
+        productId: line.productId,
+        source: 'manual',
+        description: describeDiscount(line.discount),
+        discountType: line.discount.type,
+        value: line.discount.value,
+        amount,
+        reason: line.discount.reason,
+        authorisedBy: line.discount.authorisedBy,
+        approvalId: line.discount.approvalId
+      });
+    }
+
+    return {
+      productId: line.productId,
+      category: line.category,
+      gross,
+      discountAmount,
+      net: roundCurrency(gross - discountAmount)
+    };
+  });
+
+  if (orderDiscount && orderDiscount.value > 0) {
+    const base = roundCurrency(priced.reduce((sum, line) => sum + line.net, 0));
+    const amount = discountValue(orderDiscount, base);
+
+    if (amount > 0) {
+      let allocated = 0;
+      const shareable = priced.filter(line => line.net > 0);
+      shareable.forEach((line, index) => {
+        const share = index === shareable.length - 1
+          ? roundCurrency(amount - allocated)
+          : roundCurrency(amount * line.net / base);
+        allocated = roundCurrency(allocated + share);
+        line.discountAmount = roundCurrency(line.discountAmount + share);
+        line.net = roundCurrency(line.gross - line.discountAmount);
+      });
+
+      discounts.push({
+        productId: null,
+        source: 'manual',
+        description: `Order discount: ${describeDiscount(orderDiscount)}`,
+        discountType: orderDiscount.type,
+        value: orderDiscount.value,
+        amount,
+        reason: orderDiscount.reason,
+        authorisedBy: orderDiscount.authorisedBy,
+        approvalId: orderDiscount.approvalId
+      });
+    }
+  }
+
+  const grossTotal = roundCurrency(priced.reduce((sum, line) => sum + line.gross, 0));
+  const netTotal = roundCurrency(priced.reduce((sum, line) => sum + line.net, 0));
+
+  return {
+    lines: priced,
+    discounts,
+    grossTotal,
+    discountTotal: roundCurrency(grossTotal - netTotal),
+    netTotal
+  };
+};
@@ -0,0 +1,207 @@
+import { roundCurrency } from '@/lib/money';
+
+export type PromotionType = 'buy_x_get_y' | 'category_percent' | 'happy_hour' | 'bundle_price';
+
+export interface BuyXGetYConfig {
+  product_id: number;
+  buy_quantity: number;
+  get_quantity: number;
+  // Percentage off the "get" units; 100 means free.
+  get_percent_off: number;
+}
+
+export interface CategoryPercentConfig {
+  category: string;
+  percent: number;
+}
+
+export interface HappyHourConfig {
+  // Days of the week the window applies, 0 = Sunday.
+  days: number[];
+  start_time: string;
+  end_time: string;
+  percent: number;
+  // Limits the happy hour to one category; every product when empty.
+  category?: string;
+}
+
+export interface BundlePriceConfig {
+  items: Array<{ product_id: number; quantity: number }>;
+  price: number;
+}
+
+interface PromotionBase {
+  id: number;
+  name: string;
+  starts_at: string | null;
+  ends_at: string | null;
+}
+
+export type Promotion = PromotionBase & (
+  | { type: 'buy_x_get_y'; config: BuyXGetYConfig }
+  | { type: 'category_percent'; config: CategoryPercentConfig }
+  | { type: 'happy_hour'; config: HappyHourConfig }
+  | { type: 'bundle_price'; config: BundlePriceConfig }
+);
+
+export interface PromotionLine {
+  productId: number;
+  category: string;
+  unitPrice: number;
+  quantity: number;
+}
+
+export interface PromotionDiscount {
+  productId: number;
+  promotionId: number;
+  description: string;
+  amount: number;
+}
+
+export const PROMOTION_TYPE_LABELS: Record<PromotionType, string> = {
+  buy_x_get_y: 'Buy X Get Y',
+  category_percent: 'Category % Off',
+  happy_hour: 'Happy Hour',
+  bundle_price: 'Bundle Price'
+};
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+const isScheduled = (promotion: Promotion, now: Date) =>
+  (!promotion.starts_at || new Date(promotion.starts_at) <= now) &&
+  (!promotion.ends_at || new Date(promotion.ends_at) >= now);
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Day of the week (0 = Sunday) and minutes past midnight of `now` on the
+// store's clock, which create_pos_order reads the same way.
+const storeClock = (now: Date, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    weekday: 'short',
+    hour: 'numeric',
+    minute: 'numeric',
+    hourCycle: 'h23'
+  }).formatToParts(now);
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)?.value ?? '';
+  return {
+    day: WEEKDAYS.indexOf(part('weekday')),
+    minutes: Number(part('hour')) * 60 + Number(part('minute'))
+  };
+};
+
+const isWithinHappyHour = (config: HappyHourConfig, now: Date, timeZone: string) => {
+  const { day, minutes } = storeClock(now, timeZone);
+  if (config.days.length > 0 && !config.days.includes(day)) return false;
+  const start = toMinutes(config.start_time);
+  const end = toMinutes(config.end_time);
+  // Windows such as 22:00-02:00 wrap past midnight.
+  return start <= end
+    ? minutes >= start && minutes < end
+    : minutes >= start || minutes < end;
+};
+
+// Discount a single line would receive from a line-level promotion.
+const lineDiscount = (promotion: Promotion, line: PromotionLine, now: Date, timeZone: string): number => {
+  const gross = line.unitPrice * line.quantity;
+  switch (promotion.type) {
+    case 'buy_x_get_y': {
+      const { product_id, buy_quantity, get_quantity, get_percent_off } = promotion.config;
+      if (line.productId !== product_id || buy_quantity <= 0 || get_quantity <= 0) return 0;
+      const groups = Math.floor(line.quantity / (buy_quantity + get_quantity));
+      return groups * get_quantity * line.unitPrice * get_percent_off / 100;
+    }
+    case 'category_percent':
+      return line.category === promotion.config.category
+        ? gross * promotion.config.percent / 100
+        : 0;
+    case 'happy_hour': {
+      const { category, percent } = promotion.config;
+      if (category && line.category !== category) return 0;
+      return isWithinHappyHour(promotion.config, now, timeZone) ? gross * percent / 100 : 0;
+    }
+    default:
+      return 0;
+  }
+};
+
+// Evaluates promotions against the cart. Promotions do not stack: each line
+// takes the single best line-level promotion, and bundle prices only apply to
+// lines no other promotion has discounted. Bundle savings are split across the
+// bundle's lines in proportion to their regular price.
+export const evaluatePromotions = (
+  lines: PromotionLine[],
+  promotions: Promotion[],
+  now: Date = new Date(),
+  timeZone: string = 'UTC'
+): PromotionDiscount[] => {
+  const active = promotions.filter(promotion => isScheduled(promotion, now));
+  const discounts: PromotionDiscount[] = [];
+  const claimed = new Set<number>();
+
+  for (const line of lines) {
+    let best: PromotionDiscount | null = null;
+    for (const promotion of active) {
+      if (promotion.type === 'bundle_price') continue;
+      const amount = roundCurrency(
+        Math.min(lineDiscount(promotion, line, now, timeZone), line.unitPrice * line.quantity)
+      );
+      if (amount > 0 && (!best || amount > best.amount)) {
+        best = {
+          productId: line.productId,
+          promotionId: promotion.id,
+          description: promotion.name,
+          amount
+        };
+      }
+    }
+    if (best) {
+      discounts.push(best);
+      claimed.add(line.productId);
+    }
+  }
+
+  for (const promotion of active) {
+    if (promotion.type !== 'bundle_price') continue;
+    const { items, price } = promotion.config;
+    if (items.length === 0) continue;
+
+    const bundleLines = items.map(item => ({
+      item,
+      line: lines.find(line => line.productId === item.product_id && !claimed.has(line.productId))
+    }));
+    if (bundleLines.some(({ item, line }) => !line || item.quantity <= 0)) continue;
+
+    const bundles = Math.min(
+      ...bundleLines.map(({ item, line }) => Math.floor(line!.quantity / item.quantity))
+    );
+    const regularPrice = bundleLines.reduce(
+      (sum, { item, line }) => sum + item.quantity * line!.unitPrice,
+      0
+    );
+    const saving = roundCurrency((regularPrice - price) * bundles);
+    if (bundles <= 0 || saving <= 0) continue;
+
+    let allocated = 0;
+    bundleLines.forEach(({ item, line }, index) => {
+      const share = index === bundleLines.length - 1
+        ? roundCurrency(saving - allocated)
+        : roundCurrency(saving * (item.quantity * line!.unitPrice) / regularPrice);
+      allocated = roundCurrency(allocated + share);
+      claimed.add(line!.productId);
+      if (share > 0) {
+        discounts.push({
+          productId: line!.productId,
+          promotionId: promotion.id,
+          description: promotion.name,
+          amount: share
+        });
+      }
+    });
+  }
+
+  return discounts;
+};
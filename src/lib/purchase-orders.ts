@@ -0,0 +1,56 @@
+import { PurchaseOrderLineRow, PurchaseOrderStatus } from '@/types/purchase-order';
+
+export const PURCHASE_ORDER_STATUS_LABELS: Record<PurchaseOrderStatus, string> = {
+  draft: 'Draft',
+  sent: 'Sent',
+  partially_received: 'Partially Received',
+  received: 'Received',
+  cancelled: 'Cancelled',
+  closed: 'Closed Short'
+};
+
+export const PURCHASE_ORDER_STATUS_CLASSES: Record<PurchaseOrderStatus, string> = {
+  draft: 'bg-gray-100 text-gray-800',
+  sent: 'bg-blue-100 text-blue-800',
+  partially_received: 'bg-yellow-100 text-yellow-800',
+  received: 'bg-green-100 text-green-800',
+  cancelled: 'bg-red-100 text-red-800',
+  closed: 'bg-orange-100 text-orange-800'
+};
+
+// Statuses a delivery can still be booked against.
+export const RECEIVABLE_STATUSES: PurchaseOrderStatus[] = ['sent', 'partially_received'];
+
+// What is still to arrive on a line. Closing an order short sets the rest
+// aside as closed.
+export const openQuantity = (
+  line: Pick<PurchaseOrderLineRow, 'quantity' | 'quantity_received' | 'quantity_closed'>
+): number =>
+  Math.max(Number(line.quantity) - Number(line.quantity_received) - Number(line.quantity_closed), 0);
+
+// A line as create_purchase_order takes it. Without a unit price the
+// product's last purchase price is used.
+export interface PurchaseOrderLineInput {
+  product_id: number;
+  quantity: number;
+  unit_price?: number;
+}
+
+export interface PurchaseOrderDraft {
+  supplier_id: number | null;
+  lines: PurchaseOrderLineInput[];
+}
+
+// One purchase order per supplier. Lines without a supplier share an order
+// whose supplier is chosen later.
+export const groupBySupplier = (
+  lines: Array<PurchaseOrderLineInput & { supplier_id: number | null }>
+): PurchaseOrderDraft[] => {
+  const drafts = new Map<number | null, PurchaseOrderDraft>();
+  lines.forEach(({ supplier_id, ...line }) => {
+    const draft = drafts.get(supplier_id) ?? { supplier_id, lines: [] };
+    draft.lines.push(line);
+    drafts.set(supplier_id, draft);
+  });
+  return Array.from(drafts.values());
+};
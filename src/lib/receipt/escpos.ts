@@ -0,0 +1,112 @@
+import { OrderDetails } from '@/types/order';
+import { buildReceiptLines, PaperWidth } from './receipt';
+import { StoreDetails } from '@/lib/store';
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+
+// Printers default to code page 437, so text is reduced to printable ASCII:
+// accents are stripped and anything else becomes '?'.
+const toAscii = (text: string) =>
+  Array.from(text.normalize('NFKD').replace(/[\u0300-\u036f]/g, '')).map(char => {
+    const code = char.charCodeAt(0);
+    return code >= 32 && code < 127 ? code : 0x3f;
+  });
+
+// Minimal ESC/POS command builder covering what receipts need. Commands
+// follow the Epson TM series, which most thermal printers emulate.
+export class EscPosBuilder {
+  private bytes: number[] = [];
+
+  initialize() {
+    this.bytes.push(ESC, 0x40);
+    return this;
+  }
+
+  align(alignment: 'left' | 'center' | 'right') {
+    this.bytes.push(ESC, 0x61, ['left', 'center', 'right'].indexOf(alignment));
+    return this;
+  }
+
+  bold(on: boolean) {
+    this.bytes.push(ESC, 0x45, on ? 1 : 0);
+    return this;
+  }
+
+  // Double width and height when large.
+  size(large: boolean) {
+    this.bytes.push(GS, 0x21, large ? 0x11 : 0x00);
+    return this;
+  }
+
+  text(value: string) {
+    this.bytes.push(...toAscii(value));
+    return this;
+  }
+
+  line(value = '') {
+    return this.text(value).feed();
+  }
+
+  feed(lines = 1) {
+    if (lines === 1) {
+      this.bytes.push(LF);
+    } else {
+      this.bytes.push(ESC, 0x64, lines);
+    }
+    return this;
+  }
+
+  // CODE128 using code set B, with the human-readable text printed below.
+  barcode(data: string, height = 80) {
+    const payload = [0x7b, 0x42, ...toAscii(data)];
+    this.bytes.push(
+      GS, 0x48, 2,
+      GS, 0x68, height,
+      GS, 0x77, 2,
+      GS, 0x6b, 73, payload.length, ...payload
+    );
+    return this;
+  }
+
+  // Feeds past the cutter and makes a partial cut.
+  cut() {
+    this.bytes.push(GS, 0x56, 66, 3);
+    return this;
+  }
+
+  build() {
+    return new Uint8Array(this.bytes);
+  }
+}
+
+// Renders the order as a complete print job: reset, receipt body, barcode
+// and cut.
+export const renderEscPos = (
+  order: OrderDetails,
+  paper: PaperWidth,
+  store?: StoreDetails
+): Uint8Array => {
+  const builder = new EscPosBuilder().initialize();
+
+  buildReceiptLines(order, paper, store).forEach(line => {
+    switch (line.type) {
+      case 'text':
+        builder
+          .align(line.align ?? 'left')
+          .bold(!!line.bold)
+          .size(!!line.large)
+          .line(line.text);
+        break;
+      case 'barcode':
+        builder.align('center').bold(false).size(false).barcode(line.data).feed();
+        break;
+      case 'feed':
+        builder.feed();
+        break;
+    }
+  });
+
+  return builder.align('left').cut().build();
+};
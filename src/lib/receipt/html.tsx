@@ -0,0 +1,27 @@
+import { renderToStaticMarkup } from 'react-dom/server';
+import ThermalReceipt from '@/components/ThermalReceipt';
+import { OrderDetails } from '@/types/order';
+import { PaperWidth } from './receipt';
+import { StoreDetails } from '@/lib/store';
+
+// Standalone HTML document for the receipt, sized to the roll so the
+// browser's print dialog produces a receipt rather than an A4 page.
+export const renderReceiptHtml = (
+  order: OrderDetails,
+  paper: PaperWidth,
+  store?: StoreDetails
+) => {
+  const body = renderToStaticMarkup(<ThermalReceipt order={order} paper={paper} store={store} />);
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Receipt ${order.order_number}</title>
+<style>
+  @page { size: ${paper}mm auto; margin: 0; }
+  body { margin: 0; padding: 2mm; }
+</style>
+</head>
+<body>${body}</body>
+</html>`;
+};
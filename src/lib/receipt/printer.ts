@@ -0,0 +1,155 @@
+import { PaperWidth } from './receipt';
+
+export type PrinterTransport = 'browser' | 'usb' | 'serial' | 'emulator';
+
+export interface PrinterSettings {
+  paper: PaperWidth;
+  transport: PrinterTransport;
+  // Only used by the serial transport.
+  baudRate: number;
+  // Endpoint that accepts the raw ESC/POS job as the body of a POST, such as
+  // a local printer emulator or print bridge.
+  emulatorUrl: string;
+}
+
+export const PRINTER_TRANSPORT_LABELS: Record<PrinterTransport, string> = {
+  browser: 'Browser print',
+  usb: 'USB printer',
+  serial: 'Serial printer',
+  emulator: 'Printer emulator'
+};
+
+const SETTINGS_KEY = 'neonpos.printer-settings';
+
+const DEFAULT_SETTINGS: PrinterSettings = {
+  paper: 80,
+  transport: 'browser',
+  baudRate: 9600,
+  emulatorUrl: 'http://localhost:9100'
+};
+
+export const getPrinterSettings = (): PrinterSettings => {
+  try {
+    return { ...DEFAULT_SETTINGS, ...JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}') };
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const savePrinterSettings = (settings: PrinterSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+// The DOM typings do not include WebUSB or Web Serial yet, so only the parts
+// used here are described.
+interface UsbEndpoint {
+  endpointNumber: number;
+  direction: 'in' | 'out';
+  type: 'bulk' | 'interrupt' | 'isochronous';
+}
+
+interface UsbDevice {
+  configuration: {
+    interfaces: Array<{
+      interfaceNumber: number;
+      alternate: { endpoints: UsbEndpoint[] };
+    }>;
+  } | null;
+  open(): Promise<void>;
+  close(): Promise<void>;
+  selectConfiguration(configurationValue: number): Promise<void>;
+  claimInterface(interfaceNumber: number): Promise<void>;
+  transferOut(endpointNumber: number, data: BufferSource): Promise<unknown>;
+}
+
+interface SerialPort {
+  open(options: { baudRate: number }): Promise<void>;
+  close(): Promise<void>;
+  writable: WritableStream<Uint8Array> | null;
+}
+
+interface DeviceNavigator {
+  usb?: {
+    getDevices(): Promise<UsbDevice[]>;
+    requestDevice(options: { filters: object[] }): Promise<UsbDevice>;
+  };
+  serial?: {
+    getPorts(): Promise<SerialPort[]>;
+    requestPort(): Promise<SerialPort>;
+  };
+}
+
+const devices = navigator as unknown as DeviceNavigator;
+
+// USB receipt printers are printer-class devices (class 7) with a bulk OUT
+// endpoint. A previously authorised printer is reused without prompting.
+export const printViaUsb = async (data: Uint8Array) => {
+  if (!devices.usb) throw new Error('WebUSB is not supported in this browser');
+
+  const [known] = await devices.usb.getDevices();
+  const device = known ?? await devices.usb.requestDevice({ filters: [{ classCode: 7 }] });
+
+  await device.open();
+  try {
+    if (!device.configuration) await device.selectConfiguration(1);
+    const printerInterface = device.configuration?.interfaces.find(candidate =>
+      candidate.alternate.endpoints.some(endpoint => endpoint.direction === 'out' && endpoint.type === 'bulk')
+    );
+    if (!printerInterface) throw new Error('No printer interface found on the USB device');
+
+    const endpoint = printerInterface.alternate.endpoints.find(
+      candidate => candidate.direction === 'out' && candidate.type === 'bulk'
+    )!;
+    await device.claimInterface(printerInterface.interfaceNumber);
+    await device.transferOut(endpoint.endpointNumber, data);
+  } finally {
+    await device.close();
+  }
+};
+
+export const printViaSerial = async (data: Uint8Array, baudRate: number) => {
+  if (!devices.serial) throw new Error('Web Serial is not supported in this browser');
+
+  const [known] = await devices.serial.getPorts();
+  const port = known ?? await devices.serial.requestPort();
+
+  await port.open({ baudRate });
+  try {
+    const writer = port.writable!.getWriter();
+    await writer.write(data);
+    writer.releaseLock();
+  } finally {
+    await port.close();
+  }
+};
+
+export const printViaEmulator = async (data: Uint8Array, url: string) => {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/octet-stream' },
+    body: data
+  });
+  if (!response.ok) {
+    throw new Error(`Printer emulator responded with ${response.status}`);
+  }
+};
+
+// Prints a standalone HTML document from a hidden frame, so only the
+// receipt is printed rather than the whole page.
+export const printHtml = (html: string) => {
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  document.body.appendChild(frame);
+
+  const frameDocument = frame.contentDocument!;
+  frameDocument.open();
+  frameDocument.write(html);
+  frameDocument.close();
+
+  frame.contentWindow!.focus();
+  frame.contentWindow!.print();
+  setTimeout(() => frame.remove(), 1000);
+};
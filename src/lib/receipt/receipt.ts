@@ -0,0 +1,131 @@
+import { format } from 'date-fns';
+import { OrderDetails } from '@/types/order';
+import { DEFAULT_STORE_DETAILS, StoreDetails } from '@/lib/store';
+import { tenderMethodLabel } from '@/lib/tender';
+import { formatGiftCardCode } from '@/lib/gift-cards';
+
+export type PaperWidth = 58 | 80;
+
+// Characters per line in the printer's default font (Font A).
+export const PAPER_COLUMNS: Record<PaperWidth, number> = {
+  58: 32,
+  80: 48
+};
+
+export type ReceiptLine =
+  | {
+      type: 'text';
+      text: string;
+      align?: 'left' | 'center';
+      bold?: boolean;
+      // Double width and height; fits half as many characters.
+      large?: boolean;
+    }
+  | { type: 'barcode'; data: string }
+  | { type: 'feed' };
+
+const money = (amount: number) =>
+  `${amount < 0 ? '-' : ''}$${Math.abs(amount).toFixed(2)}`;
+
+const truncate = (text: string, columns: number) =>
+  text.length > columns ? text.slice(0, columns) : text;
+
+// Left text and right-aligned amount on one line, shortening the text when
+// both do not fit.
+export const row = (left: string, right: string, columns: number) => {
+  const space = columns - right.length - 1;
+  const label = truncate(left, Math.max(0, space));
+  return `${label}${' '.repeat(Math.max(1, columns - label.length - right.length))}${right}`;
+};
+
+const text = (value: string, options: Omit<Extract<ReceiptLine, { type: 'text' }>, 'type' | 'text'> = {}): ReceiptLine =>
+  ({ type: 'text', text: value, ...options });
+
+// Lays the receipt out as fixed-width lines. The HTML preview and the
+// ESC/POS stream are both rendered from these, so they print identically.
+export const buildReceiptLines = (
+  order: OrderDetails,
+  paper: PaperWidth,
+  store: StoreDetails = DEFAULT_STORE_DETAILS
+): ReceiptLine[] => {
+  const columns = PAPER_COLUMNS[paper];
+  const divider = text('-'.repeat(columns));
+  const lines: ReceiptLine[] = [
+    text(truncate(store.storeName, columns / 2), { align: 'center', bold: true, large: true }),
+    ...store.addressLines.map(line => text(truncate(line, columns), { align: 'center' })),
+    ...(store.taxId ? [text(truncate(`Tax ID: ${store.taxId}`, columns), { align: 'center' })] : []),
+    { type: 'feed' },
+    ...(order.invoice_number ? [text(row('Invoice', order.invoice_number, columns))] : []),
+    text(row('Order', order.order_number, columns)),
+    text(row('Date', format(new Date(order.created_at), 'dd/MM/yyyy HH:mm'), columns)),
+    divider
+  ];
+
+  order.items.forEach(item => {
+    lines.push(text(truncate(item.product_name, columns)));
+    lines.push(text(row(
+      `  ${item.quantity} x ${money(item.price)}`,
+      money(item.quantity * item.price),
+      columns
+    )));
+    order.discounts
+      ?.filter(discount => item.id !== undefined && discount.order_item_id === item.id)
+      .forEach(discount => {
+        lines.push(text(row(`  ${discount.description}`, money(-discount.amount), columns)));
+      });
+  });
+
+  lines.push(divider);
+
+  order.discounts
+    ?.filter(discount => discount.order_item_id === null)
+    .forEach(discount => {
+      lines.push(text(row(discount.description, money(-discount.amount), columns)));
+    });
+  if (order.subtotal !== undefined) {
+    lines.push(text(row(
+      `Subtotal${order.prices_include_tax ? ' (excl. tax)' : ''}`,
+      money(order.subtotal),
+      columns
+    )));
+  }
+  order.tax_lines?.forEach(line => {
+    lines.push(text(row(`${line.name} (${line.rate}%)`, money(line.tax_amount), columns)));
+  });
+  lines.push(text(row('TOTAL', money(order.total_amount), columns), { bold: true }));
+
+  if (order.payments && order.payments.length > 0) {
+    lines.push(divider);
+    order.payments.forEach(payment => {
+      lines.push(text(row(tenderMethodLabel(payment.method), money(payment.amount), columns)));
+    });
+    lines.push(text(row('Change', money(order.change_given || 0), columns)));
+  }
+  if (order.points_earned) {
+    lines.push(text(row('Points earned', String(order.points_earned), columns)));
+  }
+
+  order.refunds?.forEach(refund => {
+    lines.push(text(row(`Refund ${refund.refund_number}`, money(-refund.amount), columns)));
+  });
+
+  if (order.gift_cards && order.gift_cards.length > 0) {
+    lines.push(divider);
+    order.gift_cards.forEach(card => {
+      lines.push(text(row('Gift card', money(card.amount), columns), { bold: true }));
+      lines.push(text(formatGiftCardCode(card.code), { align: 'center', bold: true }));
+      if (card.expires_at) {
+        lines.push(text(`Expires ${format(new Date(card.expires_at), 'PP')}`, { align: 'center' }));
+      }
+    });
+  }
+
+  lines.push({ type: 'feed' });
+  lines.push({ type: 'barcode', data: order.order_number });
+  lines.push({ type: 'feed' });
+  store.footerLines.forEach(line => {
+    lines.push(text(truncate(line, columns), { align: 'center' }));
+  });
+
+  return lines;
+};
@@ -0,0 +1,62 @@
+import { roundCurrency } from '@/lib/money';
+
+export type RefundMethod = 'cash' | 'card' | 'store_credit';
+
+export interface RefundableItem {
+  id: number;
+  price: number;
+  quantity: number;
+  total_price: number | null;
+  tax_amount: number;
+  refunded_quantity: number;
+  refunded_amount: number;
+}
+
+export interface RefundSelection {
+  quantity: number;
+  restock: boolean;
+}
+
+export const refundableQuantity = (item: RefundableItem) =>
+  item.quantity - item.refunded_quantity;
+
+// What the customer paid for the whole line: its discounted total plus any
+// tax charged on top of it.
+const linePaid = (item: RefundableItem, pricesIncludeTax: boolean) =>
+  Number(item.total_price ?? item.price * item.quantity) +
+  (pricesIncludeTax ? 0 : Number(item.tax_amount));
+
+// Mirrors create_refund: units are refunded pro-rata, and returning the last
+// units of a line refunds whatever is left of it.
+export const refundAmountFor = (
+  item: RefundableItem,
+  quantity: number,
+  pricesIncludeTax: boolean
+) => {
+  if (quantity <= 0) return 0;
+  const paid = linePaid(item, pricesIncludeTax);
+  return quantity >= refundableQuantity(item)
+    ? roundCurrency(paid - Number(item.refunded_amount))
+    : roundCurrency(paid * quantity / item.quantity);
+};
+
+// Total refund for a selection of items. Once every unit on the order is
+// back, the refund settles the order to exactly what was paid, absorbing
+// rounding in the per-line taxes.
+export const calculateRefundTotal = (
+  order: { total_amount: number; prices_include_tax: boolean },
+  items: RefundableItem[],
+  selections: Record<number, RefundSelection>
+) => {
+  const total = roundCurrency(items.reduce(
+    (sum, item) => sum + refundAmountFor(item, selections[item.id]?.quantity || 0, order.prices_include_tax),
+    0
+  ));
+  const refundsEverything = items.every(
+    item => (selections[item.id]?.quantity || 0) >= refundableQuantity(item)
+  );
+  if (!refundsEverything || total === 0) return total;
+
+  const previouslyRefunded = items.reduce((sum, item) => sum + Number(item.refunded_amount), 0);
+  return roundCurrency(Number(order.total_amount) - previouslyRefunded);
+};
@@ -0,0 +1,48 @@
+// Staff roles, as app_roles() derives them from grants.privilege.
+export type Role = 'cashier' | 'inventory_clerk' | 'production_operator' | 'manager' | 'admin';
+
+export const ROLE_PRIVILEGES: Record<Role, number> = {
+  cashier: 1,
+  inventory_clerk: 2,
+  production_operator: 3,
+  manager: 4,
+  admin: 5
+};
+
+export const ROLES = Object.keys(ROLE_PRIVILEGES) as Role[];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  cashier: 'Cashier',
+  inventory_clerk: 'Inventory Clerk',
+  production_operator: 'Production Operator',
+  manager: 'Manager',
+  admin: 'Admin'
+};
+
+export const privilegeRole = (privilege: number): Role | undefined =>
+  ROLES.find(role => ROLE_PRIVILEGES[role] === privilege);
+
+// Mirrors has_role: admins pass every check, everyone else needs one of the
+// roles asked for. Managers are not implied, so list them where they belong.
+export const hasAnyRole = (roles: readonly Role[], allowed: readonly Role[]): boolean =>
+  roles.includes('admin') || allowed.some(role => roles.includes(role));
+
+// Who can open each area of the app. The same roles are enforced by the
+// row-level security policies, so this only decides what is shown.
+export const AREA_ROLES: Record<string, Role[]> = {
+  products: ['inventory_clerk', 'production_operator', 'manager'],
+  pos: ['cashier', 'manager'],
+  orders: ['cashier', 'manager'],
+  customers: ['cashier', 'manager'],
+  returns: ['cashier', 'manager'],
+  giftCards: ['cashier', 'manager'],
+  cash: ['cashier', 'manager'],
+  inventory: ['inventory_clerk', 'manager'],
+  purchases: ['inventory_clerk', 'manager'],
+  production: ['production_operator', 'manager'],
+  promotions: ['manager'],
+  margins: ['manager'],
+  settings: ['manager'],
+  audit: ['manager'],
+  staff: ['admin']
+};
@@ -0,0 +1,26 @@
+import { StockMovementReason } from '@/types/stock';
+
+export const STOCK_MOVEMENT_REASON_LABELS: Record<StockMovementReason, string> = {
+  sale: 'Sale',
+  purchase: 'Purchase',
+  production_in: 'Produced',
+  production_out: 'Used in Production',
+  adjustment: 'Adjustment',
+  return: 'Return',
+  transfer: 'Transfer'
+};
+
+// What stock_movements.reference_id points at for each reason.
+export const STOCK_MOVEMENT_REFERENCE_LABELS: Partial<Record<StockMovementReason, string>> = {
+  sale: 'Order',
+  purchase: 'Purchase',
+  production_in: 'Batch',
+  production_out: 'Batch',
+  adjustment: 'Stocktake',
+  return: 'Refund',
+  transfer: 'Transfer'
+};
+
+// +5, -2, +0.25: movements always show their direction.
+export const formatStockChange = (quantity: number): string =>
+  `${quantity > 0 ? '+' : ''}${Number(quantity)}`;
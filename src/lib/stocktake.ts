@@ -0,0 +1,55 @@
+import { roundCurrency } from '@/lib/money';
+import { StocktakeLineRow, StocktakeStatus } from '@/types/stocktake';
+
+export const STOCKTAKE_STATUS_LABELS: Record<StocktakeStatus, string> = {
+  counting: 'Counting',
+  approved: 'Approved',
+  cancelled: 'Cancelled'
+};
+
+export const STOCKTAKE_STATUS_CLASSES: Record<StocktakeStatus, string> = {
+  counting: 'bg-blue-100 text-blue-800',
+  approved: 'bg-green-100 text-green-800',
+  cancelled: 'bg-gray-100 text-gray-800'
+};
+
+// What the line is expected to count: the stock on hand when it was counted,
+// or the snapshot taken when the stocktake started until then.
+export const lineExpected = (line: Pick<StocktakeLineRow, 'expected_quantity' | 'on_hand_at_count'>): number =>
+  Number(line.on_hand_at_count ?? line.expected_quantity);
+
+// Counted minus expected, null while the line has not been counted. This is
+// what approve_stocktake posts as the adjustment.
+export const lineVariance = (
+  line: Pick<StocktakeLineRow, 'counted_quantity' | 'expected_quantity' | 'on_hand_at_count'>
+): number | null =>
+  line.counted_quantity === null ? null : Number(line.counted_quantity) - lineExpected(line);
+
+export interface StocktakeSummary {
+  lineCount: number;
+  countedCount: number;
+  varianceLines: number;
+  // Net units and value: gains and losses cancel out.
+  netUnits: number;
+  netValue: number;
+  // Value of the stock found missing.
+  shortageValue: number;
+}
+
+export const summariseStocktake = (lines: StocktakeLineRow[]): StocktakeSummary =>
+  lines.reduce<StocktakeSummary>((summary, line) => {
+    const variance = lineVariance(line);
+    if (variance === null) {
+      return { ...summary, lineCount: summary.lineCount + 1 };
+    }
+
+    const value = roundCurrency(variance * Number(line.unit_value));
+    return {
+      lineCount: summary.lineCount + 1,
+      countedCount: summary.countedCount + 1,
+      varianceLines: summary.varianceLines + (variance !== 0 ? 1 : 0),
+      netUnits: summary.netUnits + variance,
+      netValue: roundCurrency(summary.netValue + value),
+      shortageValue: roundCurrency(summary.shortageValue + (value < 0 ? -value : 0))
+    };
+  }, { lineCount: 0, countedCount: 0, varianceLines: 0, netUnits: 0, netValue: 0, shortageValue: 0 });
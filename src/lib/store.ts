@@ -0,0 +1,44 @@
+import { Database } from '@/integrations/supabase/types';
+
+type StoreSettingsRow = Database['public']['Tables']['store_settings']['Row'];
+
+// Store details printed on invoices and receipts.
+export interface StoreDetails {
+  storeName: string;
+  legalName: string;
+  addressLines: string[];
+  phone: string;
+  email: string;
+  taxId: string;
+  logoUrl: string;
+  footerLines: string[];
+  // IANA time zone the store runs on; happy hours are read on this clock.
+  timeZone: string;
+}
+
+export const DEFAULT_STORE_DETAILS: StoreDetails = {
+  storeName: 'NeonPOS',
+  legalName: '',
+  addressLines: ['123 Business Street', 'City, State 12345'],
+  phone: '',
+  email: '',
+  taxId: '',
+  logoUrl: '',
+  footerLines: ['Thank you for your business!', 'Please keep this receipt for your records'],
+  timeZone: 'UTC'
+};
+
+const splitLines = (text: string | null) =>
+  (text || '').split('\n').map(line => line.trim()).filter(Boolean);
+
+export const toStoreDetails = (row: StoreSettingsRow): StoreDetails => ({
+  storeName: row.store_name,
+  legalName: row.legal_name || '',
+  addressLines: splitLines(row.address),
+  phone: row.phone || '',
+  email: row.email || '',
+  taxId: row.tax_id || '',
+  logoUrl: row.logo_url || '',
+  footerLines: splitLines(row.footer_text),
+  timeZone: row.time_zone
+});
@@ -0,0 +1,14 @@
+import { addDays } from 'date-fns';
+import { SupplierRow } from '@/types/supplier';
+
+// Amounts owed to a supplier are in the currency it invoices in, which may
+// not be the store's, so they carry the currency code instead of a $ sign.
+export const formatSupplierAmount = (amount: number, currency: string | null | undefined): string =>
+  `${amount.toFixed(2)} ${currency ?? 'USD'}`;
+
+// When an order sent on sentAt should arrive, from the supplier's lead time.
+export const expectedDelivery = (
+  sentAt: string | null,
+  supplier: Pick<SupplierRow, 'lead_time_days'> | null | undefined
+): Date | null =>
+  sentAt && supplier?.lead_time_days != null ? addDays(new Date(sentAt), supplier.lead_time_days) : null;
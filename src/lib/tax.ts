@@ -0,0 +1,91 @@
+import { roundCurrency } from '@/lib/money';
+
+export interface TaxRate {
+  id: number;
+  name: string;
+  rate: number;
+}
+
+export interface TaxConfig {
+  pricesIncludeTax: boolean;
+  rates: TaxRate[];
+  // Category name -> ids of the active tax rates applied to it.
+  categoryRates: Record<string, number[]>;
+}
+
+export interface TaxableLine {
+  category: string;
+  amount: number;
+}
+
+export interface TaxLine {
+  taxRateId: number;
+  name: string;
+  rate: number;
+  taxableAmount: number;
+  taxAmount: number;
+}
+
+export interface TaxTotals {
+  subtotal: number;
+  taxLines: TaxLine[];
+  taxTotal: number;
+  total: number;
+}
+
+export const EMPTY_TAX_CONFIG: TaxConfig = {
+  pricesIncludeTax: false,
+  rates: [],
+  categoryRates: {}
+};
+
+// Client-side twin of the apply_order_tax database function. Keep the two in
+// step: per-rate amounts are accumulated unrounded and rounded once per rate.
+export const calculateTax = (lines: TaxableLine[], config: TaxConfig): TaxTotals => {
+  const ratesById = new Map(config.rates.map(rate => [rate.id, rate]));
+  const accumulated = new Map<number, { base: number; tax: number }>();
+
+  for (const line of lines) {
+    const lineRates = (config.categoryRates[line.category] || [])
+      .map(id => ratesById.get(id))
+      .filter((rate): rate is TaxRate => Boolean(rate));
+    if (lineRates.length === 0) continue;
+
+    const combinedRate = lineRates.reduce((sum, rate) => sum + rate.rate, 0);
+    const base = config.pricesIncludeTax
+      ? line.amount / (1 + combinedRate / 100)
+      : line.amount;
+
+    for (const rate of lineRates) {
+      const current = accumulated.get(rate.id) || { base: 0, tax: 0 };
+      accumulated.set(rate.id, {
+        base: current.base + base,
+        tax: current.tax + (config.pricesIncludeTax ? base * rate.rate / 100 : 0)
+      });
+    }
+  }
+
+  const taxLines = Array.from(accumulated.entries()).map(([id, totals]) => {
+    const rate = ratesById.get(id)!;
+    const taxableAmount = roundCurrency(totals.base);
+    return {
+      taxRateId: id,
+      name: rate.name,
+      rate: rate.rate,
+      taxableAmount,
+      taxAmount: config.pricesIncludeTax
+        ? roundCurrency(totals.tax)
+        : roundCurrency(taxableAmount * rate.rate / 100)
+    };
+  });
+
+  const gross = roundCurrency(lines.reduce((sum, line) => sum + line.amount, 0));
+  const taxTotal = roundCurrency(taxLines.reduce((sum, line) => sum + line.taxAmount, 0));
+
+  return {
+    subtotal: config.pricesIncludeTax ? roundCurrency(gross - taxTotal) : gross,
+    taxLines,
+    taxTotal,
+    total: config.pricesIncludeTax ? gross : roundCurrency(gross + taxTotal)
+  };
+};
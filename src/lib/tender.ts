@@ -0,0 +1,66 @@
+import { roundCurrency } from '@/lib/money';
+
+export type TenderMethod = 'cash' | 'card' | 'points' | 'gift_card' | 'store_credit';
+
+export interface Tender {
+  method: TenderMethod;
+  amount: number;
+  // Gift card or store credit code the tender is spent from.
+  code?: string;
+}
+
+export const TENDER_METHOD_LABELS: Record<TenderMethod, string> = {
+  cash: 'Cash',
+  card: 'Card',
+  points: 'Points',
+  gift_card: 'Gift Card',
+  store_credit: 'Store Credit'
+};
+
+// Display name for a payment or order payment method as stored, including
+// 'split' and anything recorded before a method had a label.
+export const tenderMethodLabel = (method: string): string =>
+  TENDER_METHOD_LABELS[method as TenderMethod] ??
+  method.charAt(0).toUpperCase() + method.slice(1).replace(/_/g, ' ');
+
+export interface TenderSummary {
+  paid: number;
+  cashPaid: number;
+  nonCashPaid: number;
+  remaining: number;
+  change: number;
+  isCovered: boolean;
+}
+
+// Mirrors the rules enforced by create_pos_order: change is only ever given
+// out of cash, so non-cash tenders may not take the order past its total.
+export const summariseTenders = (total: number, tenders: Tender[]): TenderSummary => {
+  const paid = roundCurrency(tenders.reduce((sum, tender) => sum + tender.amount, 0));
+  const cashPaid = roundCurrency(
+    tenders
+      .filter(tender => tender.method === 'cash')
+      .reduce((sum, tender) => sum + tender.amount, 0)
+  );
+  const nonCashPaid = roundCurrency(paid - cashPaid);
+
+  return {
+    paid,
+    cashPaid,
+    nonCashPaid,
+    remaining: roundCurrency(Math.max(0, total - paid)),
+    change: roundCurrency(Math.max(0, paid - total)),
+    isCovered: paid >= roundCurrency(total)
+  };
+};
+
+// Common notes a customer hands over for the amount still due, e.g. $13.40
+// suggests $15, $20 and $50.
+export const suggestCashAmounts = (due: number): number[] => {
+  if (due <= 0) return [];
+  const suggestions = new Set<number>([roundCurrency(due)]);
+  for (const note of [5, 10, 20, 50, 100]) {
+    const rounded = Math.ceil(due / note) * note;
+    if (rounded > due) suggestions.add(rounded);
+  }
+  return Array.from(suggestions).sort((a, b) => a - b).slice(0, 4);
+};
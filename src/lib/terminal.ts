@@ -0,0 +1,35 @@
+const TERMINAL_ID_KEY = 'neonpos.terminal-id';
+
+// Identifies this browser as a till. Generated once and kept in local
+// storage so parked carts can show which terminal they came from.
+export const getTerminalId = (): string => {
+  let terminalId = localStorage.getItem(TERMINAL_ID_KEY);
+  if (!terminalId) {
+    terminalId = `T-${crypto.randomUUID().slice(0, 8).toUpperCase()}`;
+    localStorage.setItem(TERMINAL_ID_KEY, terminalId);
+  }
+  return terminalId;
+};
+
+// Order numbers are made on the terminal so a sale taken offline already has
+// its final number. The terminal suffix keeps two tills that ring up a sale
+// in the same millisecond apart. create_pos_order reads both parts back to
+// tell a replayed sale from an online one, so the format must not change.
+export const generateOrderNumber = (): string =>
+  `ORD-${Date.now()}-${getTerminalId().slice(2)}`;
+
+const TERMINAL_LOCATION_KEY = 'neonpos.location-id';
+
+// The location this till sells from, or null to use the default location.
+export const getTerminalLocationId = (): number | null => {
+  const locationId = localStorage.getItem(TERMINAL_LOCATION_KEY);
+  return locationId ? Number(locationId) : null;
+};
+
+export const setTerminalLocationId = (locationId: number | null) => {
+  if (locationId === null) {
+    localStorage.removeItem(TERMINAL_LOCATION_KEY);
+  } else {
+    localStorage.setItem(TERMINAL_LOCATION_KEY, String(locationId));
+  }
+};
@@ -0,0 +1,13 @@
+import { StockTransferStatus } from '@/types/transfer';
+
+export const TRANSFER_STATUS_LABELS: Record<StockTransferStatus, string> = {
+  dispatched: 'In Transit',
+  received: 'Received',
+  cancelled: 'Cancelled'
+};
+
+export const TRANSFER_STATUS_CLASSES: Record<StockTransferStatus, string> = {
+  dispatched: 'bg-blue-100 text-blue-800',
+  received: 'bg-green-100 text-green-800',
+  cancelled: 'bg-gray-100 text-gray-800'
+};
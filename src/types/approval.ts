@@ -0,0 +1,5 @@
+import { Database } from '@/integrations/supabase/types';
+
+export type ManagerApprovalRow = Database['public']['Tables']['manager_approvals']['Row'];
+
+export type ApprovalAction = 'void_line' | 'price_override' | 'delete_product' | 'refund' | 'no_sale' | 'manual_discount';
@@ -0,0 +1,24 @@
+import { Database } from '@/integrations/supabase/types';
+
+export type AuditLogRow = Database['public']['Tables']['audit_log']['Row'];
+
+export type AuditAction = 'insert' | 'update' | 'delete';
+
+// The screens that tag their writes, sent in the x-app-source header.
+export type AuditSource =
+  | 'pos'
+  | 'orders'
+  | 'returns'
+  | 'customers'
+  | 'gift-cards'
+  | 'cash'
+  | 'products'
+  | 'recipes'
+  | 'production'
+  | 'purchases'
+  | 'suppliers'
+  | 'stocktake'
+  | 'transfers'
+  | 'promotions'
+  | 'settings'
+  | 'staff';
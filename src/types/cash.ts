@@ -0,0 +1,30 @@
+import { Database } from '@/integrations/supabase/types';
+
+export type CashSessionRow = Database['public']['Tables']['cash_sessions']['Row'];
+export type CashMovementRow = Database['public']['Tables']['cash_movements']['Row'];
+
+export type CashMovementType = 'paid_in' | 'paid_out';
+
+// Shape returned by cash_session_report and close_cash_session. While the
+// session is open this is the X report; once closed it is the Z report and
+// carries the count and variance.
+export interface CashSessionReport {
+  session: CashSessionRow;
+  order_count: number;
+  gross_sales: number;
+  cash_sales: number;
+  card_sales: number;
+  // Points and any other tenders that are neither cash nor card.
+  other_sales: number;
+  change_given: number;
+  refund_count: number;
+  cash_refunds: number;
+  card_refunds: number;
+  store_credit_refunds: number;
+  paid_in: number;
+  paid_out: number;
+  expected_cash: number;
+  counted_cash: number | null;
+  variance: number | null;
+  generated_at: string;
+}
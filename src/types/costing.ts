@@ -0,0 +1,6 @@
+import { Database } from '@/integrations/supabase/types';
+
+export type InventoryValuationRow = Database['public']['Views']['inventory_valuation']['Row'];
+export type OrderItemMarginRow = Database['public']['Views']['order_item_margins']['Row'];
+
+export type CostingMethod = 'weighted_average' | 'fifo';
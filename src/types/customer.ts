@@ -0,0 +1,4 @@
+import { Database } from '@/integrations/supabase/types';
+
+export type CustomerRow = Database['public']['Tables']['customers']['Row'];
+export type CustomerSummaryRow = Database['public']['Views']['customer_summaries']['Row'];
@@ -0,0 +1,7 @@
+import { Database } from '@/integrations/supabase/types';
+
+export type GiftCardRow = Database['public']['Tables']['gift_cards']['Row'];
+export type GiftCardTransactionRow = Database['public']['Tables']['gift_card_transactions']['Row'];
+export type GiftCardLiabilityRow = Database['public']['Views']['gift_card_liability']['Row'];
+
+export type GiftCardKind = 'gift_card' | 'store_credit';
@@ -0,0 +1,6 @@
+import { Database } from '@/integrations/supabase/types';
+
+export type LocationRow = Database['public']['Tables']['locations']['Row'];
+export type StockLevelRow = Database['public']['Tables']['stock_levels']['Row'];
+
+export type LocationKind = 'store' | 'warehouse' | 'production';
@@ -0,0 +1,6 @@
+import { Database } from '@/integrations/supabase/types';
+
+export type LoyaltyEarnRuleRow = Database['public']['Tables']['loyalty_earn_rules']['Row'];
+export type RewardRow = Database['public']['Tables']['rewards']['Row'];
+export type ReferralRow = Database['public']['Tables']['referals']['Row'];
+export type LoyaltyBalanceRow = Database['public']['Views']['loyalty_balances']['Row'];
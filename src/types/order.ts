@@ -0,0 +1,129 @@
+import { Database } from '@/integrations/supabase/types';
+import { CustomerRow } from '@/types/customer';
+import { GiftCardRow } from '@/types/gift-card';
+
+export type OrderRow = Database['public']['Tables']['orders']['Row'];
+export type OrderItemRow = Database['public']['Tables']['order_items']['Row'];
+export type PaymentRow = Database['public']['Tables']['payments']['Row'];
+export type OrderTaxLineRow = Database['public']['Tables']['order_tax_lines']['Row'];
+export type OrderDiscountRow = Database['public']['Tables']['order_discounts']['Row'];
+export type RefundRow = Database['public']['Tables']['refunds']['Row'];
+export type RefundItemRow = Database['public']['Tables']['refund_items']['Row'];
+
+// Shape returned by the create_pos_order RPC: the order row with its items,
+// the tenders it was paid with, its tax breakdown and applied discounts.
+export interface CheckoutOrder extends OrderRow {
+  items: OrderItemRow[];
+  payments: PaymentRow[];
+  tax_lines: OrderTaxLineRow[];
+  discounts: OrderDiscountRow[];
+  stock_conflicts?: StockConflict[];
+  // Loyalty points the customer earned on the order, returned at checkout.
+  points_earned?: number;
+  // Gift cards sold on the order.
+  gift_cards?: GiftCardRow[];
+  // Joined by useOrder, or attached by the POS after checkout.
+  customer?: CustomerRow | null;
+}
+
+// A product an offline sale sold more of than the server had in stock when
+// the sale was replayed.
+export interface StockConflict {
+  product_id: number;
+  product_name: string;
+  requested: number;
+  available: number;
+}
+
+// Line submitted to create_pos_order. Prices are read server-side from
+// products; discount_amount is the line's total discount, including its
+// share of any order-level discount.
+export interface CheckoutLine {
+  product_id: number;
+  quantity: number;
+  discount_amount: number;
+  // Manager approval of a price override for the line.
+  approval_id?: number;
+}
+
+// Discount record submitted to create_pos_order and stored in
+// order_discounts. product_id is null for order-level discounts.
+export interface CheckoutDiscount {
+  product_id: number | null;
+  source: 'manual' | 'promotion';
+  promotion_id?: number;
+  description: string;
+  discount_type?: 'percent' | 'amount';
+  value?: number;
+  amount: number;
+  reason?: string;
+  // Manager approval of a manual discount.
+  approval_id?: number;
+}
+
+// Shape returned by the create_refund RPC. store_credit is the card issued
+// when the refund is given as store credit.
+export interface RefundResult extends RefundRow {
+  items: RefundItemRow[];
+  store_credit: GiftCardRow | null;
+}
+
+// Everything the invoice needs to render an order, whether it has just been
+// checked out or is loaded again from order history.
+export interface OrderDetails {
+  order_number: string;
+  // Taken offline and still waiting in the outbox.
+  queued?: boolean;
+  invoice_number?: string | null;
+  order_status?: string;
+  // Who the order was billed to, with the billing address copied onto the
+  // order at checkout.
+  customer?: {
+    id: number;
+    name: string;
+    address_lines: string[];
+  };
+  total_amount: number;
+  points_earned?: number;
+  payment_method: string;
+  payments?: Array<{
+    method: string;
+    amount: number;
+  }>;
+  change_given?: number;
+  discount_total?: number;
+  discounts?: Array<{
+    order_item_id: number | null;
+    description: string;
+    reason: string | null;
+    amount: number;
+  }>;
+  subtotal?: number;
+  tax_total?: number;
+  prices_include_tax?: boolean;
+  tax_lines?: Array<{
+    name: string;
+    rate: number;
+    tax_amount: number;
+  }>;
+  refunds?: Array<{
+    refund_number: string;
+    amount: number;
+    created_at: string;
+  }>;
+  // Codes of the gift cards sold on the order, printed so the buyer can
+  // hand them on.
+  gift_cards?: Array<{
+    code: string;
+    amount: number;
+    expires_at: string | null;
+  }>;
+  items: Array<{
+    id?: number;
+    product_name: string;
+    quantity: number;
+    price: number;
+    discount_amount?: number;
+  }>;
+  created_at: string;
+}
@@ -0,0 +1,21 @@
+import { ManualDiscount, PriceOverride } from '@/lib/pricing';
+
+// One cart line as stored in parked_carts.items. Prices are not stored; the
+// cart is re-priced from products when it is recalled, apart from approved
+// price overrides.
+export interface ParkedCartItem {
+  product_id: number;
+  quantity: number;
+  discount?: ManualDiscount;
+  price_override?: PriceOverride;
+}
+
+export interface ParkedCart {
+  id: number;
+  label: string;
+  terminal_id: string;
+  items: ParkedCartItem[];
+  order_discount: ManualDiscount | null;
+  customer_id: number | null;
+  created_at: string;
+}
@@ -7,7 +7,17 @@ export interface Product {
   category: string;
   image?: string;
   sku: string;
+  barcode?: string;
+  alternateCodes?: string[];
   stock: number;
+  // Sold as a gift card: each unit issues a card loaded with the price, and
+  // no stock is kept.
+  isGiftCard?: boolean;
+  // Buy more once stock falls to reorderPoint, usually reorderQuantity at a
+  // time, from the preferred supplier.
+  reorderPoint?: number | null;
+  reorderQuantity?: number | null;
+  preferredSupplierId?: number | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -21,7 +31,13 @@ export interface SupabaseProduct {
   category?: string;
   photo_url?: string;
   sku: string;
+  barcode?: string;
+  alternate_codes?: string[];
   stock_quantity: number;
+  is_gift_card?: boolean;
+  reorder_point?: number | null;
+  reorder_quantity?: number | null;
+  preferred_supplier_id?: number | null;
   created_at: string;
   updated_at: string;
 }
@@ -0,0 +1,8 @@
+import { Database } from '@/integrations/supabase/types';
+
+export type PurchaseOrderRow = Database['public']['Tables']['purchase_orders']['Row'];
+export type PurchaseOrderLineRow = Database['public']['Tables']['purchase_order_lines']['Row'];
+export type GoodsReceiptRow = Database['public']['Tables']['goods_receipts']['Row'];
+export type GoodsReceiptLineRow = Database['public']['Tables']['goods_receipt_lines']['Row'];
+
+export type PurchaseOrderStatus = 'draft' | 'sent' | 'partially_received' | 'received' | 'cancelled' | 'closed';
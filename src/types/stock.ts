@@ -0,0 +1,14 @@
+import { Database } from '@/integrations/supabase/types';
+
+export type StockMovementRow = Database['public']['Tables']['stock_movements']['Row'];
+export type StockReconciliationRow = Database['public']['Views']['stock_reconciliation']['Row'];
+export type ReorderAlertRow = Database['public']['Views']['reorder_alerts']['Row'];
+
+export type StockMovementReason =
+  | 'sale'
+  | 'purchase'
+  | 'production_in'
+  | 'production_out'
+  | 'adjustment'
+  | 'return'
+  | 'transfer';
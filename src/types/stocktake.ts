@@ -0,0 +1,6 @@
+import { Database } from '@/integrations/supabase/types';
+
+export type StocktakeRow = Database['public']['Tables']['stocktakes']['Row'];
+export type StocktakeLineRow = Database['public']['Tables']['stocktake_lines']['Row'];
+
+export type StocktakeStatus = 'counting' | 'approved' | 'cancelled';
@@ -0,0 +1,5 @@
+import { Database } from '@/integrations/supabase/types';
+
+export type SupplierRow = Database['public']['Tables']['suppliers']['Row'];
+export type SupplierPriceRow = Database['public']['Tables']['supplier_prices']['Row'];
+export type SupplierInsert = Database['public']['Tables']['suppliers']['Insert'];
@@ -0,0 +1,6 @@
+import { Database } from '@/integrations/supabase/types';
+
+export type StockTransferRow = Database['public']['Tables']['stock_transfers']['Row'];
+export type StockTransferLineRow = Database['public']['Tables']['stock_transfer_lines']['Row'];
+
+export type StockTransferStatus = 'dispatched' | 'received' | 'cancelled';
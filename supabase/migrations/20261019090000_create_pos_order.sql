@@ -0,0 +1,122 @@
+-- Atomic POS checkout.
+--
+-- Replaces the client-side orders -> order_items -> products.update sequence
+-- with a single transaction. Product rows are locked before anything is
+-- written, stock is decremented relative to the locked value and the whole
+-- order is rolled back if any line would oversell.
+
+create or replace function public.create_pos_order(
+  p_payment_method text,
+  p_items jsonb
+)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_order public.orders;
+  v_item jsonb;
+  v_product public.products;
+  v_quantity integer;
+  v_total numeric := 0;
+begin
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'Cart is empty';
+  end if;
+
+  -- Lock every product in the basket up front, in id order, so two tills
+  -- checking out overlapping baskets cannot deadlock each other.
+  perform 1
+    from public.products
+   where id in (
+     select (value->>'product_id')::bigint
+       from jsonb_array_elements(p_items)
+   )
+   order by id
+   for update;
+
+  insert into public.orders (
+    order_number,
+    total_amount,
+    payment_method,
+    payment_status,
+    order_status,
+    user_id,
+    billing_address,
+    shipping_address
+  )
+  values (
+    'ORD-' || (extract(epoch from clock_timestamp()) * 1000)::bigint,
+    0,
+    p_payment_method,
+    'completed',
+    'completed',
+    1,
+    '{}'::jsonb,
+    '{}'::jsonb
+  )
+  returning * into v_order;
+
+  for v_item in select value from jsonb_array_elements(p_items)
+  loop
+    v_quantity := (v_item->>'quantity')::integer;
+    if v_quantity is null or v_quantity <= 0 then
+      raise exception 'Invalid quantity for product %', v_item->>'product_id';
+    end if;
+
+    select * into v_product
+      from public.products
+     where id = (v_item->>'product_id')::bigint;
+
+    if not found then
+      raise exception 'Product % not found', v_item->>'product_id';
+    end if;
+
+    if coalesce(v_product.stock_quantity, 0) < v_quantity then
+      raise exception 'Not enough stock of %. Requested: %, Available: %',
+        v_product.product_name, v_quantity, coalesce(v_product.stock_quantity, 0);
+    end if;
+
+    update public.products
+       set stock_quantity = stock_quantity - v_quantity,
+           updated_at = now()
+     where id = v_product.id;
+
+    insert into public.order_items (
+      order_id,
+      product_id,
+      product_name,
+      sku,
+      quantity,
+      price,
+      total_price
+    )
+    values (
+      v_order.id,
+      v_product.id,
+      v_product.product_name,
+      v_product.sku,
+      v_quantity,
+      v_product.price,
+      v_product.price * v_quantity
+    );
+
+    v_total := v_total + v_product.price * v_quantity;
+  end loop;
+
+  update public.orders
+     set total_amount = v_total
+   where id = v_order.id
+  returning * into v_order;
+
+  return to_jsonb(v_order) || jsonb_build_object(
+    'items',
+    (
+      select coalesce(jsonb_agg(to_jsonb(oi) order by oi.id), '[]'::jsonb)
+        from public.order_items oi
+       where oi.order_id = v_order.id
+    )
+  );
+end;
+$$;
+
+grant execute on function public.create_pos_order(text, jsonb) to anon, authenticated;
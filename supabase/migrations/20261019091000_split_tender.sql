@@ -0,0 +1,201 @@
+-- Split tender at the POS.
+--
+-- Each order can now be paid by several tenders, each recorded as a row in
+-- payments. Cash tendered beyond the amount due is returned as change and
+-- stored on the order.
+
+alter table public.payments
+  add column if not exists order_id bigint references public.orders (id);
+
+alter table public.payments
+  alter column userid drop not null;
+
+create index if not exists payments_order_id_idx on public.payments (order_id);
+
+alter table public.orders
+  add column if not exists change_given numeric not null default 0;
+
+drop function if exists public.create_pos_order(text, jsonb);
+
+create or replace function public.create_pos_order(
+  p_items jsonb,
+  p_tenders jsonb
+)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_order public.orders;
+  v_item jsonb;
+  v_tender jsonb;
+  v_product public.products;
+  v_quantity integer;
+  v_amount numeric;
+  v_method text;
+  v_total numeric := 0;
+  v_paid numeric := 0;
+  v_non_cash numeric := 0;
+  v_methods text[] := '{}';
+begin
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'Cart is empty';
+  end if;
+
+  if p_tenders is null or jsonb_typeof(p_tenders) <> 'array' or jsonb_array_length(p_tenders) = 0 then
+    raise exception 'At least one tender is required';
+  end if;
+
+  -- Lock every product in the basket up front, in id order, so two tills
+  -- checking out overlapping baskets cannot deadlock each other.
+  perform 1
+    from public.products
+   where id in (
+     select (value->>'product_id')::bigint
+       from jsonb_array_elements(p_items)
+   )
+   order by id
+   for update;
+
+  insert into public.orders (
+    order_number,
+    total_amount,
+    payment_method,
+    payment_status,
+    order_status,
+    user_id,
+    billing_address,
+    shipping_address
+  )
+  values (
+    'ORD-' || (extract(epoch from clock_timestamp()) * 1000)::bigint,
+    0,
+    null,
+    'pending',
+    'completed',
+    1,
+    '{}'::jsonb,
+    '{}'::jsonb
+  )
+  returning * into v_order;
+
+  for v_item in select value from jsonb_array_elements(p_items)
+  loop
+    v_quantity := (v_item->>'quantity')::integer;
+    if v_quantity is null or v_quantity <= 0 then
+      raise exception 'Invalid quantity for product %', v_item->>'product_id';
+    end if;
+
+    select * into v_product
+      from public.products
+     where id = (v_item->>'product_id')::bigint;
+
+    if not found then
+      raise exception 'Product % not found', v_item->>'product_id';
+    end if;
+
+    if coalesce(v_product.stock_quantity, 0) < v_quantity then
+      raise exception 'Not enough stock of %. Requested: %, Available: %',
+        v_product.product_name, v_quantity, coalesce(v_product.stock_quantity, 0);
+    end if;
+
+    update public.products
+       set stock_quantity = stock_quantity - v_quantity,
+           updated_at = now()
+     where id = v_product.id;
+
+    insert into public.order_items (
+      order_id,
+      product_id,
+      product_name,
+      sku,
+      quantity,
+      price,
+      total_price
+    )
+    values (
+      v_order.id,
+      v_product.id,
+      v_product.product_name,
+      v_product.sku,
+      v_quantity,
+      v_product.price,
+      v_product.price * v_quantity
+    );
+
+    v_total := v_total + v_product.price * v_quantity;
+  end loop;
+
+  for v_tender in select value from jsonb_array_elements(p_tenders)
+  loop
+    v_method := v_tender->>'method';
+    v_amount := round((v_tender->>'amount')::numeric, 2);
+
+    if v_method is null or v_method not in ('cash', 'card') then
+      raise exception 'Unsupported tender method %', coalesce(v_method, 'null');
+    end if;
+
+    if v_amount is null or v_amount <= 0 then
+      raise exception 'Tender amounts must be positive';
+    end if;
+
+    insert into public.payments (
+      order_id,
+      amount,
+      currency,
+      paymentgateway,
+      paymentstatus
+    )
+    values (
+      v_order.id,
+      v_amount,
+      'USD',
+      v_method,
+      'completed'
+    );
+
+    v_paid := v_paid + v_amount;
+    if v_method <> 'cash' then
+      v_non_cash := v_non_cash + v_amount;
+    end if;
+    if not v_method = any (v_methods) then
+      v_methods := v_methods || v_method;
+    end if;
+  end loop;
+
+  -- Change can only be given out of cash.
+  if v_non_cash > v_total then
+    raise exception 'Non-cash tenders (%) exceed the order total (%)', v_non_cash, v_total;
+  end if;
+
+  update public.orders
+     set total_amount = v_total,
+         payment_method = case
+           when array_length(v_methods, 1) = 1 then v_methods[1]
+           else 'split'
+         end,
+         payment_status = case
+           when v_paid >= v_total then 'completed'
+           else 'partial'
+         end,
+         change_given = greatest(v_paid - v_total, 0)
+   where id = v_order.id
+  returning * into v_order;
+
+  return to_jsonb(v_order) || jsonb_build_object(
+    'items',
+    (
+      select coalesce(jsonb_agg(to_jsonb(oi) order by oi.id), '[]'::jsonb)
+        from public.order_items oi
+       where oi.order_id = v_order.id
+    ),
+    'payments',
+    (
+      select coalesce(jsonb_agg(to_jsonb(p) order by p.paymentid), '[]'::jsonb)
+        from public.payments p
+       where p.order_id = v_order.id
+    )
+  );
+end;
+$$;
+
+grant execute on function public.create_pos_order(jsonb, jsonb) to anon, authenticated;
@@ -0,0 +1,316 @@
+-- Tax engine.
+--
+-- Tax rates are assigned to product categories and the store decides whether
+-- shelf prices include tax. apply_order_tax computes the breakdown for an
+-- order from its items; src/lib/tax.ts implements the same rules so the cart
+-- shows exactly what will be persisted:
+--   * tax-exclusive: each rate's tax is round(taxable base * rate, 2)
+--   * tax-inclusive: each line's net is gross / (1 + combined rate) and the
+--     per-rate tax is summed unrounded, then rounded once per rate.
+
+create table if not exists public.store_settings (
+  id integer primary key default 1 check (id = 1),
+  prices_include_tax boolean not null default false,
+  currency text not null default 'USD',
+  updated_at timestamptz not null default now()
+);
+
+insert into public.store_settings (id) values (1) on conflict (id) do nothing;
+
+create table if not exists public.tax_rates (
+  id bigint generated always as identity primary key,
+  name text not null,
+  rate numeric(7, 4) not null check (rate >= 0),
+  is_active boolean not null default true,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.category_tax_rates (
+  category text not null,
+  tax_rate_id bigint not null references public.tax_rates (id) on delete cascade,
+  primary key (category, tax_rate_id)
+);
+
+create table if not exists public.order_tax_lines (
+  id bigint generated always as identity primary key,
+  order_id bigint not null references public.orders (id) on delete cascade,
+  tax_rate_id bigint references public.tax_rates (id) on delete set null,
+  name text not null,
+  rate numeric(7, 4) not null,
+  taxable_amount numeric not null,
+  tax_amount numeric not null
+);
+
+create index if not exists order_tax_lines_order_id_idx on public.order_tax_lines (order_id);
+
+alter table public.orders
+  add column if not exists subtotal numeric,
+  add column if not exists tax_total numeric not null default 0,
+  add column if not exists prices_include_tax boolean not null default false;
+
+create or replace function public.apply_order_tax(p_order_id bigint)
+returns void
+language plpgsql
+as $$
+declare
+  v_inclusive boolean;
+  v_gross numeric;
+  v_tax numeric;
+begin
+  select coalesce(
+    (select prices_include_tax from public.store_settings where id = 1),
+    false
+  ) into v_inclusive;
+
+  delete from public.order_tax_lines where order_id = p_order_id;
+
+  with lines as (
+    select oi.id,
+           coalesce(oi.total_price, oi.price * oi.quantity) as amount,
+           p.category
+      from public.order_items oi
+      left join public.products p on p.id = oi.product_id
+     where oi.order_id = p_order_id
+  ),
+  line_rates as (
+    select l.id,
+           l.amount,
+           tr.id as tax_rate_id,
+           tr.name,
+           tr.rate,
+           sum(tr.rate) over (partition by l.id) as combined_rate
+      from lines l
+      join public.category_tax_rates ctr on ctr.category = l.category
+      join public.tax_rates tr on tr.id = ctr.tax_rate_id and tr.is_active
+  )
+  insert into public.order_tax_lines (
+    order_id,
+    tax_rate_id,
+    name,
+    rate,
+    taxable_amount,
+    tax_amount
+  )
+  select p_order_id,
+         tax_rate_id,
+         name,
+         rate,
+         case
+           when v_inclusive then round(sum(amount / (1 + combined_rate / 100)), 2)
+           else round(sum(amount), 2)
+         end,
+         case
+           when v_inclusive then round(sum(amount / (1 + combined_rate / 100) * rate / 100), 2)
+           else round(sum(amount) * rate / 100, 2)
+         end
+    from line_rates
+   group by tax_rate_id, name, rate;
+
+  select coalesce(sum(coalesce(total_price, price * quantity)), 0)
+    into v_gross
+    from public.order_items
+   where order_id = p_order_id;
+
+  select coalesce(sum(tax_amount), 0)
+    into v_tax
+    from public.order_tax_lines
+   where order_id = p_order_id;
+
+  update public.orders
+     set prices_include_tax = v_inclusive,
+         tax_total = v_tax,
+         subtotal = case when v_inclusive then v_gross - v_tax else v_gross end,
+         total_amount = case when v_inclusive then v_gross else v_gross + v_tax end
+   where id = p_order_id;
+end;
+$$;
+
+create or replace function public.create_pos_order(
+  p_items jsonb,
+  p_tenders jsonb
+)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_order public.orders;
+  v_item jsonb;
+  v_tender jsonb;
+  v_product public.products;
+  v_quantity integer;
+  v_amount numeric;
+  v_method text;
+  v_total numeric;
+  v_paid numeric := 0;
+  v_non_cash numeric := 0;
+  v_methods text[] := '{}';
+begin
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'Cart is empty';
+  end if;
+
+  if p_tenders is null or jsonb_typeof(p_tenders) <> 'array' or jsonb_array_length(p_tenders) = 0 then
+    raise exception 'At least one tender is required';
+  end if;
+
+  -- Lock every product in the basket up front, in id order, so two tills
+  -- checking out overlapping baskets cannot deadlock each other.
+  perform 1
+    from public.products
+   where id in (
+     select (value->>'product_id')::bigint
+       from jsonb_array_elements(p_items)
+   )
+   order by id
+   for update;
+
+  insert into public.orders (
+    order_number,
+    total_amount,
+    payment_method,
+    payment_status,
+    order_status,
+    user_id,
+    billing_address,
+    shipping_address
+  )
+  values (
+    'ORD-' || (extract(epoch from clock_timestamp()) * 1000)::bigint,
+    0,
+    null,
+    'pending',
+    'completed',
+    1,
+    '{}'::jsonb,
+    '{}'::jsonb
+  )
+  returning * into v_order;
+
+  for v_item in select value from jsonb_array_elements(p_items)
+  loop
+    v_quantity := (v_item->>'quantity')::integer;
+    if v_quantity is null or v_quantity <= 0 then
+      raise exception 'Invalid quantity for product %', v_item->>'product_id';
+    end if;
+
+    select * into v_product
+      from public.products
+     where id = (v_item->>'product_id')::bigint;
+
+    if not found then
+      raise exception 'Product % not found', v_item->>'product_id';
+    end if;
+
+    if coalesce(v_product.stock_quantity, 0) < v_quantity then
+      raise exception 'Not enough stock of %. Requested: %, Available: %',
+        v_product.product_name, v_quantity, coalesce(v_product.stock_quantity, 0);
+    end if;
+
+    update public.products
+       set stock_quantity = stock_quantity - v_quantity,
+           updated_at = now()
+     where id = v_product.id;
+
+    insert into public.order_items (
+      order_id,
+      product_id,
+      product_name,
+      sku,
+      quantity,
+      price,
+      total_price
+    )
+    values (
+      v_order.id,
+      v_product.id,
+      v_product.product_name,
+      v_product.sku,
+      v_quantity,
+      v_product.price,
+      v_product.price * v_quantity
+    );
+  end loop;
+
+  perform public.apply_order_tax(v_order.id);
+
+  select total_amount into v_total
+    from public.orders
+   where id = v_order.id;
+
+  for v_tender in select value from jsonb_array_elements(p_tenders)
+  loop
+    v_method := v_tender->>'method';
+    v_amount := round((v_tender->>'amount')::numeric, 2);
+
+    if v_method is null or v_method not in ('cash', 'card') then
+      raise exception 'Unsupported tender method %', coalesce(v_method, 'null');
+    end if;
+
+    if v_amount is null or v_amount <= 0 then
+      raise exception 'Tender amounts must be positive';
+    end if;
+
+    insert into public.payments (
+      order_id,
+      amount,
+      currency,
+      paymentgateway,
+      paymentstatus
+    )
+    values (
+      v_order.id,
+      v_amount,
+      'USD',
+      v_method,
+      'completed'
+    );
+
+    v_paid := v_paid + v_amount;
+    if v_method <> 'cash' then
+      v_non_cash := v_non_cash + v_amount;
+    end if;
+    if not v_method = any (v_methods) then
+      v_methods := v_methods || v_method;
+    end if;
+  end loop;
+
+  -- Change can only be given out of cash.
+  if v_non_cash > v_total then
+    raise exception 'Non-cash tenders (%) exceed the order total (%)', v_non_cash, v_total;
+  end if;
+
+  update public.orders
+     set payment_method = case
+           when array_length(v_methods, 1) = 1 then v_methods[1]
+           else 'split'
+         end,
+         payment_status = case
+           when v_paid >= v_total then 'completed'
+           else 'partial'
+         end,
+         change_given = greatest(v_paid - v_total, 0)
+   where id = v_order.id
+  returning * into v_order;
+
+  return to_jsonb(v_order) || jsonb_build_object(
+    'items',
+    (
+      select coalesce(jsonb_agg(to_jsonb(oi) order by oi.id), '[]'::jsonb)
+        from public.order_items oi
+       where oi.order_id = v_order.id
+    ),
+    'payments',
+    (
+      select coalesce(jsonb_agg(to_jsonb(p) order by p.paymentid), '[]'::jsonb)
+        from public.payments p
+       where p.order_id = v_order.id
+    ),
+    'tax_lines',
+    (
+      select coalesce(jsonb_agg(to_jsonb(t) order by t.id), '[]'::jsonb)
+        from public.order_tax_lines t
+       where t.order_id = v_order.id
+    )
+  );
+end;
+$$;
@@ -0,0 +1,306 @@
+-- Discounts and promotions.
+--
+-- Promotions are rules evaluated client-side against the cart (see
+-- src/lib/promotions.ts). Whatever discounts end up applied, manual or
+-- promotional, are sent to create_pos_order, which stores them in
+-- order_discounts and taxes each line on its discounted amount.
+
+create table if not exists public.promotions (
+  id bigint generated always as identity primary key,
+  name text not null,
+  type text not null check (type in ('buy_x_get_y', 'category_percent', 'happy_hour', 'bundle_price')),
+  config jsonb not null default '{}'::jsonb,
+  starts_at timestamptz,
+  ends_at timestamptz,
+  is_active boolean not null default true,
+  created_at timestamptz not null default now()
+);
+
+alter table public.order_items
+  add column if not exists discount_amount numeric not null default 0;
+
+alter table public.orders
+  add column if not exists discount_total numeric not null default 0;
+
+create table if not exists public.order_discounts (
+  id bigint generated always as identity primary key,
+  order_id bigint not null references public.orders (id) on delete cascade,
+  order_item_id bigint references public.order_items (id) on delete cascade,
+  source text not null check (source in ('manual', 'promotion')),
+  promotion_id bigint references public.promotions (id) on delete set null,
+  description text not null,
+  discount_type text check (discount_type in ('percent', 'amount')),
+  value numeric,
+  amount numeric not null check (amount >= 0),
+  reason text,
+  authorised_by text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists order_discounts_order_id_idx on public.order_discounts (order_id);
+
+drop function if exists public.create_pos_order(jsonb, jsonb);
+
+create or replace function public.create_pos_order(
+  p_items jsonb,
+  p_tenders jsonb,
+  p_discounts jsonb default '[]'::jsonb
+)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_order public.orders;
+  v_item jsonb;
+  v_tender jsonb;
+  v_product public.products;
+  v_discount jsonb;
+  v_quantity integer;
+  v_line_discount numeric;
+  v_line_discounts numeric := 0;
+  v_recorded_discounts numeric := 0;
+  v_amount numeric;
+  v_method text;
+  v_total numeric;
+  v_paid numeric := 0;
+  v_non_cash numeric := 0;
+  v_methods text[] := '{}';
+begin
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'Cart is empty';
+  end if;
+
+  if p_tenders is null or jsonb_typeof(p_tenders) <> 'array' or jsonb_array_length(p_tenders) = 0 then
+    raise exception 'At least one tender is required';
+  end if;
+
+  -- Lock every product in the basket up front, in id order, so two tills
+  -- checking out overlapping baskets cannot deadlock each other.
+  perform 1
+    from public.products
+   where id in (
+     select (value->>'product_id')::bigint
+       from jsonb_array_elements(p_items)
+   )
+   order by id
+   for update;
+
+  insert into public.orders (
+    order_number,
+    total_amount,
+    payment_method,
+    payment_status,
+    order_status,
+    user_id,
+    billing_address,
+    shipping_address
+  )
+  values (
+    'ORD-' || (extract(epoch from clock_timestamp()) * 1000)::bigint,
+    0,
+    null,
+    'pending',
+    'completed',
+    1,
+    '{}'::jsonb,
+    '{}'::jsonb
+  )
+  returning * into v_order;
+
+  for v_item in select value from jsonb_array_elements(p_items)
+  loop
+    v_quantity := (v_item->>'quantity')::integer;
+    if v_quantity is null or v_quantity <= 0 then
+      raise exception 'Invalid quantity for product %', v_item->>'product_id';
+    end if;
+
+    select * into v_product
+      from public.products
+     where id = (v_item->>'product_id')::bigint;
+
+    if not found then
+      raise exception 'Product % not found', v_item->>'product_id';
+    end if;
+
+    if coalesce(v_product.stock_quantity, 0) < v_quantity then
+      raise exception 'Not enough stock of %. Requested: %, Available: %',
+        v_product.product_name, v_quantity, coalesce(v_product.stock_quantity, 0);
+    end if;
+
+    v_line_discount := round(coalesce((v_item->>'discount_amount')::numeric, 0), 2);
+    if v_line_discount < 0 or v_line_discount > v_product.price * v_quantity then
+      raise exception 'Invalid discount for %', v_product.product_name;
+    end if;
+
+    update public.products
+       set stock_quantity = stock_quantity - v_quantity,
+           updated_at = now()
+     where id = v_product.id;
+
+    insert into public.order_items (
+      order_id,
+      product_id,
+      product_name,
+      sku,
+      quantity,
+      price,
+      discount_amount,
+      total_price
+    )
+    values (
+      v_order.id,
+      v_product.id,
+      v_product.product_name,
+      v_product.sku,
+      v_quantity,
+      v_product.price,
+      v_line_discount,
+      v_product.price * v_quantity - v_line_discount
+    );
+
+    v_line_discounts := v_line_discounts + v_line_discount;
+  end loop;
+
+  -- The per-line discount amounts already include each line's share of any
+  -- order-level discount, so the recorded discounts must add up to them.
+  for v_discount in select value from jsonb_array_elements(coalesce(p_discounts, '[]'::jsonb))
+  loop
+    v_amount := round((v_discount->>'amount')::numeric, 2);
+    if v_amount is null or v_amount < 0 then
+      raise exception 'Invalid discount amount';
+    end if;
+
+    insert into public.order_discounts (
+      order_id,
+      order_item_id,
+      source,
+      promotion_id,
+      description,
+      discount_type,
+      value,
+      amount,
+      reason,
+      authorised_by
+    )
+    values (
+      v_order.id,
+      (
+        select oi.id
+          from public.order_items oi
+         where oi.order_id = v_order.id
+           and oi.product_id = (v_discount->>'product_id')::bigint
+         limit 1
+      ),
+      v_discount->>'source',
+      (v_discount->>'promotion_id')::bigint,
+      v_discount->>'description',
+      v_discount->>'discount_type',
+      (v_discount->>'value')::numeric,
+      v_amount,
+      v_discount->>'reason',
+      v_discount->>'authorised_by'
+    );
+
+    v_recorded_discounts := v_recorded_discounts + v_amount;
+  end loop;
+
+  if abs(v_recorded_discounts - v_line_discounts) > 0.01 then
+    raise exception 'Discount breakdown (%) does not match line discounts (%)',
+      v_recorded_discounts, v_line_discounts;
+  end if;
+
+  update public.orders
+     set discount_total = v_line_discounts
+   where id = v_order.id;
+
+  perform public.apply_order_tax(v_order.id);
+
+  select total_amount into v_total
+    from public.orders
+   where id = v_order.id;
+
+  for v_tender in select value from jsonb_array_elements(p_tenders)
+  loop
+    v_method := v_tender->>'method';
+    v_amount := round((v_tender->>'amount')::numeric, 2);
+
+    if v_method is null or v_method not in ('cash', 'card') then
+      raise exception 'Unsupported tender method %', coalesce(v_method, 'null');
+    end if;
+
+    if v_amount is null or v_amount <= 0 then
+      raise exception 'Tender amounts must be positive';
+    end if;
+
+    insert into public.payments (
+      order_id,
+      amount,
+      currency,
+      paymentgateway,
+      paymentstatus
+    )
+    values (
+      v_order.id,
+      v_amount,
+      'USD',
+      v_method,
+      'completed'
+    );
+
+    v_paid := v_paid + v_amount;
+    if v_method <> 'cash' then
+      v_non_cash := v_non_cash + v_amount;
+    end if;
+    if not v_method = any (v_methods) then
+      v_methods := v_methods || v_method;
+    end if;
+  end loop;
+
+  -- Change can only be given out of cash.
+  if v_non_cash > v_total then
+    raise exception 'Non-cash tenders (%) exceed the order total (%)', v_non_cash, v_total;
+  end if;
+
+  update public.orders
+     set payment_method = case
+           when array_length(v_methods, 1) = 1 then v_methods[1]
+           else 'split'
+         end,
+         payment_status = case
+           when v_paid >= v_total then 'completed'
+           else 'partial'
+         end,
+         change_given = greatest(v_paid - v_total, 0)
+   where id = v_order.id
+  returning * into v_order;
+
+  return to_jsonb(v_order) || jsonb_build_object(
+    'items',
+    (
+      select coalesce(jsonb_agg(to_jsonb(oi) order by oi.id), '[]'::jsonb)
+        from public.order_items oi
+       where oi.order_id = v_order.id
+    ),
+    'payments',
+    (
+      select coalesce(jsonb_agg(to_jsonb(p) order by p.paymentid), '[]'::jsonb)
+        from public.payments p
+       where p.order_id = v_order.id
+    ),
+    'tax_lines',
+    (
+      select coalesce(jsonb_agg(to_jsonb(t) order by t.id), '[]'::jsonb)
+        from public.order_tax_lines t
+       where t.order_id = v_order.id
+    ),
+    'discounts',
+    (
+      select coalesce(jsonb_agg(to_jsonb(d) order by d.id), '[]'::jsonb)
+        from public.order_discounts d
+       where d.order_id = v_order.id
+    )
+  );
+end;
+$$;
+
+grant execute on function public.create_pos_order(jsonb, jsonb, jsonb) to anon, authenticated;
@@ -0,0 +1,321 @@
+-- Refunds and returns against completed orders.
+--
+-- Each order item now carries its own tax amount so a partial return can
+-- refund exactly the tax that was charged on the returned units.
+-- create_refund validates quantities against what is still refundable,
+-- optionally puts stock back, records the refund as a negative payment and
+-- moves the order to refunded / partially_refunded.
+
+alter table public.order_items
+  add column if not exists tax_amount numeric not null default 0,
+  add column if not exists refunded_quantity integer not null default 0,
+  add column if not exists refunded_amount numeric not null default 0;
+
+create table if not exists public.refunds (
+  id bigint generated always as identity primary key,
+  refund_number text not null unique,
+  order_id bigint not null references public.orders (id),
+  amount numeric not null,
+  refund_method text not null,
+  reason text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists refunds_order_id_idx on public.refunds (order_id);
+
+create table if not exists public.refund_items (
+  id bigint generated always as identity primary key,
+  refund_id bigint not null references public.refunds (id) on delete cascade,
+  order_item_id bigint not null references public.order_items (id),
+  quantity integer not null check (quantity > 0),
+  amount numeric not null,
+  restocked boolean not null default false
+);
+
+alter table public.payments
+  add column if not exists refund_id bigint references public.refunds (id);
+
+-- Every (order item, tax rate) pair for an order together with the line's
+-- taxable amount and combined rate. Shared by the order- and line-level tax
+-- calculations so they cannot drift apart.
+create or replace function public.order_line_tax_rates(p_order_id bigint)
+returns table (
+  order_item_id bigint,
+  amount numeric,
+  tax_rate_id bigint,
+  name text,
+  rate numeric,
+  combined_rate numeric
+)
+language sql
+stable
+as $$
+  select oi.id,
+         coalesce(oi.total_price, oi.price * oi.quantity),
+         tr.id,
+         tr.name,
+         tr.rate,
+         sum(tr.rate) over (partition by oi.id)
+    from public.order_items oi
+    join public.products p on p.id = oi.product_id
+    join public.category_tax_rates ctr on ctr.category = p.category
+    join public.tax_rates tr on tr.id = ctr.tax_rate_id and tr.is_active
+   where oi.order_id = p_order_id
+$$;
+
+create or replace function public.apply_order_tax(p_order_id bigint)
+returns void
+language plpgsql
+as $$
+declare
+  v_inclusive boolean;
+  v_gross numeric;
+  v_tax numeric;
+begin
+  select coalesce(
+    (select prices_include_tax from public.store_settings where id = 1),
+    false
+  ) into v_inclusive;
+
+  delete from public.order_tax_lines where order_id = p_order_id;
+
+  insert into public.order_tax_lines (
+    order_id,
+    tax_rate_id,
+    name,
+    rate,
+    taxable_amount,
+    tax_amount
+  )
+  select p_order_id,
+         tax_rate_id,
+         name,
+         rate,
+         case
+           when v_inclusive then round(sum(amount / (1 + combined_rate / 100)), 2)
+           else round(sum(amount), 2)
+         end,
+         case
+           when v_inclusive then round(sum(amount / (1 + combined_rate / 100) * rate / 100), 2)
+           else round(sum(amount) * rate / 100, 2)
+         end
+    from public.order_line_tax_rates(p_order_id)
+   group by tax_rate_id, name, rate;
+
+  update public.order_items oi
+     set tax_amount = coalesce(line_tax.tax, 0)
+    from (
+      select items.id,
+             (
+               select round(sum(
+                        case
+                          when v_inclusive then lr.amount / (1 + lr.combined_rate / 100) * lr.rate / 100
+                          else lr.amount * lr.rate / 100
+                        end
+                      ), 2)
+                 from public.order_line_tax_rates(p_order_id) lr
+                where lr.order_item_id = items.id
+             ) as tax
+        from public.order_items items
+       where items.order_id = p_order_id
+    ) line_tax
+   where oi.id = line_tax.id;
+
+  select coalesce(sum(coalesce(total_price, price * quantity)), 0)
+    into v_gross
+    from public.order_items
+   where order_id = p_order_id;
+
+  select coalesce(sum(tax_amount), 0)
+    into v_tax
+    from public.order_tax_lines
+   where order_id = p_order_id;
+
+  update public.orders
+     set prices_include_tax = v_inclusive,
+         tax_total = v_tax,
+         subtotal = case when v_inclusive then v_gross - v_tax else v_gross end,
+         total_amount = case when v_inclusive then v_gross else v_gross + v_tax end
+   where id = p_order_id;
+end;
+$$;
+
+create or replace function public.create_refund(
+  p_order_id bigint,
+  p_items jsonb,
+  p_refund_method text,
+  p_reason text default null
+)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_order public.orders;
+  v_refund public.refunds;
+  v_item jsonb;
+  v_order_item public.order_items;
+  v_quantity integer;
+  v_line_total numeric;
+  v_amount numeric;
+  v_total numeric := 0;
+  v_restock boolean;
+  v_previously_refunded numeric;
+  v_last_refund_item_id bigint;
+begin
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'Select at least one item to refund';
+  end if;
+
+  if p_refund_method is null or p_refund_method not in ('cash', 'card') then
+    raise exception 'Unsupported refund method %', coalesce(p_refund_method, 'null');
+  end if;
+
+  select * into v_order
+    from public.orders
+   where id = p_order_id
+     for update;
+
+  if not found then
+    raise exception 'Order % not found', p_order_id;
+  end if;
+
+  if v_order.order_status = 'refunded' then
+    raise exception 'Order % has already been fully refunded', v_order.order_number;
+  end if;
+
+  if v_order.order_status not in ('completed', 'partially_refunded') then
+    raise exception 'Only completed orders can be refunded';
+  end if;
+
+  select coalesce(sum(amount), 0) into v_previously_refunded
+    from public.refunds
+   where order_id = v_order.id;
+
+  insert into public.refunds (refund_number, order_id, amount, refund_method, reason)
+  values (
+    'RFD-' || (extract(epoch from clock_timestamp()) * 1000)::bigint,
+    v_order.id,
+    0,
+    p_refund_method,
+    p_reason
+  )
+  returning * into v_refund;
+
+  for v_item in select value from jsonb_array_elements(p_items)
+  loop
+    v_quantity := (v_item->>'quantity')::integer;
+    v_restock := coalesce((v_item->>'restock')::boolean, true);
+
+    select * into v_order_item
+      from public.order_items
+     where id = (v_item->>'order_item_id')::bigint
+       and order_id = v_order.id
+       for update;
+
+    if not found then
+      raise exception 'Item % does not belong to order %', v_item->>'order_item_id', v_order.order_number;
+    end if;
+
+    if v_quantity is null or v_quantity <= 0
+       or v_quantity > v_order_item.quantity - v_order_item.refunded_quantity then
+      raise exception 'Cannot refund % of %: only % left to refund',
+        coalesce(v_quantity, 0), v_order_item.product_name,
+        v_order_item.quantity - v_order_item.refunded_quantity;
+    end if;
+
+    -- What the customer actually paid for the line: its discounted total plus
+    -- any tax added on top of it.
+    v_line_total := coalesce(v_order_item.total_price, v_order_item.price * v_order_item.quantity)
+      + case when v_order.prices_include_tax then 0 else v_order_item.tax_amount end;
+
+    -- Returning the last units of a line refunds whatever is left of it, so
+    -- rounding never leaves a cent behind.
+    if v_quantity = v_order_item.quantity - v_order_item.refunded_quantity then
+      v_amount := v_line_total - v_order_item.refunded_amount;
+    else
+      v_amount := round(v_line_total * v_quantity / v_order_item.quantity, 2);
+    end if;
+
+    update public.order_items
+       set refunded_quantity = refunded_quantity + v_quantity,
+           refunded_amount = refunded_amount + v_amount
+     where id = v_order_item.id;
+
+    if v_restock then
+      update public.products
+         set stock_quantity = coalesce(stock_quantity, 0) + v_quantity,
+             updated_at = now()
+       where id = v_order_item.product_id;
+    end if;
+
+    insert into public.refund_items (refund_id, order_item_id, quantity, amount, restocked)
+    values (v_refund.id, v_order_item.id, v_quantity, v_amount, v_restock)
+    returning id into v_last_refund_item_id;
+
+    v_total := v_total + v_amount;
+  end loop;
+
+  -- Line taxes are rounded individually, so once every unit is back the final
+  -- refund settles the order to exactly what was paid.
+  if not exists (
+    select 1
+      from public.order_items
+     where order_id = v_order.id
+       and refunded_quantity < quantity
+  ) and v_previously_refunded + v_total <> v_order.total_amount then
+    update public.refund_items
+       set amount = amount + (v_order.total_amount - v_previously_refunded - v_total)
+     where id = v_last_refund_item_id;
+    update public.order_items
+       set refunded_amount = refunded_amount + (v_order.total_amount - v_previously_refunded - v_total)
+     where id = (select order_item_id from public.refund_items where id = v_last_refund_item_id);
+    v_total := v_order.total_amount - v_previously_refunded;
+  end if;
+
+  update public.refunds
+     set amount = v_total
+   where id = v_refund.id
+  returning * into v_refund;
+
+  insert into public.payments (
+    order_id,
+    refund_id,
+    amount,
+    currency,
+    paymentgateway,
+    paymentstatus
+  )
+  values (
+    v_order.id,
+    v_refund.id,
+    -v_total,
+    'USD',
+    p_refund_method,
+    'refunded'
+  );
+
+  update public.orders
+     set order_status = case
+           when exists (
+             select 1
+               from public.order_items
+              where order_id = v_order.id
+                and refunded_quantity < quantity
+           ) then 'partially_refunded'
+           else 'refunded'
+         end,
+         updated_at = now()
+   where id = v_order.id;
+
+  return to_jsonb(v_refund) || jsonb_build_object(
+    'items',
+    (
+      select coalesce(jsonb_agg(to_jsonb(ri) order by ri.id), '[]'::jsonb)
+        from public.refund_items ri
+       where ri.refund_id = v_refund.id
+    )
+  );
+end;
+$$;
+
+grant execute on function public.create_refund(bigint, jsonb, text, text) to anon, authenticated;
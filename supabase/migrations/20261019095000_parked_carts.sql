@@ -0,0 +1,21 @@
+-- Parked (held) carts.
+--
+-- A cashier can park the current basket to serve someone else and recall it
+-- later, from the same or another terminal. Items are stored as the cart
+-- holds them ({product_id, quantity, discount}) and re-priced on recall.
+-- Parked quantities are not deducted from stock; the POS shows them as
+-- soft-reserved.
+
+create table if not exists public.parked_carts (
+  id bigint generated always as identity primary key,
+  label text not null,
+  terminal_id text not null,
+  items jsonb not null default '[]'::jsonb,
+  order_discount jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists parked_carts_created_at_idx on public.parked_carts (created_at);
+
+-- Other terminals pick up parked and recalled carts as they happen.
+alter publication supabase_realtime add table public.parked_carts;
@@ -0,0 +1,17 @@
+-- Barcodes for scanning at the POS.
+--
+-- barcode holds the code printed on the product (EAN/UPC or in-house);
+-- alternate_codes covers extra codes for the same item, such as a
+-- supplier's barcode or an old label still on the shelf. Scans resolve
+-- against sku, barcode and alternate_codes.
+
+alter table public.products
+  add column if not exists barcode text,
+  add column if not exists alternate_codes text[] not null default '{}';
+
+create unique index if not exists products_barcode_key
+  on public.products (barcode)
+  where barcode is not null;
+
+create index if not exists products_alternate_codes_idx
+  on public.products using gin (alternate_codes);
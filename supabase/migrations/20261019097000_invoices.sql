@@ -0,0 +1,68 @@
+-- Store details for invoices and receipts, and sequential invoice numbers.
+--
+-- Invoice numbers come from a counter on store_settings rather than a
+-- sequence: the counter row is locked until the sale commits, so a failed
+-- checkout never leaves a gap in the numbering.
+
+alter table public.store_settings
+  add column if not exists store_name text not null default 'NeonPOS',
+  add column if not exists legal_name text,
+  add column if not exists address text,
+  add column if not exists phone text,
+  add column if not exists email text,
+  add column if not exists tax_id text,
+  add column if not exists logo_url text,
+  add column if not exists footer_text text,
+  add column if not exists invoice_prefix text not null default 'INV-',
+  add column if not exists next_invoice_number bigint not null default 1;
+
+update public.store_settings
+   set address = coalesce(address, E'123 Business Street\nCity, State 12345'),
+       footer_text = coalesce(footer_text, E'Thank you for your business!\nPlease keep this receipt for your records')
+ where id = 1;
+
+alter table public.orders
+  add column if not exists invoice_number text unique;
+
+-- Number existing orders in the order they were placed.
+with numbered as (
+  select id, row_number() over (order by created_at, id) as n
+    from public.orders
+   where invoice_number is null
+)
+update public.orders o
+   set invoice_number = (select invoice_prefix from public.store_settings where id = 1) || lpad(numbered.n::text, 6, '0')
+  from numbered
+ where o.id = numbered.id;
+
+update public.store_settings
+   set next_invoice_number = (select count(*) + 1 from public.orders where invoice_number is not null)
+ where id = 1;
+
+create or replace function public.assign_invoice_number()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_prefix text;
+  v_number bigint;
+begin
+  if new.invoice_number is not null then
+    return new;
+  end if;
+
+  update public.store_settings
+     set next_invoice_number = next_invoice_number + 1
+   where id = 1
+  returning invoice_prefix, next_invoice_number - 1
+    into v_prefix, v_number;
+
+  new.invoice_number := v_prefix || lpad(v_number::text, 6, '0');
+  return new;
+end;
+$$;
+
+drop trigger if exists orders_assign_invoice_number on public.orders;
+create trigger orders_assign_invoice_number
+  before insert on public.orders
+  for each row execute function public.assign_invoice_number();
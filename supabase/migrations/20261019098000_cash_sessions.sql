@@ -0,0 +1,712 @@
+-- Cash drawer sessions.
+--
+-- A cashier opens a session for their terminal with an opening float; every
+-- sale and refund taken on that terminal is tied to the open session, and
+-- cash paid into or out of the drawer is recorded as a movement. At close
+-- the cash is counted by denomination and compared with what the drawer
+-- should hold:
+--
+--   expected = opening float + cash tendered - change given
+--              + paid in - paid out - cash refunds
+--
+-- cash_session_report gives the running (X) figures for an open session and
+-- the final (Z) figures, including the count and variance, once closed.
+
+create table if not exists public.cash_sessions (
+  id bigint generated always as identity primary key,
+  terminal_id text not null,
+  status text not null default 'open' check (status in ('open', 'closed')),
+  opened_by text not null,
+  opening_float numeric not null default 0 check (opening_float >= 0),
+  opened_at timestamptz not null default now(),
+  closed_by text,
+  closed_at timestamptz,
+  counted_denominations jsonb,
+  counted_cash numeric,
+  expected_cash numeric,
+  variance numeric,
+  notes text
+);
+
+-- One open drawer per terminal.
+create unique index if not exists cash_sessions_open_terminal_idx
+  on public.cash_sessions (terminal_id)
+  where status = 'open';
+
+create index if not exists cash_sessions_opened_at_idx on public.cash_sessions (opened_at);
+
+create table if not exists public.cash_movements (
+  id bigint generated always as identity primary key,
+  session_id bigint not null references public.cash_sessions (id),
+  movement_type text not null check (movement_type in ('paid_in', 'paid_out')),
+  amount numeric not null check (amount > 0),
+  reason text not null,
+  created_by text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists cash_movements_session_id_idx on public.cash_movements (session_id);
+
+alter table public.orders
+  add column if not exists cash_session_id bigint references public.cash_sessions (id);
+
+alter table public.refunds
+  add column if not exists cash_session_id bigint references public.cash_sessions (id);
+
+create index if not exists orders_cash_session_id_idx on public.orders (cash_session_id);
+create index if not exists refunds_cash_session_id_idx on public.refunds (cash_session_id);
+
+-- Movements can only be added to a drawer that is still open.
+create or replace function public.cash_movements_require_open_session()
+returns trigger
+language plpgsql
+as $$
+begin
+  if not exists (
+    select 1
+      from public.cash_sessions
+     where id = new.session_id
+       and status = 'open'
+  ) then
+    raise exception 'Cash drawer session % is not open', new.session_id;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists cash_movements_require_open_session on public.cash_movements;
+create trigger cash_movements_require_open_session
+  before insert on public.cash_movements
+  for each row execute function public.cash_movements_require_open_session();
+
+drop function if exists public.create_pos_order(jsonb, jsonb, jsonb);
+
+create or replace function public.create_pos_order(
+  p_items jsonb,
+  p_tenders jsonb,
+  p_discounts jsonb default '[]'::jsonb,
+  p_cash_session_id bigint default null
+)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_order public.orders;
+  v_item jsonb;
+  v_tender jsonb;
+  v_product public.products;
+  v_discount jsonb;
+  v_quantity integer;
+  v_line_discount numeric;
+  v_line_discounts numeric := 0;
+  v_recorded_discounts numeric := 0;
+  v_amount numeric;
+  v_method text;
+  v_total numeric;
+  v_paid numeric := 0;
+  v_non_cash numeric := 0;
+  v_methods text[] := '{}';
+  v_session public.cash_sessions;
+begin
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'Cart is empty';
+  end if;
+
+  if p_tenders is null or jsonb_typeof(p_tenders) <> 'array' or jsonb_array_length(p_tenders) = 0 then
+    raise exception 'At least one tender is required';
+  end if;
+
+  -- The share lock keeps the drawer from being closed while a sale into it
+  -- is still being written.
+  select * into v_session
+    from public.cash_sessions
+   where id = p_cash_session_id
+     for share;
+
+  if not found or v_session.status <> 'open' then
+    raise exception 'Open a cash drawer session before taking payments';
+  end if;
+
+  -- Lock every product in the basket up front, in id order, so two tills
+  -- checking out overlapping baskets cannot deadlock each other.
+  perform 1
+    from public.products
+   where id in (
+     select (value->>'product_id')::bigint
+       from jsonb_array_elements(p_items)
+   )
+   order by id
+   for update;
+
+  insert into public.orders (
+    order_number,
+    total_amount,
+    payment_method,
+    payment_status,
+    order_status,
+    user_id,
+    cash_session_id,
+    billing_address,
+    shipping_address
+  )
+  values (
+    'ORD-' || (extract(epoch from clock_timestamp()) * 1000)::bigint,
+    0,
+    null,
+    'pending',
+    'completed',
+    1,
+    v_session.id,
+    '{}'::jsonb,
+    '{}'::jsonb
+  )
+  returning * into v_order;
+
+  for v_item in select value from jsonb_array_elements(p_items)
+  loop
+    v_quantity := (v_item->>'quantity')::integer;
+    if v_quantity is null or v_quantity <= 0 then
+      raise exception 'Invalid quantity for product %', v_item->>'product_id';
+    end if;
+
+    select * into v_product
+      from public.products
+     where id = (v_item->>'product_id')::bigint;
+
+    if not found then
+      raise exception 'Product % not found', v_item->>'product_id';
+    end if;
+
+    if coalesce(v_product.stock_quantity, 0) < v_quantity then
+      raise exception 'Not enough stock of %. Requested: %, Available: %',
+        v_product.product_name, v_quantity, coalesce(v_product.stock_quantity, 0);
+    end if;
+
+    v_line_discount := round(coalesce((v_item->>'discount_amount')::numeric, 0), 2);
+    if v_line_discount < 0 or v_line_discount > v_product.price * v_quantity then
+      raise exception 'Invalid discount for %', v_product.product_name;
+    end if;
+
+    update public.products
+       set stock_quantity = stock_quantity - v_quantity,
+           updated_at = now()
+     where id = v_product.id;
+
+    insert into public.order_items (
+      order_id,
+      product_id,
+      product_name,
+      sku,
+      quantity,
+      price,
+      discount_amount,
+      total_price
+    )
+    values (
+      v_order.id,
+      v_product.id,
+      v_product.product_name,
+      v_product.sku,
+      v_quantity,
+      v_product.price,
+      v_line_discount,
+      v_product.price * v_quantity - v_line_discount
+    );
+
+    v_line_discounts := v_line_discounts + v_line_discount;
+  end loop;
+
+  -- The per-line discount amounts already include each line's share of any
+  -- order-level discount, so the recorded discounts must add up to them.
+  for v_discount in select value from jsonb_array_elements(coalesce(p_discounts, '[]'::jsonb))
+  loop
+    v_amount := round((v_discount->>'amount')::numeric, 2);
+    if v_amount is null or v_amount < 0 then
+      raise exception 'Invalid discount amount';
+    end if;
+
+    insert into public.order_discounts (
+      order_id,
+      order_item_id,
+      source,
+      promotion_id,
+      description,
+      discount_type,
+      value,
+      amount,
+      reason,
+      authorised_by
+    )
+    values (
+      v_order.id,
+      (
+        select oi.id
+          from public.order_items oi
+         where oi.order_id = v_order.id
+           and oi.product_id = (v_discount->>'product_id')::bigint
+         limit 1
+      ),
+      v_discount->>'source',
+      (v_discount->>'promotion_id')::bigint,
+      v_discount->>'description',
+      v_discount->>'discount_type',
+      (v_discount->>'value')::numeric,
+      v_amount,
+      v_discount->>'reason',
+      v_discount->>'authorised_by'
+    );
+
+    v_recorded_discounts := v_recorded_discounts + v_amount;
+  end loop;
+
+  if abs(v_recorded_discounts - v_line_discounts) > 0.01 then
+    raise exception 'Discount breakdown (%) does not match line discounts (%)',
+      v_recorded_discounts, v_line_discounts;
+  end if;
+
+  update public.orders
+     set discount_total = v_line_discounts
+   where id = v_order.id;
+
+  perform public.apply_order_tax(v_order.id);
+
+  select total_amount into v_total
+    from public.orders
+   where id = v_order.id;
+
+  for v_tender in select value from jsonb_array_elements(p_tenders)
+  loop
+    v_method := v_tender->>'method';
+    v_amount := round((v_tender->>'amount')::numeric, 2);
+
+    if v_method is null or v_method not in ('cash', 'card') then
+      raise exception 'Unsupported tender method %', coalesce(v_method, 'null');
+    end if;
+
+    if v_amount is null or v_amount <= 0 then
+      raise exception 'Tender amounts must be positive';
+    end if;
+
+    insert into public.payments (
+      order_id,
+      amount,
+      currency,
+      paymentgateway,
+      paymentstatus
+    )
+    values (
+      v_order.id,
+      v_amount,
+      'USD',
+      v_method,
+      'completed'
+    );
+
+    v_paid := v_paid + v_amount;
+    if v_method <> 'cash' then
+      v_non_cash := v_non_cash + v_amount;
+    end if;
+    if not v_method = any (v_methods) then
+      v_methods := v_methods || v_method;
+    end if;
+  end loop;
+
+  -- Change can only be given out of cash.
+  if v_non_cash > v_total then
+    raise exception 'Non-cash tenders (%) exceed the order total (%)', v_non_cash, v_total;
+  end if;
+
+  update public.orders
+     set payment_method = case
+           when array_length(v_methods, 1) = 1 then v_methods[1]
+           else 'split'
+         end,
+         payment_status = case
+           when v_paid >= v_total then 'completed'
+           else 'partial'
+         end,
+         change_given = greatest(v_paid - v_total, 0)
+   where id = v_order.id
+  returning * into v_order;
+
+  return to_jsonb(v_order) || jsonb_build_object(
+    'items',
+    (
+      select coalesce(jsonb_agg(to_jsonb(oi) order by oi.id), '[]'::jsonb)
+        from public.order_items oi
+       where oi.order_id = v_order.id
+    ),
+    'payments',
+    (
+      select coalesce(jsonb_agg(to_jsonb(p) order by p.paymentid), '[]'::jsonb)
+        from public.payments p
+       where p.order_id = v_order.id
+    ),
+    'tax_lines',
+    (
+      select coalesce(jsonb_agg(to_jsonb(t) order by t.id), '[]'::jsonb)
+        from public.order_tax_lines t
+       where t.order_id = v_order.id
+    ),
+    'discounts',
+    (
+      select coalesce(jsonb_agg(to_jsonb(d) order by d.id), '[]'::jsonb)
+        from public.order_discounts d
+       where d.order_id = v_order.id
+    )
+  );
+end;
+$$;
+
+grant execute on function public.create_pos_order(jsonb, jsonb, jsonb, bigint) to anon, authenticated;
+
+drop function if exists public.create_refund(bigint, jsonb, text, text);
+
+create or replace function public.create_refund(
+  p_order_id bigint,
+  p_items jsonb,
+  p_refund_method text,
+  p_reason text default null,
+  p_cash_session_id bigint default null
+)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_order public.orders;
+  v_refund public.refunds;
+  v_item jsonb;
+  v_order_item public.order_items;
+  v_quantity integer;
+  v_line_total numeric;
+  v_amount numeric;
+  v_total numeric := 0;
+  v_restock boolean;
+  v_previously_refunded numeric;
+  v_last_refund_item_id bigint;
+  v_session public.cash_sessions;
+begin
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'Select at least one item to refund';
+  end if;
+
+  if p_refund_method is null or p_refund_method not in ('cash', 'card') then
+    raise exception 'Unsupported refund method %', coalesce(p_refund_method, 'null');
+  end if;
+
+  if p_cash_session_id is not null then
+    select * into v_session
+      from public.cash_sessions
+     where id = p_cash_session_id
+       for share;
+
+    if not found or v_session.status <> 'open' then
+      raise exception 'Cash drawer session % is not open', p_cash_session_id;
+    end if;
+  elsif p_refund_method = 'cash' then
+    raise exception 'Open a cash drawer session before giving cash refunds';
+  end if;
+
+  select * into v_order
+    from public.orders
+   where id = p_order_id
+     for update;
+
+  if not found then
+    raise exception 'Order % not found', p_order_id;
+  end if;
+
+  if v_order.order_status = 'refunded' then
+    raise exception 'Order % has already been fully refunded', v_order.order_number;
+  end if;
+
+  if v_order.order_status not in ('completed', 'partially_refunded') then
+    raise exception 'Only completed orders can be refunded';
+  end if;
+
+  select coalesce(sum(amount), 0) into v_previously_refunded
+    from public.refunds
+   where order_id = v_order.id;
+
+  insert into public.refunds (refund_number, order_id, amount, refund_method, reason, cash_session_id)
+  values (
+    'RFD-' || (extract(epoch from clock_timestamp()) * 1000)::bigint,
+    v_order.id,
+    0,
+    p_refund_method,
+    p_reason,
+    v_session.id
+  )
+  returning * into v_refund;
+
+  for v_item in select value from jsonb_array_elements(p_items)
+  loop
+    v_quantity := (v_item->>'quantity')::integer;
+    v_restock := coalesce((v_item->>'restock')::boolean, true);
+
+    select * into v_order_item
+      from public.order_items
+     where id = (v_item->>'order_item_id')::bigint
+       and order_id = v_order.id
+       for update;
+
+    if not found then
+      raise exception 'Item % does not belong to order %', v_item->>'order_item_id', v_order.order_number;
+    end if;
+
+    if v_quantity is null or v_quantity <= 0
+       or v_quantity > v_order_item.quantity - v_order_item.refunded_quantity then
+      raise exception 'Cannot refund % of %: only % left to refund',
+        coalesce(v_quantity, 0), v_order_item.product_name,
+        v_order_item.quantity - v_order_item.refunded_quantity;
+    end if;
+
+    -- What the customer actually paid for the line: its discounted total plus
+    -- any tax added on top of it.
+    v_line_total := coalesce(v_order_item.total_price, v_order_item.price * v_order_item.quantity)
+      + case when v_order.prices_include_tax then 0 else v_order_item.tax_amount end;
+
+    -- Returning the last units of a line refunds whatever is left of it, so
+    -- rounding never leaves a cent behind.
+    if v_quantity = v_order_item.quantity - v_order_item.refunded_quantity then
+      v_amount := v_line_total - v_order_item.refunded_amount;
+    else
+      v_amount := round(v_line_total * v_quantity / v_order_item.quantity, 2);
+    end if;
+
+    update public.order_items
+       set refunded_quantity = refunded_quantity + v_quantity,
+           refunded_amount = refunded_amount + v_amount
+     where id = v_order_item.id;
+
+    if v_restock then
+      update public.products
+         set stock_quantity = coalesce(stock_quantity, 0) + v_quantity,
+             updated_at = now()
+       where id = v_order_item.product_id;
+    end if;
+
+    insert into public.refund_items (refund_id, order_item_id, quantity, amount, restocked)
+    values (v_refund.id, v_order_item.id, v_quantity, v_amount, v_restock)
+    returning id into v_last_refund_item_id;
+
+    v_total := v_total + v_amount;
+  end loop;
+
+  -- Line taxes are rounded individually, so once every unit is back the final
+  -- refund settles the order to exactly what was paid.
+  if not exists (
+    select 1
+      from public.order_items
+     where order_id = v_order.id
+       and refunded_quantity < quantity
+  ) and v_previously_refunded + v_total <> v_order.total_amount then
+    update public.refund_items
+       set amount = amount + (v_order.total_amount - v_previously_refunded - v_total)
+     where id = v_last_refund_item_id;
+    update public.order_items
+       set refunded_amount = refunded_amount + (v_order.total_amount - v_previously_refunded - v_total)
+     where id = (select order_item_id from public.refund_items where id = v_last_refund_item_id);
+    v_total := v_order.total_amount - v_previously_refunded;
+  end if;
+
+  update public.refunds
+     set amount = v_total
+   where id = v_refund.id
+  returning * into v_refund;
+
+  insert into public.payments (
+    order_id,
+    refund_id,
+    amount,
+    currency,
+    paymentgateway,
+    paymentstatus
+  )
+  values (
+    v_order.id,
+    v_refund.id,
+    -v_total,
+    'USD',
+    p_refund_method,
+    'refunded'
+  );
+
+  update public.orders
+     set order_status = case
+           when exists (
+             select 1
+               from public.order_items
+              where order_id = v_order.id
+                and refunded_quantity < quantity
+           ) then 'partially_refunded'
+           else 'refunded'
+         end,
+         updated_at = now()
+   where id = v_order.id;
+
+  return to_jsonb(v_refund) || jsonb_build_object(
+    'items',
+    (
+      select coalesce(jsonb_agg(to_jsonb(ri) order by ri.id), '[]'::jsonb)
+        from public.refund_items ri
+       where ri.refund_id = v_refund.id
+    )
+  );
+end;
+$$;
+
+grant execute on function public.create_refund(bigint, jsonb, text, text, bigint) to anon, authenticated;
+
+-- Takings for a session. Refund payments are left out of the tender sums and
+-- counted from refunds instead, so a refund given on this shift for an order
+-- sold on another one still comes out of this drawer.
+create or replace function public.cash_session_report(p_session_id bigint)
+returns jsonb
+language plpgsql
+stable
+as $$
+declare
+  v_session public.cash_sessions;
+  v_order_count integer;
+  v_gross_sales numeric;
+  v_change_given numeric;
+  v_cash_tendered numeric;
+  v_card_sales numeric;
+  v_refund_count integer;
+  v_cash_refunds numeric;
+  v_card_refunds numeric;
+  v_paid_in numeric;
+  v_paid_out numeric;
+  v_expected numeric;
+begin
+  select * into v_session
+    from public.cash_sessions
+   where id = p_session_id;
+
+  if not found then
+    raise exception 'Cash drawer session % not found', p_session_id;
+  end if;
+
+  select count(*), coalesce(sum(total_amount), 0), coalesce(sum(change_given), 0)
+    into v_order_count, v_gross_sales, v_change_given
+    from public.orders
+   where cash_session_id = v_session.id;
+
+  select coalesce(sum(p.amount) filter (where p.paymentgateway = 'cash'), 0),
+         coalesce(sum(p.amount) filter (where p.paymentgateway <> 'cash'), 0)
+    into v_cash_tendered, v_card_sales
+    from public.payments p
+    join public.orders o on o.id = p.order_id
+   where o.cash_session_id = v_session.id
+     and p.refund_id is null;
+
+  select count(*),
+         coalesce(sum(amount) filter (where refund_method = 'cash'), 0),
+         coalesce(sum(amount) filter (where refund_method <> 'cash'), 0)
+    into v_refund_count, v_cash_refunds, v_card_refunds
+    from public.refunds
+   where cash_session_id = v_session.id;
+
+  select coalesce(sum(amount) filter (where movement_type = 'paid_in'), 0),
+         coalesce(sum(amount) filter (where movement_type = 'paid_out'), 0)
+    into v_paid_in, v_paid_out
+    from public.cash_movements
+   where session_id = v_session.id;
+
+  v_expected := v_session.opening_float
+    + v_cash_tendered - v_change_given
+    + v_paid_in - v_paid_out
+    - v_cash_refunds;
+
+  return jsonb_build_object(
+    'session', to_jsonb(v_session),
+    'order_count', v_order_count,
+    'gross_sales', v_gross_sales,
+    'cash_sales', v_cash_tendered - v_change_given,
+    'card_sales', v_card_sales,
+    'change_given', v_change_given,
+    'refund_count', v_refund_count,
+    'cash_refunds', v_cash_refunds,
+    'card_refunds', v_card_refunds,
+    'paid_in', v_paid_in,
+    'paid_out', v_paid_out,
+    'expected_cash', coalesce(v_session.expected_cash, v_expected),
+    'counted_cash', v_session.counted_cash,
+    'variance', v_session.variance,
+    'generated_at', now()
+  );
+end;
+$$;
+
+grant execute on function public.cash_session_report(bigint) to anon, authenticated;
+
+-- Closes the drawer with the counted cash ([{value, count}] per
+-- denomination) and returns the Z report. The session row lock waits for
+-- any sale or refund still being written into it.
+create or replace function public.close_cash_session(
+  p_session_id bigint,
+  p_counted_denominations jsonb,
+  p_closed_by text,
+  p_notes text default null
+)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_session public.cash_sessions;
+  v_counted numeric;
+  v_expected numeric;
+begin
+  if p_counted_denominations is null or jsonb_typeof(p_counted_denominations) <> 'array' then
+    raise exception 'Counted denominations are required';
+  end if;
+
+  if p_closed_by is null or btrim(p_closed_by) = '' then
+    raise exception 'Enter who is closing the drawer';
+  end if;
+
+  select * into v_session
+    from public.cash_sessions
+   where id = p_session_id
+     for update;
+
+  if not found then
+    raise exception 'Cash drawer session % not found', p_session_id;
+  end if;
+
+  if v_session.status <> 'open' then
+    raise exception 'Cash drawer session % is already closed', p_session_id;
+  end if;
+
+  if exists (
+    select 1
+      from jsonb_array_elements(p_counted_denominations)
+     where (value->>'value')::numeric <= 0
+        or (value->>'count')::integer < 0
+  ) then
+    raise exception 'Denomination counts cannot be negative';
+  end if;
+
+  select coalesce(sum((value->>'value')::numeric * (value->>'count')::integer), 0)
+    into v_counted
+    from jsonb_array_elements(p_counted_denominations);
+
+  v_expected := (public.cash_session_report(v_session.id)->>'expected_cash')::numeric;
+
+  update public.cash_sessions
+     set status = 'closed',
+         closed_by = btrim(p_closed_by),
+         closed_at = now(),
+         counted_denominations = p_counted_denominations,
+         counted_cash = round(v_counted, 2),
+         expected_cash = v_expected,
+         variance = round(v_counted, 2) - v_expected,
+         notes = p_notes
+   where id = v_session.id;
+
+  return public.cash_session_report(v_session.id);
+end;
+$$;
+
+grant execute on function public.close_cash_session(bigint, jsonb, text, text) to anon, authenticated;
@@ -0,0 +1,355 @@
+-- Customers.
+--
+-- A customer can be attached to a sale at the till. The order records the
+-- customer and a copy of their billing and shipping addresses as they were
+-- at the time of sale, so later edits to the customer do not rewrite old
+-- invoices. customer_summaries gives order count and lifetime spend (net of
+-- refunds) for the customer list and profile.
+
+create table if not exists public.customers (
+  id bigint generated always as identity primary key,
+  name text not null,
+  phone text,
+  email text,
+  billing_address jsonb not null default '{}'::jsonb,
+  shipping_address jsonb not null default '{}'::jsonb,
+  notes text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists customers_name_idx on public.customers (lower(name));
+create index if not exists customers_phone_idx on public.customers (phone);
+create index if not exists customers_email_idx on public.customers (lower(email));
+
+alter table public.orders
+  add column if not exists customer_id bigint references public.customers (id);
+
+create index if not exists orders_customer_id_idx on public.orders (customer_id);
+
+alter table public.parked_carts
+  add column if not exists customer_id bigint references public.customers (id) on delete set null;
+
+create or replace view public.customer_summaries as
+select c.id as customer_id,
+       count(o.id)::integer as order_count,
+       coalesce(sum(o.total_amount), 0) - coalesce(sum(r.refunded), 0) as lifetime_spend,
+       max(o.created_at) as last_order_at
+  from public.customers c
+  left join public.orders o on o.customer_id = c.id
+  left join lateral (
+    select sum(amount) as refunded
+      from public.refunds
+     where order_id = o.id
+  ) r on true
+ group by c.id;
+
+drop function if exists public.create_pos_order(jsonb, jsonb, jsonb, bigint, text, timestamptz, boolean);
+
+create or replace function public.create_pos_order(
+  p_items jsonb,
+  p_tenders jsonb,
+  p_discounts jsonb default '[]'::jsonb,
+  p_cash_session_id bigint default null,
+  p_order_number text default null,
+  p_created_at timestamptz default null,
+  p_offline boolean default false,
+  p_customer_id bigint default null
+)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_order public.orders;
+  v_item jsonb;
+  v_tender jsonb;
+  v_product public.products;
+  v_discount jsonb;
+  v_quantity integer;
+  v_line_discount numeric;
+  v_line_discounts numeric := 0;
+  v_recorded_discounts numeric := 0;
+  v_amount numeric;
+  v_method text;
+  v_total numeric;
+  v_paid numeric := 0;
+  v_non_cash numeric := 0;
+  v_methods text[] := '{}';
+  v_session public.cash_sessions;
+  v_existing_id bigint;
+  v_conflicts jsonb := '[]'::jsonb;
+  v_customer public.customers;
+begin
+  -- A sale replayed from a terminal's outbox may already have reached the
+  -- server on an earlier attempt whose response was lost. The lock makes two
+  -- concurrent replays of the same sale wait for each other.
+  if p_order_number is not null then
+    perform pg_advisory_xact_lock(hashtext(p_order_number));
+
+    select id into v_existing_id
+      from public.orders
+     where order_number = p_order_number;
+
+    if found then
+      return public.pos_order_json(v_existing_id)
+        || jsonb_build_object('stock_conflicts', '[]'::jsonb);
+    end if;
+  end if;
+
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'Cart is empty';
+  end if;
+
+  if p_tenders is null or jsonb_typeof(p_tenders) <> 'array' or jsonb_array_length(p_tenders) = 0 then
+    raise exception 'At least one tender is required';
+  end if;
+
+  -- The share lock keeps the drawer from being closed while a sale into it
+  -- is still being written.
+  select * into v_session
+    from public.cash_sessions
+   where id = p_cash_session_id
+     for share;
+
+  -- An offline sale belongs to the session it was rung up in, even if the
+  -- drawer has been closed by the time the terminal reconnects.
+  if not found or (v_session.status <> 'open' and not p_offline) then
+    raise exception 'Open a cash drawer session before taking payments';
+  end if;
+
+  if p_customer_id is not null then
+    select * into v_customer
+      from public.customers
+     where id = p_customer_id;
+
+    if not found then
+      raise exception 'Customer % not found', p_customer_id;
+    end if;
+  end if;
+
+  -- Lock every product in the basket up front, in id order, so two tills
+  -- checking out overlapping baskets cannot deadlock each other.
+  perform 1
+    from public.products
+   where id in (
+     select (value->>'product_id')::bigint
+       from jsonb_array_elements(p_items)
+   )
+   order by id
+   for update;
+
+  insert into public.orders (
+    order_number,
+    total_amount,
+    payment_method,
+    payment_status,
+    order_status,
+    user_id,
+    cash_session_id,
+    customer_id,
+    billing_address,
+    shipping_address,
+    created_at,
+    synced_at
+  )
+  values (
+    coalesce(p_order_number, 'ORD-' || (extract(epoch from clock_timestamp()) * 1000)::bigint),
+    0,
+    null,
+    'pending',
+    'completed',
+    1,
+    v_session.id,
+    v_customer.id,
+    coalesce(v_customer.billing_address, '{}'::jsonb),
+    coalesce(v_customer.shipping_address, '{}'::jsonb),
+    coalesce(p_created_at, now()),
+    case when p_offline then now() end
+  )
+  returning * into v_order;
+
+  for v_item in select value from jsonb_array_elements(p_items)
+  loop
+    v_quantity := (v_item->>'quantity')::integer;
+    if v_quantity is null or v_quantity <= 0 then
+      raise exception 'Invalid quantity for product %', v_item->>'product_id';
+    end if;
+
+    select * into v_product
+      from public.products
+     where id = (v_item->>'product_id')::bigint;
+
+    if not found then
+      raise exception 'Product % not found', v_item->>'product_id';
+    end if;
+
+    -- The goods in an offline sale have already left the shop, so a
+    -- shortfall is recorded rather than refused and stock is allowed to go
+    -- negative until it is counted again.
+    if coalesce(v_product.stock_quantity, 0) < v_quantity then
+      if not p_offline then
+        raise exception 'Not enough stock of %. Requested: %, Available: %',
+          v_product.product_name, v_quantity, coalesce(v_product.stock_quantity, 0);
+      end if;
+
+      v_conflicts := v_conflicts || jsonb_build_object(
+        'product_id', v_product.id,
+        'product_name', v_product.product_name,
+        'requested', v_quantity,
+        'available', coalesce(v_product.stock_quantity, 0)
+      );
+    end if;
+
+    v_line_discount := round(coalesce((v_item->>'discount_amount')::numeric, 0), 2);
+    if v_line_discount < 0 or v_line_discount > v_product.price * v_quantity then
+      raise exception 'Invalid discount for %', v_product.product_name;
+    end if;
+
+    update public.products
+       set stock_quantity = coalesce(stock_quantity, 0) - v_quantity,
+           updated_at = now()
+     where id = v_product.id;
+
+    insert into public.order_items (
+      order_id,
+      product_id,
+      product_name,
+      sku,
+      quantity,
+      price,
+      discount_amount,
+      total_price
+    )
+    values (
+      v_order.id,
+      v_product.id,
+      v_product.product_name,
+      v_product.sku,
+      v_quantity,
+      v_product.price,
+      v_line_discount,
+      v_product.price * v_quantity - v_line_discount
+    );
+
+    v_line_discounts := v_line_discounts + v_line_discount;
+  end loop;
+
+  -- The per-line discount amounts already include each line's share of any
+  -- order-level discount, so the recorded discounts must add up to them.
+  for v_discount in select value from jsonb_array_elements(coalesce(p_discounts, '[]'::jsonb))
+  loop
+    v_amount := round((v_discount->>'amount')::numeric, 2);
+    if v_amount is null or v_amount < 0 then
+      raise exception 'Invalid discount amount';
+    end if;
+
+    insert into public.order_discounts (
+      order_id,
+      order_item_id,
+      source,
+      promotion_id,
+      description,
+      discount_type,
+      value,
+      amount,
+      reason,
+      authorised_by
+    )
+    values (
+      v_order.id,
+      (
+        select oi.id
+          from public.order_items oi
+         where oi.order_id = v_order.id
+           and oi.product_id = (v_discount->>'product_id')::bigint
+         limit 1
+      ),
+      v_discount->>'source',
+      (v_discount->>'promotion_id')::bigint,
+      v_discount->>'description',
+      v_discount->>'discount_type',
+      (v_discount->>'value')::numeric,
+      v_amount,
+      v_discount->>'reason',
+      v_discount->>'authorised_by'
+    );
+
+    v_recorded_discounts := v_recorded_discounts + v_amount;
+  end loop;
+
+  if abs(v_recorded_discounts - v_line_discounts) > 0.01 then
+    raise exception 'Discount breakdown (%) does not match line discounts (%)',
+      v_recorded_discounts, v_line_discounts;
+  end if;
+
+  update public.orders
+     set discount_total = v_line_discounts
+   where id = v_order.id;
+
+  perform public.apply_order_tax(v_order.id);
+
+  select total_amount into v_total
+    from public.orders
+   where id = v_order.id;
+
+  for v_tender in select value from jsonb_array_elements(p_tenders)
+  loop
+    v_method := v_tender->>'method';
+    v_amount := round((v_tender->>'amount')::numeric, 2);
+
+    if v_method is null or v_method not in ('cash', 'card') then
+      raise exception 'Unsupported tender method %', coalesce(v_method, 'null');
+    end if;
+
+    if v_amount is null or v_amount <= 0 then
+      raise exception 'Tender amounts must be positive';
+    end if;
+
+    insert into public.payments (
+      order_id,
+      amount,
+      currency,
+      paymentgateway,
+      paymentstatus
+    )
+    values (
+      v_order.id,
+      v_amount,
+      'USD',
+      v_method,
+      'completed'
+    );
+
+    v_paid := v_paid + v_amount;
+    if v_method <> 'cash' then
+      v_non_cash := v_non_cash + v_amount;
+    end if;
+    if not v_method = any (v_methods) then
+      v_methods := v_methods || v_method;
+    end if;
+  end loop;
+
+  -- Change can only be given out of cash.
+  if v_non_cash > v_total then
+    raise exception 'Non-cash tenders (%) exceed the order total (%)', v_non_cash, v_total;
+  end if;
+
+  update public.orders
+     set payment_method = case
+           when array_length(v_methods, 1) = 1 then v_methods[1]
+           else 'split'
+         end,
+         payment_status = case
+           when v_paid >= v_total then 'completed'
+           else 'partial'
+         end,
+         change_given = greatest(v_paid - v_total, 0)
+   where id = v_order.id
+  returning * into v_order;
+
+  return public.pos_order_json(v_order.id)
+    || jsonb_build_object('stock_conflicts', v_conflicts);
+end;
+$$;
+
+grant execute on function public.create_pos_order(jsonb, jsonb, jsonb, bigint, text, timestamptz, boolean, bigint) to anon, authenticated;
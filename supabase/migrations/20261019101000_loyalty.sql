@@ -0,0 +1,741 @@
+-- Loyalty points and referrals.
+--
+-- Built on the existing rewards / referals / referals2 tables:
+--
+--   referals2  one referral code per customer
+--   referals   a referral: referalcode1 is the referrer's code, referalcode2
+--              the referee's; rewarded once the referee makes a first purchase
+--   rewards    the points ledger, one signed row per earn, redemption or
+--              referral reward (currency 'PTS')
+--
+-- Points are earned per order from the active loyalty_earn_rules and can be
+-- spent at the till as a 'points' tender, worth
+-- store_settings.points_redemption_value each.
+
+alter table public.store_settings
+  add column if not exists points_redemption_value numeric not null default 0.01,
+  add column if not exists referral_referrer_points integer not null default 500,
+  add column if not exists referral_referee_points integer not null default 500;
+
+create table if not exists public.loyalty_earn_rules (
+  id bigint generated always as identity primary key,
+  name text not null,
+  -- Only spend in this product category counts; null for every category.
+  category text,
+  points_per_dollar numeric not null default 0 check (points_per_dollar >= 0),
+  min_order_total numeric not null default 0 check (min_order_total >= 0),
+  bonus_points integer not null default 0 check (bonus_points >= 0),
+  is_active boolean not null default true,
+  created_at timestamptz not null default now()
+);
+
+alter table public.referals2
+  add column if not exists customer_id bigint references public.customers (id) on delete cascade;
+
+create unique index if not exists referals2_customer_id_key
+  on public.referals2 (customer_id)
+  where customer_id is not null;
+
+create unique index if not exists referals2_customer_code_key
+  on public.referals2 (upper(referalcode))
+  where customer_id is not null;
+
+alter table public.referals
+  add column if not exists referrer_customer_id bigint references public.customers (id),
+  add column if not exists referee_customer_id bigint references public.customers (id),
+  add column if not exists order_id bigint references public.orders (id),
+  add column if not exists rewarded_at timestamptz;
+
+-- A customer can only be referred once.
+create unique index if not exists referals_referee_customer_id_key
+  on public.referals (referee_customer_id)
+  where referee_customer_id is not null;
+
+alter table public.rewards
+  add column if not exists customer_id bigint references public.customers (id),
+  add column if not exists order_id bigint references public.orders (id),
+  add column if not exists reward_type text,
+  add column if not exists description text;
+
+create index if not exists rewards_customer_id_idx on public.rewards (customer_id);
+
+create or replace view public.loyalty_balances as
+select customer_id,
+       coalesce(sum(amount), 0)::integer as points_balance,
+       coalesce(sum(amount) filter (where amount > 0), 0)::integer as points_earned,
+       coalesce(-sum(amount) filter (where amount < 0), 0)::integer as points_redeemed
+  from public.rewards
+ where customer_id is not null
+   and currency = 'PTS'
+ group by customer_id;
+
+create or replace function public.new_referral_code()
+returns text
+language plpgsql
+as $$
+declare
+  v_code text;
+begin
+  loop
+    v_code := upper(substr(md5(random()::text || clock_timestamp()::text), 1, 8));
+    exit when not exists (
+      select 1
+        from public.referals2
+       where upper(referalcode) = v_code
+    );
+  end loop;
+  return v_code;
+end;
+$$;
+
+create or replace function public.customers_assign_referral_code()
+returns trigger
+language plpgsql
+as $$
+begin
+  insert into public.referals2 (referalcode, userid, customer_id)
+  values (public.new_referral_code(), new.id::text, new.id);
+  return new;
+end;
+$$;
+
+drop trigger if exists customers_assign_referral_code on public.customers;
+create trigger customers_assign_referral_code
+  after insert on public.customers
+  for each row execute function public.customers_assign_referral_code();
+
+insert into public.referals2 (referalcode, userid, customer_id)
+select public.new_referral_code(), c.id::text, c.id
+  from public.customers c
+ where not exists (
+   select 1
+     from public.referals2 r
+    where r.customer_id = c.id
+ );
+
+-- Links a new customer to the customer whose code they were given. Only
+-- customers who have not bought anything yet can be referred, since the
+-- reward is paid on the first purchase.
+create or replace function public.apply_referral_code(p_customer_id bigint, p_code text)
+returns void
+language plpgsql
+as $$
+declare
+  v_referrer public.referals2;
+  v_referee public.referals2;
+begin
+  select * into v_referrer
+    from public.referals2
+   where upper(referalcode) = upper(btrim(p_code))
+     and customer_id is not null;
+
+  if not found then
+    raise exception 'Referral code % not found', p_code;
+  end if;
+
+  if v_referrer.customer_id = p_customer_id then
+    raise exception 'Customers cannot refer themselves';
+  end if;
+
+  select * into v_referee
+    from public.referals2
+   where customer_id = p_customer_id;
+
+  if not found then
+    raise exception 'Customer % not found', p_customer_id;
+  end if;
+
+  if exists (select 1 from public.orders where customer_id = p_customer_id) then
+    raise exception 'Referral codes can only be used before the first purchase';
+  end if;
+
+  if exists (select 1 from public.referals where referee_customer_id = p_customer_id) then
+    raise exception 'This customer has already been referred';
+  end if;
+
+  insert into public.referals (
+    referalcode1,
+    referalcode2,
+    userid,
+    referrer_customer_id,
+    referee_customer_id
+  )
+  values (
+    v_referrer.referalcode,
+    v_referee.referalcode,
+    p_customer_id::text,
+    v_referrer.customer_id,
+    p_customer_id
+  );
+end;
+$$;
+
+grant execute on function public.apply_referral_code(bigint, text) to anon, authenticated;
+
+-- Spends points on an order. The customer row lock stops two tills
+-- spending the same points at once. Returns the points used.
+create or replace function public.redeem_loyalty_points(
+  p_order_id bigint,
+  p_customer_id bigint,
+  p_amount numeric
+)
+returns integer
+language plpgsql
+as $$
+declare
+  v_value numeric;
+  v_points integer;
+  v_balance integer;
+begin
+  if p_customer_id is null then
+    raise exception 'Attach a customer to pay with points';
+  end if;
+
+  perform 1
+    from public.customers
+   where id = p_customer_id
+     for update;
+
+  select points_redemption_value into v_value
+    from public.store_settings
+   where id = 1;
+
+  if v_value is null or v_value <= 0 then
+    raise exception 'Points redemption is not set up';
+  end if;
+
+  v_points := ceil(round(p_amount / v_value, 6));
+
+  select coalesce(sum(amount), 0) into v_balance
+    from public.rewards
+   where customer_id = p_customer_id
+     and currency = 'PTS';
+
+  if v_points > v_balance then
+    raise exception 'Not enough points: % needed, % available', v_points, v_balance;
+  end if;
+
+  insert into public.rewards (userid, customer_id, order_id, amount, currency, reward_type, description)
+  select p_customer_id::text, p_customer_id, o.id, -v_points, 'PTS', 'redeem', 'Redeemed on ' || o.order_number
+    from public.orders o
+   where o.id = p_order_id;
+
+  return v_points;
+end;
+$$;
+
+-- Awards the points an order earns under the active rules, and pays out a
+-- pending referral if this is the customer's first order. Points are only
+-- earned on the part of the order not paid for with points. Returns the
+-- points earned on the order itself.
+create or replace function public.award_order_points(p_order_id bigint)
+returns integer
+language plpgsql
+as $$
+declare
+  v_order public.orders;
+  v_settings public.store_settings;
+  v_rule public.loyalty_earn_rules;
+  v_referral public.referals;
+  v_points_paid numeric;
+  v_ratio numeric;
+  v_spend numeric;
+  v_points numeric := 0;
+  v_earned integer;
+begin
+  select * into v_order
+    from public.orders
+   where id = p_order_id;
+
+  if not found or v_order.customer_id is null then
+    return 0;
+  end if;
+
+  select coalesce(sum(amount), 0) into v_points_paid
+    from public.payments
+   where order_id = v_order.id
+     and paymentgateway = 'points'
+     and refund_id is null;
+
+  v_ratio := case
+    when v_order.total_amount > 0
+      then greatest(v_order.total_amount - v_points_paid, 0) / v_order.total_amount
+    else 0
+  end;
+
+  for v_rule in
+    select *
+      from public.loyalty_earn_rules
+     where is_active
+  loop
+    select coalesce(sum(oi.total_price), 0) into v_spend
+      from public.order_items oi
+      left join public.products p on p.id = oi.product_id
+     where oi.order_id = v_order.id
+       and (v_rule.category is null or p.category = v_rule.category);
+
+    if v_spend > 0 and v_order.total_amount >= v_rule.min_order_total then
+      v_points := v_points + v_spend * v_ratio * v_rule.points_per_dollar + v_rule.bonus_points;
+    end if;
+  end loop;
+
+  v_earned := floor(v_points);
+
+  if v_earned > 0 then
+    insert into public.rewards (userid, customer_id, order_id, amount, currency, reward_type, description)
+    values (
+      v_order.customer_id::text,
+      v_order.customer_id,
+      v_order.id,
+      v_earned,
+      'PTS',
+      'earn',
+      'Earned on ' || v_order.order_number
+    );
+  end if;
+
+  select * into v_referral
+    from public.referals
+   where referee_customer_id = v_order.customer_id
+     and rewarded_at is null
+     for update;
+
+  if found and not exists (
+    select 1
+      from public.orders
+     where customer_id = v_order.customer_id
+       and id <> v_order.id
+  ) then
+    select * into v_settings
+      from public.store_settings
+     where id = 1;
+
+    insert into public.rewards (userid, customer_id, order_id, amount, currency, referalcode2, reward_type, description)
+    values
+      (
+        v_referral.referee_customer_id::text,
+        v_referral.referee_customer_id,
+        v_order.id,
+        coalesce(v_settings.referral_referee_points, 0),
+        'PTS',
+        v_referral.referalcode2,
+        'referral',
+        'Welcome reward for joining with code ' || v_referral.referalcode1
+      ),
+      (
+        v_referral.referrer_customer_id::text,
+        v_referral.referrer_customer_id,
+        v_order.id,
+        coalesce(v_settings.referral_referrer_points, 0),
+        'PTS',
+        v_referral.referalcode2,
+        'referral',
+        'Referral reward for code ' || v_referral.referalcode2
+      );
+
+    update public.referals
+       set amount = coalesce(v_settings.referral_referee_points, 0),
+           order_id = v_order.id,
+           rewarded_at = now()
+     where referalid = v_referral.referalid;
+  end if;
+
+  return v_earned;
+end;
+$$;
+
+create or replace function public.create_pos_order(
+  p_items jsonb,
+  p_tenders jsonb,
+  p_discounts jsonb default '[]'::jsonb,
+  p_cash_session_id bigint default null,
+  p_order_number text default null,
+  p_created_at timestamptz default null,
+  p_offline boolean default false,
+  p_customer_id bigint default null
+)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_order public.orders;
+  v_item jsonb;
+  v_tender jsonb;
+  v_product public.products;
+  v_discount jsonb;
+  v_quantity integer;
+  v_line_discount numeric;
+  v_line_discounts numeric := 0;
+  v_recorded_discounts numeric := 0;
+  v_amount numeric;
+  v_method text;
+  v_total numeric;
+  v_paid numeric := 0;
+  v_non_cash numeric := 0;
+  v_methods text[] := '{}';
+  v_session public.cash_sessions;
+  v_existing_id bigint;
+  v_conflicts jsonb := '[]'::jsonb;
+  v_customer public.customers;
+  v_points_earned integer := 0;
+begin
+  -- A sale replayed from a terminal's outbox may already have reached the
+  -- server on an earlier attempt whose response was lost. The lock makes two
+  -- concurrent replays of the same sale wait for each other.
+  if p_order_number is not null then
+    perform pg_advisory_xact_lock(hashtext(p_order_number));
+
+    select id into v_existing_id
+      from public.orders
+     where order_number = p_order_number;
+
+    if found then
+      return public.pos_order_json(v_existing_id)
+        || jsonb_build_object('stock_conflicts', '[]'::jsonb);
+    end if;
+  end if;
+
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'Cart is empty';
+  end if;
+
+  if p_tenders is null or jsonb_typeof(p_tenders) <> 'array' or jsonb_array_length(p_tenders) = 0 then
+    raise exception 'At least one tender is required';
+  end if;
+
+  -- The share lock keeps the drawer from being closed while a sale into it
+  -- is still being written.
+  select * into v_session
+    from public.cash_sessions
+   where id = p_cash_session_id
+     for share;
+
+  -- An offline sale belongs to the session it was rung up in, even if the
+  -- drawer has been closed by the time the terminal reconnects.
+  if not found or (v_session.status <> 'open' and not p_offline) then
+    raise exception 'Open a cash drawer session before taking payments';
+  end if;
+
+  if p_customer_id is not null then
+    select * into v_customer
+      from public.customers
+     where id = p_customer_id;
+
+    if not found then
+      raise exception 'Customer % not found', p_customer_id;
+    end if;
+  end if;
+
+  -- Lock every product in the basket up front, in id order, so two tills
+  -- checking out overlapping baskets cannot deadlock each other.
+  perform 1
+    from public.products
+   where id in (
+     select (value->>'product_id')::bigint
+       from jsonb_array_elements(p_items)
+   )
+   order by id
+   for update;
+
+  insert into public.orders (
+    order_number,
+    total_amount,
+    payment_method,
+    payment_status,
+    order_status,
+    user_id,
+    cash_session_id,
+    customer_id,
+    billing_address,
+    shipping_address,
+    created_at,
+    synced_at
+  )
+  values (
+    coalesce(p_order_number, 'ORD-' || (extract(epoch from clock_timestamp()) * 1000)::bigint),
+    0,
+    null,
+    'pending',
+    'completed',
+    1,
+    v_session.id,
+    v_customer.id,
+    coalesce(v_customer.billing_address, '{}'::jsonb),
+    coalesce(v_customer.shipping_address, '{}'::jsonb),
+    coalesce(p_created_at, now()),
+    case when p_offline then now() end
+  )
+  returning * into v_order;
+
+  for v_item in select value from jsonb_array_elements(p_items)
+  loop
+    v_quantity := (v_item->>'quantity')::integer;
+    if v_quantity is null or v_quantity <= 0 then
+      raise exception 'Invalid quantity for product %', v_item->>'product_id';
+    end if;
+
+    select * into v_product
+      from public.products
+     where id = (v_item->>'product_id')::bigint;
+
+    if not found then
+      raise exception 'Product % not found', v_item->>'product_id';
+    end if;
+
+    -- The goods in an offline sale have already left the shop, so a
+    -- shortfall is recorded rather than refused and stock is allowed to go
+    -- negative until it is counted again.
+    if coalesce(v_product.stock_quantity, 0) < v_quantity then
+      if not p_offline then
+        raise exception 'Not enough stock of %. Requested: %, Available: %',
+          v_product.product_name, v_quantity, coalesce(v_product.stock_quantity, 0);
+      end if;
+
+      v_conflicts := v_conflicts || jsonb_build_object(
+        'product_id', v_product.id,
+        'product_name', v_product.product_name,
+        'requested', v_quantity,
+        'available', coalesce(v_product.stock_quantity, 0)
+      );
+    end if;
+
+    v_line_discount := round(coalesce((v_item->>'discount_amount')::numeric, 0), 2);
+    if v_line_discount < 0 or v_line_discount > v_product.price * v_quantity then
+      raise exception 'Invalid discount for %', v_product.product_name;
+    end if;
+
+    update public.products
+       set stock_quantity = coalesce(stock_quantity, 0) - v_quantity,
+           updated_at = now()
+     where id = v_product.id;
+
+    insert into public.order_items (
+      order_id,
+      product_id,
+      product_name,
+      sku,
+      quantity,
+      price,
+      discount_amount,
+      total_price
+    )
+    values (
+      v_order.id,
+      v_product.id,
+      v_product.product_name,
+      v_product.sku,
+      v_quantity,
+      v_product.price,
+      v_line_discount,
+      v_product.price * v_quantity - v_line_discount
+    );
+
+    v_line_discounts := v_line_discounts + v_line_discount;
+  end loop;
+
+  -- The per-line discount amounts already include each line's share of any
+  -- order-level discount, so the recorded discounts must add up to them.
+  for v_discount in select value from jsonb_array_elements(coalesce(p_discounts, '[]'::jsonb))
+  loop
+    v_amount := round((v_discount->>'amount')::numeric, 2);
+    if v_amount is null or v_amount < 0 then
+      raise exception 'Invalid discount amount';
+    end if;
+
+    insert into public.order_discounts (
+      order_id,
+      order_item_id,
+      source,
+      promotion_id,
+      description,
+      discount_type,
+      value,
+      amount,
+      reason,
+      authorised_by
+    )
+    values (
+      v_order.id,
+      (
+        select oi.id
+          from public.order_items oi
+         where oi.order_id = v_order.id
+           and oi.product_id = (v_discount->>'product_id')::bigint
+         limit 1
+      ),
+      v_discount->>'source',
+      (v_discount->>'promotion_id')::bigint,
+      v_discount->>'description',
+      v_discount->>'discount_type',
+      (v_discount->>'value')::numeric,
+      v_amount,
+      v_discount->>'reason',
+      v_discount->>'authorised_by'
+    );
+
+    v_recorded_discounts := v_recorded_discounts + v_amount;
+  end loop;
+
+  if abs(v_recorded_discounts - v_line_discounts) > 0.01 then
+    raise exception 'Discount breakdown (%) does not match line discounts (%)',
+      v_recorded_discounts, v_line_discounts;
+  end if;
+
+  update public.orders
+     set discount_total = v_line_discounts
+   where id = v_order.id;
+
+  perform public.apply_order_tax(v_order.id);
+
+  select total_amount into v_total
+    from public.orders
+   where id = v_order.id;
+
+  for v_tender in select value from jsonb_array_elements(p_tenders)
+  loop
+    v_method := v_tender->>'method';
+    v_amount := round((v_tender->>'amount')::numeric, 2);
+
+    if v_method is null or v_method not in ('cash', 'card', 'points') then
+      raise exception 'Unsupported tender method %', coalesce(v_method, 'null');
+    end if;
+
+    if v_amount is null or v_amount <= 0 then
+      raise exception 'Tender amounts must be positive';
+    end if;
+
+    insert into public.payments (
+      order_id,
+      amount,
+      currency,
+      paymentgateway,
+      paymentstatus
+    )
+    values (
+      v_order.id,
+      v_amount,
+      'USD',
+      v_method,
+      'completed'
+    );
+
+    if v_method = 'points' then
+      perform public.redeem_loyalty_points(v_order.id, v_customer.id, v_amount);
+    end if;
+
+    v_paid := v_paid + v_amount;
+    if v_method <> 'cash' then
+      v_non_cash := v_non_cash + v_amount;
+    end if;
+    if not v_method = any (v_methods) then
+      v_methods := v_methods || v_method;
+    end if;
+  end loop;
+
+  -- Change can only be given out of cash.
+  if v_non_cash > v_total then
+    raise exception 'Non-cash tenders (%) exceed the order total (%)', v_non_cash, v_total;
+  end if;
+
+  update public.orders
+     set payment_method = case
+           when array_length(v_methods, 1) = 1 then v_methods[1]
+           else 'split'
+         end,
+         payment_status = case
+           when v_paid >= v_total then 'completed'
+           else 'partial'
+         end,
+         change_given = greatest(v_paid - v_total, 0)
+   where id = v_order.id
+  returning * into v_order;
+
+  v_points_earned := public.award_order_points(v_order.id);
+
+  return public.pos_order_json(v_order.id)
+    || jsonb_build_object('stock_conflicts', v_conflicts, 'points_earned', v_points_earned);
+end;
+$$;
+
+-- Points and other non-cash, non-card tenders are reported separately from
+-- card takings.
+create or replace function public.cash_session_report(p_session_id bigint)
+returns jsonb
+language plpgsql
+stable
+as $$
+declare
+  v_session public.cash_sessions;
+  v_order_count integer;
+  v_gross_sales numeric;
+  v_change_given numeric;
+  v_cash_tendered numeric;
+  v_card_sales numeric;
+  v_other_sales numeric;
+  v_refund_count integer;
+  v_cash_refunds numeric;
+  v_card_refunds numeric;
+  v_paid_in numeric;
+  v_paid_out numeric;
+  v_expected numeric;
+begin
+  select * into v_session
+    from public.cash_sessions
+   where id = p_session_id;
+
+  if not found then
+    raise exception 'Cash drawer session % not found', p_session_id;
+  end if;
+
+  select count(*), coalesce(sum(total_amount), 0), coalesce(sum(change_given), 0)
+    into v_order_count, v_gross_sales, v_change_given
+    from public.orders
+   where cash_session_id = v_session.id;
+
+  select coalesce(sum(p.amount) filter (where p.paymentgateway = 'cash'), 0),
+         coalesce(sum(p.amount) filter (where p.paymentgateway = 'card'), 0),
+         coalesce(sum(p.amount) filter (where p.paymentgateway not in ('cash', 'card')), 0)
+    into v_cash_tendered, v_card_sales, v_other_sales
+    from public.payments p
+    join public.orders o on o.id = p.order_id
+   where o.cash_session_id = v_session.id
+     and p.refund_id is null;
+
+  select count(*),
+         coalesce(sum(amount) filter (where refund_method = 'cash'), 0),
+         coalesce(sum(amount) filter (where refund_method <> 'cash'), 0)
+    into v_refund_count, v_cash_refunds, v_card_refunds
+    from public.refunds
+   where cash_session_id = v_session.id;
+
+  select coalesce(sum(amount) filter (where movement_type = 'paid_in'), 0),
+         coalesce(sum(amount) filter (where movement_type = 'paid_out'), 0)
+    into v_paid_in, v_paid_out
+    from public.cash_movements
+   where session_id = v_session.id;
+
+  v_expected := v_session.opening_float
+    + v_cash_tendered - v_change_given
+    + v_paid_in - v_paid_out
+    - v_cash_refunds;
+
+  return jsonb_build_object(
+    'session', to_jsonb(v_session),
+    'order_count', v_order_count,
+    'gross_sales', v_gross_sales,
+    'cash_sales', v_cash_tendered - v_change_given,
+    'card_sales', v_card_sales,
+    'other_sales', v_other_sales,
+    'change_given', v_change_given,
+    'refund_count', v_refund_count,
+    'cash_refunds', v_cash_refunds,
+    'card_refunds', v_card_refunds,
+    'paid_in', v_paid_in,
+    'paid_out', v_paid_out,
+    'expected_cash', coalesce(v_session.expected_cash, v_expected),
+    'counted_cash', v_session.counted_cash,
+    'variance', v_session.variance,
+    'generated_at', now()
+  );
+end;
+$$;
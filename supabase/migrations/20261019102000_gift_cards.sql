@@ -0,0 +1,1128 @@
+-- Gift cards and store credit.
+--
+-- Both are stored-value cards in gift_cards, told apart by kind: gift cards
+-- are sold at the till as products flagged is_gift_card, store credit is
+-- issued from refunds. Every change to a card's balance is a row in
+-- gift_card_transactions, and the balance on the card is kept in step with
+-- that ledger by a trigger. Either kind can be spent as a tender by code.
+
+alter table public.products
+  add column if not exists is_gift_card boolean not null default false;
+
+-- Months a newly issued card stays valid; null means it never expires.
+alter table public.store_settings
+  add column if not exists gift_card_expiry_months integer check (gift_card_expiry_months > 0),
+  add column if not exists store_credit_expiry_months integer check (store_credit_expiry_months > 0);
+
+create table if not exists public.gift_cards (
+  id bigint generated always as identity primary key,
+  -- 16 upper-case characters, shown in groups of four.
+  code text not null unique,
+  kind text not null check (kind in ('gift_card', 'store_credit')),
+  status text not null default 'active' check (status in ('active', 'void')),
+  initial_amount numeric not null check (initial_amount > 0),
+  balance numeric not null default 0 check (balance >= 0),
+  customer_id bigint references public.customers (id),
+  issued_order_id bigint references public.orders (id),
+  issued_order_item_id bigint references public.order_items (id),
+  issued_refund_id bigint references public.refunds (id),
+  expires_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists gift_cards_issued_order_item_id_idx on public.gift_cards (issued_order_item_id);
+create index if not exists gift_cards_customer_id_idx on public.gift_cards (customer_id);
+
+create table if not exists public.gift_card_transactions (
+  id bigint generated always as identity primary key,
+  gift_card_id bigint not null references public.gift_cards (id) on delete cascade,
+  transaction_type text not null
+    check (transaction_type in ('issue', 'redeem', 'adjust', 'expire', 'void')),
+  -- Signed change to the card's balance.
+  amount numeric not null,
+  balance_after numeric not null default 0,
+  order_id bigint references public.orders (id),
+  refund_id bigint references public.refunds (id),
+  note text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists gift_card_transactions_gift_card_id_idx
+  on public.gift_card_transactions (gift_card_id);
+
+create or replace function public.gift_card_transactions_apply()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_card public.gift_cards;
+begin
+  select * into v_card
+    from public.gift_cards
+   where id = new.gift_card_id
+     for update;
+
+  if v_card.balance + new.amount < 0 then
+    raise exception 'Card %: only % left on it', v_card.code, v_card.balance;
+  end if;
+
+  new.balance_after := v_card.balance + new.amount;
+
+  update public.gift_cards
+     set balance = new.balance_after,
+         updated_at = now()
+   where id = v_card.id;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists gift_card_transactions_apply on public.gift_card_transactions;
+create trigger gift_card_transactions_apply
+  before insert on public.gift_card_transactions
+  for each row execute function public.gift_card_transactions_apply();
+
+-- Codes are matched without the dashes and spaces people type or print.
+create or replace function public.normalise_gift_card_code(p_code text)
+returns text
+language sql
+immutable
+as $$
+  select upper(regexp_replace(coalesce(p_code, ''), '[^A-Za-z0-9]', '', 'g'));
+$$;
+
+create or replace function public.new_gift_card_code()
+returns text
+language plpgsql
+as $$
+declare
+  v_code text;
+begin
+  loop
+    v_code := upper(substr(md5(random()::text || clock_timestamp()::text), 1, 16));
+    exit when not exists (select 1 from public.gift_cards where code = v_code);
+  end loop;
+  return v_code;
+end;
+$$;
+
+create or replace function public.issue_gift_card(
+  p_kind text,
+  p_amount numeric,
+  p_customer_id bigint default null,
+  p_order_id bigint default null,
+  p_order_item_id bigint default null,
+  p_refund_id bigint default null
+)
+returns public.gift_cards
+language plpgsql
+as $$
+declare
+  v_months integer;
+  v_card public.gift_cards;
+begin
+  if p_amount is null or p_amount <= 0 then
+    raise exception 'Cards must be issued with a positive amount';
+  end if;
+
+  select case p_kind
+           when 'gift_card' then gift_card_expiry_months
+           else store_credit_expiry_months
+         end
+    into v_months
+    from public.store_settings
+   where id = 1;
+
+  insert into public.gift_cards (
+    code,
+    kind,
+    initial_amount,
+    customer_id,
+    issued_order_id,
+    issued_order_item_id,
+    issued_refund_id,
+    expires_at
+  )
+  values (
+    public.new_gift_card_code(),
+    p_kind,
+    round(p_amount, 2),
+    p_customer_id,
+    p_order_id,
+    p_order_item_id,
+    p_refund_id,
+    case when v_months is not null then now() + make_interval(months => v_months) end
+  )
+  returning * into v_card;
+
+  insert into public.gift_card_transactions (gift_card_id, transaction_type, amount, order_id, refund_id)
+  values (v_card.id, 'issue', v_card.initial_amount, p_order_id, p_refund_id);
+
+  select * into v_card
+    from public.gift_cards
+   where id = v_card.id;
+
+  return v_card;
+end;
+$$;
+
+-- Spends from a card as a tender. The tender method has to match the kind
+-- of card, so store credit is never rung up as a gift card.
+create or replace function public.redeem_gift_card(
+  p_code text,
+  p_kind text,
+  p_order_id bigint,
+  p_amount numeric
+)
+returns public.gift_card_transactions
+language plpgsql
+as $$
+declare
+  v_card public.gift_cards;
+  v_transaction public.gift_card_transactions;
+begin
+  select * into v_card
+    from public.gift_cards
+   where code = public.normalise_gift_card_code(p_code)
+     for update;
+
+  if not found or v_card.kind <> p_kind then
+    raise exception 'No % with code % was found',
+      case p_kind when 'gift_card' then 'gift card' else 'store credit' end,
+      coalesce(p_code, '');
+  end if;
+
+  if v_card.status <> 'active' then
+    raise exception 'Card % has been voided', p_code;
+  end if;
+
+  if v_card.expires_at is not null and v_card.expires_at <= now() then
+    raise exception 'Card % expired on %', p_code, to_char(v_card.expires_at, 'YYYY-MM-DD');
+  end if;
+
+  insert into public.gift_card_transactions (gift_card_id, transaction_type, amount, order_id)
+  values (v_card.id, 'redeem', -p_amount, p_order_id)
+  returning * into v_transaction;
+
+  return v_transaction;
+end;
+$$;
+
+-- Manual correction of a card's balance, e.g. a goodwill top-up.
+create or replace function public.adjust_gift_card(
+  p_gift_card_id bigint,
+  p_amount numeric,
+  p_note text
+)
+returns public.gift_cards
+language plpgsql
+as $$
+declare
+  v_card public.gift_cards;
+begin
+  if p_amount is null or p_amount = 0 then
+    raise exception 'Enter a non-zero adjustment';
+  end if;
+
+  if coalesce(btrim(p_note), '') = '' then
+    raise exception 'A reason is required for balance adjustments';
+  end if;
+
+  select * into v_card
+    from public.gift_cards
+   where id = p_gift_card_id
+     for update;
+
+  if not found then
+    raise exception 'Card % not found', p_gift_card_id;
+  end if;
+
+  if v_card.status <> 'active' then
+    raise exception 'Card % has been voided', v_card.code;
+  end if;
+
+  insert into public.gift_card_transactions (gift_card_id, transaction_type, amount, note)
+  values (v_card.id, 'adjust', round(p_amount, 2), btrim(p_note));
+
+  select * into v_card
+    from public.gift_cards
+   where id = p_gift_card_id;
+
+  return v_card;
+end;
+$$;
+
+grant execute on function public.adjust_gift_card(bigint, numeric, text) to anon, authenticated;
+
+-- Writes off what is left on expired cards so it no longer counts as owed.
+-- Returns the number of cards written off.
+create or replace function public.expire_gift_cards()
+returns integer
+language plpgsql
+as $$
+declare
+  v_card public.gift_cards;
+  v_count integer := 0;
+begin
+  for v_card in
+    select *
+      from public.gift_cards
+     where status = 'active'
+       and balance > 0
+       and expires_at <= now()
+     order by id
+       for update
+  loop
+    insert into public.gift_card_transactions (gift_card_id, transaction_type, amount, note)
+    values (v_card.id, 'expire', -v_card.balance, 'Expired');
+    v_count := v_count + 1;
+  end loop;
+
+  return v_count;
+end;
+$$;
+
+grant execute on function public.expire_gift_cards() to anon, authenticated;
+
+-- What the store still owes on cards, by kind. Balances on expired cards
+-- that have not been written off yet are reported separately.
+create or replace view public.gift_card_liability as
+select kind,
+       count(*) filter (
+         where status = 'active' and balance > 0
+           and (expires_at is null or expires_at > now())
+       )::integer as open_cards,
+       coalesce(sum(balance) filter (
+         where status = 'active'
+           and (expires_at is null or expires_at > now())
+       ), 0) as outstanding,
+       coalesce(sum(balance) filter (
+         where status = 'active' and expires_at <= now()
+       ), 0) as expired_unclaimed,
+       coalesce(sum(initial_amount), 0) as issued_total
+  from public.gift_cards
+ group by kind;
+
+-- Orders now also return the gift cards they issued.
+create or replace function public.pos_order_json(p_order_id bigint)
+returns jsonb
+language sql
+stable
+as $$
+  select to_jsonb(o) || jsonb_build_object(
+    'items',
+    (
+      select coalesce(jsonb_agg(to_jsonb(oi) order by oi.id), '[]'::jsonb)
+        from public.order_items oi
+       where oi.order_id = o.id
+    ),
+    'payments',
+    (
+      select coalesce(jsonb_agg(to_jsonb(p) order by p.paymentid), '[]'::jsonb)
+        from public.payments p
+       where p.order_id = o.id
+    ),
+    'tax_lines',
+    (
+      select coalesce(jsonb_agg(to_jsonb(t) order by t.id), '[]'::jsonb)
+        from public.order_tax_lines t
+       where t.order_id = o.id
+    ),
+    'discounts',
+    (
+      select coalesce(jsonb_agg(to_jsonb(d) order by d.id), '[]'::jsonb)
+        from public.order_discounts d
+       where d.order_id = o.id
+    ),
+    'gift_cards',
+    (
+      select coalesce(jsonb_agg(to_jsonb(g) order by g.id), '[]'::jsonb)
+        from public.gift_cards g
+       where g.issued_order_id = o.id
+    )
+  )
+    from public.orders o
+   where o.id = p_order_id;
+$$;
+
+-- Gift cards earn points when they are spent, not when they are bought.
+create or replace function public.award_order_points(p_order_id bigint)
+returns integer
+language plpgsql
+as $$
+declare
+  v_order public.orders;
+  v_settings public.store_settings;
+  v_rule public.loyalty_earn_rules;
+  v_referral public.referals;
+  v_points_paid numeric;
+  v_ratio numeric;
+  v_spend numeric;
+  v_points numeric := 0;
+  v_earned integer;
+begin
+  select * into v_order
+    from public.orders
+   where id = p_order_id;
+
+  if not found or v_order.customer_id is null then
+    return 0;
+  end if;
+
+  select coalesce(sum(amount), 0) into v_points_paid
+    from public.payments
+   where order_id = v_order.id
+     and paymentgateway = 'points'
+     and refund_id is null;
+
+  v_ratio := case
+    when v_order.total_amount > 0
+      then greatest(v_order.total_amount - v_points_paid, 0) / v_order.total_amount
+    else 0
+  end;
+
+  for v_rule in
+    select *
+      from public.loyalty_earn_rules
+     where is_active
+  loop
+    select coalesce(sum(oi.total_price), 0) into v_spend
+      from public.order_items oi
+      left join public.products p on p.id = oi.product_id
+     where oi.order_id = v_order.id
+       and not coalesce(p.is_gift_card, false)
+       and (v_rule.category is null or p.category = v_rule.category);
+
+    if v_spend > 0 and v_order.total_amount >= v_rule.min_order_total then
+      v_points := v_points + v_spend * v_ratio * v_rule.points_per_dollar + v_rule.bonus_points;
+    end if;
+  end loop;
+
+  v_earned := floor(v_points);
+
+  if v_earned > 0 then
+    insert into public.rewards (userid, customer_id, order_id, amount, currency, reward_type, description)
+    values (
+      v_order.customer_id::text,
+      v_order.customer_id,
+      v_order.id,
+      v_earned,
+      'PTS',
+      'earn',
+      'Earned on ' || v_order.order_number
+    );
+  end if;
+
+  select * into v_referral
+    from public.referals
+   where referee_customer_id = v_order.customer_id
+     and rewarded_at is null
+     for update;
+
+  if found and not exists (
+    select 1
+      from public.orders
+     where customer_id = v_order.customer_id
+       and id <> v_order.id
+  ) then
+    select * into v_settings
+      from public.store_settings
+     where id = 1;
+
+    insert into public.rewards (userid, customer_id, order_id, amount, currency, referalcode2, reward_type, description)
+    values
+      (
+        v_referral.referee_customer_id::text,
+        v_referral.referee_customer_id,
+        v_order.id,
+        coalesce(v_settings.referral_referee_points, 0),
+        'PTS',
+        v_referral.referalcode2,
+        'referral',
+        'Welcome reward for joining with code ' || v_referral.referalcode1
+      ),
+      (
+        v_referral.referrer_customer_id::text,
+        v_referral.referrer_customer_id,
+        v_order.id,
+        coalesce(v_settings.referral_referrer_points, 0),
+        'PTS',
+        v_referral.referalcode2,
+        'referral',
+        'Referral reward for code ' || v_referral.referalcode2
+      );
+
+    update public.referals
+       set amount = coalesce(v_settings.referral_referee_points, 0),
+           order_id = v_order.id,
+           rewarded_at = now()
+     where referalid = v_referral.referalid;
+  end if;
+
+  return v_earned;
+end;
+$$;
+
+create or replace function public.create_pos_order(
+  p_items jsonb,
+  p_tenders jsonb,
+  p_discounts jsonb default '[]'::jsonb,
+  p_cash_session_id bigint default null,
+  p_order_number text default null,
+  p_created_at timestamptz default null,
+  p_offline boolean default false,
+  p_customer_id bigint default null
+)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_order public.orders;
+  v_item jsonb;
+  v_tender jsonb;
+  v_product public.products;
+  v_discount jsonb;
+  v_quantity integer;
+  v_line_discount numeric;
+  v_line_discounts numeric := 0;
+  v_recorded_discounts numeric := 0;
+  v_amount numeric;
+  v_method text;
+  v_total numeric;
+  v_paid numeric := 0;
+  v_non_cash numeric := 0;
+  v_methods text[] := '{}';
+  v_session public.cash_sessions;
+  v_existing_id bigint;
+  v_conflicts jsonb := '[]'::jsonb;
+  v_customer public.customers;
+  v_points_earned integer := 0;
+  v_order_item_id bigint;
+begin
+  -- A sale replayed from a terminal's outbox may already have reached the
+  -- server on an earlier attempt whose response was lost. The lock makes two
+  -- concurrent replays of the same sale wait for each other.
+  if p_order_number is not null then
+    perform pg_advisory_xact_lock(hashtext(p_order_number));
+
+    select id into v_existing_id
+      from public.orders
+     where order_number = p_order_number;
+
+    if found then
+      return public.pos_order_json(v_existing_id)
+        || jsonb_build_object('stock_conflicts', '[]'::jsonb);
+    end if;
+  end if;
+
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'Cart is empty';
+  end if;
+
+  if p_tenders is null or jsonb_typeof(p_tenders) <> 'array' or jsonb_array_length(p_tenders) = 0 then
+    raise exception 'At least one tender is required';
+  end if;
+
+  -- The share lock keeps the drawer from being closed while a sale into it
+  -- is still being written.
+  select * into v_session
+    from public.cash_sessions
+   where id = p_cash_session_id
+     for share;
+
+  -- An offline sale belongs to the session it was rung up in, even if the
+  -- drawer has been closed by the time the terminal reconnects.
+  if not found or (v_session.status <> 'open' and not p_offline) then
+    raise exception 'Open a cash drawer session before taking payments';
+  end if;
+
+  if p_customer_id is not null then
+    select * into v_customer
+      from public.customers
+     where id = p_customer_id;
+
+    if not found then
+      raise exception 'Customer % not found', p_customer_id;
+    end if;
+  end if;
+
+  -- Lock every product in the basket up front, in id order, so two tills
+  -- checking out overlapping baskets cannot deadlock each other.
+  perform 1
+    from public.products
+   where id in (
+     select (value->>'product_id')::bigint
+       from jsonb_array_elements(p_items)
+   )
+   order by id
+   for update;
+
+  insert into public.orders (
+    order_number,
+    total_amount,
+    payment_method,
+    payment_status,
+    order_status,
+    user_id,
+    cash_session_id,
+    customer_id,
+    billing_address,
+    shipping_address,
+    created_at,
+    synced_at
+  )
+  values (
+    coalesce(p_order_number, 'ORD-' || (extract(epoch from clock_timestamp()) * 1000)::bigint),
+    0,
+    null,
+    'pending',
+    'completed',
+    1,
+    v_session.id,
+    v_customer.id,
+    coalesce(v_customer.billing_address, '{}'::jsonb),
+    coalesce(v_customer.shipping_address, '{}'::jsonb),
+    coalesce(p_created_at, now()),
+    case when p_offline then now() end
+  )
+  returning * into v_order;
+
+  for v_item in select value from jsonb_array_elements(p_items)
+  loop
+    v_quantity := (v_item->>'quantity')::integer;
+    if v_quantity is null or v_quantity <= 0 then
+      raise exception 'Invalid quantity for product %', v_item->>'product_id';
+    end if;
+
+    select * into v_product
+      from public.products
+     where id = (v_item->>'product_id')::bigint;
+
+    if not found then
+      raise exception 'Product % not found', v_item->>'product_id';
+    end if;
+
+    -- The goods in an offline sale have already left the shop, so a
+    -- shortfall is recorded rather than refused and stock is allowed to go
+    -- negative until it is counted again.
+    if not v_product.is_gift_card and coalesce(v_product.stock_quantity, 0) < v_quantity then
+      if not p_offline then
+        raise exception 'Not enough stock of %. Requested: %, Available: %',
+          v_product.product_name, v_quantity, coalesce(v_product.stock_quantity, 0);
+      end if;
+
+      v_conflicts := v_conflicts || jsonb_build_object(
+        'product_id', v_product.id,
+        'product_name', v_product.product_name,
+        'requested', v_quantity,
+        'available', coalesce(v_product.stock_quantity, 0)
+      );
+    end if;
+
+    v_line_discount := round(coalesce((v_item->>'discount_amount')::numeric, 0), 2);
+    if v_line_discount < 0 or v_line_discount > v_product.price * v_quantity then
+      raise exception 'Invalid discount for %', v_product.product_name;
+    end if;
+
+    if not v_product.is_gift_card then
+      update public.products
+         set stock_quantity = coalesce(stock_quantity, 0) - v_quantity,
+             updated_at = now()
+       where id = v_product.id;
+    end if;
+
+    insert into public.order_items (
+      order_id,
+      product_id,
+      product_name,
+      sku,
+      quantity,
+      price,
+      discount_amount,
+      total_price
+    )
+    values (
+      v_order.id,
+      v_product.id,
+      v_product.product_name,
+      v_product.sku,
+      v_quantity,
+      v_product.price,
+      v_line_discount,
+      v_product.price * v_quantity - v_line_discount
+    )
+    returning id into v_order_item_id;
+
+    -- Each gift card sold is issued with its own code, loaded with the
+    -- product's price.
+    if v_product.is_gift_card then
+      for i in 1..v_quantity loop
+        perform public.issue_gift_card(
+          'gift_card',
+          v_product.price,
+          v_customer.id,
+          v_order.id,
+          v_order_item_id,
+          null
+        );
+      end loop;
+    end if;
+
+    v_line_discounts := v_line_discounts + v_line_discount;
+  end loop;
+
+  -- The per-line discount amounts already include each line's share of any
+  -- order-level discount, so the recorded discounts must add up to them.
+  for v_discount in select value from jsonb_array_elements(coalesce(p_discounts, '[]'::jsonb))
+  loop
+    v_amount := round((v_discount->>'amount')::numeric, 2);
+    if v_amount is null or v_amount < 0 then
+      raise exception 'Invalid discount amount';
+    end if;
+
+    insert into public.order_discounts (
+      order_id,
+      order_item_id,
+      source,
+      promotion_id,
+      description,
+      discount_type,
+      value,
+      amount,
+      reason,
+      authorised_by
+    )
+    values (
+      v_order.id,
+      (
+        select oi.id
+          from public.order_items oi
+         where oi.order_id = v_order.id
+           and oi.product_id = (v_discount->>'product_id')::bigint
+         limit 1
+      ),
+      v_discount->>'source',
+      (v_discount->>'promotion_id')::bigint,
+      v_discount->>'description',
+      v_discount->>'discount_type',
+      (v_discount->>'value')::numeric,
+      v_amount,
+      v_discount->>'reason',
+      v_discount->>'authorised_by'
+    );
+
+    v_recorded_discounts := v_recorded_discounts + v_amount;
+  end loop;
+
+  if abs(v_recorded_discounts - v_line_discounts) > 0.01 then
+    raise exception 'Discount breakdown (%) does not match line discounts (%)',
+      v_recorded_discounts, v_line_discounts;
+  end if;
+
+  update public.orders
+     set discount_total = v_line_discounts
+   where id = v_order.id;
+
+  perform public.apply_order_tax(v_order.id);
+
+  select total_amount into v_total
+    from public.orders
+   where id = v_order.id;
+
+  for v_tender in select value from jsonb_array_elements(p_tenders)
+  loop
+    v_method := v_tender->>'method';
+    v_amount := round((v_tender->>'amount')::numeric, 2);
+
+    if v_method is null or v_method not in ('cash', 'card', 'points', 'gift_card', 'store_credit') then
+      raise exception 'Unsupported tender method %', coalesce(v_method, 'null');
+    end if;
+
+    if v_amount is null or v_amount <= 0 then
+      raise exception 'Tender amounts must be positive';
+    end if;
+
+    insert into public.payments (
+      order_id,
+      amount,
+      currency,
+      paymentgateway,
+      paymentstatus
+    )
+    values (
+      v_order.id,
+      v_amount,
+      'USD',
+      v_method,
+      'completed'
+    );
+
+    if v_method = 'points' then
+      perform public.redeem_loyalty_points(v_order.id, v_customer.id, v_amount);
+    elsif v_method in ('gift_card', 'store_credit') then
+      perform public.redeem_gift_card(v_tender->>'code', v_method, v_order.id, v_amount);
+    end if;
+
+    v_paid := v_paid + v_amount;
+    if v_method <> 'cash' then
+      v_non_cash := v_non_cash + v_amount;
+    end if;
+    if not v_method = any (v_methods) then
+      v_methods := v_methods || v_method;
+    end if;
+  end loop;
+
+  -- Change can only be given out of cash.
+  if v_non_cash > v_total then
+    raise exception 'Non-cash tenders (%) exceed the order total (%)', v_non_cash, v_total;
+  end if;
+
+  update public.orders
+     set payment_method = case
+           when array_length(v_methods, 1) = 1 then v_methods[1]
+           else 'split'
+         end,
+         payment_status = case
+           when v_paid >= v_total then 'completed'
+           else 'partial'
+         end,
+         change_given = greatest(v_paid - v_total, 0)
+   where id = v_order.id
+  returning * into v_order;
+
+  v_points_earned := public.award_order_points(v_order.id);
+
+  return public.pos_order_json(v_order.id)
+    || jsonb_build_object('stock_conflicts', v_conflicts, 'points_earned', v_points_earned);
+end;
+$$;
+
+-- Adds store credit as a refund method. Refunding a gift card line voids
+-- the unspent cards it issued.
+create or replace function public.create_refund(
+  p_order_id bigint,
+  p_items jsonb,
+  p_refund_method text,
+  p_reason text default null,
+  p_cash_session_id bigint default null
+)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_order public.orders;
+  v_refund public.refunds;
+  v_item jsonb;
+  v_order_item public.order_items;
+  v_quantity integer;
+  v_line_total numeric;
+  v_amount numeric;
+  v_total numeric := 0;
+  v_restock boolean;
+  v_previously_refunded numeric;
+  v_last_refund_item_id bigint;
+  v_session public.cash_sessions;
+  v_card public.gift_cards;
+  v_voided integer;
+  v_store_credit public.gift_cards;
+begin
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'Select at least one item to refund';
+  end if;
+
+  if p_refund_method is null or p_refund_method not in ('cash', 'card', 'store_credit') then
+    raise exception 'Unsupported refund method %', coalesce(p_refund_method, 'null');
+  end if;
+
+  if p_cash_session_id is not null then
+    select * into v_session
+      from public.cash_sessions
+     where id = p_cash_session_id
+       for share;
+
+    if not found or v_session.status <> 'open' then
+      raise exception 'Cash drawer session % is not open', p_cash_session_id;
+    end if;
+  elsif p_refund_method = 'cash' then
+    raise exception 'Open a cash drawer session before giving cash refunds';
+  end if;
+
+  select * into v_order
+    from public.orders
+   where id = p_order_id
+     for update;
+
+  if not found then
+    raise exception 'Order % not found', p_order_id;
+  end if;
+
+  if v_order.order_status = 'refunded' then
+    raise exception 'Order % has already been fully refunded', v_order.order_number;
+  end if;
+
+  if v_order.order_status not in ('completed', 'partially_refunded') then
+    raise exception 'Only completed orders can be refunded';
+  end if;
+
+  select coalesce(sum(amount), 0) into v_previously_refunded
+    from public.refunds
+   where order_id = v_order.id;
+
+  insert into public.refunds (refund_number, order_id, amount, refund_method, reason, cash_session_id)
+  values (
+    'RFD-' || (extract(epoch from clock_timestamp()) * 1000)::bigint,
+    v_order.id,
+    0,
+    p_refund_method,
+    p_reason,
+    v_session.id
+  )
+  returning * into v_refund;
+
+  for v_item in select value from jsonb_array_elements(p_items)
+  loop
+    v_quantity := (v_item->>'quantity')::integer;
+    v_restock := coalesce((v_item->>'restock')::boolean, true);
+
+    select * into v_order_item
+      from public.order_items
+     where id = (v_item->>'order_item_id')::bigint
+       and order_id = v_order.id
+       for update;
+
+    if not found then
+      raise exception 'Item % does not belong to order %', v_item->>'order_item_id', v_order.order_number;
+    end if;
+
+    if v_quantity is null or v_quantity <= 0
+       or v_quantity > v_order_item.quantity - v_order_item.refunded_quantity then
+      raise exception 'Cannot refund % of %: only % left to refund',
+        coalesce(v_quantity, 0), v_order_item.product_name,
+        v_order_item.quantity - v_order_item.refunded_quantity;
+    end if;
+
+    -- What the customer actually paid for the line: its discounted total plus
+    -- any tax added on top of it.
+    v_line_total := coalesce(v_order_item.total_price, v_order_item.price * v_order_item.quantity)
+      + case when v_order.prices_include_tax then 0 else v_order_item.tax_amount end;
+
+    -- Returning the last units of a line refunds whatever is left of it, so
+    -- rounding never leaves a cent behind.
+    if v_quantity = v_order_item.quantity - v_order_item.refunded_quantity then
+      v_amount := v_line_total - v_order_item.refunded_amount;
+    else
+      v_amount := round(v_line_total * v_quantity / v_order_item.quantity, 2);
+    end if;
+
+    -- Gift cards sold on the line are taken back by voiding them, which is
+    -- only possible while they are unspent. They never go back on the shelf.
+    if exists (select 1 from public.gift_cards where issued_order_item_id = v_order_item.id) then
+      v_restock := false;
+      v_voided := 0;
+
+      for v_card in
+        select *
+          from public.gift_cards
+         where issued_order_item_id = v_order_item.id
+           and status = 'active'
+           and balance = initial_amount
+         order by id
+         limit v_quantity
+           for update
+      loop
+        insert into public.gift_card_transactions (gift_card_id, transaction_type, amount, refund_id, note)
+        values (v_card.id, 'void', -v_card.balance, v_refund.id, 'Refunded');
+
+        update public.gift_cards
+           set status = 'void',
+               updated_at = now()
+         where id = v_card.id;
+
+        v_voided := v_voided + 1;
+      end loop;
+
+      if v_voided < v_quantity then
+        raise exception 'Only % of the gift cards sold on this order are unspent and can be refunded', v_voided;
+      end if;
+    end if;
+
+    update public.order_items
+       set refunded_quantity = refunded_quantity + v_quantity,
+           refunded_amount = refunded_amount + v_amount
+     where id = v_order_item.id;
+
+    if v_restock then
+      update public.products
+         set stock_quantity = coalesce(stock_quantity, 0) + v_quantity,
+             updated_at = now()
+       where id = v_order_item.product_id;
+    end if;
+
+    insert into public.refund_items (refund_id, order_item_id, quantity, amount, restocked)
+    values (v_refund.id, v_order_item.id, v_quantity, v_amount, v_restock)
+    returning id into v_last_refund_item_id;
+
+    v_total := v_total + v_amount;
+  end loop;
+
+  -- Line taxes are rounded individually, so once every unit is back the final
+  -- refund settles the order to exactly what was paid.
+  if not exists (
+    select 1
+      from public.order_items
+     where order_id = v_order.id
+       and refunded_quantity < quantity
+  ) and v_previously_refunded + v_total <> v_order.total_amount then
+    update public.refund_items
+       set amount = amount + (v_order.total_amount - v_previously_refunded - v_total)
+     where id = v_last_refund_item_id;
+    update public.order_items
+       set refunded_amount = refunded_amount + (v_order.total_amount - v_previously_refunded - v_total)
+     where id = (select order_item_id from public.refund_items where id = v_last_refund_item_id);
+    v_total := v_order.total_amount - v_previously_refunded;
+  end if;
+
+  update public.refunds
+     set amount = v_total
+   where id = v_refund.id
+  returning * into v_refund;
+
+  insert into public.payments (
+    order_id,
+    refund_id,
+    amount,
+    currency,
+    paymentgateway,
+    paymentstatus
+  )
+  values (
+    v_order.id,
+    v_refund.id,
+    -v_total,
+    'USD',
+    p_refund_method,
+    'refunded'
+  );
+
+  if p_refund_method = 'store_credit' then
+    v_store_credit := public.issue_gift_card(
+      'store_credit',
+      v_total,
+      v_order.customer_id,
+      null,
+      null,
+      v_refund.id
+    );
+  end if;
+
+  update public.orders
+     set order_status = case
+           when exists (
+             select 1
+               from public.order_items
+              where order_id = v_order.id
+                and refunded_quantity < quantity
+           ) then 'partially_refunded'
+           else 'refunded'
+         end,
+         updated_at = now()
+   where id = v_order.id;
+
+  return to_jsonb(v_refund) || jsonb_build_object(
+    'items',
+    (
+      select coalesce(jsonb_agg(to_jsonb(ri) order by ri.id), '[]'::jsonb)
+        from public.refund_items ri
+       where ri.refund_id = v_refund.id
+    ),
+    'store_credit',
+    case when v_store_credit.id is not null then to_jsonb(v_store_credit) end
+  );
+end;
+$$;
+
+-- Store credit refunds are reported apart from card refunds.
+create or replace function public.cash_session_report(p_session_id bigint)
+returns jsonb
+language plpgsql
+stable
+as $$
+declare
+  v_session public.cash_sessions;
+  v_order_count integer;
+  v_gross_sales numeric;
+  v_change_given numeric;
+  v_cash_tendered numeric;
+  v_card_sales numeric;
+  v_other_sales numeric;
+  v_refund_count integer;
+  v_cash_refunds numeric;
+  v_card_refunds numeric;
+  v_store_credit_refunds numeric;
+  v_paid_in numeric;
+  v_paid_out numeric;
+  v_expected numeric;
+begin
+  select * into v_session
+    from public.cash_sessions
+   where id = p_session_id;
+
+  if not found then
+    raise exception 'Cash drawer session % not found', p_session_id;
+  end if;
+
+  select count(*), coalesce(sum(total_amount), 0), coalesce(sum(change_given), 0)
+    into v_order_count, v_gross_sales, v_change_given
+    from public.orders
+   where cash_session_id = v_session.id;
+
+  select coalesce(sum(p.amount) filter (where p.paymentgateway = 'cash'), 0),
+         coalesce(sum(p.amount) filter (where p.paymentgateway = 'card'), 0),
+         coalesce(sum(p.amount) filter (where p.paymentgateway not in ('cash', 'card')), 0)
+    into v_cash_tendered, v_card_sales, v_other_sales
+    from public.payments p
+    join public.orders o on o.id = p.order_id
+   where o.cash_session_id = v_session.id
+     and p.refund_id is null;
+
+  select count(*),
+         coalesce(sum(amount) filter (where refund_method = 'cash'), 0),
+         coalesce(sum(amount) filter (where refund_method = 'card'), 0),
+         coalesce(sum(amount) filter (where refund_method = 'store_credit'), 0)
+    into v_refund_count, v_cash_refunds, v_card_refunds, v_store_credit_refunds
+    from public.refunds
+   where cash_session_id = v_session.id;
+
+  select coalesce(sum(amount) filter (where movement_type = 'paid_in'), 0),
+         coalesce(sum(amount) filter (where movement_type = 'paid_out'), 0)
+    into v_paid_in, v_paid_out
+    from public.cash_movements
+   where session_id = v_session.id;
+
+  v_expected := v_session.opening_float
+    + v_cash_tendered - v_change_given
+    + v_paid_in - v_paid_out
+    - v_cash_refunds;
+
+  return jsonb_build_object(
+    'session', to_jsonb(v_session),
+    'order_count', v_order_count,
+    'gross_sales', v_gross_sales,
+    'cash_sales', v_cash_tendered - v_change_given,
+    'card_sales', v_card_sales,
+    'other_sales', v_other_sales,
+    'change_given', v_change_given,
+    'refund_count', v_refund_count,
+    'cash_refunds', v_cash_refunds,
+    'card_refunds', v_card_refunds,
+    'store_credit_refunds', v_store_credit_refunds,
+    'paid_in', v_paid_in,
+    'paid_out', v_paid_out,
+    'expected_cash', coalesce(v_session.expected_cash, v_expected),
+    'counted_cash', v_session.counted_cash,
+    'variance', v_session.variance,
+    'generated_at', now()
+  );
+end;
+$$;
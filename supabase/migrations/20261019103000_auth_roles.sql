@@ -0,0 +1,1089 @@
+-- Staff sign-in and roles.
+--
+-- Staff sign in with Supabase Auth. What they may do comes from grants: each
+-- row gives the user whose auth id is in granteeid one role, by privilege
+-- number (see app_roles). tbl_user.isadmin also makes the user with that
+-- email an admin. Admins pass every role check; managers are listed
+-- explicitly wherever they are allowed, which is everywhere except staff
+-- administration.
+--
+-- Every table the app uses gets row-level security, so the anon key on its
+-- own can no longer read or write anything. Checkout, refunds and the other
+-- till RPCs run as security definer behind a role check instead of relying
+-- on direct table access.
+
+create or replace function public.app_roles()
+returns text[]
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(array_agg(distinct r.role), '{}')
+    from (
+      select case g.privilege
+               when 1 then 'cashier'
+               when 2 then 'inventory_clerk'
+               when 3 then 'production_operator'
+               when 4 then 'manager'
+               when 5 then 'admin'
+             end as role
+        from public.grants g
+       where g.granteeid = auth.uid()::text
+      union all
+      select 'admin'
+        from public.tbl_user u
+       where u.isadmin
+         and lower(u.email) = lower(auth.jwt() ->> 'email')
+    ) r
+   where r.role is not null;
+$$;
+
+create or replace function public.has_role(variadic p_roles text[])
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select public.app_roles() && (p_roles || '{admin}'::text[]);
+$$;
+
+create or replace function public.require_role(variadic p_roles text[])
+returns void
+language plpgsql
+stable
+as $$
+begin
+  if not public.has_role(variadic p_roles) then
+    raise exception 'You do not have permission to do this'
+      using errcode = '42501';
+  end if;
+end;
+$$;
+
+revoke execute on function public.app_roles() from public, anon;
+revoke execute on function public.has_role(text[]) from public, anon;
+revoke execute on function public.require_role(text[]) from public, anon;
+grant execute on function public.app_roles() to authenticated;
+grant execute on function public.has_role(text[]) to authenticated;
+grant execute on function public.require_role(text[]) to authenticated;
+
+-- Who rang up, refunded or handled the drawer. The text names on cash
+-- sessions stay as they are printed on drawer reports.
+alter table public.orders
+  add column if not exists staff_id uuid default auth.uid() references auth.users (id);
+
+alter table public.refunds
+  add column if not exists staff_id uuid default auth.uid() references auth.users (id);
+
+alter table public.cash_sessions
+  add column if not exists opened_by_id uuid default auth.uid() references auth.users (id),
+  add column if not exists closed_by_id uuid references auth.users (id);
+
+alter table public.cash_movements
+  add column if not exists created_by_id uuid default auth.uid() references auth.users (id);
+
+-- Checkout, refunds and drawer close run as the table owner, so the till
+-- can write orders without cashiers having write access to the tables.
+create or replace function public.create_pos_order(
+  p_items jsonb,
+  p_tenders jsonb,
+  p_discounts jsonb default '[]'::jsonb,
+  p_cash_session_id bigint default null,
+  p_order_number text default null,
+  p_created_at timestamptz default null,
+  p_offline boolean default false,
+  p_customer_id bigint default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order public.orders;
+  v_item jsonb;
+  v_tender jsonb;
+  v_product public.products;
+  v_discount jsonb;
+  v_quantity integer;
+  v_line_discount numeric;
+  v_line_discounts numeric := 0;
+  v_recorded_discounts numeric := 0;
+  v_amount numeric;
+  v_method text;
+  v_total numeric;
+  v_paid numeric := 0;
+  v_non_cash numeric := 0;
+  v_methods text[] := '{}';
+  v_session public.cash_sessions;
+  v_existing_id bigint;
+  v_conflicts jsonb := '[]'::jsonb;
+  v_customer public.customers;
+  v_points_earned integer := 0;
+  v_order_item_id bigint;
+begin
+  perform public.require_role('cashier', 'manager');
+  -- A sale replayed from a terminal's outbox may already have reached the
+  -- server on an earlier attempt whose response was lost. The lock makes two
+  -- concurrent replays of the same sale wait for each other.
+  if p_order_number is not null then
+    perform pg_advisory_xact_lock(hashtext(p_order_number));
+
+    select id into v_existing_id
+      from public.orders
+     where order_number = p_order_number;
+
+    if found then
+      return public.pos_order_json(v_existing_id)
+        || jsonb_build_object('stock_conflicts', '[]'::jsonb);
+    end if;
+  end if;
+
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'Cart is empty';
+  end if;
+
+  if p_tenders is null or jsonb_typeof(p_tenders) <> 'array' or jsonb_array_length(p_tenders) = 0 then
+    raise exception 'At least one tender is required';
+  end if;
+
+  -- The share lock keeps the drawer from being closed while a sale into it
+  -- is still being written.
+  select * into v_session
+    from public.cash_sessions
+   where id = p_cash_session_id
+     for share;
+
+  -- An offline sale belongs to the session it was rung up in, even if the
+  -- drawer has been closed by the time the terminal reconnects.
+  if not found or (v_session.status <> 'open' and not p_offline) then
+    raise exception 'Open a cash drawer session before taking payments';
+  end if;
+
+  if p_customer_id is not null then
+    select * into v_customer
+      from public.customers
+     where id = p_customer_id;
+
+    if not found then
+      raise exception 'Customer % not found', p_customer_id;
+    end if;
+  end if;
+
+  -- Lock every product in the basket up front, in id order, so two tills
+  -- checking out overlapping baskets cannot deadlock each other.
+  perform 1
+    from public.products
+   where id in (
+     select (value->>'product_id')::bigint
+       from jsonb_array_elements(p_items)
+   )
+   order by id
+   for update;
+
+  insert into public.orders (
+    order_number,
+    total_amount,
+    payment_method,
+    payment_status,
+    order_status,
+    user_id,
+    cash_session_id,
+    customer_id,
+    billing_address,
+    shipping_address,
+    created_at,
+    synced_at
+  )
+  values (
+    coalesce(p_order_number, 'ORD-' || (extract(epoch from clock_timestamp()) * 1000)::bigint),
+    0,
+    null,
+    'pending',
+    'completed',
+    1,
+    v_session.id,
+    v_customer.id,
+    coalesce(v_customer.billing_address, '{}'::jsonb),
+    coalesce(v_customer.shipping_address, '{}'::jsonb),
+    coalesce(p_created_at, now()),
+    case when p_offline then now() end
+  )
+  returning * into v_order;
+
+  for v_item in select value from jsonb_array_elements(p_items)
+  loop
+    v_quantity := (v_item->>'quantity')::integer;
+    if v_quantity is null or v_quantity <= 0 then
+      raise exception 'Invalid quantity for product %', v_item->>'product_id';
+    end if;
+
+    select * into v_product
+      from public.products
+     where id = (v_item->>'product_id')::bigint;
+
+    if not found then
+      raise exception 'Product % not found', v_item->>'product_id';
+    end if;
+
+    -- The goods in an offline sale have already left the shop, so a
+    -- shortfall is recorded rather than refused and stock is allowed to go
+    -- negative until it is counted again.
+    if not v_product.is_gift_card and coalesce(v_product.stock_quantity, 0) < v_quantity then
+      if not p_offline then
+        raise exception 'Not enough stock of %. Requested: %, Available: %',
+          v_product.product_name, v_quantity, coalesce(v_product.stock_quantity, 0);
+      end if;
+
+      v_conflicts := v_conflicts || jsonb_build_object(
+        'product_id', v_product.id,
+        'product_name', v_product.product_name,
+        'requested', v_quantity,
+        'available', coalesce(v_product.stock_quantity, 0)
+      );
+    end if;
+
+    v_line_discount := round(coalesce((v_item->>'discount_amount')::numeric, 0), 2);
+    if v_line_discount < 0 or v_line_discount > v_product.price * v_quantity then
+      raise exception 'Invalid discount for %', v_product.product_name;
+    end if;
+
+    if not v_product.is_gift_card then
+      update public.products
+         set stock_quantity = coalesce(stock_quantity, 0) - v_quantity,
+             updated_at = now()
+       where id = v_product.id;
+    end if;
+
+    insert into public.order_items (
+      order_id,
+      product_id,
+      product_name,
+      sku,
+      quantity,
+      price,
+      discount_amount,
+      total_price
+    )
+    values (
+      v_order.id,
+      v_product.id,
+      v_product.product_name,
+      v_product.sku,
+      v_quantity,
+      v_product.price,
+      v_line_discount,
+      v_product.price * v_quantity - v_line_discount
+    )
+    returning id into v_order_item_id;
+
+    -- Each gift card sold is issued with its own code, loaded with the
+    -- product's price.
+    if v_product.is_gift_card then
+      for i in 1..v_quantity loop
+        perform public.issue_gift_card(
+          'gift_card',
+          v_product.price,
+          v_customer.id,
+          v_order.id,
+          v_order_item_id,
+          null
+        );
+      end loop;
+    end if;
+
+    v_line_discounts := v_line_discounts + v_line_discount;
+  end loop;
+
+  -- The per-line discount amounts already include each line's share of any
+  -- order-level discount, so the recorded discounts must add up to them.
+  for v_discount in select value from jsonb_array_elements(coalesce(p_discounts, '[]'::jsonb))
+  loop
+    v_amount := round((v_discount->>'amount')::numeric, 2);
+    if v_amount is null or v_amount < 0 then
+      raise exception 'Invalid discount amount';
+    end if;
+
+    insert into public.order_discounts (
+      order_id,
+      order_item_id,
+      source,
+      promotion_id,
+      description,
+      discount_type,
+      value,
+      amount,
+      reason,
+      authorised_by
+    )
+    values (
+      v_order.id,
+      (
+        select oi.id
+          from public.order_items oi
+         where oi.order_id = v_order.id
+           and oi.product_id = (v_discount->>'product_id')::bigint
+         limit 1
+      ),
+      v_discount->>'source',
+      (v_discount->>'promotion_id')::bigint,
+      v_discount->>'description',
+      v_discount->>'discount_type',
+      (v_discount->>'value')::numeric,
+      v_amount,
+      v_discount->>'reason',
+      v_discount->>'authorised_by'
+    );
+
+    v_recorded_discounts := v_recorded_discounts + v_amount;
+  end loop;
+
+  if abs(v_recorded_discounts - v_line_discounts) > 0.01 then
+    raise exception 'Discount breakdown (%) does not match line discounts (%)',
+      v_recorded_discounts, v_line_discounts;
+  end if;
+
+  update public.orders
+     set discount_total = v_line_discounts
+   where id = v_order.id;
+
+  perform public.apply_order_tax(v_order.id);
+
+  select total_amount into v_total
+    from public.orders
+   where id = v_order.id;
+
+  for v_tender in select value from jsonb_array_elements(p_tenders)
+  loop
+    v_method := v_tender->>'method';
+    v_amount := round((v_tender->>'amount')::numeric, 2);
+
+    if v_method is null or v_method not in ('cash', 'card', 'points', 'gift_card', 'store_credit') then
+      raise exception 'Unsupported tender method %', coalesce(v_method, 'null');
+    end if;
+
+    if v_amount is null or v_amount <= 0 then
+      raise exception 'Tender amounts must be positive';
+    end if;
+
+    insert into public.payments (
+      order_id,
+      amount,
+      currency,
+      paymentgateway,
+      paymentstatus
+    )
+    values (
+      v_order.id,
+      v_amount,
+      'USD',
+      v_method,
+      'completed'
+    );
+
+    if v_method = 'points' then
+      perform public.redeem_loyalty_points(v_order.id, v_customer.id, v_amount);
+    elsif v_method in ('gift_card', 'store_credit') then
+      perform public.redeem_gift_card(v_tender->>'code', v_method, v_order.id, v_amount);
+    end if;
+
+    v_paid := v_paid + v_amount;
+    if v_method <> 'cash' then
+      v_non_cash := v_non_cash + v_amount;
+    end if;
+    if not v_method = any (v_methods) then
+      v_methods := v_methods || v_method;
+    end if;
+  end loop;
+
+  -- Change can only be given out of cash.
+  if v_non_cash > v_total then
+    raise exception 'Non-cash tenders (%) exceed the order total (%)', v_non_cash, v_total;
+  end if;
+
+  update public.orders
+     set payment_method = case
+           when array_length(v_methods, 1) = 1 then v_methods[1]
+           else 'split'
+         end,
+         payment_status = case
+           when v_paid >= v_total then 'completed'
+           else 'partial'
+         end,
+         change_given = greatest(v_paid - v_total, 0)
+   where id = v_order.id
+  returning * into v_order;
+
+  v_points_earned := public.award_order_points(v_order.id);
+
+  return public.pos_order_json(v_order.id)
+    || jsonb_build_object('stock_conflicts', v_conflicts, 'points_earned', v_points_earned);
+end;
+$$;
+
+revoke execute on function public.create_pos_order(jsonb, jsonb, jsonb, bigint, text, timestamptz, boolean, bigint) from public, anon;
+grant execute on function public.create_pos_order(jsonb, jsonb, jsonb, bigint, text, timestamptz, boolean, bigint) to authenticated;
+
+create or replace function public.create_refund(
+  p_order_id bigint,
+  p_items jsonb,
+  p_refund_method text,
+  p_reason text default null,
+  p_cash_session_id bigint default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order public.orders;
+  v_refund public.refunds;
+  v_item jsonb;
+  v_order_item public.order_items;
+  v_quantity integer;
+  v_line_total numeric;
+  v_amount numeric;
+  v_total numeric := 0;
+  v_restock boolean;
+  v_previously_refunded numeric;
+  v_last_refund_item_id bigint;
+  v_session public.cash_sessions;
+  v_card public.gift_cards;
+  v_voided integer;
+  v_store_credit public.gift_cards;
+begin
+  perform public.require_role('cashier', 'manager');
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'Select at least one item to refund';
+  end if;
+
+  if p_refund_method is null or p_refund_method not in ('cash', 'card', 'store_credit') then
+    raise exception 'Unsupported refund method %', coalesce(p_refund_method, 'null');
+  end if;
+
+  if p_cash_session_id is not null then
+    select * into v_session
+      from public.cash_sessions
+     where id = p_cash_session_id
+       for share;
+
+    if not found or v_session.status <> 'open' then
+      raise exception 'Cash drawer session % is not open', p_cash_session_id;
+    end if;
+  elsif p_refund_method = 'cash' then
+    raise exception 'Open a cash drawer session before giving cash refunds';
+  end if;
+
+  select * into v_order
+    from public.orders
+   where id = p_order_id
+     for update;
+
+  if not found then
+    raise exception 'Order % not found', p_order_id;
+  end if;
+
+  if v_order.order_status = 'refunded' then
+    raise exception 'Order % has already been fully refunded', v_order.order_number;
+  end if;
+
+  if v_order.order_status not in ('completed', 'partially_refunded') then
+    raise exception 'Only completed orders can be refunded';
+  end if;
+
+  select coalesce(sum(amount), 0) into v_previously_refunded
+    from public.refunds
+   where order_id = v_order.id;
+
+  insert into public.refunds (refund_number, order_id, amount, refund_method, reason, cash_session_id)
+  values (
+    'RFD-' || (extract(epoch from clock_timestamp()) * 1000)::bigint,
+    v_order.id,
+    0,
+    p_refund_method,
+    p_reason,
+    v_session.id
+  )
+  returning * into v_refund;
+
+  for v_item in select value from jsonb_array_elements(p_items)
+  loop
+    v_quantity := (v_item->>'quantity')::integer;
+    v_restock := coalesce((v_item->>'restock')::boolean, true);
+
+    select * into v_order_item
+      from public.order_items
+     where id = (v_item->>'order_item_id')::bigint
+       and order_id = v_order.id
+       for update;
+
+    if not found then
+      raise exception 'Item % does not belong to order %', v_item->>'order_item_id', v_order.order_number;
+    end if;
+
+    if v_quantity is null or v_quantity <= 0
+       or v_quantity > v_order_item.quantity - v_order_item.refunded_quantity then
+      raise exception 'Cannot refund % of %: only % left to refund',
+        coalesce(v_quantity, 0), v_order_item.product_name,
+        v_order_item.quantity - v_order_item.refunded_quantity;
+    end if;
+
+    -- What the customer actually paid for the line: its discounted total plus
+    -- any tax added on top of it.
+    v_line_total := coalesce(v_order_item.total_price, v_order_item.price * v_order_item.quantity)
+      + case when v_order.prices_include_tax then 0 else v_order_item.tax_amount end;
+
+    -- Returning the last units of a line refunds whatever is left of it, so
+    -- rounding never leaves a cent behind.
+    if v_quantity = v_order_item.quantity - v_order_item.refunded_quantity then
+      v_amount := v_line_total - v_order_item.refunded_amount;
+    else
+      v_amount := round(v_line_total * v_quantity / v_order_item.quantity, 2);
+    end if;
+
+    -- Gift cards sold on the line are taken back by voiding them, which is
+    -- only possible while they are unspent. They never go back on the shelf.
+    if exists (select 1 from public.gift_cards where issued_order_item_id = v_order_item.id) then
+      v_restock := false;
+      v_voided := 0;
+
+      for v_card in
+        select *
+          from public.gift_cards
+         where issued_order_item_id = v_order_item.id
+           and status = 'active'
+           and balance = initial_amount
+         order by id
+         limit v_quantity
+           for update
+      loop
+        insert into public.gift_card_transactions (gift_card_id, transaction_type, amount, refund_id, note)
+        values (v_card.id, 'void', -v_card.balance, v_refund.id, 'Refunded');
+
+        update public.gift_cards
+           set status = 'void',
+               updated_at = now()
+         where id = v_card.id;
+
+        v_voided := v_voided + 1;
+      end loop;
+
+      if v_voided < v_quantity then
+        raise exception 'Only % of the gift cards sold on this order are unspent and can be refunded', v_voided;
+      end if;
+    end if;
+
+    update public.order_items
+       set refunded_quantity = refunded_quantity + v_quantity,
+           refunded_amount = refunded_amount + v_amount
+     where id = v_order_item.id;
+
+    if v_restock then
+      update public.products
+         set stock_quantity = coalesce(stock_quantity, 0) + v_quantity,
+             updated_at = now()
+       where id = v_order_item.product_id;
+    end if;
+
+    insert into public.refund_items (refund_id, order_item_id, quantity, amount, restocked)
+    values (v_refund.id, v_order_item.id, v_quantity, v_amount, v_restock)
+    returning id into v_last_refund_item_id;
+
+    v_total := v_total + v_amount;
+  end loop;
+
+  -- Line taxes are rounded individually, so once every unit is back the final
+  -- refund settles the order to exactly what was paid.
+  if not exists (
+    select 1
+      from public.order_items
+     where order_id = v_order.id
+       and refunded_quantity < quantity
+  ) and v_previously_refunded + v_total <> v_order.total_amount then
+    update public.refund_items
+       set amount = amount + (v_order.total_amount - v_previously_refunded - v_total)
+     where id = v_last_refund_item_id;
+    update public.order_items
+       set refunded_amount = refunded_amount + (v_order.total_amount - v_previously_refunded - v_total)
+     where id = (select order_item_id from public.refund_items where id = v_last_refund_item_id);
+    v_total := v_order.total_amount - v_previously_refunded;
+  end if;
+
+  update public.refunds
+     set amount = v_total
+   where id = v_refund.id
+  returning * into v_refund;
+
+  insert into public.payments (
+    order_id,
+    refund_id,
+    amount,
+    currency,
+    paymentgateway,
+    paymentstatus
+  )
+  values (
+    v_order.id,
+    v_refund.id,
+    -v_total,
+    'USD',
+    p_refund_method,
+    'refunded'
+  );
+
+  if p_refund_method = 'store_credit' then
+    v_store_credit := public.issue_gift_card(
+      'store_credit',
+      v_total,
+      v_order.customer_id,
+      null,
+      null,
+      v_refund.id
+    );
+  end if;
+
+  update public.orders
+     set order_status = case
+           when exists (
+             select 1
+               from public.order_items
+              where order_id = v_order.id
+                and refunded_quantity < quantity
+           ) then 'partially_refunded'
+           else 'refunded'
+         end,
+         updated_at = now()
+   where id = v_order.id;
+
+  return to_jsonb(v_refund) || jsonb_build_object(
+    'items',
+    (
+      select coalesce(jsonb_agg(to_jsonb(ri) order by ri.id), '[]'::jsonb)
+        from public.refund_items ri
+       where ri.refund_id = v_refund.id
+    ),
+    'store_credit',
+    case when v_store_credit.id is not null then to_jsonb(v_store_credit) end
+  );
+end;
+$$;
+
+revoke execute on function public.create_refund(bigint, jsonb, text, text, bigint) from public, anon;
+grant execute on function public.create_refund(bigint, jsonb, text, text, bigint) to authenticated;
+
+create or replace function public.close_cash_session(
+  p_session_id bigint,
+  p_counted_denominations jsonb,
+  p_closed_by text,
+  p_notes text default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_session public.cash_sessions;
+  v_counted numeric;
+  v_expected numeric;
+begin
+  perform public.require_role('cashier', 'manager');
+  if p_counted_denominations is null or jsonb_typeof(p_counted_denominations) <> 'array' then
+    raise exception 'Counted denominations are required';
+  end if;
+
+  if p_closed_by is null or btrim(p_closed_by) = '' then
+    raise exception 'Enter who is closing the drawer';
+  end if;
+
+  select * into v_session
+    from public.cash_sessions
+   where id = p_session_id
+     for update;
+
+  if not found then
+    raise exception 'Cash drawer session % not found', p_session_id;
+  end if;
+
+  if v_session.status <> 'open' then
+    raise exception 'Cash drawer session % is already closed', p_session_id;
+  end if;
+
+  if exists (
+    select 1
+      from jsonb_array_elements(p_counted_denominations)
+     where (value->>'value')::numeric <= 0
+        or (value->>'count')::integer < 0
+  ) then
+    raise exception 'Denomination counts cannot be negative';
+  end if;
+
+  select coalesce(sum((value->>'value')::numeric * (value->>'count')::integer), 0)
+    into v_counted
+    from jsonb_array_elements(p_counted_denominations);
+
+  v_expected := (public.cash_session_report(v_session.id)->>'expected_cash')::numeric;
+
+  update public.cash_sessions
+     set status = 'closed',
+         closed_by = btrim(p_closed_by),
+         closed_by_id = auth.uid(),
+         closed_at = now(),
+         counted_denominations = p_counted_denominations,
+         counted_cash = round(v_counted, 2),
+         expected_cash = v_expected,
+         variance = round(v_counted, 2) - v_expected,
+         notes = p_notes
+   where id = v_session.id;
+
+  return public.cash_session_report(v_session.id);
+end;
+$$;
+
+revoke execute on function public.close_cash_session(bigint, jsonb, text, text) from public, anon;
+grant execute on function public.close_cash_session(bigint, jsonb, text, text) to authenticated;
+
+create or replace function public.cash_session_report(p_session_id bigint)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_session public.cash_sessions;
+  v_order_count integer;
+  v_gross_sales numeric;
+  v_change_given numeric;
+  v_cash_tendered numeric;
+  v_card_sales numeric;
+  v_other_sales numeric;
+  v_refund_count integer;
+  v_cash_refunds numeric;
+  v_card_refunds numeric;
+  v_store_credit_refunds numeric;
+  v_paid_in numeric;
+  v_paid_out numeric;
+  v_expected numeric;
+begin
+  perform public.require_role('cashier', 'manager');
+  select * into v_session
+    from public.cash_sessions
+   where id = p_session_id;
+
+  if not found then
+    raise exception 'Cash drawer session % not found', p_session_id;
+  end if;
+
+  select count(*), coalesce(sum(total_amount), 0), coalesce(sum(change_given), 0)
+    into v_order_count, v_gross_sales, v_change_given
+    from public.orders
+   where cash_session_id = v_session.id;
+
+  select coalesce(sum(p.amount) filter (where p.paymentgateway = 'cash'), 0),
+         coalesce(sum(p.amount) filter (where p.paymentgateway = 'card'), 0),
+         coalesce(sum(p.amount) filter (where p.paymentgateway not in ('cash', 'card')), 0)
+    into v_cash_tendered, v_card_sales, v_other_sales
+    from public.payments p
+    join public.orders o on o.id = p.order_id
+   where o.cash_session_id = v_session.id
+     and p.refund_id is null;
+
+  select count(*),
+         coalesce(sum(amount) filter (where refund_method = 'cash'), 0),
+         coalesce(sum(amount) filter (where refund_method = 'card'), 0),
+         coalesce(sum(amount) filter (where refund_method = 'store_credit'), 0)
+    into v_refund_count, v_cash_refunds, v_card_refunds, v_store_credit_refunds
+    from public.refunds
+   where cash_session_id = v_session.id;
+
+  select coalesce(sum(amount) filter (where movement_type = 'paid_in'), 0),
+         coalesce(sum(amount) filter (where movement_type = 'paid_out'), 0)
+    into v_paid_in, v_paid_out
+    from public.cash_movements
+   where session_id = v_session.id;
+
+  v_expected := v_session.opening_float
+    + v_cash_tendered - v_change_given
+    + v_paid_in - v_paid_out
+    - v_cash_refunds;
+
+  return jsonb_build_object(
+    'session', to_jsonb(v_session),
+    'order_count', v_order_count,
+    'gross_sales', v_gross_sales,
+    'cash_sales', v_cash_tendered - v_change_given,
+    'card_sales', v_card_sales,
+    'other_sales', v_other_sales,
+    'change_given', v_change_given,
+    'refund_count', v_refund_count,
+    'cash_refunds', v_cash_refunds,
+    'card_refunds', v_card_refunds,
+    'store_credit_refunds', v_store_credit_refunds,
+    'paid_in', v_paid_in,
+    'paid_out', v_paid_out,
+    'expected_cash', coalesce(v_session.expected_cash, v_expected),
+    'counted_cash', v_session.counted_cash,
+    'variance', v_session.variance,
+    'generated_at', now()
+  );
+end;
+$$;
+
+revoke execute on function public.cash_session_report(bigint) from public, anon;
+grant execute on function public.cash_session_report(bigint) to authenticated;
+
+create or replace function public.apply_referral_code(p_customer_id bigint, p_code text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_referrer public.referals2;
+  v_referee public.referals2;
+begin
+  perform public.require_role('cashier', 'manager');
+  select * into v_referrer
+    from public.referals2
+   where upper(referalcode) = upper(btrim(p_code))
+     and customer_id is not null;
+
+  if not found then
+    raise exception 'Referral code % not found', p_code;
+  end if;
+
+  if v_referrer.customer_id = p_customer_id then
+    raise exception 'Customers cannot refer themselves';
+  end if;
+
+  select * into v_referee
+    from public.referals2
+   where customer_id = p_customer_id;
+
+  if not found then
+    raise exception 'Customer % not found', p_customer_id;
+  end if;
+
+  if exists (select 1 from public.orders where customer_id = p_customer_id) then
+    raise exception 'Referral codes can only be used before the first purchase';
+  end if;
+
+  if exists (select 1 from public.referals where referee_customer_id = p_customer_id) then
+    raise exception 'This customer has already been referred';
+  end if;
+
+  insert into public.referals (
+    referalcode1,
+    referalcode2,
+    userid,
+    referrer_customer_id,
+    referee_customer_id
+  )
+  values (
+    v_referrer.referalcode,
+    v_referee.referalcode,
+    p_customer_id::text,
+    v_referrer.customer_id,
+    p_customer_id
+  );
+end;
+$$;
+
+revoke execute on function public.apply_referral_code(bigint, text) from public, anon;
+grant execute on function public.apply_referral_code(bigint, text) to authenticated;
+
+-- Balance corrections and write-offs are for managers only.
+create or replace function public.adjust_gift_card(
+  p_gift_card_id bigint,
+  p_amount numeric,
+  p_note text
+)
+returns public.gift_cards
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_card public.gift_cards;
+begin
+  perform public.require_role('manager');
+  if p_amount is null or p_amount = 0 then
+    raise exception 'Enter a non-zero adjustment';
+  end if;
+
+  if coalesce(btrim(p_note), '') = '' then
+    raise exception 'A reason is required for balance adjustments';
+  end if;
+
+  select * into v_card
+    from public.gift_cards
+   where id = p_gift_card_id
+     for update;
+
+  if not found then
+    raise exception 'Card % not found', p_gift_card_id;
+  end if;
+
+  if v_card.status <> 'active' then
+    raise exception 'Card % has been voided', v_card.code;
+  end if;
+
+  insert into public.gift_card_transactions (gift_card_id, transaction_type, amount, note)
+  values (v_card.id, 'adjust', round(p_amount, 2), btrim(p_note));
+
+  select * into v_card
+    from public.gift_cards
+   where id = p_gift_card_id;
+
+  return v_card;
+end;
+$$;
+
+revoke execute on function public.adjust_gift_card(bigint, numeric, text) from public, anon;
+grant execute on function public.adjust_gift_card(bigint, numeric, text) to authenticated;
+
+create or replace function public.expire_gift_cards()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_card public.gift_cards;
+  v_count integer := 0;
+begin
+  perform public.require_role('manager');
+  for v_card in
+    select *
+      from public.gift_cards
+     where status = 'active'
+       and balance > 0
+       and expires_at <= now()
+     order by id
+       for update
+  loop
+    insert into public.gift_card_transactions (gift_card_id, transaction_type, amount, note)
+    values (v_card.id, 'expire', -v_card.balance, 'Expired');
+    v_count := v_count + 1;
+  end loop;
+
+  return v_count;
+end;
+$$;
+
+revoke execute on function public.expire_gift_cards() from public, anon;
+grant execute on function public.expire_gift_cards() to authenticated;
+
+-- Customers are added at the till, but their referral code row is not
+-- something cashiers can write themselves.
+alter function public.customers_assign_referral_code() security definer set search_path = public;
+
+-- Views read through the policies of the signed-in user.
+alter view public.customer_summaries set (security_invoker = true);
+alter view public.loyalty_balances set (security_invoker = true);
+alter view public.gift_card_liability set (security_invoker = true);
+
+-- Row-level security. Each table gets a read policy and, where staff write
+-- to it directly rather than through an RPC, a write policy for the given
+-- command. Tables missing from this database are skipped. The role check is
+-- wrapped in a select so it runs once per statement, not once per row.
+do $$
+declare
+  t record;
+begin
+  for t in
+    select *
+      from (values
+        ('products',                    '{cashier,inventory_clerk,production_operator,manager}', '{inventory_clerk,production_operator,manager}', 'all'),
+        ('product_recipes',             '{inventory_clerk,production_operator,manager}',         '{production_operator,manager}',                 'all'),
+        ('production_batches',          '{production_operator,manager}',                         '{production_operator,manager}',                 'all'),
+        ('production_batch_components', '{production_operator,manager}',                         '{production_operator,manager}',                 'all'),
+        ('purchases',                   '{inventory_clerk,manager}',                             '{inventory_clerk,manager}',                     'all'),
+        ('orders',                      '{cashier,inventory_clerk,manager}',                     null,                                            null),
+        ('order_items',                 '{cashier,inventory_clerk,manager}',                     null,                                            null),
+        ('order_tax_lines',             '{cashier,manager}',                                     null,                                            null),
+        ('order_discounts',             '{cashier,manager}',                                     null,                                            null),
+        ('payments',                    '{cashier,manager}',                                     null,                                            null),
+        ('refunds',                     '{cashier,manager}',                                     null,                                            null),
+        ('refund_items',                '{cashier,manager}',                                     null,                                            null),
+        ('parked_carts',                '{cashier,manager}',                                     '{cashier,manager}',                             'all'),
+        ('customers',                   '{cashier,manager}',                                     '{cashier,manager}',                             'all'),
+        ('cash_sessions',               '{cashier,manager}',                                     '{cashier,manager}',                             'insert'),
+        ('cash_movements',              '{cashier,manager}',                                     '{cashier,manager}',                             'insert'),
+        ('rewards',                     '{cashier,manager}',                                     null,                                            null),
+        ('referals',                    '{cashier,manager}',                                     null,                                            null),
+        ('referals2',                   '{cashier,manager}',                                     null,                                            null),
+        ('gift_cards',                  '{cashier,manager}',                                     null,                                            null),
+        ('gift_card_transactions',      '{cashier,manager}',                                     null,                                            null),
+        ('store_settings',              '{cashier,inventory_clerk,production_operator,manager}', '{manager}',                                     'all'),
+        ('tax_rates',                   '{cashier,inventory_clerk,production_operator,manager}', '{manager}',                                     'all'),
+        ('category_tax_rates',          '{cashier,inventory_clerk,production_operator,manager}', '{manager}',                                     'all'),
+        ('promotions',                  '{cashier,manager}',                                     '{manager}',                                     'all'),
+        ('loyalty_earn_rules',          '{cashier,manager}',                                     '{manager}',                                     'all')
+      ) as v (table_name, read_roles, write_roles, write_command)
+  loop
+    continue when to_regclass('public.' || t.table_name) is null;
+
+    execute format('alter table public.%I enable row level security', t.table_name);
+
+    execute format('drop policy if exists staff_read on public.%I', t.table_name);
+    execute format(
+      'create policy staff_read on public.%I for select to authenticated using ((select public.has_role(variadic %L::text[])))',
+      t.table_name, t.read_roles
+    );
+
+    execute format('drop policy if exists staff_write on public.%I', t.table_name);
+    if t.write_command = 'insert' then
+      execute format(
+        'create policy staff_write on public.%I for insert to authenticated with check ((select public.has_role(variadic %L::text[])))',
+        t.table_name, t.write_roles
+      );
+    elsif t.write_command = 'all' then
+      execute format(
+        'create policy staff_write on public.%1$I for all to authenticated using ((select public.has_role(variadic %2$L::text[]))) with check ((select public.has_role(variadic %2$L::text[])))',
+        t.table_name, t.write_roles
+      );
+    end if;
+  end loop;
+end;
+$$;
+
+-- Staff see their own roles; only admins hand them out.
+alter table public.grants enable row level security;
+
+drop policy if exists grants_read on public.grants;
+create policy grants_read on public.grants
+  for select to authenticated
+  using (granteeid = auth.uid()::text or public.has_role('admin'));
+
+drop policy if exists grants_admin on public.grants;
+create policy grants_admin on public.grants
+  for all to authenticated
+  using (public.has_role('admin'))
+  with check (public.has_role('admin'));
+
+-- Names shown on the staff page and on drawer reports.
+alter table public.profiles enable row level security;
+
+drop policy if exists profiles_read on public.profiles;
+create policy profiles_read on public.profiles
+  for select to authenticated
+  using (id = auth.uid() or public.app_roles() <> '{}');
+
+drop policy if exists profiles_update_own on public.profiles;
+create policy profiles_update_own on public.profiles
+  for update to authenticated
+  using (id = auth.uid())
+  with check (id = auth.uid());
+
+-- tbl_user holds passwords; nothing in the app reads it any more.
+alter table public.tbl_user enable row level security;
+
+drop policy if exists tbl_user_admin on public.tbl_user;
+create policy tbl_user_admin on public.tbl_user
+  for select to authenticated
+  using (public.has_role('admin'));
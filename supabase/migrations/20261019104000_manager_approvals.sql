@@ -0,0 +1,946 @@
+-- Manager approvals.
+--
+-- Voiding a cart line, overriding a price, deleting a product, refunding
+-- more than the store's threshold and opening the drawer without a sale all
+-- need a manager to approve them, either by entering their PIN on the
+-- requesting user's screen or by being signed in as a manager. Every
+-- approval is a row in manager_approvals recording who asked, who approved,
+-- what and when. Approvals for actions the server carries out (price
+-- overrides, product deletes, refunds) are claimed by that action and can
+-- only be used once.
+
+create extension if not exists pgcrypto with schema extensions;
+
+-- Refunds above this amount need approval; null means never.
+alter table public.store_settings
+  add column if not exists refund_approval_threshold numeric default 100 check (refund_approval_threshold >= 0);
+
+-- Hashed PINs, one per manager. Only reachable through the functions below.
+create table if not exists public.manager_pins (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  pin_hash text not null,
+  updated_at timestamptz not null default now()
+);
+
+alter table public.manager_pins enable row level security;
+
+create table if not exists public.manager_approvals (
+  id bigint generated always as identity primary key,
+  action text not null check (action in ('void_line', 'price_override', 'delete_product', 'refund', 'no_sale')),
+  description text not null,
+  -- The new unit price for a price override, the refund total for a refund.
+  amount numeric,
+  product_id bigint references public.products (id) on delete set null,
+  order_id bigint references public.orders (id),
+  refund_id bigint references public.refunds (id),
+  cash_session_id bigint references public.cash_sessions (id),
+  terminal_id text,
+  requested_by uuid references auth.users (id),
+  requested_by_name text,
+  approved_by uuid not null references auth.users (id),
+  approved_by_name text not null,
+  created_at timestamptz not null default now(),
+  -- Set when the action the approval was given for has been carried out.
+  used_at timestamptz
+);
+
+create index if not exists manager_approvals_created_at_idx on public.manager_approvals (created_at);
+
+alter table public.manager_approvals enable row level security;
+
+drop policy if exists staff_read on public.manager_approvals;
+create policy staff_read on public.manager_approvals
+  for select to authenticated
+  using ((select public.has_role('manager')));
+
+-- Failed PIN entries, so a PIN cannot be guessed by trying them all.
+create table if not exists public.manager_pin_failures (
+  id bigint generated always as identity primary key,
+  user_id uuid references auth.users (id),
+  created_at timestamptz not null default now()
+);
+
+alter table public.manager_pin_failures enable row level security;
+
+-- Roles for any user, so a PIN can be checked against the roles its owner
+-- holds now rather than when it was set.
+create or replace function public.staff_roles(p_user_id uuid)
+returns text[]
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(array_agg(distinct r.role), '{}')
+    from (
+      select case g.privilege
+               when 1 then 'cashier'
+               when 2 then 'inventory_clerk'
+               when 3 then 'production_operator'
+               when 4 then 'manager'
+               when 5 then 'admin'
+             end as role
+        from public.grants g
+       where g.granteeid = p_user_id::text
+      union all
+      select 'admin'
+        from public.tbl_user u
+        join auth.users au on lower(au.email) = lower(u.email)
+       where u.isadmin
+         and au.id = p_user_id
+    ) r
+   where r.role is not null;
+$$;
+
+revoke execute on function public.staff_roles(uuid) from public, anon, authenticated;
+
+create or replace function public.app_roles()
+returns text[]
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select public.staff_roles(auth.uid());
+$$;
+
+create or replace function public.staff_display_name(p_user_id uuid)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(
+    (select coalesce(nullif(p.full_name, ''), nullif(p.username, '')) from public.profiles p where p.id = p_user_id),
+    (select au.email from auth.users au where au.id = p_user_id)
+  );
+$$;
+
+revoke execute on function public.staff_display_name(uuid) from public, anon, authenticated;
+
+-- Sets the signed-in manager's PIN. PINs identify the approving manager, so
+-- no two managers may share one.
+create or replace function public.set_manager_pin(p_pin text)
+returns void
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+begin
+  perform public.require_role('manager');
+
+  if p_pin is null or p_pin !~ '^[0-9]{4,8}$' then
+    raise exception 'A PIN must be 4 to 8 digits';
+  end if;
+
+  if exists (
+    select 1
+      from public.manager_pins
+     where user_id <> auth.uid()
+       and pin_hash = crypt(p_pin, pin_hash)
+  ) then
+    raise exception 'That PIN is already in use, choose another';
+  end if;
+
+  insert into public.manager_pins (user_id, pin_hash)
+  values (auth.uid(), crypt(p_pin, gen_salt('bf')))
+  on conflict (user_id) do update
+    set pin_hash = excluded.pin_hash,
+        updated_at = now();
+end;
+$$;
+
+revoke execute on function public.set_manager_pin(text) from public, anon;
+grant execute on function public.set_manager_pin(text) to authenticated;
+
+-- Records a manager's approval of an action. Managers approve their own
+-- requests without a PIN. Returns null, rather than raising, when the PIN
+-- is wrong so that the failed attempt is kept; five failures in ten minutes
+-- lock the requesting user out of approvals for the rest of that window.
+create or replace function public.approve_action(
+  p_action text,
+  p_description text,
+  p_pin text default null,
+  p_amount numeric default null,
+  p_product_id bigint default null,
+  p_order_id bigint default null,
+  p_cash_session_id bigint default null,
+  p_terminal_id text default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+declare
+  v_approver uuid;
+  v_approval public.manager_approvals;
+begin
+  perform public.require_role('cashier', 'inventory_clerk', 'production_operator', 'manager');
+
+  if p_pin is null then
+    if not public.has_role('manager') then
+      raise exception 'A manager PIN is required';
+    end if;
+    v_approver := auth.uid();
+  else
+    if (
+      select count(*)
+        from public.manager_pin_failures
+       where user_id = auth.uid()
+         and created_at > now() - interval '10 minutes'
+    ) >= 5 then
+      raise exception 'Too many incorrect PINs, try again in a few minutes';
+    end if;
+
+    select mp.user_id into v_approver
+      from public.manager_pins mp
+     where mp.pin_hash = crypt(p_pin, mp.pin_hash)
+       and public.staff_roles(mp.user_id) && '{manager,admin}'::text[];
+
+    if v_approver is null then
+      insert into public.manager_pin_failures (user_id) values (auth.uid());
+      return null;
+    end if;
+  end if;
+
+  insert into public.manager_approvals (
+    action,
+    description,
+    amount,
+    product_id,
+    order_id,
+    cash_session_id,
+    terminal_id,
+    requested_by,
+    requested_by_name,
+    approved_by,
+    approved_by_name,
+    used_at
+  )
+  values (
+    p_action,
+    p_description,
+    p_amount,
+    p_product_id,
+    p_order_id,
+    p_cash_session_id,
+    p_terminal_id,
+    auth.uid(),
+    public.staff_display_name(auth.uid()),
+    v_approver,
+    coalesce(public.staff_display_name(v_approver), 'Manager'),
+    -- Voids and no-sales happen on the terminal, so there is nothing left
+    -- for the server to claim them with.
+    case when p_action in ('void_line', 'no_sale') then now() end
+  )
+  returning * into v_approval;
+
+  return to_jsonb(v_approval);
+end;
+$$;
+
+revoke execute on function public.approve_action(text, text, text, numeric, bigint, bigint, bigint, text) from public, anon;
+grant execute on function public.approve_action(text, text, text, numeric, bigint, bigint, bigint, text) to authenticated;
+
+-- Marks an approval as used by the action it was given for.
+create or replace function public.claim_manager_approval(p_approval_id bigint, p_action text)
+returns public.manager_approvals
+language plpgsql
+as $$
+declare
+  v_approval public.manager_approvals;
+begin
+  update public.manager_approvals
+     set used_at = now()
+   where id = p_approval_id
+     and action = p_action
+     and used_at is null
+  returning * into v_approval;
+
+  if not found then
+    raise exception 'Manager approval % is not valid for this action', coalesce(p_approval_id::text, '(none)');
+  end if;
+
+  return v_approval;
+end;
+$$;
+
+revoke execute on function public.claim_manager_approval(bigint, text) from public, anon, authenticated;
+
+-- Products are deleted through delete_product so that every delete carries
+-- an approval.
+drop policy if exists staff_write on public.products;
+
+drop policy if exists staff_insert on public.products;
+create policy staff_insert on public.products
+  for insert to authenticated
+  with check ((select public.has_role('inventory_clerk', 'production_operator', 'manager')));
+
+drop policy if exists staff_update on public.products;
+create policy staff_update on public.products
+  for update to authenticated
+  using ((select public.has_role('inventory_clerk', 'production_operator', 'manager')))
+  with check ((select public.has_role('inventory_clerk', 'production_operator', 'manager')));
+
+create or replace function public.delete_product(p_product_id bigint, p_approval_id bigint)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_approval public.manager_approvals;
+begin
+  perform public.require_role('inventory_clerk', 'production_operator', 'manager');
+
+  v_approval := public.claim_manager_approval(p_approval_id, 'delete_product');
+  if v_approval.product_id is distinct from p_product_id then
+    raise exception 'Manager approval % was given for a different product', p_approval_id;
+  end if;
+
+  delete from public.products
+   where id = p_product_id;
+
+  if not found then
+    raise exception 'Product % not found', p_product_id;
+  end if;
+end;
+$$;
+
+revoke execute on function public.delete_product(bigint, bigint) from public, anon;
+grant execute on function public.delete_product(bigint, bigint) to authenticated;
+
+-- Cart lines may carry the approval for a price override.
+create or replace function public.create_pos_order(
+  p_items jsonb,
+  p_tenders jsonb,
+  p_discounts jsonb default '[]'::jsonb,
+  p_cash_session_id bigint default null,
+  p_order_number text default null,
+  p_created_at timestamptz default null,
+  p_offline boolean default false,
+  p_customer_id bigint default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order public.orders;
+  v_item jsonb;
+  v_tender jsonb;
+  v_product public.products;
+  v_discount jsonb;
+  v_quantity integer;
+  v_line_discount numeric;
+  v_line_discounts numeric := 0;
+  v_recorded_discounts numeric := 0;
+  v_amount numeric;
+  v_method text;
+  v_total numeric;
+  v_paid numeric := 0;
+  v_non_cash numeric := 0;
+  v_methods text[] := '{}';
+  v_session public.cash_sessions;
+  v_existing_id bigint;
+  v_conflicts jsonb := '[]'::jsonb;
+  v_customer public.customers;
+  v_points_earned integer := 0;
+  v_order_item_id bigint;
+  v_unit_price numeric;
+  v_approval public.manager_approvals;
+begin
+  perform public.require_role('cashier', 'manager');
+  -- A sale replayed from a terminal's outbox may already have reached the
+  -- server on an earlier attempt whose response was lost. The lock makes two
+  -- concurrent replays of the same sale wait for each other.
+  if p_order_number is not null then
+    perform pg_advisory_xact_lock(hashtext(p_order_number));
+
+    select id into v_existing_id
+      from public.orders
+     where order_number = p_order_number;
+
+    if found then
+      return public.pos_order_json(v_existing_id)
+        || jsonb_build_object('stock_conflicts', '[]'::jsonb);
+    end if;
+  end if;
+
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'Cart is empty';
+  end if;
+
+  if p_tenders is null or jsonb_typeof(p_tenders) <> 'array' or jsonb_array_length(p_tenders) = 0 then
+    raise exception 'At least one tender is required';
+  end if;
+
+  -- The share lock keeps the drawer from being closed while a sale into it
+  -- is still being written.
+  select * into v_session
+    from public.cash_sessions
+   where id = p_cash_session_id
+     for share;
+
+  -- An offline sale belongs to the session it was rung up in, even if the
+  -- drawer has been closed by the time the terminal reconnects.
+  if not found or (v_session.status <> 'open' and not p_offline) then
+    raise exception 'Open a cash drawer session before taking payments';
+  end if;
+
+  if p_customer_id is not null then
+    select * into v_customer
+      from public.customers
+     where id = p_customer_id;
+
+    if not found then
+      raise exception 'Customer % not found', p_customer_id;
+    end if;
+  end if;
+
+  -- Lock every product in the basket up front, in id order, so two tills
+  -- checking out overlapping baskets cannot deadlock each other.
+  perform 1
+    from public.products
+   where id in (
+     select (value->>'product_id')::bigint
+       from jsonb_array_elements(p_items)
+   )
+   order by id
+   for update;
+
+  insert into public.orders (
+    order_number,
+    total_amount,
+    payment_method,
+    payment_status,
+    order_status,
+    user_id,
+    cash_session_id,
+    customer_id,
+    billing_address,
+    shipping_address,
+    created_at,
+    synced_at
+  )
+  values (
+    coalesce(p_order_number, 'ORD-' || (extract(epoch from clock_timestamp()) * 1000)::bigint),
+    0,
+    null,
+    'pending',
+    'completed',
+    1,
+    v_session.id,
+    v_customer.id,
+    coalesce(v_customer.billing_address, '{}'::jsonb),
+    coalesce(v_customer.shipping_address, '{}'::jsonb),
+    coalesce(p_created_at, now()),
+    case when p_offline then now() end
+  )
+  returning * into v_order;
+
+  for v_item in select value from jsonb_array_elements(p_items)
+  loop
+    v_quantity := (v_item->>'quantity')::integer;
+    if v_quantity is null or v_quantity <= 0 then
+      raise exception 'Invalid quantity for product %', v_item->>'product_id';
+    end if;
+
+    select * into v_product
+      from public.products
+     where id = (v_item->>'product_id')::bigint;
+
+    if not found then
+      raise exception 'Product % not found', v_item->>'product_id';
+    end if;
+
+    -- An overridden price comes from the manager approval that set it, never
+    -- from the terminal.
+    v_unit_price := v_product.price;
+    if v_item->>'approval_id' is not null then
+      v_approval := public.claim_manager_approval((v_item->>'approval_id')::bigint, 'price_override');
+      if v_approval.product_id is distinct from v_product.id or v_approval.amount is null then
+        raise exception 'Manager approval % was given for a different product', v_approval.id;
+      end if;
+
+      v_unit_price := v_approval.amount;
+      update public.manager_approvals
+         set order_id = v_order.id
+       where id = v_approval.id;
+    end if;
+
+    -- The goods in an offline sale have already left the shop, so a
+    -- shortfall is recorded rather than refused and stock is allowed to go
+    -- negative until it is counted again.
+    if not v_product.is_gift_card and coalesce(v_product.stock_quantity, 0) < v_quantity then
+      if not p_offline then
+        raise exception 'Not enough stock of %. Requested: %, Available: %',
+          v_product.product_name, v_quantity, coalesce(v_product.stock_quantity, 0);
+      end if;
+
+      v_conflicts := v_conflicts || jsonb_build_object(
+        'product_id', v_product.id,
+        'product_name', v_product.product_name,
+        'requested', v_quantity,
+        'available', coalesce(v_product.stock_quantity, 0)
+      );
+    end if;
+
+    v_line_discount := round(coalesce((v_item->>'discount_amount')::numeric, 0), 2);
+    if v_line_discount < 0 or v_line_discount > v_unit_price * v_quantity then
+      raise exception 'Invalid discount for %', v_product.product_name;
+    end if;
+
+    if not v_product.is_gift_card then
+      update public.products
+         set stock_quantity = coalesce(stock_quantity, 0) - v_quantity,
+             updated_at = now()
+       where id = v_product.id;
+    end if;
+
+    insert into public.order_items (
+      order_id,
+      product_id,
+      product_name,
+      sku,
+      quantity,
+      price,
+      discount_amount,
+      total_price
+    )
+    values (
+      v_order.id,
+      v_product.id,
+      v_product.product_name,
+      v_product.sku,
+      v_quantity,
+      v_unit_price,
+      v_line_discount,
+      v_unit_price * v_quantity - v_line_discount
+    )
+    returning id into v_order_item_id;
+
+    -- Each gift card sold is issued with its own code, loaded with the
+    -- product's price.
+    if v_product.is_gift_card then
+      for i in 1..v_quantity loop
+        perform public.issue_gift_card(
+          'gift_card',
+          v_unit_price,
+          v_customer.id,
+          v_order.id,
+          v_order_item_id,
+          null
+        );
+      end loop;
+    end if;
+
+    v_line_discounts := v_line_discounts + v_line_discount;
+  end loop;
+
+  -- The per-line discount amounts already include each line's share of any
+  -- order-level discount, so the recorded discounts must add up to them.
+  for v_discount in select value from jsonb_array_elements(coalesce(p_discounts, '[]'::jsonb))
+  loop
+    v_amount := round((v_discount->>'amount')::numeric, 2);
+    if v_amount is null or v_amount < 0 then
+      raise exception 'Invalid discount amount';
+    end if;
+
+    insert into public.order_discounts (
+      order_id,
+      order_item_id,
+      source,
+      promotion_id,
+      description,
+      discount_type,
+      value,
+      amount,
+      reason,
+      authorised_by
+    )
+    values (
+      v_order.id,
+      (
+        select oi.id
+          from public.order_items oi
+         where oi.order_id = v_order.id
+           and oi.product_id = (v_discount->>'product_id')::bigint
+         limit 1
+      ),
+      v_discount->>'source',
+      (v_discount->>'promotion_id')::bigint,
+      v_discount->>'description',
+      v_discount->>'discount_type',
+      (v_discount->>'value')::numeric,
+      v_amount,
+      v_discount->>'reason',
+      v_discount->>'authorised_by'
+    );
+
+    v_recorded_discounts := v_recorded_discounts + v_amount;
+  end loop;
+
+  if abs(v_recorded_discounts - v_line_discounts) > 0.01 then
+    raise exception 'Discount breakdown (%) does not match line discounts (%)',
+      v_recorded_discounts, v_line_discounts;
+  end if;
+
+  update public.orders
+     set discount_total = v_line_discounts
+   where id = v_order.id;
+
+  perform public.apply_order_tax(v_order.id);
+
+  select total_amount into v_total
+    from public.orders
+   where id = v_order.id;
+
+  for v_tender in select value from jsonb_array_elements(p_tenders)
+  loop
+    v_method := v_tender->>'method';
+    v_amount := round((v_tender->>'amount')::numeric, 2);
+
+    if v_method is null or v_method not in ('cash', 'card', 'points', 'gift_card', 'store_credit') then
+      raise exception 'Unsupported tender method %', coalesce(v_method, 'null');
+    end if;
+
+    if v_amount is null or v_amount <= 0 then
+      raise exception 'Tender amounts must be positive';
+    end if;
+
+    insert into public.payments (
+      order_id,
+      amount,
+      currency,
+      paymentgateway,
+      paymentstatus
+    )
+    values (
+      v_order.id,
+      v_amount,
+      'USD',
+      v_method,
+      'completed'
+    );
+
+    if v_method = 'points' then
+      perform public.redeem_loyalty_points(v_order.id, v_customer.id, v_amount);
+    elsif v_method in ('gift_card', 'store_credit') then
+      perform public.redeem_gift_card(v_tender->>'code', v_method, v_order.id, v_amount);
+    end if;
+
+    v_paid := v_paid + v_amount;
+    if v_method <> 'cash' then
+      v_non_cash := v_non_cash + v_amount;
+    end if;
+    if not v_method = any (v_methods) then
+      v_methods := v_methods || v_method;
+    end if;
+  end loop;
+
+  -- Change can only be given out of cash.
+  if v_non_cash > v_total then
+    raise exception 'Non-cash tenders (%) exceed the order total (%)', v_non_cash, v_total;
+  end if;
+
+  update public.orders
+     set payment_method = case
+           when array_length(v_methods, 1) = 1 then v_methods[1]
+           else 'split'
+         end,
+         payment_status = case
+           when v_paid >= v_total then 'completed'
+           else 'partial'
+         end,
+         change_given = greatest(v_paid - v_total, 0)
+   where id = v_order.id
+  returning * into v_order;
+
+  v_points_earned := public.award_order_points(v_order.id);
+
+  return public.pos_order_json(v_order.id)
+    || jsonb_build_object('stock_conflicts', v_conflicts, 'points_earned', v_points_earned);
+end;
+$$;
+
+revoke execute on function public.create_pos_order(jsonb, jsonb, jsonb, bigint, text, timestamptz, boolean, bigint) from public, anon;
+grant execute on function public.create_pos_order(jsonb, jsonb, jsonb, bigint, text, timestamptz, boolean, bigint) to authenticated;
+
+-- Refunds take the approval as a new last argument.
+drop function if exists public.create_refund(bigint, jsonb, text, text, bigint);
+
+create or replace function public.create_refund(
+  p_order_id bigint,
+  p_items jsonb,
+  p_refund_method text,
+  p_reason text default null,
+  p_cash_session_id bigint default null,
+  p_approval_id bigint default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order public.orders;
+  v_refund public.refunds;
+  v_item jsonb;
+  v_order_item public.order_items;
+  v_quantity integer;
+  v_line_total numeric;
+  v_amount numeric;
+  v_total numeric := 0;
+  v_restock boolean;
+  v_previously_refunded numeric;
+  v_last_refund_item_id bigint;
+  v_session public.cash_sessions;
+  v_card public.gift_cards;
+  v_voided integer;
+  v_store_credit public.gift_cards;
+  v_threshold numeric;
+  v_approval public.manager_approvals;
+begin
+  perform public.require_role('cashier', 'manager');
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'Select at least one item to refund';
+  end if;
+
+  if p_refund_method is null or p_refund_method not in ('cash', 'card', 'store_credit') then
+    raise exception 'Unsupported refund method %', coalesce(p_refund_method, 'null');
+  end if;
+
+  if p_cash_session_id is not null then
+    select * into v_session
+      from public.cash_sessions
+     where id = p_cash_session_id
+       for share;
+
+    if not found or v_session.status <> 'open' then
+      raise exception 'Cash drawer session % is not open', p_cash_session_id;
+    end if;
+  elsif p_refund_method = 'cash' then
+    raise exception 'Open a cash drawer session before giving cash refunds';
+  end if;
+
+  select * into v_order
+    from public.orders
+   where id = p_order_id
+     for update;
+
+  if not found then
+    raise exception 'Order % not found', p_order_id;
+  end if;
+
+  if v_order.order_status = 'refunded' then
+    raise exception 'Order % has already been fully refunded', v_order.order_number;
+  end if;
+
+  if v_order.order_status not in ('completed', 'partially_refunded') then
+    raise exception 'Only completed orders can be refunded';
+  end if;
+
+  select coalesce(sum(amount), 0) into v_previously_refunded
+    from public.refunds
+   where order_id = v_order.id;
+
+  insert into public.refunds (refund_number, order_id, amount, refund_method, reason, cash_session_id)
+  values (
+    'RFD-' || (extract(epoch from clock_timestamp()) * 1000)::bigint,
+    v_order.id,
+    0,
+    p_refund_method,
+    p_reason,
+    v_session.id
+  )
+  returning * into v_refund;
+
+  for v_item in select value from jsonb_array_elements(p_items)
+  loop
+    v_quantity := (v_item->>'quantity')::integer;
+    v_restock := coalesce((v_item->>'restock')::boolean, true);
+
+    select * into v_order_item
+      from public.order_items
+     where id = (v_item->>'order_item_id')::bigint
+       and order_id = v_order.id
+       for update;
+
+    if not found then
+      raise exception 'Item % does not belong to order %', v_item->>'order_item_id', v_order.order_number;
+    end if;
+
+    if v_quantity is null or v_quantity <= 0
+       or v_quantity > v_order_item.quantity - v_order_item.refunded_quantity then
+      raise exception 'Cannot refund % of %: only % left to refund',
+        coalesce(v_quantity, 0), v_order_item.product_name,
+        v_order_item.quantity - v_order_item.refunded_quantity;
+    end if;
+
+    -- What the customer actually paid for the line: its discounted total plus
+    -- any tax added on top of it.
+    v_line_total := coalesce(v_order_item.total_price, v_order_item.price * v_order_item.quantity)
+      + case when v_order.prices_include_tax then 0 else v_order_item.tax_amount end;
+
+    -- Returning the last units of a line refunds whatever is left of it, so
+    -- rounding never leaves a cent behind.
+    if v_quantity = v_order_item.quantity - v_order_item.refunded_quantity then
+      v_amount := v_line_total - v_order_item.refunded_amount;
+    else
+      v_amount := round(v_line_total * v_quantity / v_order_item.quantity, 2);
+    end if;
+
+    -- Gift cards sold on the line are taken back by voiding them, which is
+    -- only possible while they are unspent. They never go back on the shelf.
+    if exists (select 1 from public.gift_cards where issued_order_item_id = v_order_item.id) then
+      v_restock := false;
+      v_voided := 0;
+
+      for v_card in
+        select *
+          from public.gift_cards
+         where issued_order_item_id = v_order_item.id
+           and status = 'active'
+           and balance = initial_amount
+         order by id
+         limit v_quantity
+           for update
+      loop
+        insert into public.gift_card_transactions (gift_card_id, transaction_type, amount, refund_id, note)
+        values (v_card.id, 'void', -v_card.balance, v_refund.id, 'Refunded');
+
+        update public.gift_cards
+           set status = 'void',
+               updated_at = now()
+         where id = v_card.id;
+
+        v_voided := v_voided + 1;
+      end loop;
+
+      if v_voided < v_quantity then
+        raise exception 'Only % of the gift cards sold on this order are unspent and can be refunded', v_voided;
+      end if;
+    end if;
+
+    update public.order_items
+       set refunded_quantity = refunded_quantity + v_quantity,
+           refunded_amount = refunded_amount + v_amount
+     where id = v_order_item.id;
+
+    if v_restock then
+      update public.products
+         set stock_quantity = coalesce(stock_quantity, 0) + v_quantity,
+             updated_at = now()
+       where id = v_order_item.product_id;
+    end if;
+
+    insert into public.refund_items (refund_id, order_item_id, quantity, amount, restocked)
+    values (v_refund.id, v_order_item.id, v_quantity, v_amount, v_restock)
+    returning id into v_last_refund_item_id;
+
+    v_total := v_total + v_amount;
+  end loop;
+
+  -- Line taxes are rounded individually, so once every unit is back the final
+  -- refund settles the order to exactly what was paid.
+  if not exists (
+    select 1
+      from public.order_items
+     where order_id = v_order.id
+       and refunded_quantity < quantity
+  ) and v_previously_refunded + v_total <> v_order.total_amount then
+    update public.refund_items
+       set amount = amount + (v_order.total_amount - v_previously_refunded - v_total)
+     where id = v_last_refund_item_id;
+    update public.order_items
+       set refunded_amount = refunded_amount + (v_order.total_amount - v_previously_refunded - v_total)
+     where id = (select order_item_id from public.refund_items where id = v_last_refund_item_id);
+    v_total := v_order.total_amount - v_previously_refunded;
+  end if;
+
+  -- Refunds above the store's threshold need a manager's approval for this
+  -- order.
+  select refund_approval_threshold into v_threshold
+    from public.store_settings
+   where id = 1;
+
+  if v_threshold is not null and v_total > v_threshold then
+    if p_approval_id is null then
+      raise exception 'Refunds over % need a manager''s approval', v_threshold;
+    end if;
+
+    v_approval := public.claim_manager_approval(p_approval_id, 'refund');
+    if v_approval.order_id is distinct from v_order.id then
+      raise exception 'Manager approval % was given for a different order', p_approval_id;
+    end if;
+
+    update public.manager_approvals
+       set refund_id = v_refund.id
+     where id = v_approval.id;
+  end if;
+
+  update public.refunds
+     set amount = v_total
+   where id = v_refund.id
+  returning * into v_refund;
+
+  insert into public.payments (
+    order_id,
+    refund_id,
+    amount,
+    currency,
+    paymentgateway,
+    paymentstatus
+  )
+  values (
+    v_order.id,
+    v_refund.id,
+    -v_total,
+    'USD',
+    p_refund_method,
+    'refunded'
+  );
+
+  if p_refund_method = 'store_credit' then
+    v_store_credit := public.issue_gift_card(
+      'store_credit',
+      v_total,
+      v_order.customer_id,
+      null,
+      null,
+      v_refund.id
+    );
+  end if;
+
+  update public.orders
+     set order_status = case
+           when exists (
+             select 1
+               from public.order_items
+              where order_id = v_order.id
+                and refunded_quantity < quantity
+           ) then 'partially_refunded'
+           else 'refunded'
+         end,
+         updated_at = now()
+   where id = v_order.id;
+
+  return to_jsonb(v_refund) || jsonb_build_object(
+    'items',
+    (
+      select coalesce(jsonb_agg(to_jsonb(ri) order by ri.id), '[]'::jsonb)
+        from public.refund_items ri
+       where ri.refund_id = v_refund.id
+    ),
+    'store_credit',
+    case when v_store_credit.id is not null then to_jsonb(v_store_credit) end
+  );
+end;
+$$;
+
+revoke execute on function public.create_refund(bigint, jsonb, text, text, bigint, bigint) from public, anon;
+grant execute on function public.create_refund(bigint, jsonb, text, text, bigint, bigint) to authenticated;
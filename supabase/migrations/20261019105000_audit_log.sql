@@ -0,0 +1,188 @@
+-- Audit log.
+--
+-- Every insert, update and delete on the store's tables is recorded by a
+-- trigger in audit_log: who made the change, which row, the values before
+-- and after, and the screen it came from. Screens tag their writes with an
+-- x-app-source request header; changes made inside an RPC are tagged with
+-- the header of the call that made them. The log is append-only: nobody can
+-- write to it directly and its rows can be neither updated nor deleted.
+
+create table if not exists public.audit_log (
+  id bigint generated always as identity primary key,
+  occurred_at timestamptz not null default now(),
+  actor_id uuid references auth.users (id) on delete set null,
+  actor_name text,
+  table_name text not null,
+  -- The changed row's primary key; composite keys are joined with '/'.
+  row_id text not null,
+  action text not null check (action in ('insert', 'update', 'delete')),
+  old_values jsonb,
+  new_values jsonb,
+  changed_columns text[],
+  source text,
+  -- The product the change belongs to, for each product's change history.
+  product_id bigint
+);
+
+create index if not exists audit_log_occurred_at_idx on public.audit_log (occurred_at);
+create index if not exists audit_log_table_row_idx on public.audit_log (table_name, row_id);
+create index if not exists audit_log_product_id_idx on public.audit_log (product_id) where product_id is not null;
+
+alter table public.audit_log enable row level security;
+
+drop policy if exists staff_read on public.audit_log;
+create policy staff_read on public.audit_log
+  for select to authenticated
+  using ((select public.has_role('manager')));
+
+revoke insert, update, delete, truncate on public.audit_log from public, anon, authenticated;
+
+create or replace function public.audit_log_append_only()
+returns trigger
+language plpgsql
+as $$
+begin
+  raise exception 'The audit log cannot be changed';
+end;
+$$;
+
+drop trigger if exists audit_log_append_only on public.audit_log;
+create trigger audit_log_append_only
+  before update or delete on public.audit_log
+  for each row execute function public.audit_log_append_only();
+
+drop trigger if exists audit_log_no_truncate on public.audit_log;
+create trigger audit_log_no_truncate
+  before truncate on public.audit_log
+  for each statement execute function public.audit_log_append_only();
+
+-- Records one row change. The trigger arguments name the table's key
+-- columns, 'id' when none are given.
+create or replace function public.audit_row_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_old jsonb;
+  v_new jsonb;
+  v_row jsonb;
+  v_changed text[];
+  v_row_id text;
+  v_product_id bigint;
+  v_source text;
+  v_key text;
+  i integer;
+begin
+  if tg_op <> 'INSERT' then
+    v_old := to_jsonb(old);
+  end if;
+  if tg_op <> 'DELETE' then
+    v_new := to_jsonb(new);
+  end if;
+  v_row := coalesce(v_new, v_old);
+
+  if tg_op = 'UPDATE' then
+    select array_agg(n.key order by n.key)
+      into v_changed
+      from jsonb_each(v_new) n
+     where n.value is distinct from v_old -> n.key;
+
+    -- Saving a form without changing anything is not a change.
+    if v_changed is null then
+      return new;
+    end if;
+  elsif tg_op = 'INSERT' then
+    select array_agg(k order by k) into v_changed from jsonb_object_keys(v_new) k;
+  else
+    select array_agg(k order by k) into v_changed from jsonb_object_keys(v_old) k;
+  end if;
+
+  if tg_nargs = 0 then
+    v_row_id := v_row ->> 'id';
+  else
+    for i in 0 .. tg_nargs - 1 loop
+      v_key := v_row ->> tg_argv[i];
+      v_row_id := case when i = 0 then v_key else v_row_id || '/' || v_key end;
+    end loop;
+  end if;
+
+  if tg_table_name = 'products' then
+    v_product_id := (v_row ->> 'id')::bigint;
+  else
+    v_product_id := coalesce(v_row ->> 'product_id', v_row ->> 'component_id')::bigint;
+  end if;
+
+  -- request.headers is only set for calls through the API; changes made by
+  -- maintenance scripts and scheduled jobs have no source.
+  begin
+    v_source := nullif(current_setting('request.headers', true), '')::jsonb ->> 'x-app-source';
+  exception when others then
+    v_source := null;
+  end;
+
+  insert into public.audit_log (
+    actor_id, actor_name, table_name, row_id, action,
+    old_values, new_values, changed_columns, source, product_id
+  )
+  values (
+    auth.uid(), public.staff_display_name(auth.uid()), tg_table_name, coalesce(v_row_id, ''), lower(tg_op),
+    v_old, v_new, v_changed, v_source, v_product_id
+  );
+
+  return coalesce(new, old);
+end;
+$$;
+
+revoke execute on function public.audit_row_change() from public, anon, authenticated;
+
+-- Audited tables and their key columns. Tables missing from this database
+-- are skipped. PINs and PIN failures are left out so hashes never reach the
+-- log.
+do $$
+declare
+  t record;
+begin
+  for t in
+    select *
+      from (values
+        ('products',                    '{id}'),
+        ('product_recipes',             '{id}'),
+        ('production_batches',          '{id}'),
+        ('production_batch_components', '{id}'),
+        ('purchases',                   '{id}'),
+        ('orders',                      '{id}'),
+        ('order_items',                 '{id}'),
+        ('order_tax_lines',             '{id}'),
+        ('order_discounts',             '{id}'),
+        ('payments',                    '{id}'),
+        ('refunds',                     '{id}'),
+        ('refund_items',                '{id}'),
+        ('parked_carts',                '{id}'),
+        ('customers',                   '{id}'),
+        ('cash_sessions',               '{id}'),
+        ('cash_movements',              '{id}'),
+        ('gift_cards',                  '{id}'),
+        ('gift_card_transactions',      '{id}'),
+        ('store_settings',              '{id}'),
+        ('tax_rates',                   '{id}'),
+        ('category_tax_rates',          '{category,tax_rate_id}'),
+        ('promotions',                  '{id}'),
+        ('loyalty_earn_rules',          '{id}'),
+        ('manager_approvals',           '{id}'),
+        ('grants',                      '{grantid}'),
+        ('profiles',                    '{id}')
+      ) as v (table_name, key_columns)
+  loop
+    continue when to_regclass('public.' || t.table_name) is null;
+
+    execute format('drop trigger if exists audit_row_change on public.%I', t.table_name);
+    execute format(
+      'create trigger audit_row_change after insert or update or delete on public.%I for each row execute function public.audit_row_change(%s)',
+      t.table_name,
+      (select string_agg(quote_literal(k), ', ') from unnest(t.key_columns::text[]) k)
+    );
+  end loop;
+end;
+$$;
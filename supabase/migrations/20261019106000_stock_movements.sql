@@ -0,0 +1,1019 @@
+-- Stock movement ledger.
+--
+-- Every change to a product's stock is a signed row in stock_movements with
+-- a reason and the id of what caused it: the order for a sale, the refund
+-- for a return, the purchase, the production batch, and so on. A trigger
+-- keeps products.stock_quantity equal to the running total of the ledger,
+-- and stock_quantity can no longer be written directly, so the browser never
+-- sets stock from a number it read earlier. Purchases, production and stock
+-- adjustments move to RPCs that record their movements in the same
+-- transaction as the change itself.
+
+create table if not exists public.stock_movements (
+  id bigint generated always as identity primary key,
+  product_id bigint not null references public.products (id) on delete cascade,
+  -- Positive for stock coming in, negative for stock going out.
+  quantity numeric not null check (quantity <> 0),
+  reason text not null check (reason in ('sale', 'purchase', 'production_in', 'production_out', 'adjustment', 'return', 'transfer')),
+  -- The row that caused the movement: orders.id for a sale, refunds.id for a
+  -- return, purchases.id for a purchase, production_batches.id for
+  -- production. Null for adjustments.
+  reference_id bigint,
+  note text,
+  -- The product's on-hand quantity once this movement is applied.
+  quantity_after numeric not null default 0,
+  created_by uuid default auth.uid() references auth.users (id) on delete set null,
+  created_by_name text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists stock_movements_product_id_idx on public.stock_movements (product_id, id);
+create index if not exists stock_movements_reference_idx on public.stock_movements (reason, reference_id);
+
+alter table public.stock_movements enable row level security;
+
+drop policy if exists staff_read on public.stock_movements;
+create policy staff_read on public.stock_movements
+  for select to authenticated
+  using ((select public.has_role('inventory_clerk', 'production_operator', 'manager')));
+
+-- Applies a movement: the new on-hand quantity is the previous ledger total
+-- plus the movement, and is written to the product. Stock may go negative;
+-- callers that must not oversell check before recording the movement.
+create or replace function public.stock_movements_apply()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_product public.products;
+begin
+  select * into v_product
+    from public.products
+   where id = new.product_id
+     for update;
+
+  if not found then
+    raise exception 'Product % not found', new.product_id;
+  end if;
+
+  new.quantity_after := coalesce((
+    select m.quantity_after
+      from public.stock_movements m
+     where m.product_id = new.product_id
+     order by m.id desc
+     limit 1
+  ), 0) + new.quantity;
+  new.created_by_name := coalesce(new.created_by_name, public.staff_display_name(new.created_by));
+
+  perform set_config('app.stock_movement', 'on', true);
+  update public.products
+     set stock_quantity = new.quantity_after,
+         updated_at = now()
+   where id = new.product_id;
+  perform set_config('app.stock_movement', 'off', true);
+
+  return new;
+end;
+$$;
+
+drop trigger if exists stock_movements_apply on public.stock_movements;
+create trigger stock_movements_apply
+  before insert on public.stock_movements
+  for each row execute function public.stock_movements_apply();
+
+-- Stock is changed by recording a movement, never by editing the product.
+create or replace function public.products_guard_stock_quantity()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.stock_quantity is distinct from old.stock_quantity
+     and coalesce(current_setting('app.stock_movement', true), 'off') <> 'on' then
+    raise exception 'Stock of % can only be changed by recording a stock movement', old.product_name;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists products_guard_stock_quantity on public.products;
+create trigger products_guard_stock_quantity
+  before update of stock_quantity on public.products
+  for each row execute function public.products_guard_stock_quantity();
+
+-- A new product's starting stock is its first movement.
+create or replace function public.products_record_opening_stock()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if coalesce(new.stock_quantity, 0) <> 0 then
+    insert into public.stock_movements (product_id, quantity, reason, note)
+    values (new.id, new.stock_quantity, 'adjustment', 'Opening stock');
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists products_record_opening_stock on public.products;
+create trigger products_record_opening_stock
+  after insert on public.products
+  for each row execute function public.products_record_opening_stock();
+
+-- Existing stock becomes each product's opening balance.
+insert into public.stock_movements (product_id, quantity, reason, note)
+select p.id, p.stock_quantity, 'adjustment', 'Opening balance'
+  from public.products p
+ where coalesce(p.stock_quantity, 0) <> 0
+   and not exists (select 1 from public.stock_movements m where m.product_id = p.id);
+
+-- On-hand quantity next to the ledger total, to spot stock that drifted.
+create or replace view public.stock_reconciliation
+with (security_invoker = true)
+as
+select
+  p.id as product_id,
+  p.product_name,
+  p.sku,
+  coalesce(p.stock_quantity, 0) as stock_quantity,
+  coalesce(sum(m.quantity), 0) as ledger_quantity,
+  coalesce(p.stock_quantity, 0) - coalesce(sum(m.quantity), 0) as difference,
+  max(m.created_at) as last_movement_at
+from public.products p
+left join public.stock_movements m on m.product_id = p.id
+group by p.id;
+
+-- Sets a product's on-hand quantity to what was counted, recording the
+-- difference as an adjustment.
+create or replace function public.adjust_stock(p_product_id bigint, p_counted numeric, p_note text default null)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_product public.products;
+  v_movement public.stock_movements;
+begin
+  perform public.require_role('inventory_clerk', 'production_operator', 'manager');
+
+  if p_counted is null then
+    raise exception 'A counted quantity is required';
+  end if;
+
+  select * into v_product
+    from public.products
+   where id = p_product_id
+     for update;
+
+  if not found then
+    raise exception 'Product % not found', p_product_id;
+  end if;
+
+  if p_counted = coalesce(v_product.stock_quantity, 0) then
+    return null;
+  end if;
+
+  insert into public.stock_movements (product_id, quantity, reason, note)
+  values (v_product.id, p_counted - coalesce(v_product.stock_quantity, 0), 'adjustment', nullif(trim(p_note), ''))
+  returning * into v_movement;
+
+  return to_jsonb(v_movement);
+end;
+$$;
+
+revoke execute on function public.adjust_stock(bigint, numeric, text) from public, anon;
+grant execute on function public.adjust_stock(bigint, numeric, text) to authenticated;
+
+-- Records a delivery and the stock it brings in.
+create or replace function public.record_purchase(
+  p_product_id bigint,
+  p_quantity numeric,
+  p_unit_price numeric,
+  p_supplier text default null,
+  p_purchase_date date default current_date,
+  p_notes text default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_purchase public.purchases;
+begin
+  perform public.require_role('inventory_clerk', 'manager');
+
+  if p_quantity is null or p_quantity <= 0 then
+    raise exception 'Purchase quantity must be more than zero';
+  end if;
+  if p_unit_price is null or p_unit_price < 0 then
+    raise exception 'Unit price must be zero or more';
+  end if;
+
+  insert into public.purchases (
+    product_id,
+    quantity,
+    unit_price,
+    total_amount,
+    supplier,
+    purchase_date,
+    notes
+  )
+  values (
+    p_product_id,
+    p_quantity,
+    p_unit_price,
+    round(p_quantity * p_unit_price, 2),
+    p_supplier,
+    coalesce(p_purchase_date, current_date),
+    nullif(trim(p_notes), '')
+  )
+  returning * into v_purchase;
+
+  insert into public.stock_movements (product_id, quantity, reason, reference_id)
+  values (p_product_id, p_quantity, 'purchase', v_purchase.id);
+
+  return to_jsonb(v_purchase);
+end;
+$$;
+
+revoke execute on function public.record_purchase(bigint, numeric, numeric, text, date, text) from public, anon;
+grant execute on function public.record_purchase(bigint, numeric, numeric, text, date, text) to authenticated;
+
+-- Makes a batch of a finished product from its recipe: components go out,
+-- the finished product comes in, all or nothing.
+create or replace function public.complete_production(
+  p_finished_product_id bigint,
+  p_quantity numeric,
+  p_notes text default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_batch public.production_batches;
+  v_recipe record;
+  v_used numeric;
+  v_components integer := 0;
+begin
+  perform public.require_role('production_operator', 'manager');
+
+  if p_quantity is null or p_quantity <= 0 then
+    raise exception 'Production quantity must be more than zero';
+  end if;
+
+  insert into public.production_batches (finished_product_id, quantity_produced, status, notes)
+  values (p_finished_product_id, p_quantity, 'in_progress', nullif(trim(p_notes), ''))
+  returning * into v_batch;
+
+  -- Components are locked in id order so concurrent batches cannot deadlock.
+  for v_recipe in
+    select r.component_id, r.quantity_required, p.product_name, coalesce(p.stock_quantity, 0) as stock_quantity
+      from public.product_recipes r
+      join public.products p on p.id = r.component_id
+     where r.finished_product_id = p_finished_product_id
+     order by r.component_id
+       for update of p
+  loop
+    v_used := v_recipe.quantity_required * p_quantity;
+
+    if v_recipe.stock_quantity < v_used then
+      raise exception 'Not enough stock of %. Required: %, Available: %',
+        v_recipe.product_name, v_used, v_recipe.stock_quantity;
+    end if;
+
+    insert into public.production_batch_components (batch_id, component_id, quantity_used)
+    values (v_batch.id, v_recipe.component_id, v_used);
+
+    insert into public.stock_movements (product_id, quantity, reason, reference_id)
+    values (v_recipe.component_id, -v_used, 'production_out', v_batch.id);
+
+    v_components := v_components + 1;
+  end loop;
+
+  if v_components = 0 then
+    raise exception 'Product % has no recipe', p_finished_product_id;
+  end if;
+
+  insert into public.stock_movements (product_id, quantity, reason, reference_id)
+  values (p_finished_product_id, p_quantity, 'production_in', v_batch.id);
+
+  update public.production_batches
+     set status = 'completed',
+         updated_at = now()
+   where id = v_batch.id
+  returning * into v_batch;
+
+  return to_jsonb(v_batch);
+end;
+$$;
+
+revoke execute on function public.complete_production(bigint, numeric, text) from public, anon;
+grant execute on function public.complete_production(bigint, numeric, text) to authenticated;
+
+-- Sales and returns are recorded as stock movements.
+create or replace function public.create_pos_order(
+  p_items jsonb,
+  p_tenders jsonb,
+  p_discounts jsonb default '[]'::jsonb,
+  p_cash_session_id bigint default null,
+  p_order_number text default null,
+  p_created_at timestamptz default null,
+  p_offline boolean default false,
+  p_customer_id bigint default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order public.orders;
+  v_item jsonb;
+  v_tender jsonb;
+  v_product public.products;
+  v_discount jsonb;
+  v_quantity integer;
+  v_line_discount numeric;
+  v_line_discounts numeric := 0;
+  v_recorded_discounts numeric := 0;
+  v_amount numeric;
+  v_method text;
+  v_total numeric;
+  v_paid numeric := 0;
+  v_non_cash numeric := 0;
+  v_methods text[] := '{}';
+  v_session public.cash_sessions;
+  v_existing_id bigint;
+  v_conflicts jsonb := '[]'::jsonb;
+  v_customer public.customers;
+  v_points_earned integer := 0;
+  v_order_item_id bigint;
+  v_unit_price numeric;
+  v_approval public.manager_approvals;
+begin
+  perform public.require_role('cashier', 'manager');
+  -- A sale replayed from a terminal's outbox may already have reached the
+  -- server on an earlier attempt whose response was lost. The lock makes two
+  -- concurrent replays of the same sale wait for each other.
+  if p_order_number is not null then
+    perform pg_advisory_xact_lock(hashtext(p_order_number));
+
+    select id into v_existing_id
+      from public.orders
+     where order_number = p_order_number;
+
+    if found then
+      return public.pos_order_json(v_existing_id)
+        || jsonb_build_object('stock_conflicts', '[]'::jsonb);
+    end if;
+  end if;
+
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'Cart is empty';
+  end if;
+
+  if p_tenders is null or jsonb_typeof(p_tenders) <> 'array' or jsonb_array_length(p_tenders) = 0 then
+    raise exception 'At least one tender is required';
+  end if;
+
+  -- The share lock keeps the drawer from being closed while a sale into it
+  -- is still being written.
+  select * into v_session
+    from public.cash_sessions
+   where id = p_cash_session_id
+     for share;
+
+  -- An offline sale belongs to the session it was rung up in, even if the
+  -- drawer has been closed by the time the terminal reconnects.
+  if not found or (v_session.status <> 'open' and not p_offline) then
+    raise exception 'Open a cash drawer session before taking payments';
+  end if;
+
+  if p_customer_id is not null then
+    select * into v_customer
+      from public.customers
+     where id = p_customer_id;
+
+    if not found then
+      raise exception 'Customer % not found', p_customer_id;
+    end if;
+  end if;
+
+  -- Lock every product in the basket up front, in id order, so two tills
+  -- checking out overlapping baskets cannot deadlock each other.
+  perform 1
+    from public.products
+   where id in (
+     select (value->>'product_id')::bigint
+       from jsonb_array_elements(p_items)
+   )
+   order by id
+   for update;
+
+  insert into public.orders (
+    order_number,
+    total_amount,
+    payment_method,
+    payment_status,
+    order_status,
+    user_id,
+    cash_session_id,
+    customer_id,
+    billing_address,
+    shipping_address,
+    created_at,
+    synced_at
+  )
+  values (
+    coalesce(p_order_number, 'ORD-' || (extract(epoch from clock_timestamp()) * 1000)::bigint),
+    0,
+    null,
+    'pending',
+    'completed',
+    1,
+    v_session.id,
+    v_customer.id,
+    coalesce(v_customer.billing_address, '{}'::jsonb),
+    coalesce(v_customer.shipping_address, '{}'::jsonb),
+    coalesce(p_created_at, now()),
+    case when p_offline then now() end
+  )
+  returning * into v_order;
+
+  for v_item in select value from jsonb_array_elements(p_items)
+  loop
+    v_quantity := (v_item->>'quantity')::integer;
+    if v_quantity is null or v_quantity <= 0 then
+      raise exception 'Invalid quantity for product %', v_item->>'product_id';
+    end if;
+
+    select * into v_product
+      from public.products
+     where id = (v_item->>'product_id')::bigint;
+
+    if not found then
+      raise exception 'Product % not found', v_item->>'product_id';
+    end if;
+
+    -- An overridden price comes from the manager approval that set it, never
+    -- from the terminal.
+    v_unit_price := v_product.price;
+    if v_item->>'approval_id' is not null then
+      v_approval := public.claim_manager_approval((v_item->>'approval_id')::bigint, 'price_override');
+      if v_approval.product_id is distinct from v_product.id or v_approval.amount is null then
+        raise exception 'Manager approval % was given for a different product', v_approval.id;
+      end if;
+
+      v_unit_price := v_approval.amount;
+      update public.manager_approvals
+         set order_id = v_order.id
+       where id = v_approval.id;
+    end if;
+
+    -- The goods in an offline sale have already left the shop, so a
+    -- shortfall is recorded rather than refused and stock is allowed to go
+    -- negative until it is counted again.
+    if not v_product.is_gift_card and coalesce(v_product.stock_quantity, 0) < v_quantity then
+      if not p_offline then
+        raise exception 'Not enough stock of %. Requested: %, Available: %',
+          v_product.product_name, v_quantity, coalesce(v_product.stock_quantity, 0);
+      end if;
+
+      v_conflicts := v_conflicts || jsonb_build_object(
+        'product_id', v_product.id,
+        'product_name', v_product.product_name,
+        'requested', v_quantity,
+        'available', coalesce(v_product.stock_quantity, 0)
+      );
+    end if;
+
+    v_line_discount := round(coalesce((v_item->>'discount_amount')::numeric, 0), 2);
+    if v_line_discount < 0 or v_line_discount > v_unit_price * v_quantity then
+      raise exception 'Invalid discount for %', v_product.product_name;
+    end if;
+
+    if not v_product.is_gift_card then
+      insert into public.stock_movements (product_id, quantity, reason, reference_id)
+      values (v_product.id, -v_quantity, 'sale', v_order.id);
+    end if;
+
+    insert into public.order_items (
+      order_id,
+      product_id,
+      product_name,
+      sku,
+      quantity,
+      price,
+      discount_amount,
+      total_price
+    )
+    values (
+      v_order.id,
+      v_product.id,
+      v_product.product_name,
+      v_product.sku,
+      v_quantity,
+      v_unit_price,
+      v_line_discount,
+      v_unit_price * v_quantity - v_line_discount
+    )
+    returning id into v_order_item_id;
+
+    -- Each gift card sold is issued with its own code, loaded with the
+    -- product's price.
+    if v_product.is_gift_card then
+      for i in 1..v_quantity loop
+        perform public.issue_gift_card(
+          'gift_card',
+          v_unit_price,
+          v_customer.id,
+          v_order.id,
+          v_order_item_id,
+          null
+        );
+      end loop;
+    end if;
+
+    v_line_discounts := v_line_discounts + v_line_discount;
+  end loop;
+
+  -- The per-line discount amounts already include each line's share of any
+  -- order-level discount, so the recorded discounts must add up to them.
+  for v_discount in select value from jsonb_array_elements(coalesce(p_discounts, '[]'::jsonb))
+  loop
+    v_amount := round((v_discount->>'amount')::numeric, 2);
+    if v_amount is null or v_amount < 0 then
+      raise exception 'Invalid discount amount';
+    end if;
+
+    insert into public.order_discounts (
+      order_id,
+      order_item_id,
+      source,
+      promotion_id,
+      description,
+      discount_type,
+      value,
+      amount,
+      reason,
+      authorised_by
+    )
+    values (
+      v_order.id,
+      (
+        select oi.id
+          from public.order_items oi
+         where oi.order_id = v_order.id
+           and oi.product_id = (v_discount->>'product_id')::bigint
+         limit 1
+      ),
+      v_discount->>'source',
+      (v_discount->>'promotion_id')::bigint,
+      v_discount->>'description',
+      v_discount->>'discount_type',
+      (v_discount->>'value')::numeric,
+      v_amount,
+      v_discount->>'reason',
+      v_discount->>'authorised_by'
+    );
+
+    v_recorded_discounts := v_recorded_discounts + v_amount;
+  end loop;
+
+  if abs(v_recorded_discounts - v_line_discounts) > 0.01 then
+    raise exception 'Discount breakdown (%) does not match line discounts (%)',
+      v_recorded_discounts, v_line_discounts;
+  end if;
+
+  update public.orders
+     set discount_total = v_line_discounts
+   where id = v_order.id;
+
+  perform public.apply_order_tax(v_order.id);
+
+  select total_amount into v_total
+    from public.orders
+   where id = v_order.id;
+
+  for v_tender in select value from jsonb_array_elements(p_tenders)
+  loop
+    v_method := v_tender->>'method';
+    v_amount := round((v_tender->>'amount')::numeric, 2);
+
+    if v_method is null or v_method not in ('cash', 'card', 'points', 'gift_card', 'store_credit') then
+      raise exception 'Unsupported tender method %', coalesce(v_method, 'null');
+    end if;
+
+    if v_amount is null or v_amount <= 0 then
+      raise exception 'Tender amounts must be positive';
+    end if;
+
+    insert into public.payments (
+      order_id,
+      amount,
+      currency,
+      paymentgateway,
+      paymentstatus
+    )
+    values (
+      v_order.id,
+      v_amount,
+      'USD',
+      v_method,
+      'completed'
+    );
+
+    if v_method = 'points' then
+      perform public.redeem_loyalty_points(v_order.id, v_customer.id, v_amount);
+    elsif v_method in ('gift_card', 'store_credit') then
+      perform public.redeem_gift_card(v_tender->>'code', v_method, v_order.id, v_amount);
+    end if;
+
+    v_paid := v_paid + v_amount;
+    if v_method <> 'cash' then
+      v_non_cash := v_non_cash + v_amount;
+    end if;
+    if not v_method = any (v_methods) then
+      v_methods := v_methods || v_method;
+    end if;
+  end loop;
+
+  -- Change can only be given out of cash.
+  if v_non_cash > v_total then
+    raise exception 'Non-cash tenders (%) exceed the order total (%)', v_non_cash, v_total;
+  end if;
+
+  update public.orders
+     set payment_method = case
+           when array_length(v_methods, 1) = 1 then v_methods[1]
+           else 'split'
+         end,
+         payment_status = case
+           when v_paid >= v_total then 'completed'
+           else 'partial'
+         end,
+         change_given = greatest(v_paid - v_total, 0)
+   where id = v_order.id
+  returning * into v_order;
+
+  v_points_earned := public.award_order_points(v_order.id);
+
+  return public.pos_order_json(v_order.id)
+    || jsonb_build_object('stock_conflicts', v_conflicts, 'points_earned', v_points_earned);
+end;
+$$;
+
+create or replace function public.create_refund(
+  p_order_id bigint,
+  p_items jsonb,
+  p_refund_method text,
+  p_reason text default null,
+  p_cash_session_id bigint default null,
+  p_approval_id bigint default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order public.orders;
+  v_refund public.refunds;
+  v_item jsonb;
+  v_order_item public.order_items;
+  v_quantity integer;
+  v_line_total numeric;
+  v_amount numeric;
+  v_total numeric := 0;
+  v_restock boolean;
+  v_previously_refunded numeric;
+  v_last_refund_item_id bigint;
+  v_session public.cash_sessions;
+  v_card public.gift_cards;
+  v_voided integer;
+  v_store_credit public.gift_cards;
+  v_threshold numeric;
+  v_approval public.manager_approvals;
+begin
+  perform public.require_role('cashier', 'manager');
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'Select at least one item to refund';
+  end if;
+
+  if p_refund_method is null or p_refund_method not in ('cash', 'card', 'store_credit') then
+    raise exception 'Unsupported refund method %', coalesce(p_refund_method, 'null');
+  end if;
+
+  if p_cash_session_id is not null then
+    select * into v_session
+      from public.cash_sessions
+     where id = p_cash_session_id
+       for share;
+
+    if not found or v_session.status <> 'open' then
+      raise exception 'Cash drawer session % is not open', p_cash_session_id;
+    end if;
+  elsif p_refund_method = 'cash' then
+    raise exception 'Open a cash drawer session before giving cash refunds';
+  end if;
+
+  select * into v_order
+    from public.orders
+   where id = p_order_id
+     for update;
+
+  if not found then
+    raise exception 'Order % not found', p_order_id;
+  end if;
+
+  if v_order.order_status = 'refunded' then
+    raise exception 'Order % has already been fully refunded', v_order.order_number;
+  end if;
+
+  if v_order.order_status not in ('completed', 'partially_refunded') then
+    raise exception 'Only completed orders can be refunded';
+  end if;
+
+  select coalesce(sum(amount), 0) into v_previously_refunded
+    from public.refunds
+   where order_id = v_order.id;
+
+  insert into public.refunds (refund_number, order_id, amount, refund_method, reason, cash_session_id)
+  values (
+    'RFD-' || (extract(epoch from clock_timestamp()) * 1000)::bigint,
+    v_order.id,
+    0,
+    p_refund_method,
+    p_reason,
+    v_session.id
+  )
+  returning * into v_refund;
+
+  for v_item in select value from jsonb_array_elements(p_items)
+  loop
+    v_quantity := (v_item->>'quantity')::integer;
+    v_restock := coalesce((v_item->>'restock')::boolean, true);
+
+    select * into v_order_item
+      from public.order_items
+     where id = (v_item->>'order_item_id')::bigint
+       and order_id = v_order.id
+       for update;
+
+    if not found then
+      raise exception 'Item % does not belong to order %', v_item->>'order_item_id', v_order.order_number;
+    end if;
+
+    if v_quantity is null or v_quantity <= 0
+       or v_quantity > v_order_item.quantity - v_order_item.refunded_quantity then
+      raise exception 'Cannot refund % of %: only % left to refund',
+        coalesce(v_quantity, 0), v_order_item.product_name,
+        v_order_item.quantity - v_order_item.refunded_quantity;
+    end if;
+
+    -- What the customer actually paid for the line: its discounted total plus
+    -- any tax added on top of it.
+    v_line_total := coalesce(v_order_item.total_price, v_order_item.price * v_order_item.quantity)
+      + case when v_order.prices_include_tax then 0 else v_order_item.tax_amount end;
+
+    -- Returning the last units of a line refunds whatever is left of it, so
+    -- rounding never leaves a cent behind.
+    if v_quantity = v_order_item.quantity - v_order_item.refunded_quantity then
+      v_amount := v_line_total - v_order_item.refunded_amount;
+    else
+      v_amount := round(v_line_total * v_quantity / v_order_item.quantity, 2);
+    end if;
+
+    -- Gift cards sold on the line are taken back by voiding them, which is
+    -- only possible while they are unspent. They never go back on the shelf.
+    if exists (select 1 from public.gift_cards where issued_order_item_id = v_order_item.id) then
+      v_restock := false;
+      v_voided := 0;
+
+      for v_card in
+        select *
+          from public.gift_cards
+         where issued_order_item_id = v_order_item.id
+           and status = 'active'
+           and balance = initial_amount
+         order by id
+         limit v_quantity
+           for update
+      loop
+        insert into public.gift_card_transactions (gift_card_id, transaction_type, amount, refund_id, note)
+        values (v_card.id, 'void', -v_card.balance, v_refund.id, 'Refunded');
+
+        update public.gift_cards
+           set status = 'void',
+               updated_at = now()
+         where id = v_card.id;
+
+        v_voided := v_voided + 1;
+      end loop;
+
+      if v_voided < v_quantity then
+        raise exception 'Only % of the gift cards sold on this order are unspent and can be refunded', v_voided;
+      end if;
+    end if;
+
+    update public.order_items
+       set refunded_quantity = refunded_quantity + v_quantity,
+           refunded_amount = refunded_amount + v_amount
+     where id = v_order_item.id;
+
+    if v_restock then
+      insert into public.stock_movements (product_id, quantity, reason, reference_id)
+      values (v_order_item.product_id, v_quantity, 'return', v_refund.id);
+    end if;
+
+    insert into public.refund_items (refund_id, order_item_id, quantity, amount, restocked)
+    values (v_refund.id, v_order_item.id, v_quantity, v_amount, v_restock)
+    returning id into v_last_refund_item_id;
+
+    v_total := v_total + v_amount;
+  end loop;
+
+  -- Line taxes are rounded individually, so once every unit is back the final
+  -- refund settles the order to exactly what was paid.
+  if not exists (
+    select 1
+      from public.order_items
+     where order_id = v_order.id
+       and refunded_quantity < quantity
+  ) and v_previously_refunded + v_total <> v_order.total_amount then
+    update public.refund_items
+       set amount = amount + (v_order.total_amount - v_previously_refunded - v_total)
+     where id = v_last_refund_item_id;
+    update public.order_items
+       set refunded_amount = refunded_amount + (v_order.total_amount - v_previously_refunded - v_total)
+     where id = (select order_item_id from public.refund_items where id = v_last_refund_item_id);
+    v_total := v_order.total_amount - v_previously_refunded;
+  end if;
+
+  -- Refunds above the store's threshold need a manager's approval for this
+  -- order.
+  select refund_approval_threshold into v_threshold
+    from public.store_settings
+   where id = 1;
+
+  if v_threshold is not null and v_total > v_threshold then
+    if p_approval_id is null then
+      raise exception 'Refunds over % need a manager''s approval', v_threshold;
+    end if;
+
+    v_approval := public.claim_manager_approval(p_approval_id, 'refund');
+    if v_approval.order_id is distinct from v_order.id then
+      raise exception 'Manager approval % was given for a different order', p_approval_id;
+    end if;
+
+    update public.manager_approvals
+       set refund_id = v_refund.id
+     where id = v_approval.id;
+  end if;
+
+  update public.refunds
+     set amount = v_total
+   where id = v_refund.id
+  returning * into v_refund;
+
+  insert into public.payments (
+    order_id,
+    refund_id,
+    amount,
+    currency,
+    paymentgateway,
+    paymentstatus
+  )
+  values (
+    v_order.id,
+    v_refund.id,
+    -v_total,
+    'USD',
+    p_refund_method,
+    'refunded'
+  );
+
+  if p_refund_method = 'store_credit' then
+    v_store_credit := public.issue_gift_card(
+      'store_credit',
+      v_total,
+      v_order.customer_id,
+      null,
+      null,
+      v_refund.id
+    );
+  end if;
+
+  update public.orders
+     set order_status = case
+           when exists (
+             select 1
+               from public.order_items
+              where order_id = v_order.id
+                and refunded_quantity < quantity
+           ) then 'partially_refunded'
+           else 'refunded'
+         end,
+         updated_at = now()
+   where id = v_order.id;
+
+  return to_jsonb(v_refund) || jsonb_build_object(
+    'items',
+    (
+      select coalesce(jsonb_agg(to_jsonb(ri) order by ri.id), '[]'::jsonb)
+        from public.refund_items ri
+       where ri.refund_id = v_refund.id
+    ),
+    'store_credit',
+    case when v_store_credit.id is not null then to_jsonb(v_store_credit) end
+  );
+end;
+$$;
+
+-- Recipes and production batches belong to the finished product in a
+-- product's change history.
+create or replace function public.audit_row_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_old jsonb;
+  v_new jsonb;
+  v_row jsonb;
+  v_changed text[];
+  v_row_id text;
+  v_product_id bigint;
+  v_source text;
+  v_key text;
+  i integer;
+begin
+  if tg_op <> 'INSERT' then
+    v_old := to_jsonb(old);
+  end if;
+  if tg_op <> 'DELETE' then
+    v_new := to_jsonb(new);
+  end if;
+  v_row := coalesce(v_new, v_old);
+
+  if tg_op = 'UPDATE' then
+    select array_agg(n.key order by n.key)
+      into v_changed
+      from jsonb_each(v_new) n
+     where n.value is distinct from v_old -> n.key;
+
+    -- Saving a form without changing anything is not a change.
+    if v_changed is null then
+      return new;
+    end if;
+  elsif tg_op = 'INSERT' then
+    select array_agg(k order by k) into v_changed from jsonb_object_keys(v_new) k;
+  else
+    select array_agg(k order by k) into v_changed from jsonb_object_keys(v_old) k;
+  end if;
+
+  if tg_nargs = 0 then
+    v_row_id := v_row ->> 'id';
+  else
+    for i in 0 .. tg_nargs - 1 loop
+      v_key := v_row ->> tg_argv[i];
+      v_row_id := case when i = 0 then v_key else v_row_id || '/' || v_key end;
+    end loop;
+  end if;
+
+  if tg_table_name = 'products' then
+    v_product_id := (v_row ->> 'id')::bigint;
+  else
+    v_product_id := coalesce(v_row ->> 'product_id', v_row ->> 'finished_product_id', v_row ->> 'component_id')::bigint;
+  end if;
+
+  -- request.headers is only set for calls through the API; changes made by
+  -- maintenance scripts and scheduled jobs have no source.
+  begin
+    v_source := nullif(current_setting('request.headers', true), '')::jsonb ->> 'x-app-source';
+  exception when others then
+    v_source := null;
+  end;
+
+  insert into public.audit_log (
+    actor_id, actor_name, table_name, row_id, action,
+    old_values, new_values, changed_columns, source, product_id
+  )
+  values (
+    auth.uid(), public.staff_display_name(auth.uid()), tg_table_name, coalesce(v_row_id, ''), lower(tg_op),
+    v_old, v_new, v_changed, v_source, v_product_id
+  );
+
+  return coalesce(new, old);
+end;
+$$;
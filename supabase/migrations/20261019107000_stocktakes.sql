@@ -0,0 +1,219 @@
+-- Stocktakes.
+--
+-- A stocktake snapshots the expected on-hand quantity of every product in
+-- a category, or of every product, when it starts. Staff then enter what
+-- they counted on the shelf. Approving the stocktake posts the difference
+-- between the count and the snapshot as adjustment movements in one
+-- transaction.
+
+create table if not exists public.stocktakes (
+  id bigint generated always as identity primary key,
+  -- Null counts every product.
+  category text,
+  status text not null default 'counting' check (status in ('counting', 'approved', 'cancelled')),
+  notes text,
+  created_by uuid default auth.uid() references auth.users (id) on delete set null,
+  created_by_name text,
+  created_at timestamptz not null default now(),
+  approved_by uuid references auth.users (id) on delete set null,
+  approved_by_name text,
+  approved_at timestamptz
+);
+
+create table if not exists public.stocktake_lines (
+  id bigint generated always as identity primary key,
+  stocktake_id bigint not null references public.stocktakes (id) on delete cascade,
+  product_id bigint not null references public.products (id) on delete cascade,
+  expected_quantity numeric not null,
+  -- Null until the product has been counted; uncounted lines are not posted.
+  counted_quantity numeric check (counted_quantity >= 0),
+  -- The product's price when the stocktake started, to value the variance.
+  unit_value numeric not null default 0,
+  counted_by_name text,
+  counted_at timestamptz,
+  unique (stocktake_id, product_id)
+);
+
+create index if not exists stocktake_lines_stocktake_id_idx on public.stocktake_lines (stocktake_id);
+
+alter table public.stocktakes enable row level security;
+alter table public.stocktake_lines enable row level security;
+
+drop policy if exists staff_read on public.stocktakes;
+create policy staff_read on public.stocktakes
+  for select to authenticated
+  using ((select public.has_role('inventory_clerk', 'manager')));
+
+drop policy if exists staff_read on public.stocktake_lines;
+create policy staff_read on public.stocktake_lines
+  for select to authenticated
+  using ((select public.has_role('inventory_clerk', 'manager')));
+
+-- Counts are entered directly, but only while the stocktake is open.
+drop policy if exists staff_count on public.stocktake_lines;
+create policy staff_count on public.stocktake_lines
+  for update to authenticated
+  using (
+    (select public.has_role('inventory_clerk', 'manager'))
+    and exists (
+      select 1 from public.stocktakes s
+       where s.id = stocktake_id
+         and s.status = 'counting'
+    )
+  )
+  with check ((select public.has_role('inventory_clerk', 'manager')));
+
+-- Only the count itself may change; the snapshot is fixed.
+create or replace function public.stocktake_lines_record_count()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.stocktake_id <> old.stocktake_id
+     or new.product_id <> old.product_id
+     or new.expected_quantity <> old.expected_quantity
+     or new.unit_value <> old.unit_value then
+    raise exception 'Only the counted quantity of a stocktake line can be changed';
+  end if;
+
+  if new.counted_quantity is distinct from old.counted_quantity then
+    new.counted_by_name := public.staff_display_name(auth.uid());
+    new.counted_at := now();
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists stocktake_lines_record_count on public.stocktake_lines;
+create trigger stocktake_lines_record_count
+  before update on public.stocktake_lines
+  for each row execute function public.stocktake_lines_record_count();
+
+-- Starts a stocktake of one category, or of every product when p_category
+-- is null. Gift cards carry no stock and are left out.
+create or replace function public.start_stocktake(p_category text default null, p_notes text default null)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_stocktake public.stocktakes;
+  v_lines integer;
+begin
+  perform public.require_role('inventory_clerk', 'manager');
+
+  insert into public.stocktakes (category, notes, created_by_name)
+  values (nullif(trim(p_category), ''), nullif(trim(p_notes), ''), public.staff_display_name(auth.uid()))
+  returning * into v_stocktake;
+
+  insert into public.stocktake_lines (stocktake_id, product_id, expected_quantity, unit_value)
+  select v_stocktake.id, p.id, coalesce(p.stock_quantity, 0), p.price
+    from public.products p
+   where not p.is_gift_card
+     and (v_stocktake.category is null or p.category = v_stocktake.category);
+
+  get diagnostics v_lines = row_count;
+  if v_lines = 0 then
+    raise exception 'There are no products to count in %', coalesce(v_stocktake.category, 'the catalogue');
+  end if;
+
+  return to_jsonb(v_stocktake);
+end;
+$$;
+
+revoke execute on function public.start_stocktake(text, text) from public, anon;
+grant execute on function public.start_stocktake(text, text) to authenticated;
+
+-- Posts every counted line's variance as an adjustment movement referencing
+-- the stocktake, and closes it. Returns the number of movements posted.
+create or replace function public.approve_stocktake(p_stocktake_id bigint)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_stocktake public.stocktakes;
+  v_line record;
+  v_count integer := 0;
+begin
+  perform public.require_role('manager');
+
+  select * into v_stocktake
+    from public.stocktakes
+   where id = p_stocktake_id
+     for update;
+
+  if not found then
+    raise exception 'Stocktake % not found', p_stocktake_id;
+  end if;
+  if v_stocktake.status <> 'counting' then
+    raise exception 'Stocktake % is already %', p_stocktake_id, v_stocktake.status;
+  end if;
+
+  for v_line in
+    select l.product_id, l.counted_quantity - l.expected_quantity as variance
+      from public.stocktake_lines l
+     where l.stocktake_id = p_stocktake_id
+       and l.counted_quantity is not null
+       and l.counted_quantity <> l.expected_quantity
+     order by l.product_id
+  loop
+    insert into public.stock_movements (product_id, quantity, reason, reference_id, note)
+    values (v_line.product_id, v_line.variance, 'adjustment', p_stocktake_id, 'Stocktake #' || p_stocktake_id);
+
+    v_count := v_count + 1;
+  end loop;
+
+  update public.stocktakes
+     set status = 'approved',
+         approved_by = auth.uid(),
+         approved_by_name = public.staff_display_name(auth.uid()),
+         approved_at = now()
+   where id = p_stocktake_id;
+
+  return v_count;
+end;
+$$;
+
+revoke execute on function public.approve_stocktake(bigint) from public, anon;
+grant execute on function public.approve_stocktake(bigint) to authenticated;
+
+create or replace function public.cancel_stocktake(p_stocktake_id bigint)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.require_role('inventory_clerk', 'manager');
+
+  update public.stocktakes
+     set status = 'cancelled'
+   where id = p_stocktake_id
+     and status = 'counting';
+
+  if not found then
+    raise exception 'Stocktake % is not open', p_stocktake_id;
+  end if;
+end;
+$$;
+
+revoke execute on function public.cancel_stocktake(bigint) from public, anon;
+grant execute on function public.cancel_stocktake(bigint) to authenticated;
+
+drop trigger if exists audit_row_change on public.stocktakes;
+create trigger audit_row_change
+  after insert or update or delete on public.stocktakes
+  for each row execute function public.audit_row_change('id');
+
+-- Lines are audited from the first count on; their snapshot is the
+-- stocktake's own record.
+drop trigger if exists audit_row_change on public.stocktake_lines;
+create trigger audit_row_change
+  after update or delete on public.stocktake_lines
+  for each row execute function public.audit_row_change('id');
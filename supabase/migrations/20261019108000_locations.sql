@@ -0,0 +1,1404 @@
+-- Locations and stock transfers.
+--
+-- Stock is now held per location: the shops, the warehouse and the
+-- production floor. stock_levels has one row per product and location, and
+-- every stock movement happens at a location. products.stock_quantity stays
+-- as the total across all locations. The POS sells from the terminal's
+-- location, purchases are received into a chosen location, production runs
+-- at a production location, and stocktakes count one location. Transfers
+-- move stock between locations: dispatching takes it out of the source and
+-- receiving puts it into the destination. In between it is in transit and
+-- belongs to no location.
+
+create table if not exists public.locations (
+  id bigint generated always as identity primary key,
+  name text not null unique,
+  kind text not null default 'store' check (kind in ('store', 'warehouse', 'production')),
+  -- Where stock goes when no location is given: opening stock, sales from a
+  -- terminal that has not picked a location, and everything recorded before
+  -- locations existed.
+  is_default boolean not null default false,
+  is_active boolean not null default true,
+  created_at timestamptz not null default now(),
+  check (is_active or not is_default)
+);
+
+create unique index if not exists locations_one_default_idx on public.locations (is_default) where is_default;
+
+insert into public.locations (name, kind, is_default)
+select 'Main Store', 'store', true
+ where not exists (select 1 from public.locations where is_default);
+
+create or replace function public.default_location_id()
+returns bigint
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select id from public.locations where is_default;
+$$;
+
+grant execute on function public.default_location_id() to authenticated;
+
+-- Production uses the first production location, or the default location
+-- when there is none.
+create or replace function public.production_location_id()
+returns bigint
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(
+    (select id from public.locations where kind = 'production' and is_active order by id limit 1),
+    public.default_location_id()
+  );
+$$;
+
+grant execute on function public.production_location_id() to authenticated;
+
+alter table public.locations enable row level security;
+
+drop policy if exists staff_read on public.locations;
+create policy staff_read on public.locations
+  for select to authenticated
+  using ((select public.has_role('cashier', 'inventory_clerk', 'production_operator', 'manager')));
+
+drop policy if exists staff_write on public.locations;
+create policy staff_write on public.locations
+  for all to authenticated
+  using ((select public.has_role('manager')))
+  with check ((select public.has_role('manager')));
+
+-- Moves the default to another location in one transaction, so there is
+-- never a moment without a default.
+create or replace function public.set_default_location(p_location_id bigint)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.require_role('manager');
+
+  if not exists (select 1 from public.locations where id = p_location_id and is_active) then
+    raise exception 'Location % is not active', p_location_id;
+  end if;
+
+  update public.locations
+     set is_default = false
+   where is_default
+     and id <> p_location_id;
+
+  update public.locations
+     set is_default = true
+   where id = p_location_id;
+end;
+$$;
+
+revoke execute on function public.set_default_location(bigint) from public, anon;
+grant execute on function public.set_default_location(bigint) to authenticated;
+
+create table if not exists public.stock_levels (
+  product_id bigint not null references public.products (id) on delete cascade,
+  location_id bigint not null references public.locations (id),
+  quantity numeric not null default 0,
+  updated_at timestamptz not null default now(),
+  primary key (product_id, location_id)
+);
+
+create index if not exists stock_levels_location_id_idx on public.stock_levels (location_id);
+
+alter table public.stock_levels enable row level security;
+
+drop policy if exists staff_read on public.stock_levels;
+create policy staff_read on public.stock_levels
+  for select to authenticated
+  using ((select public.has_role('cashier', 'inventory_clerk', 'production_operator', 'manager')));
+
+-- Movements recorded so far all happened at the default location.
+alter table public.stock_movements
+  add column if not exists location_id bigint not null default public.default_location_id() references public.locations (id);
+
+create index if not exists stock_movements_location_id_idx on public.stock_movements (location_id, product_id, id);
+
+-- quantity_after is now the product's quantity at the movement's location.
+insert into public.stock_levels (product_id, location_id, quantity)
+select m.product_id, m.location_id, sum(m.quantity)
+  from public.stock_movements m
+ group by m.product_id, m.location_id
+on conflict (product_id, location_id) do nothing;
+
+alter table public.orders
+  add column if not exists location_id bigint references public.locations (id);
+
+-- Applies a movement at its location: the location's new quantity is its
+-- previous ledger total plus the movement, and the product's stock_quantity
+-- is the total over all locations.
+create or replace function public.stock_movements_apply()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_product public.products;
+begin
+  select * into v_product
+    from public.products
+   where id = new.product_id
+     for update;
+
+  if not found then
+    raise exception 'Product % not found', new.product_id;
+  end if;
+
+  new.location_id := coalesce(new.location_id, public.default_location_id());
+  new.quantity_after := coalesce((
+    select m.quantity_after
+      from public.stock_movements m
+     where m.product_id = new.product_id
+       and m.location_id = new.location_id
+     order by m.id desc
+     limit 1
+  ), 0) + new.quantity;
+  new.created_by_name := coalesce(new.created_by_name, public.staff_display_name(new.created_by));
+
+  insert into public.stock_levels (product_id, location_id, quantity, updated_at)
+  values (new.product_id, new.location_id, new.quantity_after, now())
+  on conflict (product_id, location_id) do update
+    set quantity = excluded.quantity,
+        updated_at = excluded.updated_at;
+
+  perform set_config('app.stock_movement', 'on', true);
+  update public.products
+     set stock_quantity = (
+           select sum(l.quantity)
+             from public.stock_levels l
+            where l.product_id = new.product_id
+         ),
+         updated_at = now()
+   where id = new.product_id;
+  perform set_config('app.stock_movement', 'off', true);
+
+  return new;
+end;
+$$;
+
+-- A product's quantity at a location, for checks before stock goes out.
+create or replace function public.location_stock(p_product_id bigint, p_location_id bigint)
+returns numeric
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(
+    (select quantity from public.stock_levels where product_id = p_product_id and location_id = p_location_id),
+    0
+  );
+$$;
+
+revoke execute on function public.location_stock(bigint, bigint) from public, anon, authenticated;
+
+-- Resolves a location passed to an RPC, refusing unknown and inactive ones.
+create or replace function public.active_location(p_location_id bigint)
+returns public.locations
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_location public.locations;
+begin
+  select * into v_location
+    from public.locations
+   where id = coalesce(p_location_id, public.default_location_id());
+
+  if not found then
+    raise exception 'Location % not found', p_location_id;
+  end if;
+  if not v_location.is_active then
+    raise exception '% is no longer in use', v_location.name;
+  end if;
+
+  return v_location;
+end;
+$$;
+
+revoke execute on function public.active_location(bigint) from public, anon, authenticated;
+
+-- Stock transfers between locations.
+create table if not exists public.stock_transfers (
+  id bigint generated always as identity primary key,
+  from_location_id bigint not null references public.locations (id),
+  to_location_id bigint not null references public.locations (id),
+  status text not null default 'dispatched' check (status in ('dispatched', 'received', 'cancelled')),
+  notes text,
+  dispatched_by uuid default auth.uid() references auth.users (id) on delete set null,
+  dispatched_by_name text,
+  dispatched_at timestamptz not null default now(),
+  received_by uuid references auth.users (id) on delete set null,
+  received_by_name text,
+  received_at timestamptz,
+  check (from_location_id <> to_location_id)
+);
+
+create table if not exists public.stock_transfer_lines (
+  id bigint generated always as identity primary key,
+  transfer_id bigint not null references public.stock_transfers (id) on delete cascade,
+  product_id bigint not null references public.products (id),
+  quantity numeric not null check (quantity > 0)
+);
+
+create index if not exists stock_transfer_lines_transfer_id_idx on public.stock_transfer_lines (transfer_id);
+
+alter table public.stock_transfers enable row level security;
+alter table public.stock_transfer_lines enable row level security;
+
+drop policy if exists staff_read on public.stock_transfers;
+create policy staff_read on public.stock_transfers
+  for select to authenticated
+  using ((select public.has_role('inventory_clerk', 'manager')));
+
+drop policy if exists staff_read on public.stock_transfer_lines;
+create policy staff_read on public.stock_transfer_lines
+  for select to authenticated
+  using ((select public.has_role('inventory_clerk', 'manager')));
+
+-- Sends stock from one location to another. p_items is an array of
+-- { product_id, quantity }.
+create or replace function public.dispatch_transfer(
+  p_from_location_id bigint,
+  p_to_location_id bigint,
+  p_items jsonb,
+  p_notes text default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_from public.locations;
+  v_to public.locations;
+  v_transfer public.stock_transfers;
+  v_item jsonb;
+  v_product public.products;
+  v_quantity numeric;
+  v_available numeric;
+begin
+  perform public.require_role('inventory_clerk', 'manager');
+
+  v_from := public.active_location(p_from_location_id);
+  v_to := public.active_location(p_to_location_id);
+  if v_from.id = v_to.id then
+    raise exception 'A transfer needs two different locations';
+  end if;
+
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'A transfer needs at least one product';
+  end if;
+
+  insert into public.stock_transfers (from_location_id, to_location_id, notes, dispatched_by_name)
+  values (v_from.id, v_to.id, nullif(trim(p_notes), ''), public.staff_display_name(auth.uid()))
+  returning * into v_transfer;
+
+  -- Locked in id order so concurrent transfers cannot deadlock.
+  perform 1
+    from public.products
+   where id in (select (value->>'product_id')::bigint from jsonb_array_elements(p_items))
+   order by id
+   for update;
+
+  for v_item in select value from jsonb_array_elements(p_items)
+  loop
+    v_quantity := (v_item->>'quantity')::numeric;
+    if v_quantity is null or v_quantity <= 0 then
+      raise exception 'Invalid quantity for product %', v_item->>'product_id';
+    end if;
+
+    select * into v_product
+      from public.products
+     where id = (v_item->>'product_id')::bigint;
+
+    if not found then
+      raise exception 'Product % not found', v_item->>'product_id';
+    end if;
+
+    v_available := public.location_stock(v_product.id, v_from.id);
+    if v_available < v_quantity then
+      raise exception 'Not enough stock of % at %. Requested: %, Available: %',
+        v_product.product_name, v_from.name, v_quantity, v_available;
+    end if;
+
+    insert into public.stock_transfer_lines (transfer_id, product_id, quantity)
+    values (v_transfer.id, v_product.id, v_quantity);
+
+    insert into public.stock_movements (product_id, location_id, quantity, reason, reference_id, note)
+    values (v_product.id, v_from.id, -v_quantity, 'transfer', v_transfer.id, 'To ' || v_to.name);
+  end loop;
+
+  return to_jsonb(v_transfer);
+end;
+$$;
+
+revoke execute on function public.dispatch_transfer(bigint, bigint, jsonb, text) from public, anon;
+grant execute on function public.dispatch_transfer(bigint, bigint, jsonb, text) to authenticated;
+
+-- Books a dispatched transfer into its destination.
+create or replace function public.receive_transfer(p_transfer_id bigint)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_transfer public.stock_transfers;
+  v_from public.locations;
+  v_line public.stock_transfer_lines;
+begin
+  perform public.require_role('inventory_clerk', 'manager');
+
+  select * into v_transfer
+    from public.stock_transfers
+   where id = p_transfer_id
+     for update;
+
+  if not found then
+    raise exception 'Transfer % not found', p_transfer_id;
+  end if;
+  if v_transfer.status <> 'dispatched' then
+    raise exception 'Transfer % is already %', p_transfer_id, v_transfer.status;
+  end if;
+
+  select * into v_from from public.locations where id = v_transfer.from_location_id;
+
+  for v_line in
+    select * from public.stock_transfer_lines where transfer_id = p_transfer_id order by product_id
+  loop
+    insert into public.stock_movements (product_id, location_id, quantity, reason, reference_id, note)
+    values (v_line.product_id, v_transfer.to_location_id, v_line.quantity, 'transfer', p_transfer_id, 'From ' || v_from.name);
+  end loop;
+
+  update public.stock_transfers
+     set status = 'received',
+         received_by = auth.uid(),
+         received_by_name = public.staff_display_name(auth.uid()),
+         received_at = now()
+   where id = p_transfer_id
+  returning * into v_transfer;
+
+  return to_jsonb(v_transfer);
+end;
+$$;
+
+revoke execute on function public.receive_transfer(bigint) from public, anon;
+grant execute on function public.receive_transfer(bigint) to authenticated;
+
+-- Calls back a transfer that has not been received: the stock returns to
+-- where it was sent from.
+create or replace function public.cancel_transfer(p_transfer_id bigint)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_transfer public.stock_transfers;
+  v_line public.stock_transfer_lines;
+begin
+  perform public.require_role('inventory_clerk', 'manager');
+
+  select * into v_transfer
+    from public.stock_transfers
+   where id = p_transfer_id
+     for update;
+
+  if not found then
+    raise exception 'Transfer % not found', p_transfer_id;
+  end if;
+  if v_transfer.status <> 'dispatched' then
+    raise exception 'Transfer % is already %', p_transfer_id, v_transfer.status;
+  end if;
+
+  for v_line in
+    select * from public.stock_transfer_lines where transfer_id = p_transfer_id order by product_id
+  loop
+    insert into public.stock_movements (product_id, location_id, quantity, reason, reference_id, note)
+    values (v_line.product_id, v_transfer.from_location_id, v_line.quantity, 'transfer', p_transfer_id, 'Transfer cancelled');
+  end loop;
+
+  update public.stock_transfers
+     set status = 'cancelled'
+   where id = p_transfer_id;
+end;
+$$;
+
+revoke execute on function public.cancel_transfer(bigint) from public, anon;
+grant execute on function public.cancel_transfer(bigint) to authenticated;
+
+do $$
+declare
+  t text;
+begin
+  foreach t in array array['locations', 'stock_transfers', 'stock_transfer_lines']
+  loop
+    execute format('drop trigger if exists audit_row_change on public.%I', t);
+    execute format(
+      'create trigger audit_row_change after insert or update or delete on public.%I for each row execute function public.audit_row_change(''id'')',
+      t
+    );
+  end loop;
+end;
+$$;
+
+-- Stocktakes count one location.
+alter table public.stocktakes
+  add column if not exists location_id bigint not null default public.default_location_id() references public.locations (id);
+
+drop function if exists public.start_stocktake(text, text);
+
+-- Starts a stocktake of one category, or of every product when p_category
+-- is null, at one location. Gift cards carry no stock and are left out.
+create or replace function public.start_stocktake(
+  p_category text default null,
+  p_notes text default null,
+  p_location_id bigint default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_stocktake public.stocktakes;
+  v_location public.locations;
+  v_lines integer;
+begin
+  perform public.require_role('inventory_clerk', 'manager');
+
+  v_location := public.active_location(p_location_id);
+
+  insert into public.stocktakes (category, location_id, notes, created_by_name)
+  values (nullif(trim(p_category), ''), v_location.id, nullif(trim(p_notes), ''), public.staff_display_name(auth.uid()))
+  returning * into v_stocktake;
+
+  insert into public.stocktake_lines (stocktake_id, product_id, expected_quantity, unit_value)
+  select v_stocktake.id, p.id, coalesce(l.quantity, 0), p.price
+    from public.products p
+    left join public.stock_levels l on l.product_id = p.id and l.location_id = v_location.id
+   where not p.is_gift_card
+     and (v_stocktake.category is null or p.category = v_stocktake.category);
+
+  get diagnostics v_lines = row_count;
+  if v_lines = 0 then
+    raise exception 'There are no products to count in %', coalesce(v_stocktake.category, 'the catalogue');
+  end if;
+
+  return to_jsonb(v_stocktake);
+end;
+$$;
+
+revoke execute on function public.start_stocktake(text, text, bigint) from public, anon;
+grant execute on function public.start_stocktake(text, text, bigint) to authenticated;
+
+-- Variances are posted at the location that was counted.
+create or replace function public.approve_stocktake(p_stocktake_id bigint)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_stocktake public.stocktakes;
+  v_line record;
+  v_count integer := 0;
+begin
+  perform public.require_role('manager');
+
+  select * into v_stocktake
+    from public.stocktakes
+   where id = p_stocktake_id
+     for update;
+
+  if not found then
+    raise exception 'Stocktake % not found', p_stocktake_id;
+  end if;
+  if v_stocktake.status <> 'counting' then
+    raise exception 'Stocktake % is already %', p_stocktake_id, v_stocktake.status;
+  end if;
+
+  for v_line in
+    select l.product_id, l.counted_quantity - l.expected_quantity as variance
+      from public.stocktake_lines l
+     where l.stocktake_id = p_stocktake_id
+       and l.counted_quantity is not null
+       and l.counted_quantity <> l.expected_quantity
+     order by l.product_id
+  loop
+    insert into public.stock_movements (product_id, location_id, quantity, reason, reference_id, note)
+    values (v_line.product_id, v_stocktake.location_id, v_line.variance, 'adjustment', p_stocktake_id, 'Stocktake #' || p_stocktake_id);
+
+    v_count := v_count + 1;
+  end loop;
+
+  update public.stocktakes
+     set status = 'approved',
+         approved_by = auth.uid(),
+         approved_by_name = public.staff_display_name(auth.uid()),
+         approved_at = now()
+   where id = p_stocktake_id;
+
+  return v_count;
+end;
+$$;
+
+drop function if exists public.adjust_stock(bigint, numeric, text);
+
+-- Sets a product's quantity at a location to what was counted, recording
+-- the difference as an adjustment.
+create or replace function public.adjust_stock(
+  p_product_id bigint,
+  p_counted numeric,
+  p_note text default null,
+  p_location_id bigint default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_product public.products;
+  v_location public.locations;
+  v_on_hand numeric;
+  v_movement public.stock_movements;
+begin
+  perform public.require_role('inventory_clerk', 'production_operator', 'manager');
+
+  if p_counted is null then
+    raise exception 'A counted quantity is required';
+  end if;
+
+  select * into v_product
+    from public.products
+   where id = p_product_id
+     for update;
+
+  if not found then
+    raise exception 'Product % not found', p_product_id;
+  end if;
+
+  v_location := public.active_location(p_location_id);
+  v_on_hand := public.location_stock(v_product.id, v_location.id);
+
+  if p_counted = v_on_hand then
+    return null;
+  end if;
+
+  insert into public.stock_movements (product_id, location_id, quantity, reason, note)
+  values (v_product.id, v_location.id, p_counted - v_on_hand, 'adjustment', nullif(trim(p_note), ''))
+  returning * into v_movement;
+
+  return to_jsonb(v_movement);
+end;
+$$;
+
+revoke execute on function public.adjust_stock(bigint, numeric, text, bigint) from public, anon;
+grant execute on function public.adjust_stock(bigint, numeric, text, bigint) to authenticated;
+
+-- Where each delivery was received and each batch was made.
+alter table public.purchases
+  add column if not exists location_id bigint references public.locations (id);
+
+alter table public.production_batches
+  add column if not exists location_id bigint references public.locations (id);
+
+drop function if exists public.record_purchase(bigint, numeric, numeric, text, date, text);
+
+-- Records a delivery and the stock it brings into a location.
+create or replace function public.record_purchase(
+  p_product_id bigint,
+  p_quantity numeric,
+  p_unit_price numeric,
+  p_supplier text default null,
+  p_purchase_date date default current_date,
+  p_notes text default null,
+  p_location_id bigint default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_purchase public.purchases;
+  v_location public.locations;
+begin
+  perform public.require_role('inventory_clerk', 'manager');
+
+  if p_quantity is null or p_quantity <= 0 then
+    raise exception 'Purchase quantity must be more than zero';
+  end if;
+  if p_unit_price is null or p_unit_price < 0 then
+    raise exception 'Unit price must be zero or more';
+  end if;
+
+  v_location := public.active_location(p_location_id);
+
+  insert into public.purchases (
+    product_id,
+    quantity,
+    unit_price,
+    total_amount,
+    supplier,
+    purchase_date,
+    notes,
+    location_id
+  )
+  values (
+    p_product_id,
+    p_quantity,
+    p_unit_price,
+    round(p_quantity * p_unit_price, 2),
+    p_supplier,
+    coalesce(p_purchase_date, current_date),
+    nullif(trim(p_notes), ''),
+    v_location.id
+  )
+  returning * into v_purchase;
+
+  insert into public.stock_movements (product_id, location_id, quantity, reason, reference_id)
+  values (p_product_id, v_location.id, p_quantity, 'purchase', v_purchase.id);
+
+  return to_jsonb(v_purchase);
+end;
+$$;
+
+revoke execute on function public.record_purchase(bigint, numeric, numeric, text, date, text, bigint) from public, anon;
+grant execute on function public.record_purchase(bigint, numeric, numeric, text, date, text, bigint) to authenticated;
+
+drop function if exists public.complete_production(bigint, numeric, text);
+
+-- Makes a batch of a finished product from its recipe at a production
+-- location: components go out of it, the finished product comes into it,
+-- all or nothing.
+create or replace function public.complete_production(
+  p_finished_product_id bigint,
+  p_quantity numeric,
+  p_notes text default null,
+  p_location_id bigint default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_batch public.production_batches;
+  v_location public.locations;
+  v_available numeric;
+  v_recipe record;
+  v_used numeric;
+  v_components integer := 0;
+begin
+  perform public.require_role('production_operator', 'manager');
+
+  if p_quantity is null or p_quantity <= 0 then
+    raise exception 'Production quantity must be more than zero';
+  end if;
+
+  v_location := public.active_location(coalesce(p_location_id, public.production_location_id()));
+
+  insert into public.production_batches (finished_product_id, quantity_produced, status, notes, location_id)
+  values (p_finished_product_id, p_quantity, 'in_progress', nullif(trim(p_notes), ''), v_location.id)
+  returning * into v_batch;
+
+  -- Components are locked in id order so concurrent batches cannot deadlock.
+  for v_recipe in
+    select r.component_id, r.quantity_required, p.product_name
+      from public.product_recipes r
+      join public.products p on p.id = r.component_id
+     where r.finished_product_id = p_finished_product_id
+     order by r.component_id
+       for update of p
+  loop
+    v_used := v_recipe.quantity_required * p_quantity;
+
+    v_available := public.location_stock(v_recipe.component_id, v_location.id);
+    if v_available < v_used then
+      raise exception 'Not enough stock of % at %. Required: %, Available: %',
+        v_recipe.product_name, v_location.name, v_used, v_available;
+    end if;
+
+    insert into public.production_batch_components (batch_id, component_id, quantity_used)
+    values (v_batch.id, v_recipe.component_id, v_used);
+
+    insert into public.stock_movements (product_id, location_id, quantity, reason, reference_id)
+    values (v_recipe.component_id, v_location.id, -v_used, 'production_out', v_batch.id);
+
+    v_components := v_components + 1;
+  end loop;
+
+  if v_components = 0 then
+    raise exception 'Product % has no recipe', p_finished_product_id;
+  end if;
+
+  insert into public.stock_movements (product_id, location_id, quantity, reason, reference_id)
+  values (p_finished_product_id, v_location.id, p_quantity, 'production_in', v_batch.id);
+
+  update public.production_batches
+     set status = 'completed',
+         updated_at = now()
+   where id = v_batch.id
+  returning * into v_batch;
+
+  return to_jsonb(v_batch);
+end;
+$$;
+
+revoke execute on function public.complete_production(bigint, numeric, text, bigint) from public, anon;
+grant execute on function public.complete_production(bigint, numeric, text, bigint) to authenticated;
+
+drop function if exists public.create_pos_order(jsonb, jsonb, jsonb, bigint, text, timestamptz, boolean, bigint);
+
+-- Sales come out of the terminal's location and returns go back into the
+-- location the order was sold from.
+create or replace function public.create_pos_order(
+  p_items jsonb,
+  p_tenders jsonb,
+  p_discounts jsonb default '[]'::jsonb,
+  p_cash_session_id bigint default null,
+  p_order_number text default null,
+  p_created_at timestamptz default null,
+  p_offline boolean default false,
+  p_customer_id bigint default null,
+  p_location_id bigint default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order public.orders;
+  v_item jsonb;
+  v_tender jsonb;
+  v_product public.products;
+  v_discount jsonb;
+  v_quantity integer;
+  v_line_discount numeric;
+  v_line_discounts numeric := 0;
+  v_recorded_discounts numeric := 0;
+  v_amount numeric;
+  v_method text;
+  v_total numeric;
+  v_paid numeric := 0;
+  v_non_cash numeric := 0;
+  v_methods text[] := '{}';
+  v_session public.cash_sessions;
+  v_existing_id bigint;
+  v_conflicts jsonb := '[]'::jsonb;
+  v_customer public.customers;
+  v_points_earned integer := 0;
+  v_order_item_id bigint;
+  v_unit_price numeric;
+  v_approval public.manager_approvals;
+  v_location_id bigint;
+  v_available numeric;
+begin
+  perform public.require_role('cashier', 'manager');
+  -- A sale replayed from a terminal's outbox may already have reached the
+  -- server on an earlier attempt whose response was lost. The lock makes two
+  -- concurrent replays of the same sale wait for each other.
+  if p_order_number is not null then
+    perform pg_advisory_xact_lock(hashtext(p_order_number));
+
+    select id into v_existing_id
+      from public.orders
+     where order_number = p_order_number;
+
+    if found then
+      return public.pos_order_json(v_existing_id)
+        || jsonb_build_object('stock_conflicts', '[]'::jsonb);
+    end if;
+  end if;
+
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'Cart is empty';
+  end if;
+
+  if p_tenders is null or jsonb_typeof(p_tenders) <> 'array' or jsonb_array_length(p_tenders) = 0 then
+    raise exception 'At least one tender is required';
+  end if;
+
+  -- The share lock keeps the drawer from being closed while a sale into it
+  -- is still being written.
+  select * into v_session
+    from public.cash_sessions
+   where id = p_cash_session_id
+     for share;
+
+  -- An offline sale belongs to the session it was rung up in, even if the
+  -- drawer has been closed by the time the terminal reconnects.
+  if not found or (v_session.status <> 'open' and not p_offline) then
+    raise exception 'Open a cash drawer session before taking payments';
+  end if;
+
+  if p_customer_id is not null then
+    select * into v_customer
+      from public.customers
+     where id = p_customer_id;
+
+    if not found then
+      raise exception 'Customer % not found', p_customer_id;
+    end if;
+  end if;
+
+  -- An offline sale was made at the terminal's location even if that location
+  -- has been closed by the time it reaches the server.
+  if p_offline then
+    v_location_id := coalesce(p_location_id, public.default_location_id());
+  else
+    v_location_id := (public.active_location(p_location_id)).id;
+  end if;
+
+  -- Lock every product in the basket up front, in id order, so two tills
+  -- checking out overlapping baskets cannot deadlock each other.
+  perform 1
+    from public.products
+   where id in (
+     select (value->>'product_id')::bigint
+       from jsonb_array_elements(p_items)
+   )
+   order by id
+   for update;
+
+  insert into public.orders (
+    order_number,
+    total_amount,
+    payment_method,
+    payment_status,
+    order_status,
+    user_id,
+    cash_session_id,
+    customer_id,
+    location_id,
+    billing_address,
+    shipping_address,
+    created_at,
+    synced_at
+  )
+  values (
+    coalesce(p_order_number, 'ORD-' || (extract(epoch from clock_timestamp()) * 1000)::bigint),
+    0,
+    null,
+    'pending',
+    'completed',
+    1,
+    v_session.id,
+    v_customer.id,
+    v_location_id,
+    coalesce(v_customer.billing_address, '{}'::jsonb),
+    coalesce(v_customer.shipping_address, '{}'::jsonb),
+    coalesce(p_created_at, now()),
+    case when p_offline then now() end
+  )
+  returning * into v_order;
+
+  for v_item in select value from jsonb_array_elements(p_items)
+  loop
+    v_quantity := (v_item->>'quantity')::integer;
+    if v_quantity is null or v_quantity <= 0 then
+      raise exception 'Invalid quantity for product %', v_item->>'product_id';
+    end if;
+
+    select * into v_product
+      from public.products
+     where id = (v_item->>'product_id')::bigint;
+
+    if not found then
+      raise exception 'Product % not found', v_item->>'product_id';
+    end if;
+
+    -- An overridden price comes from the manager approval that set it, never
+    -- from the terminal.
+    v_unit_price := v_product.price;
+    if v_item->>'approval_id' is not null then
+      v_approval := public.claim_manager_approval((v_item->>'approval_id')::bigint, 'price_override');
+      if v_approval.product_id is distinct from v_product.id or v_approval.amount is null then
+        raise exception 'Manager approval % was given for a different product', v_approval.id;
+      end if;
+
+      v_unit_price := v_approval.amount;
+      update public.manager_approvals
+         set order_id = v_order.id
+       where id = v_approval.id;
+    end if;
+
+    -- The goods in an offline sale have already left the shop, so a
+    -- shortfall is recorded rather than refused and stock is allowed to go
+    -- negative until it is counted again.
+    v_available := public.location_stock(v_product.id, v_location_id);
+    if not v_product.is_gift_card and v_available < v_quantity then
+      if not p_offline then
+        raise exception 'Not enough stock of %. Requested: %, Available: %',
+          v_product.product_name, v_quantity, v_available;
+      end if;
+
+      v_conflicts := v_conflicts || jsonb_build_object(
+        'product_id', v_product.id,
+        'product_name', v_product.product_name,
+        'requested', v_quantity,
+        'available', v_available
+      );
+    end if;
+
+    v_line_discount := round(coalesce((v_item->>'discount_amount')::numeric, 0), 2);
+    if v_line_discount < 0 or v_line_discount > v_unit_price * v_quantity then
+      raise exception 'Invalid discount for %', v_product.product_name;
+    end if;
+
+    if not v_product.is_gift_card then
+      insert into public.stock_movements (product_id, location_id, quantity, reason, reference_id)
+      values (v_product.id, v_location_id, -v_quantity, 'sale', v_order.id);
+    end if;
+
+    insert into public.order_items (
+      order_id,
+      product_id,
+      product_name,
+      sku,
+      quantity,
+      price,
+      discount_amount,
+      total_price
+    )
+    values (
+      v_order.id,
+      v_product.id,
+      v_product.product_name,
+      v_product.sku,
+      v_quantity,
+      v_unit_price,
+      v_line_discount,
+      v_unit_price * v_quantity - v_line_discount
+    )
+    returning id into v_order_item_id;
+
+    -- Each gift card sold is issued with its own code, loaded with the
+    -- product's price.
+    if v_product.is_gift_card then
+      for i in 1..v_quantity loop
+        perform public.issue_gift_card(
+          'gift_card',
+          v_unit_price,
+          v_customer.id,
+          v_order.id,
+          v_order_item_id,
+          null
+        );
+      end loop;
+    end if;
+
+    v_line_discounts := v_line_discounts + v_line_discount;
+  end loop;
+
+  -- The per-line discount amounts already include each line's share of any
+  -- order-level discount, so the recorded discounts must add up to them.
+  for v_discount in select value from jsonb_array_elements(coalesce(p_discounts, '[]'::jsonb))
+  loop
+    v_amount := round((v_discount->>'amount')::numeric, 2);
+    if v_amount is null or v_amount < 0 then
+      raise exception 'Invalid discount amount';
+    end if;
+
+    insert into public.order_discounts (
+      order_id,
+      order_item_id,
+      source,
+      promotion_id,
+      description,
+      discount_type,
+      value,
+      amount,
+      reason,
+      authorised_by
+    )
+    values (
+      v_order.id,
+      (
+        select oi.id
+          from public.order_items oi
+         where oi.order_id = v_order.id
+           and oi.product_id = (v_discount->>'product_id')::bigint
+         limit 1
+      ),
+      v_discount->>'source',
+      (v_discount->>'promotion_id')::bigint,
+      v_discount->>'description',
+      v_discount->>'discount_type',
+      (v_discount->>'value')::numeric,
+      v_amount,
+      v_discount->>'reason',
+      v_discount->>'authorised_by'
+    );
+
+    v_recorded_discounts := v_recorded_discounts + v_amount;
+  end loop;
+
+  if abs(v_recorded_discounts - v_line_discounts) > 0.01 then
+    raise exception 'Discount breakdown (%) does not match line discounts (%)',
+      v_recorded_discounts, v_line_discounts;
+  end if;
+
+  update public.orders
+     set discount_total = v_line_discounts
+   where id = v_order.id;
+
+  perform public.apply_order_tax(v_order.id);
+
+  select total_amount into v_total
+    from public.orders
+   where id = v_order.id;
+
+  for v_tender in select value from jsonb_array_elements(p_tenders)
+  loop
+    v_method := v_tender->>'method';
+    v_amount := round((v_tender->>'amount')::numeric, 2);
+
+    if v_method is null or v_method not in ('cash', 'card', 'points', 'gift_card', 'store_credit') then
+      raise exception 'Unsupported tender method %', coalesce(v_method, 'null');
+    end if;
+
+    if v_amount is null or v_amount <= 0 then
+      raise exception 'Tender amounts must be positive';
+    end if;
+
+    insert into public.payments (
+      order_id,
+      amount,
+      currency,
+      paymentgateway,
+      paymentstatus
+    )
+    values (
+      v_order.id,
+      v_amount,
+      'USD',
+      v_method,
+      'completed'
+    );
+
+    if v_method = 'points' then
+      perform public.redeem_loyalty_points(v_order.id, v_customer.id, v_amount);
+    elsif v_method in ('gift_card', 'store_credit') then
+      perform public.redeem_gift_card(v_tender->>'code', v_method, v_order.id, v_amount);
+    end if;
+
+    v_paid := v_paid + v_amount;
+    if v_method <> 'cash' then
+      v_non_cash := v_non_cash + v_amount;
+    end if;
+    if not v_method = any (v_methods) then
+      v_methods := v_methods || v_method;
+    end if;
+  end loop;
+
+  -- Change can only be given out of cash.
+  if v_non_cash > v_total then
+    raise exception 'Non-cash tenders (%) exceed the order total (%)', v_non_cash, v_total;
+  end if;
+
+  update public.orders
+     set payment_method = case
+           when array_length(v_methods, 1) = 1 then v_methods[1]
+           else 'split'
+         end,
+         payment_status = case
+           when v_paid >= v_total then 'completed'
+           else 'partial'
+         end,
+         change_given = greatest(v_paid - v_total, 0)
+   where id = v_order.id
+  returning * into v_order;
+
+  v_points_earned := public.award_order_points(v_order.id);
+
+  return public.pos_order_json(v_order.id)
+    || jsonb_build_object('stock_conflicts', v_conflicts, 'points_earned', v_points_earned);
+end;
+$$;
+
+revoke execute on function public.create_pos_order(jsonb, jsonb, jsonb, bigint, text, timestamptz, boolean, bigint, bigint) from public, anon;
+grant execute on function public.create_pos_order(jsonb, jsonb, jsonb, bigint, text, timestamptz, boolean, bigint, bigint) to authenticated;
+
+create or replace function public.create_refund(
+  p_order_id bigint,
+  p_items jsonb,
+  p_refund_method text,
+  p_reason text default null,
+  p_cash_session_id bigint default null,
+  p_approval_id bigint default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order public.orders;
+  v_refund public.refunds;
+  v_item jsonb;
+  v_order_item public.order_items;
+  v_quantity integer;
+  v_line_total numeric;
+  v_amount numeric;
+  v_total numeric := 0;
+  v_restock boolean;
+  v_previously_refunded numeric;
+  v_last_refund_item_id bigint;
+  v_session public.cash_sessions;
+  v_card public.gift_cards;
+  v_voided integer;
+  v_store_credit public.gift_cards;
+  v_threshold numeric;
+  v_approval public.manager_approvals;
+begin
+  perform public.require_role('cashier', 'manager');
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'Select at least one item to refund';
+  end if;
+
+  if p_refund_method is null or p_refund_method not in ('cash', 'card', 'store_credit') then
+    raise exception 'Unsupported refund method %', coalesce(p_refund_method, 'null');
+  end if;
+
+  if p_cash_session_id is not null then
+    select * into v_session
+      from public.cash_sessions
+     where id = p_cash_session_id
+       for share;
+
+    if not found or v_session.status <> 'open' then
+      raise exception 'Cash drawer session % is not open', p_cash_session_id;
+    end if;
+  elsif p_refund_method = 'cash' then
+    raise exception 'Open a cash drawer session before giving cash refunds';
+  end if;
+
+  select * into v_order
+    from public.orders
+   where id = p_order_id
+     for update;
+
+  if not found then
+    raise exception 'Order % not found', p_order_id;
+  end if;
+
+  if v_order.order_status = 'refunded' then
+    raise exception 'Order % has already been fully refunded', v_order.order_number;
+  end if;
+
+  if v_order.order_status not in ('completed', 'partially_refunded') then
+    raise exception 'Only completed orders can be refunded';
+  end if;
+
+  select coalesce(sum(amount), 0) into v_previously_refunded
+    from public.refunds
+   where order_id = v_order.id;
+
+  insert into public.refunds (refund_number, order_id, amount, refund_method, reason, cash_session_id)
+  values (
+    'RFD-' || (extract(epoch from clock_timestamp()) * 1000)::bigint,
+    v_order.id,
+    0,
+    p_refund_method,
+    p_reason,
+    v_session.id
+  )
+  returning * into v_refund;
+
+  for v_item in select value from jsonb_array_elements(p_items)
+  loop
+    v_quantity := (v_item->>'quantity')::integer;
+    v_restock := coalesce((v_item->>'restock')::boolean, true);
+
+    select * into v_order_item
+      from public.order_items
+     where id = (v_item->>'order_item_id')::bigint
+       and order_id = v_order.id
+       for update;
+
+    if not found then
+      raise exception 'Item % does not belong to order %', v_item->>'order_item_id', v_order.order_number;
+    end if;
+
+    if v_quantity is null or v_quantity <= 0
+       or v_quantity > v_order_item.quantity - v_order_item.refunded_quantity then
+      raise exception 'Cannot refund % of %: only % left to refund',
+        coalesce(v_quantity, 0), v_order_item.product_name,
+        v_order_item.quantity - v_order_item.refunded_quantity;
+    end if;
+
+    -- What the customer actually paid for the line: its discounted total plus
+    -- any tax added on top of it.
+    v_line_total := coalesce(v_order_item.total_price, v_order_item.price * v_order_item.quantity)
+      + case when v_order.prices_include_tax then 0 else v_order_item.tax_amount end;
+
+    -- Returning the last units of a line refunds whatever is left of it, so
+    -- rounding never leaves a cent behind.
+    if v_quantity = v_order_item.quantity - v_order_item.refunded_quantity then
+      v_amount := v_line_total - v_order_item.refunded_amount;
+    else
+      v_amount := round(v_line_total * v_quantity / v_order_item.quantity, 2);
+    end if;
+
+    -- Gift cards sold on the line are taken back by voiding them, which is
+    -- only possible while they are unspent. They never go back on the shelf.
+    if exists (select 1 from public.gift_cards where issued_order_item_id = v_order_item.id) then
+      v_restock := false;
+      v_voided := 0;
+
+      for v_card in
+        select *
+          from public.gift_cards
+         where issued_order_item_id = v_order_item.id
+           and status = 'active'
+           and balance = initial_amount
+         order by id
+         limit v_quantity
+           for update
+      loop
+        insert into public.gift_card_transactions (gift_card_id, transaction_type, amount, refund_id, note)
+        values (v_card.id, 'void', -v_card.balance, v_refund.id, 'Refunded');
+
+        update public.gift_cards
+           set status = 'void',
+               updated_at = now()
+         where id = v_card.id;
+
+        v_voided := v_voided + 1;
+      end loop;
+
+      if v_voided < v_quantity then
+        raise exception 'Only % of the gift cards sold on this order are unspent and can be refunded', v_voided;
+      end if;
+    end if;
+
+    update public.order_items
+       set refunded_quantity = refunded_quantity + v_quantity,
+           refunded_amount = refunded_amount + v_amount
+     where id = v_order_item.id;
+
+    if v_restock then
+      insert into public.stock_movements (product_id, location_id, quantity, reason, reference_id)
+      values (v_order_item.product_id, v_order.location_id, v_quantity, 'return', v_refund.id);
+    end if;
+
+    insert into public.refund_items (refund_id, order_item_id, quantity, amount, restocked)
+    values (v_refund.id, v_order_item.id, v_quantity, v_amount, v_restock)
+    returning id into v_last_refund_item_id;
+
+    v_total := v_total + v_amount;
+  end loop;
+
+  -- Line taxes are rounded individually, so once every unit is back the final
+  -- refund settles the order to exactly what was paid.
+  if not exists (
+    select 1
+      from public.order_items
+     where order_id = v_order.id
+       and refunded_quantity < quantity
+  ) and v_previously_refunded + v_total <> v_order.total_amount then
+    update public.refund_items
+       set amount = amount + (v_order.total_amount - v_previously_refunded - v_total)
+     where id = v_last_refund_item_id;
+    update public.order_items
+       set refunded_amount = refunded_amount + (v_order.total_amount - v_previously_refunded - v_total)
+     where id = (select order_item_id from public.refund_items where id = v_last_refund_item_id);
+    v_total := v_order.total_amount - v_previously_refunded;
+  end if;
+
+  -- Refunds above the store's threshold need a manager's approval for this
+  -- order.
+  select refund_approval_threshold into v_threshold
+    from public.store_settings
+   where id = 1;
+
+  if v_threshold is not null and v_total > v_threshold then
+    if p_approval_id is null then
+      raise exception 'Refunds over % need a manager''s approval', v_threshold;
+    end if;
+
+    v_approval := public.claim_manager_approval(p_approval_id, 'refund');
+    if v_approval.order_id is distinct from v_order.id then
+      raise exception 'Manager approval % was given for a different order', p_approval_id;
+    end if;
+
+    update public.manager_approvals
+       set refund_id = v_refund.id
+     where id = v_approval.id;
+  end if;
+
+  update public.refunds
+     set amount = v_total
+   where id = v_refund.id
+  returning * into v_refund;
+
+  insert into public.payments (
+    order_id,
+    refund_id,
+    amount,
+    currency,
+    paymentgateway,
+    paymentstatus
+  )
+  values (
+    v_order.id,
+    v_refund.id,
+    -v_total,
+    'USD',
+    p_refund_method,
+    'refunded'
+  );
+
+  if p_refund_method = 'store_credit' then
+    v_store_credit := public.issue_gift_card(
+      'store_credit',
+      v_total,
+      v_order.customer_id,
+      null,
+      null,
+      v_refund.id
+    );
+  end if;
+
+  update public.orders
+     set order_status = case
+           when exists (
+             select 1
+               from public.order_items
+              where order_id = v_order.id
+                and refunded_quantity < quantity
+           ) then 'partially_refunded'
+           else 'refunded'
+         end,
+         updated_at = now()
+   where id = v_order.id;
+
+  return to_jsonb(v_refund) || jsonb_build_object(
+    'items',
+    (
+      select coalesce(jsonb_agg(to_jsonb(ri) order by ri.id), '[]'::jsonb)
+        from public.refund_items ri
+       where ri.refund_id = v_refund.id
+    ),
+    'store_credit',
+    case when v_store_credit.id is not null then to_jsonb(v_store_credit) end
+  );
+end;
+$$;
@@ -0,0 +1,157 @@
+-- Reorder points.
+--
+-- Each product can have a reorder point, the stock level at or below which
+-- it needs buying again, a reorder quantity, the amount usually bought at
+-- once, and the supplier it is normally bought from. reorder_alerts lists
+-- what has fallen to its reorder point and how much to order, and those
+-- suggestions can be turned into draft purchase orders, one per supplier.
+
+alter table public.products
+  add column if not exists reorder_point numeric check (reorder_point >= 0),
+  add column if not exists reorder_quantity numeric check (reorder_quantity > 0),
+  add column if not exists preferred_supplier text;
+
+-- Products at or below their reorder point. A product without one is only
+-- listed once it runs out. The suggested quantity is the usual reorder
+-- quantity, or more when that would still leave stock below the reorder
+-- point.
+create or replace view public.reorder_alerts
+with (security_invoker = true)
+as
+select
+  p.id as product_id,
+  p.product_name,
+  p.sku,
+  p.category,
+  coalesce(p.stock_quantity, 0) as stock_quantity,
+  p.reorder_point,
+  p.reorder_quantity,
+  p.preferred_supplier,
+  greatest(
+    coalesce(p.reorder_quantity, 0),
+    coalesce(p.reorder_point, 0) - coalesce(p.stock_quantity, 0)
+  ) as suggested_quantity,
+  (
+    select pu.unit_price
+      from public.purchases pu
+     where pu.product_id = p.id
+     order by pu.purchase_date desc, pu.id desc
+     limit 1
+  ) as last_unit_price
+from public.products p
+where not p.is_gift_card
+  and coalesce(p.stock_quantity, 0) <= coalesce(p.reorder_point, 0);
+
+create table if not exists public.purchase_orders (
+  id bigint generated always as identity primary key,
+  supplier text,
+  status text not null default 'draft' check (status in ('draft')),
+  notes text,
+  created_by uuid default auth.uid() references auth.users (id) on delete set null,
+  created_by_name text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists public.purchase_order_lines (
+  id bigint generated always as identity primary key,
+  purchase_order_id bigint not null references public.purchase_orders (id) on delete cascade,
+  product_id bigint not null references public.products (id),
+  quantity numeric not null check (quantity > 0),
+  unit_price numeric not null default 0 check (unit_price >= 0),
+  unique (purchase_order_id, product_id)
+);
+
+create index if not exists purchase_order_lines_purchase_order_id_idx on public.purchase_order_lines (purchase_order_id);
+
+alter table public.purchase_orders enable row level security;
+alter table public.purchase_order_lines enable row level security;
+
+drop policy if exists staff_read on public.purchase_orders;
+create policy staff_read on public.purchase_orders
+  for select to authenticated
+  using ((select public.has_role('inventory_clerk', 'manager')));
+
+drop policy if exists staff_read on public.purchase_order_lines;
+create policy staff_read on public.purchase_order_lines
+  for select to authenticated
+  using ((select public.has_role('inventory_clerk', 'manager')));
+
+-- Creates a draft purchase order. p_lines is an array of
+-- { product_id, quantity, unit_price }; a line without a unit price is
+-- priced at what the product last cost.
+create or replace function public.create_purchase_order(
+  p_supplier text,
+  p_lines jsonb,
+  p_notes text default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order public.purchase_orders;
+  v_line jsonb;
+  v_product public.products;
+  v_quantity numeric;
+  v_unit_price numeric;
+begin
+  perform public.require_role('inventory_clerk', 'manager');
+
+  if p_lines is null or jsonb_typeof(p_lines) <> 'array' or jsonb_array_length(p_lines) = 0 then
+    raise exception 'A purchase order needs at least one product';
+  end if;
+
+  insert into public.purchase_orders (supplier, notes, created_by_name)
+  values (nullif(trim(p_supplier), ''), nullif(trim(p_notes), ''), public.staff_display_name(auth.uid()))
+  returning * into v_order;
+
+  for v_line in select value from jsonb_array_elements(p_lines)
+  loop
+    v_quantity := (v_line->>'quantity')::numeric;
+    if v_quantity is null or v_quantity <= 0 then
+      raise exception 'Invalid quantity for product %', v_line->>'product_id';
+    end if;
+
+    select * into v_product
+      from public.products
+     where id = (v_line->>'product_id')::bigint;
+
+    if not found then
+      raise exception 'Product % not found', v_line->>'product_id';
+    end if;
+    if v_product.is_gift_card then
+      raise exception '% is a gift card and is not bought in', v_product.product_name;
+    end if;
+
+    v_unit_price := coalesce(
+      (v_line->>'unit_price')::numeric,
+      (select pu.unit_price
+         from public.purchases pu
+        where pu.product_id = v_product.id
+        order by pu.purchase_date desc, pu.id desc
+        limit 1),
+      0
+    );
+
+    insert into public.purchase_order_lines (purchase_order_id, product_id, quantity, unit_price)
+    values (v_order.id, v_product.id, v_quantity, v_unit_price);
+  end loop;
+
+  return to_jsonb(v_order);
+end;
+$$;
+
+revoke execute on function public.create_purchase_order(text, jsonb, text) from public, anon;
+grant execute on function public.create_purchase_order(text, jsonb, text) to authenticated;
+
+drop trigger if exists audit_row_change on public.purchase_orders;
+create trigger audit_row_change
+  after insert or update or delete on public.purchase_orders
+  for each row execute function public.audit_row_change('id');
+
+drop trigger if exists audit_row_change on public.purchase_order_lines;
+create trigger audit_row_change
+  after insert or update or delete on public.purchase_order_lines
+  for each row execute function public.audit_row_change('id');
@@ -0,0 +1,309 @@
+-- Purchase order lifecycle and goods-received notes.
+--
+-- Stock is no longer added when a purchase is entered. A purchase order is
+-- drafted, sent to the supplier, and received in one or more deliveries.
+-- Each delivery is a goods-received note (GRN) that books only what actually
+-- arrived into a location. Every GRN line is also written to purchases, so
+-- the purchase history and reports keep working, and the purchase row links
+-- back to its order and GRN.
+--
+--   draft -> sent -> partially_received -> received
+--   draft or sent -> cancelled
+
+-- Purchases are only booked through a goods-received note now.
+drop function if exists public.record_purchase(bigint, numeric, numeric, text, date, text, bigint);
+
+alter table public.purchase_orders
+  drop constraint if exists purchase_orders_status_check;
+
+alter table public.purchase_orders
+  add constraint purchase_orders_status_check
+  check (status in ('draft', 'sent', 'partially_received', 'received', 'cancelled'));
+
+alter table public.purchase_orders
+  add column if not exists sent_by_name text,
+  add column if not exists sent_at timestamptz,
+  add column if not exists cancelled_at timestamptz;
+
+alter table public.purchase_order_lines
+  add column if not exists quantity_received numeric not null default 0 check (quantity_received >= 0);
+
+alter table public.purchase_order_lines
+  drop constraint if exists purchase_order_lines_received_check;
+
+alter table public.purchase_order_lines
+  add constraint purchase_order_lines_received_check
+  check (quantity_received <= quantity);
+
+create table if not exists public.goods_receipts (
+  id bigint generated always as identity primary key,
+  purchase_order_id bigint not null references public.purchase_orders (id),
+  location_id bigint not null references public.locations (id),
+  notes text,
+  received_by uuid default auth.uid() references auth.users (id) on delete set null,
+  received_by_name text,
+  received_at timestamptz not null default now()
+);
+
+create table if not exists public.goods_receipt_lines (
+  id bigint generated always as identity primary key,
+  goods_receipt_id bigint not null references public.goods_receipts (id) on delete cascade,
+  purchase_order_line_id bigint not null references public.purchase_order_lines (id),
+  quantity numeric not null check (quantity > 0)
+);
+
+create index if not exists goods_receipts_purchase_order_id_idx on public.goods_receipts (purchase_order_id);
+create index if not exists goods_receipt_lines_goods_receipt_id_idx on public.goods_receipt_lines (goods_receipt_id);
+
+alter table public.purchases
+  add column if not exists purchase_order_id bigint references public.purchase_orders (id),
+  add column if not exists goods_receipt_id bigint references public.goods_receipts (id);
+
+create index if not exists purchases_purchase_order_id_idx on public.purchases (purchase_order_id);
+
+alter table public.goods_receipts enable row level security;
+alter table public.goods_receipt_lines enable row level security;
+
+drop policy if exists staff_read on public.goods_receipts;
+create policy staff_read on public.goods_receipts
+  for select to authenticated
+  using ((select public.has_role('inventory_clerk', 'manager')));
+
+drop policy if exists staff_read on public.goods_receipt_lines;
+create policy staff_read on public.goods_receipt_lines
+  for select to authenticated
+  using ((select public.has_role('inventory_clerk', 'manager')));
+
+-- A draft is edited directly: its supplier and notes, and its lines. Once
+-- sent, an order only changes through the RPCs below.
+drop policy if exists staff_edit_draft on public.purchase_orders;
+create policy staff_edit_draft on public.purchase_orders
+  for update to authenticated
+  using ((select public.has_role('inventory_clerk', 'manager')) and status = 'draft')
+  with check ((select public.has_role('inventory_clerk', 'manager')) and status = 'draft');
+
+drop policy if exists staff_edit_draft on public.purchase_order_lines;
+create policy staff_edit_draft on public.purchase_order_lines
+  for all to authenticated
+  using (
+    (select public.has_role('inventory_clerk', 'manager'))
+    and exists (
+      select 1 from public.purchase_orders o
+       where o.id = purchase_order_id
+         and o.status = 'draft'
+    )
+  )
+  with check (
+    (select public.has_role('inventory_clerk', 'manager'))
+    and quantity_received = 0
+    and exists (
+      select 1 from public.purchase_orders o
+       where o.id = purchase_order_id
+         and o.status = 'draft'
+    )
+  );
+
+create or replace function public.send_purchase_order(p_purchase_order_id bigint)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order public.purchase_orders;
+begin
+  perform public.require_role('inventory_clerk', 'manager');
+
+  select * into v_order
+    from public.purchase_orders
+   where id = p_purchase_order_id
+     for update;
+
+  if not found then
+    raise exception 'Purchase order % not found', p_purchase_order_id;
+  end if;
+  if v_order.status <> 'draft' then
+    raise exception 'Purchase order % has already been sent', p_purchase_order_id;
+  end if;
+  if v_order.supplier is null then
+    raise exception 'Choose a supplier before sending the order';
+  end if;
+  if not exists (select 1 from public.purchase_order_lines where purchase_order_id = p_purchase_order_id) then
+    raise exception 'A purchase order needs at least one product';
+  end if;
+
+  update public.purchase_orders
+     set status = 'sent',
+         sent_by_name = public.staff_display_name(auth.uid()),
+         sent_at = now(),
+         updated_at = now()
+   where id = p_purchase_order_id
+  returning * into v_order;
+
+  return to_jsonb(v_order);
+end;
+$$;
+
+revoke execute on function public.send_purchase_order(bigint) from public, anon;
+grant execute on function public.send_purchase_order(bigint) to authenticated;
+
+-- Only an order nothing has been received against can be cancelled.
+create or replace function public.cancel_purchase_order(p_purchase_order_id bigint)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.require_role('inventory_clerk', 'manager');
+
+  update public.purchase_orders
+     set status = 'cancelled',
+         cancelled_at = now(),
+         updated_at = now()
+   where id = p_purchase_order_id
+     and status in ('draft', 'sent');
+
+  if not found then
+    raise exception 'Purchase order % cannot be cancelled', p_purchase_order_id;
+  end if;
+end;
+$$;
+
+revoke execute on function public.cancel_purchase_order(bigint) from public, anon;
+grant execute on function public.cancel_purchase_order(bigint) to authenticated;
+
+-- Books a delivery against a sent order. p_lines is an array of
+-- { purchase_order_line_id, quantity }; lines not delivered are left out.
+-- Each line's stock goes into p_location_id at the order's price, and the
+-- order becomes received once nothing is left open.
+create or replace function public.receive_purchase_order(
+  p_purchase_order_id bigint,
+  p_lines jsonb,
+  p_location_id bigint default null,
+  p_notes text default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order public.purchase_orders;
+  v_location public.locations;
+  v_receipt public.goods_receipts;
+  v_item jsonb;
+  v_line public.purchase_order_lines;
+  v_quantity numeric;
+  v_purchase public.purchases;
+begin
+  perform public.require_role('inventory_clerk', 'manager');
+
+  select * into v_order
+    from public.purchase_orders
+   where id = p_purchase_order_id
+     for update;
+
+  if not found then
+    raise exception 'Purchase order % not found', p_purchase_order_id;
+  end if;
+  if v_order.status not in ('sent', 'partially_received') then
+    raise exception 'Purchase order % is % and cannot be received', p_purchase_order_id, v_order.status;
+  end if;
+
+  if p_lines is null or jsonb_typeof(p_lines) <> 'array' or jsonb_array_length(p_lines) = 0 then
+    raise exception 'Enter what was delivered';
+  end if;
+
+  v_location := public.active_location(p_location_id);
+
+  insert into public.goods_receipts (purchase_order_id, location_id, notes, received_by_name)
+  values (v_order.id, v_location.id, nullif(trim(p_notes), ''), public.staff_display_name(auth.uid()))
+  returning * into v_receipt;
+
+  for v_item in select value from jsonb_array_elements(p_lines)
+  loop
+    v_quantity := (v_item->>'quantity')::numeric;
+    if v_quantity is null or v_quantity <= 0 then
+      raise exception 'Invalid quantity for order line %', v_item->>'purchase_order_line_id';
+    end if;
+
+    select * into v_line
+      from public.purchase_order_lines
+     where id = (v_item->>'purchase_order_line_id')::bigint
+       and purchase_order_id = v_order.id
+       for update;
+
+    if not found then
+      raise exception 'Line % is not on purchase order %', v_item->>'purchase_order_line_id', v_order.id;
+    end if;
+    if v_quantity > v_line.quantity - v_line.quantity_received then
+      raise exception 'Only % of product % is still open on this order',
+        v_line.quantity - v_line.quantity_received, v_line.product_id;
+    end if;
+
+    insert into public.goods_receipt_lines (goods_receipt_id, purchase_order_line_id, quantity)
+    values (v_receipt.id, v_line.id, v_quantity);
+
+    update public.purchase_order_lines
+       set quantity_received = quantity_received + v_quantity
+     where id = v_line.id;
+
+    insert into public.purchases (
+      product_id,
+      quantity,
+      unit_price,
+      total_amount,
+      supplier,
+      purchase_date,
+      notes,
+      location_id,
+      purchase_order_id,
+      goods_receipt_id
+    )
+    values (
+      v_line.product_id,
+      v_quantity,
+      v_line.unit_price,
+      round(v_quantity * v_line.unit_price, 2),
+      v_order.supplier,
+      current_date,
+      v_receipt.notes,
+      v_location.id,
+      v_order.id,
+      v_receipt.id
+    )
+    returning * into v_purchase;
+
+    insert into public.stock_movements (product_id, location_id, quantity, reason, reference_id)
+    values (v_line.product_id, v_location.id, v_quantity, 'purchase', v_purchase.id);
+  end loop;
+
+  update public.purchase_orders
+     set status = case
+           when exists (
+             select 1 from public.purchase_order_lines
+              where purchase_order_id = v_order.id
+                and quantity_received < quantity
+           ) then 'partially_received'
+           else 'received'
+         end,
+         updated_at = now()
+   where id = v_order.id;
+
+  return to_jsonb(v_receipt);
+end;
+$$;
+
+revoke execute on function public.receive_purchase_order(bigint, jsonb, bigint, text) from public, anon;
+grant execute on function public.receive_purchase_order(bigint, jsonb, bigint, text) to authenticated;
+
+drop trigger if exists audit_row_change on public.goods_receipts;
+create trigger audit_row_change
+  after insert or update or delete on public.goods_receipts
+  for each row execute function public.audit_row_change('id');
+
+drop trigger if exists audit_row_change on public.goods_receipt_lines;
+create trigger audit_row_change
+  after insert or update or delete on public.goods_receipt_lines
+  for each row execute function public.audit_row_change('id');
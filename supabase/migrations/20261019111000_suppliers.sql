@@ -0,0 +1,408 @@
+-- Supplier directory.
+--
+-- Suppliers were free text on products, purchase orders and purchases, so
+-- the same vendor could be spelled several ways. They now live in their own
+-- table with contact details, payment terms, lead time and the currency they
+-- invoice in, and each can have a price list of what it charges per product.
+-- Existing names are folded into suppliers case-insensitively and the text
+-- columns are replaced with supplier_id. purchases keeps its supplier text as
+-- the name at the time of the purchase.
+
+create table if not exists public.suppliers (
+  id bigint generated always as identity primary key,
+  name text not null check (trim(name) <> ''),
+  contact_name text,
+  email text,
+  phone text,
+  address text,
+  payment_terms text,
+  lead_time_days integer check (lead_time_days >= 0),
+  currency text not null default 'USD' check (currency ~ '^[A-Z]{3}$'),
+  notes text,
+  is_active boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create unique index if not exists suppliers_name_key on public.suppliers (lower(name));
+
+-- What a supplier charges for a product, in the supplier's currency.
+create table if not exists public.supplier_prices (
+  id bigint generated always as identity primary key,
+  supplier_id bigint not null references public.suppliers (id) on delete cascade,
+  product_id bigint not null references public.products (id) on delete cascade,
+  unit_price numeric not null check (unit_price >= 0),
+  supplier_sku text,
+  updated_at timestamptz not null default now(),
+  unique (supplier_id, product_id)
+);
+
+create index if not exists supplier_prices_product_id_idx on public.supplier_prices (product_id);
+
+insert into public.suppliers (name)
+select distinct on (lower(name)) name
+  from (
+    select trim(supplier) as name from public.purchases
+    union all
+    select trim(supplier) from public.purchase_orders
+    union all
+    select trim(preferred_supplier) from public.products
+  ) names
+ where name <> ''
+ order by lower(name), name
+on conflict do nothing;
+
+alter table public.products
+  add column if not exists preferred_supplier_id bigint references public.suppliers (id) on delete set null;
+
+alter table public.purchase_orders
+  add column if not exists supplier_id bigint references public.suppliers (id);
+
+alter table public.purchases
+  add column if not exists supplier_id bigint references public.suppliers (id);
+
+create index if not exists purchase_orders_supplier_id_idx on public.purchase_orders (supplier_id);
+create index if not exists purchases_supplier_id_idx on public.purchases (supplier_id);
+
+update public.products p
+   set preferred_supplier_id = s.id
+  from public.suppliers s
+ where lower(trim(p.preferred_supplier)) = lower(s.name);
+
+update public.purchase_orders o
+   set supplier_id = s.id
+  from public.suppliers s
+ where lower(trim(o.supplier)) = lower(s.name);
+
+update public.purchases p
+   set supplier_id = s.id
+  from public.suppliers s
+ where lower(trim(p.supplier)) = lower(s.name);
+
+drop view if exists public.reorder_alerts;
+
+alter table public.products drop column if exists preferred_supplier;
+alter table public.purchase_orders drop column if exists supplier;
+
+-- Products at or below their reorder point. A product without one is only
+-- listed once it runs out. The suggested quantity is the usual reorder
+-- quantity, or more when that would still leave stock below the reorder
+-- point.
+create view public.reorder_alerts
+with (security_invoker = true)
+as
+select
+  p.id as product_id,
+  p.product_name,
+  p.sku,
+  p.category,
+  coalesce(p.stock_quantity, 0) as stock_quantity,
+  p.reorder_point,
+  p.reorder_quantity,
+  p.preferred_supplier_id,
+  s.name as preferred_supplier,
+  greatest(
+    coalesce(p.reorder_quantity, 0),
+    coalesce(p.reorder_point, 0) - coalesce(p.stock_quantity, 0)
+  ) as suggested_quantity,
+  (
+    select pu.unit_price
+      from public.purchases pu
+     where pu.product_id = p.id
+     order by pu.purchase_date desc, pu.id desc
+     limit 1
+  ) as last_unit_price
+from public.products p
+left join public.suppliers s on s.id = p.preferred_supplier_id
+where not p.is_gift_card
+  and coalesce(p.stock_quantity, 0) <= coalesce(p.reorder_point, 0);
+
+alter table public.suppliers enable row level security;
+alter table public.supplier_prices enable row level security;
+
+-- Production staff edit products too, so they can see who supplies them.
+drop policy if exists staff_read on public.suppliers;
+create policy staff_read on public.suppliers
+  for select to authenticated
+  using ((select public.has_role('inventory_clerk', 'production_operator', 'manager')));
+
+drop policy if exists staff_write on public.suppliers;
+create policy staff_write on public.suppliers
+  for all to authenticated
+  using ((select public.has_role('inventory_clerk', 'manager')))
+  with check ((select public.has_role('inventory_clerk', 'manager')));
+
+drop policy if exists staff_read on public.supplier_prices;
+create policy staff_read on public.supplier_prices
+  for select to authenticated
+  using ((select public.has_role('inventory_clerk', 'manager')));
+
+drop policy if exists staff_write on public.supplier_prices;
+create policy staff_write on public.supplier_prices
+  for all to authenticated
+  using ((select public.has_role('inventory_clerk', 'manager')))
+  with check ((select public.has_role('inventory_clerk', 'manager')));
+
+drop function if exists public.create_purchase_order(text, jsonb, text);
+
+-- Creates a draft purchase order. p_lines is an array of
+-- { product_id, quantity, unit_price }; a line without a unit price is
+-- priced from the supplier's price list, or else at what the product last
+-- cost.
+create or replace function public.create_purchase_order(
+  p_supplier_id bigint,
+  p_lines jsonb,
+  p_notes text default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order public.purchase_orders;
+  v_line jsonb;
+  v_product public.products;
+  v_quantity numeric;
+  v_unit_price numeric;
+begin
+  perform public.require_role('inventory_clerk', 'manager');
+
+  if p_lines is null or jsonb_typeof(p_lines) <> 'array' or jsonb_array_length(p_lines) = 0 then
+    raise exception 'A purchase order needs at least one product';
+  end if;
+
+  if p_supplier_id is not null
+     and not exists (select 1 from public.suppliers where id = p_supplier_id and is_active) then
+    raise exception 'Supplier % not found or inactive', p_supplier_id;
+  end if;
+
+  insert into public.purchase_orders (supplier_id, notes, created_by_name)
+  values (p_supplier_id, nullif(trim(p_notes), ''), public.staff_display_name(auth.uid()))
+  returning * into v_order;
+
+  for v_line in select value from jsonb_array_elements(p_lines)
+  loop
+    v_quantity := (v_line->>'quantity')::numeric;
+    if v_quantity is null or v_quantity <= 0 then
+      raise exception 'Invalid quantity for product %', v_line->>'product_id';
+    end if;
+
+    select * into v_product
+      from public.products
+     where id = (v_line->>'product_id')::bigint;
+
+    if not found then
+      raise exception 'Product % not found', v_line->>'product_id';
+    end if;
+    if v_product.is_gift_card then
+      raise exception '% is a gift card and is not bought in', v_product.product_name;
+    end if;
+
+    v_unit_price := coalesce(
+      (v_line->>'unit_price')::numeric,
+      (select sp.unit_price
+         from public.supplier_prices sp
+        where sp.supplier_id = p_supplier_id
+          and sp.product_id = v_product.id),
+      (select pu.unit_price
+         from public.purchases pu
+        where pu.product_id = v_product.id
+        order by pu.purchase_date desc, pu.id desc
+        limit 1),
+      0
+    );
+
+    insert into public.purchase_order_lines (purchase_order_id, product_id, quantity, unit_price)
+    values (v_order.id, v_product.id, v_quantity, v_unit_price);
+  end loop;
+
+  return to_jsonb(v_order);
+end;
+$$;
+
+revoke execute on function public.create_purchase_order(bigint, jsonb, text) from public, anon;
+grant execute on function public.create_purchase_order(bigint, jsonb, text) to authenticated;
+
+create or replace function public.send_purchase_order(p_purchase_order_id bigint)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order public.purchase_orders;
+begin
+  perform public.require_role('inventory_clerk', 'manager');
+
+  select * into v_order
+    from public.purchase_orders
+   where id = p_purchase_order_id
+     for update;
+
+  if not found then
+    raise exception 'Purchase order % not found', p_purchase_order_id;
+  end if;
+  if v_order.status <> 'draft' then
+    raise exception 'Purchase order % has already been sent', p_purchase_order_id;
+  end if;
+  if v_order.supplier_id is null then
+    raise exception 'Choose a supplier before sending the order';
+  end if;
+  if not exists (select 1 from public.suppliers where id = v_order.supplier_id and is_active) then
+    raise exception 'The supplier on this order is no longer active';
+  end if;
+  if not exists (select 1 from public.purchase_order_lines where purchase_order_id = p_purchase_order_id) then
+    raise exception 'A purchase order needs at least one product';
+  end if;
+
+  update public.purchase_orders
+     set status = 'sent',
+         sent_by_name = public.staff_display_name(auth.uid()),
+         sent_at = now(),
+         updated_at = now()
+   where id = p_purchase_order_id
+  returning * into v_order;
+
+  return to_jsonb(v_order);
+end;
+$$;
+
+-- Books a delivery against a sent order. p_lines is an array of
+-- { purchase_order_line_id, quantity }; lines not delivered are left out.
+-- Each line's stock goes into p_location_id at the order's price, and the
+-- order becomes received once nothing is left open.
+create or replace function public.receive_purchase_order(
+  p_purchase_order_id bigint,
+  p_lines jsonb,
+  p_location_id bigint default null,
+  p_notes text default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order public.purchase_orders;
+  v_supplier public.suppliers;
+  v_location public.locations;
+  v_receipt public.goods_receipts;
+  v_item jsonb;
+  v_line public.purchase_order_lines;
+  v_quantity numeric;
+  v_purchase public.purchases;
+begin
+  perform public.require_role('inventory_clerk', 'manager');
+
+  select * into v_order
+    from public.purchase_orders
+   where id = p_purchase_order_id
+     for update;
+
+  if not found then
+    raise exception 'Purchase order % not found', p_purchase_order_id;
+  end if;
+  if v_order.status not in ('sent', 'partially_received') then
+    raise exception 'Purchase order % is % and cannot be received', p_purchase_order_id, v_order.status;
+  end if;
+
+  if p_lines is null or jsonb_typeof(p_lines) <> 'array' or jsonb_array_length(p_lines) = 0 then
+    raise exception 'Enter what was delivered';
+  end if;
+
+  select * into v_supplier
+    from public.suppliers
+   where id = v_order.supplier_id;
+
+  v_location := public.active_location(p_location_id);
+
+  insert into public.goods_receipts (purchase_order_id, location_id, notes, received_by_name)
+  values (v_order.id, v_location.id, nullif(trim(p_notes), ''), public.staff_display_name(auth.uid()))
+  returning * into v_receipt;
+
+  for v_item in select value from jsonb_array_elements(p_lines)
+  loop
+    v_quantity := (v_item->>'quantity')::numeric;
+    if v_quantity is null or v_quantity <= 0 then
+      raise exception 'Invalid quantity for order line %', v_item->>'purchase_order_line_id';
+    end if;
+
+    select * into v_line
+      from public.purchase_order_lines
+     where id = (v_item->>'purchase_order_line_id')::bigint
+       and purchase_order_id = v_order.id
+       for update;
+
+    if not found then
+      raise exception 'Line % is not on purchase order %', v_item->>'purchase_order_line_id', v_order.id;
+    end if;
+    if v_quantity > v_line.quantity - v_line.quantity_received then
+      raise exception 'Only % of product % is still open on this order',
+        v_line.quantity - v_line.quantity_received, v_line.product_id;
+    end if;
+
+    insert into public.goods_receipt_lines (goods_receipt_id, purchase_order_line_id, quantity)
+    values (v_receipt.id, v_line.id, v_quantity);
+
+    update public.purchase_order_lines
+       set quantity_received = quantity_received + v_quantity
+     where id = v_line.id;
+
+    insert into public.purchases (
+      product_id,
+      quantity,
+      unit_price,
+      total_amount,
+      supplier_id,
+      supplier,
+      purchase_date,
+      notes,
+      location_id,
+      purchase_order_id,
+      goods_receipt_id
+    )
+    values (
+      v_line.product_id,
+      v_quantity,
+      v_line.unit_price,
+      round(v_quantity * v_line.unit_price, 2),
+      v_supplier.id,
+      v_supplier.name,
+      current_date,
+      v_receipt.notes,
+      v_location.id,
+      v_order.id,
+      v_receipt.id
+    )
+    returning * into v_purchase;
+
+    insert into public.stock_movements (product_id, location_id, quantity, reason, reference_id)
+    values (v_line.product_id, v_location.id, v_quantity, 'purchase', v_purchase.id);
+  end loop;
+
+  update public.purchase_orders
+     set status = case
+           when exists (
+             select 1 from public.purchase_order_lines
+              where purchase_order_id = v_order.id
+                and quantity_received < quantity
+           ) then 'partially_received'
+           else 'received'
+         end,
+         updated_at = now()
+   where id = v_order.id;
+
+  return to_jsonb(v_receipt);
+end;
+$$;
+
+drop trigger if exists audit_row_change on public.suppliers;
+create trigger audit_row_change
+  after insert or update or delete on public.suppliers
+  for each row execute function public.audit_row_change('id');
+
+drop trigger if exists audit_row_change on public.supplier_prices;
+create trigger audit_row_change
+  after insert or update or delete on public.supplier_prices
+  for each row execute function public.audit_row_change('id');
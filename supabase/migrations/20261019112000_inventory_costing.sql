@@ -0,0 +1,400 @@
+-- Inventory costing.
+--
+-- Every stock movement now carries what the stock cost. Stock coming in
+-- (a purchase, a production output, a return, a transfer arriving) opens a
+-- cost layer at its unit cost and moves the product's weighted average
+-- cost. Stock going out uses up the oldest open layers first and is costed
+-- by the store's costing method:
+--   * weighted_average: quantity * the product's average cost
+--   * fifo: the cost of the layers it used up
+-- Layers are consumed the same way under both methods, so the store can
+-- switch method without rebuilding anything.
+--
+-- Incoming unit costs come from what caused the movement:
+--   * purchase: the purchase's unit price
+--   * production_in: the cost of the components the batch used
+--   * return: what the sold units cost
+--   * transfer: what the dispatched units cost
+-- Anything else (adjustments, opening stock) comes in at the average cost.
+
+alter table public.store_settings
+  add column if not exists costing_method text not null default 'weighted_average'
+    check (costing_method in ('weighted_average', 'fifo'));
+
+comment on column public.store_settings.costing_method is
+  'How stock going out is costed: weighted_average or fifo.';
+
+alter table public.products
+  add column if not exists average_cost numeric not null default 0 check (average_cost >= 0);
+
+alter table public.stock_movements
+  add column if not exists unit_cost numeric,
+  add column if not exists cost_amount numeric;
+
+comment on column public.stock_movements.cost_amount is
+  'Signed cost of the movement: positive for stock in, negative for stock out.';
+
+-- movement_id is not a foreign key: the layer is written while the
+-- movement itself is still being inserted.
+create table if not exists public.cost_layers (
+  id bigint generated always as identity primary key,
+  product_id bigint not null references public.products (id) on delete cascade,
+  movement_id bigint,
+  quantity numeric not null check (quantity > 0),
+  remaining numeric not null check (remaining >= 0 and remaining <= quantity),
+  unit_cost numeric not null check (unit_cost >= 0),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists cost_layers_open_idx
+  on public.cost_layers (product_id, id)
+  where remaining > 0;
+
+alter table public.cost_layers enable row level security;
+
+drop policy if exists staff_read on public.cost_layers;
+create policy staff_read on public.cost_layers
+  for select to authenticated
+  using ((select public.has_role('inventory_clerk', 'manager')));
+
+-- Cost only changes through the ledger, like stock.
+create or replace function public.products_guard_stock_quantity()
+returns trigger
+language plpgsql
+as $$
+begin
+  if (new.stock_quantity is distinct from old.stock_quantity
+      or new.average_cost is distinct from old.average_cost)
+     and coalesce(current_setting('app.stock_movement', true), 'off') <> 'on' then
+    raise exception 'Stock of % can only be changed by recording a stock movement', old.product_name;
+  end if;
+
+  return new;
+end;
+$$;
+
+create or replace function public.costing_method()
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce((select costing_method from public.store_settings where id = 1), 'weighted_average');
+$$;
+
+revoke execute on function public.costing_method() from public, anon;
+
+-- The unit cost of stock coming in, from what caused the movement. Null
+-- when the cause carries no cost of its own.
+create or replace function public.incoming_unit_cost(p_reason text, p_reference_id bigint, p_product_id bigint)
+returns numeric
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select case p_reason
+    when 'purchase' then (
+      select unit_price
+        from public.purchases
+       where id = p_reference_id
+    )
+    when 'production_in' then (
+      select sum(-m.cost_amount) / nullif(max(b.quantity_produced), 0)
+        from public.production_batches b
+        join public.stock_movements m on m.reason = 'production_out' and m.reference_id = b.id
+       where b.id = p_reference_id
+    )
+    when 'return' then (
+      select sum(m.cost_amount) / nullif(sum(m.quantity), 0)
+        from public.refunds r
+        join public.stock_movements m on m.reason = 'sale' and m.reference_id = r.order_id
+       where r.id = p_reference_id
+         and m.product_id = p_product_id
+    )
+    when 'transfer' then (
+      select sum(m.cost_amount) / nullif(sum(m.quantity), 0)
+        from public.stock_movements m
+       where m.reason = 'transfer'
+         and m.reference_id = p_reference_id
+         and m.product_id = p_product_id
+         and m.quantity < 0
+    )
+  end;
+$$;
+
+revoke execute on function public.incoming_unit_cost(text, bigint, bigint) from public, anon;
+
+-- Applies a movement at its location and costs it. See the header for how
+-- stock in and stock out are costed.
+create or replace function public.stock_movements_apply()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_product public.products;
+  v_layer public.cost_layers;
+  v_layer_quantity numeric;
+  v_needed numeric;
+  v_take numeric;
+  v_layer_cost numeric := 0;
+  v_cost numeric;
+  v_average_cost numeric;
+begin
+  select * into v_product
+    from public.products
+   where id = new.product_id
+     for update;
+
+  if not found then
+    raise exception 'Product % not found', new.product_id;
+  end if;
+
+  new.location_id := coalesce(new.location_id, public.default_location_id());
+  new.quantity_after := coalesce((
+    select m.quantity_after
+      from public.stock_movements m
+     where m.product_id = new.product_id
+       and m.location_id = new.location_id
+     order by m.id desc
+     limit 1
+  ), 0) + new.quantity;
+  new.created_by_name := coalesce(new.created_by_name, public.staff_display_name(new.created_by));
+
+  v_average_cost := v_product.average_cost;
+
+  if new.quantity > 0 then
+    new.unit_cost := coalesce(
+      new.unit_cost,
+      public.incoming_unit_cost(new.reason, new.reference_id, new.product_id),
+      v_product.average_cost
+    );
+    new.cost_amount := new.quantity * new.unit_cost;
+
+    select coalesce(sum(remaining), 0) into v_layer_quantity
+      from public.cost_layers
+     where product_id = new.product_id
+       and remaining > 0;
+
+    insert into public.cost_layers (product_id, movement_id, quantity, remaining, unit_cost)
+    values (new.product_id, new.id, new.quantity, new.quantity, new.unit_cost);
+
+    v_average_cost := (v_layer_quantity * v_product.average_cost + new.cost_amount)
+      / (v_layer_quantity + new.quantity);
+  elsif new.quantity < 0 then
+    v_needed := -new.quantity;
+
+    for v_layer in
+      select *
+        from public.cost_layers
+       where product_id = new.product_id
+         and remaining > 0
+       order by id
+    loop
+      v_take := least(v_layer.remaining, v_needed);
+
+      update public.cost_layers
+         set remaining = remaining - v_take
+       where id = v_layer.id;
+
+      v_layer_cost := v_layer_cost + v_take * v_layer.unit_cost;
+      v_needed := v_needed - v_take;
+      exit when v_needed = 0;
+    end loop;
+
+    -- Stock going out beyond the open layers is costed at the average.
+    if public.costing_method() = 'fifo' then
+      v_cost := v_layer_cost + v_needed * v_product.average_cost;
+    else
+      v_cost := -new.quantity * v_product.average_cost;
+    end if;
+
+    new.unit_cost := v_cost / -new.quantity;
+    new.cost_amount := -v_cost;
+  end if;
+
+  insert into public.stock_levels (product_id, location_id, quantity, updated_at)
+  values (new.product_id, new.location_id, new.quantity_after, now())
+  on conflict (product_id, location_id) do update
+    set quantity = excluded.quantity,
+        updated_at = excluded.updated_at;
+
+  perform set_config('app.stock_movement', 'on', true);
+  update public.products
+     set stock_quantity = (
+           select sum(l.quantity)
+             from public.stock_levels l
+            where l.product_id = new.product_id
+         ),
+         average_cost = v_average_cost,
+         updated_at = now()
+   where id = new.product_id;
+  perform set_config('app.stock_movement', 'off', true);
+
+  return new;
+end;
+$$;
+
+-- Existing stock is costed at its last purchase price, as one opening
+-- layer per product. Stock in transit has already left its layers and is
+-- costed again when it arrives.
+do $$
+begin
+  perform set_config('app.stock_movement', 'on', true);
+  update public.products p
+     set average_cost = coalesce((
+           select pu.unit_price
+             from public.purchases pu
+            where pu.product_id = p.id
+            order by pu.purchase_date desc, pu.id desc
+            limit 1
+         ), 0)
+   where not exists (select 1 from public.cost_layers l where l.product_id = p.id);
+  perform set_config('app.stock_movement', 'off', true);
+end;
+$$;
+
+with costs as (
+  select m.id, coalesce(pu.unit_price, p.average_cost) as unit_cost
+    from public.stock_movements m
+    join public.products p on p.id = m.product_id
+    left join public.purchases pu on m.reason = 'purchase' and pu.id = m.reference_id
+   where m.unit_cost is null
+)
+update public.stock_movements m
+   set unit_cost = c.unit_cost,
+       cost_amount = m.quantity * c.unit_cost
+  from costs c
+ where c.id = m.id;
+
+insert into public.cost_layers (product_id, quantity, remaining, unit_cost)
+select p.id, p.stock_quantity, p.stock_quantity, p.average_cost
+  from public.products p
+ where coalesce(p.stock_quantity, 0) > 0
+   and not p.is_gift_card
+   and not exists (select 1 from public.cost_layers l where l.product_id = p.id);
+
+-- What the stock on hand is worth at cost, by the store's costing method.
+create or replace view public.inventory_valuation
+with (security_invoker = true)
+as
+select
+  p.id as product_id,
+  p.product_name,
+  p.sku,
+  p.category,
+  coalesce(p.stock_quantity, 0) as stock_quantity,
+  s.costing_method,
+  case
+    when s.costing_method = 'fifo' then coalesce(l.value / nullif(l.quantity, 0), p.average_cost)
+    else p.average_cost
+  end as unit_cost,
+  case
+    when s.costing_method = 'fifo' then coalesce(l.value, 0)
+    else greatest(coalesce(p.stock_quantity, 0), 0) * p.average_cost
+  end as inventory_value
+from public.products p
+cross join public.store_settings s
+left join lateral (
+  select sum(cl.remaining) as quantity, sum(cl.remaining * cl.unit_cost) as value
+    from public.cost_layers cl
+   where cl.product_id = p.id
+     and cl.remaining > 0
+) l on true
+where s.id = 1
+  and not p.is_gift_card;
+
+-- Revenue, cost of goods sold and gross margin per order item, after
+-- refunds. Revenue is net of tax and discounts. A refunded unit gives up
+-- its revenue; its cost only comes back when it was restocked.
+create or replace view public.order_item_margins
+with (security_invoker = true)
+as
+with sale_costs as (
+  select
+    m.reference_id as order_id,
+    m.product_id,
+    sum(-m.cost_amount) / nullif(sum(-m.quantity), 0) as unit_cost
+  from public.stock_movements m
+  where m.reason = 'sale'
+  group by m.reference_id, m.product_id
+),
+restocked as (
+  select ri.order_item_id, sum(ri.quantity) as quantity
+    from public.refund_items ri
+   where ri.restocked
+   group by ri.order_item_id
+)
+select
+  oi.id as order_item_id,
+  oi.order_id,
+  o.order_number,
+  o.created_at,
+  o.location_id,
+  oi.product_id,
+  oi.product_name,
+  oi.sku,
+  oi.quantity - oi.refunded_quantity as quantity,
+  v.revenue,
+  v.cost_of_goods,
+  v.revenue - v.cost_of_goods as gross_margin
+from public.order_items oi
+join public.orders o on o.id = oi.order_id
+left join public.products p on p.id = oi.product_id
+left join sale_costs sc on sc.order_id = oi.order_id and sc.product_id = oi.product_id
+left join restocked r on r.order_item_id = oi.id
+cross join lateral (
+  select
+    round(
+      (coalesce(oi.total_price, oi.price * oi.quantity)
+        - case when o.prices_include_tax then oi.tax_amount else 0 end)
+      * (oi.quantity - oi.refunded_quantity) / nullif(oi.quantity, 0),
+      2
+    ) as revenue,
+    round(coalesce(sc.unit_cost, 0) * (oi.quantity - coalesce(r.quantity, 0)), 2) as cost_of_goods
+) v
+where not coalesce(p.is_gift_card, false);
+
+-- Stocktake variances are valued at cost.
+create or replace function public.start_stocktake(
+  p_category text default null,
+  p_notes text default null,
+  p_location_id bigint default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_stocktake public.stocktakes;
+  v_location public.locations;
+  v_lines integer;
+begin
+  perform public.require_role('inventory_clerk', 'manager');
+
+  v_location := public.active_location(p_location_id);
+
+  insert into public.stocktakes (category, location_id, notes, created_by_name)
+  values (nullif(trim(p_category), ''), v_location.id, nullif(trim(p_notes), ''), public.staff_display_name(auth.uid()))
+  returning * into v_stocktake;
+
+  insert into public.stocktake_lines (stocktake_id, product_id, expected_quantity, unit_value)
+  select v_stocktake.id, p.id, coalesce(l.quantity, 0), coalesce(v.unit_cost, 0)
+    from public.products p
+    left join public.stock_levels l on l.product_id = p.id and l.location_id = v_location.id
+    left join public.inventory_valuation v on v.product_id = p.id
+   where not p.is_gift_card
+     and (v_stocktake.category is null or p.category = v_stocktake.category);
+
+  get diagnostics v_lines = row_count;
+  if v_lines = 0 then
+    raise exception 'There are no products to count in %', coalesce(v_stocktake.category, 'the catalogue');
+  end if;
+
+  return to_jsonb(v_stocktake);
+end;
+$$;
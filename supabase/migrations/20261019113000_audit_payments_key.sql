@@ -0,0 +1,7 @@
+-- Payments are keyed by paymentid, not id. The audit trigger was created
+-- with 'id', so payment changes were logged with an empty row_id.
+
+drop trigger if exists audit_row_change on public.payments;
+create trigger audit_row_change
+  after insert or update or delete on public.payments
+  for each row execute function public.audit_row_change('paymentid');
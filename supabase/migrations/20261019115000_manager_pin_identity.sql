@@ -0,0 +1,168 @@
+-- Manager PINs identify nobody on their own.
+--
+-- An approval now names the approving manager and is checked against that
+-- manager's PIN only, so two managers may choose the same PIN and setting a
+-- PIN no longer tells a manager whether a colleague already uses it. Wrong
+-- PINs are throttled both for the user asking and for the manager whose PIN
+-- is being tried: five failures in ten minutes lock either out of PIN
+-- approvals for the rest of that window.
+
+alter table public.manager_pin_failures
+  add column if not exists approver_id uuid references auth.users (id) on delete cascade;
+
+create index if not exists manager_pin_failures_user_id_idx on public.manager_pin_failures (user_id, created_at);
+create index if not exists manager_pin_failures_approver_id_idx on public.manager_pin_failures (approver_id, created_at);
+
+-- Sets the signed-in manager's PIN.
+create or replace function public.set_manager_pin(p_pin text)
+returns void
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+begin
+  perform public.require_role('manager');
+
+  if p_pin is null or p_pin !~ '^[0-9]{4,8}$' then
+    raise exception 'A PIN must be 4 to 8 digits';
+  end if;
+
+  insert into public.manager_pins (user_id, pin_hash)
+  values (auth.uid(), crypt(p_pin, gen_salt('bf')))
+  on conflict (user_id) do update
+    set pin_hash = excluded.pin_hash,
+        updated_at = now();
+end;
+$$;
+
+-- The managers who can approve with a PIN, for the approval prompt.
+create or replace function public.approving_managers()
+returns table (
+  user_id uuid,
+  name text
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  perform public.require_role('cashier', 'inventory_clerk', 'production_operator', 'manager');
+
+  return query
+    select mp.user_id, coalesce(public.staff_display_name(mp.user_id), 'Manager')
+      from public.manager_pins mp
+     where public.staff_roles(mp.user_id) && '{manager,admin}'::text[]
+     order by 2;
+end;
+$$;
+
+revoke execute on function public.approving_managers() from public, anon;
+grant execute on function public.approving_managers() to authenticated;
+
+drop function if exists public.approve_action(text, text, text, numeric, bigint, bigint, bigint, text);
+
+-- Records a manager's approval of an action. Managers approve their own
+-- requests without a PIN; anyone else names the approving manager and
+-- enters that manager's PIN. Returns null, rather than raising, when the
+-- PIN is wrong so that the failed attempt is kept.
+create or replace function public.approve_action(
+  p_action text,
+  p_description text,
+  p_pin text default null,
+  p_amount numeric default null,
+  p_product_id bigint default null,
+  p_order_id bigint default null,
+  p_cash_session_id bigint default null,
+  p_terminal_id text default null,
+  p_approver_id uuid default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+declare
+  v_approver uuid;
+  v_approval public.manager_approvals;
+begin
+  perform public.require_role('cashier', 'inventory_clerk', 'production_operator', 'manager');
+
+  if p_pin is null then
+    if not public.has_role('manager') then
+      raise exception 'A manager PIN is required';
+    end if;
+    v_approver := auth.uid();
+  else
+    if p_approver_id is null then
+      raise exception 'Choose the manager approving this';
+    end if;
+
+    if (
+      select count(*)
+        from public.manager_pin_failures
+       where user_id = auth.uid()
+         and created_at > now() - interval '10 minutes'
+    ) >= 5 then
+      raise exception 'Too many incorrect PINs, try again in a few minutes';
+    end if;
+
+    if (
+      select count(*)
+        from public.manager_pin_failures
+       where approver_id = p_approver_id
+         and created_at > now() - interval '10 minutes'
+    ) >= 5 then
+      raise exception 'Too many incorrect PINs for this manager, try again in a few minutes';
+    end if;
+
+    select mp.user_id into v_approver
+      from public.manager_pins mp
+     where mp.user_id = p_approver_id
+       and mp.pin_hash = crypt(p_pin, mp.pin_hash)
+       and public.staff_roles(mp.user_id) && '{manager,admin}'::text[];
+
+    if v_approver is null then
+      insert into public.manager_pin_failures (user_id, approver_id) values (auth.uid(), p_approver_id);
+      return null;
+    end if;
+  end if;
+
+  insert into public.manager_approvals (
+    action,
+    description,
+    amount,
+    product_id,
+    order_id,
+    cash_session_id,
+    terminal_id,
+    requested_by,
+    requested_by_name,
+    approved_by,
+    approved_by_name,
+    used_at
+  )
+  values (
+    p_action,
+    p_description,
+    p_amount,
+    p_product_id,
+    p_order_id,
+    p_cash_session_id,
+    p_terminal_id,
+    auth.uid(),
+    public.staff_display_name(auth.uid()),
+    v_approver,
+    coalesce(public.staff_display_name(v_approver), 'Manager'),
+    -- Voids and no-sales happen on the terminal, so there is nothing left
+    -- for the server to claim them with.
+    case when p_action in ('void_line', 'no_sale') then now() end
+  )
+  returning * into v_approval;
+
+  return to_jsonb(v_approval);
+end;
+$$;
+
+revoke execute on function public.approve_action(text, text, text, numeric, bigint, bigint, bigint, text, uuid) from public, anon;
+grant execute on function public.approve_action(text, text, text, numeric, bigint, bigint, bigint, text, uuid) to authenticated;
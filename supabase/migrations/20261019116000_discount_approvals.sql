@@ -0,0 +1,565 @@
+-- Manual discounts need a manager's approval.
+--
+-- A manual discount used to be taken as the terminal sent it, with the
+-- authorising user typed in as free text. Each one now carries the id of a
+-- manual_discount approval that names its type and value (and product, for
+-- a line discount). create_pos_order claims the approval, records the
+-- approving manager from it and refuses an amount larger than the approved
+-- percentage or amount of the gross it applies to. Promotion discounts must
+-- name a promotion that is running and stay within what it can give.
+
+alter table public.manager_approvals
+  drop constraint if exists manager_approvals_action_check;
+
+alter table public.manager_approvals
+  add constraint manager_approvals_action_check
+  check (action in ('void_line', 'price_override', 'delete_product', 'refund', 'no_sale', 'manual_discount'));
+
+-- For a manual discount, amount is the approved percentage or amount off.
+alter table public.manager_approvals
+  add column if not exists discount_type text check (discount_type in ('percent', 'amount'));
+
+alter table public.order_discounts
+  add column if not exists approval_id bigint references public.manager_approvals (id);
+
+drop function if exists public.approve_action(text, text, text, numeric, bigint, bigint, bigint, text, uuid);
+
+-- Records a manager's approval of an action. See 20261019115000 for how
+-- the approving manager is identified.
+create or replace function public.approve_action(
+  p_action text,
+  p_description text,
+  p_pin text default null,
+  p_amount numeric default null,
+  p_product_id bigint default null,
+  p_order_id bigint default null,
+  p_cash_session_id bigint default null,
+  p_terminal_id text default null,
+  p_approver_id uuid default null,
+  p_discount_type text default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+declare
+  v_approver uuid;
+  v_approval public.manager_approvals;
+begin
+  perform public.require_role('cashier', 'inventory_clerk', 'production_operator', 'manager');
+
+  if p_pin is null then
+    if not public.has_role('manager') then
+      raise exception 'A manager PIN is required';
+    end if;
+    v_approver := auth.uid();
+  else
+    if p_approver_id is null then
+      raise exception 'Choose the manager approving this';
+    end if;
+
+    if (
+      select count(*)
+        from public.manager_pin_failures
+       where user_id = auth.uid()
+         and created_at > now() - interval '10 minutes'
+    ) >= 5 then
+      raise exception 'Too many incorrect PINs, try again in a few minutes';
+    end if;
+
+    if (
+      select count(*)
+        from public.manager_pin_failures
+       where approver_id = p_approver_id
+         and created_at > now() - interval '10 minutes'
+    ) >= 5 then
+      raise exception 'Too many incorrect PINs for this manager, try again in a few minutes';
+    end if;
+
+    select mp.user_id into v_approver
+      from public.manager_pins mp
+     where mp.user_id = p_approver_id
+       and mp.pin_hash = crypt(p_pin, mp.pin_hash)
+       and public.staff_roles(mp.user_id) && '{manager,admin}'::text[];
+
+    if v_approver is null then
+      insert into public.manager_pin_failures (user_id, approver_id) values (auth.uid(), p_approver_id);
+      return null;
+    end if;
+  end if;
+
+  insert into public.manager_approvals (
+    action,
+    description,
+    amount,
+    discount_type,
+    product_id,
+    order_id,
+    cash_session_id,
+    terminal_id,
+    requested_by,
+    requested_by_name,
+    approved_by,
+    approved_by_name,
+    used_at
+  )
+  values (
+    p_action,
+    p_description,
+    p_amount,
+    p_discount_type,
+    p_product_id,
+    p_order_id,
+    p_cash_session_id,
+    p_terminal_id,
+    auth.uid(),
+    public.staff_display_name(auth.uid()),
+    v_approver,
+    coalesce(public.staff_display_name(v_approver), 'Manager'),
+    -- Voids and no-sales happen on the terminal, so there is nothing left
+    -- for the server to claim them with.
+    case when p_action in ('void_line', 'no_sale') then now() end
+  )
+  returning * into v_approval;
+
+  return to_jsonb(v_approval);
+end;
+$$;
+
+revoke execute on function public.approve_action(text, text, text, numeric, bigint, bigint, bigint, text, uuid, text) from public, anon;
+grant execute on function public.approve_action(text, text, text, numeric, bigint, bigint, bigint, text, uuid, text) to authenticated;
+
+-- Manual discounts are checked against their approvals.
+create or replace function public.create_pos_order(
+  p_items jsonb,
+  p_tenders jsonb,
+  p_discounts jsonb default '[]'::jsonb,
+  p_cash_session_id bigint default null,
+  p_order_number text default null,
+  p_created_at timestamptz default null,
+  p_offline boolean default false,
+  p_customer_id bigint default null,
+  p_location_id bigint default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order public.orders;
+  v_item jsonb;
+  v_tender jsonb;
+  v_product public.products;
+  v_discount jsonb;
+  v_quantity integer;
+  v_line_discount numeric;
+  v_line_discounts numeric := 0;
+  v_recorded_discounts numeric := 0;
+  v_amount numeric;
+  v_method text;
+  v_total numeric;
+  v_paid numeric := 0;
+  v_non_cash numeric := 0;
+  v_methods text[] := '{}';
+  v_session public.cash_sessions;
+  v_existing_id bigint;
+  v_conflicts jsonb := '[]'::jsonb;
+  v_customer public.customers;
+  v_points_earned integer := 0;
+  v_order_item_id bigint;
+  v_unit_price numeric;
+  v_approval public.manager_approvals;
+  v_location_id bigint;
+  v_available numeric;
+  v_discount_product_id bigint;
+  v_discount_base numeric;
+  v_discount_cap numeric;
+  v_discount_approval public.manager_approvals;
+  v_promotion public.promotions;
+begin
+  perform public.require_role('cashier', 'manager');
+  -- A sale replayed from a terminal's outbox may already have reached the
+  -- server on an earlier attempt whose response was lost. The lock makes two
+  -- concurrent replays of the same sale wait for each other.
+  if p_order_number is not null then
+    perform pg_advisory_xact_lock(hashtext(p_order_number));
+
+    select id into v_existing_id
+      from public.orders
+     where order_number = p_order_number;
+
+    if found then
+      return public.pos_order_json(v_existing_id)
+        || jsonb_build_object('stock_conflicts', '[]'::jsonb);
+    end if;
+  end if;
+
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'Cart is empty';
+  end if;
+
+  if p_tenders is null or jsonb_typeof(p_tenders) <> 'array' or jsonb_array_length(p_tenders) = 0 then
+    raise exception 'At least one tender is required';
+  end if;
+
+  -- The share lock keeps the drawer from being closed while a sale into it
+  -- is still being written.
+  select * into v_session
+    from public.cash_sessions
+   where id = p_cash_session_id
+     for share;
+
+  -- An offline sale belongs to the session it was rung up in, even if the
+  -- drawer has been closed by the time the terminal reconnects.
+  if not found or (v_session.status <> 'open' and not p_offline) then
+    raise exception 'Open a cash drawer session before taking payments';
+  end if;
+
+  if p_customer_id is not null then
+    select * into v_customer
+      from public.customers
+     where id = p_customer_id;
+
+    if not found then
+      raise exception 'Customer % not found', p_customer_id;
+    end if;
+  end if;
+
+  -- An offline sale was made at the terminal's location even if that location
+  -- has been closed by the time it reaches the server.
+  if p_offline then
+    v_location_id := coalesce(p_location_id, public.default_location_id());
+  else
+    v_location_id := (public.active_location(p_location_id)).id;
+  end if;
+
+  -- Lock every product in the basket up front, in id order, so two tills
+  -- checking out overlapping baskets cannot deadlock each other.
+  perform 1
+    from public.products
+   where id in (
+     select (value->>'product_id')::bigint
+       from jsonb_array_elements(p_items)
+   )
+   order by id
+   for update;
+
+  insert into public.orders (
+    order_number,
+    total_amount,
+    payment_method,
+    payment_status,
+    order_status,
+    user_id,
+    cash_session_id,
+    customer_id,
+    location_id,
+    billing_address,
+    shipping_address,
+    created_at,
+    synced_at
+  )
+  values (
+    coalesce(p_order_number, 'ORD-' || (extract(epoch from clock_timestamp()) * 1000)::bigint),
+    0,
+    null,
+    'pending',
+    'completed',
+    1,
+    v_session.id,
+    v_customer.id,
+    v_location_id,
+    coalesce(v_customer.billing_address, '{}'::jsonb),
+    coalesce(v_customer.shipping_address, '{}'::jsonb),
+    coalesce(p_created_at, now()),
+    case when p_offline then now() end
+  )
+  returning * into v_order;
+
+  for v_item in select value from jsonb_array_elements(p_items)
+  loop
+    v_quantity := (v_item->>'quantity')::integer;
+    if v_quantity is null or v_quantity <= 0 then
+      raise exception 'Invalid quantity for product %', v_item->>'product_id';
+    end if;
+
+    select * into v_product
+      from public.products
+     where id = (v_item->>'product_id')::bigint;
+
+    if not found then
+      raise exception 'Product % not found', v_item->>'product_id';
+    end if;
+
+    -- An overridden price comes from the manager approval that set it, never
+    -- from the terminal.
+    v_unit_price := v_product.price;
+    if v_item->>'approval_id' is not null then
+      v_approval := public.claim_manager_approval((v_item->>'approval_id')::bigint, 'price_override');
+      if v_approval.product_id is distinct from v_product.id or v_approval.amount is null then
+        raise exception 'Manager approval % was given for a different product', v_approval.id;
+      end if;
+
+      v_unit_price := v_approval.amount;
+      update public.manager_approvals
+         set order_id = v_order.id
+       where id = v_approval.id;
+    end if;
+
+    -- The goods in an offline sale have already left the shop, so a
+    -- shortfall is recorded rather than refused and stock is allowed to go
+    -- negative until it is counted again.
+    v_available := public.location_stock(v_product.id, v_location_id);
+    if not v_product.is_gift_card and v_available < v_quantity then
+      if not p_offline then
+        raise exception 'Not enough stock of %. Requested: %, Available: %',
+          v_product.product_name, v_quantity, v_available;
+      end if;
+
+      v_conflicts := v_conflicts || jsonb_build_object(
+        'product_id', v_product.id,
+        'product_name', v_product.product_name,
+        'requested', v_quantity,
+        'available', v_available
+      );
+    end if;
+
+    v_line_discount := round(coalesce((v_item->>'discount_amount')::numeric, 0), 2);
+    if v_line_discount < 0 or v_line_discount > v_unit_price * v_quantity then
+      raise exception 'Invalid discount for %', v_product.product_name;
+    end if;
+
+    if not v_product.is_gift_card then
+      insert into public.stock_movements (product_id, location_id, quantity, reason, reference_id)
+      values (v_product.id, v_location_id, -v_quantity, 'sale', v_order.id);
+    end if;
+
+    insert into public.order_items (
+      order_id,
+      product_id,
+      product_name,
+      sku,
+      quantity,
+      price,
+      discount_amount,
+      total_price
+    )
+    values (
+      v_order.id,
+      v_product.id,
+      v_product.product_name,
+      v_product.sku,
+      v_quantity,
+      v_unit_price,
+      v_line_discount,
+      v_unit_price * v_quantity - v_line_discount
+    )
+    returning id into v_order_item_id;
+
+    -- Each gift card sold is issued with its own code, loaded with the
+    -- product's price.
+    if v_product.is_gift_card then
+      for i in 1..v_quantity loop
+        perform public.issue_gift_card(
+          'gift_card',
+          v_unit_price,
+          v_customer.id,
+          v_order.id,
+          v_order_item_id,
+          null
+        );
+      end loop;
+    end if;
+
+    v_line_discounts := v_line_discounts + v_line_discount;
+  end loop;
+
+  -- The per-line discount amounts already include each line's share of any
+  -- order-level discount, so the recorded discounts must add up to them.
+  -- Each discount is checked against what allows it: a manual discount
+  -- against the manager approval given for it, a promotion against what the
+  -- running promotion can give on the line. Neither may take more than its
+  -- percentage or amount of the gross it applies to.
+  for v_discount in select value from jsonb_array_elements(coalesce(p_discounts, '[]'::jsonb))
+  loop
+    v_amount := round((v_discount->>'amount')::numeric, 2);
+    if v_amount is null or v_amount < 0 then
+      raise exception 'Invalid discount amount';
+    end if;
+
+    v_discount_product_id := (v_discount->>'product_id')::bigint;
+    select coalesce(sum(oi.price * oi.quantity), 0) into v_discount_base
+      from public.order_items oi
+     where oi.order_id = v_order.id
+       and (v_discount_product_id is null or oi.product_id = v_discount_product_id);
+
+    v_discount_approval := null;
+    if v_discount->>'source' = 'manual' then
+      v_discount_approval := public.claim_manager_approval((v_discount->>'approval_id')::bigint, 'manual_discount');
+      if v_discount_approval.product_id is distinct from v_discount_product_id
+         or v_discount_approval.discount_type is distinct from v_discount->>'discount_type'
+         or v_discount_approval.amount is distinct from (v_discount->>'value')::numeric then
+        raise exception 'Manager approval % was given for a different discount', v_discount_approval.id;
+      end if;
+
+      v_discount_cap := case v_discount_approval.discount_type
+        when 'percent' then round(v_discount_base * v_discount_approval.amount / 100, 2)
+        else v_discount_approval.amount
+      end;
+
+      update public.manager_approvals
+         set order_id = v_order.id
+       where id = v_discount_approval.id;
+    elsif v_discount->>'source' = 'promotion' then
+      select * into v_promotion
+        from public.promotions
+       where id = (v_discount->>'promotion_id')::bigint
+         and is_active
+         and (starts_at is null or starts_at <= v_order.created_at)
+         and (ends_at is null or ends_at >= v_order.created_at);
+
+      if not found or v_discount_product_id is null then
+        raise exception 'Promotion % is not running', coalesce(v_discount->>'promotion_id', '(none)');
+      end if;
+
+      v_discount_cap := round(v_discount_base * case v_promotion.type
+        when 'category_percent' then (v_promotion.config->>'percent')::numeric / 100
+        when 'happy_hour' then (v_promotion.config->>'percent')::numeric / 100
+        when 'buy_x_get_y' then (v_promotion.config->>'get_percent_off')::numeric / 100
+        else 1
+      end, 2);
+    else
+      raise exception 'Unsupported discount source %', coalesce(v_discount->>'source', 'null');
+    end if;
+
+    if v_amount > least(v_discount_cap, v_discount_base) then
+      raise exception 'Discount of % on % is more than allowed (%)',
+        v_amount, coalesce(v_discount->>'description', 'the order'), least(v_discount_cap, v_discount_base);
+    end if;
+
+    insert into public.order_discounts (
+      order_id,
+      order_item_id,
+      source,
+      promotion_id,
+      description,
+      discount_type,
+      value,
+      amount,
+      reason,
+      authorised_by,
+      approval_id
+    )
+    values (
+      v_order.id,
+      (
+        select oi.id
+          from public.order_items oi
+         where oi.order_id = v_order.id
+           and oi.product_id = v_discount_product_id
+         limit 1
+      ),
+      v_discount->>'source',
+      (v_discount->>'promotion_id')::bigint,
+      v_discount->>'description',
+      v_discount->>'discount_type',
+      (v_discount->>'value')::numeric,
+      v_amount,
+      v_discount->>'reason',
+      v_discount_approval.approved_by_name,
+      v_discount_approval.id
+    );
+
+    v_recorded_discounts := v_recorded_discounts + v_amount;
+  end loop;
+
+  if abs(v_recorded_discounts - v_line_discounts) > 0.01 then
+    raise exception 'Discount breakdown (%) does not match line discounts (%)',
+      v_recorded_discounts, v_line_discounts;
+  end if;
+
+  update public.orders
+     set discount_total = v_line_discounts
+   where id = v_order.id;
+
+  perform public.apply_order_tax(v_order.id);
+
+  select total_amount into v_total
+    from public.orders
+   where id = v_order.id;
+
+  for v_tender in select value from jsonb_array_elements(p_tenders)
+  loop
+    v_method := v_tender->>'method';
+    v_amount := round((v_tender->>'amount')::numeric, 2);
+
+    if v_method is null or v_method not in ('cash', 'card', 'points', 'gift_card', 'store_credit') then
+      raise exception 'Unsupported tender method %', coalesce(v_method, 'null');
+    end if;
+
+    if v_amount is null or v_amount <= 0 then
+      raise exception 'Tender amounts must be positive';
+    end if;
+
+    insert into public.payments (
+      order_id,
+      amount,
+      currency,
+      paymentgateway,
+      paymentstatus
+    )
+    values (
+      v_order.id,
+      v_amount,
+      'USD',
+      v_method,
+      'completed'
+    );
+
+    if v_method = 'points' then
+      perform public.redeem_loyalty_points(v_order.id, v_customer.id, v_amount);
+    elsif v_method in ('gift_card', 'store_credit') then
+      perform public.redeem_gift_card(v_tender->>'code', v_method, v_order.id, v_amount);
+    end if;
+
+    v_paid := v_paid + v_amount;
+    if v_method <> 'cash' then
+      v_non_cash := v_non_cash + v_amount;
+    end if;
+    if not v_method = any (v_methods) then
+      v_methods := v_methods || v_method;
+    end if;
+  end loop;
+
+  -- A sale only completes once it is fully paid. Raising here also rolls
+  -- back the order, its stock movements and any redeemed points or cards.
+  if v_paid < v_total then
+    raise exception 'Tenders (%) do not cover the order total (%)', v_paid, v_total;
+  end if;
+
+  -- Change can only be given out of cash.
+  if v_non_cash > v_total then
+    raise exception 'Non-cash tenders (%) exceed the order total (%)', v_non_cash, v_total;
+  end if;
+
+  update public.orders
+     set payment_method = case
+           when array_length(v_methods, 1) = 1 then v_methods[1]
+           else 'split'
+         end,
+         payment_status = 'completed',
+         change_given = greatest(v_paid - v_total, 0)
+   where id = v_order.id
+  returning * into v_order;
+
+  v_points_earned := public.award_order_points(v_order.id);
+
+  return public.pos_order_json(v_order.id)
+    || jsonb_build_object('stock_conflicts', v_conflicts, 'points_earned', v_points_earned);
+end;
+$$;
+
+revoke execute on function public.create_pos_order(jsonb, jsonb, jsonb, bigint, text, timestamptz, boolean, bigint, bigint) from public, anon;
+grant execute on function public.create_pos_order(jsonb, jsonb, jsonb, bigint, text, timestamptz, boolean, bigint, bigint) to authenticated;
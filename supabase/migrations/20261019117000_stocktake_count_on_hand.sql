@@ -0,0 +1,101 @@
+-- Stocktake variances are taken against the stock on hand when each line is
+-- counted.
+--
+-- approve_stocktake posted the count minus the snapshot taken when the
+-- stocktake started, so a sale, receipt or transfer between the snapshot and
+-- the count was posted twice: once as its own movement and again inside the
+-- variance. Each line now records what the ledger held at the counted
+-- location at the moment the count was entered, and the variance is the
+-- count minus that. Movements after the count are left to stand on their
+-- own. Lines counted before this migration keep the snapshot as their base.
+
+alter table public.stocktake_lines
+  add column if not exists on_hand_at_count numeric;
+
+-- Only the count itself may change; the snapshot is fixed, and the on-hand
+-- figure is taken by the server whenever the count changes.
+create or replace function public.stocktake_lines_record_count()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.stocktake_id <> old.stocktake_id
+     or new.product_id <> old.product_id
+     or new.expected_quantity <> old.expected_quantity
+     or new.unit_value <> old.unit_value then
+    raise exception 'Only the counted quantity of a stocktake line can be changed';
+  end if;
+
+  if new.counted_quantity is distinct from old.counted_quantity then
+    new.counted_by_name := public.staff_display_name(auth.uid());
+    new.counted_at := now();
+    new.on_hand_at_count := case
+      when new.counted_quantity is not null then (
+        select coalesce(sum(l.quantity), 0)
+          from public.stocktakes s
+          join public.stock_levels l on l.location_id = s.location_id
+         where s.id = new.stocktake_id
+           and l.product_id = new.product_id
+      )
+    end;
+  else
+    new.on_hand_at_count := old.on_hand_at_count;
+  end if;
+
+  return new;
+end;
+$$;
+
+-- Variances are posted at the location that was counted, against what was
+-- on hand there when the line was counted.
+create or replace function public.approve_stocktake(p_stocktake_id bigint)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_stocktake public.stocktakes;
+  v_line record;
+  v_count integer := 0;
+begin
+  perform public.require_role('manager');
+
+  select * into v_stocktake
+    from public.stocktakes
+   where id = p_stocktake_id
+     for update;
+
+  if not found then
+    raise exception 'Stocktake % not found', p_stocktake_id;
+  end if;
+  if v_stocktake.status <> 'counting' then
+    raise exception 'Stocktake % is already %', p_stocktake_id, v_stocktake.status;
+  end if;
+
+  for v_line in
+    select l.product_id, l.counted_quantity - coalesce(l.on_hand_at_count, l.expected_quantity) as variance
+      from public.stocktake_lines l
+     where l.stocktake_id = p_stocktake_id
+       and l.counted_quantity is not null
+       and l.counted_quantity <> coalesce(l.on_hand_at_count, l.expected_quantity)
+     order by l.product_id
+  loop
+    insert into public.stock_movements (product_id, location_id, quantity, reason, reference_id, note)
+    values (v_line.product_id, v_stocktake.location_id, v_line.variance, 'adjustment', p_stocktake_id, 'Stocktake #' || p_stocktake_id);
+
+    v_count := v_count + 1;
+  end loop;
+
+  update public.stocktakes
+     set status = 'approved',
+         approved_by = auth.uid(),
+         approved_by_name = public.staff_display_name(auth.uid()),
+         approved_at = now()
+   where id = p_stocktake_id;
+
+  return v_count;
+end;
+$$;
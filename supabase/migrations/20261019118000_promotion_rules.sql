@@ -0,0 +1,645 @@
+-- Promotion discounts are checked against the promotion's own rules.
+--
+-- create_pos_order only checked that a promotion was running and capped its
+-- discount at the promotion's percentage, so a terminal could attach any
+-- running promotion to any line. Each promotion discount is now checked the
+-- way src/lib/promotions.ts evaluates it: a category promotion only applies
+-- to its category, a happy hour only inside its days and hours (and
+-- category), buy X get Y only to its product and only for complete groups,
+-- and a bundle only when the whole bundle is in the order and for no more
+-- than it saves. A line takes one promotion at most.
+--
+-- Happy hours are wall-clock windows, so the store's time zone is kept in
+-- store_settings and both the server and the terminals read the clock in it.
+
+alter table public.store_settings
+  add column if not exists time_zone text not null default 'UTC'
+    check (timezone(time_zone, timestamptz '2000-01-01') is not null);
+
+comment on column public.store_settings.time_zone is
+  'IANA time zone the store runs on, e.g. Europe/London. Happy hours are read on this clock.';
+
+-- Minutes past midnight of a 'HH:MM' time.
+create or replace function public.time_of_day_minutes(p_time text)
+returns integer
+language sql
+immutable
+as $$
+  select split_part(p_time, ':', 1)::integer * 60 + coalesce(nullif(split_part(p_time, ':', 2), '')::integer, 0);
+$$;
+
+-- Whether a happy hour's days and window include p_at on the store's clock.
+-- Windows such as 22:00-02:00 wrap past midnight.
+create or replace function public.is_within_happy_hour(p_config jsonb, p_at timestamptz)
+returns boolean
+language plpgsql
+stable
+set search_path = public
+as $$
+declare
+  v_local timestamp;
+  v_minutes integer;
+  v_start integer := public.time_of_day_minutes(p_config->>'start_time');
+  v_end integer := public.time_of_day_minutes(p_config->>'end_time');
+begin
+  select p_at at time zone s.time_zone into v_local
+    from public.store_settings s
+   where s.id = 1;
+
+  v_local := coalesce(v_local, p_at at time zone 'UTC');
+  v_minutes := extract(hour from v_local)::integer * 60 + extract(minute from v_local)::integer;
+
+  if jsonb_array_length(coalesce(p_config->'days', '[]'::jsonb)) > 0
+     and not (p_config->'days') @> to_jsonb(extract(dow from v_local)::integer) then
+    return false;
+  end if;
+
+  return case
+    when v_start <= v_end then v_minutes >= v_start and v_minutes < v_end
+    else v_minutes >= v_start or v_minutes < v_end
+  end;
+end;
+$$;
+
+-- What a bundle promotion saves on an order: the regular price of every
+-- complete bundle less the bundle price. Zero when an item of the bundle is
+-- missing.
+create or replace function public.bundle_saving(p_promotion public.promotions, p_order_id bigint)
+returns numeric
+language plpgsql
+stable
+set search_path = public
+as $$
+declare
+  v_item jsonb;
+  v_quantity numeric;
+  v_gross numeric;
+  v_bundles numeric;
+  v_regular numeric := 0;
+begin
+  if jsonb_array_length(coalesce(p_promotion.config->'items', '[]'::jsonb)) = 0 then
+    return 0;
+  end if;
+
+  for v_item in select value from jsonb_array_elements(p_promotion.config->'items')
+  loop
+    select coalesce(sum(oi.quantity), 0), coalesce(sum(oi.price * oi.quantity), 0)
+      into v_quantity, v_gross
+      from public.order_items oi
+     where oi.order_id = p_order_id
+       and oi.product_id = (v_item->>'product_id')::bigint;
+
+    if v_quantity <= 0 or coalesce((v_item->>'quantity')::numeric, 0) <= 0 then
+      return 0;
+    end if;
+
+    v_bundles := least(v_bundles, floor(v_quantity / (v_item->>'quantity')::numeric));
+    v_regular := v_regular + (v_item->>'quantity')::numeric * v_gross / v_quantity;
+  end loop;
+
+  return greatest(round((v_regular - (p_promotion.config->>'price')::numeric) * v_bundles, 2), 0);
+end;
+$$;
+
+-- The most a promotion can take off one product's line of an order, by the
+-- same rules as the terminal's promotion engine. Zero when the promotion
+-- does not apply to the line.
+create or replace function public.promotion_discount_cap(
+  p_promotion public.promotions,
+  p_order_id bigint,
+  p_product_id bigint,
+  p_at timestamptz
+)
+returns numeric
+language plpgsql
+stable
+set search_path = public
+as $$
+declare
+  v_category text;
+  v_quantity numeric;
+  v_gross numeric;
+  v_config jsonb := p_promotion.config;
+  v_discount numeric := 0;
+begin
+  select coalesce(sum(oi.quantity), 0), coalesce(sum(oi.price * oi.quantity), 0)
+    into v_quantity, v_gross
+    from public.order_items oi
+   where oi.order_id = p_order_id
+     and oi.product_id = p_product_id;
+
+  if v_quantity <= 0 then
+    return 0;
+  end if;
+
+  select category into v_category
+    from public.products
+   where id = p_product_id;
+
+  case p_promotion.type
+    when 'category_percent' then
+      if v_category is not distinct from v_config->>'category' then
+        v_discount := v_gross * (v_config->>'percent')::numeric / 100;
+      end if;
+    when 'happy_hour' then
+      if (coalesce(v_config->>'category', '') = '' or v_category is not distinct from v_config->>'category')
+         and public.is_within_happy_hour(v_config, p_at) then
+        v_discount := v_gross * (v_config->>'percent')::numeric / 100;
+      end if;
+    when 'buy_x_get_y' then
+      if (v_config->>'product_id')::bigint = p_product_id
+         and (v_config->>'buy_quantity')::numeric > 0
+         and (v_config->>'get_quantity')::numeric > 0 then
+        v_discount := floor(v_quantity / ((v_config->>'buy_quantity')::numeric + (v_config->>'get_quantity')::numeric))
+          * (v_config->>'get_quantity')::numeric
+          * (v_gross / v_quantity)
+          * (v_config->>'get_percent_off')::numeric / 100;
+      end if;
+    when 'bundle_price' then
+      -- Each line's share is checked against the whole saving here and the
+      -- shares together once the order's discounts are all recorded.
+      if exists (
+        select 1
+          from jsonb_array_elements(coalesce(v_config->'items', '[]'::jsonb)) i
+         where (i->>'product_id')::bigint = p_product_id
+      ) then
+        v_discount := public.bundle_saving(p_promotion, p_order_id);
+      end if;
+  end case;
+
+  return least(round(v_discount, 2), v_gross);
+end;
+$$;
+
+revoke execute on function public.time_of_day_minutes(text) from public, anon, authenticated;
+revoke execute on function public.is_within_happy_hour(jsonb, timestamptz) from public, anon, authenticated;
+revoke execute on function public.bundle_saving(public.promotions, bigint) from public, anon, authenticated;
+revoke execute on function public.promotion_discount_cap(public.promotions, bigint, bigint, timestamptz) from public, anon, authenticated;
+
+-- Promotion discounts are checked against the promotion's rules.
+create or replace function public.create_pos_order(
+  p_items jsonb,
+  p_tenders jsonb,
+  p_discounts jsonb default '[]'::jsonb,
+  p_cash_session_id bigint default null,
+  p_order_number text default null,
+  p_created_at timestamptz default null,
+  p_offline boolean default false,
+  p_customer_id bigint default null,
+  p_location_id bigint default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order public.orders;
+  v_item jsonb;
+  v_tender jsonb;
+  v_product public.products;
+  v_discount jsonb;
+  v_quantity integer;
+  v_line_discount numeric;
+  v_line_discounts numeric := 0;
+  v_recorded_discounts numeric := 0;
+  v_amount numeric;
+  v_method text;
+  v_total numeric;
+  v_paid numeric := 0;
+  v_non_cash numeric := 0;
+  v_methods text[] := '{}';
+  v_session public.cash_sessions;
+  v_existing_id bigint;
+  v_conflicts jsonb := '[]'::jsonb;
+  v_customer public.customers;
+  v_points_earned integer := 0;
+  v_order_item_id bigint;
+  v_unit_price numeric;
+  v_approval public.manager_approvals;
+  v_location_id bigint;
+  v_available numeric;
+  v_discount_product_id bigint;
+  v_discount_base numeric;
+  v_discount_cap numeric;
+  v_discount_approval public.manager_approvals;
+  v_promotion public.promotions;
+begin
+  perform public.require_role('cashier', 'manager');
+  -- A sale replayed from a terminal's outbox may already have reached the
+  -- server on an earlier attempt whose response was lost. The lock makes two
+  -- concurrent replays of the same sale wait for each other.
+  if p_order_number is not null then
+    perform pg_advisory_xact_lock(hashtext(p_order_number));
+
+    select id into v_existing_id
+      from public.orders
+     where order_number = p_order_number;
+
+    if found then
+      return public.pos_order_json(v_existing_id)
+        || jsonb_build_object('stock_conflicts', '[]'::jsonb);
+    end if;
+  end if;
+
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'Cart is empty';
+  end if;
+
+  if p_tenders is null or jsonb_typeof(p_tenders) <> 'array' or jsonb_array_length(p_tenders) = 0 then
+    raise exception 'At least one tender is required';
+  end if;
+
+  -- The share lock keeps the drawer from being closed while a sale into it
+  -- is still being written.
+  select * into v_session
+    from public.cash_sessions
+   where id = p_cash_session_id
+     for share;
+
+  -- An offline sale belongs to the session it was rung up in, even if the
+  -- drawer has been closed by the time the terminal reconnects.
+  if not found or (v_session.status <> 'open' and not p_offline) then
+    raise exception 'Open a cash drawer session before taking payments';
+  end if;
+
+  if p_customer_id is not null then
+    select * into v_customer
+      from public.customers
+     where id = p_customer_id;
+
+    if not found then
+      raise exception 'Customer % not found', p_customer_id;
+    end if;
+  end if;
+
+  -- An offline sale was made at the terminal's location even if that location
+  -- has been closed by the time it reaches the server.
+  if p_offline then
+    v_location_id := coalesce(p_location_id, public.default_location_id());
+  else
+    v_location_id := (public.active_location(p_location_id)).id;
+  end if;
+
+  -- Lock every product in the basket up front, in id order, so two tills
+  -- checking out overlapping baskets cannot deadlock each other.
+  perform 1
+    from public.products
+   where id in (
+     select (value->>'product_id')::bigint
+       from jsonb_array_elements(p_items)
+   )
+   order by id
+   for update;
+
+  insert into public.orders (
+    order_number,
+    total_amount,
+    payment_method,
+    payment_status,
+    order_status,
+    user_id,
+    cash_session_id,
+    customer_id,
+    location_id,
+    billing_address,
+    shipping_address,
+    created_at,
+    synced_at
+  )
+  values (
+    coalesce(p_order_number, 'ORD-' || (extract(epoch from clock_timestamp()) * 1000)::bigint),
+    0,
+    null,
+    'pending',
+    'completed',
+    1,
+    v_session.id,
+    v_customer.id,
+    v_location_id,
+    coalesce(v_customer.billing_address, '{}'::jsonb),
+    coalesce(v_customer.shipping_address, '{}'::jsonb),
+    coalesce(p_created_at, now()),
+    case when p_offline then now() end
+  )
+  returning * into v_order;
+
+  for v_item in select value from jsonb_array_elements(p_items)
+  loop
+    v_quantity := (v_item->>'quantity')::integer;
+    if v_quantity is null or v_quantity <= 0 then
+      raise exception 'Invalid quantity for product %', v_item->>'product_id';
+    end if;
+
+    select * into v_product
+      from public.products
+     where id = (v_item->>'product_id')::bigint;
+
+    if not found then
+      raise exception 'Product % not found', v_item->>'product_id';
+    end if;
+
+    -- An overridden price comes from the manager approval that set it, never
+    -- from the terminal.
+    v_unit_price := v_product.price;
+    if v_item->>'approval_id' is not null then
+      v_approval := public.claim_manager_approval((v_item->>'approval_id')::bigint, 'price_override');
+      if v_approval.product_id is distinct from v_product.id or v_approval.amount is null then
+        raise exception 'Manager approval % was given for a different product', v_approval.id;
+      end if;
+
+      v_unit_price := v_approval.amount;
+      update public.manager_approvals
+         set order_id = v_order.id
+       where id = v_approval.id;
+    end if;
+
+    -- The goods in an offline sale have already left the shop, so a
+    -- shortfall is recorded rather than refused and stock is allowed to go
+    -- negative until it is counted again.
+    v_available := public.location_stock(v_product.id, v_location_id);
+    if not v_product.is_gift_card and v_available < v_quantity then
+      if not p_offline then
+        raise exception 'Not enough stock of %. Requested: %, Available: %',
+          v_product.product_name, v_quantity, v_available;
+      end if;
+
+      v_conflicts := v_conflicts || jsonb_build_object(
+        'product_id', v_product.id,
+        'product_name', v_product.product_name,
+        'requested', v_quantity,
+        'available', v_available
+      );
+    end if;
+
+    v_line_discount := round(coalesce((v_item->>'discount_amount')::numeric, 0), 2);
+    if v_line_discount < 0 or v_line_discount > v_unit_price * v_quantity then
+      raise exception 'Invalid discount for %', v_product.product_name;
+    end if;
+
+    if not v_product.is_gift_card then
+      insert into public.stock_movements (product_id, location_id, quantity, reason, reference_id)
+      values (v_product.id, v_location_id, -v_quantity, 'sale', v_order.id);
+    end if;
+
+    insert into public.order_items (
+      order_id,
+      product_id,
+      product_name,
+      sku,
+      quantity,
+      price,
+      discount_amount,
+      total_price
+    )
+    values (
+      v_order.id,
+      v_product.id,
+      v_product.product_name,
+      v_product.sku,
+      v_quantity,
+      v_unit_price,
+      v_line_discount,
+      v_unit_price * v_quantity - v_line_discount
+    )
+    returning id into v_order_item_id;
+
+    -- Each gift card sold is issued with its own code, loaded with the
+    -- product's price.
+    if v_product.is_gift_card then
+      for i in 1..v_quantity loop
+        perform public.issue_gift_card(
+          'gift_card',
+          v_unit_price,
+          v_customer.id,
+          v_order.id,
+          v_order_item_id,
+          null
+        );
+      end loop;
+    end if;
+
+    v_line_discounts := v_line_discounts + v_line_discount;
+  end loop;
+
+  -- The per-line discount amounts already include each line's share of any
+  -- order-level discount, so the recorded discounts must add up to them.
+  -- Each discount is checked against what allows it: a manual discount
+  -- against the manager approval given for it, a promotion against what the
+  -- running promotion can give on the line. Neither may take more than its
+  -- percentage or amount of the gross it applies to.
+  for v_discount in select value from jsonb_array_elements(coalesce(p_discounts, '[]'::jsonb))
+  loop
+    v_amount := round((v_discount->>'amount')::numeric, 2);
+    if v_amount is null or v_amount < 0 then
+      raise exception 'Invalid discount amount';
+    end if;
+
+    v_discount_product_id := (v_discount->>'product_id')::bigint;
+    select coalesce(sum(oi.price * oi.quantity), 0) into v_discount_base
+      from public.order_items oi
+     where oi.order_id = v_order.id
+       and (v_discount_product_id is null or oi.product_id = v_discount_product_id);
+
+    v_discount_approval := null;
+    if v_discount->>'source' = 'manual' then
+      v_discount_approval := public.claim_manager_approval((v_discount->>'approval_id')::bigint, 'manual_discount');
+      if v_discount_approval.product_id is distinct from v_discount_product_id
+         or v_discount_approval.discount_type is distinct from v_discount->>'discount_type'
+         or v_discount_approval.amount is distinct from (v_discount->>'value')::numeric then
+        raise exception 'Manager approval % was given for a different discount', v_discount_approval.id;
+      end if;
+
+      v_discount_cap := case v_discount_approval.discount_type
+        when 'percent' then round(v_discount_base * v_discount_approval.amount / 100, 2)
+        else v_discount_approval.amount
+      end;
+
+      update public.manager_approvals
+         set order_id = v_order.id
+       where id = v_discount_approval.id;
+    elsif v_discount->>'source' = 'promotion' then
+      select * into v_promotion
+        from public.promotions
+       where id = (v_discount->>'promotion_id')::bigint
+         and is_active
+         and (starts_at is null or starts_at <= v_order.created_at)
+         and (ends_at is null or ends_at >= v_order.created_at);
+
+      if not found or v_discount_product_id is null then
+        raise exception 'Promotion % is not running', coalesce(v_discount->>'promotion_id', '(none)');
+      end if;
+
+      v_discount_cap := public.promotion_discount_cap(v_promotion, v_order.id, v_discount_product_id, v_order.created_at);
+      if v_discount_cap <= 0 then
+        raise exception 'Promotion % does not apply to %', v_promotion.name,
+          (select product_name from public.products where id = v_discount_product_id);
+      end if;
+    else
+      raise exception 'Unsupported discount source %', coalesce(v_discount->>'source', 'null');
+    end if;
+
+    if v_amount > least(v_discount_cap, v_discount_base) then
+      raise exception 'Discount of % on % is more than allowed (%)',
+        v_amount, coalesce(v_discount->>'description', 'the order'), least(v_discount_cap, v_discount_base);
+    end if;
+
+    insert into public.order_discounts (
+      order_id,
+      order_item_id,
+      source,
+      promotion_id,
+      description,
+      discount_type,
+      value,
+      amount,
+      reason,
+      authorised_by,
+      approval_id
+    )
+    values (
+      v_order.id,
+      (
+        select oi.id
+          from public.order_items oi
+         where oi.order_id = v_order.id
+           and oi.product_id = v_discount_product_id
+         limit 1
+      ),
+      v_discount->>'source',
+      (v_discount->>'promotion_id')::bigint,
+      v_discount->>'description',
+      v_discount->>'discount_type',
+      (v_discount->>'value')::numeric,
+      v_amount,
+      v_discount->>'reason',
+      v_discount_approval.approved_by_name,
+      v_discount_approval.id
+    );
+
+    v_recorded_discounts := v_recorded_discounts + v_amount;
+  end loop;
+
+  -- Promotions do not stack: a line takes one promotion at most.
+  if exists (
+    select 1
+      from public.order_discounts
+     where order_id = v_order.id
+       and source = 'promotion'
+     group by order_item_id
+    having count(distinct promotion_id) > 1
+  ) then
+    raise exception 'A line can only take one promotion';
+  end if;
+
+  -- A bundle's saving is split across its lines, so it is only known in
+  -- full once every line has been recorded.
+  for v_promotion in
+    select p.*
+      from public.promotions p
+     where p.type = 'bundle_price'
+       and p.id in (
+         select promotion_id
+           from public.order_discounts
+          where order_id = v_order.id
+            and source = 'promotion'
+       )
+  loop
+    if (
+      select sum(amount)
+        from public.order_discounts
+       where order_id = v_order.id
+         and promotion_id = v_promotion.id
+    ) > public.bundle_saving(v_promotion, v_order.id) then
+      raise exception 'Promotion % gives more than the bundle saves', v_promotion.name;
+    end if;
+  end loop;
+
+  if abs(v_recorded_discounts - v_line_discounts) > 0.01 then
+    raise exception 'Discount breakdown (%) does not match line discounts (%)',
+      v_recorded_discounts, v_line_discounts;
+  end if;
+
+  update public.orders
+     set discount_total = v_line_discounts
+   where id = v_order.id;
+
+  perform public.apply_order_tax(v_order.id);
+
+  select total_amount into v_total
+    from public.orders
+   where id = v_order.id;
+
+  for v_tender in select value from jsonb_array_elements(p_tenders)
+  loop
+    v_method := v_tender->>'method';
+    v_amount := round((v_tender->>'amount')::numeric, 2);
+
+    if v_method is null or v_method not in ('cash', 'card', 'points', 'gift_card', 'store_credit') then
+      raise exception 'Unsupported tender method %', coalesce(v_method, 'null');
+    end if;
+
+    if v_amount is null or v_amount <= 0 then
+      raise exception 'Tender amounts must be positive';
+    end if;
+
+    insert into public.payments (
+      order_id,
+      amount,
+      currency,
+      paymentgateway,
+      paymentstatus
+    )
+    values (
+      v_order.id,
+      v_amount,
+      'USD',
+      v_method,
+      'completed'
+    );
+
+    if v_method = 'points' then
+      perform public.redeem_loyalty_points(v_order.id, v_customer.id, v_amount);
+    elsif v_method in ('gift_card', 'store_credit') then
+      perform public.redeem_gift_card(v_tender->>'code', v_method, v_order.id, v_amount);
+    end if;
+
+    v_paid := v_paid + v_amount;
+    if v_method <> 'cash' then
+      v_non_cash := v_non_cash + v_amount;
+    end if;
+    if not v_method = any (v_methods) then
+      v_methods := v_methods || v_method;
+    end if;
+  end loop;
+
+  -- A sale only completes once it is fully paid. Raising here also rolls
+  -- back the order, its stock movements and any redeemed points or cards.
+  if v_paid < v_total then
+    raise exception 'Tenders (%) do not cover the order total (%)', v_paid, v_total;
+  end if;
+
+  -- Change can only be given out of cash.
+  if v_non_cash > v_total then
+    raise exception 'Non-cash tenders (%) exceed the order total (%)', v_non_cash, v_total;
+  end if;
+
+  update public.orders
+     set payment_method = case
+           when array_length(v_methods, 1) = 1 then v_methods[1]
+           else 'split'
+         end,
+         payment_status = 'completed',
+         change_given = greatest(v_paid - v_total, 0)
+   where id = v_order.id
+  returning * into v_order;
+
+  v_points_earned := public.award_order_points(v_order.id);
+
+  return public.pos_order_json(v_order.id)
+    || jsonb_build_object('stock_conflicts', v_conflicts, 'points_earned', v_points_earned);
+end;
+$$;
+
+revoke execute on function public.create_pos_order(jsonb, jsonb, jsonb, bigint, text, timestamptz, boolean, bigint, bigint) from public, anon;
+grant execute on function public.create_pos_order(jsonb, jsonb, jsonb, bigint, text, timestamptz, boolean, bigint, bigint) to authenticated;
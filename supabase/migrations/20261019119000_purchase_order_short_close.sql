@@ -0,0 +1,86 @@
+-- Closing a purchase order short.
+--
+-- Only an order nothing had been received against could be cancelled, so a
+-- partially received order whose remaining stock will never arrive stayed
+-- open for ever. It can now be closed short: every line's open quantity is
+-- set aside as closed, the order leaves the open lists as 'closed', and the
+-- reason is kept with it.
+--
+--   draft -> sent -> partially_received -> received
+--   draft or sent -> cancelled
+--   partially_received -> closed
+
+alter table public.purchase_orders
+  drop constraint if exists purchase_orders_status_check;
+
+alter table public.purchase_orders
+  add constraint purchase_orders_status_check
+  check (status in ('draft', 'sent', 'partially_received', 'received', 'cancelled', 'closed'));
+
+alter table public.purchase_orders
+  add column if not exists closed_by_name text,
+  add column if not exists closed_at timestamptz,
+  add column if not exists close_reason text;
+
+-- What was ordered but will not arrive; open is ordered less received less
+-- closed.
+alter table public.purchase_order_lines
+  add column if not exists quantity_closed numeric not null default 0 check (quantity_closed >= 0);
+
+alter table public.purchase_order_lines
+  drop constraint if exists purchase_order_lines_received_check;
+
+alter table public.purchase_order_lines
+  add constraint purchase_order_lines_received_check
+  check (quantity_received + quantity_closed <= quantity);
+
+-- Closes a partially received order: what is still open on each line will
+-- not be delivered. An order nothing has arrived against is cancelled
+-- instead.
+create or replace function public.close_purchase_order(p_purchase_order_id bigint, p_reason text)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order public.purchase_orders;
+begin
+  perform public.require_role('inventory_clerk', 'manager');
+
+  if nullif(trim(p_reason), '') is null then
+    raise exception 'Say why the rest of the order will not arrive';
+  end if;
+
+  select * into v_order
+    from public.purchase_orders
+   where id = p_purchase_order_id
+     for update;
+
+  if not found then
+    raise exception 'Purchase order % not found', p_purchase_order_id;
+  end if;
+  if v_order.status <> 'partially_received' then
+    raise exception 'Only a partially received purchase order can be closed short';
+  end if;
+
+  update public.purchase_order_lines
+     set quantity_closed = quantity - quantity_received
+   where purchase_order_id = p_purchase_order_id
+     and quantity_received + quantity_closed < quantity;
+
+  update public.purchase_orders
+     set status = 'closed',
+         closed_by_name = public.staff_display_name(auth.uid()),
+         closed_at = now(),
+         close_reason = trim(p_reason),
+         updated_at = now()
+   where id = p_purchase_order_id
+  returning * into v_order;
+
+  return to_jsonb(v_order);
+end;
+$$;
+
+revoke execute on function public.close_purchase_order(bigint, text) from public, anon;
+grant execute on function public.close_purchase_order(bigint, text) to authenticated;
@@ -0,0 +1,51 @@
+-- Reorder alerts count stock already on order.
+--
+-- reorder_alerts compared only the stock on hand with the reorder point, so
+-- a product stayed in alert after a purchase order had been raised for it
+-- and the next reorder from the alerts ordered the same stock again. What
+-- is still open on draft, sent and partially received orders now counts
+-- towards the reorder point and comes off the suggested quantity.
+
+drop view if exists public.reorder_alerts;
+
+-- Products whose stock on hand plus stock on order is at or below their
+-- reorder point. A product without one is only listed once it runs out
+-- with nothing on order. The suggested quantity is the usual reorder
+-- quantity, or more when that would still leave stock below the reorder
+-- point.
+create view public.reorder_alerts
+with (security_invoker = true)
+as
+select
+  p.id as product_id,
+  p.product_name,
+  p.sku,
+  p.category,
+  coalesce(p.stock_quantity, 0) as stock_quantity,
+  coalesce(o.on_order_quantity, 0) as on_order_quantity,
+  p.reorder_point,
+  p.reorder_quantity,
+  p.preferred_supplier_id,
+  s.name as preferred_supplier,
+  greatest(
+    coalesce(p.reorder_quantity, 0),
+    coalesce(p.reorder_point, 0) - coalesce(p.stock_quantity, 0) - coalesce(o.on_order_quantity, 0)
+  ) as suggested_quantity,
+  (
+    select pu.unit_price
+      from public.purchases pu
+     where pu.product_id = p.id
+     order by pu.purchase_date desc, pu.id desc
+     limit 1
+  ) as last_unit_price
+from public.products p
+left join public.suppliers s on s.id = p.preferred_supplier_id
+left join lateral (
+  select sum(l.quantity - l.quantity_received - l.quantity_closed) as on_order_quantity
+    from public.purchase_order_lines l
+    join public.purchase_orders po on po.id = l.purchase_order_id
+   where l.product_id = p.id
+     and po.status in ('draft', 'sent', 'partially_received')
+) o on true
+where not p.is_gift_card
+  and coalesce(p.stock_quantity, 0) + coalesce(o.on_order_quantity, 0) <= coalesce(p.reorder_point, 0);
@@ -0,0 +1,326 @@
+-- Refund approvals and loyalty points follow the whole order.
+--
+-- The manager-approval threshold was checked against each refund on its
+-- own, so a refund over the threshold could be given as several smaller
+-- ones. It is now checked against everything refunded on the order. A
+-- refund also takes back the loyalty points the order earned for the share
+-- of it that was refunded, as a negative 'refund' row in rewards.
+
+-- Points taken back by refunds come off what was earned rather than
+-- counting as redeemed.
+create or replace view public.loyalty_balances
+with (security_invoker = true)
+as
+select customer_id,
+       coalesce(sum(amount), 0)::integer as points_balance,
+       coalesce(sum(amount) filter (where amount > 0 or reward_type = 'refund'), 0)::integer as points_earned,
+       coalesce(-sum(amount) filter (where amount < 0 and reward_type is distinct from 'refund'), 0)::integer as points_redeemed
+  from public.rewards
+ where customer_id is not null
+   and currency = 'PTS'
+ group by customer_id;
+
+-- The approval threshold and the points taken back go by everything refunded
+-- on the order so far.
+create or replace function public.create_refund(
+  p_order_id bigint,
+  p_items jsonb,
+  p_refund_method text,
+  p_reason text default null,
+  p_cash_session_id bigint default null,
+  p_approval_id bigint default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order public.orders;
+  v_refund public.refunds;
+  v_item jsonb;
+  v_order_item public.order_items;
+  v_quantity integer;
+  v_line_total numeric;
+  v_amount numeric;
+  v_total numeric := 0;
+  v_restock boolean;
+  v_previously_refunded numeric;
+  v_last_refund_item_id bigint;
+  v_session public.cash_sessions;
+  v_card public.gift_cards;
+  v_voided integer;
+  v_store_credit public.gift_cards;
+  v_threshold numeric;
+  v_approval public.manager_approvals;
+  v_points_earned integer;
+  v_points_taken integer;
+  v_points integer;
+begin
+  perform public.require_role('cashier', 'manager');
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'Select at least one item to refund';
+  end if;
+
+  if p_refund_method is null or p_refund_method not in ('cash', 'card', 'store_credit') then
+    raise exception 'Unsupported refund method %', coalesce(p_refund_method, 'null');
+  end if;
+
+  if p_cash_session_id is not null then
+    select * into v_session
+      from public.cash_sessions
+     where id = p_cash_session_id
+       for share;
+
+    if not found or v_session.status <> 'open' then
+      raise exception 'Cash drawer session % is not open', p_cash_session_id;
+    end if;
+  elsif p_refund_method = 'cash' then
+    raise exception 'Open a cash drawer session before giving cash refunds';
+  end if;
+
+  select * into v_order
+    from public.orders
+   where id = p_order_id
+     for update;
+
+  if not found then
+    raise exception 'Order % not found', p_order_id;
+  end if;
+
+  if v_order.order_status = 'refunded' then
+    raise exception 'Order % has already been fully refunded', v_order.order_number;
+  end if;
+
+  if v_order.order_status not in ('completed', 'partially_refunded') then
+    raise exception 'Only completed orders can be refunded';
+  end if;
+
+  select coalesce(sum(amount), 0) into v_previously_refunded
+    from public.refunds
+   where order_id = v_order.id;
+
+  insert into public.refunds (refund_number, order_id, amount, refund_method, reason, cash_session_id)
+  values (
+    'RFD-' || (extract(epoch from clock_timestamp()) * 1000)::bigint,
+    v_order.id,
+    0,
+    p_refund_method,
+    p_reason,
+    v_session.id
+  )
+  returning * into v_refund;
+
+  for v_item in select value from jsonb_array_elements(p_items)
+  loop
+    v_quantity := (v_item->>'quantity')::integer;
+    v_restock := coalesce((v_item->>'restock')::boolean, true);
+
+    select * into v_order_item
+      from public.order_items
+     where id = (v_item->>'order_item_id')::bigint
+       and order_id = v_order.id
+       for update;
+
+    if not found then
+      raise exception 'Item % does not belong to order %', v_item->>'order_item_id', v_order.order_number;
+    end if;
+
+    if v_quantity is null or v_quantity <= 0
+       or v_quantity > v_order_item.quantity - v_order_item.refunded_quantity then
+      raise exception 'Cannot refund % of %: only % left to refund',
+        coalesce(v_quantity, 0), v_order_item.product_name,
+        v_order_item.quantity - v_order_item.refunded_quantity;
+    end if;
+
+    -- What the customer actually paid for the line: its discounted total plus
+    -- any tax added on top of it.
+    v_line_total := coalesce(v_order_item.total_price, v_order_item.price * v_order_item.quantity)
+      + case when v_order.prices_include_tax then 0 else v_order_item.tax_amount end;
+
+    -- Returning the last units of a line refunds whatever is left of it, so
+    -- rounding never leaves a cent behind.
+    if v_quantity = v_order_item.quantity - v_order_item.refunded_quantity then
+      v_amount := v_line_total - v_order_item.refunded_amount;
+    else
+      v_amount := round(v_line_total * v_quantity / v_order_item.quantity, 2);
+    end if;
+
+    -- Gift cards sold on the line are taken back by voiding them, which is
+    -- only possible while they are unspent. They never go back on the shelf.
+    if exists (select 1 from public.gift_cards where issued_order_item_id = v_order_item.id) then
+      v_restock := false;
+      v_voided := 0;
+
+      for v_card in
+        select *
+          from public.gift_cards
+         where issued_order_item_id = v_order_item.id
+           and status = 'active'
+           and balance = initial_amount
+         order by id
+         limit v_quantity
+           for update
+      loop
+        insert into public.gift_card_transactions (gift_card_id, transaction_type, amount, refund_id, note)
+        values (v_card.id, 'void', -v_card.balance, v_refund.id, 'Refunded');
+
+        update public.gift_cards
+           set status = 'void',
+               updated_at = now()
+         where id = v_card.id;
+
+        v_voided := v_voided + 1;
+      end loop;
+
+      if v_voided < v_quantity then
+        raise exception 'Only % of the gift cards sold on this order are unspent and can be refunded', v_voided;
+      end if;
+    end if;
+
+    update public.order_items
+       set refunded_quantity = refunded_quantity + v_quantity,
+           refunded_amount = refunded_amount + v_amount
+     where id = v_order_item.id;
+
+    if v_restock then
+      insert into public.stock_movements (product_id, location_id, quantity, reason, reference_id)
+      values (v_order_item.product_id, v_order.location_id, v_quantity, 'return', v_refund.id);
+    end if;
+
+    insert into public.refund_items (refund_id, order_item_id, quantity, amount, restocked)
+    values (v_refund.id, v_order_item.id, v_quantity, v_amount, v_restock)
+    returning id into v_last_refund_item_id;
+
+    v_total := v_total + v_amount;
+  end loop;
+
+  -- Line taxes are rounded individually, so once every unit is back the final
+  -- refund settles the order to exactly what was paid.
+  if not exists (
+    select 1
+      from public.order_items
+     where order_id = v_order.id
+       and refunded_quantity < quantity
+  ) and v_previously_refunded + v_total <> v_order.total_amount then
+    update public.refund_items
+       set amount = amount + (v_order.total_amount - v_previously_refunded - v_total)
+     where id = v_last_refund_item_id;
+    update public.order_items
+       set refunded_amount = refunded_amount + (v_order.total_amount - v_previously_refunded - v_total)
+     where id = (select order_item_id from public.refund_items where id = v_last_refund_item_id);
+    v_total := v_order.total_amount - v_previously_refunded;
+  end if;
+
+  -- Once the refunds on an order come to more than the store's threshold,
+  -- each further refund needs a manager's approval for this order, so a
+  -- large refund cannot be split into small ones.
+  select refund_approval_threshold into v_threshold
+    from public.store_settings
+   where id = 1;
+
+  if v_threshold is not null and v_previously_refunded + v_total > v_threshold then
+    if p_approval_id is null then
+      raise exception 'Refunds over % on an order need a manager''s approval', v_threshold;
+    end if;
+
+    v_approval := public.claim_manager_approval(p_approval_id, 'refund');
+    if v_approval.order_id is distinct from v_order.id then
+      raise exception 'Manager approval % was given for a different order', p_approval_id;
+    end if;
+
+    update public.manager_approvals
+       set refund_id = v_refund.id
+     where id = v_approval.id;
+  end if;
+
+  update public.refunds
+     set amount = v_total
+   where id = v_refund.id
+  returning * into v_refund;
+
+  insert into public.payments (
+    order_id,
+    refund_id,
+    amount,
+    currency,
+    paymentgateway,
+    paymentstatus
+  )
+  values (
+    v_order.id,
+    v_refund.id,
+    -v_total,
+    'USD',
+    p_refund_method,
+    'refunded'
+  );
+
+  -- The points the order earned are taken back in proportion to what has
+  -- been refunded of it. Working from the running total means the last
+  -- refund takes back whatever is left.
+  select coalesce(sum(amount) filter (where reward_type = 'earn'), 0),
+         coalesce(-sum(amount) filter (where reward_type = 'refund'), 0)
+    into v_points_earned, v_points_taken
+    from public.rewards
+   where order_id = v_order.id
+     and customer_id = v_order.customer_id
+     and currency = 'PTS';
+
+  if v_points_earned > 0 and v_order.total_amount > 0 then
+    v_points := round(v_points_earned * least((v_previously_refunded + v_total) / v_order.total_amount, 1))
+      - v_points_taken;
+
+    if v_points > 0 then
+      insert into public.rewards (userid, customer_id, order_id, amount, currency, reward_type, description)
+      values (
+        v_order.customer_id::text,
+        v_order.customer_id,
+        v_order.id,
+        -v_points,
+        'PTS',
+        'refund',
+        'Taken back for ' || v_refund.refund_number
+      );
+    end if;
+  end if;
+
+  if p_refund_method = 'store_credit' then
+    v_store_credit := public.issue_gift_card(
+      'store_credit',
+      v_total,
+      v_order.customer_id,
+      null,
+      null,
+      v_refund.id
+    );
+  end if;
+
+  update public.orders
+     set order_status = case
+           when exists (
+             select 1
+               from public.order_items
+              where order_id = v_order.id
+                and refunded_quantity < quantity
+           ) then 'partially_refunded'
+           else 'refunded'
+         end,
+         updated_at = now()
+   where id = v_order.id;
+
+  return to_jsonb(v_refund) || jsonb_build_object(
+    'items',
+    (
+      select coalesce(jsonb_agg(to_jsonb(ri) order by ri.id), '[]'::jsonb)
+        from public.refund_items ri
+       where ri.refund_id = v_refund.id
+    ),
+    'store_credit',
+    case when v_store_credit.id is not null then to_jsonb(v_store_credit) end
+  );
+end;
+$$;
+
+revoke execute on function public.create_refund(bigint, jsonb, text, text, bigint, bigint) from public, anon;
+grant execute on function public.create_refund(bigint, jsonb, text, text, bigint, bigint) to authenticated;
@@ -0,0 +1,76 @@
+-- Only a sale replayed from the drawer's own terminal is taken as offline;
+-- anything else claiming to be offline gets the online checks.
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(5);
+
+insert into auth.users (id, email)
+values ('00000000-0000-0000-0000-00000000e001', 'offline.cashier@example.com');
+
+insert into public.grants (granteeid, grantorid, privilege)
+values ('00000000-0000-0000-0000-00000000e001', 'test', 4);
+
+select set_config('request.jwt.claim.sub', '00000000-0000-0000-0000-00000000e001', true);
+
+insert into public.products (product_name, price, sku, stock_quantity)
+values ('Last One', 10, 'OFF-TEST-1', 1);
+
+insert into public.cash_sessions (terminal_id, opened_by, opening_float, opened_at)
+values ('T-OFFTEST1', 'test', 0, now() - interval '1 hour');
+
+-- Sells two of the product as a sale rung up at p_at, numbered by p_terminal.
+create function pg_temp.sell(p_terminal text, p_at timestamptz)
+returns jsonb
+language sql
+as $$
+  select public.create_pos_order(
+    p_items => jsonb_build_array(jsonb_build_object(
+      'product_id', (select id from public.products where sku = 'OFF-TEST-1'),
+      'quantity', 2
+    )),
+    p_tenders => '[{"method": "cash", "amount": 100}]',
+    p_cash_session_id => (select id from public.cash_sessions where terminal_id = 'T-OFFTEST1'),
+    p_order_number => 'ORD-' || (extract(epoch from p_at) * 1000)::bigint || '-' || p_terminal,
+    p_created_at => p_at,
+    p_offline => true
+  );
+$$;
+
+select throws_like(
+  $$select pg_temp.sell('OTHERTILL', now() - interval '10 minutes')$$,
+  'Not enough stock of %',
+  'a sale numbered by another terminal is not taken as offline'
+);
+
+select throws_like(
+  $$select pg_temp.sell('OFFTEST1', now())$$,
+  'Not enough stock of %',
+  'a sale made as it reaches the server is not taken as offline'
+);
+
+select is(
+  jsonb_array_length(pg_temp.sell('OFFTEST1', now() - interval '10 minutes')->'stock_conflicts'),
+  1,
+  'a replayed sale reports its shortfall instead of failing'
+);
+
+update public.cash_sessions
+   set status = 'closed', closed_by = 'test', closed_at = now() - interval '5 minutes'
+ where terminal_id = 'T-OFFTEST1';
+
+select lives_ok(
+  $$select pg_temp.sell('OFFTEST1', now() - interval '8 minutes')$$,
+  'a sale made before the drawer closed is replayed into it'
+);
+
+select throws_like(
+  $$select pg_temp.sell('OFFTEST1', now() - interval '2 minutes')$$,
+  'Open a cash drawer session%',
+  'a sale claimed after the drawer closed is refused'
+);
+
+select * from finish();
+
+rollback;
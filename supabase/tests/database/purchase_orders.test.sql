@@ -0,0 +1,101 @@
+-- A partially received purchase order can be closed short, which leaves
+-- nothing open on it.
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(6);
+
+insert into auth.users (id, email)
+values ('00000000-0000-0000-0000-00000000b001', 'purchasing.manager@example.com');
+
+insert into public.grants (granteeid, grantorid, privilege)
+values ('00000000-0000-0000-0000-00000000b001', 'test', 4);
+
+select set_config('request.jwt.claim.sub', '00000000-0000-0000-0000-00000000b001', true);
+
+insert into public.products (product_name, price, sku, stock_quantity)
+values ('Short Shipped', 10, 'PO-TEST-1', 0);
+
+insert into public.suppliers (name) values ('Short Close Supplies');
+
+create temporary table test_orders (name text primary key, id bigint) on commit drop;
+
+insert into test_orders
+select name, (public.create_purchase_order(
+  (select id from public.suppliers where name = 'Short Close Supplies'),
+  jsonb_build_array(jsonb_build_object(
+    'product_id', (select id from public.products where sku = 'PO-TEST-1'),
+    'quantity', 10,
+    'unit_price', 4
+  ))
+)->>'id')::bigint
+  from unnest(array['partial', 'unreceived']) as name;
+
+select public.send_purchase_order(id) from test_orders;
+
+select public.receive_purchase_order(
+  (select id from test_orders where name = 'partial'),
+  jsonb_build_array(jsonb_build_object(
+    'purchase_order_line_id', (
+      select l.id
+        from public.purchase_order_lines l
+       where l.purchase_order_id = (select id from test_orders where name = 'partial')
+    ),
+    'quantity', 6
+  ))
+);
+
+select throws_ok(
+  $$select public.close_purchase_order((select id from test_orders where name = 'partial'), ' ')$$,
+  'Say why the rest of the order will not arrive',
+  'closing short needs a reason'
+);
+
+select throws_ok(
+  $$select public.close_purchase_order((select id from test_orders where name = 'unreceived'), 'Discontinued')$$,
+  'Only a partially received purchase order can be closed short',
+  'an order nothing has arrived against is cancelled, not closed'
+);
+
+select is(
+  public.close_purchase_order((select id from test_orders where name = 'partial'), 'Discontinued by supplier')->>'status',
+  'closed',
+  'a partially received order closes short'
+);
+
+select is(
+  (select close_reason from public.purchase_orders where id = (select id from test_orders where name = 'partial')),
+  'Discontinued by supplier',
+  'the reason is kept with the order'
+);
+
+select is(
+  (
+    select l.quantity - l.quantity_received - l.quantity_closed
+      from public.purchase_order_lines l
+     where l.purchase_order_id = (select id from test_orders where name = 'partial')
+  ),
+  0::numeric,
+  'nothing is left open on the closed order'
+);
+
+select throws_like(
+  $$select public.receive_purchase_order(
+    (select id from test_orders where name = 'partial'),
+    jsonb_build_array(jsonb_build_object(
+      'purchase_order_line_id', (
+        select l.id
+          from public.purchase_order_lines l
+         where l.purchase_order_id = (select id from test_orders where name = 'partial')
+      ),
+      'quantity', 1
+    ))
+  )$$,
+  '%is closed and cannot be received',
+  'a closed order takes no more deliveries'
+);
+
+select * from finish();
+
+rollback;
@@ -0,0 +1,86 @@
+-- Refund approvals go by everything refunded on the order, and refunds take
+-- back the loyalty points earned on what was refunded.
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(4);
+
+insert into auth.users (id, email)
+values ('00000000-0000-0000-0000-00000000f001', 'refund.cashier@example.com');
+
+insert into public.grants (granteeid, grantorid, privilege)
+values ('00000000-0000-0000-0000-00000000f001', 'test', 4);
+
+select set_config('request.jwt.claim.sub', '00000000-0000-0000-0000-00000000f001', true);
+
+update public.store_settings
+   set refund_approval_threshold = 50
+ where id = 1;
+
+insert into public.loyalty_earn_rules (name, points_per_dollar)
+values ('Refund test points', 1);
+
+insert into public.customers (name, email)
+values ('Refund Customer', 'refund.customer@example.com');
+
+insert into public.products (product_name, price, sku, stock_quantity)
+values ('Returned Twice', 40, 'RF-TEST-1', 5);
+
+insert into public.cash_sessions (terminal_id, opened_by, opening_float)
+values ('refund-test', 'test', 0);
+
+create temporary table test_order on commit drop as
+select (public.create_pos_order(
+  p_items => jsonb_build_array(jsonb_build_object(
+    'product_id', (select id from public.products where sku = 'RF-TEST-1'),
+    'quantity', 2
+  )),
+  p_tenders => '[{"method": "cash", "amount": 200}]',
+  p_cash_session_id => (select id from public.cash_sessions where terminal_id = 'refund-test'),
+  p_customer_id => (select id from public.customers where email = 'refund.customer@example.com')
+)->>'id')::bigint as id;
+
+-- Refunds one of the two units.
+create function pg_temp.refund_one()
+returns jsonb
+language sql
+as $$
+  select public.create_refund(
+    (select id from test_order),
+    jsonb_build_array(jsonb_build_object(
+      'order_item_id', (select oi.id from public.order_items oi where oi.order_id = (select id from test_order)),
+      'quantity', 1
+    )),
+    'cash',
+    null,
+    (select id from public.cash_sessions where terminal_id = 'refund-test')
+  );
+$$;
+
+select lives_ok(
+  $$select pg_temp.refund_one()$$,
+  'a refund under the threshold needs no approval'
+);
+
+select is(
+  (select sum(amount) from public.rewards where order_id = (select id from test_order) and reward_type = 'refund'),
+  -40::numeric,
+  'half the order refunded takes back half of its 80 points'
+);
+
+select throws_like(
+  $$select pg_temp.refund_one()$$,
+  'Refunds over % on an order need a manager''s approval',
+  'a refund that takes the order past the threshold needs approval'
+);
+
+select is(
+  (select count(*) from public.refunds where order_id = (select id from test_order)),
+  1::bigint,
+  'the refund that needed approval was not made'
+);
+
+select * from finish();
+
+rollback;
@@ -0,0 +1,53 @@
+-- Reorder alerts count what is still open on purchase orders as stock.
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(3);
+
+insert into auth.users (id, email)
+values ('00000000-0000-0000-0000-00000000c001', 'reorder.manager@example.com');
+
+insert into public.grants (granteeid, grantorid, privilege)
+values ('00000000-0000-0000-0000-00000000c001', 'test', 4);
+
+select set_config('request.jwt.claim.sub', '00000000-0000-0000-0000-00000000c001', true);
+
+insert into public.products (product_name, price, sku, stock_quantity, reorder_point, reorder_quantity)
+values
+  ('Partly On Order', 10, 'RA-TEST-1', 2, 10, 5),
+  ('Covered By Order', 10, 'RA-TEST-2', 2, 10, 5);
+
+insert into public.suppliers (name) values ('Reorder Supplies');
+
+select public.create_purchase_order(
+  (select id from public.suppliers where name = 'Reorder Supplies'),
+  jsonb_build_array(jsonb_build_object(
+    'product_id', p.id,
+    'quantity', q.quantity,
+    'unit_price', 4
+  ))
+)
+  from (values ('RA-TEST-1', 2), ('RA-TEST-2', 9)) as q(sku, quantity)
+  join public.products p on p.sku = q.sku;
+
+select is(
+  (select on_order_quantity from public.reorder_alerts where sku = 'RA-TEST-1'),
+  2::numeric,
+  'the quantity open on purchase orders is shown'
+);
+
+select is(
+  (select suggested_quantity from public.reorder_alerts where sku = 'RA-TEST-1'),
+  6::numeric,
+  'the suggestion tops up to the reorder point after what is on order'
+);
+
+select ok(
+  not exists (select 1 from public.reorder_alerts where sku = 'RA-TEST-2'),
+  'a product whose stock on order covers the reorder point is not listed'
+);
+
+select * from finish();
+
+rollback;
@@ -0,0 +1,73 @@
+-- Stocktake variances are taken against the stock on hand when each line is
+-- counted, so movements during the count are not posted twice.
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(3);
+
+insert into auth.users (id, email)
+values ('00000000-0000-0000-0000-00000000a001', 'stocktake.manager@example.com');
+
+insert into public.grants (granteeid, grantorid, privilege)
+values ('00000000-0000-0000-0000-00000000a001', 'test', 4);
+
+select set_config('request.jwt.claim.sub', '00000000-0000-0000-0000-00000000a001', true);
+
+insert into public.products (product_name, price, sku, stock_quantity, category)
+values
+  ('Sold During Count', 10, 'ST-TEST-1', 5, 'stocktake-test'),
+  ('Sold After Count', 10, 'ST-TEST-2', 5, 'stocktake-test');
+
+insert into public.cash_sessions (terminal_id, opened_by, opening_float)
+values ('stocktake-test', 'test', 0);
+
+select public.start_stocktake('stocktake-test', null, null);
+
+-- Two units of the first product leave between the snapshot and its count.
+select public.create_pos_order(
+  jsonb_build_array(jsonb_build_object(
+    'product_id', (select id from public.products where sku = 'ST-TEST-1'),
+    'quantity', 2
+  )),
+  '[{"method": "cash", "amount": 100}]',
+  '[]',
+  (select id from public.cash_sessions where terminal_id = 'stocktake-test')
+);
+
+update public.stocktake_lines
+   set counted_quantity = 3
+ where product_id in (select id from public.products where sku in ('ST-TEST-1', 'ST-TEST-2'));
+
+-- One unit of the second product leaves after it was counted.
+select public.create_pos_order(
+  jsonb_build_array(jsonb_build_object(
+    'product_id', (select id from public.products where sku = 'ST-TEST-2'),
+    'quantity', 1
+  )),
+  '[{"method": "cash", "amount": 100}]',
+  '[]',
+  (select id from public.cash_sessions where terminal_id = 'stocktake-test')
+);
+
+select is(
+  (select public.approve_stocktake(id) from public.stocktakes where category = 'stocktake-test'),
+  1,
+  'only the line whose count differs from the stock on hand is adjusted'
+);
+
+select is(
+  (select stock_quantity from public.products where sku = 'ST-TEST-1'),
+  3,
+  'a sale between the snapshot and the count is not posted again'
+);
+
+select is(
+  (select stock_quantity from public.products where sku = 'ST-TEST-2'),
+  2,
+  'a sale after the count stands on its own'
+);
+
+select * from finish();
+
+rollback;